@@ -26,6 +26,20 @@ import {
   analyzeAppropriateness, 
   suggestAppropriateMinAmount 
 } from '@/services/geminiAnalysisService';
+import type { NormalizedLedger } from '@/lib/ledgerModel';
+import { buildVoucherBook, getVoucherKey, getCounterLines } from '@/lib/voucherModel';
+import { classifyAccount, type AccountCategory } from '@/lib/chartOfAccounts';
+import {
+  getDayType,
+  getHoliday,
+  normalizeDateKey,
+  toDateKey,
+  getCompanyClosureDays,
+  type CompanyClosureDay,
+  type DayType,
+} from '@/lib/holidayCalendar';
+import { loadResultFromActiveEngagement, saveResultToActiveEngagement } from '@/lib/engagementStore';
+import { CompanyClosureDialog } from './CompanyClosureDialog';
 import { CalendarX, FileSearch, Building2, Sparkles, AlertTriangle, Loader2, CheckCircle2, XCircle, X, Maximize2, ArrowLeft, Download, Coins, Calculator, ArrowRightLeft, ListFilter, Search, Filter, ChevronRight, FileWarning, BarChart3, TrendingUp, DollarSign, ChevronsUpDown, FileDown, Bug, Check } from 'lucide-react';
 import { VisualizationAnalysis } from './VisualizationAnalysis';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -50,64 +64,32 @@ import { checkDialogWidth } from '@/utils/checkDialogWidth';
 interface AIInsightsProps {
   entries: JournalEntry[];
   onBackToHome?: () => void;
-  ledgerWorkbook?: XLSX.WorkBook | null; // 계정별원장 데이터 (선택적)
-  getDataFromSheet?: (worksheet: XLSX.WorkSheet | undefined) => { data: any[], headers: string[], orderedHeaders: string[] }; // 시트 데이터 추출 함수
+  ledger?: NormalizedLedger | null; // 계정별원장 통합 원장 (선택적)
 }
 
 type AnalysisStatus = 'idle' | 'loading' | 'success' | 'error';
 type AnalysisType = 'general' | 'holiday' | 'counter' | 'appropriateness' | 'visualization' | 'trend' | 'cashflow';
 
-// Helper to determine day type
-const checkDayType = (dateStr: string): 'weekday' | 'sat' | 'sun' | 'holiday' => {
-  // 날짜 문자열 정규화 ('YYYY-MM-DD' 형식으로 변환)
-  let normalizedDateStr = dateStr.trim();
-  
-  // 이미 'YYYY-MM-DD' 형식인 경우
-  if (/^\d{4}-\d{2}-\d{2}$/.test(normalizedDateStr)) {
-    // 그대로 사용
-  } 
-  // 'YYYYMMDD' 형식인 경우
-  else if (/^\d{8}$/.test(normalizedDateStr.replace(/\D/g, ''))) {
-    const cleaned = normalizedDateStr.replace(/\D/g, '');
-    normalizedDateStr = `${cleaned.substring(0, 4)}-${cleaned.substring(4, 6)}-${cleaned.substring(6, 8)}`;
-  }
-  // 다른 형식 시도
-  else {
-    normalizedDateStr = normalizedDateStr.split('T')[0].split(' ')[0];
-  }
-  
-  // Date 객체로 변환
-  const date = new Date(normalizedDateStr);
-  
+// Helper to determine day type (공휴일·대체공휴일·선거일·회사 휴무일은 휴일 달력 기준)
+const checkDayType = (dateStr: string, closureDays?: CompanyClosureDay[]): DayType => {
+  // 'YYYY-MM-DD', 'YYYYMMDD', 'YYYY.MM.DD' 외에 'YYYY년 MM월 DD일'처럼 숫자 8자리로 읽히는 형식도 허용
+  const digits = dateStr.replace(/\D/g, '');
+  const dateKey = normalizeDateKey(dateStr) ?? (digits.length === 8 ? normalizeDateKey(digits) : null);
+
   // 유효하지 않은 날짜인 경우
-  if (isNaN(date.getTime())) {
-    console.warn(`날짜 파싱 실패: ${dateStr} -> ${normalizedDateStr}`);
+  if (!dateKey) {
+    console.warn(`날짜 파싱 실패: ${dateStr}`);
     return 'weekday';
   }
-  
-  const day = date.getDay();
-  
-  // Fixed Korean Holidays (MM-DD)
-  const fixedHolidays = ['01-01', '03-01', '05-05', '06-06', '08-15', '10-03', '10-09', '12-25'];
-  const month = String(date.getMonth() + 1).padStart(2, '0');
-  const dayOfMonth = String(date.getDate()).padStart(2, '0');
-  const md = `${month}-${dayOfMonth}`;
-  
-  // YYYY-MM-DD 형식으로 공휴일 확인
-  const dateStrFormatted = normalizedDateStr;
-  
-  const lunarHolidays = [
-    '2024-02-09', '2024-02-10', '2024-02-11', '2024-02-12', // Seollal
-    '2024-05-15', // Buddha
-    '2024-09-16', '2024-09-17', '2024-09-18', // Chuseok
-    '2025-01-28', '2025-01-29', '2025-01-30', // Seollal
-    '2025-10-06', '2025-10-07', '2025-10-08', // Chuseok
-  ];
-
-  if (fixedHolidays.includes(md) || lunarHolidays.includes(dateStrFormatted)) return 'holiday';
-  if (day === 0) return 'sun';
-  if (day === 6) return 'sat';
-  return 'weekday';
+
+  return getDayType(dateKey, closureDays);
+};
+
+const DAY_TYPE_LABELS: Record<DayType, string> = {
+  weekday: '평일',
+  sat: '토요일',
+  sun: '일요일',
+  holiday: '공휴일',
 };
 
 // Helper to check if a date is the last day of the month
@@ -119,7 +101,45 @@ const isLastDayOfMonth = (dateStr: string | Date): boolean => {
   return date.getDate() === lastDay;
 };
 
-const AIInsights: React.FC<AIInsightsProps> = ({ entries, onBackToHome, ledgerWorkbook, getDataFromSheet }) => {
+// 계정 분류별 재무제표 표시 순서 (미분류는 맨 뒤)
+const ACCOUNT_CATEGORY_ORDER: Record<AccountCategory, number> = {
+  currentAsset: 1,
+  nonCurrentAsset: 2,
+  currentLiability: 3,
+  nonCurrentLiability: 4,
+  equity: 5,
+  revenue: 6,
+  nonOperatingIncome: 7,
+  sga: 8,
+  costOfSales: 9,
+  manufacturing: 9,
+  nonOperatingExpense: 10,
+  incomeTax: 10,
+  unknown: 999,
+};
+
+/**
+ * AI 응답 검증에서 제외한 항목 안내 (형식이 틀린 항목은 결과에 그리지 않음)
+ */
+const ValidationIssuesNotice: React.FC<{ issues?: string[] }> = ({ issues }) => {
+  if (!issues || issues.length === 0) return null;
+  return (
+    <div className="p-3 rounded border border-amber-200 bg-amber-50 text-sm text-amber-900">
+      <div className="flex items-center gap-2 font-semibold mb-1">
+        <AlertTriangle className="w-4 h-4" />
+        AI 응답 형식 검증 문제 {issues.length}건 (해당 항목은 결과에서 제외했습니다)
+      </div>
+      <ul className="list-disc pl-5 space-y-0.5 text-xs">
+        {issues.slice(0, 10).map((issue, idx) => (
+          <li key={idx}>{issue}</li>
+        ))}
+        {issues.length > 10 && <li>외 {issues.length - 10}건</li>}
+      </ul>
+    </div>
+  );
+};
+
+const AIInsights: React.FC<AIInsightsProps> = ({ entries, onBackToHome, ledger }) => {
   const { toast } = useToast();
   
   // 1. Clean Entries
@@ -147,7 +167,10 @@ const AIInsights: React.FC<AIInsightsProps> = ({ entries, onBackToHome, ledgerWo
     });
   }, [cleanEntries]);
 
-  // 3. Unique Accounts for Autocomplete
+  // 3. Vouchers (일자 + 전표번호 단위로 재구성, 대차 검증 포함)
+  const voucherBook = useMemo(() => buildVoucherBook(cleanEntries), [cleanEntries]);
+
+  // 4. Unique Accounts for Autocomplete
   const uniqueAccountNames = useMemo(() => {
     const names = new Set(analysisEntries.map(e => e.accountName));
     return Array.from(names).sort();
@@ -161,6 +184,8 @@ const AIInsights: React.FC<AIInsightsProps> = ({ entries, onBackToHome, ledgerWo
   const [accountDrilldownType, setAccountDrilldownType] = useState<'debit' | 'credit' | null>(null); // 계정별 차변/대변 상세 내역 타입
   const [generalDrilldownShowMonthly, setGeneralDrilldownShowMonthly] = useState<boolean>(false); // 일반사항분석 월별합계 표시 여부
   const [holidayDrilldown, setHolidayDrilldown] = useState<{ account: string, type: 'sat' | 'sun' | 'holiday' | 'total' } | null>(null);
+  const [closureDays, setClosureDays] = useState<CompanyClosureDay[]>(() => getCompanyClosureDays());
+  const [showClosureDialog, setShowClosureDialog] = useState<boolean>(false);
   
   // Counter Analysis Interactive States
   const [counterSearchTerm, setCounterSearchTerm] = useState('');
@@ -169,7 +194,8 @@ const AIInsights: React.FC<AIInsightsProps> = ({ entries, onBackToHome, ledgerWo
   const [counterResult, setCounterResult] = useState<CounterAccountAnalysisResult | null>(null);
   const [counterDrilldownAccount, setCounterDrilldownAccount] = useState<string | null>(null);
   const [counterDrilldownAmountClicked, setCounterDrilldownAmountClicked] = useState<boolean>(false); // 상대계정 금액 클릭 여부
-  const [selectedVoucherNumber, setSelectedVoucherNumber] = useState<string | null>(null); // 선택된 전표번호
+  const [selectedVoucherKey, setSelectedVoucherKey] = useState<string | null>(null); // 선택된 전표 (일자|전표번호)
+  const [showVoucherIssues, setShowVoucherIssues] = useState<boolean>(false); // 대차 불일치 전표 목록 표시 여부
 
   // Options
   const [excludeEndOfMonth, setExcludeEndOfMonth] = useState<boolean>(false);
@@ -199,6 +225,33 @@ const AIInsights: React.FC<AIInsightsProps> = ({ entries, onBackToHome, ledgerWo
   const [appropriatenessData, setAppropriatenessData] = useState<AppropriatenessAnalysisResult | null>(null);
   const [appropriatenessError, setAppropriatenessError] = useState<string | null>(null);
 
+  // 현재 감사 업무에 저장된 AI 분석 결과 복원 (다시 호출하지 않고 이전 응답 표시)
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([
+      loadResultFromActiveEngagement<GeneralAnalysisResult>('ai_general'),
+      loadResultFromActiveEngagement<HolidayAnalysisResult>('ai_holiday'),
+      loadResultFromActiveEngagement<AppropriatenessAnalysisResult>('ai_appropriateness'),
+    ]).then(([general, holiday, appropriateness]) => {
+      if (cancelled) return;
+      if (general) {
+        setGeneralData(general);
+        setGeneralStatus('success');
+      }
+      if (holiday) {
+        setHolidayData(holiday);
+        setHolidayStatus('success');
+      }
+      if (appropriateness) {
+        setAppropriatenessData(appropriateness);
+        setAppropriatenessStatus('success');
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
   // 월별 트렌드 분석 - 선택된 계정명 state
   const [trendSelectedAccount, setTrendSelectedAccount] = useState<string>('');
   const [trendAccountOpen, setTrendAccountOpen] = useState(false);
@@ -552,156 +605,39 @@ const AIInsights: React.FC<AIInsightsProps> = ({ entries, onBackToHome, ledgerWo
   };
 
   // 계정 분류 함수 (재무제표 순서)
-  const getAccountCategory = (accountName: string): number => {
+  const getAccountCategory = (accountName: string, accountCode?: string): number => {
     if (!accountName) return 999;
-    const normalized = String(accountName).replace(/\s/g, '').toLowerCase();
-    
-    // 1. 유동성 자산 항목
-    const currentAssetKeywords = ['현금', '예금', '당좌', '매출채권', '외상매출금', '외상매출', '선급금', 
-      '선급비용', '재고자산', '재고', '단기투자', '유동자산', '미수금', '미수수익', '선수금', 
-      '선수수익', '기타유동자산', '매입채권', '외상매입금'];
-    if (currentAssetKeywords.some(kw => normalized.includes(kw)) && !normalized.includes('비유동')) {
-      return 1;
-    }
-    
-    // 2. 비유동성 자산 항목
-    const nonCurrentAssetKeywords = ['유형자산', '무형자산', '투자자산', '장기투자', '비유동자산', 
-      '토지', '건물', '기계장치', '차량운반구', '구축물', '영업권', '특허권', '상표권', '소프트웨어'];
-    if (nonCurrentAssetKeywords.some(kw => normalized.includes(kw)) || 
-        (normalized.includes('자산') && normalized.includes('비유동'))) {
-      return 2;
-    }
-    if (normalized.includes('자산') && !normalized.includes('부채') && !normalized.includes('자본')) {
-      // 자산이지만 위에서 분류되지 않은 경우 비유동자산으로 분류
-      return 2;
-    }
-    
-    // 3. 유동성 부채 항목
-    const currentLiabilityKeywords = ['매입채무', '외상매입금', '미지급금', '미지급비용', '단기차입금', 
-      '유동부채', '선수금', '선수수익', '예수금', '기타유동부채', '단기사채'];
-    if (currentLiabilityKeywords.some(kw => normalized.includes(kw)) && !normalized.includes('비유동')) {
-      return 3;
-    }
-    
-    // 4. 비유동성 부채 항목
-    const nonCurrentLiabilityKeywords = ['장기차입금', '비유동부채', '사채', '장기사채', '기타비유동부채'];
-    if (nonCurrentLiabilityKeywords.some(kw => normalized.includes(kw)) || 
-        (normalized.includes('부채') && normalized.includes('비유동'))) {
-      return 4;
-    }
-    if (normalized.includes('부채') || normalized.includes('차입') || normalized.includes('대출')) {
-      // 부채이지만 위에서 분류되지 않은 경우 비유동부채로 분류
-      return 4;
-    }
-    
-    // 5. 자본 항목
-    const equityKeywords = ['자본', '자본금', '주식', '자본잉여금', '이익잉여금', '자본변동', 
-      '기타포괄손익', '자기자본', '납입자본', '주식발행초과금', '자본조정'];
-    if (equityKeywords.some(kw => normalized.includes(kw))) {
-      return 5;
-    }
-    
-    // 6. 매출/영업수익 항목
-    const revenueKeywords = ['매출', '매출액', '영업수익', '제품매출', '상품매출', '용역매출',
-      '서비스매출', '공사수익', '분양수익'];
-    if (revenueKeywords.some(kw => normalized.includes(kw)) && !normalized.includes('원가')) {
-      return 6;
-    }
-
-    // 7. 영업외수익/기타수익 항목
-    // '수입'으로 끝나거나 포함하는 계정(폐기물처리수입, 임대수입, 이자수입 등)을 수익으로 분류
-    const nonOperatingRevenueKeywords = ['영업외수익', '이자수익', '배당수익', '임대수익',
-      '수수료수익', '기타수익', '외환차익', '유형자산처분이익', '잡이익',
-      '이자수입', '배당수입', '임대수입', '잡수입', '수입'];
-    if (nonOperatingRevenueKeywords.some(kw => normalized.includes(kw))) {
-      return 7;
-    }
-
-    // 8. 판매비와 관리비 항목
-    const sgaKeywords = ['판매비', '관리비', '판관비', '판매관리비', '급여', '임금', '수당',
-      '복리후생비', '임차료', '임대료', '광고선전비', '운반비', '보험료', '세금과공과',
-      '감가상각비', '지급임차료', '수선비', '차량유지비', '소모품비', '도서인쇄비',
-      '수도광열비', '지급수수료', '대손상각비', '여비교통비', '접대비', '통신비'];
-    if (sgaKeywords.some(kw => normalized.includes(kw))) {
-      return 8;
-    }
-
-    // 9. 원가 항목 (매출원가·제조원가 등 — 판관비보다 먼저 비용으로 분류)
-    const costKeywords = [
-      '매출원가', '제품매출원가', '상품매출원가',
-      '제조원가', '제조비용', '제조경비', '제조간접비',
-      '폐기물처리원가', '공사원가', '용역원가', '서비스원가',
-      '재료비', '노무비', '외주가공비',
-      '원가',  // 위 키워드에 해당하지 않는 '~원가' 계정 전체 포괄
-    ];
-    if (costKeywords.some(kw => normalized.includes(kw))) {
-      return 9;
-    }
-
-    // 10. 영업외비용 항목
-    const nonOperatingExpenseKeywords = ['영업외비용', '이자비용', '외환차손', '유형자산처분손실',
-      '기타비용', '손실'];
-    if (nonOperatingExpenseKeywords.some(kw => normalized.includes(kw))) {
-      return 10;
-    }
-    
-    // 기타 (분류되지 않은 항목)
-    return 999;
-  };
-
-  // Excel 행에서 헤더 키워드로 컬럼 키 찾기 (공백/오타 허용)
-  const findColumnKey = (rowKeys: string[], keywords: string[]): string | undefined => {
-    const normalized = (s: string) => String(s).replace(/\s/g, '').toLowerCase();
-    for (const key of rowKeys) {
-      const n = normalized(key);
-      if (keywords.some(kw => n.includes(normalized(kw)) || normalized(kw).includes(n))) return key;
-    }
-    return undefined;
+    return ACCOUNT_CATEGORY_ORDER[classifyAccount(accountName, accountCode).category];
   };
 
   // 계정별원장에서 전기이월 항목 추출하여 기초잔액 계산
   const openingBalances = useMemo(() => {
-    if (!ledgerWorkbook || !getDataFromSheet) return new Map<string, number>();
+    if (!ledger) return new Map<string, number>();
 
     const balances = new Map<string, number>();
     const openingKeywords = ['전기이월', '차기이월', '기초잔액', '이월잔액'];
 
-    ledgerWorkbook.SheetNames.forEach(sheetName => {
-      const worksheet = ledgerWorkbook.Sheets[sheetName];
-      const { data } = getDataFromSheet(worksheet);
-      if (data.length === 0) return;
-
-      const rowKeys = Object.keys(data[0]);
-      const descKey = findColumnKey(rowKeys, ['적요', '적요란', '내용', '비고', 'description']);
-      const balanceKey = findColumnKey(rowKeys, ['잔액', 'balance']);
-
-      data.forEach(row => {
-        const descVal = descKey ? row[descKey] : undefined;
-        let isOpeningEntry = false;
-        if (descVal != null && String(descVal).trim() !== '') {
-          const str = String(descVal).replace(/\s/g, '');
-          if (openingKeywords.some(keyword => str.includes(keyword))) isOpeningEntry = true;
-        }
+    ledger.entries.forEach(entry => {
+      let isOpeningEntry = entry.summaryType === 'carryForward';
+      if (!isOpeningEntry && entry.description) {
+        const str = entry.description.replace(/\s/g, '');
+        if (openingKeywords.some(keyword => str.includes(keyword))) isOpeningEntry = true;
+      }
 
-        if (!isOpeningEntry) return;
+      if (!isOpeningEntry) return;
 
-        // 잔액 컬럼이 있으면 그 값을 기초잔액으로 사용, 없거나 비어 있으면 0원
-        let balance = 0;
-        if (balanceKey != null && row[balanceKey] !== undefined && row[balanceKey] !== '') {
-          const val = row[balanceKey];
-          balance = typeof val === 'number' ? val : (parseFloat(String(val).replace(/,/g, '')) || 0);
-        }
+      // 잔액 컬럼이 있으면 그 값을 기초잔액으로 사용, 없거나 비어 있으면 0원
+      const balance = entry.balance ?? 0;
 
-        const normalizedSheetName = normalizeAccountName(sheetName);
-        if (normalizedSheetName) {
-          const existing = balances.get(normalizedSheetName) || 0;
-          balances.set(normalizedSheetName, existing + balance);
-        }
-      });
+      const normalizedAccountName = normalizeAccountName(entry.accountName);
+      if (normalizedAccountName) {
+        const existing = balances.get(normalizedAccountName) || 0;
+        balances.set(normalizedAccountName, existing + balance);
+      }
     });
 
     return balances;
-  }, [ledgerWorkbook, getDataFromSheet]);
+  }, [ledger]);
 
   // --- Calculated Stats for General Analysis ---
   const generalStats = useMemo(() => {
@@ -750,7 +686,7 @@ const AIInsights: React.FC<AIInsightsProps> = ({ entries, onBackToHome, ledgerWo
         balance: val.debit - val.credit,
         openingBalance: matchedOpeningBalance,
         endingBalance: matchedOpeningBalance + (val.debit - val.credit),
-        category: getAccountCategory(name),
+        category: getAccountCategory(name, accountCode || undefined),
       };
     });
 
@@ -832,7 +768,7 @@ const AIInsights: React.FC<AIInsightsProps> = ({ entries, onBackToHome, ledgerWo
           }
         }
       } else if (e.date instanceof Date) {
-        dateStr = e.date.toISOString().split('T')[0];
+        dateStr = toDateKey(e.date);
       } else {
         dateStr = String(e.date);
       }
@@ -843,7 +779,7 @@ const AIInsights: React.FC<AIInsightsProps> = ({ entries, onBackToHome, ledgerWo
         return;
       }
 
-      const dayType = checkDayType(dateStr);
+      const dayType = checkDayType(dateStr, closureDays);
       
       if (dayType === 'weekday') {
         weekdayCount++;
@@ -881,14 +817,15 @@ const AIInsights: React.FC<AIInsightsProps> = ({ entries, onBackToHome, ledgerWo
         변환된날짜: typeof e.date === 'string' 
           ? e.date.split('T')[0].split(' ')[0] 
           : e.date instanceof Date 
-            ? e.date.toISOString().split('T')[0] 
+            ? toDateKey(e.date) 
             : String(e.date),
         요일타입: checkDayType(
           typeof e.date === 'string' 
             ? e.date.split('T')[0].split(' ')[0] 
             : e.date instanceof Date 
-              ? e.date.toISOString().split('T')[0] 
-              : String(e.date)
+              ? toDateKey(e.date) 
+              : String(e.date),
+          closureDays
         )
       }))
     });
@@ -896,11 +833,11 @@ const AIInsights: React.FC<AIInsightsProps> = ({ entries, onBackToHome, ledgerWo
     return Array.from(map.entries())
       .map(([name, val]) => ({ name, ...val }))
       .sort((a, b) => b.total - a.total);
-  }, [analysisEntries, excludeEndOfMonth]);
+  }, [analysisEntries, excludeEndOfMonth, closureDays]);
 
   // --- Counter Account Logic (Specific Search) ---
-  // 전표번호(entryNumber) 단위로 분석: 선택한 계정명과 차변/대변에 해당하는 전표번호를 찾고,
-  // 각 전표번호 내에서 반대편(차변 선택시 대변)의 계정과 금액을 추출하여 전표번호별로 집계
+  // 전표(일자 + 전표번호) 단위로 분석: 선택한 계정명과 차변/대변에 해당하는 전표를 찾고,
+  // 각 전표 내에서 반대편(차변 선택시 대변)의 계정과 금액을 추출하여 전표별로 집계
   const runSpecificCounterAnalysis = async () => {
     if (!counterSearchTerm) return;
     setCounterStatus('loading');
@@ -910,7 +847,7 @@ const AIInsights: React.FC<AIInsightsProps> = ({ entries, onBackToHome, ledgerWo
     // Simulate short UI delay
     await new Promise(resolve => setTimeout(resolve, 500));
 
-    // 1. 선택한 계정명과 차변/대변에 해당하는 전표번호 찾기
+    // 1. 선택한 계정명과 차변/대변에 해당하는 라인 찾기
     const targetEntries = analysisEntries.filter(e => {
       if (e.accountName !== counterSearchTerm) return false;
       return counterSearchSide === '차변' ? e.debit !== 0 : e.credit !== 0;
@@ -929,99 +866,60 @@ const AIInsights: React.FC<AIInsightsProps> = ({ entries, onBackToHome, ledgerWo
       return;
     }
 
-    // 2. entryNumber 정규화 헬퍼
-    const normalizeEntryNumber = (entryNum: string | number | undefined): string | null => {
-      if (!entryNum) return null;
-      return String(entryNum).trim() || null;
-    };
-
-    // 3. targetEntries의 전표번호들 추출
-    const targetEntryNumbers = new Set<string>();
+    // 2. targetEntries가 속한 전표 키 추출
+    const targetVoucherKeys = new Set<string>();
     targetEntries.forEach(e => {
-      const normalized = normalizeEntryNumber(e.entryNumber);
-      if (normalized) {
-        targetEntryNumbers.add(normalized);
-      }
+      const key = getVoucherKey(e);
+      if (key) targetVoucherKeys.add(key);
     });
 
-    // 4. 각 전표번호별로 그룹핑하여 전체 항목 수집
-    const entryNumberGroups = new Map<string, JournalEntry[]>();
-    
-    // targetEntryNumbers에 해당하는 모든 항목을 전표번호별로 그룹핑
-    analysisEntries.forEach(e => {
-      const normalized = normalizeEntryNumber(e.entryNumber);
-      if (normalized && targetEntryNumbers.has(normalized)) {
-        if (!entryNumberGroups.has(normalized)) {
-          entryNumberGroups.set(normalized, []);
-        }
-        entryNumberGroups.get(normalized)!.push(e);
-      }
-    });
-
-    // 5. 각 전표번호별로 상대계정 찾기 (계정명과 금액 함께 저장)
-    // 전표번호별로 집계 (전표번호당 1건으로 카운트)
-    const counterAccountByEntryNumber = new Map<string, Map<string, number>>(); // entryNumber -> {accountName: amount}
+    // 3. 각 전표별로 상대계정 찾기 (계정명과 금액 함께 저장)
+    // 전표별로 집계 (전표당 1건으로 카운트)
+    const counterAccountByVoucher = new Map<string, Map<string, number>>(); // voucherKey -> {accountName: amount}
 
-    targetEntryNumbers.forEach(entryNumber => {
-      const group = entryNumberGroups.get(entryNumber);
-      if (!group || group.length === 0) return;
+    targetVoucherKeys.forEach(voucherKey => {
+      const voucher = voucherBook.byKey.get(voucherKey);
+      if (!voucher) return;
 
-      const targetInGroup = group.filter(e => {
+      const targetInVoucher = voucher.lines.filter(e => {
         if (e.accountName !== counterSearchTerm) return false;
         return counterSearchSide === '차변' ? e.debit !== 0 : e.credit !== 0;
       });
 
-      if (targetInGroup.length === 0) return;
+      if (targetInVoucher.length === 0) return;
 
-      // 이 전표번호에서 반대편 계정 찾기
-      // 차변을 선택했으면 대변 계정을 찾고, 대변을 선택했으면 차변 계정을 찾음
-      const oppositeSide = counterSearchSide === '차변' ? '대변' : '차변';
-      
-      // 타겟 항목 제외하고 반대편 항목만 필터링
-      const targetIds = new Set(targetInGroup.map(t => t.id).filter(id => id !== undefined));
-      
-      const counterAccounts = group.filter(e => {
-        // 타겟 항목 자체는 제외
-        if (targetIds.has(e.id as number)) {
-          return false;
-        }
-        
-        // 반대편만 추출 (차변 선택시: credit !== 0인 항목, 대변 선택시: debit !== 0인 항목)
-        if (oppositeSide === '대변') return e.credit !== 0;
-        return e.debit !== 0;
-      });
+      // 타겟 라인을 제외한 반대편 라인 (차변을 선택했으면 대변 라인, 대변을 선택했으면 차변 라인)
+      const counterLines = getCounterLines(voucher, counterSearchSide, targetInVoucher);
 
-      // 이 전표번호에서 발견된 상대계정들 (계정명과 금액 함께 저장)
+      // 이 전표에서 발견된 상대계정들 (계정명과 금액 함께 저장)
       const counterAccountAmounts = new Map<string, number>(); // accountName -> amount
-      counterAccounts.forEach(counter => {
-        // 반대편 금액 계산:
-        // - 대변 선택 시: 상대계정은 차변이므로 counter.debit 사용
-        // - 차변 선택 시: 상대계정은 대변이므로 counter.credit 사용
-        const amount = oppositeSide === '차변' ? counter.debit : counter.credit;
+      counterLines.forEach(counter => {
+        // 반대편 금액: 차변 선택 시 상대계정은 대변이므로 counter.credit, 대변 선택 시 counter.debit
+        const amount = counterSearchSide === '차변' ? counter.credit : counter.debit;
         const currentAmount = counterAccountAmounts.get(counter.accountName) || 0;
         counterAccountAmounts.set(counter.accountName, currentAmount + amount);
       });
 
       if (counterAccountAmounts.size > 0) {
-        counterAccountByEntryNumber.set(entryNumber, counterAccountAmounts);
+        counterAccountByVoucher.set(voucherKey, counterAccountAmounts);
       }
     });
 
-    // 6. 전체 상대계정별로 집계 (전표번호 건수와 금액 모두 집계)
+    // 4. 전체 상대계정별로 집계 (전표 건수와 금액 모두 집계)
     const counterFreq = new Map<string, { count: number; amount: number }>();
 
-    counterAccountByEntryNumber.forEach((accountAmounts, entryNumber) => {
-      // 각 전표번호에서 발견된 상대계정들을 카운트 및 금액 합산
+    counterAccountByVoucher.forEach((accountAmounts) => {
+      // 각 전표에서 발견된 상대계정들을 카운트 및 금액 합산
       accountAmounts.forEach((amount, accountName) => {
         const current = counterFreq.get(accountName) || { count: 0, amount: 0 };
         counterFreq.set(accountName, {
-          count: current.count + 1, // 전표번호 건수로 카운트
+          count: current.count + 1, // 전표 건수로 카운트
           amount: current.amount + amount // 금액 합산
         });
       });
     });
 
-    // 7. 결과 포맷팅
+    // 5. 결과 포맷팅
     const sortedCounters = Array.from(counterFreq.entries())
       .map(([name, data]) => ({ name, count: data.count, amount: data.amount }))
       .sort((a, b) => b.count - a.count); // 건수 기준 정렬
@@ -1037,7 +935,7 @@ const AIInsights: React.FC<AIInsightsProps> = ({ entries, onBackToHome, ledgerWo
     const resultData: CounterAccountAnalysisResult = {
       accountName: counterSearchTerm,
       type: counterSearchSide,
-      totalTransactions: targetEntryNumbers.size, // 전표번호 건수
+      totalTransactions: targetVoucherKeys.size, // 전표 건수
       uniqueCounterAccounts: sortedCounters.length,
       breakdown,
       transactions: targetEntries
@@ -1049,8 +947,10 @@ const AIInsights: React.FC<AIInsightsProps> = ({ entries, onBackToHome, ledgerWo
 
   // Helper to get counter name for a specific entry
   const getCounterAccountForEntry = (entry: JournalEntry, side: '차변' | '대변') => {
-    const siblings = analysisEntries.filter(e => e.entryNumber === entry.entryNumber);
-    const counters = siblings.filter(s => side === '차변' ? s.credit !== 0 : s.debit !== 0);
+    const key = getVoucherKey(entry);
+    const voucher = key ? voucherBook.byKey.get(key) : undefined;
+    if (!voucher) return '';
+    const counters = getCounterLines(voucher, side, [entry]);
     const names = Array.from(new Set(counters.map(c => c.accountName)));
     return names.join(', ');
   };
@@ -1058,13 +958,14 @@ const AIInsights: React.FC<AIInsightsProps> = ({ entries, onBackToHome, ledgerWo
   // 상대계정 드릴다운 데이터 — useMemo로 한 번만 계산 (렌더 시 반복 호출 방지, 프리징 완화)
   const counterDrilldownData = useMemo(() => {
     if (!counterResult || !counterDrilldownAccount) return [];
-    const targetEntryNumbers = new Set<string>();
+    const targetVoucherKeys = new Set<string>();
     counterResult.transactions.forEach(entry => {
-      if (entry.entryNumber) targetEntryNumbers.add(String(entry.entryNumber));
+      const key = getVoucherKey(entry);
+      if (key) targetVoucherKeys.add(key);
     });
     const drilldownEntries: JournalEntry[] = [];
-    targetEntryNumbers.forEach(entryNumber => {
-      const group = analysisEntries.filter(e => String(e.entryNumber) === entryNumber);
+    targetVoucherKeys.forEach(voucherKey => {
+      const group = voucherBook.byKey.get(voucherKey)?.lines || [];
       const targetInGroup = group.filter(e => {
         if (e.accountName !== counterResult.accountName) return false;
         return counterResult.type === '차변' ? e.debit !== 0 : e.credit !== 0;
@@ -1078,7 +979,7 @@ const AIInsights: React.FC<AIInsightsProps> = ({ entries, onBackToHome, ledgerWo
       if (targetInGroup.length > 0 && counterInGroup.length > 0) drilldownEntries.push(...counterInGroup);
     });
     return drilldownEntries;
-  }, [counterResult, counterDrilldownAccount, analysisEntries]);
+  }, [counterResult, counterDrilldownAccount, voucherBook]);
 
   // 상대계정 월별 합계 — useMemo (counterDrilldownData 기반)
   const monthlyTotalsForCounterAccount = useMemo(() => {
@@ -1132,13 +1033,9 @@ const AIInsights: React.FC<AIInsightsProps> = ({ entries, onBackToHome, ledgerWo
       .sort((a, b) => a.month.localeCompare(b.month));
   }, [counterResult, counterDrilldownAccount, counterDrilldownData]);
 
-  // 전표번호별 분개장 조회
-  const getJournalEntriesByVoucherNumber = (voucherNumber: string | null): JournalEntry[] => {
-    if (!voucherNumber) return [];
-    
-    // 같은 전표번호의 모든 항목 반환
-    return analysisEntries.filter(e => String(e.entryNumber) === String(voucherNumber));
-  };
+  // 전표별 분개장 조회 (같은 일자 + 전표번호의 모든 라인)
+  const selectedVoucher = selectedVoucherKey ? voucherBook.byKey.get(selectedVoucherKey) ?? null : null;
+  const selectedVoucherLines = selectedVoucher?.lines || [];
 
 
   const openModal = (type: AnalysisType) => {
@@ -1158,7 +1055,7 @@ const AIInsights: React.FC<AIInsightsProps> = ({ entries, onBackToHome, ledgerWo
       setCounterSuggestions([]);
       setCounterDrilldownAccount(null);
       setCounterDrilldownAmountClicked(false);
-      setSelectedVoucherNumber(null);
+      setSelectedVoucherKey(null);
     }
   };
 
@@ -1317,11 +1214,10 @@ const AIInsights: React.FC<AIInsightsProps> = ({ entries, onBackToHome, ledgerWo
         setGeneralError(null);
         try {
           // API 키 확인
-          const { getApiKey } = await import('@/lib/geminiClient');
-          const apiKey = getApiKey();
+          const { hasApiKey } = await import('@/lib/geminiClient');
           
-          if (!apiKey) {
-            const errorMsg = 'API Key가 설정되지 않았습니다. 설정에서 Google Gemini API Key를 입력해주세요.';
+          if (!hasApiKey()) {
+            const errorMsg = 'AI 설정이 완료되지 않았습니다. 설정에서 Google Gemini API Key 또는 OpenAI 호환 엔드포인트를 입력해주세요.';
             setGeneralError(errorMsg);
             setGeneralStatus('error');
           } else {
@@ -1330,6 +1226,7 @@ const AIInsights: React.FC<AIInsightsProps> = ({ entries, onBackToHome, ledgerWo
             if (result) {
               setGeneralData(result);
               setGeneralStatus('success');
+              saveResultToActiveEngagement('ai_general', '', result);
               setTotalCost(prev => prev + (currentCost || 0.5));
             } else {
               setGeneralError('분석 결과를 가져올 수 없습니다.');
@@ -1356,11 +1253,10 @@ const AIInsights: React.FC<AIInsightsProps> = ({ entries, onBackToHome, ledgerWo
         setHolidayError(null);
         try {
           // API 키 확인
-          const { getApiKey } = await import('@/lib/geminiClient');
-          const apiKey = getApiKey();
+          const { hasApiKey } = await import('@/lib/geminiClient');
           
-          if (!apiKey) {
-            const errorMsg = 'API Key가 설정되지 않았습니다. 설정에서 Google Gemini API Key를 입력해주세요.';
+          if (!hasApiKey()) {
+            const errorMsg = 'AI 설정이 완료되지 않았습니다. 설정에서 Google Gemini API Key 또는 OpenAI 호환 엔드포인트를 입력해주세요.';
             setHolidayError(errorMsg);
             setHolidayStatus('error');
           } else {
@@ -1371,6 +1267,7 @@ const AIInsights: React.FC<AIInsightsProps> = ({ entries, onBackToHome, ledgerWo
             if (result) {
               setHolidayData(result);
               setHolidayStatus('success');
+              saveResultToActiveEngagement('ai_holiday', '', result);
               setTotalCost(prev => prev + (currentCost || 0.5));
             } else {
               setHolidayError('분석 결과를 가져올 수 없습니다.');
@@ -1420,11 +1317,10 @@ const AIInsights: React.FC<AIInsightsProps> = ({ entries, onBackToHome, ledgerWo
       } else {
         try {
           // API 키 확인
-          const { getApiKey } = await import('@/lib/geminiClient');
-          const apiKey = getApiKey();
+          const { hasApiKey } = await import('@/lib/geminiClient');
           
-          if (!apiKey) {
-            const errorMsg = 'API Key가 설정되지 않았습니다. 설정에서 Google Gemini API Key를 입력해주세요.';
+          if (!hasApiKey()) {
+            const errorMsg = 'AI 설정이 완료되지 않았습니다. 설정에서 Google Gemini API Key 또는 OpenAI 호환 엔드포인트를 입력해주세요.';
             setAppropriatenessError(errorMsg);
             setAppropriatenessStatus('error');
             console.error('❌', errorMsg);
@@ -1441,6 +1337,7 @@ const AIInsights: React.FC<AIInsightsProps> = ({ entries, onBackToHome, ledgerWo
               });
               setAppropriatenessData(result);
               setAppropriatenessStatus('success');
+              saveResultToActiveEngagement('ai_appropriateness', '', result);
               setTotalCost(prev => prev + (currentCost || 0.5));
             } else {
               const errorMsg = '분석 결과를 가져올 수 없습니다. API 호출이 실패했거나 결과를 파싱하지 못했습니다.';
@@ -2338,13 +2235,17 @@ const AIInsights: React.FC<AIInsightsProps> = ({ entries, onBackToHome, ledgerWo
     }
   };
 
+  // 드릴다운에 표시할 휴일명 (공휴일·회사 휴무일이면 이름, 아니면 요일)
+  const getHolidayLabel = (date: JournalEntry['date']): string =>
+    getHoliday(date, closureDays)?.name ?? DAY_TYPE_LABELS[getDayType(date, closureDays)];
+
   const handleHolidayDrilldownDownload = () => {
     if (!holidayDrilldown) return;
     const filtered = getHolidayDrilldownData().map(e => ({
-      '일자': e.date, '적요': e.description, '거래처': e.vendor, '차변': e.debit
+      '일자': e.date, '휴일': getHolidayLabel(e.date), '적요': e.description, '거래처': e.vendor, '차변': e.debit
     }));
     const title = `${holidayDrilldown.account}_${holidayDrilldown.type}`;
-    exportToExcel(filtered, title, title, [12, 40, 20, 12]);
+    exportToExcel(filtered, title, title, [12, 16, 40, 20, 12]);
   };
 
   const handleHolidaySummaryDownload = (e: React.MouseEvent) => {
@@ -2394,10 +2295,9 @@ const AIInsights: React.FC<AIInsightsProps> = ({ entries, onBackToHome, ledgerWo
 
   // 전표번호 drill-down 엑셀 다운로드
   const handleVoucherDrilldownDownload = () => {
-    if (!selectedVoucherNumber) return;
+    if (!selectedVoucher) return;
     
-    const voucherEntries = getJournalEntriesByVoucherNumber(selectedVoucherNumber);
-    const data = voucherEntries.map(entry => ({
+    const data = selectedVoucherLines.map(entry => ({
       '일자': entry.date,
       '전표번호': entry.entryNumber,
       '계정과목': entry.accountName,
@@ -2407,10 +2307,28 @@ const AIInsights: React.FC<AIInsightsProps> = ({ entries, onBackToHome, ledgerWo
       '거래처': entry.vendor
     }));
     
-    const title = `전표번호_${selectedVoucherNumber}_분개장`;
+    const title = `전표_${selectedVoucher.dateKey}_${selectedVoucher.entryNumber}_분개장`;
     exportToExcel(data, title, "분개장", [12, 15, 20, 12, 12, 40, 20]);
   };
   
+  // 대차 불일치/단일변 전표 엑셀 다운로드
+  const handleVoucherIssuesDownload = () => {
+    const data = [...voucherBook.unbalanced, ...voucherBook.singleSided].flatMap(voucher =>
+      voucher.lines.map(entry => ({
+        '구분': voucher.isSingleSided ? '단일변 전표' : '대차 불일치',
+        '일자': voucher.dateKey,
+        '전표번호': voucher.entryNumber,
+        '계정과목': entry.accountName,
+        '차변': entry.debit,
+        '대변': entry.credit,
+        '전표 대차차이': voucher.difference,
+        '적요': entry.description,
+        '거래처': entry.vendor
+      }))
+    );
+    exportToExcel(data, '전표_대차검증_예외', '예외전표', [12, 12, 12, 20, 12, 12, 14, 40, 20]);
+  };
+
   const handleAppropriatenessDownload = () => {
     if (!appropriatenessData) return;
     const data = appropriatenessData.flaggedItems.map(item => ({
@@ -2442,7 +2360,7 @@ const AIInsights: React.FC<AIInsightsProps> = ({ entries, onBackToHome, ledgerWo
           }
         }
       } else if (e.date instanceof Date) {
-        dateStr = e.date.toISOString().split('T')[0];
+        dateStr = toDateKey(e.date);
       } else {
         dateStr = String(e.date).split('T')[0].split(' ')[0];
       }
@@ -2453,7 +2371,7 @@ const AIInsights: React.FC<AIInsightsProps> = ({ entries, onBackToHome, ledgerWo
       }
       
       // 요일 타입 확인
-      const dayType = checkDayType(dateStr);
+      const dayType = checkDayType(dateStr, closureDays);
       
       // total인 경우: 평일이 아닌 모든 항목 (토요일, 일요일, 공휴일)
       if (holidayDrilldown.type === 'total') {
@@ -2481,11 +2399,11 @@ const AIInsights: React.FC<AIInsightsProps> = ({ entries, onBackToHome, ledgerWo
             }
           }
         } else if (e.date instanceof Date) {
-          dateStr = e.date.toISOString().split('T')[0];
+          dateStr = toDateKey(e.date);
         } else {
           dateStr = String(e.date).split('T')[0].split(' ')[0];
         }
-        const dayType = checkDayType(dateStr);
+        const dayType = checkDayType(dateStr, closureDays);
         return {
           계정: e.accountName,
           날짜: e.date,
@@ -3387,6 +3305,7 @@ const AIInsights: React.FC<AIInsightsProps> = ({ entries, onBackToHome, ledgerWo
                     )}
                     {holidayStatus === 'success' && holidayData && (
                       <div className="space-y-2">
+                        <ValidationIssuesNotice issues={holidayData.validationIssues} />
                         {holidayData.items.length > 0 ? (
                           holidayData.items.map((item, idx) => (
                             <div key={idx} className="p-3 bg-red-50 rounded border border-red-100">
@@ -3427,6 +3346,15 @@ const AIInsights: React.FC<AIInsightsProps> = ({ entries, onBackToHome, ledgerWo
                     <div className="flex items-center justify-between">
                       <CardTitle>계정별 휴일 사용 집계</CardTitle>
                       <div className="flex items-center gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setShowClosureDialog(true)}
+                          className="flex items-center gap-1"
+                        >
+                          <CalendarX className="w-3.5 h-3.5" />
+                          회사 휴무일 ({closureDays.length})
+                        </Button>
                         <Checkbox
                           id="exclude-end-of-month"
                           checked={excludeEndOfMonth}
@@ -3441,7 +3369,7 @@ const AIInsights: React.FC<AIInsightsProps> = ({ entries, onBackToHome, ledgerWo
                       </div>
                     </div>
                     <CardDescription>
-                      주말 및 공휴일에 발생한 전표를 계정별로 집계합니다.
+                      주말 및 공휴일(대체공휴일·선거일·회사 휴무일 포함)에 발생한 전표를 계정별로 집계합니다.
                     </CardDescription>
                   </CardHeader>
                   <CardContent>
@@ -3576,6 +3504,7 @@ const AIInsights: React.FC<AIInsightsProps> = ({ entries, onBackToHome, ledgerWo
                             <TableHeader>
                               <TableRow>
                                 <TableHead>일자</TableHead>
+                                <TableHead>휴일</TableHead>
                                 <TableHead>적요</TableHead>
                                 <TableHead>거래처</TableHead>
                                 <TableHead className="text-right">차변</TableHead>
@@ -3586,6 +3515,7 @@ const AIInsights: React.FC<AIInsightsProps> = ({ entries, onBackToHome, ledgerWo
                                 getHolidayDrilldownData().map((entry, idx) => (
                                   <TableRow key={idx}>
                                     <TableCell>{String(entry.date)}</TableCell>
+                                    <TableCell className="whitespace-nowrap">{getHolidayLabel(entry.date)}</TableCell>
                                     <TableCell>{entry.description}</TableCell>
                                     <TableCell>{entry.vendor}</TableCell>
                                     <TableCell className="text-right">{entry.debit.toLocaleString()}</TableCell>
@@ -3593,7 +3523,7 @@ const AIInsights: React.FC<AIInsightsProps> = ({ entries, onBackToHome, ledgerWo
                                 ))
                               ) : (
                                 <TableRow>
-                                  <TableCell colSpan={4} className="text-center text-muted-foreground">
+                                  <TableCell colSpan={5} className="text-center text-muted-foreground">
                                     상세 내역이 없습니다.
                                   </TableCell>
                                 </TableRow>
@@ -3608,6 +3538,13 @@ const AIInsights: React.FC<AIInsightsProps> = ({ entries, onBackToHome, ledgerWo
                     ) : null}
                   </CardContent>
                 </Card>
+
+                <CompanyClosureDialog
+                  open={showClosureDialog}
+                  onOpenChange={setShowClosureDialog}
+                  closureDays={closureDays}
+                  onChange={setClosureDays}
+                />
               </div>
             )}
 
@@ -3683,6 +3620,76 @@ const AIInsights: React.FC<AIInsightsProps> = ({ entries, onBackToHome, ledgerWo
                       </div>
                     </div>
 
+                    {/* 전표 대차 검증 요약 */}
+                    <div className="rounded-lg border bg-slate-50 px-3 py-2 text-sm">
+                      <div className="flex flex-wrap items-center justify-between gap-2">
+                        <div className="flex flex-wrap items-center gap-3 text-slate-700">
+                          <span>재구성 전표 <strong>{voucherBook.vouchers.length.toLocaleString()}</strong>건</span>
+                          <span className={voucherBook.unbalanced.length > 0 ? 'text-red-600' : ''}>
+                            대차 불일치 <strong>{voucherBook.unbalanced.length.toLocaleString()}</strong>건
+                          </span>
+                          <span className={voucherBook.singleSided.length > 0 ? 'text-amber-600' : ''}>
+                            단일변 <strong>{voucherBook.singleSided.length.toLocaleString()}</strong>건
+                          </span>
+                          {voucherBook.unnumberedLineCount > 0 && (
+                            <span className="text-muted-foreground">
+                              전표번호 없는 라인 {voucherBook.unnumberedLineCount.toLocaleString()}건 제외
+                            </span>
+                          )}
+                        </div>
+                        {(voucherBook.unbalanced.length > 0 || voucherBook.singleSided.length > 0) && (
+                          <div className="flex gap-2">
+                            <Button variant="outline" size="sm" onClick={() => setShowVoucherIssues(prev => !prev)}>
+                              {showVoucherIssues ? '목록 닫기' : '예외 전표 보기'}
+                            </Button>
+                            <Button variant="outline" size="sm" onClick={handleVoucherIssuesDownload} className="flex items-center gap-1">
+                              <Download className="w-3.5 h-3.5" />
+                              엑셀
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+                      <p className="mt-1 text-xs text-muted-foreground">
+                        전표는 일자와 전표번호로 묶습니다. 일부 계정만 업로드한 경우 정상 전표도 불일치로 보일 수 있습니다.
+                      </p>
+                      {showVoucherIssues && (
+                        <ScrollArea className="mt-2 h-[240px] rounded border bg-white">
+                          <Table>
+                            <TableHeader>
+                              <TableRow>
+                                <TableHead>구분</TableHead>
+                                <TableHead>일자</TableHead>
+                                <TableHead>전표번호</TableHead>
+                                <TableHead className="text-right">차변 합계</TableHead>
+                                <TableHead className="text-right">대변 합계</TableHead>
+                                <TableHead className="text-right">차이</TableHead>
+                                <TableHead>계정과목</TableHead>
+                              </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                              {[...voucherBook.unbalanced, ...voucherBook.singleSided].map(voucher => (
+                                <TableRow key={voucher.key}>
+                                  <TableCell>
+                                    <Badge variant={voucher.isSingleSided ? 'secondary' : 'destructive'} className="text-xs">
+                                      {voucher.isSingleSided ? '단일변' : '불일치'}
+                                    </Badge>
+                                  </TableCell>
+                                  <TableCell>{voucher.dateKey}</TableCell>
+                                  <TableCell>{voucher.entryNumber}</TableCell>
+                                  <TableCell className="text-right">{voucher.totalDebit.toLocaleString()}</TableCell>
+                                  <TableCell className="text-right">{voucher.totalCredit.toLocaleString()}</TableCell>
+                                  <TableCell className="text-right font-medium text-red-600">{voucher.difference.toLocaleString()}</TableCell>
+                                  <TableCell className="text-xs">
+                                    {Array.from(new Set(voucher.lines.map(l => l.accountName))).join(', ')}
+                                  </TableCell>
+                                </TableRow>
+                              ))}
+                            </TableBody>
+                          </Table>
+                        </ScrollArea>
+                      )}
+                    </div>
+
                     {counterStatus === 'success' && counterResult && (
                       <div className="space-y-2 mt-2">
                         {/* 요약 카드 3개 */}
@@ -3797,7 +3804,7 @@ const AIInsights: React.FC<AIInsightsProps> = ({ entries, onBackToHome, ledgerWo
                                               setCounterDrilldownAccount(detail.name);
                                               // 계정명 클릭 시에도 월별 합계 표시
                                               setCounterDrilldownAmountClicked(true);
-                                              setSelectedVoucherNumber(null);
+                                              setSelectedVoucherKey(null);
                                               console.log('✅ counterDrilldownAmountClicked를 true로 설정했습니다.');
                                             }}
                                           >
@@ -3810,7 +3817,7 @@ const AIInsights: React.FC<AIInsightsProps> = ({ entries, onBackToHome, ledgerWo
                                               setCounterDrilldownAccount(detail.name);
                                               // 건수 클릭 시에도 월별 합계 표시
                                               setCounterDrilldownAmountClicked(true);
-                                              setSelectedVoucherNumber(null);
+                                              setSelectedVoucherKey(null);
                                               console.log('✅ counterDrilldownAmountClicked를 true로 설정했습니다.');
                                             }}
                                             className="text-center font-bold text-blue-600 cursor-pointer hover:underline hover:text-blue-800 decoration-blue-400 underline-offset-2 whitespace-nowrap"
@@ -3939,7 +3946,7 @@ const AIInsights: React.FC<AIInsightsProps> = ({ entries, onBackToHome, ledgerWo
                                           onClick={() => {
                                             setCounterDrilldownAccount(null);
                                             setCounterDrilldownAmountClicked(false);
-                                            setSelectedVoucherNumber(null);
+                                            setSelectedVoucherKey(null);
                                           }}
                                           className="p-0 h-auto"
                                         >
@@ -4014,7 +4021,7 @@ const AIInsights: React.FC<AIInsightsProps> = ({ entries, onBackToHome, ledgerWo
                                                   <TableCell>{String(entry.date)}</TableCell>
                                                   <TableCell 
                                                     className="font-medium text-blue-600 cursor-pointer hover:underline hover:text-blue-800"
-                                                    onClick={() => setSelectedVoucherNumber(String(entry.entryNumber))}
+                                                    onClick={() => setSelectedVoucherKey(getVoucherKey(entry))}
                                                   >
                                                     {String(entry.entryNumber)}
                                                   </TableCell>
@@ -4048,20 +4055,20 @@ const AIInsights: React.FC<AIInsightsProps> = ({ entries, onBackToHome, ledgerWo
                                 </Card>
                                 
                                 {/* 전표번호 drill-down (전표번호 클릭 시) */}
-                                {selectedVoucherNumber && (
+                                {selectedVoucher && (
                                   <div className="mt-3 space-y-2">
                                     <div className="flex items-center justify-between">
                                       <div className="flex items-center gap-2">
                                         <Button
                                           variant="ghost"
                                           size="sm"
-                                          onClick={() => setSelectedVoucherNumber(null)}
+                                          onClick={() => setSelectedVoucherKey(null)}
                                           className="p-0 h-auto"
                                         >
                                           <ArrowLeft className="w-4 h-4 mr-1" />
                                         </Button>
                                         <h4 className="font-bold text-slate-800 text-lg">
-                                          전표번호: {selectedVoucherNumber} 분개장
+                                          전표: {selectedVoucher.dateKey} / {selectedVoucher.entryNumber} 분개장
                                         </h4>
                                       </div>
                                       <Button 
@@ -4090,8 +4097,8 @@ const AIInsights: React.FC<AIInsightsProps> = ({ entries, onBackToHome, ledgerWo
                                               </TableRow>
                                             </TableHeader>
                                             <TableBody>
-                                              {getJournalEntriesByVoucherNumber(selectedVoucherNumber).length > 0 ? (
-                                                getJournalEntriesByVoucherNumber(selectedVoucherNumber).map((entry, idx) => (
+                                              {selectedVoucherLines.length > 0 ? (
+                                                selectedVoucherLines.map((entry, idx) => (
                                                   <TableRow key={idx}>
                                                     <TableCell>{String(entry.date)}</TableCell>
                                                     <TableCell>{String(entry.entryNumber)}</TableCell>
@@ -4117,7 +4124,13 @@ const AIInsights: React.FC<AIInsightsProps> = ({ entries, onBackToHome, ledgerWo
                                           </Table>
                                         </div>
                                         <div className="mt-4 text-sm text-muted-foreground">
-                                          총 {getJournalEntriesByVoucherNumber(selectedVoucherNumber).length.toLocaleString()}건
+                                          총 {selectedVoucherLines.length.toLocaleString()}건
+                                          {' · '}차변 {selectedVoucher.totalDebit.toLocaleString()} / 대변 {selectedVoucher.totalCredit.toLocaleString()}
+                                          {!selectedVoucher.isBalanced && (
+                                            <span className="ml-2 text-red-600 font-medium">
+                                              (대차 차이 {selectedVoucher.difference.toLocaleString()})
+                                            </span>
+                                          )}
                                         </div>
                                       </CardContent>
                                     </Card>
@@ -4345,6 +4358,7 @@ const AIInsights: React.FC<AIInsightsProps> = ({ entries, onBackToHome, ledgerWo
                             </Button>
                           )}
                         </div>
+                        <ValidationIssuesNotice issues={appropriatenessData.validationIssues} />
                         {appropriatenessData.flaggedItems.length > 0 ? (
                           <div className="space-y-2">
                             <div className="text-sm text-muted-foreground mb-2">
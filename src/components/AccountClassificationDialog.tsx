@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ListTree } from 'lucide-react';
+import type { NormalizedLedger } from '@/lib/ledgerModel';
+import {
+  classifyLedgerAccount,
+  setAccountOverride,
+  ACCOUNT_CATEGORY_LABELS,
+  type AccountCategory,
+  type AccountClassification,
+} from '@/lib/chartOfAccounts';
+
+interface AccountClassificationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  ledger: NormalizedLedger;
+}
+
+// Radix Select는 빈 문자열 값을 허용하지 않으므로 "자동 분류"를 별도 값으로 표시
+const AUTO_VALUE = '__auto__';
+
+const SOURCE_LABELS: Record<AccountClassification['source'], string> = {
+  override: '사용자 지정',
+  code: '계정코드',
+  keyword: '계정명',
+  unknown: '미분류',
+};
+
+const CATEGORY_OPTIONS = (Object.keys(ACCOUNT_CATEGORY_LABELS) as AccountCategory[]).filter(c => c !== 'unknown');
+
+export const AccountClassificationDialog: React.FC<AccountClassificationDialogProps> = ({
+  open,
+  onOpenChange,
+  ledger,
+}) => {
+  const [searchTerm, setSearchTerm] = useState<string>('');
+  const [, setRevision] = useState<number>(0); // 사용자 지정 변경 시 다시 렌더링
+
+  // 분류 결과는 분류기에서 캐시되므로 렌더링마다 다시 조회해도 부담이 없습니다
+  const term = searchTerm.trim();
+  const rows = ledger.accountNames
+    .map(accountName => ({
+      accountName,
+      classification: classifyLedgerAccount(ledger, accountName),
+    }))
+    .filter(row =>
+      !term || row.accountName.includes(term) || ACCOUNT_CATEGORY_LABELS[row.classification.category].includes(term)
+    );
+
+  const handleChange = (accountName: string, value: string) => {
+    setAccountOverride(accountName, value === AUTO_VALUE ? null : (value as AccountCategory));
+    setRevision(prev => prev + 1);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ListTree className="h-5 w-5" />
+            계정 분류 확인
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            계정코드 범위(1xx 자산, 2xx 부채, 4xx 매출, 8xx 판관비 등)로 분류하고, 코드가 없으면 계정명으로 판단합니다.
+            잘못 분류된 계정은 직접 지정하면 모든 분석 화면에 적용됩니다.
+          </p>
+
+          <Input
+            placeholder="계정명 또는 분류 검색..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+          />
+
+          <div className="border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>계정과목</TableHead>
+                  <TableHead>코드</TableHead>
+                  <TableHead>판단 근거</TableHead>
+                  <TableHead className="w-[200px]">분류</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(({ accountName, classification }) => (
+                  <TableRow key={accountName}>
+                    <TableCell className="font-medium">{accountName}</TableCell>
+                    <TableCell className="text-xs text-muted-foreground">{classification.code || '-'}</TableCell>
+                    <TableCell>
+                      <Badge
+                        variant={classification.source === 'override' ? 'default' : classification.source === 'unknown' ? 'destructive' : 'secondary'}
+                        className="text-xs"
+                      >
+                        {SOURCE_LABELS[classification.source]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={classification.source === 'override' ? classification.category : AUTO_VALUE}
+                        onValueChange={(value) => handleChange(accountName, value)}
+                      >
+                        <SelectTrigger className="h-8 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={AUTO_VALUE}>
+                            {classification.source === 'override'
+                              ? '자동 분류'
+                              : `자동 (${ACCOUNT_CATEGORY_LABELS[classification.category]})`}
+                          </SelectItem>
+                          {CATEGORY_OPTIONS.map(category => (
+                            <SelectItem key={category} value={category}>{ACCOUNT_CATEGORY_LABELS[category]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
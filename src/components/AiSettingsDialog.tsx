@@ -0,0 +1,344 @@
+import React, { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { CheckCircle2, Info, Loader2, RefreshCw, Settings, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { deleteApiKey, getApiKey, saveApiKey } from '@/lib/geminiClient';
+import {
+  GEMINI_FLASH_MODELS,
+  GEMINI_PRO_MODELS,
+  LLM_PROVIDER_LABELS,
+  LLM_TIER_LABELS,
+  getLlmSettings,
+  isOpenAiCompatibleConfigured,
+  listOpenAiCompatibleModels,
+  saveLlmSettings,
+  type LlmProviderId,
+  type LlmSettings,
+  type OpenAiCompatibleSettings,
+} from '@/lib/llmProvider';
+
+interface AiSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void; // 저장·삭제 후 상단 버튼 상태 갱신용
+}
+
+export const AiSettingsDialog: React.FC<AiSettingsDialogProps> = ({
+  open,
+  onOpenChange,
+  onSaved,
+}) => {
+  const { toast } = useToast();
+  const [settings, setSettings] = useState<LlmSettings>(getLlmSettings);
+  const [apiKeyInput, setApiKeyInput] = useState<string>('');
+  const [apiKeyExists, setApiKeyExists] = useState<boolean>(false);
+  const [serverModels, setServerModels] = useState<string[]>([]);
+  const [isLoadingModels, setIsLoadingModels] = useState<boolean>(false);
+
+  // 열 때마다 저장된 설정으로 초기화
+  useEffect(() => {
+    if (!open) return;
+    const apiKey = getApiKey();
+    setSettings(getLlmSettings());
+    setApiKeyInput(apiKey || '');
+    setApiKeyExists(!!apiKey);
+    setServerModels([]);
+  }, [open]);
+
+  const updateGemini = (patch: Partial<LlmSettings['gemini']>) =>
+    setSettings(prev => ({ ...prev, gemini: { ...prev.gemini, ...patch } }));
+  const updateOpenAi = (patch: Partial<OpenAiCompatibleSettings>) =>
+    setSettings(prev => ({ ...prev, openaiCompatible: { ...prev.openaiCompatible, ...patch } }));
+
+  const handleLoadModels = async () => {
+    setIsLoadingModels(true);
+    try {
+      const models = await listOpenAiCompatibleModels(settings.openaiCompatible);
+      setServerModels(models);
+      if (models.length > 0 && !settings.openaiCompatible.flashModel.trim()) {
+        updateOpenAi({ flashModel: models[0] });
+      }
+      toast({
+        title: '연결 성공',
+        description: `서버에서 모델 ${models.length.toLocaleString()}개를 찾았습니다.`,
+      });
+    } catch (error) {
+      toast({
+        title: '오류',
+        description: error instanceof Error ? error.message : String(error),
+        variant: 'destructive',
+      });
+    } finally {
+      setIsLoadingModels(false);
+    }
+  };
+
+  const handleDeleteApiKey = () => {
+    deleteApiKey();
+    setApiKeyInput('');
+    setApiKeyExists(false);
+    onSaved();
+    toast({
+      title: '성공',
+      description: 'API Key가 삭제되었습니다.',
+    });
+  };
+
+  const handleSave = () => {
+    if (settings.provider === 'gemini' && !apiKeyInput.trim()) {
+      toast({
+        title: '오류',
+        description: 'API Key를 입력해주세요.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    if (settings.provider === 'openai_compatible' && !isOpenAiCompatibleConfigured(settings)) {
+      toast({
+        title: '오류',
+        description: '엔드포인트 주소와 모델을 입력해주세요.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (settings.provider === 'gemini') saveApiKey(apiKeyInput.trim());
+    saveLlmSettings(settings);
+    onSaved();
+    onOpenChange(false);
+    toast({
+      title: '성공',
+      description: `${LLM_PROVIDER_LABELS[settings.provider]} 설정이 저장되었습니다. 이제 AI 분석을 사용할 수 있습니다.`,
+    });
+  };
+
+  const { gemini, openaiCompatible } = settings;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Settings className="h-5 w-5" />
+            AI 분석 설정
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>AI 공급자</Label>
+            <Select
+              value={settings.provider}
+              onValueChange={(value) => setSettings(prev => ({ ...prev, provider: value as LlmProviderId }))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(LLM_PROVIDER_LABELS) as LlmProviderId[]).map(provider => (
+                  <SelectItem key={provider} value={provider}>{LLM_PROVIDER_LABELS[provider]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {settings.provider === 'gemini' ? (
+            <>
+              <div className="rounded-lg bg-blue-50 dark:bg-blue-950 p-4 border border-blue-200 dark:border-blue-800">
+                <div className="flex items-start gap-2">
+                  <Info className="h-5 w-5 text-blue-600 dark:text-blue-400 mt-0.5" />
+                  <div className="space-y-2 text-sm text-blue-900 dark:text-blue-100">
+                    <p className="font-semibold">🔒 데이터 보안 안내</p>
+                    <p>API Key를 입력하시면 귀하의 브라우저에서 직접 Google Gemini API에 연결됩니다.</p>
+                    <p>회계 데이터는 외부 서버를 거치지 않고, 브라우저 → Google AI로 직접 전송됩니다.</p>
+                    <p className="text-xs text-blue-700 dark:text-blue-300">• API Key는 브라우저 localStorage에 안전하게 저장됩니다.</p>
+                    <p className="text-xs text-blue-700 dark:text-blue-300">• 스마트 샘플링으로 전체 데이터의 1-20%만 전송됩니다.</p>
+                    <p className="text-xs text-blue-700 dark:text-blue-300">• 원장을 구글로 보낼 수 없다면 OpenAI 호환 공급자로 사내·로컬 서버를 지정하세요.</p>
+                  </div>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="apiKey">API Key</Label>
+                <Input
+                  id="apiKey"
+                  type="password"
+                  placeholder="Google Gemini API Key를 입력하세요"
+                  value={apiKeyInput}
+                  onChange={(e) => setApiKeyInput(e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  API Key 발급: <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noopener noreferrer" className="text-primary underline">Google AI Studio</a>
+                </p>
+              </div>
+
+              {apiKeyExists && (
+                <div className="flex items-center justify-between gap-2 rounded-lg bg-green-50 dark:bg-green-950 p-3 border border-green-200 dark:border-green-800">
+                  <div className="flex items-center gap-2 text-sm text-green-900 dark:text-green-100">
+                    <CheckCircle2 className="h-4 w-4 text-green-600 dark:text-green-400" />
+                    <span>API Key가 이미 설정되어 있습니다.</span>
+                  </div>
+                  <Button variant="destructive" size="sm" onClick={handleDeleteApiKey} className="flex items-center gap-1">
+                    <Trash2 className="h-4 w-4" />
+                    삭제
+                  </Button>
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label>{LLM_TIER_LABELS.flash} 모델</Label>
+                  <Select value={gemini.flashModel} onValueChange={(value) => updateGemini({ flashModel: value })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {GEMINI_FLASH_MODELS.map(model => (
+                        <SelectItem key={model} value={model}>{model}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>{LLM_TIER_LABELS.pro} 모델</Label>
+                  <Select value={gemini.proModel} onValueChange={(value) => updateGemini({ proModel: value })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {GEMINI_PRO_MODELS.map(model => (
+                        <SelectItem key={model} value={model}>{model}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                선택한 모델을 먼저 시도하고, 사용할 수 없으면 나머지 모델로 자동 대체합니다.
+              </p>
+            </>
+          ) : (
+            <>
+              <div className="rounded-lg bg-blue-50 dark:bg-blue-950 p-4 border border-blue-200 dark:border-blue-800">
+                <div className="flex items-start gap-2">
+                  <Info className="h-5 w-5 text-blue-600 dark:text-blue-400 mt-0.5" />
+                  <div className="space-y-2 text-sm text-blue-900 dark:text-blue-100">
+                    <p className="font-semibold">🔒 데이터 보안 안내</p>
+                    <p>AI 분석 요청은 아래에 입력한 서버로만 전송되며, 구글 등 외부 AI 서비스로는 전송되지 않습니다.</p>
+                    <p className="text-xs text-blue-700 dark:text-blue-300">• Ollama: http://localhost:11434/v1 (OLLAMA_ORIGINS 환경 변수로 이 사이트의 요청을 허용해야 합니다)</p>
+                    <p className="text-xs text-blue-700 dark:text-blue-300">• llama.cpp 서버: http://localhost:8080/v1</p>
+                  </div>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="llmBaseUrl">엔드포인트 주소</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="llmBaseUrl"
+                    placeholder="http://localhost:11434/v1"
+                    value={openaiCompatible.baseUrl}
+                    onChange={(e) => updateOpenAi({ baseUrl: e.target.value })}
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={handleLoadModels}
+                    disabled={isLoadingModels || !openaiCompatible.baseUrl.trim()}
+                    className="flex items-center gap-1 whitespace-nowrap"
+                  >
+                    {isLoadingModels ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+                    모델 목록 불러오기
+                  </Button>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="llmApiKey">API Key (선택)</Label>
+                <Input
+                  id="llmApiKey"
+                  type="password"
+                  placeholder="로컬 서버는 비워 두세요"
+                  value={openaiCompatible.apiKey}
+                  onChange={(e) => updateOpenAi({ apiKey: e.target.value })}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="llmFlashModel">{LLM_TIER_LABELS.flash} 모델</Label>
+                  <Input
+                    id="llmFlashModel"
+                    list="llm-server-models"
+                    placeholder="예: qwen2.5:14b"
+                    value={openaiCompatible.flashModel}
+                    onChange={(e) => updateOpenAi({ flashModel: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="llmProModel">{LLM_TIER_LABELS.pro} 모델 (선택)</Label>
+                  <Input
+                    id="llmProModel"
+                    list="llm-server-models"
+                    placeholder="비우면 일반 분석 모델 사용"
+                    value={openaiCompatible.proModel}
+                    onChange={(e) => updateOpenAi({ proModel: e.target.value })}
+                  />
+                </div>
+              </div>
+              <datalist id="llm-server-models">
+                {serverModels.map(model => (
+                  <option key={model} value={model} />
+                ))}
+              </datalist>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="llmInputCost">입력 단가 (USD / 1M 토큰)</Label>
+                  <Input
+                    id="llmInputCost"
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={openaiCompatible.inputCostPerMillion}
+                    onChange={(e) => updateOpenAi({ inputCostPerMillion: Math.max(0, Number(e.target.value) || 0) })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="llmOutputCost">출력 단가 (USD / 1M 토큰)</Label>
+                  <Input
+                    id="llmOutputCost"
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={openaiCompatible.outputCostPerMillion}
+                    onChange={(e) => updateOpenAi({ outputCostPerMillion: Math.max(0, Number(e.target.value) || 0) })}
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                사용 이력의 비용은 이 단가로 계산합니다. 로컬 서버는 0으로 두면 됩니다.
+              </p>
+            </>
+          )}
+
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              className="flex-1"
+            >
+              취소
+            </Button>
+            <Button onClick={handleSave} className="flex-1">
+              저장
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
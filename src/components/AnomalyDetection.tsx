@@ -8,6 +8,22 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/u
 import { useToast } from '@/hooks/use-toast';
 import { Download, AlertTriangle, TrendingUp, TrendingDown, DollarSign, Calendar, Building2 } from 'lucide-react';
 import * as XLSX from 'xlsx';
+import { getPostingEntries, type NormalizedLedger } from '@/lib/ledgerModel';
+import { normalizeDateKey } from '@/lib/holidayCalendar';
+import { resolveVendorName } from '@/lib/vendorResolution';
+import { loadResultFromActiveEngagement, saveResultToActiveEngagement } from '@/lib/engagementStore';
+import {
+  BASELINE_KIND_LABELS,
+  DEFAULT_BASELINE_OPTIONS,
+  buildAmountBaseline,
+  buildBaselineModel,
+  evaluateBaselines,
+  getAccountVendorKey,
+  getRobustZScore,
+  toBaselineObservation,
+  type BaselineBreach,
+  type BaselineObservation,
+} from '@/lib/anomalyBaselines';
 
 type LedgerRow = { [key: string]: string | number | Date | undefined };
 
@@ -17,6 +33,7 @@ interface AnomalyDetectionProps {
   amountColumns: string[];
   dateColumns: string[];
   vendorColumns: string[];
+  ledger?: NormalizedLedger | null; // 원장 전체로 계정·거래처 기준선을 세울 때 (없으면 이 계정 행만 사용)
 }
 
 const cleanAmount = (val: any): number => {
@@ -49,15 +66,25 @@ interface AnomalyResult {
   reasons: string[];
   severity: 'high' | 'medium' | 'low';
   amount: number;
-  zScore?: number;
+  zScore?: number; // 계정 기준선 대비 수정 Z-점수
+  breaches: BaselineBreach[];
 }
 
+interface SavedAnomalyRun {
+  column: string;
+  zThreshold: number;
+  anomalies: AnomalyResult[];
+}
+
+const Z_THRESHOLD_OPTIONS = [3, 3.5, 5];
+
 export const AnomalyDetection: React.FC<AnomalyDetectionProps> = ({
   accountData,
   accountName,
   amountColumns,
   dateColumns,
   vendorColumns,
+  ledger = null,
 }) => {
   const { toast } = useToast();
   const [selectedColumn, setSelectedColumn] = useState<string>(amountColumns[0] || '');
@@ -91,6 +118,21 @@ export const AnomalyDetection: React.FC<AnomalyDetectionProps> = ({
   const [anomalies, setAnomalies] = useState<AnomalyResult[]>([]);
   const [selectedAnomaly, setSelectedAnomaly] = useState<AnomalyResult | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState<boolean>(false);
+  const [zThreshold, setZThreshold] = useState<number>(DEFAULT_BASELINE_OPTIONS.zThreshold);
+
+  // 감사 업무에 저장된 이 계정의 마지막 탐지 결과 복원
+  useEffect(() => {
+    let cancelled = false;
+    loadResultFromActiveEngagement<SavedAnomalyRun>('anomaly_baseline', accountName).then(saved => {
+      if (cancelled || !saved) return;
+      setSelectedColumn(saved.column);
+      setZThreshold(saved.zThreshold);
+      setAnomalies(saved.anomalies);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [accountName]);
   
   // dateColumn이나 vendorColumn이 변경되면 state 업데이트
   useEffect(() => {
@@ -105,43 +147,63 @@ export const AnomalyDetection: React.FC<AnomalyDetectionProps> = ({
     }
   }, [autoDetectedVendorColumn, vendorColumn]);
 
-  // 통계 계산 (월계, 누계 제외)
+  const baselineOptions = useMemo(() => ({ ...DEFAULT_BASELINE_OPTIONS, zThreshold }), [zThreshold]);
+
+  // 분석 대상 행 (월계, 누계 제외)을 기준선 비교용 거래로 변환
+  const rowObservations = useMemo(() => {
+    if (!selectedColumn) return [];
+    return accountData
+      .filter(row => !isSummaryRow(row))
+      .map(row => ({
+        row,
+        observation: {
+          amount: cleanAmount(row[selectedColumn]),
+          account: accountName,
+          vendor: vendorColumn && row[vendorColumn] ? resolveVendorName(String(row[vendorColumn])) : '',
+          dateKey: dateColumn ? normalizeDateKey(row[dateColumn]) : null,
+        } as BaselineObservation,
+      }));
+  }, [accountData, accountName, selectedColumn, vendorColumn, dateColumn]);
+
+  // 기준선 모집단: 원장이 있으면 원장 전체, 없으면 이 계정의 행
+  const baselineModel = useMemo(() => {
+    const population = ledger
+      ? getPostingEntries(ledger).map(toBaselineObservation)
+      : rowObservations.map(item => item.observation);
+    return buildBaselineModel(population, baselineOptions);
+  }, [ledger, rowObservations, baselineOptions]);
+
+  // 통계 계산 (로그 금액 중앙값/MAD 기준)
   const statistics = useMemo(() => {
-    if (!selectedColumn || accountData.length === 0) return null;
-
-    // 월계, 누계 행 제외
-    const filteredData = accountData.filter(row => !isSummaryRow(row));
-    
-    const amounts = filteredData
-      .map(row => cleanAmount(row[selectedColumn]))
-      .filter(amt => amt > 0);
-
+    const amounts = rowObservations.map(item => item.observation.amount).filter(amt => amt > 0);
     if (amounts.length === 0) return null;
 
-    const mean = amounts.reduce((sum, val) => sum + val, 0) / amounts.length;
-    const variance = amounts.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / amounts.length;
-    const stdDev = Math.sqrt(variance);
-
-    // IQR 계산
-    const sorted = [...amounts].sort((a, b) => a - b);
-    const q1Index = Math.floor(sorted.length * 0.25);
-    const q3Index = Math.floor(sorted.length * 0.75);
-    const q1 = sorted[q1Index];
-    const q3 = sorted[q3Index];
-    const iqr = q3 - q1;
+    const baseline = buildAmountBaseline(accountName, amounts, zThreshold);
+    if (!baseline) return null;
+
+    const vendors = new Set(rowObservations.map(item => item.observation.vendor).filter(Boolean));
+    const vendorBaselineCount = Array.from(vendors)
+      .filter(vendor => baselineModel.vendors.has(getAccountVendorKey(accountName, vendor)))
+      .length;
+    let timingBaselineCount = 0;
+    baselineModel.timing.forEach(timing => {
+      if (timing.account === accountName && timing.medianIntervalDays >= baselineOptions.minTypicalIntervalDays) {
+        timingBaselineCount++;
+      }
+    });
 
     return {
-      mean,
-      stdDev,
+      median: baseline.median,
+      lower: baseline.lower,
+      upper: baseline.upper,
       min: Math.min(...amounts),
       max: Math.max(...amounts),
-      median: sorted[Math.floor(sorted.length / 2)],
-      q1,
-      q3,
-      iqr,
       count: amounts.length,
+      vendorCount: vendors.size,
+      vendorBaselineCount,
+      timingBaselineCount,
     };
-  }, [accountData, selectedColumn]);
+  }, [rowObservations, accountName, zThreshold, baselineModel, baselineOptions]);
 
   // 이상거래 탐지
   const detectAnomalies = () => {
@@ -156,85 +218,47 @@ export const AnomalyDetection: React.FC<AnomalyDetectionProps> = ({
 
     setIsAnalyzing(true);
     const detectedAnomalies: AnomalyResult[] = [];
-
-    // 월계, 누계 행 제외
-    const filteredData = accountData.filter(row => !isSummaryRow(row));
-
-    filteredData.forEach((row, index) => {
-      const amount = cleanAmount(row[selectedColumn]);
-      if (amount <= 0) return;
-
-      const reasons: string[] = [];
-      let severity: 'high' | 'medium' | 'low' = 'low';
-      let zScore: number | undefined;
-
-      // 1. Z-score 기반 이상치 탐지
-      zScore = (amount - statistics.mean) / statistics.stdDev;
-      if (Math.abs(zScore) > 3) {
-        reasons.push(`Z-score ${zScore.toFixed(2)} (평균에서 3 표준편차 이상 벗어남)`);
-        severity = 'high';
-      } else if (Math.abs(zScore) > 2) {
-        reasons.push(`Z-score ${zScore.toFixed(2)} (평균에서 2 표준편차 이상 벗어남)`);
-        severity = severity === 'low' ? 'medium' : severity;
-      }
-
-      // 2. IQR 기반 이상치 탐지
-      const lowerBound = statistics.q1 - 1.5 * statistics.iqr;
-      const upperBound = statistics.q3 + 1.5 * statistics.iqr;
-      if (amount < lowerBound || amount > upperBound) {
-        if (amount > upperBound) {
-          reasons.push(`상위 이상치 (IQR: ${upperBound.toLocaleString()}원 초과)`);
-        } else {
-          reasons.push(`하위 이상치 (IQR: ${lowerBound.toLocaleString()}원 미만)`);
-        }
-        if (severity === 'low') severity = 'medium';
-      }
-
-      // 3. 비정상적으로 큰 거래 (평균의 10배 이상)
-      if (amount > statistics.mean * 10) {
-        reasons.push(`비정상적으로 큰 거래 (평균의 ${(amount / statistics.mean).toFixed(1)}배)`);
-        if (severity === 'low') severity = 'medium';
-      }
-
-      // 4. 반올림 패턴 탐지 (정확히 10,000원, 100,000원 등)
-      const roundedPatterns = [
-        1000, 5000, 10000, 50000, 100000, 500000, 1000000, 5000000, 10000000
-      ];
-      const isRounded = roundedPatterns.some(pattern => Math.abs(amount - pattern) < 1);
-      if (isRounded && amount > statistics.mean) {
-        reasons.push(`의심스러운 반올림 패턴 (${amount.toLocaleString()}원)`);
-        if (severity === 'low') severity = 'low';
-      }
-
-      // 5. 최대값/최소값과 동일한 거래
-      if (amount === statistics.max && statistics.max > statistics.mean * 5) {
-        reasons.push(`최대값과 동일 (${statistics.max.toLocaleString()}원)`);
-        severity = 'high';
-      }
-
-      if (reasons.length > 0) {
-        detectedAnomalies.push({
-          row,
-          index,
-          reasons,
-          severity,
-          amount,
-          zScore,
-        });
-      }
+    const accountBaseline = baselineModel.accounts.get(accountName);
+
+    rowObservations.forEach(({ row, observation }, index) => {
+      if (observation.amount <= 0) return;
+
+      const breaches = evaluateBaselines(observation, baselineModel, baselineOptions);
+      if (breaches.length === 0) return;
+
+      // 두 개 이상의 기준선을 벗어나거나 금액 점수가 기준의 2배 이상이면 높음
+      const isSevere = breaches.length >= 2 ||
+        breaches.some(b => b.kind !== 'timing' && Math.abs(b.score) >= zThreshold * 2);
+
+      detectedAnomalies.push({
+        row,
+        index,
+        reasons: breaches.map(b => b.description),
+        severity: isSevere ? 'high' : 'medium',
+        amount: observation.amount,
+        zScore: accountBaseline ? getRobustZScore(observation.amount, accountBaseline) : undefined,
+        breaches,
+      });
     });
 
-    // 심각도 순으로 정렬
+    // 심각도, 벗어난 기준선 수, 점수 순으로 정렬
     const severityOrder = { high: 3, medium: 2, low: 1 };
+    const maxScore = (anomaly: AnomalyResult) => Math.max(...anomaly.breaches.map(b => Math.abs(b.score)));
     detectedAnomalies.sort((a, b) => {
       if (severityOrder[b.severity] !== severityOrder[a.severity]) {
         return severityOrder[b.severity] - severityOrder[a.severity];
       }
-      return Math.abs(b.zScore || 0) - Math.abs(a.zScore || 0);
+      if (b.breaches.length !== a.breaches.length) return b.breaches.length - a.breaches.length;
+      return maxScore(b) - maxScore(a);
     });
 
     setAnomalies(detectedAnomalies);
     setIsAnalyzing(false);
+    saveResultToActiveEngagement('anomaly_baseline', accountName, {
+      column: selectedColumn,
+      zThreshold,
+      anomalies: detectedAnomalies,
+    });
 
     toast({
       title: '분석 완료',
@@ -242,6 +266,12 @@ export const AnomalyDetection: React.FC<AnomalyDetectionProps> = ({
     });
   };
 
+  const formatBreachValue = (breach: BaselineBreach, value: number) =>
+    breach.kind === 'timing' ? `${Math.round(value)}일` : `${Math.round(value).toLocaleString()}원`;
+
+  const formatBreaches = (breaches: BaselineBreach[]) =>
+    breaches.map(b => BASELINE_KIND_LABELS[b.kind]).join(', ');
+
   // 심각도 높음 이상거래만 다운로드
   const downloadHighSeverityExcel = () => {
     const highSeverityAnomalies = anomalies.filter(a => a.severity === 'high');
@@ -266,14 +296,15 @@ export const AnomalyDetection: React.FC<AnomalyDetectionProps> = ({
         ['심각도 높음 거래 수', highSeverityAnomalies.length],
         [],
         ['통계 정보'],
-        ['평균', Math.round(statistics.mean).toLocaleString()],
-        ['표준편차', Math.round(statistics.stdDev).toLocaleString()],
+        ['기준선 모집단', ledger ? '원장 전체' : '이 계정'],
+        ['수정 Z-점수 기준', zThreshold],
+        ['중앙값', Math.round(statistics.median).toLocaleString()],
+        ['정상 범위 하한', Math.round(statistics.lower).toLocaleString()],
+        ['정상 범위 상한', Math.round(statistics.upper).toLocaleString()],
         ['최소값', Math.round(statistics.min).toLocaleString()],
         ['최대값', Math.round(statistics.max).toLocaleString()],
-        ['중앙값', Math.round(statistics.median).toLocaleString()],
-        ['1사분위수 (Q1)', Math.round(statistics.q1).toLocaleString()],
-        ['3사분위수 (Q3)', Math.round(statistics.q3).toLocaleString()],
-        ['IQR', Math.round(statistics.iqr).toLocaleString()],
+        ['거래처 금액 기준선', `${statistics.vendorBaselineCount} / ${statistics.vendorCount}개 거래처`],
+        ['거래처 주기 기준선', `${statistics.timingBaselineCount}개 거래처`],
         [],
         ['심각도 높음 이상거래 목록'],
       ] : [];
@@ -282,7 +313,7 @@ export const AnomalyDetection: React.FC<AnomalyDetectionProps> = ({
       const headers = ['순번', '심각도'];
       if (dateColumn) headers.push('일자');
       if (vendorColumn) headers.push('거래처');
-      headers.push('금액', 'Z-score', '이유');
+      headers.push('금액', '수정 Z-score', '벗어난 기준선', '이유');
       
       // 나머지 열 추가 (이미 포함된 열 제외)
       const otherColumns = highSeverityAnomalies[0] ? Object.keys(highSeverityAnomalies[0].row || {}).filter(key => 
@@ -314,6 +345,7 @@ export const AnomalyDetection: React.FC<AnomalyDetectionProps> = ({
           row.push(
             anomaly.amount.toLocaleString(),
             anomaly.zScore?.toFixed(2) || '',
+            formatBreaches(anomaly.breaches),
             anomaly.reasons.join('; ')
           );
           
@@ -364,14 +396,15 @@ export const AnomalyDetection: React.FC<AnomalyDetectionProps> = ({
         ['분석일시', new Date().toLocaleString('ko-KR')],
         [],
         ['통계 정보'],
-        ['평균', Math.round(statistics.mean).toLocaleString()],
-        ['표준편차', Math.round(statistics.stdDev).toLocaleString()],
+        ['기준선 모집단', ledger ? '원장 전체' : '이 계정'],
+        ['수정 Z-점수 기준', zThreshold],
+        ['중앙값', Math.round(statistics.median).toLocaleString()],
+        ['정상 범위 하한', Math.round(statistics.lower).toLocaleString()],
+        ['정상 범위 상한', Math.round(statistics.upper).toLocaleString()],
         ['최소값', Math.round(statistics.min).toLocaleString()],
         ['최대값', Math.round(statistics.max).toLocaleString()],
-        ['중앙값', Math.round(statistics.median).toLocaleString()],
-        ['1사분위수 (Q1)', Math.round(statistics.q1).toLocaleString()],
-        ['3사분위수 (Q3)', Math.round(statistics.q3).toLocaleString()],
-        ['IQR', Math.round(statistics.iqr).toLocaleString()],
+        ['거래처 금액 기준선', `${statistics.vendorBaselineCount} / ${statistics.vendorCount}개 거래처`],
+        ['거래처 주기 기준선', `${statistics.timingBaselineCount}개 거래처`],
         [],
         ['이상거래 목록'],
       ] : [];
@@ -380,7 +413,7 @@ export const AnomalyDetection: React.FC<AnomalyDetectionProps> = ({
       const headers = ['순번', '심각도'];
       if (dateColumn) headers.push('일자');
       if (vendorColumn) headers.push('거래처');
-      headers.push('금액', 'Z-score', '이유');
+      headers.push('금액', '수정 Z-score', '벗어난 기준선', '이유');
       
       // 나머지 열 추가 (이미 포함된 열 제외)
       const otherColumns = Object.keys(anomalies[0]?.row || {}).filter(key => 
@@ -412,6 +445,7 @@ export const AnomalyDetection: React.FC<AnomalyDetectionProps> = ({
           row.push(
             anomaly.amount.toLocaleString(),
             anomaly.zScore?.toFixed(2) || '',
+            formatBreaches(anomaly.breaches),
             anomaly.reasons.join('; ')
           );
           
@@ -476,12 +510,13 @@ export const AnomalyDetection: React.FC<AnomalyDetectionProps> = ({
             이상거래 탐지
           </CardTitle>
           <CardDescription>
-            통계적 방법을 사용하여 각 계정의 이상거래를 자동으로 탐지합니다.
+            계정별·거래처별 로그 금액 중앙값/MAD 기준선과 거래처의 평소 거래 주기를 벗어난 거래를 탐지합니다.
+            {ledger ? ' 기준선은 원장 전체 거래로 계산합니다.' : ' 기준선은 이 계정의 거래로 계산합니다.'}
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
           {/* 설정 */}
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
             <div className="space-y-2">
               <label className="text-sm font-medium">금액 열 선택</label>
               <Select value={selectedColumn} onValueChange={setSelectedColumn}>
@@ -496,6 +531,20 @@ export const AnomalyDetection: React.FC<AnomalyDetectionProps> = ({
               </Select>
             </div>
 
+            <div className="space-y-2">
+              <label className="text-sm font-medium">수정 Z-점수 기준</label>
+              <Select value={String(zThreshold)} onValueChange={(value) => setZThreshold(Number(value))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Z_THRESHOLD_OPTIONS.map(option => (
+                    <SelectItem key={option} value={String(option)}>|Z| ≥ {option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
             {dateColumns.length > 0 && (
               <div className="space-y-2">
                 <label className="text-sm font-medium">일자 열 선택 (선택사항)</label>
@@ -535,12 +584,14 @@ export const AnomalyDetection: React.FC<AnomalyDetectionProps> = ({
               <h4 className="text-sm font-semibold mb-3">통계 정보</h4>
               <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
                 <div>
-                  <div className="text-muted-foreground">평균</div>
-                  <div className="font-semibold">{Math.round(statistics.mean).toLocaleString()}원</div>
+                  <div className="text-muted-foreground">중앙값</div>
+                  <div className="font-semibold">{Math.round(statistics.median).toLocaleString()}원</div>
                 </div>
                 <div>
-                  <div className="text-muted-foreground">표준편차</div>
-                  <div className="font-semibold">{Math.round(statistics.stdDev).toLocaleString()}원</div>
+                  <div className="text-muted-foreground">계정 정상 범위</div>
+                  <div className="font-semibold">
+                    {Math.round(statistics.lower).toLocaleString()} ~ {Math.round(statistics.upper).toLocaleString()}원
+                  </div>
                 </div>
                 <div>
                   <div className="text-muted-foreground">최소값</div>
@@ -550,7 +601,20 @@ export const AnomalyDetection: React.FC<AnomalyDetectionProps> = ({
                   <div className="text-muted-foreground">최대값</div>
                   <div className="font-semibold">{Math.round(statistics.max).toLocaleString()}원</div>
                 </div>
+                <div>
+                  <div className="text-muted-foreground">거래처 금액 기준선</div>
+                  <div className="font-semibold">
+                    {statistics.vendorBaselineCount.toLocaleString()} / {statistics.vendorCount.toLocaleString()}개 거래처
+                  </div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">거래처 주기 기준선</div>
+                  <div className="font-semibold">{statistics.timingBaselineCount.toLocaleString()}개 거래처</div>
+                </div>
               </div>
+              <p className="mt-3 text-xs text-muted-foreground">
+                기준선은 거래 {DEFAULT_BASELINE_OPTIONS.minBaselineCount}건 이상인 계정·거래처에만 만들며, 주기 기준선은 평소 간격이 {DEFAULT_BASELINE_OPTIONS.minTypicalIntervalDays}일 이상인 거래처만 검사합니다.
+              </p>
             </div>
           )}
 
@@ -602,7 +666,8 @@ export const AnomalyDetection: React.FC<AnomalyDetectionProps> = ({
                       {dateColumn && <TableHead>일자</TableHead>}
                       {vendorColumn && <TableHead>거래처</TableHead>}
                       <TableHead className="text-right">금액</TableHead>
-                      <TableHead className="text-right">Z-score</TableHead>
+                      <TableHead className="text-right">수정 Z-score</TableHead>
+                      <TableHead>벗어난 기준선</TableHead>
                       <TableHead>이유</TableHead>
                       <TableHead>상세보기</TableHead>
                     </TableRow>
@@ -677,6 +742,15 @@ export const AnomalyDetection: React.FC<AnomalyDetectionProps> = ({
                           <TableCell className="text-right">
                             {anomaly.zScore?.toFixed(2) || '-'}
                           </TableCell>
+                          <TableCell>
+                            <div className="flex flex-wrap gap-1">
+                              {anomaly.breaches.map(breach => (
+                                <Badge key={breach.kind} variant="outline" className="text-xs whitespace-nowrap">
+                                  {BASELINE_KIND_LABELS[breach.kind]}
+                                </Badge>
+                              ))}
+                            </div>
+                          </TableCell>
                           <TableCell className="text-sm">
                             {anomaly.reasons[0]}
                             {anomaly.reasons.length > 1 && ` 외 ${anomaly.reasons.length - 1}개`}
@@ -726,7 +800,17 @@ export const AnomalyDetection: React.FC<AnomalyDetectionProps> = ({
                         ['기본 정보'],
                         ['심각도', getSeverityLabel(selectedAnomaly.severity)],
                         ['금액', selectedAnomaly.amount.toLocaleString()],
-                        ['Z-score', selectedAnomaly.zScore?.toFixed(2) || '-'],
+                        ['수정 Z-score', selectedAnomaly.zScore?.toFixed(2) || '-'],
+                        [],
+                        ['벗어난 기준선'],
+                        ['기준선', '대상', '기준값', '실제값', '점수'],
+                        ...selectedAnomaly.breaches.map(breach => [
+                          BASELINE_KIND_LABELS[breach.kind],
+                          breach.group,
+                          formatBreachValue(breach, breach.expected),
+                          formatBreachValue(breach, breach.actual),
+                          breach.score.toFixed(2),
+                        ]),
                         [],
                         ['탐지된 이유'],
                         ...selectedAnomaly.reasons.map(reason => [reason]),
@@ -777,12 +861,43 @@ export const AnomalyDetection: React.FC<AnomalyDetectionProps> = ({
                 </div>
                 {selectedAnomaly.zScore && (
                   <div>
-                    <div className="text-sm text-muted-foreground">Z-score</div>
+                    <div className="text-sm text-muted-foreground">수정 Z-score</div>
                     <div className="font-semibold">{selectedAnomaly.zScore.toFixed(2)}</div>
                   </div>
                 )}
               </div>
 
+              <div>
+                <div className="text-sm font-semibold mb-2">벗어난 기준선</div>
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>기준선</TableHead>
+                        <TableHead>대상</TableHead>
+                        <TableHead className="text-right">기준값</TableHead>
+                        <TableHead className="text-right">실제값</TableHead>
+                        <TableHead className="text-right">점수</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {selectedAnomaly.breaches.map(breach => (
+                        <TableRow key={breach.kind}>
+                          <TableCell>{BASELINE_KIND_LABELS[breach.kind]}</TableCell>
+                          <TableCell>{breach.group}</TableCell>
+                          <TableCell className="text-right">{formatBreachValue(breach, breach.expected)}</TableCell>
+                          <TableCell className="text-right">{formatBreachValue(breach, breach.actual)}</TableCell>
+                          <TableCell className="text-right">{breach.score.toFixed(2)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+                <p className="mt-1 text-xs text-muted-foreground">
+                  금액 기준선의 점수는 수정 Z-점수, 주기 기준선의 점수는 평소 간격 ÷ 실제 간격입니다.
+                </p>
+              </div>
+
               <div>
                 <div className="text-sm font-semibold mb-2">탐지된 이유</div>
                 <ul className="list-disc list-inside space-y-1 text-sm">
@@ -4,29 +4,70 @@ import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { DataGrid } from '@/components/DataGrid';
+import { createRecordColumns, getIndexRowKey } from '@/lib/dataGridColumns';
+import {
+  BENFORD_TEST_LABELS,
+  BENFORD_TEST_TYPES,
+  formatBenfordConformity,
+  formatBenfordDigit,
+  getBenfordDigit,
+  rankBenfordDeviations,
+  runBenfordTest,
+  type BenfordConformity,
+  type BenfordTestResult,
+  type BenfordTestType,
+} from '@/lib/benfordTests';
+import { getPostingEntries, toLedgerRows, type NormalizedLedger } from '@/lib/ledgerModel';
+import type { JournalEntry } from '@/types/analysis';
 import { useToast } from '@/hooks/use-toast';
 import { analyzeWithFlash, hasApiKey } from '@/lib/geminiClient';
+import { loadResultFromActiveEngagement, saveResultToActiveEngagement } from '@/lib/engagementStore';
 import { Download, Loader2, BarChart3, Calculator, Coins } from 'lucide-react';
 import * as XLSX from 'xlsx';
 import ExcelJS from 'exceljs';
 import html2canvas from 'html2canvas';
 
 type LedgerRow = { [key: string]: string | number | Date | undefined };
-
-interface BenfordResult {
-  digit: number;
-  actualCount: number;
-  actualPercent: number;
-  benfordPercent: number;
-  difference: number;
-}
+type RankingDimension = 'account' | 'vendor';
 
 interface BenfordAnalysisProps {
   accountData: LedgerRow[];
   accountName: string;
   amountColumns: string[];
+  ledger?: NormalizedLedger | null; // 계정·거래처별 편차 순위용 (없으면 순위 숨김)
+}
+
+interface DetailView {
+  title: string;
+  rows: LedgerRow[];
+}
+
+interface SavedBenfordRun {
+  column: string;
+  tests: Record<BenfordTestType, BenfordTestResult>;
+  aiInsight?: string;
 }
 
+const RANKING_DIMENSION_LABELS: Record<RankingDimension, string> = {
+  account: '계정과목',
+  vendor: '거래처',
+};
+
+const MAX_RANKING_ROWS = 30;
+
+const CONFORMITY_CLASS_NAMES: Record<BenfordConformity, string> = {
+  close: 'bg-green-50 border-green-200 text-green-800 dark:bg-green-950 dark:border-green-800 dark:text-green-200',
+  acceptable: 'bg-green-50 border-green-200 text-green-800 dark:bg-green-950 dark:border-green-800 dark:text-green-200',
+  marginal: 'bg-amber-50 border-amber-200 text-amber-800 dark:bg-amber-950 dark:border-amber-800 dark:text-amber-200',
+  nonconformity: 'bg-red-50 border-red-200 text-red-800 dark:bg-red-950 dark:border-red-800 dark:text-red-200',
+};
+
+// 원장 분개의 검정 금액 (차변·대변 중 큰 쪽 절대값)
+const getEntryAmount = (entry: JournalEntry): number => Math.max(Math.abs(entry.debit), Math.abs(entry.credit));
+
+const formatPercent = (value: number, digits = 1): string => (value * 100).toFixed(digits);
+
 const cleanAmount = (val: any) => 
   typeof val === 'string' ? parseFloat(val.replace(/,/g, '')) || 0 : 
   typeof val === 'number' ? val : 0;
@@ -34,36 +75,71 @@ const cleanAmount = (val: any) =>
 export const BenfordAnalysis: React.FC<BenfordAnalysisProps> = ({ 
   accountData, 
   accountName, 
-  amountColumns 
+  amountColumns,
+  ledger = null,
 }) => {
   const { toast } = useToast();
   const [selectedColumn, setSelectedColumn] = useState<string>(amountColumns[0] || '');
   const [isAnalyzing, setIsAnalyzing] = useState<boolean>(false);
-  const [benfordResults, setBenfordResults] = useState<BenfordResult[] | null>(null);
+  const [benfordTests, setBenfordTests] = useState<Record<BenfordTestType, BenfordTestResult> | null>(null);
+  const [testType, setTestType] = useState<BenfordTestType>('firstDigit');
+  const [rankingDimension, setRankingDimension] = useState<RankingDimension>('account');
   const [aiInsight, setAiInsight] = useState<string>('');
   const [sourceData, setSourceData] = useState<LedgerRow[]>([]);
-  const [isDetailModalOpen, setIsDetailModalOpen] = useState<boolean>(false);
-  const [selectedDigit, setSelectedDigit] = useState<number | null>(null);
+  const [detailView, setDetailView] = useState<DetailView | null>(null);
   const chartContainerRef = useRef<HTMLDivElement>(null);
   const chartWrapperRef = useRef<HTMLDivElement>(null);
   const [linePoints, setLinePoints] = useState<string>('');
   const [totalCost, setTotalCost] = useState<number>(0);
   const [estimatedCost, setEstimatedCost] = useState<number | null>(null);
 
-  const detailTransactions = useMemo(() => {
-    if (!selectedDigit || !selectedColumn) return [];
-    return sourceData.filter(row => {
-      const amount = cleanAmount(row[selectedColumn]);
-      if (amount <= 0) return false;
-      const firstDigit = parseInt(String(amount)[0], 10);
-      return firstDigit === selectedDigit;
+  const currentResult = benfordTests ? benfordTests[testType] : null;
+
+  // 감사 업무에 저장된 이 계정의 마지막 검정 결과 복원
+  useEffect(() => {
+    let cancelled = false;
+    loadResultFromActiveEngagement<SavedBenfordRun>('benford', accountName).then(saved => {
+      if (cancelled || !saved) return;
+      setSelectedColumn(saved.column);
+      setBenfordTests(saved.tests);
+      setSourceData(accountData);
+      setAiInsight(saved.aiInsight ?? '');
     });
-  }, [selectedDigit, selectedColumn, sourceData]);
+    return () => {
+      cancelled = true;
+    };
+  }, [accountName, accountData]);
+
+  // 막대 높이 기준 (%): 첫째 자리는 기존처럼 35%, 나머지는 최대 비율에 여유를 둠
+  const chartMax = useMemo(() => {
+    if (!currentResult) return 35;
+    if (currentResult.test === 'firstDigit') return 35;
+    const max = Math.max(...currentResult.digits.map(d => Math.max(d.actual, d.expected)));
+    return max > 0 ? max * 100 * 1.2 : 1;
+  }, [currentResult]);
+
+  const postingEntries = useMemo(() => getPostingEntries(ledger), [ledger]);
+
+  // 계정·거래처별 편차 순위 (MAD 내림차순, 건수 50건 미만 제외)
+  const deviationRanking = useMemo(() => {
+    if (postingEntries.length === 0) return [];
+    return rankBenfordDeviations(
+      postingEntries,
+      entry => (rankingDimension === 'account' ? entry.accountName : entry.vendor?.trim() ?? ''),
+      getEntryAmount,
+      testType
+    );
+  }, [postingEntries, rankingDimension, testType]);
+
+  const detailColumns = useMemo(
+    () => createRecordColumns<LedgerRow>(Object.keys(detailView?.rows[0] || {})),
+    [detailView]
+  );
 
   // Calculate line points for Benford distribution
   useEffect(() => {
     const calculatePoints = () => {
-      if (!benfordResults || !chartContainerRef.current) {
+      if (!currentResult || !chartContainerRef.current) {
         setLinePoints('');
         return;
       }
@@ -71,12 +147,12 @@ export const BenfordAnalysis: React.FC<BenfordAnalysisProps> = ({
       const container = chartContainerRef.current;
       const containerWidth = container.offsetWidth;
       const containerHeight = container.offsetHeight;
-      const columnWidth = containerWidth / 9;
+      const columnWidth = containerWidth / currentResult.digits.length;
       const barAreaHeight = containerHeight - 20; // Subtract space for digit labels
 
-      const points = benfordResults.map((res, idx) => {
+      const points = currentResult.digits.map((res, idx) => {
         const x = (idx + 0.5) * columnWidth;
-        const y = containerHeight - (res.benfordPercent / 35) * barAreaHeight;
+        const y = containerHeight - ((res.expected * 100) / chartMax) * barAreaHeight;
         return `${x},${y}`;
       }).join(' ');
 
@@ -88,7 +164,7 @@ export const BenfordAnalysis: React.FC<BenfordAnalysisProps> = ({
     // Recalculate on window resize
     window.addEventListener('resize', calculatePoints);
     return () => window.removeEventListener('resize', calculatePoints);
-  }, [benfordResults]);
+  }, [currentResult, chartMax]);
 
   // 예상 비용 계산
   const calculateEstimate = (): number => {
@@ -112,6 +188,9 @@ export const BenfordAnalysis: React.FC<BenfordAnalysisProps> = ({
 |----------|----------|-------------|---------------|---------|
 [분포 데이터]
 
+## Nigrini 검정 요약 (MAD 적합도)
+[검정별 MAD·카이제곱 요약]
+
 ## 요구사항
 당신은 숙련된 회계 감사인입니다. 위 벤포드 법칙 분석 결과를 검토하고 다음을 제공해주세요:
 
@@ -151,19 +230,16 @@ export const BenfordAnalysis: React.FC<BenfordAnalysisProps> = ({
     }
 
     setIsAnalyzing(true);
-    setBenfordResults(null);
+    setBenfordTests(null);
     setAiInsight('');
 
     try {
-      // 1. Extract first digits
-      const firstDigits = accountData
+      // 1. 금액 추출 (0 이하 제외)
+      const amounts = accountData
         .map(row => cleanAmount(row[selectedColumn]))
-        .filter(amount => amount > 0)
-        .map(amount => parseInt(String(amount)[0], 10));
-
-      const totalCount = firstDigits.length;
+        .filter(amount => amount > 0);
 
-      if (totalCount < 50) {
+      if (amounts.length < 50) {
         toast({
           title: '경고',
           description: '데이터가 50개 미만입니다. 분석 결과의 신뢰도가 낮을 수 있습니다.',
@@ -171,30 +247,17 @@ export const BenfordAnalysis: React.FC<BenfordAnalysisProps> = ({
         });
       }
 
-      // 2. Calculate distribution
-      const counts = new Array(10).fill(0);
-      firstDigits.forEach(digit => {
-        if (digit >= 1 && digit <= 9) {
-          counts[digit]++;
-        }
-      });
-
-      const benfordPercents = [0, 30.1, 17.6, 12.5, 9.7, 7.9, 6.7, 5.8, 5.1, 4.6];
-      const results: BenfordResult[] = [];
-      
-      for (let i = 1; i <= 9; i++) {
-        const actualPercent = totalCount > 0 ? (counts[i] / totalCount) * 100 : 0;
-        results.push({
-          digit: i,
-          actualCount: counts[i],
-          actualPercent: parseFloat(actualPercent.toFixed(1)),
-          benfordPercent: benfordPercents[i],
-          difference: parseFloat((actualPercent - benfordPercents[i]).toFixed(1)),
-        });
-      }
+      // 2. Nigrini 검정 전체 수행
+      const tests = Object.fromEntries(
+        BENFORD_TEST_TYPES.map(test => [test, runBenfordTest(amounts, test)])
+      ) as Record<BenfordTestType, BenfordTestResult>;
+      const firstDigitTest = tests.firstDigit;
+      const totalCount = firstDigitTest.total;
 
-      setBenfordResults(results);
+      setBenfordTests(tests);
       setSourceData(accountData);
+      const savedRun: SavedBenfordRun = { column: selectedColumn, tests };
+      saveResultToActiveEngagement('benford', accountName, savedRun);
 
       // 3. Get AI Analysis
       if (!hasApiKey()) {
@@ -218,7 +281,10 @@ export const BenfordAnalysis: React.FC<BenfordAnalysisProps> = ({
 
 | 첫째 자리 | 실제 건수 | 실제 분포(%) | 벤포드 분포(%) | 차이(%) |
 |----------|----------|-------------|---------------|---------|
-${results.map(r => `| ${r.digit} | ${r.actualCount.toLocaleString()} | ${r.actualPercent.toFixed(1)} | ${r.benfordPercent.toFixed(1)} | ${r.difference > 0 ? '+' : ''}${r.difference.toFixed(1)} |`).join('\n')}
+${firstDigitTest.digits.map(r => `| ${r.label} | ${r.count.toLocaleString()} | ${formatPercent(r.actual)} | ${formatPercent(r.expected)} | ${r.difference > 0 ? '+' : ''}${formatPercent(r.difference)} |`).join('\n')}
+
+## Nigrini 검정 요약 (MAD 적합도)
+${BENFORD_TEST_TYPES.map(test => `- ${BENFORD_TEST_LABELS[test]}: MAD ${tests[test].mad.toFixed(4)} (${formatBenfordConformity(tests[test].conformity)}), 카이제곱 ${tests[test].chiSquare.toFixed(1)} / 임계값 ${tests[test].chiSquareCritical}, Z 유의 숫자 ${tests[test].digits.filter(d => d.significant).map(d => d.label).join(', ') || '없음'}`).join('\n')}
 
 ## 요구사항
 당신은 숙련된 회계 감사인입니다. 위 벤포드 법칙 분석 결과를 검토하고 다음을 제공해주세요:
@@ -233,6 +299,7 @@ ${results.map(r => `| ${r.digit} | ${r.actualCount.toLocaleString()} | ${r.actua
 
       const analysis = await analyzeWithFlash(prompt);
       setAiInsight(analysis);
+      saveResultToActiveEngagement('benford', accountName, { ...savedRun, aiInsight: analysis });
       
       // 비용 계산 및 누적
       const promptCharCount = prompt.length;
@@ -256,7 +323,7 @@ ${results.map(r => `| ${r.digit} | ${r.actualCount.toLocaleString()} | ${r.actua
   };
 
   const handleDownload = async () => {
-    if (!benfordResults) return;
+    if (!benfordTests || !currentResult) return;
 
     try {
       // ExcelJS를 사용하여 워크북 생성
@@ -268,29 +335,35 @@ ${results.map(r => `| ${r.digit} | ${r.actualCount.toLocaleString()} | ${r.actua
       worksheet.getCell('B1').value = accountName;
       worksheet.getCell('A2').value = '금액 기준열:';
       worksheet.getCell('B2').value = selectedColumn;
-
-      // 데이터 테이블
-      worksheet.getCell('A4').value = '벤포드 법칙 분석 결과';
-      worksheet.getRow(5).values = ['첫째 자리 수', '실제 건수', '실제 분포 (%)', '벤포드 분포 (%)', '차이 (%)'];
+      worksheet.getCell('C1').value = '검정:';
+      worksheet.getCell('D1').value = BENFORD_TEST_LABELS[currentResult.test];
+      worksheet.getCell('C2').value = 'MAD (적합도):';
+      worksheet.getCell('D2').value = `${currentResult.mad.toFixed(4)} (${formatBenfordConformity(currentResult.conformity)})`;
+
+      // 데이터 테이블 (화면에서 선택한 검정, 차트와 같음)
+      worksheet.getCell('A4').value = `벤포드 법칙 분석 결과 - ${BENFORD_TEST_LABELS[currentResult.test]}`;
+      worksheet.getRow(5).values = ['숫자', '실제 건수', currentResult.test === 'summation' ? '금액 비율 (%)' : '실제 분포 (%)', '벤포드 분포 (%)', '차이 (%)', 'Z 통계량'];
       worksheet.getRow(5).font = { bold: true };
 
-      benfordResults.forEach((res, idx) => {
+      currentResult.digits.forEach((res, idx) => {
         const row = worksheet.getRow(6 + idx);
         row.values = [
-        res.digit,
-        res.actualCount,
-        res.actualPercent,
-        res.benfordPercent,
-        res.difference
+        res.label,
+        res.count,
+        Number(formatPercent(res.actual, 2)),
+        Number(formatPercent(res.expected, 2)),
+        Number(formatPercent(res.difference, 2)),
+        Number(res.zStatistic.toFixed(2)),
         ];
-        // 차이가 5% 이상인 경우 빨간색으로 표시
-        if (Math.abs(res.difference) > 5) {
+        // Z 통계량이 유의한 숫자는 빨간색으로 표시
+        if (res.significant) {
           row.getCell(5).font = { color: { argb: 'FFFF0000' }, bold: true };
+          row.getCell(6).font = { color: { argb: 'FFFF0000' }, bold: true };
         }
       });
 
       // 차트를 이미지로 변환하여 엑셀에 삽입
-      const dataEndRow = 6 + benfordResults.length;
+      const dataEndRow = 6 + currentResult.digits.length;
       let lastContentRow = dataEndRow + 2; // 이미지 없을 때 AI 시작 기준
 
       if (chartWrapperRef.current) {
@@ -347,8 +420,71 @@ ${results.map(r => `| ${r.digit} | ${r.actualCount.toLocaleString()} | ${r.actua
         { width: 15 },
         { width: 15 },
         { width: 15 },
+        { width: 15 },
       ];
 
+      // 검정 요약 (5개 검정의 MAD·카이제곱)
+      const summarySheet = workbook.addWorksheet('검정요약');
+      summarySheet.addRow(['검정', '건수', 'MAD', '적합도', '카이제곱', '임계값 (5%)', 'Z 유의 숫자']);
+      summarySheet.getRow(1).font = { bold: true };
+      BENFORD_TEST_TYPES.forEach(test => {
+        const result = benfordTests[test];
+        summarySheet.addRow([
+          BENFORD_TEST_LABELS[test],
+          result.total,
+          Number(result.mad.toFixed(5)),
+          formatBenfordConformity(result.conformity),
+          Number(result.chiSquare.toFixed(2)),
+          result.chiSquareCritical,
+          result.digits.filter(d => d.significant).map(d => d.label).join(', '),
+        ]);
+      });
+      summarySheet.addRow([]);
+      summarySheet.addRow(['※ 첫째 자리는 1 이상, 나머지 검정은 10 이상 금액만 사용합니다. Z 통계량 1.96 초과(유의수준 5%)를 유의한 숫자로 표시합니다.']);
+      summarySheet.addRow(['※ 합계 검정은 처음 두 자리별 금액 합계 비율이 같은지(1/90) 보며, 기대 비율의 2배 이상인 숫자를 표시합니다.']);
+      summarySheet.columns = [{ width: 16 }, { width: 10 }, { width: 10 }, { width: 28 }, { width: 12 }, { width: 12 }, { width: 40 }];
+
+      // 나머지 검정별 숫자 분포
+      BENFORD_TEST_TYPES.filter(test => test !== currentResult.test).forEach(test => {
+        const sheet = workbook.addWorksheet(BENFORD_TEST_LABELS[test]);
+        sheet.addRow(['숫자', '실제 건수', '금액 합계', '실제 분포 (%)', '벤포드 분포 (%)', '차이 (%)', 'Z 통계량', '유의']);
+        sheet.getRow(1).font = { bold: true };
+        benfordTests[test].digits.forEach(d => {
+          sheet.addRow([
+            d.label,
+            d.count,
+            d.amount,
+            Number(formatPercent(d.actual, 2)),
+            Number(formatPercent(d.expected, 2)),
+            Number(formatPercent(d.difference, 2)),
+            Number(d.zStatistic.toFixed(2)),
+            d.significant ? '예' : '',
+          ]);
+        });
+        sheet.columns = [{ width: 8 }, { width: 12 }, { width: 18 }, { width: 14 }, { width: 14 }, { width: 12 }, { width: 12 }, { width: 8 }];
+      });
+
+      // 계정·거래처별 편차 순위
+      if (deviationRanking.length > 0) {
+        const rankingSheet = workbook.addWorksheet('편차순위');
+        rankingSheet.addRow([`${RANKING_DIMENSION_LABELS[rankingDimension]}별 ${BENFORD_TEST_LABELS[testType]} 편차 순위 (MAD 내림차순, 50건 미만 제외)`]);
+        rankingSheet.addRow(['순위', RANKING_DIMENSION_LABELS[rankingDimension], '건수', 'MAD', '적합도', '카이제곱', '최대 급증 숫자', 'Z 통계량']);
+        rankingSheet.getRow(2).font = { bold: true };
+        deviationRanking.forEach((rank, idx) => {
+          rankingSheet.addRow([
+            idx + 1,
+            rank.group,
+            rank.result.total,
+            Number(rank.result.mad.toFixed(5)),
+            formatBenfordConformity(rank.result.conformity),
+            Number(rank.result.chiSquare.toFixed(2)),
+            rank.spike?.label ?? '',
+            rank.spike ? Number(rank.spike.zStatistic.toFixed(2)) : '',
+          ]);
+        });
+        rankingSheet.columns = [{ width: 8 }, { width: 28 }, { width: 10 }, { width: 10 }, { width: 28 }, { width: 12 }, { width: 14 }, { width: 10 }];
+      }
+
       // 파일 다운로드
       const buffer = await workbook.xlsx.writeBuffer();
       const blob = new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
@@ -375,9 +511,27 @@ ${results.map(r => `| ${r.digit} | ${r.actualCount.toLocaleString()} | ${r.actua
     }
   };
 
+  // 선택한 검정에서 해당 숫자에 속한 거래
   const handleShowDetail = (digit: number) => {
-    setSelectedDigit(digit);
-    setIsDetailModalOpen(true);
+    if (!currentResult) return;
+    const label = currentResult.digits.find(d => d.digit === digit)?.label ?? String(digit);
+    setDetailView({
+      title: `${BENFORD_TEST_LABELS[testType]} ${label} 상세 내역`,
+      rows: sourceData.filter(row => getBenfordDigit(cleanAmount(row[selectedColumn]), testType) === digit),
+    });
+  };
+
+  // 순위의 그룹에서 가장 크게 급증한 숫자에 속한 거래 (급증 숫자가 없으면 그룹 전체)
+  const handleShowRankingDetail = (group: string, spikeDigit: number | null) => {
+    const entries = postingEntries.filter(entry => {
+      const key = rankingDimension === 'account' ? entry.accountName : entry.vendor?.trim() ?? '';
+      if (key !== group) return false;
+      return spikeDigit === null || getBenfordDigit(getEntryAmount(entry), testType) === spikeDigit;
+    });
+    const spikeLabel = spikeDigit === null
+      ? ''
+      : ` · ${BENFORD_TEST_LABELS[testType]} ${formatBenfordDigit(spikeDigit, testType)}`;
+    setDetailView({ title: `${group}${spikeLabel} 상세 내역`, rows: toLedgerRows(entries) });
   };
 
   return (
@@ -388,7 +542,7 @@ ${results.map(r => `| ${r.digit} | ${r.actualCount.toLocaleString()} | ${r.actua
             <div>
               <CardTitle>벤포드 법칙 분석 설정</CardTitle>
               <CardDescription>
-                금액 데이터의 첫 자리 수 분포를 분석하여 이상 징후를 탐지합니다.
+                금액 데이터의 첫째·둘째·처음 두 자리·마지막 두 자리 분포와 합계 검정(Nigrini)으로 이상 징후를 탐지합니다.
               </CardDescription>
             </div>
             {totalCost > 0 && (
@@ -400,18 +554,33 @@ ${results.map(r => `| ${r.digit} | ${r.actualCount.toLocaleString()} | ${r.actua
           </div>
         </CardHeader>
         <CardContent className="space-y-4">
-          <div className="space-y-2">
-            <label className="text-sm font-medium">금액 기준열</label>
-            <Select value={selectedColumn} onValueChange={setSelectedColumn}>
-              <SelectTrigger>
-                <SelectValue placeholder="열 선택" />
-              </SelectTrigger>
-              <SelectContent>
-                {amountColumns.map(col => (
-                  <SelectItem key={col} value={col}>{col}</SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">금액 기준열</label>
+              <Select value={selectedColumn} onValueChange={setSelectedColumn}>
+                <SelectTrigger>
+                  <SelectValue placeholder="열 선택" />
+                </SelectTrigger>
+                <SelectContent>
+                  {amountColumns.map(col => (
+                    <SelectItem key={col} value={col}>{col}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium">검정</label>
+              <Select value={testType} onValueChange={(v: BenfordTestType) => setTestType(v)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {BENFORD_TEST_TYPES.map(test => (
+                    <SelectItem key={test} value={test}>{BENFORD_TEST_LABELS[test]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </div>
 
           <div className="flex gap-2">
@@ -452,14 +621,18 @@ ${results.map(r => `| ${r.digit} | ${r.actualCount.toLocaleString()} | ${r.actua
         </CardContent>
       </Card>
 
-      {benfordResults && (
+      {currentResult && (
         <Card>
           <CardHeader>
             <div className="flex items-center justify-between">
               <div>
-                <CardTitle>분석 결과</CardTitle>
+                <CardTitle>분석 결과 - {BENFORD_TEST_LABELS[currentResult.test]}</CardTitle>
                 <CardDescription>
-                  실제 분포와 벤포드 이론 분포의 비교
+                  {currentResult.test === 'summation'
+                    ? '처음 두 자리별 금액 합계 비율과 균등 분포(1/90)의 비교'
+                    : currentResult.test === 'lastTwo'
+                      ? '마지막 두 자리 분포와 균등 분포(1/100)의 비교'
+                      : '실제 분포와 벤포드 이론 분포의 비교'}
                 </CardDescription>
               </div>
               <Button variant="outline" size="sm" onClick={handleDownload}>
@@ -469,6 +642,35 @@ ${results.map(r => `| ${r.digit} | ${r.actualCount.toLocaleString()} | ${r.actua
             </div>
           </CardHeader>
           <CardContent className="space-y-6">
+            {/* 적합도 요약 */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+              <div className="space-y-1">
+                <p className="text-muted-foreground">검정 건수</p>
+                <p className="font-semibold">{currentResult.total.toLocaleString()}건</p>
+              </div>
+              <div className="space-y-1">
+                <p className="text-muted-foreground">MAD</p>
+                <p className="font-semibold">{currentResult.mad.toFixed(4)}</p>
+              </div>
+              <div className="space-y-1">
+                <p className="text-muted-foreground">카이제곱 (임계값 5%)</p>
+                <p className={`font-semibold ${currentResult.chiSquareSignificant ? 'text-destructive' : ''}`}>
+                  {currentResult.chiSquare.toFixed(1)} ({currentResult.chiSquareCritical})
+                </p>
+              </div>
+              <div className="space-y-1">
+                <p className="text-muted-foreground">유의한 숫자</p>
+                <p className="font-semibold">{currentResult.digits.filter(d => d.significant).length}개</p>
+              </div>
+            </div>
+            <div
+              className={`p-3 rounded-md border text-sm font-semibold ${
+                currentResult.conformity ? CONFORMITY_CLASS_NAMES[currentResult.conformity] : 'bg-muted text-muted-foreground'
+              }`}
+            >
+              적합도: {formatBenfordConformity(currentResult.conformity)}
+            </div>
+
             {/* Chart Visualization */}
             <div ref={chartWrapperRef} className="space-y-4">
               <div className="flex items-center gap-4 text-sm">
@@ -478,15 +680,19 @@ ${results.map(r => `| ${r.digit} | ${r.actualCount.toLocaleString()} | ${r.actua
                 </div>
                 <div className="flex items-center gap-2">
                   <div className="w-3 h-3 bg-orange-500 rounded-full"></div>
-                  <span>벤포드 분포</span>
+                  <span>{currentResult.test === 'lastTwo' || currentResult.test === 'summation' ? '기대 분포' : '벤포드 분포'}</span>
                 </div>
               </div>
               
               <div className="relative" style={{ height: '320px' }}>
                 {/* Bar chart container */}
-                <div ref={chartContainerRef} className="grid grid-cols-9 gap-2 h-full relative">
-                  {benfordResults.map((res, idx) => {
-                    // 컬러 팔레트 (1~9에 대해 다양한 컬러)
+                <div
+                  ref={chartContainerRef}
+                  className={`grid ${currentResult.digits.length > 10 ? 'gap-px' : 'gap-2'} h-full relative`}
+                  style={{ gridTemplateColumns: `repeat(${currentResult.digits.length}, minmax(0, 1fr))` }}
+                >
+                  {currentResult.digits.map(res => {
+                    // 컬러 팔레트 (첫째 자리 1~9에 대해 다양한 컬러, 나머지 검정은 파란색)
                     const colors = [
                       '#3b82f6', // 1 - blue
                       '#10b981', // 2 - green
@@ -498,7 +704,10 @@ ${results.map(r => `| ${r.digit} | ${r.actualCount.toLocaleString()} | ${r.actua
                       '#14b8a6', // 8 - teal
                       '#f97316', // 9 - orange
                     ];
-                    const barColor = colors[res.digit - 1];
+                    const barColor = currentResult.test === 'firstDigit'
+                      ? colors[res.digit - 1]
+                      : res.significant ? '#ef4444' : '#3b82f6';
+                    const showLabel = currentResult.digits.length <= 10 || res.digit % 10 === 0;
                     
                     return (
                       <div key={res.digit} className="flex flex-col items-center justify-end gap-1 relative">
@@ -507,31 +716,33 @@ ${results.map(r => `| ${r.digit} | ${r.actualCount.toLocaleString()} | ${r.actua
                           <div 
                             className="rounded-t w-full transition-all hover:opacity-80 cursor-pointer shadow-sm"
                             style={{ 
-                              height: `${(res.actualPercent / 35) * 100}%`,
+                              height: `${Math.min(100, ((res.actual * 100) / chartMax) * 100)}%`,
                               backgroundColor: barColor
                             }}
-                            title={`실제: ${res.actualPercent}%`}
+                            title={`${res.label} 실제: ${formatPercent(res.actual, 2)}% / 기대: ${formatPercent(res.expected, 2)}% / Z ${res.zStatistic.toFixed(2)}`}
                             onClick={() => handleShowDetail(res.digit)}
                           />
                           
                           {/* Benford point indicator (absolute positioned above the bar) */}
-                          <div
-                            className="absolute w-full flex justify-center"
-                            style={{
-                              bottom: `${(res.benfordPercent / 35) * 100}%`,
-                            }}
-                          >
+                          {currentResult.digits.length <= 10 && (
                             <div
-                              className="w-3 h-3 rounded-full border-2 border-white shadow-md z-10 relative"
+                              className="absolute w-full flex justify-center"
                               style={{
-                                backgroundColor: '#f97316',
-                                transform: 'translateY(50%)',
+                                bottom: `${((res.expected * 100) / chartMax) * 100}%`,
                               }}
-                              title={`벤포드: ${res.benfordPercent}%`}
-                            />
-                          </div>
+                            >
+                              <div
+                                className="w-3 h-3 rounded-full border-2 border-white shadow-md z-10 relative"
+                                style={{
+                                  backgroundColor: '#f97316',
+                                  transform: 'translateY(50%)',
+                                }}
+                                title={`벤포드: ${formatPercent(res.expected)}%`}
+                              />
+                            </div>
+                          )}
                         </div>
-                        <span className="text-xs font-medium">{res.digit}</span>
+                        <span className="text-xs font-medium h-4">{showLabel ? res.label : ''}</span>
                       </div>
                     );
                   })}
@@ -558,39 +769,50 @@ ${results.map(r => `| ${r.digit} | ${r.actualCount.toLocaleString()} | ${r.actua
             </div>
 
             {/* Data Table */}
-            <div className="rounded-md border">
+            <div className="rounded-md border max-h-96 overflow-y-auto">
               <Table>
                 <TableHeader>
                   <TableRow>
-                    <TableHead>첫째 자리</TableHead>
+                    <TableHead>{BENFORD_TEST_LABELS[currentResult.test]}</TableHead>
                     <TableHead className="text-right">실제 건수</TableHead>
-                    <TableHead className="text-right">실제 분포 (%)</TableHead>
-                    <TableHead className="text-right">벤포드 분포 (%)</TableHead>
+                    {currentResult.test === 'summation' && <TableHead className="text-right">금액 합계</TableHead>}
+                    <TableHead className="text-right">{currentResult.test === 'summation' ? '금액 비율 (%)' : '실제 분포 (%)'}</TableHead>
+                    <TableHead className="text-right">기대 분포 (%)</TableHead>
                     <TableHead className="text-right">차이 (%)</TableHead>
+                    <TableHead className="text-right">Z 통계량</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {benfordResults.map(res => (
+                  {currentResult.digits.map(res => (
                     <TableRow 
                       key={res.digit}
                       className="cursor-pointer hover:bg-muted/50"
                       onClick={() => handleShowDetail(res.digit)}
                     >
-                      <TableCell className="font-medium">{res.digit}</TableCell>
-                      <TableCell className="text-right">{res.actualCount.toLocaleString()}</TableCell>
-                      <TableCell className="text-right">{res.actualPercent.toFixed(1)}</TableCell>
-                      <TableCell className="text-right">{res.benfordPercent.toFixed(1)}</TableCell>
+                      <TableCell className="font-medium">{res.label}</TableCell>
+                      <TableCell className="text-right">{res.count.toLocaleString()}</TableCell>
+                      {currentResult.test === 'summation' && (
+                        <TableCell className="text-right">{res.amount.toLocaleString()}</TableCell>
+                      )}
+                      <TableCell className="text-right">{formatPercent(res.actual, 2)}</TableCell>
+                      <TableCell className="text-right">{formatPercent(res.expected, 2)}</TableCell>
+                      <TableCell className="text-right">
+                        {res.difference > 0 ? '+' : ''}{formatPercent(res.difference, 2)}
+                      </TableCell>
                       <TableCell 
                         className="text-right font-medium"
-                        style={{ color: Math.abs(res.difference) > 5 ? 'var(--destructive)' : 'inherit' }}
+                        style={{ color: res.significant ? 'var(--destructive)' : 'inherit' }}
                       >
-                        {res.difference > 0 ? '+' : ''}{res.difference.toFixed(1)}
+                        {res.zStatistic.toFixed(2)}
                       </TableCell>
                     </TableRow>
                   ))}
                 </TableBody>
               </Table>
             </div>
+            <p className="text-xs text-muted-foreground">
+              빨간색 Z 통계량은 유의수준 5%(Z &gt; 1.96)에서 유의한 숫자입니다{currentResult.test === 'summation' ? ' (합계 검정은 기대 비율의 2배 이상)' : ''}. 행이나 막대를 누르면 해당 거래를 볼 수 있습니다.
+            </p>
 
             {/* AI Insight */}
             {aiInsight && (
@@ -607,43 +829,97 @@ ${results.map(r => `| ${r.digit} | ${r.actualCount.toLocaleString()} | ${r.actua
         </Card>
       )}
 
+      {/* 계정·거래처별 편차 순위 */}
+      {postingEntries.length > 0 && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <CardTitle>{RANKING_DIMENSION_LABELS[rankingDimension]}별 편차 순위 - {BENFORD_TEST_LABELS[testType]}</CardTitle>
+                <CardDescription>
+                  원장 전체를 {RANKING_DIMENSION_LABELS[rankingDimension]}별로 나눠 MAD가 큰 순서로 보여줍니다. (검정 건수 50건 미만 제외)
+                  행을 누르면 가장 크게 급증한 숫자의 거래를 볼 수 있습니다.
+                </CardDescription>
+              </div>
+              <Select value={rankingDimension} onValueChange={(v: RankingDimension) => setRankingDimension(v)}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="account">계정과목</SelectItem>
+                  <SelectItem value="vendor">거래처</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {deviationRanking.length === 0 ? (
+              <p className="text-sm text-muted-foreground">검정 건수가 50건 이상인 {RANKING_DIMENSION_LABELS[rankingDimension]}이 없습니다.</p>
+            ) : (
+              <div className="rounded-md border max-h-96 overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-14">순위</TableHead>
+                      <TableHead>{RANKING_DIMENSION_LABELS[rankingDimension]}</TableHead>
+                      <TableHead className="text-right">건수</TableHead>
+                      <TableHead className="text-right">MAD</TableHead>
+                      <TableHead>적합도</TableHead>
+                      <TableHead className="text-right">카이제곱</TableHead>
+                      <TableHead className="text-right">최대 급증 숫자 (Z)</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {deviationRanking.slice(0, MAX_RANKING_ROWS).map((rank, idx) => (
+                      <TableRow
+                        key={rank.group}
+                        className="cursor-pointer hover:bg-muted/50"
+                        onClick={() => handleShowRankingDetail(rank.group, rank.spike?.digit ?? null)}
+                      >
+                        <TableCell>{idx + 1}</TableCell>
+                        <TableCell className="font-medium">{rank.group}</TableCell>
+                        <TableCell className="text-right">{rank.result.total.toLocaleString()}</TableCell>
+                        <TableCell className="text-right">{rank.result.mad.toFixed(4)}</TableCell>
+                        <TableCell className="text-sm">{formatBenfordConformity(rank.result.conformity)}</TableCell>
+                        <TableCell
+                          className="text-right"
+                          style={{ color: rank.result.chiSquareSignificant ? 'var(--destructive)' : 'inherit' }}
+                        >
+                          {rank.result.chiSquare.toFixed(1)}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {rank.spike ? `${rank.spike.label} (${rank.spike.zStatistic.toFixed(2)})` : '-'}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+            {deviationRanking.length > MAX_RANKING_ROWS && (
+              <p className="text-xs text-muted-foreground mt-2">
+                상위 {MAX_RANKING_ROWS}개만 표시합니다. 전체 순위는 분석 결과의 엑셀 다운로드에 포함됩니다.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Detail Modal */}
-      <Dialog open={isDetailModalOpen} onOpenChange={setIsDetailModalOpen}>
-        <DialogContent className="max-w-4xl max-h-[80vh] overflow-y-auto">
+      <Dialog open={detailView !== null} onOpenChange={(open) => !open && setDetailView(null)}>
+        <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>
-              첫째 자리 {selectedDigit}번 상세 내역 ({detailTransactions.length}건)
+              {detailView?.title} ({detailView?.rows.length ?? 0}건)
             </DialogTitle>
           </DialogHeader>
-          <div className="rounded-md border">
-            <Table>
-              <TableHeader>
-                <TableRow>
-                  {detailTransactions.length > 0 && 
-                    Object.keys(detailTransactions[0]).map(key => (
-                      <TableHead key={key}>{key}</TableHead>
-                    ))
-                  }
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {detailTransactions.slice(0, 100).map((row, idx) => (
-                  <TableRow key={idx}>
-                    {Object.values(row).map((val, j) => (
-                      <TableCell key={j}>
-                        {val instanceof Date ? val.toLocaleDateString() : String(val ?? '')}
-                      </TableCell>
-                    ))}
-                  </TableRow>
-                ))}
-              </TableBody>
-            </Table>
-            {detailTransactions.length > 100 && (
-              <div className="p-4 text-center text-sm text-muted-foreground">
-                상위 100건만 표시됩니다.
-              </div>
-            )}
-          </div>
+          <DataGrid
+            rows={detailView?.rows ?? []}
+            columns={detailColumns}
+            getRowKey={getIndexRowKey}
+            height={520}
+            selectable
+          />
         </DialogContent>
       </Dialog>
     </div>
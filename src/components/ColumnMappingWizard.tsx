@@ -0,0 +1,336 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { Columns3, Save, Trash2, CheckCircle2 } from 'lucide-react';
+import type { LedgerColumnField, LedgerColumnMapping, NormalizedLedger } from '@/lib/ledgerModel';
+import {
+  groupSheetsBySignature,
+  expandMappingsToSheets,
+  getMappingProfiles,
+  saveMappingProfile,
+  deleteMappingProfile,
+  type MappingProfile,
+} from '@/lib/mappingProfiles';
+
+interface ColumnMappingWizardProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  ledger: NormalizedLedger;
+  /** 확정된 시트별 매핑으로 원장을 다시 정규화하도록 호출 */
+  onApply: (mappings: Record<string, LedgerColumnMapping>) => void;
+}
+
+const FIELD_LABELS: { field: LedgerColumnField; label: string; required?: boolean }[] = [
+  { field: 'date', label: '일자', required: true },
+  { field: 'accountName', label: '계정과목' },
+  { field: 'accountCode', label: '계정코드' },
+  { field: 'vendor', label: '거래처' },
+  { field: 'description', label: '적요' },
+  { field: 'debit', label: '차변', required: true },
+  { field: 'credit', label: '대변', required: true },
+  { field: 'balance', label: '잔액' },
+  { field: 'entryNumber', label: '전표번호' },
+];
+
+// Radix Select는 빈 문자열 값을 허용하지 않으므로 "매핑 안 함"을 별도 값으로 표시
+const NONE_VALUE = '__none__';
+const SAMPLE_ROW_COUNT = 3;
+
+const formatSampleValue = (val: string | number | Date | undefined): string => {
+  if (val === null || val === undefined) return '';
+  if (val instanceof Date) {
+    return `${val.getFullYear()}-${String(val.getMonth() + 1).padStart(2, '0')}-${String(val.getDate()).padStart(2, '0')}`;
+  }
+  return String(val);
+};
+
+export const ColumnMappingWizard: React.FC<ColumnMappingWizardProps> = ({
+  open,
+  onOpenChange,
+  ledger,
+  onApply,
+}) => {
+  const { toast } = useToast();
+  const groups = useMemo(() => groupSheetsBySignature(ledger), [ledger]);
+  const [activeSignature, setActiveSignature] = useState<string>('');
+  const [draftMappings, setDraftMappings] = useState<Record<string, LedgerColumnMapping>>({});
+  const [profileNames, setProfileNames] = useState<Record<string, string>>({});
+  const [profiles, setProfiles] = useState<MappingProfile[]>(getMappingProfiles());
+
+  // 열릴 때마다 현재 원장에 적용된 매핑으로 초기화
+  useEffect(() => {
+    if (!open) return;
+    const saved = getMappingProfiles();
+    const mappings: Record<string, LedgerColumnMapping> = {};
+    const names: Record<string, string> = {};
+    groups.forEach(group => {
+      mappings[group.signature] = { ...group.mapping };
+      names[group.signature] = saved.find(p => p.signature === group.signature)?.name ?? '';
+    });
+    setDraftMappings(mappings);
+    setProfileNames(names);
+    setProfiles(saved);
+    setActiveSignature(groups[0]?.signature ?? '');
+  }, [open, groups]);
+
+  const activeGroup = groups.find(g => g.signature === activeSignature);
+  const activeMapping = useMemo(() => draftMappings[activeSignature] || {}, [draftMappings, activeSignature]);
+  const activeProfile = profiles.find(p => p.signature === activeSignature);
+
+  // 선택된 묶음의 첫 시트에서 샘플 행 추출
+  const sampleRows = useMemo(() => {
+    if (!activeGroup) return [];
+    const sheetName = activeGroup.sheetNames[0];
+    return ledger.entries
+      .filter(entry => entry.sheetName === sheetName && !entry.summaryType)
+      .slice(0, SAMPLE_ROW_COUNT)
+      .map(entry => entry.raw || {});
+  }, [ledger, activeGroup]);
+
+  const visibleHeaders = useMemo(
+    () => (activeGroup?.headers || []).filter(h => h && !h.startsWith('__EMPTY')),
+    [activeGroup]
+  );
+
+  const fieldByHeader = useMemo(() => {
+    const map = new Map<string, string[]>();
+    FIELD_LABELS.forEach(({ field, label }) => {
+      const header = activeMapping[field];
+      if (!header) return;
+      map.set(header, [...(map.get(header) || []), label]);
+    });
+    return map;
+  }, [activeMapping]);
+
+  const updateField = (field: LedgerColumnField, header: string) => {
+    setDraftMappings(prev => ({
+      ...prev,
+      [activeSignature]: {
+        ...prev[activeSignature],
+        [field]: header === NONE_VALUE ? null : header,
+      },
+    }));
+  };
+
+  const validate = (): boolean => {
+    for (const group of groups) {
+      const mapping = draftMappings[group.signature] || {};
+      if (!mapping.date || (!mapping.debit && !mapping.credit)) {
+        setActiveSignature(group.signature);
+        toast({
+          title: '오류',
+          description: `"${group.sheetNames[0]}" 시트의 일자와 차변 또는 대변 컬럼을 지정해주세요.`,
+          variant: 'destructive',
+        });
+        return false;
+      }
+    }
+    return true;
+  };
+
+  const handleApply = (saveProfile: boolean) => {
+    if (!validate()) return;
+
+    if (saveProfile) {
+      const missingName = groups.find(g => !(profileNames[g.signature] || '').trim());
+      if (missingName) {
+        setActiveSignature(missingName.signature);
+        toast({
+          title: '오류',
+          description: '저장할 프로필 이름을 입력해주세요.',
+          variant: 'destructive',
+        });
+        return;
+      }
+      groups.forEach(group => {
+        saveMappingProfile(profileNames[group.signature].trim(), group.headers, draftMappings[group.signature]);
+      });
+      setProfiles(getMappingProfiles());
+    }
+
+    onApply(expandMappingsToSheets(groups, draftMappings));
+    onOpenChange(false);
+    toast({
+      title: '컬럼 매핑 적용',
+      description: saveProfile
+        ? '매핑을 적용하고 프로필로 저장했습니다. 같은 형식의 파일은 자동으로 이 매핑을 사용합니다.'
+        : '매핑을 적용했습니다.',
+    });
+  };
+
+  const handleDeleteProfile = (id: string) => {
+    deleteMappingProfile(id);
+    setProfiles(getMappingProfiles());
+    toast({
+      title: '삭제 완료',
+      description: '매핑 프로필을 삭제했습니다.',
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Columns3 className="h-5 w-5" />
+            컬럼 매핑 확인
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            자동으로 인식한 헤더와 샘플 값을 확인하고, 잘못 인식된 항목은 직접 지정하세요.
+            프로필로 저장하면 같은 헤더 구성의 파일을 업로드할 때 자동으로 적용됩니다.
+          </p>
+
+          {groups.length > 1 && (
+            <div className="flex flex-wrap gap-2">
+              {groups.map(group => (
+                <Button
+                  key={group.signature}
+                  size="sm"
+                  variant={group.signature === activeSignature ? 'default' : 'outline'}
+                  onClick={() => setActiveSignature(group.signature)}
+                >
+                  {group.sheetNames[0]}
+                  {group.sheetNames.length > 1 && ` 외 ${group.sheetNames.length - 1}개 시트`}
+                </Button>
+              ))}
+            </div>
+          )}
+
+          {activeGroup && (
+            <>
+              <div className="text-xs text-muted-foreground">
+                적용 시트: {activeGroup.sheetNames.length}개
+                {activeProfile && (
+                  <Badge variant="secondary" className="ml-2 text-xs">
+                    저장된 프로필: {activeProfile.name}
+                  </Badge>
+                )}
+              </div>
+
+              {/* 헤더 행 + 샘플 값 */}
+              <div className="border rounded-lg overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      {visibleHeaders.map(header => (
+                        <TableHead key={header} className="whitespace-nowrap">
+                          <div className="space-y-1 py-1">
+                            <div>{header}</div>
+                            <div className="flex flex-wrap gap-1">
+                              {(fieldByHeader.get(header) || []).map(label => (
+                                <Badge key={label} className="text-[10px] px-1 py-0">{label}</Badge>
+                              ))}
+                            </div>
+                          </div>
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {sampleRows.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={Math.max(visibleHeaders.length, 1)} className="text-center text-muted-foreground">
+                          샘플 데이터가 없습니다.
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      sampleRows.map((row, idx) => (
+                        <TableRow key={idx}>
+                          {visibleHeaders.map(header => (
+                            <TableCell key={header} className="whitespace-nowrap text-xs">
+                              {formatSampleValue(row[header])}
+                            </TableCell>
+                          ))}
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+
+              {/* 필드별 컬럼 지정 */}
+              <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+                {FIELD_LABELS.map(({ field, label, required }) => (
+                  <div key={field} className="space-y-1">
+                    <Label className="text-xs">
+                      {label}
+                      {required && <span className="text-destructive ml-0.5">*</span>}
+                    </Label>
+                    <Select
+                      value={activeMapping[field] || NONE_VALUE}
+                      onValueChange={(value) => updateField(field, value)}
+                    >
+                      <SelectTrigger className="h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NONE_VALUE}>(지정 안 함)</SelectItem>
+                        {visibleHeaders.map(header => (
+                          <SelectItem key={header} value={header}>{header}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-1">
+                <Label htmlFor="mappingProfileName" className="text-xs">프로필 이름</Label>
+                <Input
+                  id="mappingProfileName"
+                  placeholder="예: 더존 Smart A 계정별원장"
+                  value={profileNames[activeSignature] || ''}
+                  onChange={(e) => setProfileNames(prev => ({ ...prev, [activeSignature]: e.target.value }))}
+                />
+              </div>
+            </>
+          )}
+
+          {profiles.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm font-semibold">저장된 프로필</p>
+              <div className="space-y-1">
+                {profiles.map(profile => (
+                  <div key={profile.id} className="flex items-center justify-between rounded border px-3 py-1.5 text-sm">
+                    <div className="flex items-center gap-2">
+                      {profile.signature === activeSignature && <CheckCircle2 className="h-4 w-4 text-green-600" />}
+                      <span>{profile.name}</span>
+                      <span className="text-xs text-muted-foreground">
+                        ({profile.headers.filter(h => h && !h.startsWith('__EMPTY')).length}개 컬럼 · {new Date(profile.updatedAt).toLocaleDateString('ko-KR')})
+                      </span>
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={() => handleDeleteProfile(profile.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex gap-2 justify-end">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              취소
+            </Button>
+            <Button variant="outline" onClick={() => handleApply(false)}>
+              적용
+            </Button>
+            <Button onClick={() => handleApply(true)} className="flex items-center gap-2">
+              <Save className="h-4 w-4" />
+              프로필 저장 후 적용
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
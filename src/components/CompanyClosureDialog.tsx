@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { CalendarX, Plus, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  addCompanyClosureDay,
+  removeCompanyClosureDay,
+  type CompanyClosureDay,
+} from '@/lib/holidayCalendar';
+
+interface CompanyClosureDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  closureDays: CompanyClosureDay[];
+  onChange: (closureDays: CompanyClosureDay[]) => void;
+}
+
+export const CompanyClosureDialog: React.FC<CompanyClosureDialogProps> = ({
+  open,
+  onOpenChange,
+  closureDays,
+  onChange,
+}) => {
+  const { toast } = useToast();
+  const [date, setDate] = useState<string>('');
+  const [name, setName] = useState<string>('');
+
+  const handleAdd = () => {
+    try {
+      onChange(addCompanyClosureDay(date, name));
+      setDate('');
+      setName('');
+    } catch (error) {
+      toast({
+        title: '오류',
+        description: error instanceof Error ? error.message : String(error),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarX className="h-5 w-5" />
+            회사 휴무일 관리
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            법정 공휴일·대체공휴일·선거일은 자동으로 반영됩니다. 창립기념일, 하계휴가처럼 회사가 따로 쉬는 날을 등록하면
+            공휴일 전표 분석에서 공휴일로 집계합니다.
+          </p>
+
+          <div className="flex gap-2">
+            <Input
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              className="w-[170px]"
+            />
+            <Input
+              placeholder="휴무 사유 (예: 창립기념일)"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+            <Button onClick={handleAdd} disabled={!date} size="sm" className="flex items-center gap-1">
+              <Plus className="w-4 h-4" />
+              추가
+            </Button>
+          </div>
+
+          <div className="border rounded-lg max-h-[300px] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>일자</TableHead>
+                  <TableHead>사유</TableHead>
+                  <TableHead className="w-[60px]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {closureDays.length > 0 ? (
+                  closureDays.map(day => (
+                    <TableRow key={day.date}>
+                      <TableCell>{day.date}</TableCell>
+                      <TableCell>{day.name}</TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => onChange(removeCompanyClosureDay(day.date))}
+                          className="h-8 w-8 p-0"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={3} className="text-center text-muted-foreground">
+                      등록된 회사 휴무일이 없습니다.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
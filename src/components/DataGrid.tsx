@@ -0,0 +1,390 @@
+/**
+ * DataGrid 컴포넌트
+ * 수십만 행도 끊김 없이 스크롤하도록 보이는 행만 그리는 가상화 표입니다.
+ * 열 정렬, 열별 필터, 열 표시/숨김, 고정 헤더, 금액 열 하단 합계, 행 선택을 지원하며 모든 상세 내역(드릴다운) 표에서 공통으로 사용합니다.
+ */
+
+import React, { useMemo, useRef, useState } from 'react';
+import { ArrowDown, ArrowUp, ArrowUpDown, Columns3, FilterX } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { cn } from '@/lib/utils';
+import { formatDataGridValue, type DataGridColumn, type DataGridValue } from '@/lib/dataGridColumns';
+
+interface DataGridProps<T> {
+  rows: T[];
+  columns: DataGridColumn<T>[];
+  getRowKey: (row: T, index: number) => string;
+  /** 스크롤 영역 높이 (px, 기본 480) */
+  height?: number;
+  /** 행 높이 (px, 기본 36). 가상화를 위해 모든 행은 같은 높이로 그립니다. */
+  rowHeight?: number;
+  selectable?: boolean;
+  /** 선택 상태를 부모가 관리할 때 지정 (미지정 시 내부 상태) */
+  selectedKeys?: Set<string>;
+  onSelectedKeysChange?: (keys: Set<string>) => void;
+  onRowClick?: (row: T) => void;
+  rowClassName?: (row: T) => string | undefined;
+  emptyMessage?: string;
+  /** 툴바 오른쪽에 붙일 요소 (엑셀 다운로드 버튼 등) */
+  toolbar?: React.ReactNode;
+}
+
+type SortDirection = 'asc' | 'desc';
+
+const DEFAULT_COLUMN_WIDTH = 140;
+const SELECT_COLUMN_WIDTH = 40;
+const OVERSCAN_ROWS = 10;
+const compareValues = (a: DataGridValue, b: DataGridValue): number => {
+  const emptyA = a === null || a === undefined || a === '';
+  const emptyB = b === null || b === undefined || b === '';
+  if (emptyA || emptyB) return emptyA === emptyB ? 0 : emptyA ? 1 : -1; // 빈 값은 항상 뒤로
+  if (a instanceof Date && b instanceof Date) return a.getTime() - b.getTime();
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return formatDataGridValue(a).localeCompare(formatDataGridValue(b), 'ko');
+};
+
+const toNumber = (text: string): number => Number(text.replace(/,/g, ''));
+
+/**
+ * 열 필터 판정. 숫자 열은 ">1000", "<=500", "=0", "1000~5000" 같은 비교식을 지원하고,
+ * 그 외에는 표시 문자열에 필터 문자열이 포함되는지(대소문자 무시) 확인합니다.
+ */
+const matchesFilter = (value: DataGridValue, filter: string): boolean => {
+  if (typeof value === 'number') {
+    const comparison = filter.match(/^(>=|<=|>|<|=)\s*(-?[\d,.]+)$/);
+    if (comparison) {
+      const target = toNumber(comparison[2]);
+      switch (comparison[1]) {
+        case '>=': return value >= target;
+        case '<=': return value <= target;
+        case '>': return value > target;
+        case '<': return value < target;
+        default: return value === target;
+      }
+    }
+    const range = filter.match(/^(-?[\d,.]+)\s*~\s*(-?[\d,.]+)$/);
+    if (range) return value >= toNumber(range[1]) && value <= toNumber(range[2]);
+    return formatDataGridValue(value).includes(filter) || String(value).includes(filter);
+  }
+  return formatDataGridValue(value).toLowerCase().includes(filter.toLowerCase());
+};
+
+const sumColumns = <T,>(items: { row: T }[], columns: DataGridColumn<T>[]): Record<string, number> => {
+  const sums: Record<string, number> = {};
+  columns.forEach(column => {
+    sums[column.id] = items.reduce((sum, { row }) => {
+      const val = column.value(row);
+      return sum + (typeof val === 'number' ? val : 0);
+    }, 0);
+  });
+  return sums;
+};
+
+export const DataGrid = <T,>({
+  rows,
+  columns,
+  getRowKey,
+  height = 480,
+  rowHeight = 36,
+  selectable = false,
+  selectedKeys: controlledSelectedKeys,
+  onSelectedKeysChange,
+  onRowClick,
+  rowClassName,
+  emptyMessage = '표시할 데이터가 없습니다.',
+  toolbar,
+}: DataGridProps<T>) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [sort, setSort] = useState<{ columnId: string; direction: SortDirection } | null>(null);
+  const [filters, setFilters] = useState<Record<string, string>>({});
+  const [hiddenColumnIds, setHiddenColumnIds] = useState<Set<string>>(
+    () => new Set(columns.filter(c => c.defaultHidden).map(c => c.id))
+  );
+  const [internalSelectedKeys, setInternalSelectedKeys] = useState<Set<string>>(new Set());
+  const selectedKeys = controlledSelectedKeys ?? internalSelectedKeys;
+  const setSelectedKeys = (keys: Set<string>) => {
+    if (!controlledSelectedKeys) setInternalSelectedKeys(keys);
+    onSelectedKeysChange?.(keys);
+  };
+
+  const visibleColumns = useMemo(
+    () => columns.filter(c => !hiddenColumnIds.has(c.id)),
+    [columns, hiddenColumnIds]
+  );
+
+  // 원래 순서의 키를 함께 보관 (정렬 후에도 안정적인 선택 키)
+  const keyedRows = useMemo(
+    () => rows.map((row, index) => ({ row, key: getRowKey(row, index) })),
+    [rows, getRowKey]
+  );
+
+  const filteredRows = useMemo(() => {
+    const activeFilters = columns
+      .map(column => ({ column, filter: (filters[column.id] || '').trim() }))
+      .filter(f => f.filter !== '');
+    let result = activeFilters.length === 0
+      ? keyedRows
+      : keyedRows.filter(({ row }) => activeFilters.every(({ column, filter }) => matchesFilter(column.value(row), filter)));
+
+    if (sort) {
+      const column = columns.find(c => c.id === sort.columnId);
+      if (column) {
+        const sign = sort.direction === 'asc' ? 1 : -1;
+        result = result
+          .map(item => ({ item, value: column.value(item.row) }))
+          .sort((a, b) => compareValues(a.value, b.value) * sign)
+          .map(({ item }) => item);
+      }
+    }
+    return result;
+  }, [keyedRows, columns, filters, sort]);
+
+  const totalColumns = useMemo(() => visibleColumns.filter(c => c.total), [visibleColumns]);
+
+  const filteredTotals = useMemo(() => sumColumns(filteredRows, totalColumns), [filteredRows, totalColumns]);
+
+  const selectedRows = useMemo(
+    () => (selectedKeys.size === 0 ? [] : keyedRows.filter(({ key }) => selectedKeys.has(key))),
+    [keyedRows, selectedKeys]
+  );
+  const selectedTotals = useMemo(() => sumColumns(selectedRows, totalColumns), [selectedRows, totalColumns]);
+
+  // 가상화: 현재 스크롤 위치에서 보이는 행 범위만 렌더링
+  const startIndex = Math.max(0, Math.floor(scrollTop / rowHeight) - OVERSCAN_ROWS);
+  const endIndex = Math.min(filteredRows.length, Math.ceil((scrollTop + height) / rowHeight) + OVERSCAN_ROWS);
+  const windowRows = filteredRows.slice(startIndex, endIndex);
+
+  const tableWidth = visibleColumns.reduce((sum, c) => sum + (c.width ?? DEFAULT_COLUMN_WIDTH), 0) +
+    (selectable ? SELECT_COLUMN_WIDTH : 0);
+  const hasFilters = Object.values(filters).some(f => f.trim() !== '');
+  const allFilteredSelected = filteredRows.length > 0 && filteredRows.every(({ key }) => selectedKeys.has(key));
+  const someFilteredSelected = !allFilteredSelected && filteredRows.some(({ key }) => selectedKeys.has(key));
+
+  const toggleSort = (columnId: string) => {
+    setSort(prev => {
+      if (!prev || prev.columnId !== columnId) return { columnId, direction: 'asc' };
+      if (prev.direction === 'asc') return { columnId, direction: 'desc' };
+      return null;
+    });
+  };
+
+  const toggleRow = (key: string) => {
+    const next = new Set(selectedKeys);
+    if (next.has(key)) next.delete(key);
+    else next.add(key);
+    setSelectedKeys(next);
+  };
+
+  const toggleAllFiltered = () => {
+    const next = new Set(selectedKeys);
+    if (allFilteredSelected) filteredRows.forEach(({ key }) => next.delete(key));
+    else filteredRows.forEach(({ key }) => next.add(key));
+    setSelectedKeys(next);
+  };
+
+  const toggleColumn = (columnId: string, visible: boolean) => {
+    setHiddenColumnIds(prev => {
+      const next = new Set(prev);
+      if (visible) next.delete(columnId);
+      else next.add(columnId);
+      return next;
+    });
+  };
+
+  const alignClass = (align: DataGridColumn<T>['align']) =>
+    align === 'right' ? 'text-right' : align === 'center' ? 'text-center' : 'text-left';
+
+  const renderTotalsRow = (label: string, totals: Record<string, number>, className?: string) => (
+    <tr className={cn('border-t', className)} style={{ height: rowHeight }}>
+      {selectable && <td />}
+      {visibleColumns.map((column, index) => (
+        <td key={column.id} className={cn('px-2 text-xs font-semibold whitespace-nowrap overflow-hidden text-ellipsis', alignClass(column.align))}>
+          {column.total ? totals[column.id].toLocaleString() : index === 0 ? label : ''}
+        </td>
+      ))}
+    </tr>
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+        <div className="flex items-center gap-3 text-muted-foreground">
+          <span>
+            {filteredRows.length === rows.length
+              ? `${rows.length.toLocaleString()}건`
+              : `${filteredRows.length.toLocaleString()}건 / 전체 ${rows.length.toLocaleString()}건`}
+          </span>
+          {selectable && selectedKeys.size > 0 && (
+            <span className="text-primary font-medium">{selectedKeys.size.toLocaleString()}건 선택</span>
+          )}
+          {hasFilters && (
+            <Button variant="ghost" size="sm" className="h-7 px-2" onClick={() => setFilters({})}>
+              <FilterX className="h-3.5 w-3.5 mr-1" />
+              필터 초기화
+            </Button>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          {toolbar}
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm">
+                <Columns3 className="h-4 w-4 mr-1" />
+                열
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="max-h-80 overflow-y-auto">
+              <DropdownMenuLabel>표시할 열</DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              {columns.map(column => (
+                <DropdownMenuCheckboxItem
+                  key={column.id}
+                  checked={!hiddenColumnIds.has(column.id)}
+                  onCheckedChange={checked => toggleColumn(column.id, checked === true)}
+                  onSelect={e => e.preventDefault()}
+                >
+                  {column.header}
+                </DropdownMenuCheckboxItem>
+              ))}
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </div>
+      </div>
+
+      <div
+        ref={scrollRef}
+        className="relative overflow-auto rounded-md border"
+        style={{ height }}
+        onScroll={e => setScrollTop(e.currentTarget.scrollTop)}
+      >
+        <table className="text-sm border-collapse" style={{ tableLayout: 'fixed', width: tableWidth, minWidth: '100%' }}>
+          <colgroup>
+            {selectable && <col style={{ width: SELECT_COLUMN_WIDTH }} />}
+            {visibleColumns.map(column => (
+              <col key={column.id} style={{ width: column.width ?? DEFAULT_COLUMN_WIDTH }} />
+            ))}
+          </colgroup>
+          <thead className="sticky top-0 z-10 bg-muted">
+            <tr className="border-b" style={{ height: rowHeight }}>
+              {selectable && (
+                <th className="px-2">
+                  <Checkbox
+                    checked={allFilteredSelected ? true : someFilteredSelected ? 'indeterminate' : false}
+                    onCheckedChange={toggleAllFiltered}
+                    aria-label="전체 선택"
+                  />
+                </th>
+              )}
+              {visibleColumns.map(column => {
+                const direction = sort?.columnId === column.id ? sort.direction : null;
+                return (
+                  <th
+                    key={column.id}
+                    className={cn('px-2 font-semibold text-muted-foreground cursor-pointer select-none whitespace-nowrap overflow-hidden text-ellipsis', alignClass(column.align))}
+                    onClick={() => toggleSort(column.id)}
+                    title={column.header}
+                  >
+                    <span className="inline-flex items-center gap-1">
+                      {column.header}
+                      {direction === 'asc' ? (
+                        <ArrowUp className="h-3 w-3" />
+                      ) : direction === 'desc' ? (
+                        <ArrowDown className="h-3 w-3" />
+                      ) : (
+                        <ArrowUpDown className="h-3 w-3 opacity-30" />
+                      )}
+                    </span>
+                  </th>
+                );
+              })}
+            </tr>
+            <tr className="border-b">
+              {selectable && <th />}
+              {visibleColumns.map(column => (
+                <th key={column.id} className="px-1 py-1 font-normal">
+                  <Input
+                    value={filters[column.id] || ''}
+                    onChange={e => {
+                      const value = e.target.value;
+                      setFilters(prev => ({ ...prev, [column.id]: value }));
+                      if (scrollRef.current) scrollRef.current.scrollTop = 0;
+                    }}
+                    placeholder={column.total || column.align === 'right' ? '>1000, 100~500' : '필터'}
+                    className="h-7 text-xs"
+                  />
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {filteredRows.length === 0 ? (
+              <tr>
+                <td colSpan={visibleColumns.length + (selectable ? 1 : 0)} className="h-24 text-center text-muted-foreground">
+                  {emptyMessage}
+                </td>
+              </tr>
+            ) : (
+              <>
+                {startIndex > 0 && <tr style={{ height: startIndex * rowHeight }} />}
+                {windowRows.map(({ row, key }) => (
+                  <tr
+                    key={key}
+                    className={cn(
+                      'border-b hover:bg-muted/50',
+                      onRowClick && 'cursor-pointer',
+                      selectedKeys.has(key) && 'bg-primary/5',
+                      rowClassName?.(row)
+                    )}
+                    style={{ height: rowHeight }}
+                    onClick={onRowClick ? () => onRowClick(row) : undefined}
+                  >
+                    {selectable && (
+                      <td className="px-2" onClick={e => e.stopPropagation()}>
+                        <Checkbox
+                          checked={selectedKeys.has(key)}
+                          onCheckedChange={() => toggleRow(key)}
+                          aria-label="행 선택"
+                        />
+                      </td>
+                    )}
+                    {visibleColumns.map(column => {
+                      const content = column.render ? column.render(row) : formatDataGridValue(column.value(row));
+                      return (
+                        <td
+                          key={column.id}
+                          className={cn('px-2 whitespace-nowrap overflow-hidden text-ellipsis', alignClass(column.align), column.cellClassName)}
+                          title={typeof content === 'string' ? content : undefined}
+                        >
+                          {content}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+                {endIndex < filteredRows.length && <tr style={{ height: (filteredRows.length - endIndex) * rowHeight }} />}
+              </>
+            )}
+          </tbody>
+          {totalColumns.length > 0 && filteredRows.length > 0 && (
+            <tfoot className="sticky bottom-0 z-10 bg-muted">
+              {renderTotalsRow(`합계 (${filteredRows.length.toLocaleString()}건)`, filteredTotals)}
+              {selectable && selectedRows.length > 0 &&
+                renderTotalsRow(`선택 (${selectedRows.length.toLocaleString()}건)`, selectedTotals, 'text-primary')}
+            </tfoot>
+          )}
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,211 @@
+import React, { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Briefcase, FolderOpen, Loader2, Plus, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  createEngagement,
+  deleteEngagement,
+  listEngagements,
+  type Engagement,
+} from '@/lib/engagementStore';
+
+interface EngagementDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  activeEngagementId: string | null;
+  onOpen: (engagement: Engagement) => void;
+  onCreate: (engagement: Engagement) => void;
+  onDelete: (engagementId: string) => void;
+  onClose: () => void;
+}
+
+export const EngagementDialog: React.FC<EngagementDialogProps> = ({
+  open,
+  onOpenChange,
+  activeEngagementId,
+  onOpen,
+  onCreate,
+  onDelete,
+  onClose,
+}) => {
+  const { toast } = useToast();
+  const [engagements, setEngagements] = useState<Engagement[]>([]);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [clientName, setClientName] = useState<string>('');
+  const [fiscalYear, setFiscalYear] = useState<string>(String(new Date().getFullYear() - 1));
+
+  const showError = (error: unknown) => {
+    toast({
+      title: '오류',
+      description: error instanceof Error ? error.message : String(error),
+      variant: 'destructive',
+    });
+  };
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setIsLoading(true);
+    listEngagements()
+      .then(list => {
+        if (!cancelled) setEngagements(list);
+      })
+      .catch(error => {
+        if (!cancelled) {
+          toast({
+            title: '오류',
+            description: error instanceof Error ? error.message : String(error),
+            variant: 'destructive',
+          });
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, toast]);
+
+  const handleCreate = async () => {
+    const year = parseInt(fiscalYear, 10);
+    if (!clientName.trim() || !Number.isFinite(year)) return;
+    try {
+      const engagement = await createEngagement(clientName, year);
+      setClientName('');
+      onCreate(engagement);
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleDelete = async (engagement: Engagement) => {
+    if (!window.confirm(`"${engagement.client_name} (${engagement.fiscal_year})" 업무와 저장된 파일·분석 결과를 모두 삭제할까요?`)) return;
+    try {
+      await deleteEngagement(engagement.id);
+      setEngagements(prev => prev.filter(e => e.id !== engagement.id));
+      onDelete(engagement.id);
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Briefcase className="h-5 w-5" />
+            감사 업무
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            고객사·회계연도별 업무를 만들면 업로드한 당기/전기/과거 연도 원장과 재무제표, AI 분석과 표본 추출 결과가 저장되어
+            새로고침하거나 다른 PC에서도 다시 열 수 있습니다. 새 업무를 만들면 지금 불러온 파일이 그 업무에 저장됩니다.
+          </p>
+
+          {activeEngagementId && (
+            <div className="flex justify-end">
+              <Button variant="ghost" size="sm" onClick={onClose}>
+                업무 닫기 (저장하지 않고 작업)
+              </Button>
+            </div>
+          )}
+
+          <div className="flex items-end gap-2">
+            <div className="flex-1 space-y-1">
+              <Label htmlFor="engagement-client">고객사</Label>
+              <Input
+                id="engagement-client"
+                placeholder="예: (주)한국상사"
+                value={clientName}
+                onChange={(e) => setClientName(e.target.value)}
+              />
+            </div>
+            <div className="w-[120px] space-y-1">
+              <Label htmlFor="engagement-year">회계연도</Label>
+              <Input
+                id="engagement-year"
+                type="number"
+                value={fiscalYear}
+                onChange={(e) => setFiscalYear(e.target.value)}
+              />
+            </div>
+            <Button onClick={handleCreate} disabled={!clientName.trim() || !fiscalYear} size="sm" className="flex items-center gap-1">
+              <Plus className="w-4 h-4" />
+              새 업무
+            </Button>
+          </div>
+
+          <div className="border rounded-lg max-h-[360px] overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>고객사</TableHead>
+                  <TableHead>회계연도</TableHead>
+                  <TableHead>최근 수정</TableHead>
+                  <TableHead className="w-[140px]" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center text-muted-foreground">
+                      <Loader2 className="inline h-4 w-4 mr-2 animate-spin" />
+                      불러오는 중...
+                    </TableCell>
+                  </TableRow>
+                ) : engagements.length > 0 ? (
+                  engagements.map(engagement => (
+                    <TableRow key={engagement.id}>
+                      <TableCell className="font-medium">
+                        {engagement.client_name}
+                        {engagement.id === activeEngagementId && (
+                          <Badge variant="secondary" className="ml-2">작업 중</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell>{engagement.fiscal_year}</TableCell>
+                      <TableCell>{new Date(engagement.updated_at).toLocaleString('ko-KR')}</TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => onOpen(engagement)}
+                          className="mr-1"
+                        >
+                          <FolderOpen className="w-4 h-4 mr-1" />
+                          열기
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDelete(engagement)}
+                          className="h-8 w-8 p-0"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                ) : (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center text-muted-foreground">
+                      저장된 업무가 없습니다.
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -4,6 +4,7 @@ import { Upload, FileSpreadsheet } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import * as XLSX from 'xlsx';
 import { maskAccountNumbersInRows } from '@/lib/anonymization';
+import { readLedgerWorkbook, isSupportedLedgerFile, LEDGER_FILE_ACCEPT } from '@/lib/ledgerFileImport';
 
 interface FileUploadProps {
   onFileUpload: (data: any[], fileName: string) => void;
@@ -14,18 +15,17 @@ export const FileUpload = ({ onFileUpload }: FileUploadProps) => {
   const { toast } = useToast();
 
   const handleFile = async (file: File) => {
-    if (!file.name.match(/\.(xlsx|xls)$/)) {
+    if (!isSupportedLedgerFile(file)) {
       toast({
         title: '오류',
-        description: 'Excel 파일(.xlsx, .xls)만 업로드 가능합니다.',
+        description: 'Excel(.xlsx, .xls) 또는 CSV/텍스트(.csv, .tsv, .txt, .prn) 파일만 업로드 가능합니다.',
         variant: 'destructive',
       });
       return;
     }
 
     try {
-      const data = await file.arrayBuffer();
-      const workbook = XLSX.read(data);
+      const { workbook } = await readLedgerWorkbook(file);
       
       // 모든 시트의 데이터를 합치기
       let allData: any[] = [];
@@ -111,7 +111,7 @@ export const FileUpload = ({ onFileUpload }: FileUploadProps) => {
         <div>
           <h3 className="text-lg font-semibold mb-2">계정별원장 파일 업로드</h3>
           <p className="text-sm text-muted-foreground mb-4">
-            Excel 파일을 드래그하거나 클릭하여 선택하세요
+            Excel 또는 CSV/텍스트 파일을 드래그하거나 클릭하여 선택하세요
           </p>
         </div>
         <label htmlFor="file-upload">
@@ -125,7 +125,7 @@ export const FileUpload = ({ onFileUpload }: FileUploadProps) => {
         <input
           id="file-upload"
           type="file"
-          accept=".xlsx,.xls"
+          accept={LEDGER_FILE_ACCEPT}
           className="hidden"
           onChange={handleFileInput}
         />
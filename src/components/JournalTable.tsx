@@ -1,14 +1,15 @@
 /**
  * JournalTable 컴포넌트
  * Google AI Studio에서 가져온 JournalTable.tsx를 현재 프로젝트에 맞게 변환
- * 분개장 내역을 테이블로 표시하고 검색, 페이지네이션, 엑셀 다운로드 기능 제공
+ * 분개장 내역을 가상화 표(DataGrid)로 표시하고 검색, 열 정렬·필터, 엑셀 다운로드 기능 제공
  */
 
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { JournalEntry } from '@/types/analysis';
-import { Search, ChevronLeft, ChevronRight, Download } from 'lucide-react';
+import { Search, Download } from 'lucide-react';
 import * as XLSX from 'xlsx';
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { DataGrid } from '@/components/DataGrid';
+import { createJournalEntryColumns } from '@/lib/dataGridColumns';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -17,20 +18,21 @@ interface JournalTableProps {
   entries: JournalEntry[];
 }
 
+const getEntryKey = (entry: JournalEntry, index: number) => String(entry.id ?? index);
+
 const JournalTable: React.FC<JournalTableProps> = ({ entries }) => {
   const [searchTerm, setSearchTerm] = useState('');
-  const [page, setPage] = useState(1);
-  const rowsPerPage = 10;
-
-  const filteredEntries = entries.filter(e => 
-    e.description?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    e.accountName?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    e.vendor?.toLowerCase().includes(searchTerm.toLowerCase())
-  );
+  const columns = useMemo(() => createJournalEntryColumns(), []);
 
-  const totalPages = Math.ceil(filteredEntries.length / rowsPerPage);
-  const startIndex = (page - 1) * rowsPerPage;
-  const currentRows = filteredEntries.slice(startIndex, startIndex + rowsPerPage);
+  const filteredEntries = useMemo(() => {
+    const term = searchTerm.toLowerCase();
+    if (!term) return entries;
+    return entries.filter(e =>
+      e.description?.toLowerCase().includes(term) ||
+      e.accountName?.toLowerCase().includes(term) ||
+      e.vendor?.toLowerCase().includes(term)
+    );
+  }, [entries, searchTerm]);
 
   const handleExcelDownload = () => {
     const data = filteredEntries.map(e => ({
@@ -61,17 +63,6 @@ const JournalTable: React.FC<JournalTableProps> = ({ entries }) => {
     XLSX.writeFile(wb, `Journal_List_${dateStr}.xlsx`);
   };
 
-  // Date formatting helper
-  const formatDate = (date: string | Date): string => {
-    if (typeof date === 'string') {
-      return date;
-    }
-    if (date instanceof Date && !isNaN(date.getTime())) {
-      return date.toISOString().split('T')[0];
-    }
-    return String(date);
-  };
-
   return (
     <Card>
       <CardHeader>
@@ -79,7 +70,7 @@ const JournalTable: React.FC<JournalTableProps> = ({ entries }) => {
           <div>
             <CardTitle>전표 내역 (Journal Entries)</CardTitle>
             <CardDescription className="mt-1">
-              검색, 페이지네이션, 엑셀 다운로드 기능이 제공됩니다
+              검색, 열 정렬·필터, 엑셀 다운로드 기능이 제공됩니다
             </CardDescription>
           </div>
           
@@ -101,10 +92,7 @@ const JournalTable: React.FC<JournalTableProps> = ({ entries }) => {
                 placeholder="계정, 적요, 거래처 검색..." 
                 className="pl-9"
                 value={searchTerm}
-                onChange={(e) => { 
-                  setSearchTerm(e.target.value); 
-                  setPage(1); 
-                }}
+                onChange={(e) => setSearchTerm(e.target.value)}
               />
             </div>
           </div>
@@ -112,85 +100,13 @@ const JournalTable: React.FC<JournalTableProps> = ({ entries }) => {
       </CardHeader>
 
       <CardContent>
-        <div className="rounded-md border">
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead className="w-[120px]">일자</TableHead>
-                <TableHead className="min-w-[150px]">계정과목</TableHead>
-                <TableHead className="text-right w-[120px]">차변</TableHead>
-                <TableHead className="text-right w-[120px]">대변</TableHead>
-                <TableHead className="min-w-[150px]">거래처</TableHead>
-                <TableHead className="min-w-[200px]">적요</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {currentRows.length > 0 ? (
-                currentRows.map((entry, idx) => (
-                  <TableRow key={entry.id || idx} className="hover:bg-muted/50">
-                    <TableCell className="font-medium whitespace-nowrap">
-                      {formatDate(entry.date)}
-                    </TableCell>
-                    <TableCell className="text-primary font-medium whitespace-nowrap">
-                      {entry.accountName || '-'}
-                    </TableCell>
-                    <TableCell className="text-right">
-                      {entry.debit && entry.debit !== 0 ? entry.debit.toLocaleString() : '-'}
-                    </TableCell>
-                    <TableCell className="text-right">
-                      {entry.credit && entry.credit !== 0 ? entry.credit.toLocaleString() : '-'}
-                    </TableCell>
-                    <TableCell className="text-muted-foreground whitespace-nowrap max-w-[150px] truncate">
-                      {entry.vendor || '-'}
-                    </TableCell>
-                    <TableCell className="text-muted-foreground max-w-[200px] truncate">
-                      {entry.description || '-'}
-                    </TableCell>
-                  </TableRow>
-                ))
-              ) : (
-                <TableRow>
-                  <TableCell colSpan={6} className="h-24 text-center text-muted-foreground">
-                    검색 결과가 없습니다.
-                  </TableCell>
-                </TableRow>
-              )}
-            </TableBody>
-          </Table>
-        </div>
-
-        {/* Pagination */}
-        <div className="flex items-center justify-between mt-4 pt-4 border-t text-sm text-muted-foreground">
-          <span>
-            {filteredEntries.length > 0 
-              ? `${startIndex + 1}부터 ${Math.min(startIndex + rowsPerPage, filteredEntries.length)}까지 (전체 ${filteredEntries.length}건)`
-              : '표시할 항목이 없습니다'
-            }
-          </span>
-          <div className="flex items-center space-x-2">
-            <Button
-              variant="outline"
-              size="icon"
-              onClick={() => setPage(p => Math.max(1, p - 1))}
-              disabled={page === 1}
-              className="h-8 w-8"
-            >
-              <ChevronLeft className="h-4 w-4" />
-            </Button>
-            <span className="text-sm font-medium">
-              페이지 {page} / {totalPages || 1}
-            </span>
-            <Button
-              variant="outline"
-              size="icon"
-              onClick={() => setPage(p => Math.min(totalPages, p + 1))}
-              disabled={page === totalPages || totalPages === 0}
-              className="h-8 w-8"
-            >
-              <ChevronRight className="h-4 w-4" />
-            </Button>
-          </div>
-        </div>
+        <DataGrid
+          rows={filteredEntries}
+          columns={columns}
+          getRowKey={getEntryKey}
+          emptyMessage="검색 결과가 없습니다."
+          selectable
+        />
       </CardContent>
     </Card>
   );
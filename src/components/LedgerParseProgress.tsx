@@ -0,0 +1,40 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Loader2, X } from 'lucide-react';
+import { LEDGER_PARSE_STAGE_LABELS, type LedgerParseProgress as LedgerParseProgressState } from '@/lib/ledgerParser';
+
+interface LedgerParseProgressProps {
+  fileName: string;
+  progress: LedgerParseProgressState;
+  onCancel: () => void;
+}
+
+/**
+ * 백그라운드 원장 파싱 진행률 (화면 우측 하단 고정)
+ */
+export const LedgerParseProgress: React.FC<LedgerParseProgressProps> = ({ fileName, progress, onCancel }) => {
+  const percent = Math.round(progress.ratio * 100);
+
+  return (
+    <Card className="fixed bottom-4 right-4 z-50 w-80 shadow-lg">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-start gap-2">
+          <Loader2 className="h-4 w-4 mt-0.5 animate-spin text-primary shrink-0" />
+          <div className="flex-1 min-w-0">
+            <p className="text-sm font-medium truncate" title={fileName}>{fileName}</p>
+            <p className="text-xs text-muted-foreground">
+              {LEDGER_PARSE_STAGE_LABELS[progress.stage]} · {percent}%
+            </p>
+          </div>
+          <Button variant="ghost" size="sm" className="h-7 px-2" onClick={onCancel}>
+            <X className="h-4 w-4 mr-1" />
+            취소
+          </Button>
+        </div>
+        <Progress value={percent} className="h-2" />
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,300 @@
+/**
+ * 원장 피벗 테이블 컴포넌트
+ * 행·열 차원과 측정값을 골라 분개 라인을 집계하고, 셀을 누르면 해당 원본 분개 라인을 보여줍니다.
+ */
+
+import React, { useState, useMemo } from 'react';
+import * as XLSX from 'xlsx';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { DataGrid } from '@/components/DataGrid';
+import { createJournalEntryColumns, getIndexRowKey } from '@/lib/dataGridColumns';
+import { ArrowLeftRight, Download } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import type { JournalEntry } from '@/types/analysis';
+import { normalizeDateKey } from '@/lib/holidayCalendar';
+import {
+  PIVOT_DIMENSION_LABELS,
+  PIVOT_MEASURE_LABELS,
+  buildPivot,
+  getPivotCellKey,
+  getPivotMeasureValue,
+  type PivotCell,
+  type PivotDimension,
+  type PivotMeasure,
+} from '@/lib/ledgerPivot';
+
+interface LedgerPivotProps {
+  entries: JournalEntry[]; // 합계행을 제외한 분개 라인
+  fileNamePrefix?: string;
+}
+
+const MAX_DISPLAY_ROWS = 500;
+// 드릴다운은 전표번호까지 기본 표시
+const DRILLDOWN_COLUMNS = createJournalEntryColumns().map(column =>
+  column.id === 'entryNumber' ? { ...column, defaultHidden: false } : column
+);
+
+const ROW_DIMENSIONS: PivotDimension[] = ['account', 'vendor', 'month', 'weekday', 'voucherType'];
+const COLUMN_DIMENSIONS: PivotDimension[] = ['none', 'account', 'vendor', 'month', 'weekday', 'voucherType'];
+const MEASURES: PivotMeasure[] = ['debit', 'credit', 'count', 'average'];
+
+const formatMeasure = (value: number, measure: PivotMeasure): string => {
+  if (value === 0) return '-';
+  return measure === 'count' ? value.toLocaleString() : Math.round(value).toLocaleString();
+};
+
+export const LedgerPivot: React.FC<LedgerPivotProps> = ({ entries, fileNamePrefix = '원장피벗' }) => {
+  const { toast } = useToast();
+  const [rowDimension, setRowDimension] = useState<PivotDimension>('account');
+  const [columnDimension, setColumnDimension] = useState<PivotDimension>('month');
+  const [measure, setMeasure] = useState<PivotMeasure>('debit');
+  const [drilldown, setDrilldown] = useState<{ title: string; cell: PivotCell } | null>(null);
+
+  const pivot = useMemo(
+    () => buildPivot(entries, rowDimension, columnDimension),
+    [entries, rowDimension, columnDimension]
+  );
+
+  const openDrilldown = (cell: PivotCell | undefined, ...labels: string[]) => {
+    if (!cell || cell.count === 0) return;
+    setDrilldown({ title: labels.filter(Boolean).join(' · '), cell });
+  };
+
+  const handleSwap = () => {
+    if (columnDimension === 'none') return;
+    setRowDimension(columnDimension);
+    setColumnDimension(rowDimension);
+  };
+
+  const handleExport = () => {
+    try {
+      const wb = XLSX.utils.book_new();
+      const header = [
+        `${PIVOT_DIMENSION_LABELS[rowDimension]} \\ ${PIVOT_DIMENSION_LABELS[columnDimension]}`,
+        ...(columnDimension === 'none' ? [] : pivot.columnKeys),
+        '합계',
+      ];
+      const rows = pivot.rowKeys.map(rowKey => [
+        rowKey,
+        ...(columnDimension === 'none'
+          ? []
+          : pivot.columnKeys.map(columnKey => getPivotMeasureValue(pivot.cells.get(getPivotCellKey(rowKey, columnKey)), measure))),
+        getPivotMeasureValue(pivot.rowTotals.get(rowKey), measure),
+      ]);
+      const totalRow = [
+        '합계',
+        ...(columnDimension === 'none'
+          ? []
+          : pivot.columnKeys.map(columnKey => getPivotMeasureValue(pivot.columnTotals.get(columnKey), measure))),
+        getPivotMeasureValue(pivot.grandTotal, measure),
+      ];
+      const ws = XLSX.utils.aoa_to_sheet([[`측정값: ${PIVOT_MEASURE_LABELS[measure]}`], [], header, ...rows, totalRow]);
+      XLSX.utils.book_append_sheet(wb, ws, '피벗');
+      XLSX.writeFile(wb, `${fileNamePrefix}_${PIVOT_DIMENSION_LABELS[rowDimension]}x${PIVOT_DIMENSION_LABELS[columnDimension]}_${new Date().toISOString().split('T')[0]}.xlsx`);
+    } catch (error) {
+      toast({
+        title: '오류',
+        description: `엑셀 다운로드 중 오류가 발생했습니다: ${error instanceof Error ? error.message : String(error)}`,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleExportDrilldown = () => {
+    if (!drilldown) return;
+    try {
+      const wb = XLSX.utils.book_new();
+      const ws = XLSX.utils.json_to_sheet(drilldown.cell.entries.map(entry => ({
+        일자: normalizeDateKey(entry.date) || String(entry.date ?? ''),
+        전표번호: entry.entryNumber !== undefined ? String(entry.entryNumber) : '',
+        계정과목: entry.accountName,
+        거래처: entry.vendor,
+        적요: entry.description,
+        차변: entry.debit,
+        대변: entry.credit,
+      })));
+      XLSX.utils.book_append_sheet(wb, ws, '상세내역');
+      XLSX.writeFile(wb, `${fileNamePrefix}_상세_${drilldown.title.replace(/[\\/:*?"<>|]/g, '_')}.xlsx`);
+    } catch (error) {
+      toast({
+        title: '오류',
+        description: `엑셀 다운로드 중 오류가 발생했습니다: ${error instanceof Error ? error.message : String(error)}`,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const showColumns = columnDimension !== 'none';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="space-y-1">
+          <Label className="text-xs">행</Label>
+          <Select value={rowDimension} onValueChange={(value) => setRowDimension(value as PivotDimension)}>
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ROW_DIMENSIONS.map(dimension => (
+                <SelectItem key={dimension} value={dimension} disabled={dimension === columnDimension}>
+                  {PIVOT_DIMENSION_LABELS[dimension]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button variant="ghost" size="sm" onClick={handleSwap} disabled={!showColumns} title="행·열 바꾸기">
+          <ArrowLeftRight className="h-4 w-4" />
+        </Button>
+        <div className="space-y-1">
+          <Label className="text-xs">열</Label>
+          <Select value={columnDimension} onValueChange={(value) => setColumnDimension(value as PivotDimension)}>
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {COLUMN_DIMENSIONS.map(dimension => (
+                <SelectItem key={dimension} value={dimension} disabled={dimension === rowDimension}>
+                  {PIVOT_DIMENSION_LABELS[dimension]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">측정값</Label>
+          <Select value={measure} onValueChange={(value) => setMeasure(value as PivotMeasure)}>
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MEASURES.map(m => (
+                <SelectItem key={m} value={m}>{PIVOT_MEASURE_LABELS[m]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex-1" />
+        <Button variant="outline" size="sm" onClick={handleExport} disabled={pivot.rowKeys.length === 0}>
+          <Download className="mr-2 h-4 w-4" />
+          엑셀 다운로드
+        </Button>
+      </div>
+
+      {pivot.mergedColumnCount > 0 && (
+        <p className="text-xs text-muted-foreground">
+          열이 많아 금액 상위 열만 표시하고 나머지 {pivot.mergedColumnCount.toLocaleString()}개는 '(기타)'로 합쳤습니다.
+        </p>
+      )}
+
+      <div className="border rounded-lg max-h-[600px] overflow-auto">
+        <Table>
+          <TableHeader className="sticky top-0 bg-background z-10">
+            <TableRow>
+              <TableHead className="sticky left-0 bg-background min-w-[160px]">
+                {PIVOT_DIMENSION_LABELS[rowDimension]}
+              </TableHead>
+              {showColumns && pivot.columnKeys.map(columnKey => (
+                <TableHead
+                  key={columnKey}
+                  className="text-right whitespace-nowrap cursor-pointer hover:text-primary"
+                  onClick={() => openDrilldown(pivot.columnTotals.get(columnKey), columnKey)}
+                >
+                  {columnKey}
+                </TableHead>
+              ))}
+              <TableHead className="text-right font-bold">합계</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {pivot.rowKeys.slice(0, MAX_DISPLAY_ROWS).map(rowKey => (
+              <TableRow key={rowKey}>
+                <TableCell
+                  className="sticky left-0 bg-background font-medium cursor-pointer hover:text-primary"
+                  onClick={() => openDrilldown(pivot.rowTotals.get(rowKey), rowKey)}
+                >
+                  {rowKey}
+                </TableCell>
+                {showColumns && pivot.columnKeys.map(columnKey => {
+                  const cell = pivot.cells.get(getPivotCellKey(rowKey, columnKey));
+                  return (
+                    <TableCell
+                      key={columnKey}
+                      className={`text-right whitespace-nowrap ${cell ? 'cursor-pointer hover:bg-muted/50' : 'text-muted-foreground'}`}
+                      onClick={() => openDrilldown(cell, rowKey, columnKey)}
+                    >
+                      {formatMeasure(getPivotMeasureValue(cell, measure), measure)}
+                    </TableCell>
+                  );
+                })}
+                <TableCell
+                  className="text-right font-semibold whitespace-nowrap cursor-pointer hover:bg-muted/50"
+                  onClick={() => openDrilldown(pivot.rowTotals.get(rowKey), rowKey)}
+                >
+                  {formatMeasure(getPivotMeasureValue(pivot.rowTotals.get(rowKey), measure), measure)}
+                </TableCell>
+              </TableRow>
+            ))}
+            {pivot.rowKeys.length > 0 ? (
+              <TableRow className="bg-muted/30 font-bold">
+                <TableCell className="sticky left-0 bg-muted">합계</TableCell>
+                {showColumns && pivot.columnKeys.map(columnKey => (
+                  <TableCell key={columnKey} className="text-right whitespace-nowrap">
+                    {formatMeasure(getPivotMeasureValue(pivot.columnTotals.get(columnKey), measure), measure)}
+                  </TableCell>
+                ))}
+                <TableCell className="text-right whitespace-nowrap">
+                  {formatMeasure(getPivotMeasureValue(pivot.grandTotal, measure), measure)}
+                </TableCell>
+              </TableRow>
+            ) : (
+              <TableRow>
+                <TableCell colSpan={showColumns ? pivot.columnKeys.length + 2 : 2} className="text-center text-muted-foreground">
+                  집계할 분개가 없습니다.
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+      {pivot.rowKeys.length > MAX_DISPLAY_ROWS && (
+        <p className="text-xs text-muted-foreground">
+          {pivot.rowKeys.length.toLocaleString()}개 행 중 {MAX_DISPLAY_ROWS}개만 표시합니다. 전체는 엑셀 다운로드로 확인하세요.
+        </p>
+      )}
+
+      <Dialog open={drilldown !== null} onOpenChange={(open) => !open && setDrilldown(null)}>
+        <DialogContent className="max-w-5xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{drilldown?.title} 상세 내역</DialogTitle>
+          </DialogHeader>
+          {drilldown && (
+            <div className="space-y-3">
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-muted-foreground">
+                  {drilldown.cell.count.toLocaleString()}건 · 차변 {drilldown.cell.debit.toLocaleString()}원 · 대변 {drilldown.cell.credit.toLocaleString()}원
+                </span>
+                <Button variant="outline" size="sm" onClick={handleExportDrilldown}>
+                  <Download className="mr-2 h-4 w-4" />
+                  엑셀 다운로드
+                </Button>
+              </div>
+              <DataGrid
+                rows={drilldown.cell.entries}
+                columns={DRILLDOWN_COLUMNS}
+                getRowKey={getIndexRowKey}
+                height={480}
+                selectable
+              />
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -9,6 +9,7 @@ import { Upload, FileSpreadsheet, AlertCircle, Loader2 } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { LEDGER_FILE_ACCEPT } from '@/lib/ledgerFileImport';
 
 interface UploadZoneProps {
   onFileSelect: (file: File) => void;
@@ -57,7 +58,7 @@ const UploadZone: React.FC<UploadZoneProps> = ({
             type="file" 
             ref={inputRef} 
             className="hidden" 
-            accept=".xlsx, .xls, .csv" 
+            accept={LEDGER_FILE_ACCEPT} 
             onChange={(e) => {
               if (e.target.files && e.target.files[0]) {
                 onFileSelect(e.target.files[0]);
@@ -80,7 +81,7 @@ const UploadZone: React.FC<UploadZoneProps> = ({
               {description}
             </p>
             <div className="bg-muted text-muted-foreground px-4 py-2 rounded text-sm font-medium">
-              지원 형식: .xlsx, .xls (Header: 일자, 계정과목, 차변, 대변, 적요...)
+              지원 형식: .xlsx, .xls, .csv, .tsv, .txt, .prn (Header: 일자, 계정과목, 차변, 대변, 적요...)
             </div>
           </div>
         </CardContent>
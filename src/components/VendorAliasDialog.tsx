@@ -0,0 +1,286 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Check, GitMerge, Loader2, X } from 'lucide-react';
+import type { NormalizedLedger } from '@/lib/ledgerModel';
+import {
+  DEFAULT_VENDOR_SIMILARITY,
+  VENDOR_MERGE_REASON_LABELS,
+  clearRejectedVendorProposals,
+  confirmVendorAliases,
+  getVendorAliases,
+  getVendorStats,
+  proposeVendorMerges,
+  rejectVendorProposal,
+  removeVendorAlias,
+  type VendorMergeProposal,
+} from '@/lib/vendorResolution';
+
+interface VendorAliasDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  ledger: NormalizedLedger; // 별칭을 적용하기 전 원장 (원래 거래처명 기준으로 후보를 찾음)
+  onAliasesChange: () => void;
+}
+
+interface ProposalSelection {
+  canonical: string;
+  excluded: string[]; // 병합에서 뺀 후보 이름
+}
+
+const SIMILARITY_OPTIONS = [0.8, 0.85, 0.9, 0.95];
+
+export const VendorAliasDialog: React.FC<VendorAliasDialogProps> = ({
+  open,
+  onOpenChange,
+  ledger,
+  onAliasesChange,
+}) => {
+  const [minSimilarity, setMinSimilarity] = useState<number>(DEFAULT_VENDOR_SIMILARITY);
+  const [proposals, setProposals] = useState<VendorMergeProposal[]>([]);
+  const [isComputing, setIsComputing] = useState<boolean>(false);
+  const [selections, setSelections] = useState<Record<string, ProposalSelection>>({});
+  const [aliasSearch, setAliasSearch] = useState<string>('');
+  const [aliases, setAliases] = useState<Record<string, string>>(() => getVendorAliases());
+  const [revision, setRevision] = useState<number>(0); // 제외 목록 변경 시 후보 다시 계산
+
+  const vendorStats = useMemo(() => getVendorStats(ledger), [ledger]);
+
+  // 거래처가 많으면 후보 계산에 시간이 걸리므로 로딩 표시 후 다음 틱에 계산
+  useEffect(() => {
+    if (!open) return;
+    setIsComputing(true);
+    const timer = setTimeout(() => {
+      setProposals(proposeVendorMerges(vendorStats, minSimilarity));
+      setIsComputing(false);
+    }, 0);
+    return () => clearTimeout(timer);
+  }, [open, vendorStats, minSimilarity, aliases, revision]);
+
+  const aliasGroups = useMemo(() => {
+    const groups = new Map<string, string[]>();
+    Object.entries(aliases).forEach(([alias, canonical]) => {
+      const list = groups.get(canonical);
+      if (list) list.push(alias);
+      else groups.set(canonical, [alias]);
+    });
+    const term = aliasSearch.trim();
+    return Array.from(groups.entries())
+      .filter(([canonical, names]) => !term || canonical.includes(term) || names.some(name => name.includes(term)))
+      .sort((a, b) => a[0].localeCompare(b[0], 'ko'));
+  }, [aliases, aliasSearch]);
+
+  const getSelection = (proposal: VendorMergeProposal): ProposalSelection =>
+    selections[proposal.id] ?? { canonical: proposal.canonical, excluded: [] };
+
+  const updateSelection = (proposal: VendorMergeProposal, patch: Partial<ProposalSelection>) => {
+    setSelections(prev => ({ ...prev, [proposal.id]: { ...getSelection(proposal), ...patch } }));
+  };
+
+  const toggleMember = (proposal: VendorMergeProposal, name: string, included: boolean) => {
+    const { excluded } = getSelection(proposal);
+    updateSelection(proposal, {
+      excluded: included ? excluded.filter(n => n !== name) : [...excluded, name],
+    });
+  };
+
+  const handleConfirm = (proposal: VendorMergeProposal) => {
+    const { canonical, excluded } = getSelection(proposal);
+    const names = proposal.members.map(m => m.name).filter(name => !excluded.includes(name));
+    if (names.length < 2 || !names.includes(canonical)) return;
+    confirmVendorAliases(names, canonical);
+    setAliases(getVendorAliases());
+    onAliasesChange();
+  };
+
+  const handleReject = (proposal: VendorMergeProposal) => {
+    rejectVendorProposal(proposal.id);
+    setRevision(prev => prev + 1);
+  };
+
+  const handleRemoveAlias = (alias: string) => {
+    removeVendorAlias(alias);
+    setAliases(getVendorAliases());
+    onAliasesChange();
+  };
+
+  const handleResetRejections = () => {
+    clearRejectedVendorProposals();
+    setRevision(prev => prev + 1);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitMerge className="h-5 w-5" />
+            거래처 명칭 통합
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <p className="text-sm text-muted-foreground">
+            "㈜", "주식회사", "(주)" 같은 법인 표기와 공백·전각 문자를 지운 이름이 같거나, 편집 거리 유사도가 기준 이상인 거래처를 병합 후보로 제안합니다.
+            확정한 병합은 이중거래처, 상계 거래처, 중복 지급 등 거래처를 쓰는 모든 분석 화면에 적용되며 원본 행의 거래처명은 바뀌지 않습니다.
+          </p>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between gap-2">
+              <h4 className="text-sm font-semibold">
+                병합 후보 {isComputing ? '' : `(${proposals.length.toLocaleString()}건)`}
+              </h4>
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-muted-foreground">유사도 기준</span>
+                <Select value={String(minSimilarity)} onValueChange={(value) => setMinSimilarity(Number(value))}>
+                  <SelectTrigger className="h-8 w-[100px] text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SIMILARITY_OPTIONS.map(option => (
+                      <SelectItem key={option} value={String(option)}>{Math.round(option * 100)}% 이상</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="ghost" size="sm" onClick={handleResetRejections}>
+                  제외 목록 초기화
+                </Button>
+              </div>
+            </div>
+
+            {isComputing ? (
+              <div className="flex items-center justify-center gap-2 py-8 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                거래처 {vendorStats.length.toLocaleString()}곳을 비교하는 중...
+              </div>
+            ) : proposals.length === 0 ? (
+              <p className="py-6 text-center text-sm text-muted-foreground">검토할 병합 후보가 없습니다.</p>
+            ) : (
+              <div className="space-y-3">
+                {proposals.map(proposal => {
+                  const selection = getSelection(proposal);
+                  const includedCount = proposal.members.length - selection.excluded.length;
+                  return (
+                    <div key={proposal.id} className="rounded-lg border p-3 space-y-2">
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="flex items-center gap-2">
+                          <Badge variant={proposal.reason === 'normalized' ? 'secondary' : 'outline'} className="text-xs">
+                            {VENDOR_MERGE_REASON_LABELS[proposal.reason]}
+                          </Badge>
+                          {proposal.reason === 'similar' && (
+                            <span className="text-xs text-muted-foreground">유사도 {Math.round(proposal.similarity * 100)}%</span>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <span className="text-xs text-muted-foreground">대표 이름</span>
+                          <Select
+                            value={selection.canonical}
+                            onValueChange={(value) => updateSelection(proposal, { canonical: value })}
+                          >
+                            <SelectTrigger className="h-8 w-[200px] text-xs">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {proposal.members.map(member => (
+                                <SelectItem key={member.name} value={member.name}>{member.name}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <Button
+                            size="sm"
+                            onClick={() => handleConfirm(proposal)}
+                            disabled={includedCount < 2 || selection.excluded.includes(selection.canonical)}
+                          >
+                            <Check className="mr-1 h-4 w-4" />
+                            병합
+                          </Button>
+                          <Button size="sm" variant="outline" onClick={() => handleReject(proposal)}>
+                            <X className="mr-1 h-4 w-4" />
+                            제외
+                          </Button>
+                        </div>
+                      </div>
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-1">
+                        {proposal.members.map(member => (
+                          <label key={member.name} className="flex items-center gap-2 text-sm">
+                            <Checkbox
+                              checked={!selection.excluded.includes(member.name)}
+                              onCheckedChange={(checked) => toggleMember(proposal, member.name, checked === true)}
+                            />
+                            <span className={member.name === selection.canonical ? 'font-semibold' : ''}>{member.name}</span>
+                            <span className="text-xs text-muted-foreground">
+                              {member.count.toLocaleString()}건 · {member.amount.toLocaleString()}원
+                            </span>
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex items-center justify-between gap-2">
+              <h4 className="text-sm font-semibold">확정된 별칭 ({aliasGroups.length.toLocaleString()}개 거래처)</h4>
+              <Input
+                placeholder="거래처명 검색..."
+                value={aliasSearch}
+                onChange={(e) => setAliasSearch(e.target.value)}
+                className="h-8 w-[220px]"
+              />
+            </div>
+            <div className="border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[220px]">대표 이름</TableHead>
+                    <TableHead>병합된 이름</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {aliasGroups.length > 0 ? (
+                    aliasGroups.map(([canonical, names]) => (
+                      <TableRow key={canonical}>
+                        <TableCell className="font-medium">{canonical}</TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {names.map(alias => (
+                              <Badge key={alias} variant="secondary" className="gap-1 text-xs">
+                                {alias}
+                                <button
+                                  type="button"
+                                  className="ml-1 opacity-60 hover:opacity-100"
+                                  onClick={() => handleRemoveAlias(alias)}
+                                  aria-label={`${alias} 병합 해제`}
+                                >
+                                  <X className="h-3 w-3" />
+                                </button>
+                              </Badge>
+                            ))}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  ) : (
+                    <TableRow>
+                      <TableCell colSpan={2} className="text-center text-sm text-muted-foreground">
+                        확정된 별칭이 없습니다.
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,47 @@
+import * as React from "react";
+import {
+  parseLedgerFile,
+  type LedgerParseOptions,
+  type LedgerParseProgress,
+  type LedgerParseTask,
+} from "@/lib/ledgerParser";
+
+export interface LedgerParseStatus {
+  fileName: string;
+  progress: LedgerParseProgress;
+}
+
+/**
+ * 원장 파일을 Web Worker에서 파싱하고 진행 상태를 관리합니다. (한 번에 한 파일, 새 요청은 이전 요청을 취소)
+ */
+export function useLedgerParser() {
+  const [parseStatus, setParseStatus] = React.useState<LedgerParseStatus | null>(null);
+  const taskRef = React.useRef<LedgerParseTask | null>(null);
+
+  const parse = React.useCallback(async (file: File, options: Omit<LedgerParseOptions, "onProgress"> = {}) => {
+    taskRef.current?.cancel();
+    const task = parseLedgerFile(file, {
+      ...options,
+      onProgress: progress => setParseStatus({ fileName: file.name, progress }),
+    });
+    taskRef.current = task;
+    setParseStatus({ fileName: file.name, progress: { stage: "reading", ratio: 0 } });
+    try {
+      return await task.promise;
+    } finally {
+      if (taskRef.current === task) {
+        taskRef.current = null;
+        setParseStatus(null);
+      }
+    }
+  }, []);
+
+  const cancel = React.useCallback(() => {
+    taskRef.current?.cancel();
+  }, []);
+
+  // 화면을 떠나면 진행 중인 Worker 종료
+  React.useEffect(() => () => taskRef.current?.cancel(), []);
+
+  return { parseStatus, parse, cancel };
+}
@@ -14,59 +14,128 @@ export type Database = {
   }
   public: {
     Tables: {
+      engagements: {
+        Row: {
+          client_name: string
+          created_at: string
+          fiscal_year: number
+          id: string
+          memo: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          client_name: string
+          created_at?: string
+          fiscal_year: number
+          id?: string
+          memo?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          client_name?: string
+          created_at?: string
+          fiscal_year?: number
+          id?: string
+          memo?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       general_ledgers: {
         Row: {
+          column_mappings: Json | null
           created_at: string
           data: Json
+          engagement_id: string | null
           file_name: string
+          fiscal_year: number | null
           id: string
+          kind: string | null
+          storage_path: string | null
           upload_date: string
           user_id: string
         }
         Insert: {
+          column_mappings?: Json | null
           created_at?: string
-          data: Json
+          data?: Json
+          engagement_id?: string | null
           file_name: string
+          fiscal_year?: number | null
           id?: string
+          kind?: string | null
+          storage_path?: string | null
           upload_date?: string
           user_id: string
         }
         Update: {
+          column_mappings?: Json | null
           created_at?: string
           data?: Json
+          engagement_id?: string | null
           file_name?: string
+          fiscal_year?: number | null
           id?: string
+          kind?: string | null
+          storage_path?: string | null
           upload_date?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "general_ledgers_engagement_id_fkey"
+            columns: ["engagement_id"]
+            isOneToOne: false
+            referencedRelation: "engagements"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       ledger_analysis: {
         Row: {
           analysis_type: string
           created_at: string
+          engagement_id: string | null
           id: string
-          ledger_id: string
+          ledger_id: string | null
           result: Json
+          result_key: string
+          updated_at: string
           user_id: string
         }
         Insert: {
           analysis_type: string
           created_at?: string
+          engagement_id?: string | null
           id?: string
-          ledger_id: string
+          ledger_id?: string | null
           result: Json
+          result_key?: string
+          updated_at?: string
           user_id: string
         }
         Update: {
           analysis_type?: string
           created_at?: string
+          engagement_id?: string | null
           id?: string
-          ledger_id?: string
+          ledger_id?: string | null
           result?: Json
+          result_key?: string
+          updated_at?: string
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "ledger_analysis_engagement_id_fkey"
+            columns: ["engagement_id"]
+            isOneToOne: false
+            referencedRelation: "engagements"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "ledger_analysis_ledger_id_fkey"
             columns: ["ledger_id"]
@@ -3,6 +3,10 @@
  * Google AI Studio 프로젝트에서 통합
  */
 
+import type { JournalEntry } from '@/types/analysis';
+import { getEntryDate } from '@/lib/ledgerModel';
+import { classifyAccount } from '@/lib/chartOfAccounts';
+
 // 타입 정의
 export interface Transaction {
   accountName: string;
@@ -26,41 +30,10 @@ export const formatCurrency = (val: number): string => {
   return Math.round(val).toLocaleString('ko-KR');
 };
 
-// Helper: Check if account is SG&A (판관비)
-// Matches "(판)", "(8", "[8", "8xx" (starts with 8 followed by 2 digits)
-// Updated to be more robust with regex for (8xxxx) or [8xxxx]
-export const isSGAAccount = (name: string): boolean => {
-  const n = name.trim();
-  return n.includes('(판)') || 
-         n.includes('(8') || 
-         n.includes('[8') ||
-         /^8\d{2}/.test(n) ||
-         /[\(\[]8\d{2,}[\)\]]/.test(n);
-};
-
-// Helper: Check if account is Manufacturing Cost (제조원가)
-// Matches "(제)", "(5", "[5", "5xx" (starts with 5 followed by 2 digits)
-// Updated to be more robust with regex for (5xxxx) or [5xxxx]
-export const isManufacturingAccount = (name: string): boolean => {
-  const n = name.trim();
-  return n.includes('(제)') || 
-         n.includes('(5') || 
-         n.includes('[5') ||
-         /^5\d{2}/.test(n) ||
-         /[\(\[]5\d{2,}[\)\]]/.test(n);
-};
-
-// Helper: Check if account is Sales (매출)
-// Matches "매출", "수익", "(4", "[4", "4xx" (starts with 4 followed by 2 digits)
-export const isSalesAccount = (name: string): boolean => {
-  const n = name.trim();
-  return n.includes('매출') || 
-         n.includes('수익') || 
-         n.includes('(4') ||
-         n.includes('[4') ||
-         /^4\d{2}/.test(n) ||
-         /[\(\[]4\d{2,}[\)\]]/.test(n);
-};
+// Helper: 계정 분류 (chartOfAccounts 분류기 사용)
+const isSGAAccount = (name: string): boolean => classifyAccount(name).category === 'sga';
+const isManufacturingAccount = (name: string): boolean => classifyAccount(name).category === 'manufacturing';
+const isSalesAccount = (name: string): boolean => classifyAccount(name).category === 'revenue';
 
 // Helper: Check if account is Logistics/Freight related (운반비 등)
 // Used for specific correlation analysis
@@ -415,3 +388,17 @@ export const convertLedgerRowToTransaction = (
     description: String(description || '')
   };
 };
+
+// Helper: Convert normalized JournalEntry to Transaction
+export const convertJournalEntryToTransaction = (entry: JournalEntry): Transaction | null => {
+  const date = getEntryDate(entry);
+  if (!date) return null;
+
+  return {
+    accountName: entry.accountName,
+    date: `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`,
+    debit: entry.debit,
+    credit: entry.credit,
+    description: entry.description || ''
+  };
+};
@@ -0,0 +1,170 @@
+/**
+ * AI 분석 응답 스키마 (AI Output Schemas)
+ * Gemini·OpenAI 호환 모델이 돌려준 JSON을 zod 스키마로 검증합니다.
+ * 형식이 틀린 응답은 검증 오류를 프롬프트에 붙여 한 번 다시 받고(repair),
+ * 그래도 틀린 목록 항목은 화면에 그리지 않고 제외한 뒤 검증 문제(validationIssues)로 보여줍니다.
+ */
+
+import { z } from 'zod';
+import type {
+  AppropriatenessAnalysisResult,
+  FlaggedItem,
+  GeneralAnalysisResult,
+  HolidayAnalysisResult,
+} from '@/types/analysis';
+
+/** 스키마 입력은 JSON.parse 결과(unknown), 출력은 분석 결과 타입 */
+export type AiOutputSchema<T> = z.ZodType<T, z.ZodTypeDef, unknown>;
+
+export interface AiOutputValidation<T> {
+  data: T | null; // 검증 통과 시 결과
+  value: unknown; // JSON 파싱 결과 (파싱 실패 시 undefined)
+  issues: string[]; // 예: 'flaggedItems[3].amount: 숫자 값이 없습니다.'
+}
+
+export interface SalvagedAiOutput<T> {
+  data: T;
+  issues: string[];
+}
+
+const MAX_REPAIR_RESPONSE_LENGTH = 4000;
+
+// strictNullChecks가 꺼진 설정에서는 zod가 모든 필드를 optional로 추론하므로 결과 타입을 직접 지정
+const defineSchema = <T>(schema: z.ZodTypeAny): AiOutputSchema<T> => schema as AiOutputSchema<T>;
+
+const scoreSchema = z
+  .number({ required_error: '점수가 없습니다.', invalid_type_error: '점수가 숫자가 아닙니다.' })
+  .min(0, '0~100 범위를 벗어났습니다.')
+  .max(100, '0~100 범위를 벗어났습니다.');
+
+const requiredText = z
+  .string({ required_error: '값이 없습니다.', invalid_type_error: '문자열이 아닙니다.' })
+  .trim()
+  .min(1, '비어 있습니다.');
+
+// 모델이 "150,000원"처럼 문자열로 준 금액은 숫자로 바꾸고, 없거나 숫자가 아니면 오류
+const amountSchema = z.preprocess(
+  value => (typeof value === 'string' && value.trim() ? Number(value.replace(/[,\s원]/g, '')) : value),
+  z.number({ required_error: '금액이 없습니다.', invalid_type_error: '금액이 숫자가 아닙니다.' }).finite('금액이 숫자가 아닙니다.')
+);
+
+export const generalAnalysisSchema = defineSchema<GeneralAnalysisResult>(z.object({
+  riskScore: scoreSchema,
+  content: requiredText,
+}));
+
+const holidayItemSchema: AiOutputSchema<string> = requiredText;
+
+export const holidayAnalysisSchema = defineSchema<HolidayAnalysisResult>(z.object({
+  items: z.array(holidayItemSchema),
+}));
+
+export const flaggedItemSchema = defineSchema<FlaggedItem>(z.object({
+  date: requiredText,
+  accountName: requiredText,
+  description: z.string({ required_error: '적요가 없습니다.', invalid_type_error: '문자열이 아닙니다.' }),
+  amount: amountSchema,
+  reason: requiredText,
+  recommendedAccount: z.string().nullable().optional(),
+}));
+
+export const appropriatenessAnalysisSchema = defineSchema<AppropriatenessAnalysisResult>(z.object({
+  score: scoreSchema,
+  flaggedItems: z.array(flaggedItemSchema),
+}));
+
+export const minAmountSuggestionSchema = defineSchema<{ suggestedMinAmount?: number; reason?: string }>(z.object({
+  suggestedMinAmount: amountSchema.pipe(z.number().positive('0보다 커야 합니다.')).optional(),
+  reason: z.string().optional(),
+}));
+
+const formatPath = (path: (string | number)[]): string =>
+  path.reduce<string>(
+    (acc, key) => (typeof key === 'number' ? `${acc}[${key}]` : acc ? `${acc}.${key}` : key),
+    ''
+  ) || '(전체)';
+
+export const formatAiIssues = (error: z.ZodError, pathPrefix: (string | number)[] = []): string[] =>
+  error.issues.map(issue => `${formatPath([...pathPrefix, ...issue.path])}: ${issue.message}`);
+
+// ```json ... ``` 코드 블록으로 감싼 응답도 허용
+const stripCodeFence = (text: string): string => {
+  const match = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+  return match ? match[1] : text;
+};
+
+/**
+ * 모델 응답 텍스트를 JSON으로 파싱하고 스키마로 검증합니다.
+ */
+export const validateAiOutput = <T>(text: string, schema: AiOutputSchema<T>): AiOutputValidation<T> => {
+  let value: unknown;
+  try {
+    value = JSON.parse(stripCodeFence(text));
+  } catch (error) {
+    return {
+      data: null,
+      value: undefined,
+      issues: [`(전체): JSON 형식이 아닙니다. (${error instanceof Error ? error.message : String(error)})`],
+    };
+  }
+
+  const result = schema.safeParse(value);
+  return result.success
+    ? { data: result.data, value, issues: [] }
+    : { data: null, value, issues: formatAiIssues(result.error) };
+};
+
+/**
+ * 검증에 실패한 응답과 오류 목록을 원래 프롬프트에 덧붙인 재요청(repair) 프롬프트
+ */
+export const buildRepairPrompt = (prompt: string, response: string, issues: string[]): string => `${prompt}
+
+Your previous response did not pass validation against the required JSON format.
+
+Previous response:
+${response.slice(0, MAX_REPAIR_RESPONSE_LENGTH)}
+
+Validation errors:
+${issues.map(issue => `- ${issue}`).join('\n')}
+
+Return the corrected JSON only, in exactly the format requested above. Do not add explanations.`;
+
+/**
+ * 목록 항목을 하나씩 검증해 통과한 항목과 제외한 항목의 문제를 나눕니다.
+ */
+const salvageItems = <T>(
+  items: unknown[],
+  schema: AiOutputSchema<T>,
+  field: string
+): SalvagedAiOutput<T[]> => {
+  const data: T[] = [];
+  const issues: string[] = [];
+  items.forEach((item, index) => {
+    const result = schema.safeParse(item);
+    if (result.success) data.push(result.data);
+    else issues.push(...formatAiIssues(result.error, [field, index]).map(issue => `${issue} (항목 제외)`));
+  });
+  return { data, issues };
+};
+
+/**
+ * 휴일 분석 응답에서 형식이 맞는 항목만 남깁니다. items 배열이 없으면 살릴 수 없으므로 null입니다.
+ */
+export const salvageHolidayAnalysis = (value: unknown): SalvagedAiOutput<HolidayAnalysisResult> | null => {
+  const result = z.object({ items: z.array(z.unknown()) }).safeParse(value);
+  if (!result.success) return null;
+  const items = salvageItems(result.data.items, holidayItemSchema, 'items');
+  return { data: { items: items.data }, issues: items.issues };
+};
+
+/**
+ * 적요 적합성 응답에서 형식이 맞는 의심 항목만 남깁니다. 점수가 틀리면 살릴 수 없으므로 null입니다.
+ */
+export const salvageAppropriatenessAnalysis = (
+  value: unknown
+): SalvagedAiOutput<AppropriatenessAnalysisResult> | null => {
+  const result = z.object({ score: scoreSchema, flaggedItems: z.array(z.unknown()) }).safeParse(value);
+  if (!result.success) return null;
+  const items = salvageItems(result.data.flaggedItems, flaggedItemSchema, 'flaggedItems');
+  return { data: { score: result.data.score, flaggedItems: items.data }, issues: items.issues };
+};
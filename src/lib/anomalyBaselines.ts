@@ -0,0 +1,286 @@
+/**
+ * 계정·거래처별 기준선 이상 탐지 (Robust Baseline Anomaly Scoring)
+ * 전체 금액의 평균/표준편차 하나로 판단하면 금액이 큰 계정 하나가 결과를 좌우하므로,
+ * 계정별·계정+거래처별로 로그 금액의 중앙값/MAD 기준선을 따로 세우고 각 거래를 자기 기준선과 비교합니다.
+ * 금액 점수는 수정 Z-점수(0.6745 × (x − 중앙값) ÷ MAD, Iglewicz & Hoaglin, 1993)이며,
+ * 거래처의 평소 거래 간격(중앙값)보다 훨씬 짧은 간격으로 다시 기록된 거래는 시점 이상으로 표시합니다.
+ */
+
+import type { JournalEntry } from '@/types/analysis';
+import { normalizeDateKey } from './holidayCalendar';
+
+export type BaselineKind = 'account' | 'vendor' | 'timing';
+
+export interface BaselineOptions {
+  zThreshold: number; // 수정 Z-점수 절대값이 이 값 이상이면 금액 이상
+  minBaselineCount: number; // 기준선을 세우는 최소 거래 건수 (적으면 중앙값이 불안정)
+  timingRatio: number; // 직전 거래와의 간격이 평소 간격 × 이 비율 이하이면 시점 이상
+  minTypicalIntervalDays: number; // 평소 간격이 이 일수 미만인 (수시 거래) 거래처는 시점 검사 제외
+  minTimingIntervals: number; // 평소 간격을 계산하는 최소 간격 수
+}
+
+/**
+ * 기준선 비교 대상 거래 (원본 행 또는 분개 항목에서 변환)
+ */
+export interface BaselineObservation {
+  amount: number;
+  account: string;
+  vendor: string;
+  dateKey: string | null; // YYYY-MM-DD
+}
+
+export interface AmountBaseline {
+  key: string;
+  count: number;
+  median: number; // 금액 중앙값 (원)
+  logMedian: number;
+  logScale: number; // 로그 금액의 척도 (MAD ÷ 0.6745, MAD가 0이면 평균절대편차 × 1.2533)
+  lower: number; // 정상 범위 하한 (원)
+  upper: number; // 정상 범위 상한 (원)
+}
+
+export interface TimingBaseline {
+  key: string;
+  account: string;
+  vendor: string;
+  dates: string[]; // 거래일 (중복 제거, 오름차순)
+  medianIntervalDays: number;
+}
+
+export interface BaselineModel {
+  accounts: Map<string, AmountBaseline>;
+  vendors: Map<string, AmountBaseline>; // 계정 + 거래처 (같은 거래처라도 비용·부가세·채무 라인의 금액 분포가 다름)
+  timing: Map<string, TimingBaseline>; // 계정 + 거래처 (같은 거래처라도 청구와 지급 주기가 다름)
+}
+
+export interface BaselineBreach {
+  kind: BaselineKind;
+  group: string; // 계정과목 또는 거래처
+  expected: number; // 금액 기준선은 중앙값(원), 시점 기준선은 평소 간격(일)
+  actual: number; // 금액 또는 직전 거래와의 간격(일)
+  score: number; // 금액은 수정 Z-점수, 시점은 평소 간격 ÷ 실제 간격
+  description: string;
+}
+
+export const BASELINE_KIND_LABELS: Record<BaselineKind, string> = {
+  account: '계정 금액',
+  vendor: '거래처 금액',
+  timing: '거래처 주기',
+};
+
+export const DEFAULT_BASELINE_OPTIONS: BaselineOptions = {
+  zThreshold: 3.5,
+  minBaselineCount: 8,
+  timingRatio: 0.25,
+  minTypicalIntervalDays: 7,
+  minTimingIntervals: 3,
+};
+
+const MAD_SCALE = 0.6745; // 정규분포에서 MAD ÷ 표준편차
+const MEAN_AD_SCALE = 1.253314; // 정규분포에서 표준편차 ÷ 평균절대편차
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const median = (sorted: number[]): number => {
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+const toDayNumber = (dateKey: string): number => {
+  const [y, m, d] = dateKey.split('-').map(Number);
+  return Math.round(Date.UTC(y, m - 1, d) / DAY_MS);
+};
+
+const formatRatio = (ratio: number): string => (ratio >= 10 ? ratio.toFixed(0) : ratio.toFixed(1));
+
+/**
+ * 분개 항목의 비교 금액 (차변/대변 중 큰 쪽의 절대값)
+ */
+export const getBaselineAmount = (entry: JournalEntry): number =>
+  Math.max(Math.abs(entry.debit || 0), Math.abs(entry.credit || 0));
+
+export const toBaselineObservation = (entry: JournalEntry): BaselineObservation => ({
+  amount: getBaselineAmount(entry),
+  account: entry.accountName || '',
+  vendor: String(entry.vendor || '').trim(),
+  dateKey: normalizeDateKey(entry.date),
+});
+
+/**
+ * 금액 목록으로 로그 스케일 중앙값/MAD 기준선을 만듭니다. 0 이하 금액은 제외합니다.
+ */
+export const buildAmountBaseline = (
+  key: string,
+  amounts: number[],
+  zThreshold: number = DEFAULT_BASELINE_OPTIONS.zThreshold
+): AmountBaseline | null => {
+  const logs = amounts.filter(a => a > 0).map(a => Math.log10(a)).sort((a, b) => a - b);
+  if (logs.length === 0) return null;
+
+  const logMedian = median(logs);
+  const deviations = logs.map(v => Math.abs(v - logMedian)).sort((a, b) => a - b);
+  const mad = median(deviations);
+  const logScale = mad > 0
+    ? mad / MAD_SCALE
+    : (deviations.reduce((sum, v) => sum + v, 0) / deviations.length) * MEAN_AD_SCALE;
+
+  return {
+    key,
+    count: logs.length,
+    median: Math.pow(10, logMedian),
+    logMedian,
+    logScale,
+    lower: Math.pow(10, logMedian - zThreshold * logScale),
+    upper: Math.pow(10, logMedian + zThreshold * logScale),
+  };
+};
+
+/**
+ * 기준선 대비 수정 Z-점수. 척도가 0이면 (모든 금액이 같으면) 0입니다.
+ */
+export const getRobustZScore = (amount: number, baseline: AmountBaseline): number => {
+  if (amount <= 0 || baseline.logScale === 0) return 0;
+  return (Math.log10(amount) - baseline.logMedian) / baseline.logScale;
+};
+
+const groupAmounts = (observations: BaselineObservation[], keyOf: (o: BaselineObservation) => string) => {
+  const groups = new Map<string, number[]>();
+  observations.forEach(o => {
+    const key = keyOf(o);
+    if (!key || o.amount <= 0) return;
+    const list = groups.get(key);
+    if (list) list.push(o.amount);
+    else groups.set(key, [o.amount]);
+  });
+  return groups;
+};
+
+/**
+ * 거래처 금액·주기 기준선의 키 (계정 + 거래처)
+ */
+export const getAccountVendorKey = (account: string, vendor: string): string => `${account}\u0000${vendor}`;
+
+/**
+ * 모집단 거래로 계정별·계정+거래처별 금액 기준선과 계정+거래처별 거래 주기 기준선을 만듭니다.
+ * 건수가 minBaselineCount 미만인 그룹은 기준선을 만들지 않습니다.
+ */
+export const buildBaselineModel = (
+  observations: BaselineObservation[],
+  options: BaselineOptions = DEFAULT_BASELINE_OPTIONS
+): BaselineModel => {
+  const toBaselines = (groups: Map<string, number[]>) => {
+    const baselines = new Map<string, AmountBaseline>();
+    groups.forEach((amounts, key) => {
+      if (amounts.length < options.minBaselineCount) return;
+      const baseline = buildAmountBaseline(key, amounts, options.zThreshold);
+      if (baseline) baselines.set(key, baseline);
+    });
+    return baselines;
+  };
+
+  const dateGroups = new Map<string, { account: string; vendor: string; dates: Set<string> }>();
+  observations.forEach(o => {
+    if (!o.vendor || !o.dateKey) return;
+    const key = getAccountVendorKey(o.account, o.vendor);
+    const group = dateGroups.get(key);
+    if (group) group.dates.add(o.dateKey);
+    else dateGroups.set(key, { account: o.account, vendor: o.vendor, dates: new Set([o.dateKey]) });
+  });
+
+  const timing = new Map<string, TimingBaseline>();
+  dateGroups.forEach((group, key) => {
+    const dates = Array.from(group.dates).sort();
+    if (dates.length - 1 < options.minTimingIntervals) return;
+    const intervals: number[] = [];
+    for (let i = 1; i < dates.length; i++) {
+      intervals.push(toDayNumber(dates[i]) - toDayNumber(dates[i - 1]));
+    }
+    intervals.sort((a, b) => a - b);
+    timing.set(key, { key, account: group.account, vendor: group.vendor, dates, medianIntervalDays: median(intervals) });
+  });
+
+  return {
+    accounts: toBaselines(groupAmounts(observations, o => o.account)),
+    vendors: toBaselines(groupAmounts(observations, o => (o.vendor ? getAccountVendorKey(o.account, o.vendor) : ''))),
+    timing,
+  };
+};
+
+const checkAmount = (
+  kind: 'account' | 'vendor',
+  group: string,
+  amount: number,
+  baseline: AmountBaseline | undefined,
+  zThreshold: number
+): BaselineBreach | null => {
+  if (!baseline) return null;
+  const score = getRobustZScore(amount, baseline);
+  if (Math.abs(score) < zThreshold) return null;
+  const ratio = amount / baseline.median;
+  const direction = ratio >= 1 ? `${formatRatio(ratio)}배` : `1/${formatRatio(1 / ratio)}`;
+  return {
+    kind,
+    group,
+    expected: baseline.median,
+    actual: amount,
+    score,
+    description: `${BASELINE_KIND_LABELS[kind]} 기준 이탈: 중앙값 ${Math.round(baseline.median).toLocaleString()}원의 ${direction} (Z ${score.toFixed(1)}, ${baseline.count.toLocaleString()}건 기준)`,
+  };
+};
+
+const checkTiming = (
+  observation: BaselineObservation,
+  baseline: TimingBaseline | undefined,
+  options: BaselineOptions
+): BaselineBreach | null => {
+  if (!baseline || !observation.dateKey) return null;
+  if (baseline.medianIntervalDays < options.minTypicalIntervalDays) return null;
+
+  // 직전 거래일 (같은 날 여러 건은 한 번의 거래로 봄)
+  const { dates } = baseline;
+  let lo = 0;
+  let hi = dates.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (dates[mid] < observation.dateKey) lo = mid + 1;
+    else hi = mid;
+  }
+  if (lo === 0) return null;
+
+  const gap = toDayNumber(observation.dateKey) - toDayNumber(dates[lo - 1]);
+  if (gap > baseline.medianIntervalDays * options.timingRatio) return null;
+
+  return {
+    kind: 'timing',
+    group: baseline.vendor,
+    expected: baseline.medianIntervalDays,
+    actual: gap,
+    score: baseline.medianIntervalDays / Math.max(gap, 1),
+    description: `${BASELINE_KIND_LABELS.timing} 기준 이탈: 평소 ${Math.round(baseline.medianIntervalDays)}일 간격인데 직전 거래(${dates[lo - 1]}) 후 ${gap}일 만에 기록`,
+  };
+};
+
+/**
+ * 거래 하나를 계정·거래처 금액 기준선과 거래처 주기 기준선에 비교해 벗어난 기준선 목록을 반환합니다.
+ */
+export const evaluateBaselines = (
+  observation: BaselineObservation,
+  model: BaselineModel,
+  options: BaselineOptions = DEFAULT_BASELINE_OPTIONS
+): BaselineBreach[] => {
+  if (observation.amount <= 0) return [];
+  return [
+    checkAmount('account', observation.account, observation.amount, model.accounts.get(observation.account), options.zThreshold),
+    observation.vendor
+      ? checkAmount(
+        'vendor',
+        observation.vendor,
+        observation.amount,
+        model.vendors.get(getAccountVendorKey(observation.account, observation.vendor)),
+        options.zThreshold
+      )
+      : null,
+    observation.vendor
+      ? checkTiming(observation, model.timing.get(getAccountVendorKey(observation.account, observation.vendor)), options)
+      : null,
+  ].filter((breach): breach is BaselineBreach => breach !== null);
+};
@@ -0,0 +1,135 @@
+/**
+ * 속성 표본추출 (Attribute Sampling)
+ * 통제 테스트용으로 예상 일탈률·허용 일탈률·신뢰수준에서 AICPA 감사표본 지침 표와 같은 방식(이항분포)으로
+ * 표본 크기를 정하고, 표본별 일탈 여부로 모집단 일탈률 상한(UDL)을 구해 허용 일탈률과 비교합니다.
+ */
+
+export type AttributeTestResult = 'pending' | 'pass' | 'deviation';
+export type AttributeConclusion = 'rely' | 'notRely';
+
+export interface AttributeSampleSize {
+  sampleSize: number;
+  expectedDeviations: number; // 표본 크기를 정할 때 허용한 일탈 건수 (표의 괄호 안 숫자)
+}
+
+export interface AttributeSampleSizeRow {
+  expectedRate: number;
+  sizes: (AttributeSampleSize | null)[]; // ATTRIBUTE_TOLERABLE_RATES 순서, null = 표본이 너무 커 비효율적
+}
+
+export interface AttributeEvaluationOptions {
+  tolerableRate: number; // 허용 일탈률 (%)
+  confidenceLevel: number; // 90 / 95 / 99 등 (%)
+}
+
+export interface AttributeEvaluationResult extends AttributeEvaluationOptions {
+  sampleSize: number;
+  deviationCount: number;
+  sampleDeviationRate: number; // 표본 일탈률 (%)
+  upperDeviationLimit: number; // 모집단 일탈률 상한 (%, 소수 첫째 자리 올림)
+  allowanceForSamplingRisk: number; // 일탈률 상한 - 표본 일탈률 (%)
+  conclusion: AttributeConclusion;
+}
+
+// 표의 행(예상 일탈률)과 열(허용 일탈률), 단위 %
+export const ATTRIBUTE_EXPECTED_RATES = [0, 0.25, 0.5, 0.75, 1, 1.25, 1.5, 1.75, 2, 2.25, 2.5, 2.75, 3, 3.25, 3.5, 3.75, 4, 5, 6, 7];
+export const ATTRIBUTE_TOLERABLE_RATES = [2, 3, 4, 5, 6, 7, 8, 9, 10, 15, 20];
+
+// 이보다 큰 표본은 표에서 "*" (비용 대비 효율적이지 않음)
+export const MAX_ATTRIBUTE_SAMPLE_SIZE = 500;
+
+export const ATTRIBUTE_TEST_RESULT_LABELS: Record<AttributeTestResult, string> = {
+  pending: '미검토',
+  pass: '적합',
+  deviation: '일탈',
+};
+
+export const ATTRIBUTE_CONCLUSION_LABELS: Record<AttributeConclusion, string> = {
+  rely: '통제 의존 가능 (일탈률 상한 ≤ 허용 일탈률)',
+  notRely: '통제 의존 불가 (일탈률 상한 > 허용 일탈률)',
+};
+
+// 이항 누적확률 P(X ≤ k; n, p)
+const binomialCdf = (k: number, n: number, p: number): number => {
+  if (k >= n || p <= 0) return 1;
+  if (p >= 1) return 0;
+  let term = Math.pow(1 - p, n);
+  let sum = term;
+  for (let i = 0; i < k; i++) {
+    term *= ((n - i) / (i + 1)) * (p / (1 - p));
+    sum += term;
+  }
+  return sum;
+};
+
+/**
+ * 표본 크기 (예: 95% 신뢰수준, 예상 1%, 허용 5% → 93건, 허용 일탈 1건)
+ * 예상 일탈 건수(표본 × 예상 일탈률, 올림)가 나와도 일탈률 상한이 허용 일탈률 이하가 되는 최소 표본입니다.
+ * @returns 예상 일탈률이 허용 일탈률 이상이거나 표본이 MAX_ATTRIBUTE_SAMPLE_SIZE를 넘으면 null
+ */
+export const getAttributeSampleSize = (
+  expectedRate: number,
+  tolerableRate: number,
+  confidenceLevel: number
+): AttributeSampleSize | null => {
+  const risk = 1 - confidenceLevel / 100;
+  if (risk <= 0 || risk >= 1 || tolerableRate <= 0 || expectedRate < 0 || expectedRate >= tolerableRate) return null;
+  for (let n = 1; n <= MAX_ATTRIBUTE_SAMPLE_SIZE; n++) {
+    const expectedDeviations = Math.max(0, Math.ceil((n * expectedRate) / 100 - 1e-9));
+    if (binomialCdf(expectedDeviations, n, tolerableRate / 100) <= risk) {
+      return { sampleSize: n, expectedDeviations };
+    }
+  }
+  return null;
+};
+
+/**
+ * 신뢰수준별 표본 크기 표 (행: 예상 일탈률, 열: 허용 일탈률)
+ */
+export const buildAttributeSampleSizeTable = (confidenceLevel: number): AttributeSampleSizeRow[] =>
+  ATTRIBUTE_EXPECTED_RATES.map(expectedRate => ({
+    expectedRate,
+    sizes: ATTRIBUTE_TOLERABLE_RATES.map(tolerableRate =>
+      getAttributeSampleSize(expectedRate, tolerableRate, confidenceLevel)
+    ),
+  }));
+
+/**
+ * 모집단 일탈률 상한 (%, 소수 첫째 자리 올림)
+ * 일탈 건수가 그 이하일 확률이 위험(1 - 신뢰수준)과 같아지는 일탈률입니다.
+ */
+export const getUpperDeviationLimit = (sampleSize: number, deviationCount: number, confidenceLevel: number): number => {
+  const risk = 1 - confidenceLevel / 100;
+  if (sampleSize <= 0 || deviationCount >= sampleSize || risk <= 0 || risk >= 1) return 100;
+  let low = deviationCount / sampleSize;
+  let high = 1;
+  for (let i = 0; i < 100; i++) {
+    const mid = (low + high) / 2;
+    if (binomialCdf(deviationCount, sampleSize, mid) > risk) low = mid;
+    else high = mid;
+  }
+  return Math.min(100, Math.ceil(high * 1000 - 1e-6) / 10);
+};
+
+/**
+ * 검토를 마친 표본을 평가합니다. 일탈률 상한이 허용 일탈률 이하이면 통제에 의존할 수 있습니다.
+ * @param results 표본별 검토 결과 ('pending'이 없어야 함)
+ */
+export const evaluateAttributeSample = (
+  results: AttributeTestResult[],
+  options: AttributeEvaluationOptions
+): AttributeEvaluationResult => {
+  const sampleSize = results.length;
+  const deviationCount = results.filter(result => result === 'deviation').length;
+  const sampleDeviationRate = sampleSize > 0 ? (deviationCount / sampleSize) * 100 : 0;
+  const upperDeviationLimit = getUpperDeviationLimit(sampleSize, deviationCount, options.confidenceLevel);
+  return {
+    ...options,
+    sampleSize,
+    deviationCount,
+    sampleDeviationRate,
+    upperDeviationLimit,
+    allowanceForSamplingRisk: upperDeviationLimit - sampleDeviationRate,
+    conclusion: upperDeviationLimit <= options.tolerableRate ? 'rely' : 'notRely',
+  };
+};
@@ -0,0 +1,229 @@
+/**
+ * 벤포드 법칙 검정 (Nigrini Benford Tests)
+ * 첫째 자리, 둘째 자리, 처음 두 자리(10~99), 마지막 두 자리(00~99), 합계 검정을 수행하고
+ * 검정마다 평균절대편차(MAD) 적합도 등급, 카이제곱, 숫자별 Z 통계량을 계산합니다.
+ * 첫째 자리는 1 이상, 나머지 검정은 10 이상 금액만 사용합니다. (Nigrini, Benford's Law, 2012)
+ */
+
+export type BenfordTestType = 'firstDigit' | 'secondDigit' | 'firstTwo' | 'lastTwo' | 'summation';
+export type BenfordConformity = 'close' | 'acceptable' | 'marginal' | 'nonconformity';
+
+export interface BenfordDigitResult {
+  digit: number; // 첫째·둘째 자리 0~9, 처음 두 자리·합계 10~99, 마지막 두 자리 0~99
+  label: string; // 표시용 (마지막 두 자리는 "05"처럼 두 자리)
+  count: number;
+  amount: number; // 해당 숫자 금액 합계
+  actual: number; // 실제 비율 (합계 검정은 금액 비율)
+  expected: number; // 기대 비율
+  difference: number; // 실제 - 기대
+  zStatistic: number;
+  significant: boolean; // Z > 1.96 (유의수준 5%), 합계 검정은 금액 비율이 기대의 2배 이상
+}
+
+export interface BenfordTestResult {
+  test: BenfordTestType;
+  total: number; // 검정에 사용한 건수
+  totalAmount: number;
+  digits: BenfordDigitResult[];
+  mad: number;
+  conformity: BenfordConformity | null; // Nigrini MAD 기준이 없는 검정(마지막 두 자리·합계)은 null
+  chiSquare: number;
+  chiSquareCritical: number; // 자유도(숫자 개수 - 1), 유의수준 5% 임계값
+  chiSquareSignificant: boolean;
+}
+
+export interface BenfordDeviationRank {
+  group: string;
+  result: BenfordTestResult;
+  spike: BenfordDigitResult | null; // Z 통계량이 가장 큰 숫자
+}
+
+export const BENFORD_TEST_TYPES: BenfordTestType[] = ['firstDigit', 'secondDigit', 'firstTwo', 'lastTwo', 'summation'];
+
+export const BENFORD_TEST_LABELS: Record<BenfordTestType, string> = {
+  firstDigit: '첫째 자리',
+  secondDigit: '둘째 자리',
+  firstTwo: '처음 두 자리',
+  lastTwo: '마지막 두 자리',
+  summation: '합계 검정',
+};
+
+export const BENFORD_CONFORMITY_LABELS: Record<BenfordConformity, string> = {
+  close: '적합 (Close conformity)',
+  acceptable: '허용 가능 (Acceptable)',
+  marginal: '경계 (Marginally acceptable)',
+  nonconformity: '부적합 (Nonconformity)',
+};
+
+// 적합도 등급이 없는 검정의 표시 문구
+export const BENFORD_NO_CONFORMITY_LABEL = '등급 기준 없음 (MAD 참고값)';
+
+// MAD 등급 경계 [적합, 허용 가능, 경계] (Nigrini 2012)
+// 마지막 두 자리·합계 검정은 발표된 기준이 없어 등급을 매기지 않고 MAD를 참고값으로만 표시합니다.
+export const BENFORD_MAD_THRESHOLDS: Partial<Record<BenfordTestType, [number, number, number]>> = {
+  firstDigit: [0.006, 0.012, 0.015],
+  secondDigit: [0.008, 0.01, 0.012],
+  firstTwo: [0.0012, 0.0018, 0.0022],
+};
+
+// 카이제곱 임계값 (유의수준 5%, 자유도별)
+const CHI_SQUARE_CRITICAL: Record<number, number> = {
+  8: 15.507,
+  9: 16.919,
+  89: 112.022,
+  99: 123.225,
+};
+
+const Z_CRITICAL = 1.96;
+// 합계 검정은 큰 금액 몇 건으로도 비율이 크게 움직여 Z 대신 기대 비율 대비 배수로 급증 여부를 봅니다.
+const SUMMATION_SPIKE_RATIO = 2;
+
+// 검정별 숫자 범위
+const getDigitRange = (test: BenfordTestType): number[] => {
+  if (test === 'firstDigit') return Array.from({ length: 9 }, (_, i) => i + 1);
+  if (test === 'secondDigit') return Array.from({ length: 10 }, (_, i) => i);
+  if (test === 'lastTwo') return Array.from({ length: 100 }, (_, i) => i);
+  return Array.from({ length: 90 }, (_, i) => i + 10);
+};
+
+// 벤포드 기대 비율
+const getExpectedProportion = (test: BenfordTestType, digit: number): number => {
+  if (test === 'firstDigit' || test === 'firstTwo') return Math.log10(1 + 1 / digit);
+  if (test === 'secondDigit') {
+    let sum = 0;
+    for (let first = 1; first <= 9; first++) sum += Math.log10(1 + 1 / (first * 10 + digit));
+    return sum;
+  }
+  if (test === 'lastTwo') return 1 / 100;
+  return 1 / 90; // 합계 검정: 처음 두 자리별 금액 합계가 같음
+};
+
+/**
+ * 검정에 쓰는 숫자를 꺼냅니다. 검정 대상이 아닌 금액(음수·0, 두 자리 검정의 10 미만)은 null.
+ */
+export const getBenfordDigit = (amount: number, test: BenfordTestType): number | null => {
+  const minimum = test === 'firstDigit' ? 1 : 10;
+  if (!isFinite(amount) || amount < minimum) return null;
+  const integer = Math.floor(amount).toFixed(0);
+  if (test === 'firstDigit') return Number(integer[0]);
+  if (test === 'secondDigit') return Number(integer[1]);
+  if (test === 'lastTwo') return Number(integer.slice(-2));
+  return Number(integer.slice(0, 2));
+};
+
+export const formatBenfordConformity = (conformity: BenfordConformity | null): string =>
+  conformity ? BENFORD_CONFORMITY_LABELS[conformity] : BENFORD_NO_CONFORMITY_LABEL;
+
+export const formatBenfordDigit = (digit: number, test: BenfordTestType): string =>
+  test === 'lastTwo' ? String(digit).padStart(2, '0') : String(digit);
+
+// 비율 Z 통계량 (연속성 수정, Nigrini)
+const getZStatistic = (actual: number, expected: number, total: number): number => {
+  if (total === 0 || expected <= 0 || expected >= 1) return 0;
+  const diff = Math.abs(actual - expected);
+  const correction = 1 / (2 * total);
+  const numerator = correction < diff ? diff - correction : diff;
+  return numerator / Math.sqrt((expected * (1 - expected)) / total);
+};
+
+export const getBenfordConformity = (mad: number, test: BenfordTestType): BenfordConformity | null => {
+  const thresholds = BENFORD_MAD_THRESHOLDS[test];
+  if (!thresholds) return null;
+  const [close, acceptable, marginal] = thresholds;
+  if (mad <= close) return 'close';
+  if (mad <= acceptable) return 'acceptable';
+  if (mad <= marginal) return 'marginal';
+  return 'nonconformity';
+};
+
+/**
+ * 금액 목록으로 한 가지 검정을 수행합니다.
+ * 합계 검정의 카이제곱·Z는 금액 비율에 건수를 적용한 참고값입니다.
+ */
+export const runBenfordTest = (amounts: number[], test: BenfordTestType): BenfordTestResult => {
+  const range = getDigitRange(test);
+  const offset = range[0];
+  const counts = new Array(range.length).fill(0);
+  const sums = new Array(range.length).fill(0);
+  let total = 0;
+  let totalAmount = 0;
+
+  amounts.forEach(amount => {
+    const digit = getBenfordDigit(amount, test);
+    if (digit === null) return;
+    counts[digit - offset]++;
+    sums[digit - offset] += amount;
+    total++;
+    totalAmount += amount;
+  });
+
+  const digits: BenfordDigitResult[] = range.map((digit, i) => {
+    const expected = getExpectedProportion(test, digit);
+    const actual = test === 'summation'
+      ? (totalAmount > 0 ? sums[i] / totalAmount : 0)
+      : (total > 0 ? counts[i] / total : 0);
+    const zStatistic = getZStatistic(actual, expected, total);
+    return {
+      digit,
+      label: formatBenfordDigit(digit, test),
+      count: counts[i],
+      amount: sums[i],
+      actual,
+      expected,
+      difference: actual - expected,
+      zStatistic,
+      significant: test === 'summation' ? actual >= expected * SUMMATION_SPIKE_RATIO : zStatistic > Z_CRITICAL,
+    };
+  });
+
+  const mad = digits.reduce((sum, d) => sum + Math.abs(d.difference), 0) / digits.length;
+  const chiSquare = total > 0
+    ? digits.reduce((sum, d) => sum + (total * Math.pow(d.actual - d.expected, 2)) / d.expected, 0)
+    : 0;
+  const chiSquareCritical = CHI_SQUARE_CRITICAL[digits.length - 1];
+
+  return {
+    test,
+    total,
+    totalAmount,
+    digits,
+    mad,
+    conformity: getBenfordConformity(mad, test),
+    chiSquare,
+    chiSquareCritical,
+    chiSquareSignificant: chiSquare > chiSquareCritical,
+  };
+};
+
+/**
+ * 계정·거래처 등 그룹별로 검정을 수행해 MAD가 큰 순서로 정렬합니다.
+ * @param minCount 검정 건수가 이보다 적은 그룹은 결과가 불안정하므로 제외
+ */
+export const rankBenfordDeviations = <T,>(
+  items: T[],
+  getGroup: (item: T) => string,
+  getAmount: (item: T) => number,
+  test: BenfordTestType,
+  minCount = 50
+): BenfordDeviationRank[] => {
+  const amountsByGroup = new Map<string, number[]>();
+  items.forEach(item => {
+    const group = getGroup(item);
+    if (!group) return;
+    const list = amountsByGroup.get(group);
+    if (list) list.push(getAmount(item));
+    else amountsByGroup.set(group, [getAmount(item)]);
+  });
+
+  const ranks: BenfordDeviationRank[] = [];
+  amountsByGroup.forEach((amounts, group) => {
+    const result = runBenfordTest(amounts, test);
+    if (result.total < minCount) return;
+    const spike = result.digits.reduce<BenfordDigitResult | null>(
+      (max, d) => (d.difference > 0 && (!max || d.zStatistic > max.zStatistic) ? d : max),
+      null
+    );
+    ranks.push({ group, result, spike });
+  });
+  return ranks.sort((a, b) => b.result.mad - a.result.mad);
+};
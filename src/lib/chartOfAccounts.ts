@@ -0,0 +1,274 @@
+/**
+ * 계정과목 분류기 (Chart of Accounts)
+ * 더존 표준 계정코드 범위로 계정을 분류하고, 코드가 없으면 계정명 키워드로 보완합니다.
+ * 사용자가 지정한 분류(override)가 있으면 항상 우선합니다.
+ * 계정 유형이 필요한 모든 화면은 이 분류기를 사용합니다.
+ */
+
+import { getAccountEntries, type NormalizedLedger } from './ledgerModel';
+
+export type AccountCategory =
+  | 'currentAsset' // 유동자산 (101~175)
+  | 'nonCurrentAsset' // 비유동자산 (176~250)
+  | 'currentLiability' // 유동부채 (251~290)
+  | 'nonCurrentLiability' // 비유동부채 (291~330)
+  | 'equity' // 자본 (331~400)
+  | 'revenue' // 매출 (401~450)
+  | 'costOfSales' // 매출원가 및 기타원가 (451~500, 601~800)
+  | 'manufacturing' // 제조원가 (501~600)
+  | 'sga' // 판매비와관리비 (801~900)
+  | 'nonOperatingIncome' // 영업외수익 (901~950)
+  | 'nonOperatingExpense' // 영업외비용 (951~997)
+  | 'incomeTax' // 법인세등 (998~999)
+  | 'unknown';
+
+export type AccountType = 'asset' | 'liability' | 'equity' | 'revenue' | 'expense' | 'unknown';
+
+export interface AccountClassification {
+  category: AccountCategory;
+  type: AccountType;
+  normalSide: 'debit' | 'credit'; // 잔액이 표시되는 쪽
+  contra: boolean; // 차감 계정 (감가상각누계액·대손충당금처럼 유형의 반대쪽에 잔액이 남는 계정)
+  code?: string; // 분류에 사용한 3자리 계정코드
+  source: 'override' | 'code' | 'keyword' | 'unknown';
+}
+
+export const ACCOUNT_CATEGORY_LABELS: Record<AccountCategory, string> = {
+  currentAsset: '유동자산',
+  nonCurrentAsset: '비유동자산',
+  currentLiability: '유동부채',
+  nonCurrentLiability: '비유동부채',
+  equity: '자본',
+  revenue: '매출',
+  costOfSales: '매출원가',
+  manufacturing: '제조원가',
+  sga: '판매비와관리비',
+  nonOperatingIncome: '영업외수익',
+  nonOperatingExpense: '영업외비용',
+  incomeTax: '법인세등',
+  unknown: '미분류',
+};
+
+const CATEGORY_TYPES: Record<AccountCategory, AccountType> = {
+  currentAsset: 'asset',
+  nonCurrentAsset: 'asset',
+  currentLiability: 'liability',
+  nonCurrentLiability: 'liability',
+  equity: 'equity',
+  revenue: 'revenue',
+  costOfSales: 'expense',
+  manufacturing: 'expense',
+  sga: 'expense',
+  nonOperatingIncome: 'revenue',
+  nonOperatingExpense: 'expense',
+  incomeTax: 'expense',
+  unknown: 'unknown',
+};
+
+// 더존 표준 계정코드 범위 (3자리 기준, 상한 포함)
+const CODE_RANGES: { max: number; category: AccountCategory }[] = [
+  { max: 175, category: 'currentAsset' },
+  { max: 250, category: 'nonCurrentAsset' },
+  { max: 290, category: 'currentLiability' },
+  { max: 330, category: 'nonCurrentLiability' },
+  { max: 400, category: 'equity' },
+  { max: 450, category: 'revenue' },
+  { max: 500, category: 'costOfSales' },
+  { max: 600, category: 'manufacturing' },
+  { max: 800, category: 'costOfSales' },
+  { max: 900, category: 'sga' },
+  { max: 950, category: 'nonOperatingIncome' },
+  { max: 997, category: 'nonOperatingExpense' },
+  { max: 999, category: 'incomeTax' },
+];
+
+// 계정명 뒤 구분 표기: 계정명(판), 계정명(제), 계정명(도) 등
+const SUFFIX_CATEGORIES: Record<string, AccountCategory> = {
+  '판': 'sga',
+  '제': 'manufacturing',
+  '도': 'costOfSales',
+  '분': 'costOfSales',
+  '보': 'costOfSales',
+  '운': 'costOfSales',
+};
+
+/**
+ * 차감 계정 키워드. 분류(유형)는 그대로 두고 잔액 방향만 유형의 반대쪽으로 봅니다.
+ * 계정코드로 분류된 계정(예: 감가상각누계액 203, 대손충당금 109)에도 적용합니다.
+ */
+const CONTRA_KEYWORDS: Partial<Record<AccountType, string[]>> = {
+  asset: ['감가상각누계액', '상각누계액', '손상차손누계액', '대손충당금'],
+  revenue: ['매출할인', '매출환입', '매출에누리'],
+};
+
+/**
+ * 코드가 없을 때 사용하는 키워드 규칙. 위에서부터 먼저 일치하는 규칙을 사용하므로
+ * 더 구체적인 키워드(매출원가, 선수금, 퇴직급여충당부채 등)를 앞에 둡니다.
+ */
+const KEYWORD_RULES: { category: AccountCategory; keywords: string[]; endsWith?: boolean }[] = [
+  { category: 'costOfSales', keywords: ['매출원가', '공사원가', '용역원가', '분양원가'] },
+  { category: 'manufacturing', keywords: ['제조원가', '제조경비', '재료비', '노무비', '외주가공비'] },
+  { category: 'incomeTax', keywords: ['법인세비용', '법인세등'] },
+  { category: 'currentLiability', keywords: ['유동성장기'] },
+  { category: 'nonCurrentLiability', keywords: ['장기차입금', '사채', '퇴직급여충당', '충당부채', '임대보증금', '장기미지급', '비유동부채'] },
+  { category: 'currentLiability', keywords: ['선수금', '선수수익', '예수금', '미지급', '단기차입금', '매입채무', '외상매입금', '지급어음', '유동부채'] },
+  { category: 'nonCurrentLiability', keywords: ['부채'] },
+  { category: 'equity', keywords: ['자본금', '자본잉여금', '주식발행초과금', '이익잉여금', '이익준비금', '자본조정', '자기주식', '기타포괄손익누계', '자본'] },
+  { category: 'nonOperatingIncome', keywords: ['이자수익', '배당금수익', '임대료수입', '수입임대료', '외환차익', '외화환산이익', '처분이익', '잡이익', '수입수수료', '영업외수익'] },
+  { category: 'nonOperatingExpense', keywords: ['이자비용', '외환차손', '외화환산손실', '처분손실', '기부금', '잡손실', '기타의대손상각비', '영업외비용'] },
+  { category: 'currentAsset', keywords: ['매출채권', '외상매출금', '받을어음'] },
+  { category: 'revenue', keywords: ['매출', '매출액', '매출할인', '매출환입', '공사수익', '용역수익', '분양수익', '영업수익'] },
+  { category: 'revenue', keywords: ['수입'], endsWith: true },
+  { category: 'nonCurrentAsset', keywords: ['토지', '건물', '구축물', '기계장치', '차량운반구', '비품', '공구', '건설중인자산', '감가상각누계액', '손상차손누계액', '영업권', '산업재산권', '소프트웨어', '개발비', '장기대여금', '장기금융상품', '매도가능', '투자부동산', '보증금', '비유동자산'] },
+  { category: 'currentAsset', keywords: ['현금', '예금', '적금', '단기금융상품', '미수', '선급', '대손충당금', '단기대여금', '가지급금', '부가세대급금', '상품', '제품', '원재료', '재공품', '저장품', '유동자산'] },
+  { category: 'nonCurrentAsset', keywords: ['자산'] },
+  { category: 'sga', keywords: ['판매비', '관리비', '급여', '임금', '상여금', '수당', '퇴직급여', '복리후생비', '여비교통비', '접대비', '기업업무추진비', '통신비', '수도광열비', '전력비', '세금과공과', '감가상각비', '상각비', '임차료', '수선비', '보험료', '차량유지비', '운반비', '교육훈련비', '도서인쇄비', '소모품비', '지급수수료', '광고선전비', '판매촉진비', '대손상각비', '경상연구개발비', '회의비', '비용'] },
+];
+
+const OVERRIDE_STORAGE_KEY = 'account_classification_overrides';
+let overrideCache: Record<string, AccountCategory> | null = null;
+const classificationCache = new Map<string, AccountClassification>(); // `${계정명}|${계정코드}` → 분류 결과
+
+const normalizeName = (name: string): string => String(name || '').replace(/\s/g, '').toLowerCase();
+
+/**
+ * 계정명(괄호 안 코드/구분 표기 제거)만 남깁니다. 예: "복리후생비(판)(81100)" → "복리후생비"
+ */
+const stripAccountDecorations = (name: string): string => {
+  return normalizeName(name)
+    .replace(/^\d+[_.\-)]?/, '')
+    .replace(/[([（［][^)\]）］]*[)\]）］]/g, '');
+};
+
+/**
+ * 계정코드 또는 계정명에서 3자리 더존 계정코드를 추출합니다.
+ * "81100" → "811", "계정명(81100)" → "811", "811_복리후생비" → "811"
+ */
+export const extractAccountCode = (accountName: string, accountCode?: string): string | undefined => {
+  const candidates: string[] = [];
+  if (accountCode) candidates.push(String(accountCode).trim());
+  const name = String(accountName || '');
+  for (const match of name.matchAll(/[([（［]\s*(\d{3,})\s*[)\]）］]/g)) candidates.push(match[1]);
+  const leading = name.trim().match(/^(\d{3,})\D/);
+  if (leading) candidates.push(leading[1]);
+
+  for (const candidate of candidates) {
+    if (!/^\d{3,}$/.test(candidate)) continue;
+    const code = candidate.slice(0, 3);
+    const num = parseInt(code, 10);
+    if (num >= 101 && num <= 999) return code;
+  }
+  return undefined;
+};
+
+const categoryFromCode = (code: string): AccountCategory => {
+  const num = parseInt(code, 10);
+  return CODE_RANGES.find(range => num <= range.max)?.category ?? 'unknown';
+};
+
+const categoryFromKeywords = (accountName: string): AccountCategory => {
+  const suffixes = Array.from(normalizeName(accountName).matchAll(/[([（［]\s*([가-힣])\s*[)\]）］]/g)).map(m => m[1]);
+  const suffixCategory = suffixes.map(s => SUFFIX_CATEGORIES[s]).find(Boolean);
+  if (suffixCategory) return suffixCategory;
+
+  const name = stripAccountDecorations(accountName);
+  if (!name) return 'unknown';
+  const rule = KEYWORD_RULES.find(r =>
+    r.keywords.some(keyword => (r.endsWith ? name.endsWith(keyword) : name.includes(keyword)))
+  );
+  return rule?.category ?? 'unknown';
+};
+
+const isContraAccount = (accountName: string, type: AccountType): boolean => {
+  const keywords = CONTRA_KEYWORDS[type];
+  if (!keywords) return false;
+  const name = stripAccountDecorations(accountName);
+  return keywords.some(keyword => name.includes(keyword));
+};
+
+const toClassification = (
+  accountName: string,
+  category: AccountCategory,
+  source: AccountClassification['source'],
+  code?: string
+): AccountClassification => {
+  const type = CATEGORY_TYPES[category];
+  // 자산/비용은 차변, 부채/자본/수익은 대변 잔액 (미분류는 차변으로 간주), 차감 계정은 반대쪽
+  const typeSide = type === 'liability' || type === 'equity' || type === 'revenue' ? 'credit' : 'debit';
+  const contra = isContraAccount(accountName, type);
+  const normalSide = contra ? (typeSide === 'debit' ? 'credit' : 'debit') : typeSide;
+  return { category, type, normalSide, contra, code, source };
+};
+
+/**
+ * 사용자 지정 분류 불러오기 (정규화된 계정명 → 분류)
+ */
+export const getAccountOverrides = (): Record<string, AccountCategory> => {
+  if (overrideCache) return overrideCache;
+  const stored = localStorage.getItem(OVERRIDE_STORAGE_KEY);
+  if (!stored) {
+    overrideCache = {};
+    return overrideCache;
+  }
+
+  try {
+    overrideCache = JSON.parse(stored);
+  } catch {
+    overrideCache = {};
+  }
+  return overrideCache!;
+};
+
+/**
+ * 계정 분류 사용자 지정 (category가 null이면 지정 해제)
+ */
+export const setAccountOverride = (accountName: string, category: AccountCategory | null): void => {
+  const overrides = { ...getAccountOverrides() };
+  const key = normalizeName(accountName);
+  if (category) overrides[key] = category;
+  else delete overrides[key];
+  overrideCache = overrides;
+  classificationCache.clear();
+  localStorage.setItem(OVERRIDE_STORAGE_KEY, JSON.stringify(overrides));
+};
+
+/**
+ * 계정을 분류합니다. 사용자 지정 → 계정코드 범위 → 계정명 키워드 순으로 판단합니다.
+ * @param accountName 계정명 (예: "복리후생비(판)", "보통예금(103)")
+ * @param accountCode 원장의 계정코드 컬럼 값 (선택)
+ */
+export const classifyAccount = (accountName: string, accountCode?: string): AccountClassification => {
+  const cacheKey = `${accountName}|${accountCode ?? ''}`;
+  const cached = classificationCache.get(cacheKey);
+  if (cached) return cached;
+
+  const override = getAccountOverrides()[normalizeName(accountName)];
+  const code = extractAccountCode(accountName, accountCode);
+  let result: AccountClassification;
+  if (override) {
+    result = toClassification(accountName, override, 'override', code);
+  } else {
+    const codeCategory = code ? categoryFromCode(code) : 'unknown';
+    if (codeCategory !== 'unknown') {
+      result = toClassification(accountName, codeCategory, 'code', code);
+    } else {
+      const category = categoryFromKeywords(accountName);
+      result = toClassification(accountName, category, category === 'unknown' ? 'unknown' : 'keyword', code);
+    }
+  }
+
+  classificationCache.set(cacheKey, result);
+  return result;
+};
+
+/**
+ * 통합 원장의 계정을 분류합니다. 원장에 계정코드 컬럼이 있으면 함께 사용합니다.
+ */
+export const classifyLedgerAccount = (
+  ledger: NormalizedLedger | null | undefined,
+  accountName: string
+): AccountClassification => {
+  const accountCode = getAccountEntries(ledger, accountName, { includeSummary: true })
+    .find(e => e.accountCode)?.accountCode;
+  return classifyAccount(accountName, accountCode);
+};
@@ -0,0 +1,278 @@
+/**
+ * 순환 거래 탐지 (Circular Flow Detection)
+ * 전표마다 대변 쪽 거래 상대(거래처, 거래처가 없으면 계정)에서 차변 쪽 거래 상대로 자금이 흐른 것으로 보고
+ * 방향 그래프를 만든 뒤, 기간 안에 비슷한 금액이 A → B → C → A처럼 한 바퀴 돌아온 경로를 찾습니다.
+ * 매출 부풀리기를 위한 자금 돌리기(round-tripping)나 가공 매출의 징후를 찾는 데 씁니다.
+ * 각 구간은 날짜 순서대로 이어져야 하며(같은 날 가능), 모든 구간 금액이 첫 구간 금액의 허용 오차 안에 있어야 합니다.
+ */
+
+import type { JournalEntry } from '@/types/analysis';
+import { getPostingEntries, type NormalizedLedger } from './ledgerModel';
+import { buildVoucherBook } from './voucherModel';
+
+export type FlowNodeMode = 'vendor' | 'account';
+
+export interface CircularFlowOptions {
+  nodeMode: FlowNodeMode; // 거래 상대 단위 (거래처 우선 / 계정과목)
+  minAmount: number; // 이 금액 미만 구간은 그래프에서 제외
+  windowDays: number; // 첫 구간부터 마지막 구간까지 허용 일수
+  amountTolerance: number; // 첫 구간 금액 대비 허용 오차 (0.1 = ±10%)
+  minLegs: number;
+  maxLegs: number;
+}
+
+/**
+ * 자금 흐름 한 구간 (한 전표 안에서 대변 상대 → 차변 상대)
+ */
+export interface FlowLeg {
+  id: number;
+  from: string;
+  to: string;
+  amount: number; // 전표 안 배분 금액 (대변 금액 × 차변 금액 ÷ 전표 합계)
+  dateKey: string; // YYYY-MM-DD
+  voucherKey: string;
+  fromAccounts: string[];
+  toAccounts: string[];
+  entries: JournalEntry[]; // 두 상대의 전표 라인
+}
+
+export interface CircularFlow {
+  id: string; // CF-001
+  nodes: string[]; // 출발 상대부터 순서대로 (마지막 구간은 nodes[0]으로 돌아옴)
+  legs: FlowLeg[];
+  minLegAmount: number;
+  maxLegAmount: number;
+  totalAmount: number; // 구간 금액 합계
+  firstDate: string;
+  lastDate: string;
+  spanDays: number;
+  accounts: string[]; // 경로에 등장한 계정과목
+}
+
+export interface CircularFlowResult {
+  flows: CircularFlow[];
+  voucherCount: number;
+  legCount: number; // 그래프 구간 수 (최소 금액 이상)
+  nodeCount: number;
+  unnumberedLineCount: number; // 전표번호가 없어 흐름을 만들 수 없는 라인 수
+  truncated: boolean; // 탐색 한도에 걸려 일부 경로를 찾지 못했을 수 있음
+}
+
+export const FLOW_NODE_MODE_LABELS: Record<FlowNodeMode, string> = {
+  vendor: '거래처 (없으면 계정)',
+  account: '계정과목',
+};
+
+export const DEFAULT_CIRCULAR_FLOW_OPTIONS: CircularFlowOptions = {
+  nodeMode: 'vendor',
+  minAmount: 1000000,
+  windowDays: 30,
+  amountTolerance: 0.1,
+  minLegs: 3,
+  maxLegs: 4,
+};
+
+const MAX_FLOWS = 1000;
+const MAX_SEARCH_STEPS = 2000000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const toDayNumber = (dateKey: string): number => {
+  const [y, m, d] = dateKey.split('-').map(Number);
+  return Math.round(Date.UTC(y, m - 1, d) / DAY_MS);
+};
+
+const getNodeName = (entry: JournalEntry, mode: FlowNodeMode): string => {
+  const vendor = String(entry.vendor || '').trim();
+  if (mode === 'vendor' && vendor) return vendor;
+  return entry.accountName || '';
+};
+
+interface SideGroup {
+  amount: number;
+  accounts: Set<string>;
+  lines: JournalEntry[];
+}
+
+/**
+ * 전표 하나를 자금 흐름 구간으로 나눕니다. 음수 차변은 대변으로, 음수 대변은 차변으로 봅니다.
+ */
+const buildVoucherLegs = (
+  voucherKey: string,
+  dateKey: string,
+  lines: JournalEntry[],
+  options: CircularFlowOptions,
+  nextId: () => number
+): FlowLeg[] => {
+  const debitSide = new Map<string, SideGroup>();
+  const creditSide = new Map<string, SideGroup>();
+  const add = (side: Map<string, SideGroup>, node: string, amount: number, line: JournalEntry) => {
+    const group = side.get(node);
+    if (group) {
+      group.amount += amount;
+      group.accounts.add(line.accountName);
+      group.lines.push(line);
+    } else {
+      side.set(node, { amount, accounts: new Set([line.accountName]), lines: [line] });
+    }
+  };
+
+  lines.forEach(line => {
+    const node = getNodeName(line, options.nodeMode);
+    if (!node) return;
+    const debit = line.debit || 0;
+    const credit = line.credit || 0;
+    if (debit > 0 || credit < 0) add(debitSide, node, Math.abs(debit || credit), line);
+    else if (credit > 0 || debit < 0) add(creditSide, node, Math.abs(credit || debit), line);
+  });
+
+  const total = Array.from(debitSide.values()).reduce((sum, g) => sum + g.amount, 0);
+  if (total <= 0) return [];
+
+  const legs: FlowLeg[] = [];
+  creditSide.forEach((source, from) => {
+    debitSide.forEach((target, to) => {
+      if (from === to) return;
+      const amount = (source.amount * target.amount) / total;
+      if (amount < options.minAmount) return;
+      legs.push({
+        id: nextId(),
+        from,
+        to,
+        amount,
+        dateKey,
+        voucherKey,
+        fromAccounts: Array.from(source.accounts),
+        toAccounts: Array.from(target.accounts),
+        entries: [...source.lines, ...target.lines],
+      });
+    });
+  });
+  return legs;
+};
+
+const firstIndexOnOrAfter = (legs: FlowLeg[], days: number[], day: number): number => {
+  let lo = 0;
+  let hi = legs.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (days[mid] < day) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+};
+
+/**
+ * 원장 전체에서 순환 거래 경로를 찾습니다. 결과는 한 바퀴를 돈 최소 구간 금액이 큰 순서입니다.
+ */
+export const detectCircularFlows = (
+  ledger: NormalizedLedger,
+  options: CircularFlowOptions = DEFAULT_CIRCULAR_FLOW_OPTIONS
+): CircularFlowResult => {
+  const book = buildVoucherBook(getPostingEntries(ledger));
+  let legId = 0;
+  const nextId = () => legId++;
+
+  const legs: FlowLeg[] = [];
+  book.vouchers.forEach(voucher => {
+    if (!DATE_KEY_PATTERN.test(voucher.dateKey)) return;
+    legs.push(...buildVoucherLegs(voucher.key, voucher.dateKey, voucher.lines, options, nextId));
+  });
+
+  // 출발 상대별 구간 목록 (일자 오름차순)
+  const outgoing = new Map<string, { legs: FlowLeg[]; days: number[] }>();
+  const nodes = new Set<string>();
+  const legDays = new Map<number, number>();
+  legs
+    .map(leg => ({ leg, day: toDayNumber(leg.dateKey) }))
+    .sort((a, b) => a.day - b.day)
+    .forEach(({ leg, day }) => {
+      nodes.add(leg.from);
+      nodes.add(leg.to);
+      legDays.set(leg.id, day);
+      const list = outgoing.get(leg.from);
+      if (list) {
+        list.legs.push(leg);
+        list.days.push(day);
+      } else {
+        outgoing.set(leg.from, { legs: [leg], days: [day] });
+      }
+    });
+
+  const found = new Map<string, FlowLeg[]>();
+  let steps = 0;
+  let truncated = false;
+
+  const search = (path: FlowLeg[], visited: Set<string>, startDay: number, lastDay: number) => {
+    if (truncated) return;
+    const first = path[0];
+    const current = path[path.length - 1].to;
+    const list = outgoing.get(current);
+    if (!list) return;
+
+    const endDay = startDay + options.windowDays;
+    for (let i = firstIndexOnOrAfter(list.legs, list.days, lastDay); i < list.legs.length; i++) {
+      if (list.days[i] > endDay) break;
+      if (++steps > MAX_SEARCH_STEPS || found.size >= MAX_FLOWS) {
+        truncated = true;
+        return;
+      }
+      const leg = list.legs[i];
+      if (Math.abs(leg.amount - first.amount) > first.amount * options.amountTolerance) continue;
+
+      if (leg.to === first.from) {
+        if (path.length + 1 >= options.minLegs) {
+          const cycle = [...path, leg];
+          const key = cycle.map(l => l.id).sort((a, b) => a - b).join(',');
+          if (!found.has(key)) found.set(key, cycle);
+        }
+        continue;
+      }
+      if (visited.has(leg.to) || path.length + 1 >= options.maxLegs) continue;
+
+      visited.add(leg.to);
+      path.push(leg);
+      search(path, visited, startDay, list.days[i]);
+      path.pop();
+      visited.delete(leg.to);
+    }
+  };
+
+  outgoing.forEach(list => {
+    list.legs.forEach((leg, i) => {
+      search([leg], new Set([leg.from, leg.to]), list.days[i], list.days[i]);
+    });
+  });
+
+  const flows = Array.from(found.values())
+    .map(cycle => {
+      const amounts = cycle.map(l => l.amount);
+      const firstDay = legDays.get(cycle[0].id) ?? 0;
+      const lastDay = legDays.get(cycle[cycle.length - 1].id) ?? 0;
+      return {
+        id: '',
+        nodes: cycle.map(l => l.from),
+        legs: cycle,
+        minLegAmount: Math.min(...amounts),
+        maxLegAmount: Math.max(...amounts),
+        totalAmount: amounts.reduce((sum, a) => sum + a, 0),
+        firstDate: cycle[0].dateKey,
+        lastDate: cycle[cycle.length - 1].dateKey,
+        spanDays: lastDay - firstDay,
+        accounts: Array.from(new Set(cycle.flatMap(l => [...l.fromAccounts, ...l.toAccounts]))),
+      } as CircularFlow;
+    })
+    .sort((a, b) => b.minLegAmount - a.minLegAmount || a.firstDate.localeCompare(b.firstDate));
+  flows.forEach((flow, index) => {
+    flow.id = `CF-${String(index + 1).padStart(3, '0')}`;
+  });
+
+  return {
+    flows,
+    voucherCount: book.vouchers.length,
+    legCount: legs.length,
+    nodeCount: nodes.size,
+    unnumberedLineCount: book.unnumberedLineCount,
+    truncated,
+  };
+};
@@ -0,0 +1,87 @@
+/**
+ * DataGrid 열 정의 (DataGrid Columns)
+ * 가상화 표(DataGrid)의 열 타입과 값 표시 형식, 원본 원장 행용 열 정의 생성 함수입니다.
+ */
+
+import type React from 'react';
+import type { JournalEntry } from '@/types/analysis';
+import { cleanAmount } from './headerUtils';
+
+export type DataGridValue = string | number | Date | null | undefined;
+
+export interface DataGridColumn<T> {
+  id: string;
+  header: string;
+  /** 정렬·필터·합계에 쓰는 값 */
+  value: (row: T) => DataGridValue;
+  /** 셀 표시 (기본: 숫자는 천 단위 구분, 날짜는 YYYY-MM-DD) */
+  render?: (row: T) => React.ReactNode;
+  align?: 'left' | 'right' | 'center';
+  width?: number; // px (기본 140)
+  /** 하단에 필터된 행(과 선택한 행)의 합계 표시 — 차변/대변 등 금액 열 */
+  total?: boolean;
+  /** 처음에는 숨김 (열 메뉴에서 표시) */
+  defaultHidden?: boolean;
+  cellClassName?: string;
+}
+
+const AMOUNT_HEADER_KEYWORDS = ['차변', '대변', '잔액', '금액', 'debit', 'credit', 'balance', 'amount'];
+
+const NUMERIC_TEXT = /^\(?-?[\d,]+(\.\d+)?\)?$/;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export const formatDataGridValue = (value: DataGridValue): string => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? '' : `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+  }
+  if (typeof value === 'number') return value.toLocaleString();
+  return value;
+};
+
+/** 행 순서를 그대로 키로 쓰는 getRowKey (행 배열이 바뀌지 않는 표에서 사용) */
+export const getIndexRowKey = (_row: unknown, index: number): string => String(index);
+
+/**
+ * 원본 행 객체(키 = 원장 헤더)용 열 정의를 만듭니다. 금액 헤더(차변/대변/잔액/금액)는 오른쪽 정렬하고 "1,000" 같은 문자열도 숫자로 다루며,
+ * totalKeys에 지정한 열(미지정 시 차변·대변 헤더)은 하단 합계를 표시합니다.
+ */
+export const createRecordColumns = <T extends Record<string, unknown>>(
+  keys: string[],
+  options: { totalKeys?: string[] } = {}
+): DataGridColumn<T>[] => {
+  const isAmountKey = (key: string) => AMOUNT_HEADER_KEYWORDS.some(k => key.toLowerCase().includes(k));
+  const totalKeys = options.totalKeys ?? keys.filter(key => /차변|대변|debit|credit/i.test(key));
+  return keys.map(key => {
+    const isAmount = isAmountKey(key);
+    return {
+      id: key,
+      header: key,
+      value: row => {
+        const val = row[key];
+        if (val === null || val === undefined) return '';
+        if (isAmount && typeof val === 'string' && NUMERIC_TEXT.test(val.trim())) return cleanAmount(val);
+        if (typeof val === 'number' || val instanceof Date || typeof val === 'string') return val;
+        return String(val);
+      },
+      align: isAmount ? 'right' : 'left',
+      total: totalKeys.includes(key),
+    };
+  });
+};
+
+/**
+ * 통합 원장 분개 라인(JournalEntry)용 기본 열 정의 (일자·계정과목·거래처·적요·차변·대변, 전표번호·잔액·시트는 숨김)
+ */
+export const createJournalEntryColumns = (): DataGridColumn<JournalEntry>[] => [
+  { id: 'date', header: '일자', value: e => e.date, width: 110 },
+  { id: 'entryNumber', header: '전표번호', value: e => e.entryNumber, width: 100, defaultHidden: true },
+  { id: 'accountName', header: '계정과목', value: e => e.accountName, width: 150 },
+  { id: 'vendor', header: '거래처', value: e => e.vendor, width: 160 },
+  { id: 'description', header: '적요', value: e => e.description, width: 240 },
+  { id: 'debit', header: '차변', value: e => e.debit || 0, align: 'right', width: 130, total: true },
+  { id: 'credit', header: '대변', value: e => e.credit || 0, align: 'right', width: 130, total: true },
+  { id: 'balance', header: '잔액', value: e => e.balance, align: 'right', width: 130, defaultHidden: true },
+  { id: 'sheetName', header: '시트', value: e => e.sheetName, width: 120, defaultHidden: true },
+];
@@ -0,0 +1,346 @@
+/**
+ * 중복 지급·분할 거래 탐지 (Duplicate Payments / Split Transactions)
+ * 같은 계정·같은 방향(차변/대변) 분개 라인을 비교해 아래 유형을 클러스터(함께 검토할 라인 묶음)로 반환합니다.
+ * - 동일 거래처·동일 금액이 N일 이내에 다시 기록된 경우
+ * - 동일 금액이 N일 이내에 다른 거래처로 기록된 경우
+ * - 적요의 송장·세금계산서 번호가 같은 거래처에서 두 번 이상 나온 경우
+ * - 한 거래처에 같은 날·같은 주에 승인한도 미만 거래가 여러 건 있고 합계가 한도 이상인 경우 (분할 거래)
+ * 같은 전표 안의 라인끼리는 중복으로 보지 않습니다. 설정은 localStorage에 저장합니다.
+ */
+
+import type { JournalEntry } from '@/types/analysis';
+import { getPostingEntries, type NormalizedLedger } from './ledgerModel';
+import { getVoucherKey } from './voucherModel';
+import { normalizeDateKey } from './holidayCalendar';
+
+export type DuplicatePaymentRuleId =
+  | 'sameVendorAmount' // 동일 거래처·동일 금액
+  | 'sameAmountOtherVendor' // 동일 금액·다른 거래처
+  | 'sameInvoice' // 동일 송장 중복 지급
+  | 'splitTransaction'; // 승인한도 회피 분할 거래
+
+export type SplitPeriod = 'day' | 'week';
+
+export interface DuplicatePaymentSettings {
+  minAmount: number; // 이 금액 미만 라인은 제외 (원)
+  accountKeywords: string[]; // 계정과목에 이 단어가 들어간 라인만 (비어 있으면 전체 계정)
+  sameVendorAmount: { enabled: boolean; windowDays: number };
+  sameAmountOtherVendor: { enabled: boolean; windowDays: number };
+  sameInvoice: { enabled: boolean };
+  splitTransaction: { enabled: boolean; thresholds: number[]; period: SplitPeriod };
+}
+
+export interface DuplicatePaymentCluster {
+  id: string; // 규칙별 순번 (예: "SV-001")
+  ruleId: DuplicatePaymentRuleId;
+  label: string; // 거래처·금액·송장번호 등 클러스터 기준
+  reason: string;
+  entries: JournalEntry[]; // 일자순
+  totalAmount: number;
+  vendors: string[];
+  firstDate: string | null;
+  lastDate: string | null;
+}
+
+export interface DuplicatePaymentResult {
+  clusters: DuplicatePaymentCluster[]; // 규칙 순서, 규칙 안에서는 금액 합계 내림차순
+  totalEntries: number; // 계정·금액 조건을 통과한 모집단 라인 수
+  clusterCounts: Record<DuplicatePaymentRuleId, number>;
+  flaggedEntryCount: number; // 하나 이상의 클러스터에 속한 라인 수
+  invoiceReferenceCount: number; // 적요에서 송장번호를 찾은 라인 수
+  undatedEntryCount: number; // 일자를 읽을 수 없어 비교에서 제외한 라인 수
+}
+
+export const DUPLICATE_PAYMENT_RULE_IDS: DuplicatePaymentRuleId[] = [
+  'sameVendorAmount',
+  'sameAmountOtherVendor',
+  'sameInvoice',
+  'splitTransaction',
+];
+
+export const DUPLICATE_PAYMENT_RULE_LABELS: Record<DuplicatePaymentRuleId, string> = {
+  sameVendorAmount: '동일 거래처·동일 금액',
+  sameAmountOtherVendor: '동일 금액·다른 거래처',
+  sameInvoice: '동일 송장 중복 지급',
+  splitTransaction: '분할 거래 (승인한도 회피)',
+};
+
+export const DUPLICATE_PAYMENT_RULE_DESCRIPTIONS: Record<DuplicatePaymentRuleId, string> = {
+  sameVendorAmount: '같은 거래처·계정에 같은 금액이 지정한 기간 안에 다시 기록된 경우 (이중 지급 가능성)',
+  sameAmountOtherVendor: '같은 계정에 같은 금액이 지정한 기간 안에 다른 거래처로 기록된 경우 (거래처만 바꾼 재청구 가능성)',
+  sameInvoice: '적요의 송장·세금계산서 번호가 같은 거래처에서 두 번 이상 나온 경우',
+  splitTransaction: '한 거래처에 같은 날·같은 주에 승인한도 미만 거래가 여러 건 있고 합계가 한도 이상인 경우',
+};
+
+const RULE_ID_PREFIXES: Record<DuplicatePaymentRuleId, string> = {
+  sameVendorAmount: 'SV',
+  sameAmountOtherVendor: 'SA',
+  sameInvoice: 'IN',
+  splitTransaction: 'SP',
+};
+
+export const SPLIT_PERIOD_LABELS: Record<SplitPeriod, string> = {
+  day: '같은 날',
+  week: '같은 주 (월~일)',
+};
+
+const SETTINGS_STORAGE_KEY = 'duplicate_payment_settings';
+
+export const DEFAULT_DUPLICATE_PAYMENT_SETTINGS: DuplicatePaymentSettings = {
+  minAmount: 100000,
+  accountKeywords: [],
+  sameVendorAmount: { enabled: true, windowDays: 30 },
+  sameAmountOtherVendor: { enabled: true, windowDays: 3 },
+  sameInvoice: { enabled: true },
+  splitTransaction: { enabled: true, thresholds: [10000000, 50000000, 100000000], period: 'week' },
+};
+
+/**
+ * 저장된 설정 (저장 이후 추가된 규칙·파라미터는 기본값으로 채움)
+ */
+export const getDuplicatePaymentSettings = (): DuplicatePaymentSettings => {
+  const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+  if (!stored) return DEFAULT_DUPLICATE_PAYMENT_SETTINGS;
+  try {
+    const parsed = JSON.parse(stored) as Partial<DuplicatePaymentSettings>;
+    return {
+      ...DEFAULT_DUPLICATE_PAYMENT_SETTINGS,
+      ...parsed,
+      ...DUPLICATE_PAYMENT_RULE_IDS.reduce((rules, ruleId) => ({
+        ...rules,
+        [ruleId]: { ...DEFAULT_DUPLICATE_PAYMENT_SETTINGS[ruleId], ...(parsed[ruleId] || {}) },
+      }), {}),
+    };
+  } catch {
+    return DEFAULT_DUPLICATE_PAYMENT_SETTINGS;
+  }
+};
+
+export const saveDuplicatePaymentSettings = (settings: DuplicatePaymentSettings): void => {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+// 세금계산서 승인번호 (8-8-8자리)
+const TAX_INVOICE_PATTERN = /(\d{8})-?(\d{8})-?(\d{8})/;
+// "송장 INV-1234", "Invoice #A123", "계산서번호: 2024-001" 등 (번호 앞의 No·#·INV 접두어는 건너뜀)
+const INVOICE_KEYWORD_PATTERN = /(?:invoice|inv|송장|인보이스|계산서|청구서)(?:\s*(?:no\.?|번호|#|:|-|inv(?:oice)?))*\s*([a-z0-9][a-z0-9\-/]*)/i;
+
+/**
+ * 적요에서 송장·세금계산서 번호를 찾아 영숫자만 남긴 대문자로 반환합니다. 숫자가 없으면 번호로 보지 않습니다.
+ */
+export const extractInvoiceNumber = (description: string | undefined): string | null => {
+  const text = description || '';
+  const taxInvoice = text.match(TAX_INVOICE_PATTERN);
+  if (taxInvoice) return `${taxInvoice[1]}${taxInvoice[2]}${taxInvoice[3]}`;
+  const keyword = text.match(INVOICE_KEYWORD_PATTERN);
+  if (!keyword) return null;
+  const normalized = keyword[1].replace(/[^a-z0-9]/gi, '').toUpperCase();
+  return normalized.length >= 2 && /\d/.test(normalized) ? normalized : null;
+};
+
+// 분개 라인의 거래 금액 (차변 또는 대변 한쪽만 있는 라인 기준)
+const getEntryAmount = (entry: JournalEntry): number => Math.abs(entry.debit || 0) + Math.abs(entry.credit || 0);
+
+const getEntrySide = (entry: JournalEntry): 'D' | 'C' => (entry.debit !== 0 ? 'D' : 'C');
+
+// 같은 전표 라인을 한 건으로 세기 위한 키 (전표번호가 없으면 원본 행 위치)
+const getDistinctKey = (entry: JournalEntry): string =>
+  getVoucherKey(entry) ?? `${entry.sheetName ?? ''}#${entry.rowIndex ?? ''}#${entry.id ?? ''}`;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDayNumber = (dateKey: string): number =>
+  Math.round(Date.UTC(Number(dateKey.slice(0, 4)), Number(dateKey.slice(5, 7)) - 1, Number(dateKey.slice(8, 10))) / DAY_MS);
+
+// 해당 주 월요일 일자 키
+const getWeekKey = (dateKey: string): string => {
+  const dayNumber = toDayNumber(dateKey);
+  const weekday = (new Date(dayNumber * DAY_MS).getUTCDay() + 6) % 7; // 월요일 0
+  return new Date((dayNumber - weekday) * DAY_MS).toISOString().slice(0, 10);
+};
+
+interface DatedEntry {
+  entry: JournalEntry;
+  dateKey: string;
+  dayNumber: number;
+  amount: number;
+  vendor: string;
+}
+
+const groupBy = <T,>(items: T[], getKey: (item: T) => string | null): Map<string, T[]> => {
+  const groups = new Map<string, T[]>();
+  items.forEach(item => {
+    const key = getKey(item);
+    if (key === null) return;
+    const list = groups.get(key);
+    if (list) list.push(item);
+    else groups.set(key, [item]);
+  });
+  return groups;
+};
+
+/**
+ * 일자순으로 정렬한 라인을 앞 라인과의 간격이 windowDays 이하인 동안 하나의 묶음으로 이어 붙입니다.
+ */
+const chainByWindow = (items: DatedEntry[], windowDays: number): DatedEntry[][] => {
+  const sorted = [...items].sort((a, b) => a.dayNumber - b.dayNumber);
+  const chains: DatedEntry[][] = [];
+  let current: DatedEntry[] = [];
+  sorted.forEach(item => {
+    if (current.length > 0 && item.dayNumber - current[current.length - 1].dayNumber > windowDays) {
+      chains.push(current);
+      current = [];
+    }
+    current.push(item);
+  });
+  if (current.length > 0) chains.push(current);
+  return chains;
+};
+
+const countDistinct = (items: DatedEntry[]): number => new Set(items.map(item => getDistinctKey(item.entry))).size;
+
+const toCluster = (
+  ruleId: DuplicatePaymentRuleId,
+  items: DatedEntry[],
+  label: string,
+  reason: string
+): Omit<DuplicatePaymentCluster, 'id'> => {
+  const sorted = [...items].sort((a, b) => a.dayNumber - b.dayNumber);
+  return {
+    ruleId,
+    label,
+    reason,
+    entries: sorted.map(item => item.entry),
+    totalAmount: sorted.reduce((sum, item) => sum + item.amount, 0),
+    vendors: Array.from(new Set(sorted.map(item => item.vendor).filter(Boolean))),
+    firstDate: sorted[0]?.dateKey ?? null,
+    lastDate: sorted[sorted.length - 1]?.dateKey ?? null,
+  };
+};
+
+/**
+ * 원장에 사용 중인 규칙을 적용해 중복 지급·분할 거래 클러스터를 찾습니다.
+ */
+export const detectDuplicatePayments = (
+  ledger: NormalizedLedger,
+  settings: DuplicatePaymentSettings
+): DuplicatePaymentResult => {
+  const keywords = settings.accountKeywords.map(k => k.trim()).filter(Boolean);
+  const population: DatedEntry[] = [];
+  let undatedEntryCount = 0;
+  getPostingEntries(ledger).forEach(entry => {
+    const amount = getEntryAmount(entry);
+    if (amount <= 0 || amount < settings.minAmount) return;
+    if (keywords.length > 0 && !keywords.some(k => entry.accountName.includes(k))) return;
+    const dateKey = normalizeDateKey(entry.date);
+    if (!dateKey) {
+      undatedEntryCount++;
+      return;
+    }
+    population.push({ entry, dateKey, dayNumber: toDayNumber(dateKey), amount, vendor: entry.vendor?.trim() ?? '' });
+  });
+
+  const found: Omit<DuplicatePaymentCluster, 'id'>[] = [];
+
+  if (settings.sameVendorAmount.enabled) {
+    const windowDays = Math.max(0, settings.sameVendorAmount.windowDays);
+    groupBy(population, item =>
+      item.vendor ? `${item.entry.accountName}|${getEntrySide(item.entry)}|${item.vendor}|${item.amount}` : null
+    ).forEach(items => {
+      chainByWindow(items, windowDays).forEach(chain => {
+        if (countDistinct(chain) < 2) return;
+        found.push(toCluster(
+          'sameVendorAmount',
+          chain,
+          `${chain[0].vendor} · ${chain[0].amount.toLocaleString()}원`,
+          `${chain[0].entry.accountName}, ${windowDays}일 이내 ${chain.length}건`
+        ));
+      });
+    });
+  }
+
+  if (settings.sameAmountOtherVendor.enabled) {
+    const windowDays = Math.max(0, settings.sameAmountOtherVendor.windowDays);
+    groupBy(population, item =>
+      item.vendor ? `${item.entry.accountName}|${getEntrySide(item.entry)}|${item.amount}` : null
+    ).forEach(items => {
+      chainByWindow(items, windowDays).forEach(chain => {
+        const vendors = new Set(chain.map(item => item.vendor));
+        if (vendors.size < 2) return;
+        found.push(toCluster(
+          'sameAmountOtherVendor',
+          chain,
+          `${chain[0].amount.toLocaleString()}원 · 거래처 ${vendors.size}곳`,
+          `${chain[0].entry.accountName}, ${windowDays}일 이내 ${chain.length}건`
+        ));
+      });
+    });
+  }
+
+  let invoiceReferenceCount = 0;
+  if (settings.sameInvoice.enabled) {
+    const invoiceItems = population
+      .map(item => ({ item, invoice: extractInvoiceNumber(item.entry.description) }))
+      .filter((x): x is { item: DatedEntry; invoice: string } => x.invoice !== null);
+    invoiceReferenceCount = invoiceItems.length;
+    groupBy(invoiceItems, x => `${x.item.vendor}|${getEntrySide(x.item.entry)}|${x.invoice}`).forEach(list => {
+      const items = list.map(x => x.item);
+      if (countDistinct(items) < 2) return;
+      found.push(toCluster(
+        'sameInvoice',
+        items,
+        `${items[0].vendor || '(거래처 없음)'} · 송장 ${list[0].invoice}`,
+        `같은 송장번호 ${countDistinct(items)}회 기록`
+      ));
+    });
+  }
+
+  if (settings.splitTransaction.enabled) {
+    const thresholds = [...settings.splitTransaction.thresholds].filter(t => t > 0).sort((a, b) => b - a);
+    const period = settings.splitTransaction.period;
+    groupBy(population, item =>
+      item.vendor
+        ? `${item.entry.accountName}|${getEntrySide(item.entry)}|${item.vendor}|${period === 'day' ? item.dateKey : getWeekKey(item.dateKey)}`
+        : null
+    ).forEach(items => {
+      // 가장 높은 한도부터 확인해 한 묶음은 한 번만 보고
+      for (const threshold of thresholds) {
+        const under = items.filter(item => item.amount < threshold);
+        const sum = under.reduce((total, item) => total + item.amount, 0);
+        if (countDistinct(under) < 2 || sum < threshold) continue;
+        const periodLabel = period === 'day' ? under[0].dateKey : `${getWeekKey(under[0].dateKey)} 주`;
+        found.push(toCluster(
+          'splitTransaction',
+          under,
+          `${under[0].vendor} · ${periodLabel}`,
+          `${under[0].entry.accountName}, 한도 ${threshold.toLocaleString()}원 미만 ${under.length}건, 합계 ${sum.toLocaleString()}원`
+        ));
+        break;
+      }
+    });
+  }
+
+  const clusterCounts = DUPLICATE_PAYMENT_RULE_IDS.reduce(
+    (counts, ruleId) => ({ ...counts, [ruleId]: 0 }),
+    {} as Record<DuplicatePaymentRuleId, number>
+  );
+  const clusters: DuplicatePaymentCluster[] = [];
+  DUPLICATE_PAYMENT_RULE_IDS.forEach(ruleId => {
+    found
+      .filter(cluster => cluster.ruleId === ruleId)
+      .sort((a, b) => b.totalAmount - a.totalAmount)
+      .forEach((cluster, index) => {
+        clusters.push({ ...cluster, id: `${RULE_ID_PREFIXES[ruleId]}-${String(index + 1).padStart(3, '0')}` });
+      });
+    clusterCounts[ruleId] = clusters.filter(cluster => cluster.ruleId === ruleId).length;
+  });
+
+  return {
+    clusters,
+    totalEntries: population.length + undatedEntryCount,
+    clusterCounts,
+    flaggedEntryCount: new Set(clusters.flatMap(cluster => cluster.entries)).size,
+    invoiceReferenceCount,
+    undatedEntryCount,
+  };
+};
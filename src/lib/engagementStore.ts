@@ -0,0 +1,266 @@
+/**
+ * 감사 업무(Engagement) 저장소
+ * 고객사·회계연도 단위의 업무에 업로드한 원장/재무제표 파일과 AI·통계 분석 결과를 Supabase에 저장하고 다시 불러옵니다.
+ * 파일 정보는 general_ledgers, 분석 결과는 ledger_analysis에 업무 ID와 함께 기록합니다. (업무 없이 저장된 기존 행은 그대로 둠)
+ * 테이블과 Storage 객체는 모두 사용자별 RLS로 보호되며, 원본 파일은 "<user_id>/<engagement_id>/" 아래에 저장합니다.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import type { LedgerColumnMapping } from './ledgerModel';
+
+export type Engagement = Tables<'engagements'>;
+export type EngagementFile = Tables<'general_ledgers'>;
+export type EngagementResult = Tables<'ledger_analysis'>;
+
+export type EngagementFileKind = 'current_ledger' | 'previous_ledger' | 'older_ledger' | 'financial_statement';
+
+export const ENGAGEMENT_FILE_KIND_LABELS: Record<EngagementFileKind, string> = {
+  current_ledger: '당기 원장',
+  previous_ledger: '전기 원장',
+  older_ledger: '과거 연도 원장',
+  financial_statement: '재무제표',
+};
+
+export const ENGAGEMENT_RESULT_LABELS: Record<string, string> = {
+  ai_general: 'AI 종합 분석',
+  ai_holiday: 'AI 공휴일 분석',
+  ai_appropriateness: 'AI 적요 적합성 분석',
+  account_ai: '계정별원장 AI 분석',
+  sampling: '표본 추출',
+  jet: '분개 테스트 (JET)',
+  benford: '벤포드 분석',
+  duplicate_payments: '중복 지급 탐지',
+  anomaly_baseline: '기준선 이상 탐지',
+  circular_flows: '순환 거래 탐지',
+  number_forensics: '숫자 중복·RSF 분석',
+};
+
+const BUCKET = 'engagement-files';
+const ACTIVE_ENGAGEMENT_KEY = 'active_engagement_id';
+
+// 업무당 하나만 두는 파일 종류 (다시 업로드하면 교체)
+const SINGLE_FILE_KINDS: EngagementFileKind[] = ['current_ledger', 'previous_ledger', 'financial_statement'];
+
+const getUserId = async (): Promise<string> => {
+  const { data } = await supabase.auth.getSession();
+  const userId = data?.session?.user?.id;
+  if (!userId) throw new Error('로그인이 필요합니다.');
+  return userId;
+};
+
+/**
+ * 새로고침/화면 이동 후에도 이어서 작업할 수 있도록 현재 업무 ID를 기억합니다.
+ */
+export const getActiveEngagementId = (): string | null => localStorage.getItem(ACTIVE_ENGAGEMENT_KEY);
+
+export const setActiveEngagementId = (engagementId: string | null): void => {
+  if (engagementId) localStorage.setItem(ACTIVE_ENGAGEMENT_KEY, engagementId);
+  else localStorage.removeItem(ACTIVE_ENGAGEMENT_KEY);
+};
+
+/**
+ * 내 업무 목록 (최근 수정 순)
+ */
+export const listEngagements = async (): Promise<Engagement[]> => {
+  const { data, error } = await supabase
+    .from('engagements')
+    .select('*')
+    .order('updated_at', { ascending: false });
+  if (error) throw new Error(error.message);
+  return data || [];
+};
+
+export const getEngagement = async (engagementId: string): Promise<Engagement | null> => {
+  const { data, error } = await supabase
+    .from('engagements')
+    .select('*')
+    .eq('id', engagementId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  return data;
+};
+
+export const createEngagement = async (clientName: string, fiscalYear: number, memo?: string): Promise<Engagement> => {
+  const userId = await getUserId();
+  const { data, error } = await supabase
+    .from('engagements')
+    .insert({ user_id: userId, client_name: clientName.trim(), fiscal_year: fiscalYear, memo: memo || null })
+    .select()
+    .single();
+  if (error) throw new Error(error.message);
+  return data;
+};
+
+export const listEngagementFiles = async (engagementId: string): Promise<EngagementFile[]> => {
+  const { data, error } = await supabase
+    .from('general_ledgers')
+    .select('*')
+    .eq('engagement_id', engagementId)
+    .order('created_at', { ascending: true });
+  if (error) throw new Error(error.message);
+  return data || [];
+};
+
+const removeEngagementFiles = async (files: EngagementFile[]): Promise<void> => {
+  if (files.length === 0) return;
+  const { error: storageError } = await supabase.storage.from(BUCKET).remove(files.map(f => f.storage_path));
+  if (storageError) throw new Error(storageError.message);
+  const { error } = await supabase
+    .from('general_ledgers')
+    .delete()
+    .in('id', files.map(f => f.id));
+  if (error) throw new Error(error.message);
+};
+
+/**
+ * 업무 삭제 (Storage 객체는 테이블 cascade로 지워지지 않으므로 먼저 삭제)
+ */
+export const deleteEngagement = async (engagementId: string): Promise<void> => {
+  await removeEngagementFiles(await listEngagementFiles(engagementId));
+  const { error } = await supabase.from('engagements').delete().eq('id', engagementId);
+  if (error) throw new Error(error.message);
+  if (getActiveEngagementId() === engagementId) setActiveEngagementId(null);
+};
+
+/**
+ * 업무에 원본 파일을 저장합니다. 당기/전기 원장과 재무제표는 새 파일을 저장한 뒤 기존 파일을 지워 교체합니다.
+ */
+export const uploadEngagementFile = async (
+  engagementId: string,
+  kind: EngagementFileKind,
+  file: File,
+  options: { fiscalYear?: number | null; columnMappings?: Record<string, LedgerColumnMapping> } = {}
+): Promise<EngagementFile> => {
+  const userId = await getUserId();
+  const replaced = SINGLE_FILE_KINDS.includes(kind)
+    ? (await listEngagementFiles(engagementId)).filter(f => f.kind === kind)
+    : [];
+
+  // Storage 키에는 한글 파일명을 쓰지 않고, 원래 파일명은 테이블에 보관
+  const extension = file.name.includes('.') ? file.name.slice(file.name.lastIndexOf('.')) : '';
+  const storagePath = `${userId}/${engagementId}/${Date.now()}-${Math.random().toString(36).substr(2, 9)}${extension}`;
+  const { error: uploadError } = await supabase.storage
+    .from(BUCKET)
+    .upload(storagePath, file, { contentType: file.type || 'application/octet-stream' });
+  if (uploadError) throw new Error(uploadError.message);
+
+  const { data, error } = await supabase
+    .from('general_ledgers')
+    .insert({
+      engagement_id: engagementId,
+      user_id: userId,
+      kind,
+      file_name: file.name,
+      storage_path: storagePath,
+      fiscal_year: options.fiscalYear ?? null,
+      column_mappings: (options.columnMappings ?? null) as Json,
+    })
+    .select()
+    .single();
+  if (error) {
+    // 행을 만들지 못하면 방금 올린 객체를 정리 (기존 파일은 그대로 둠)
+    await supabase.storage.from(BUCKET).remove([storagePath]);
+    throw new Error(error.message);
+  }
+
+  // 새 파일이 저장된 뒤에 기존 파일을 지움 (업로드가 실패해도 업무에 원장이 남도록)
+  // 삭제에 실패한 이전 파일은 다음 교체 때 함께 정리되므로 저장 자체는 성공으로 봄
+  await removeEngagementFiles(replaced).catch(removeError => {
+    console.warn('이전 업무 파일 삭제 실패:', removeError);
+  });
+  return data;
+};
+
+export const removeEngagementFile = async (file: EngagementFile): Promise<void> => {
+  await removeEngagementFiles([file]);
+};
+
+/**
+ * 컬럼 매핑 마법사에서 확정한 매핑을 파일에 기록합니다. (다른 PC에서 열어도 같은 매핑으로 복원)
+ */
+export const updateEngagementFileMappings = async (
+  fileId: string,
+  mappings: Record<string, LedgerColumnMapping>
+): Promise<void> => {
+  const { error } = await supabase
+    .from('general_ledgers')
+    .update({ column_mappings: mappings as Json })
+    .eq('id', fileId);
+  if (error) throw new Error(error.message);
+};
+
+export const downloadEngagementFile = async (file: EngagementFile): Promise<File> => {
+  const { data, error } = await supabase.storage.from(BUCKET).download(file.storage_path);
+  if (error) throw new Error(error.message);
+  return new File([data], file.file_name, { type: data.type });
+};
+
+export const listEngagementResults = async (engagementId: string): Promise<EngagementResult[]> => {
+  const { data, error } = await supabase
+    .from('ledger_analysis')
+    .select('*')
+    .eq('engagement_id', engagementId)
+    .order('updated_at', { ascending: false });
+  if (error) throw new Error(error.message);
+  return data || [];
+};
+
+/**
+ * 분석 결과 저장 (같은 업무·분석 유형·키의 결과는 덮어씀)
+ */
+export const saveEngagementResult = async (
+  engagementId: string,
+  analysisType: string,
+  resultKey: string,
+  result: Json
+): Promise<void> => {
+  const userId = await getUserId();
+  const { error } = await supabase
+    .from('ledger_analysis')
+    .upsert(
+      { engagement_id: engagementId, user_id: userId, analysis_type: analysisType, result_key: resultKey, result },
+      { onConflict: 'engagement_id,analysis_type,result_key' }
+    );
+  if (error) throw new Error(error.message);
+};
+
+/**
+ * 현재 업무가 있으면 결과를 저장합니다. 저장 실패가 분석 흐름을 막지 않도록 경고만 남깁니다.
+ */
+export const saveResultToActiveEngagement = async (
+  analysisType: string,
+  resultKey: string,
+  result: unknown
+): Promise<void> => {
+  const engagementId = getActiveEngagementId();
+  if (!engagementId) return;
+  try {
+    await saveEngagementResult(engagementId, analysisType, resultKey, JSON.parse(JSON.stringify(result)) as Json);
+  } catch (error) {
+    console.warn('업무 결과 저장 실패:', error);
+  }
+};
+
+/**
+ * 현재 업무에 저장된 특정 분석 결과를 불러옵니다. 업무가 없거나 결과가 없으면 null.
+ */
+export const loadResultFromActiveEngagement = async <T>(
+  analysisType: string,
+  resultKey = ''
+): Promise<T | null> => {
+  const engagementId = getActiveEngagementId();
+  if (!engagementId) return null;
+  const { data, error } = await supabase
+    .from('ledger_analysis')
+    .select('result')
+    .eq('engagement_id', engagementId)
+    .eq('analysis_type', analysisType)
+    .eq('result_key', resultKey)
+    .maybeSingle();
+  if (error) {
+    console.warn('업무 결과 불러오기 실패:', error.message);
+    return null;
+  }
+  return (data?.result as T) ?? null;
+};
@@ -13,11 +13,54 @@ import { maskAccountNumbersInRows } from '@/lib/anonymization';
 
 export type LedgerRow = { [key: string]: string | number | Date | undefined };
 
+/**
+ * 합계행 유형
+ * - monthly: [ 월 계 ]
+ * - cumulative: [ 누 계 ]
+ * - carryForward: [ 전 기 이 월 ] (기초잔액 행)
+ */
+export type SummaryRowType = 'monthly' | 'cumulative' | 'carryForward';
+
+/**
+ * 월계/누계/전기이월 등 합계행 여부를 판별합니다.
+ * @returns 합계행 유형 또는 일반 거래행이면 null
+ */
+export const detectSummaryRow = (row: LedgerRow): SummaryRowType | null => {
+  for (const val of Object.values(row)) {
+    if (val === null || val === undefined || val instanceof Date) continue;
+    const normalized = String(val).replace(/\s/g, '');
+    if (normalized.includes('월계')) return 'monthly';
+    if (normalized.includes('누계')) return 'cumulative';
+    if (normalized.includes('[전기이월]') || normalized === '전기이월') return 'carryForward';
+  }
+  return null;
+};
+
 export const parseDate = (value: any): Date | null => {
   if (value instanceof Date && !isNaN(value.getTime())) {
     return value;
   }
   if (typeof value === 'string') {
+    const full = value.trim().match(/^(?<year>\d{4})[-/.]\s*(?<month>\d{1,2})[-/.]\s*(?<day>\d{1,2})\.?$/);
+    if (full && full.groups) {
+      const year = parseInt(full.groups.year, 10);
+      const month = parseInt(full.groups.month, 10) - 1;
+      const day = parseInt(full.groups.day, 10);
+      const d = new Date(year, month, day);
+      if (d.getFullYear() === year && d.getMonth() === month && d.getDate() === day) {
+        return d;
+      }
+    }
+    const compact = value.trim().match(/^(?<year>\d{4})(?<month>\d{2})(?<day>\d{2})$/);
+    if (compact && compact.groups) {
+      const year = parseInt(compact.groups.year, 10);
+      const month = parseInt(compact.groups.month, 10) - 1;
+      const day = parseInt(compact.groups.day, 10);
+      const d = new Date(year, month, day);
+      if (d.getFullYear() === year && d.getMonth() === month && d.getDate() === day) {
+        return d;
+      }
+    }
     const match = value.match(/^(?<month>\d{1,2})[-/](?<day>\d{1,2})$/);
     if (match && match.groups) {
       const currentYear = new Date().getFullYear();
@@ -39,7 +82,15 @@ export const parseDate = (value: any): Date | null => {
   return null;
 };
 
-export const getDataFromSheet = (worksheet: XLSX.WorkSheet | undefined): { data: LedgerRow[], headers: string[], orderedHeaders: string[] } => {
+export interface GetDataFromSheetOptions {
+  /** true이면 월계/누계/전기이월 행을 제거하지 않고 남겨둡니다 (통합 원장 모델에서 플래그로 구분) */
+  keepSummaryRows?: boolean;
+}
+
+export const getDataFromSheet = (
+  worksheet: XLSX.WorkSheet | undefined,
+  options: GetDataFromSheetOptions = {}
+): { data: LedgerRow[], headers: string[], orderedHeaders: string[] } => {
   if (!worksheet) return { data: [], headers: [], orderedHeaders: [] };
 
   const sheetDataAsArrays: any[][] = XLSX.utils.sheet_to_json(worksheet, { header: 1, defval: null });
@@ -119,28 +170,8 @@ export const getDataFromSheet = (worksheet: XLSX.WorkSheet | undefined): { data:
 
   // 필터링: 합계행, 빈행, 헤더 중복 제거 (기존 데이터에 영향 없음)
   const data = rawData.filter(row => {
-    // 1. 합계 행 제거: 모든 컬럼의 값을 확인하여 월계/누계 행 제거
-    const isMonthlyOrCumulative = Object.values(row).some(val => {
-      if (val === null || val === undefined) return false;
-      const str = String(val).trim();
-      // 공백 제거 후 정규화
-      const normalized = str.replace(/\s/g, '');
-      // 다양한 형태의 월계/누계 확인
-      return normalized.includes('월계') || 
-             normalized.includes('누계') ||
-             normalized.includes('[월계]') || 
-             normalized.includes('[누계]') ||
-             normalized === '월계' ||
-             normalized === '누계' ||
-             str.includes('[ 월계 ]') ||
-             str.includes('[ 누계 ]') ||
-             str.includes('[월 계]') ||
-             str.includes('[누 계]') ||
-             str.includes('[ 전 기 이 월 ]') ||
-             str.includes('[ 전기이월 ]');
-    });
-    
-    if (isMonthlyOrCumulative) {
+    // 1. 합계 행 제거: 모든 컬럼의 값을 확인하여 월계/누계/전기이월 행 제거
+    if (!options.keepSummaryRows && detectSummaryRow(row) !== null) {
       return false;
     }
     
@@ -1,9 +1,17 @@
 /**
  * Google Gemini API 직접 클라이언트
  * localStorage에서 API Key를 관리하고 직접 호출
+ * AI 설정에서 OpenAI 호환 공급자를 선택하면 analyzeWithFlash/analyzeWithPro는 해당 엔드포인트로 요청합니다.
  */
 
 import { GoogleGenerativeAI } from '@google/generative-ai';
+import {
+  generateWithOpenAiCompatible,
+  getGeminiModelCandidates,
+  getLlmSettings,
+  getTokenPricing,
+  isOpenAiCompatibleConfigured,
+} from './llmProvider';
 
 const API_KEY_STORAGE_KEY = 'gemini_api_key';
 
@@ -124,9 +132,12 @@ export const deleteApiKey = (): void => {
 };
 
 /**
- * API Key 존재 여부 확인
+ * AI 분석 사용 가능 여부 확인
+ * Gemini는 API Key가 있어야 하고, OpenAI 호환 공급자는 엔드포인트 주소와 모델이 있어야 합니다.
  */
 export const hasApiKey = (): boolean => {
+  const settings = getLlmSettings();
+  if (settings.provider === 'openai_compatible') return isOpenAiCompatibleConfigured(settings);
   return !!getApiKey();
 };
 
@@ -270,7 +281,7 @@ export const testApiKey = async (apiKey?: string): Promise<{ valid: boolean; mes
       };
     }
     
-    const testModels = ['gemini-3.1-flash-lite', 'gemini-3-pro-preview', 'gemini-2.5-flash', 'gemini-2.0-flash'];
+    const testModels = getGeminiModelCandidates('flash');
     let lastTestError: any = null;
     
     for (const testModel of testModels) {
@@ -584,6 +595,11 @@ export const analyzeWithFlash = async (
   prompt: string,
   apiKey?: string
 ): Promise<string> => {
+  // OpenAI 호환 엔드포인트(로컬 서버 등)를 선택한 경우 Gemini를 거치지 않고 바로 요청
+  if (getLlmSettings().provider === 'openai_compatible') {
+    return generateWithOpenAiCompatible(prompt, { tier: 'flash' });
+  }
+
   // 🔒 중복 호출 방지: 같은 요청이 이미 진행 중인지 확인
   const promptHash = prompt.substring(0, 50); // 프롬프트의 처음 50자로 해시 생성
   const tracker = getApiCallTracker();
@@ -662,13 +678,8 @@ export const analyzeWithFlash = async (
   
     console.log('✅ Gemini 클라이언트 생성 성공');
   
-  const modelsToTry = [
-    'gemini-3.1-flash-lite',  // 최신 Flash Lite (최우선)
-    'gemini-3-pro-preview',   // Pro Preview (두 번째)
-    'gemini-2.5-flash',       // 2.5 Flash (대체)
-    'gemini-2.0-flash',       // 이전 Flash (대체)
-    'gemini-1.5-flash',       // 안정적인 Flash (대체)
-  ];
+  // AI 설정에서 고른 모델이 최우선, 나머지는 기본 후보 순서대로 대체
+  const modelsToTry = getGeminiModelCandidates('flash');
   
   console.log('📋 시도할 모델 목록:', modelsToTry);
   
@@ -980,12 +991,16 @@ export const analyzeWithPro = async (
   prompt: string,
   apiKey?: string
 ): Promise<string> => {
+  if (getLlmSettings().provider === 'openai_compatible') {
+    return generateWithOpenAiCompatible(prompt, { tier: 'pro' });
+  }
+
   const client = createGeminiClient(apiKey);
   if (!client) {
     throw new Error('API Key가 설정되지 않았습니다. 설정 버튼을 클릭하여 Google Gemini API Key를 입력해주세요.');
   }
 
-  const proModels = ['gemini-3-pro-preview', 'gemini-3.1-flash-lite', 'gemini-2.5-flash', 'gemini-2.0-flash'];
+  const proModels = getGeminiModelCandidates('pro');
   let lastProError: any = null;
   for (const proModel of proModels) {
     try {
@@ -1017,19 +1032,13 @@ export const estimateTokens = (text: string): number => {
 
 /**
  * 예상 비용 계산 (원화)
+ * 선택한 AI 공급자의 단가를 사용합니다. (Gemini Flash $0.075/$0.30, Pro $1.25/$5.00 per 1M, 로컬 서버는 설정값)
  */
 export const estimateCost = (inputTokens: number, outputTokens: number = 2000, useFlash: boolean = true): number => {
   const exchangeRate = 1350; // $1 = ₩1,350
-  
-  if (useFlash) {
-    // Flash: $0.075 / 1M input, $0.30 / 1M output
-    const inputCost = (inputTokens / 1000000) * 0.075 * exchangeRate;
-    const outputCost = (outputTokens / 1000000) * 0.30 * exchangeRate;
-    return Math.ceil(inputCost + outputCost);
-  } else {
-    // Pro: $1.25 / 1M input, $5.00 / 1M output
-    const inputCost = (inputTokens / 1000000) * 1.25 * exchangeRate;
-    const outputCost = (outputTokens / 1000000) * 5.00 * exchangeRate;
-    return Math.ceil(inputCost + outputCost);
-  }
+  const pricing = getTokenPricing(useFlash ? 'flash' : 'pro');
+
+  const inputCost = (inputTokens / 1000000) * pricing.inputPerMillion * exchangeRate;
+  const outputCost = (outputTokens / 1000000) * pricing.outputPerMillion * exchangeRate;
+  return Math.ceil(inputCost + outputCost);
 };
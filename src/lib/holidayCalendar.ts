@@ -0,0 +1,433 @@
+/**
+ * 휴일 달력 (Holiday Calendar)
+ * 양력 공휴일, 음력 공휴일(설날·부처님오신날·추석), 대체공휴일, 선거일, 임시공휴일과
+ * 사용자가 등록한 회사 휴무일을 연도별로 계산합니다.
+ * 음력 공휴일은 한국 표준시(KST) 기준 합삭 시각과 중기(中氣)로 음력 월의 시작일을 구하므로
+ * 별도의 연도별 표 없이 모든 연도에 적용됩니다.
+ */
+
+import { parseDate } from './excelHelpers';
+
+export type DayType = 'weekday' | 'sat' | 'sun' | 'holiday';
+
+export type HolidayKind = 'national' | 'lunar' | 'substitute' | 'election' | 'temporary' | 'closure';
+
+export interface Holiday {
+  date: string; // YYYY-MM-DD
+  name: string; // 같은 날 공휴일이 겹치면 "어린이날 · 부처님오신날"처럼 합쳐서 표시
+  kind: HolidayKind;
+}
+
+export interface CompanyClosureDay {
+  date: string; // YYYY-MM-DD
+  name: string; // 예: "창립기념일", "하계휴가"
+}
+
+const CLOSURE_STORAGE_KEY = 'company_closure_days';
+
+const NATIONAL_HOLIDAYS: { md: string; name: string }[] = [
+  { md: '01-01', name: '신정' },
+  { md: '03-01', name: '삼일절' },
+  { md: '05-05', name: '어린이날' },
+  { md: '06-06', name: '현충일' },
+  { md: '08-15', name: '광복절' },
+  { md: '10-03', name: '개천절' },
+  { md: '10-09', name: '한글날' },
+  { md: '12-25', name: '성탄절' },
+];
+
+// 대통령 선거일은 보궐선거로 일정이 바뀌므로 실제 선거일을 기록합니다.
+const PRESIDENTIAL_ELECTION_DAYS = ['2017-05-09', '2022-03-09', '2025-06-03'];
+
+// 정부가 별도로 지정한 임시공휴일 (새로 지정되면 회사 휴무일로 추가해 사용)
+const TEMPORARY_HOLIDAYS: { date: string; name: string }[] = [
+  { date: '2015-08-14', name: '임시공휴일' },
+  { date: '2016-05-06', name: '임시공휴일' },
+  { date: '2017-10-02', name: '임시공휴일' },
+  { date: '2020-08-17', name: '임시공휴일' },
+  { date: '2023-10-02', name: '임시공휴일' },
+  { date: '2024-10-01', name: '국군의 날 (임시공휴일)' },
+  { date: '2025-01-27', name: '임시공휴일' },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const KST_OFFSET_DAYS = 9 / 24;
+const SYNODIC_MONTH = 29.530588861;
+
+const holidayCache = new Map<number, Holiday[]>(); // 연도 → 공휴일 목록 (회사 휴무일 제외)
+let closureCache: CompanyClosureDay[] | null = null;
+let closureByDate: Map<string, CompanyClosureDay> | null = null;
+
+const pad2 = (n: number): string => String(n).padStart(2, '0');
+
+/**
+ * Date를 로컬 일자 기준 YYYY-MM-DD 문자열로 변환합니다. (toISOString은 UTC라 KST 자정이 전날로 바뀜)
+ */
+export const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${pad2(date.getMonth() + 1)}-${pad2(date.getDate())}`;
+
+/**
+ * 원장의 다양한 일자 표기(Date, 'YYYY-MM-DD', 'YYYYMMDD', 'YYYY.MM.DD', 시각 포함 문자열, 엑셀 일련번호)를
+ * YYYY-MM-DD로 정규화합니다. 해석할 수 없으면 null.
+ */
+export const normalizeDateKey = (value: unknown): string | null => {
+  if (value === null || value === undefined || value === '') return null;
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : toDateKey(value);
+  const raw = typeof value === 'string' ? value.trim().split('T')[0].split(' ')[0] : value;
+  const parsed = parseDate(raw);
+  return parsed ? toDateKey(parsed) : null;
+};
+
+// ---- 천문 계산 (Meeus, Astronomical Algorithms) ----
+// 율리우스일(JD)과 일자 번호(JDN) 변환. JDN은 해당 일자 정오의 율리우스일입니다.
+
+const dateToJdn = (year: number, month: number, day: number): number =>
+  Math.round(Date.UTC(year, month - 1, day) / DAY_MS) + 2440588;
+
+const dateKeyToJdn = (dateKey: string): number =>
+  dateToJdn(Number(dateKey.slice(0, 4)), Number(dateKey.slice(5, 7)), Number(dateKey.slice(8, 10)));
+
+const jdnToDateKey = (jdn: number): string => {
+  const d = new Date((jdn - 2440588) * DAY_MS);
+  return `${d.getUTCFullYear()}-${pad2(d.getUTCMonth() + 1)}-${pad2(d.getUTCDate())}`;
+};
+
+/** 세계시(UT) 율리우스일이 속한 한국 표준시 일자 번호 */
+const jdToKstJdn = (jd: number): number => Math.floor(jd + 0.5 + KST_OFFSET_DAYS);
+
+const toRadians = (deg: number): number => (deg * Math.PI) / 180;
+
+const normalizeDegrees = (deg: number): number => ((deg % 360) + 360) % 360;
+
+/** 지구 자전 지연 보정값 ΔT (초, Espenak–Meeus 근사식). 분 단위 정밀도에는 충분합니다. */
+const getDeltaT = (year: number): number => {
+  if (year >= 2005 && year <= 2050) {
+    const t = year - 2000;
+    return 62.92 + 0.32217 * t + 0.005589 * t * t;
+  }
+  const u = (year - 1820) / 100;
+  return -20 + 32 * u * u;
+};
+
+/** k번째 합삭(삭)의 세계시 율리우스일 (k = 0: 2000-01-06 합삭) */
+const getNewMoonJd = (k: number): number => {
+  const T = k / 1236.85;
+  const T2 = T * T;
+  const T3 = T2 * T;
+  const T4 = T3 * T;
+
+  const jde = 2451550.09766 + SYNODIC_MONTH * k + 0.00015437 * T2 - 0.00000015 * T3 + 0.00000000073 * T4;
+  const E = 1 - 0.002516 * T - 0.0000074 * T2;
+  const M = toRadians(2.5534 + 29.1053567 * k - 0.0000014 * T2 - 0.00000011 * T3);
+  const Mp = toRadians(201.5643 + 385.81693528 * k + 0.0107582 * T2 + 0.00001238 * T3 - 0.000000058 * T4);
+  const F = toRadians(160.7108 + 390.67050284 * k - 0.0016118 * T2 - 0.00000227 * T3 + 0.000000011 * T4);
+  const omega = toRadians(124.7746 - 1.56375588 * k + 0.0020672 * T2 + 0.00000215 * T3);
+
+  const correction =
+    -0.4072 * Math.sin(Mp) +
+    0.17241 * E * Math.sin(M) +
+    0.01608 * Math.sin(2 * Mp) +
+    0.01039 * Math.sin(2 * F) +
+    0.00739 * E * Math.sin(Mp - M) -
+    0.00514 * E * Math.sin(Mp + M) +
+    0.00208 * E * E * Math.sin(2 * M) -
+    0.00111 * Math.sin(Mp - 2 * F) -
+    0.00057 * Math.sin(Mp + 2 * F) +
+    0.00056 * E * Math.sin(2 * Mp + M) -
+    0.00042 * Math.sin(3 * Mp) +
+    0.00042 * E * Math.sin(M + 2 * F) +
+    0.00038 * E * Math.sin(M - 2 * F) -
+    0.00024 * E * Math.sin(2 * Mp - M) -
+    0.00017 * Math.sin(omega) -
+    0.00007 * Math.sin(Mp + 2 * M) +
+    0.00004 * Math.sin(2 * Mp - 2 * F) +
+    0.00004 * Math.sin(3 * M) +
+    0.00003 * Math.sin(Mp + M - 2 * F) +
+    0.00003 * Math.sin(2 * Mp + 2 * F) -
+    0.00003 * Math.sin(Mp + M + 2 * F) +
+    0.00003 * Math.sin(Mp - M + 2 * F) -
+    0.00002 * Math.sin(Mp - M - 2 * F) -
+    0.00002 * Math.sin(3 * Mp + M) +
+    0.00002 * Math.sin(4 * Mp);
+
+  const year = 2000 + k / 12.3685;
+  return jde + correction - getDeltaT(year) / 86400;
+};
+
+/** 태양의 겉보기 황경 (도) */
+const getSolarLongitude = (jd: number): number => {
+  const T = (jd - 2451545) / 36525;
+  const L0 = 280.46646 + 36000.76983 * T + 0.0003032 * T * T;
+  const M = toRadians(357.52911 + 35999.05029 * T - 0.0001537 * T * T);
+  const C =
+    (1.914602 - 0.004817 * T - 0.000014 * T * T) * Math.sin(M) +
+    (0.019993 - 0.000101 * T) * Math.sin(2 * M) +
+    0.000289 * Math.sin(3 * M);
+  const omega = toRadians(125.04 - 1934.136 * T);
+  return normalizeDegrees(L0 + C - 0.00569 - 0.00478 * Math.sin(omega));
+};
+
+/** 태양 황경이 longitude가 되는 시각 (근사 시작일 부근에서 반복 계산) */
+const getSolarTermJd = (longitude: number, approxJd: number): number => {
+  let jd = approxJd;
+  for (let i = 0; i < 6; i++) {
+    let diff = longitude - getSolarLongitude(jd);
+    if (diff > 180) diff -= 360;
+    if (diff < -180) diff += 360;
+    jd += (diff * 365.2422) / 360;
+  }
+  return jd;
+};
+
+/**
+ * 중기(中氣)를 포함하는 음력 월의 초하루 일자 번호를 구합니다.
+ * 음력 정월은 우수(330°), 4월은 소만(60°), 8월은 추분(180°)을 포함하는 달이며,
+ * 초하루는 해당 중기 당일 또는 그 이전의 가장 가까운 합삭이 있는 날(KST)입니다.
+ */
+const getLunarMonthStartJdn = (year: number, termLongitude: number, approxMonth: number, approxDay: number): number => {
+  const termJd = getSolarTermJd(termLongitude, dateToJdn(year, approxMonth, approxDay));
+  const termJdn = jdToKstJdn(termJd);
+  const k0 = Math.floor((termJd - 2451550.09766) / SYNODIC_MONTH);
+  for (let k = k0 + 1; k >= k0 - 1; k--) {
+    const newMoonJdn = jdToKstJdn(getNewMoonJd(k));
+    if (newMoonJdn <= termJdn) return newMoonJdn;
+  }
+  return jdToKstJdn(getNewMoonJd(k0 - 1));
+};
+
+/**
+ * 연도별 음력 공휴일 (설날 연휴 3일, 부처님오신날, 추석 연휴 3일)
+ */
+export const getLunarHolidays = (year: number): Holiday[] => {
+  const seollal = getLunarMonthStartJdn(year, 330, 2, 19);
+  const buddha = getLunarMonthStartJdn(year, 60, 5, 21) + 7; // 음력 4월 8일
+  const chuseok = getLunarMonthStartJdn(year, 180, 9, 23) + 14; // 음력 8월 15일
+
+  return [
+    { date: jdnToDateKey(seollal - 1), name: '설날 연휴', kind: 'lunar' },
+    { date: jdnToDateKey(seollal), name: '설날', kind: 'lunar' },
+    { date: jdnToDateKey(seollal + 1), name: '설날 연휴', kind: 'lunar' },
+    { date: jdnToDateKey(buddha), name: '부처님오신날', kind: 'lunar' },
+    { date: jdnToDateKey(chuseok - 1), name: '추석 연휴', kind: 'lunar' },
+    { date: jdnToDateKey(chuseok), name: '추석', kind: 'lunar' },
+    { date: jdnToDateKey(chuseok + 1), name: '추석 연휴', kind: 'lunar' },
+  ];
+};
+
+// ---- 선거일 ----
+
+const getWeekday = (jdn: number): number => (jdn + 1) % 7; // 0: 일요일
+
+/**
+ * 임기만료 선거일: 기준일 이후 첫 번째 수요일.
+ * 그 날이 공휴일이거나 전날/다음날이 공휴일이면 다음 주 수요일 (공직선거법 제34조)
+ */
+const getScheduledElectionJdn = (baseJdn: number, isHoliday: (jdn: number) => boolean): number => {
+  let jdn = baseJdn + ((3 - getWeekday(baseJdn) + 7) % 7);
+  if (isHoliday(jdn) || isHoliday(jdn - 1) || isHoliday(jdn + 1)) jdn += 7;
+  return jdn;
+};
+
+const getElectionDays = (year: number, isHoliday: (jdn: number) => boolean): Holiday[] => {
+  const result: Holiday[] = PRESIDENTIAL_ELECTION_DAYS
+    .filter(date => date.startsWith(`${year}-`))
+    .map(date => ({ date, name: '대통령 선거일', kind: 'election' }));
+
+  // 국회의원 선거: 임기만료일(5월 29일) 전 50일 이후 첫 번째 수요일
+  if (year >= 2012 && year % 4 === 0) {
+    const jdn = getScheduledElectionJdn(dateToJdn(year, 5, 29) - 50, isHoliday);
+    result.push({ date: jdnToDateKey(jdn), name: '국회의원 선거일', kind: 'election' });
+  }
+  // 전국동시지방선거: 임기만료일(6월 30일) 전 30일 이후 첫 번째 수요일
+  if (year >= 2010 && (year - 2010) % 4 === 0) {
+    const jdn = getScheduledElectionJdn(dateToJdn(year, 6, 30) - 30, isHoliday);
+    result.push({ date: jdnToDateKey(jdn), name: '지방선거일', kind: 'election' });
+  }
+  return result;
+};
+
+// ---- 대체공휴일 ----
+
+const SUBSTITUTE_ON_WEEKEND_SINCE: Record<string, string> = {
+  삼일절: '2021-08-04',
+  광복절: '2021-08-04',
+  개천절: '2021-08-04',
+  한글날: '2021-08-04',
+  부처님오신날: '2023-05-04',
+  성탄절: '2023-05-04',
+};
+
+/**
+ * 대체공휴일 계산 (관공서의 공휴일에 관한 규정 제3조)
+ * - 설날·추석 연휴: 일요일 또는 다른 공휴일과 겹친 날 수만큼 (2014년부터)
+ * - 어린이날: 토요일·일요일 또는 다른 공휴일과 겹치면 (2014년부터)
+ * - 삼일절·광복절·개천절·한글날(2021년 8월부터), 부처님오신날·성탄절(2023년 5월부터): 토요일·일요일과 겹치면
+ * 대체공휴일은 공휴일이 아닌 첫 번째 평일로 지정합니다.
+ */
+const getSubstituteHolidays = (year: number, holidays: Holiday[]): Holiday[] => {
+  const namesByDate = new Map<string, string[]>();
+  holidays.forEach(h => namesByDate.set(h.date, [...(namesByDate.get(h.date) || []), h.name]));
+
+  const isOff = (jdn: number): boolean => {
+    const weekday = getWeekday(jdn);
+    return weekday === 0 || weekday === 6 || namesByDate.has(jdnToDateKey(jdn));
+  };
+  const overlapsOther = (date: string): boolean => (namesByDate.get(date) || []).length > 1;
+
+  const result: Holiday[] = [];
+  const assign = (afterJdn: number, count: number, name: string) => {
+    let jdn = afterJdn;
+    for (let i = 0; i < count; i++) {
+      do { jdn++; } while (isOff(jdn));
+      const date = jdnToDateKey(jdn);
+      namesByDate.set(date, [`${name} 대체공휴일`]);
+      result.push({ date, name: `${name} 대체공휴일`, kind: 'substitute' });
+    }
+  };
+
+  if (year >= 2014) {
+    (['설날', '추석'] as const).forEach(name => {
+      const days = holidays.filter(h => h.kind === 'lunar' && h.name.startsWith(name));
+      const overlaps = days.filter(h => getWeekday(dateKeyToJdn(h.date)) === 0 || overlapsOther(h.date)).length;
+      const last = days[days.length - 1];
+      if (last && overlaps > 0) assign(dateKeyToJdn(last.date), overlaps, name);
+    });
+  }
+
+  holidays
+    .filter(h => h.name === '어린이날' || SUBSTITUTE_ON_WEEKEND_SINCE[h.name])
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .forEach(h => {
+      const jdn = dateKeyToJdn(h.date);
+      const weekday = getWeekday(jdn);
+      const onWeekend = weekday === 0 || weekday === 6;
+      if (h.name === '어린이날') {
+        if (year >= 2014 && (onWeekend || overlapsOther(h.date))) assign(jdn, 1, h.name);
+      } else if (onWeekend && h.date >= SUBSTITUTE_ON_WEEKEND_SINCE[h.name]) {
+        assign(jdn, 1, h.name);
+      }
+    });
+
+  return result;
+};
+
+/**
+ * 같은 날짜의 공휴일을 하나로 합칩니다. (예: 2025-05-05 어린이날 · 부처님오신날)
+ */
+const mergeByDate = (holidays: Holiday[]): Holiday[] => {
+  const byDate = new Map<string, Holiday>();
+  holidays.forEach(h => {
+    const existing = byDate.get(h.date);
+    if (existing) {
+      if (!existing.name.split(' · ').includes(h.name)) existing.name = `${existing.name} · ${h.name}`;
+    } else {
+      byDate.set(h.date, { ...h });
+    }
+  });
+  return Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * 연도별 법정 공휴일 목록 (양력·음력 공휴일, 선거일, 임시공휴일, 대체공휴일). 회사 휴무일은 포함하지 않습니다.
+ */
+export const getPublicHolidays = (year: number): Holiday[] => {
+  const cached = holidayCache.get(year);
+  if (cached) return cached;
+
+  const base: Holiday[] = [
+    ...NATIONAL_HOLIDAYS
+      // 한글날은 1991~2012년에는 공휴일이 아니었음
+      .filter(h => h.name !== '한글날' || year < 1991 || year >= 2013)
+      .map(h => ({ date: `${year}-${h.md}`, name: h.name, kind: 'national' as const })),
+    ...getLunarHolidays(year).filter(h => h.date.startsWith(`${year}-`)),
+    ...TEMPORARY_HOLIDAYS
+      .filter(h => h.date.startsWith(`${year}-`))
+      .map(h => ({ ...h, kind: 'temporary' as const })),
+  ];
+
+  const baseDates = new Set(base.map(h => h.date));
+  const elections = getElectionDays(year, jdn => baseDates.has(jdnToDateKey(jdn)));
+  const all = [...base, ...elections];
+  const result = mergeByDate([...all, ...getSubstituteHolidays(year, all)]);
+
+  holidayCache.set(year, result);
+  return result;
+};
+
+// ---- 회사 휴무일 ----
+
+/**
+ * 사용자가 등록한 회사 휴무일 목록
+ */
+export const getCompanyClosureDays = (): CompanyClosureDay[] => {
+  if (closureCache) return closureCache;
+  const stored = localStorage.getItem(CLOSURE_STORAGE_KEY);
+  try {
+    closureCache = stored ? JSON.parse(stored) : [];
+  } catch {
+    closureCache = [];
+  }
+  closureByDate = null;
+  return closureCache!;
+};
+
+const saveCompanyClosureDays = (days: CompanyClosureDay[]): CompanyClosureDay[] => {
+  closureCache = [...days].sort((a, b) => a.date.localeCompare(b.date));
+  closureByDate = null;
+  localStorage.setItem(CLOSURE_STORAGE_KEY, JSON.stringify(closureCache));
+  return closureCache;
+};
+
+/**
+ * 회사 휴무일 추가 (같은 날짜가 있으면 이름을 바꿈). 변경된 전체 목록을 반환합니다.
+ */
+export const addCompanyClosureDay = (date: string, name: string): CompanyClosureDay[] => {
+  const key = normalizeDateKey(date);
+  if (!key) throw new Error(`휴무일 날짜를 해석할 수 없습니다: ${date}`);
+  const days = getCompanyClosureDays().filter(d => d.date !== key);
+  return saveCompanyClosureDays([...days, { date: key, name: name.trim() || '회사 휴무일' }]);
+};
+
+/**
+ * 회사 휴무일 삭제. 변경된 전체 목록을 반환합니다.
+ */
+export const removeCompanyClosureDay = (date: string): CompanyClosureDay[] => {
+  return saveCompanyClosureDays(getCompanyClosureDays().filter(d => d.date !== date));
+};
+
+const findClosureDay = (dateKey: string, closureDays?: CompanyClosureDay[]): CompanyClosureDay | undefined => {
+  if (closureDays) return closureDays.find(d => d.date === dateKey);
+  if (!closureByDate) {
+    closureByDate = new Map(getCompanyClosureDays().map(d => [d.date, d]));
+  }
+  return closureByDate.get(dateKey);
+};
+
+// ---- 조회 ----
+
+/**
+ * 해당 일자의 공휴일 또는 회사 휴무일 정보를 반환합니다. 평일/주말이면 undefined.
+ * closureDays를 넘기지 않으면 저장된 회사 휴무일을 사용합니다.
+ */
+export const getHoliday = (value: unknown, closureDays?: CompanyClosureDay[]): Holiday | undefined => {
+  const dateKey = normalizeDateKey(value);
+  if (!dateKey) return undefined;
+  const holiday = getPublicHolidays(Number(dateKey.slice(0, 4))).find(h => h.date === dateKey);
+  if (holiday) return holiday;
+  const closure = findClosureDay(dateKey, closureDays);
+  return closure ? { date: closure.date, name: closure.name, kind: 'closure' } : undefined;
+};
+
+/**
+ * 일자의 유형 (평일/토요일/일요일/공휴일). 주말과 겹친 공휴일·회사 휴무일은 공휴일로 봅니다.
+ * 일자를 해석할 수 없으면 평일로 취급합니다.
+ */
+export const getDayType = (value: unknown, closureDays?: CompanyClosureDay[]): DayType => {
+  const dateKey = normalizeDateKey(value);
+  if (!dateKey) return 'weekday';
+  if (getHoliday(dateKey, closureDays)) return 'holiday';
+  const day = getWeekday(dateKeyToJdn(dateKey));
+  if (day === 0) return 'sun';
+  if (day === 6) return 'sat';
+  return 'weekday';
+};
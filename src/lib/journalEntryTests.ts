@@ -0,0 +1,306 @@
+/**
+ * 분개 테스트 (Journal Entry Test, JET)
+ * 감사기준서 240(부정 위험)에서 요구하는 분개 검토 기준을 규칙으로 정의하고, 원장의 모든 분개 라인에 적용해
+ * 규칙별 해당 여부와 가중치 합으로 계산한 위험 점수(0~100)를 반환합니다.
+ * 규칙은 각각 켜고 끌 수 있으며 기준 금액·허용 범위 등 파라미터를 조정할 수 있습니다. 설정은 localStorage에 저장합니다.
+ */
+
+import type { JournalEntry } from '@/types/analysis';
+import { getPostingEntries, type NormalizedLedger } from './ledgerModel';
+import { buildVoucherBook, getVoucherKey } from './voucherModel';
+import { getDayType, getHoliday, normalizeDateKey, type CompanyClosureDay } from './holidayCalendar';
+import { getLedgerFiscalYear } from './multiPeriodComparison';
+
+export type JetRuleId =
+  | 'holiday' // 주말·공휴일 전표
+  | 'roundAmount' // 라운드 금액
+  | 'belowThreshold' // 승인한도 직하 금액
+  | 'unusualPair' // 비경상적 계정 조합
+  | 'blankDescription' // 적요 누락
+  | 'postClosing'; // 결산일 이후 전표
+
+interface JetRuleToggle {
+  enabled: boolean;
+  weight: number; // 위험 점수 가중치 (1~10)
+}
+
+export interface JetSettings {
+  holiday: JetRuleToggle & {
+    includeSaturday: boolean; // 토요일도 휴일로 볼지 여부
+  };
+  roundAmount: JetRuleToggle & {
+    unit: number; // 이 금액 단위로 나누어떨어지면 라운드 금액 (원)
+    minAmount: number; // 검토 최소 금액 (원)
+  };
+  belowThreshold: JetRuleToggle & {
+    thresholds: number[]; // 전결 규정상 승인한도 (원)
+    marginPercent: number; // 한도 아래 몇 %까지를 직하로 볼지
+  };
+  unusualPair: JetRuleToggle & {
+    maxOccurrences: number; // 차변·대변 계정 조합이 이 횟수 이하로 나타나면 비경상적
+  };
+  blankDescription: JetRuleToggle & {
+    minLength: number; // 공백·기호를 제외한 적요 최소 글자 수
+  };
+  postClosing: JetRuleToggle & {
+    closingDate: string; // 결산 마감일 (YYYY-MM-DD). 비어 있으면 원장 회계연도 말일
+  };
+}
+
+export interface JetHit {
+  ruleId: JetRuleId;
+  reason: string;
+}
+
+export interface JetEntryResult {
+  entry: JournalEntry;
+  amount: number;
+  voucherKey: string | null;
+  hits: JetHit[];
+  score: number; // 해당 규칙 가중치 합 / 사용 중인 규칙 가중치 합 × 100
+}
+
+export interface JetResult {
+  flagged: JetEntryResult[]; // 규칙에 하나 이상 해당한 라인 (점수 내림차순)
+  totalEntries: number;
+  ruleCounts: Record<JetRuleId, number>;
+  skippedRules: { ruleId: JetRuleId; reason: string }[]; // 데이터가 없어 적용하지 못한 규칙
+  closingDate: string | null;
+}
+
+export type JetRiskLevel = 'high' | 'medium' | 'low';
+
+export const JET_RULE_IDS: JetRuleId[] = [
+  'holiday',
+  'roundAmount',
+  'belowThreshold',
+  'unusualPair',
+  'blankDescription',
+  'postClosing',
+];
+
+export const JET_RULE_LABELS: Record<JetRuleId, string> = {
+  holiday: '주말·공휴일 전표',
+  roundAmount: '라운드 금액',
+  belowThreshold: '승인한도 직하 금액',
+  unusualPair: '비경상적 계정 조합',
+  blankDescription: '적요 누락',
+  postClosing: '결산일 이후 전표',
+};
+
+export const JET_RULE_DESCRIPTIONS: Record<JetRuleId, string> = {
+  holiday: '주말, 법정 공휴일, 회사 휴무일에 기록된 전표',
+  roundAmount: '지정한 단위로 나누어떨어지는 큰 금액 (추정·조작 금액일 가능성)',
+  belowThreshold: '전결 규정상 승인한도 바로 아래 금액 (승인 회피 목적의 금액 조정 가능성)',
+  unusualPair: '모집단에서 거의 나타나지 않는 차변·대변 계정 조합 (전표번호 필요)',
+  blankDescription: '적요가 비어 있거나 지나치게 짧은 전표',
+  postClosing: '결산 마감일 이후 일자로 기록된 전표',
+};
+
+export const JET_RISK_LEVEL_LABELS: Record<JetRiskLevel, string> = {
+  high: '높음',
+  medium: '중간',
+  low: '낮음',
+};
+
+const SETTINGS_STORAGE_KEY = 'jet_settings';
+
+export const DEFAULT_JET_SETTINGS: JetSettings = {
+  holiday: { enabled: true, weight: 3, includeSaturday: true },
+  roundAmount: { enabled: true, weight: 2, unit: 1000000, minAmount: 10000000 },
+  belowThreshold: { enabled: true, weight: 3, thresholds: [10000000, 50000000, 100000000], marginPercent: 5 },
+  unusualPair: { enabled: true, weight: 4, maxOccurrences: 2 },
+  blankDescription: { enabled: true, weight: 2, minLength: 2 },
+  postClosing: { enabled: true, weight: 5, closingDate: '' },
+};
+
+/**
+ * 저장된 JET 설정 (저장 이후 추가된 규칙·파라미터는 기본값으로 채움)
+ */
+export const getJetSettings = (): JetSettings => {
+  const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+  if (!stored) return DEFAULT_JET_SETTINGS;
+  try {
+    const parsed = JSON.parse(stored) as Partial<JetSettings>;
+    return JET_RULE_IDS.reduce((settings, ruleId) => ({
+      ...settings,
+      [ruleId]: { ...DEFAULT_JET_SETTINGS[ruleId], ...(parsed[ruleId] || {}) },
+    }), DEFAULT_JET_SETTINGS);
+  } catch {
+    return DEFAULT_JET_SETTINGS;
+  }
+};
+
+export const saveJetSettings = (settings: JetSettings): void => {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const getJetRiskLevel = (score: number): JetRiskLevel => {
+  if (score >= 60) return 'high';
+  if (score >= 30) return 'medium';
+  return 'low';
+};
+
+/**
+ * 분개 라인 금액 (차변 또는 대변 한쪽만 있는 라인 기준)
+ */
+const getEntryAmount = (entry: JournalEntry): number => Math.abs(entry.debit || 0) + Math.abs(entry.credit || 0);
+
+/**
+ * 원장 회계연도 말일 (거래가 가장 많은 연도의 12월 31일)
+ */
+const getDefaultClosingDate = (ledger: NormalizedLedger): string | null => {
+  const fiscalYear = getLedgerFiscalYear(ledger);
+  return fiscalYear === null ? null : `${fiscalYear}-12-31`;
+};
+
+/**
+ * 전표별 차변 계정 × 대변 계정 조합의 출현 전표 수 (같은 전표 안의 중복 조합은 한 번만 셈)
+ */
+const countAccountPairs = (vouchers: { lines: JournalEntry[] }[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  vouchers.forEach(voucher => {
+    const debitAccounts = new Set(voucher.lines.filter(l => l.debit !== 0).map(l => l.accountName));
+    const creditAccounts = new Set(voucher.lines.filter(l => l.credit !== 0).map(l => l.accountName));
+    debitAccounts.forEach(debitAccount => {
+      creditAccounts.forEach(creditAccount => {
+        if (debitAccount === creditAccount) return;
+        const key = `${debitAccount}\u0000${creditAccount}`;
+        counts.set(key, (counts.get(key) || 0) + 1);
+      });
+    });
+  });
+  return counts;
+};
+
+/**
+ * 원장의 모든 분개 라인에 사용 중인 규칙을 적용합니다.
+ * @param closureDays 회사 휴무일 (넘기지 않으면 저장된 휴무일 사용)
+ */
+export const runJournalEntryTests = (
+  ledger: NormalizedLedger,
+  settings: JetSettings,
+  closureDays?: CompanyClosureDay[]
+): JetResult => {
+  const entries = getPostingEntries(ledger);
+  const ruleCounts = JET_RULE_IDS.reduce(
+    (counts, ruleId) => ({ ...counts, [ruleId]: 0 }),
+    {} as Record<JetRuleId, number>
+  );
+  const skippedRules: JetResult['skippedRules'] = [];
+  const activeRules = JET_RULE_IDS.filter(ruleId => settings[ruleId].enabled);
+
+  // 비경상적 계정 조합: 전표 단위로 차변·대변 계정 조합 빈도를 계산
+  let pairCounts: Map<string, number> | null = null;
+  let voucherLines: Map<string, JournalEntry[]> | null = null;
+  if (settings.unusualPair.enabled) {
+    const book = buildVoucherBook(entries);
+    if (book.vouchers.length === 0) {
+      skippedRules.push({ ruleId: 'unusualPair', reason: '전표번호 컬럼이 없어 전표 단위 계정 조합을 만들 수 없습니다.' });
+    } else {
+      pairCounts = countAccountPairs(book.vouchers);
+      voucherLines = new Map(book.vouchers.map(v => [v.key, v.lines]));
+    }
+  }
+
+  const closingDate = settings.postClosing.enabled
+    ? (normalizeDateKey(settings.postClosing.closingDate) || getDefaultClosingDate(ledger))
+    : null;
+  if (settings.postClosing.enabled && !closingDate) {
+    skippedRules.push({ ruleId: 'postClosing', reason: '거래 일자를 읽을 수 없어 결산일을 정할 수 없습니다.' });
+  }
+
+  const totalWeight = activeRules
+    .filter(ruleId => !skippedRules.some(s => s.ruleId === ruleId))
+    .reduce((sum, ruleId) => sum + Math.max(0, settings[ruleId].weight), 0);
+  const thresholds = [...settings.belowThreshold.thresholds].filter(t => t > 0).sort((a, b) => a - b);
+  const { unit: roundUnit, minAmount: roundMinAmount } = settings.roundAmount;
+
+  const flagged: JetEntryResult[] = [];
+
+  entries.forEach(entry => {
+    const hits: JetHit[] = [];
+    const amount = getEntryAmount(entry);
+    const dateKey = normalizeDateKey(entry.date);
+    const voucherKey = getVoucherKey(entry);
+
+    if (settings.holiday.enabled && dateKey) {
+      const dayType = getDayType(dateKey, closureDays);
+      if (dayType === 'holiday') {
+        hits.push({ ruleId: 'holiday', reason: `공휴일 (${getHoliday(dateKey, closureDays)?.name || '휴일'})` });
+      } else if (dayType === 'sun') {
+        hits.push({ ruleId: 'holiday', reason: '일요일' });
+      } else if (dayType === 'sat' && settings.holiday.includeSaturday) {
+        hits.push({ ruleId: 'holiday', reason: '토요일' });
+      }
+    }
+
+    if (settings.roundAmount.enabled && roundUnit > 0 && amount >= roundMinAmount && amount % roundUnit === 0) {
+      hits.push({ ruleId: 'roundAmount', reason: `${roundUnit.toLocaleString()}원 단위 금액` });
+    }
+
+    if (settings.belowThreshold.enabled) {
+      const threshold = thresholds.find(t => amount < t && amount >= t * (1 - settings.belowThreshold.marginPercent / 100));
+      if (threshold) {
+        const percent = ((threshold - amount) / threshold) * 100;
+        hits.push({ ruleId: 'belowThreshold', reason: `승인한도 ${threshold.toLocaleString()}원 대비 ${percent.toFixed(1)}% 미달` });
+      }
+    }
+
+    if (pairCounts && voucherLines && voucherKey) {
+      const lines = voucherLines.get(voucherKey) || [];
+      const counterLines = lines.filter(l => (entry.debit !== 0 ? l.credit !== 0 : l.debit !== 0));
+      const rarePairs = Array.from(new Set(counterLines.map(l => l.accountName)))
+        .filter(counterAccount => counterAccount !== entry.accountName)
+        .map(counterAccount => {
+          const [debitAccount, creditAccount] = entry.debit !== 0
+            ? [entry.accountName, counterAccount]
+            : [counterAccount, entry.accountName];
+          return { debitAccount, creditAccount, count: pairCounts!.get(`${debitAccount}\u0000${creditAccount}`) || 0 };
+        })
+        .filter(pair => pair.count > 0 && pair.count <= settings.unusualPair.maxOccurrences);
+      if (rarePairs.length > 0) {
+        hits.push({
+          ruleId: 'unusualPair',
+          reason: rarePairs
+            .map(p => `(차) ${p.debitAccount} / (대) ${p.creditAccount} ${p.count}회`)
+            .join(', '),
+        });
+      }
+    }
+
+    if (settings.blankDescription.enabled) {
+      const meaningful = (entry.description || '').replace(/[\s\p{P}\p{S}]/gu, '');
+      if (meaningful.length < settings.blankDescription.minLength) {
+        hits.push({ ruleId: 'blankDescription', reason: meaningful.length === 0 ? '적요 없음' : `적요 ${meaningful.length}자` });
+      }
+    }
+
+    if (closingDate && dateKey && dateKey > closingDate) {
+      hits.push({ ruleId: 'postClosing', reason: `결산일(${closingDate}) 이후 ${dateKey}` });
+    }
+
+    if (hits.length === 0) return;
+    hits.forEach(hit => {
+      ruleCounts[hit.ruleId]++;
+    });
+    const hitWeight = hits.reduce((sum, hit) => sum + Math.max(0, settings[hit.ruleId].weight), 0);
+    flagged.push({
+      entry,
+      amount,
+      voucherKey,
+      hits,
+      score: totalWeight > 0 ? Math.round((hitWeight / totalWeight) * 100) : 0,
+    });
+  });
+
+  flagged.sort((a, b) => b.score - a.score || b.amount - a.amount);
+
+  return {
+    flagged,
+    totalEntries: entries.length,
+    ruleCounts,
+    skippedRules,
+    closingDate,
+  };
+};
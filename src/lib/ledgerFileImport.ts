@@ -0,0 +1,301 @@
+/**
+ * 원장 파일 가져오기 (Ledger File Import)
+ * 엑셀(.xlsx/.xls)뿐 아니라 CSV/TSV 등 구분자 텍스트와 구버전 더존의 고정폭 텍스트 내보내기 파일을 읽어
+ * getDataFromSheet가 기대하는 것과 같은 시트 구조(첫 행부터 셀 배열)의 워크북으로 변환합니다.
+ * 텍스트 파일은 BOM/UTF-8 유효성으로 인코딩을 판별하고, UTF-8이 아니면 EUC-KR(CP949)로 읽습니다.
+ */
+
+import * as XLSX from 'xlsx';
+import { parseDate } from './excelHelpers';
+
+export type LedgerFileFormat = 'excel' | 'delimited' | 'fixedWidth';
+
+export interface LedgerFileReadResult {
+  workbook: XLSX.WorkBook;
+  format: LedgerFileFormat;
+  encoding?: string; // 텍스트 파일 인코딩 (utf-8, euc-kr, utf-16le, utf-16be)
+  delimiter?: string; // 구분자 텍스트의 구분자
+}
+
+/** 파일 선택 창의 accept 값 */
+export const LEDGER_FILE_ACCEPT = '.xlsx,.xls,.csv,.tsv,.txt,.prn,.dat';
+
+const EXCEL_EXTENSIONS = ['xlsx', 'xls'];
+const TEXT_EXTENSIONS = ['csv', 'tsv', 'txt', 'prn', 'dat'];
+const DELIMITER_CANDIDATES = [',', '\t', ';', '|'];
+const DELIMITER_LABELS: Record<string, string> = { ',': 'CSV', '\t': 'TSV', ';': '세미콜론 구분', '|': '파이프 구분' };
+const SAMPLE_LINE_COUNT = 60;
+const SEPARATOR_LINE = /^[\s\-=─━_*+|]+$/;
+const MIN_COLUMN_GAP = 2; // 고정폭 열 경계로 볼 최소 공백 칸 수
+
+const getExtension = (fileName: string): string => {
+  const index = fileName.lastIndexOf('.');
+  return index === -1 ? '' : fileName.slice(index + 1).toLowerCase();
+};
+
+/**
+ * 원장으로 읽을 수 있는 파일인지 확인합니다. (엑셀 또는 텍스트 내보내기)
+ */
+export const isSupportedLedgerFile = (file: File): boolean => {
+  const extension = getExtension(file.name);
+  return EXCEL_EXTENSIONS.includes(extension) ||
+    TEXT_EXTENSIONS.includes(extension) ||
+    file.type.includes('spreadsheetml') ||
+    file.type.includes('ms-excel') ||
+    file.type === 'text/csv' ||
+    file.type === 'text/plain';
+};
+
+/**
+ * 바이트 배열의 인코딩을 판별해 문자열로 변환합니다.
+ * BOM → UTF-16 패턴(짝/홀수 위치의 0 바이트) → UTF-8 유효성 순으로 판단하고, 모두 아니면 EUC-KR(CP949)로 읽습니다.
+ */
+export const decodeText = (bytes: Uint8Array): { text: string; encoding: string } => {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return { text: new TextDecoder('utf-8').decode(bytes.subarray(3)), encoding: 'utf-8' };
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return { text: new TextDecoder('utf-16le').decode(bytes.subarray(2)), encoding: 'utf-16le' };
+  }
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+    return { text: new TextDecoder('utf-16be').decode(bytes.subarray(2)), encoding: 'utf-16be' };
+  }
+
+  // BOM 없는 UTF-16: ASCII 문자의 상위 바이트 0이 한쪽 위치에 몰려 있음
+  const sampleLength = Math.min(bytes.length, 4000) & ~1;
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < sampleLength; i += 2) {
+    if (bytes[i] === 0) evenZeros++;
+    if (bytes[i + 1] === 0) oddZeros++;
+  }
+  const pairs = sampleLength / 2;
+  if (pairs > 0 && oddZeros / pairs > 0.3 && evenZeros / pairs < 0.05) {
+    return { text: new TextDecoder('utf-16le').decode(bytes), encoding: 'utf-16le' };
+  }
+  if (pairs > 0 && evenZeros / pairs > 0.3 && oddZeros / pairs < 0.05) {
+    return { text: new TextDecoder('utf-16be').decode(bytes), encoding: 'utf-16be' };
+  }
+
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes), encoding: 'utf-8' };
+  } catch {
+    // WHATWG 인코딩 표준의 euc-kr은 CP949(확장 완성형)까지 포함
+    return { text: new TextDecoder('euc-kr').decode(bytes), encoding: 'euc-kr' };
+  }
+};
+
+const splitLines = (text: string): string[] => text.replace(/\r\n?/g, '\n').split('\n');
+
+/**
+ * 따옴표를 고려해 구분자 텍스트를 행·셀 배열로 파싱합니다. (RFC 4180: "" 이스케이프, 따옴표 안 줄바꿈 허용)
+ */
+export const parseDelimitedText = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const source = text.replace(/\r\n?/g, '\n');
+
+  for (let i = 0; i < source.length; i++) {
+    const ch = source[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (source[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field.trim() === '') {
+      inQuotes = true;
+      field = '';
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n') {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+/**
+ * 구분자를 추정합니다. 표본 행에서 가장 많은 행이 같은 셀 수(3개 이상)를 갖는 구분자를 고르고,
+ * 그런 행이 절반 미만이면 구분자 텍스트가 아닌 것으로 보고 null을 반환합니다.
+ * 헤더 줄에 없는 구분자는 후보에서 제외합니다. (고정폭 출력의 "1,250,000" 같은 천 단위 쉼표를 CSV로 오인하지 않도록)
+ */
+export const detectDelimiter = (text: string): string | null => {
+  const lines = splitLines(text)
+    .filter(line => line.trim() !== '')
+    .slice(0, SAMPLE_LINE_COUNT);
+  const sample = lines.join('\n');
+  const lineCount = lines.length;
+
+  // 헤더 줄: 제목 같은 짧은 줄을 건너뛴 첫 번째 문자 포함 줄
+  let width = 0;
+  lines.forEach(line => {
+    if (line.length > width) width = line.length;
+  });
+  const headerLine = lines.find(line => line.length >= width / 2 && /[^\d\s,.-]/.test(line)) ?? '';
+
+  let best: { delimiter: string; matching: number } | null = null;
+  DELIMITER_CANDIDATES.forEach(delimiter => {
+    if (!headerLine.includes(delimiter)) return;
+    const counts = new Map<number, number>();
+    parseDelimitedText(sample, delimiter).forEach(cells => {
+      counts.set(cells.length, (counts.get(cells.length) || 0) + 1);
+    });
+    let matching = 0;
+    counts.forEach((lines, cellCount) => {
+      if (cellCount >= 3 && lines > matching) matching = lines;
+    });
+    if (matching > 0 && (!best || matching > best.matching)) best = { delimiter, matching };
+  });
+
+  if (!best || best.matching < lineCount / 2) return null;
+  return best.delimiter;
+};
+
+// 한글·한자·전각 문자는 고정폭 출력에서 2칸을 차지
+const isWideChar = (code: number): boolean =>
+  (code >= 0x1100 && code <= 0x115f) ||
+  (code >= 0x2e80 && code <= 0xa4cf) ||
+  (code >= 0xac00 && code <= 0xd7a3) ||
+  (code >= 0xf900 && code <= 0xfaff) ||
+  (code >= 0xfe30 && code <= 0xfe4f) ||
+  (code >= 0xff00 && code <= 0xff60) ||
+  (code >= 0xffe0 && code <= 0xffe6);
+
+/**
+ * 줄을 표시 칸 단위 배열로 펼칩니다. 넓은 문자는 첫 칸에 문자, 둘째 칸에 빈 문자열을 둡니다.
+ */
+const toDisplayCells = (line: string): string[] => {
+  const cells: string[] = [];
+  for (const ch of line.replace(/\t/g, '    ')) {
+    cells.push(ch);
+    if (isWideChar(ch.codePointAt(0)!)) cells.push('');
+  }
+  return cells;
+};
+
+/**
+ * 고정폭 텍스트를 행·셀 배열로 파싱합니다.
+ * 헤더와 데이터 줄에서 모두 공백인 칸이 두 칸 이상 이어지는 구간을 열 경계로 보고, 경계에서 다음 경계까지를 하나의 열로 자릅니다.
+ * 경계 구간도 앞 열에 포함하므로 정렬이 어긋난 문자도 버리지 않습니다. 구분선(----, ====)은 제외합니다.
+ */
+export const parseFixedWidthText = (text: string): string[][] => {
+  const lines = splitLines(text).filter(line => line.trim() !== '' && !SEPARATOR_LINE.test(line));
+  if (lines.length === 0) return [];
+  const displayLines = lines.map(toDisplayCells);
+
+  // 제목·회사명 같은 짧은 줄은 경계 판단에서 제외 (가장 긴 줄의 절반 이상인 줄만 사용)
+  let width = 0;
+  displayLines.forEach(cells => {
+    if (cells.length > width) width = cells.length;
+  });
+  const tableLines = displayLines.filter(cells => cells.length >= width / 2);
+  const shared = new Array<boolean>(width).fill(true);
+  tableLines.forEach(cells => {
+    cells.forEach((ch, col) => {
+      if (ch !== ' ') shared[col] = false;
+    });
+  });
+
+  // 두 칸 이상의 공백 구간 뒤에 내용이 다시 시작되는 위치마다 열을 나눔
+  // (한 칸 공백은 "복리후생비 식대" 같은 값 안의 띄어쓰기일 수 있음, 첫 열은 0부터, 마지막 열은 줄 끝까지)
+  const firstFilled = shared.indexOf(false);
+  const starts: number[] = [0];
+  let gapLength = 0;
+  for (let col = firstFilled + 1; col < width; col++) {
+    if (shared[col]) {
+      gapLength++;
+      continue;
+    }
+    if (gapLength >= MIN_COLUMN_GAP) starts.push(col);
+    gapLength = 0;
+  }
+
+  return displayLines.map(cells =>
+    starts.map((from, i) => cells.slice(from, i + 1 < starts.length ? starts[i + 1] : cells.length).join('').trim())
+  );
+};
+
+/**
+ * 엑셀에서 CSV를 열 때처럼 숫자로 보이는 셀을 숫자로 바꿉니다.
+ * 앞자리 0이 있는 코드/전표번호와 YYYYMMDD 형식의 일자는 문자열로 둡니다.
+ */
+const toCellValue = (value: string): string | number => {
+  const trimmed = value.trim();
+  if (!/^-?(\d{1,3}(,\d{3})+|\d+)(\.\d+)?$/.test(trimmed)) return trimmed;
+  const digits = trimmed.replace(/^-/, '');
+  if (/^0\d/.test(digits)) return trimmed;
+  if (/^\d{8}$/.test(digits) && parseDate(digits)) return trimmed;
+  return Number(trimmed.replace(/,/g, ''));
+};
+
+const toSheetName = (fileName: string): string => {
+  const base = fileName.replace(/\.[^.]+$/, '').replace(/[\\/?*[\]:]/g, '_').trim();
+  return (base || 'Sheet1').slice(0, 31);
+};
+
+/**
+ * 텍스트 내보내기 파일을 단일 시트 워크북으로 변환합니다.
+ */
+export const textToWorkbook = (
+  text: string,
+  sheetName: string
+): { workbook: XLSX.WorkBook; format: LedgerFileFormat; delimiter?: string } => {
+  const delimiter = detectDelimiter(text);
+  const rows = delimiter ? parseDelimitedText(text, delimiter) : parseFixedWidthText(text);
+  const cleanedRows = rows
+    .filter(cells => cells.some(cell => cell.trim() !== ''))
+    .map(cells => cells.map(toCellValue));
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(cleanedRows), sheetName);
+  return { workbook, format: delimiter ? 'delimited' : 'fixedWidth', delimiter: delimiter || undefined };
+};
+
+/**
+ * 원장 파일을 워크북으로 읽습니다. 엑셀은 그대로, 텍스트는 인코딩·구분자를 판별해 변환합니다.
+ */
+export const readLedgerWorkbook = async (file: File): Promise<LedgerFileReadResult> => {
+  const buffer = await file.arrayBuffer();
+  const extension = getExtension(file.name);
+  const isText = TEXT_EXTENSIONS.includes(extension) || (!EXCEL_EXTENSIONS.includes(extension) && file.type.startsWith('text/'));
+
+  if (!isText) {
+    return { workbook: XLSX.read(buffer, { type: 'array', cellDates: true }), format: 'excel' };
+  }
+
+  const { text, encoding } = decodeText(new Uint8Array(buffer));
+  const converted = textToWorkbook(text, toSheetName(file.name));
+  if (converted.workbook.Sheets[converted.workbook.SheetNames[0]]['!ref'] === undefined) {
+    throw new Error('텍스트 파일에서 데이터를 찾을 수 없습니다.');
+  }
+  return { ...converted, encoding };
+};
+
+/**
+ * 가져온 형식 설명 (엑셀이면 빈 문자열). 예: " (CSV, EUC-KR)", " (고정폭 텍스트, UTF-8)"
+ */
+export const describeLedgerImport = (result: Pick<LedgerFileReadResult, 'format' | 'encoding' | 'delimiter'>): string => {
+  if (result.format === 'excel') return '';
+  const formatLabel = result.format === 'fixedWidth'
+    ? '고정폭 텍스트'
+    : DELIMITER_LABELS[result.delimiter || ','] || '구분자 텍스트';
+  return ` (${formatLabel}, ${(result.encoding || 'utf-8').toUpperCase()})`;
+};
@@ -0,0 +1,290 @@
+/**
+ * 통합 원장 모델 (Normalized Ledger)
+ * 업로드된 계정별원장/분개장 워크북을 한 번만 읽어 JournalEntry 배열로 정규화합니다.
+ * 모든 분석 화면은 이 모델을 사용하므로 같은 파일이면 어느 화면에서든 합계가 동일합니다.
+ */
+
+import * as XLSX from 'xlsx';
+import type { JournalEntry } from '@/types/analysis';
+import { getDataFromSheet, detectSummaryRow, parseDate, type LedgerRow } from './excelHelpers';
+import { robustFindHeader, findDebitCreditHeaders, cleanAmount } from './headerUtils';
+import {
+  DATE_KEYWORDS,
+  ACCOUNT_KEYWORDS,
+  VENDOR_KEYWORDS,
+  DESCRIPTION_KEYWORDS,
+  BALANCE_KEYWORDS,
+} from './columnMapping';
+
+/**
+ * 원장 컬럼 매핑 (필드 → 원본 헤더명)
+ * null은 사용자가 "지정 안 함"으로 확정한 필드입니다. (JSON 저장 시 키가 사라지지 않도록 undefined 대신 사용)
+ */
+export interface LedgerColumnMapping {
+  date?: string | null;
+  accountName?: string | null;
+  accountCode?: string | null;
+  vendor?: string | null;
+  description?: string | null;
+  debit?: string | null;
+  credit?: string | null;
+  balance?: string | null;
+  entryNumber?: string | null;
+}
+
+export type LedgerColumnField = keyof LedgerColumnMapping;
+
+export const LEDGER_COLUMN_FIELDS: LedgerColumnField[] = [
+  'date', 'accountName', 'accountCode', 'vendor', 'description', 'debit', 'credit', 'balance', 'entryNumber',
+];
+
+/**
+ * 모든 필드를 채운 확정 매핑 (지정하지 않은 필드는 null)
+ */
+export const toCompleteColumnMapping = (mapping: LedgerColumnMapping): LedgerColumnMapping =>
+  Object.fromEntries(LEDGER_COLUMN_FIELDS.map(field => [field, mapping[field] || null])) as LedgerColumnMapping;
+
+/**
+ * 시트별 정규화 정보
+ */
+export interface LedgerSheetInfo {
+  sheetName: string;
+  headers: string[]; // 행 객체의 키와 동일한 헤더 목록
+  mapping: LedgerColumnMapping; // 정규화에 사용한 확정 매핑
+  rowCount: number; // 합계행 포함 데이터 행 수
+}
+
+/**
+ * 통합 원장
+ * - accountSource 'sheet': 시트 하나가 계정 하나 (더존 계정별원장 시트 분리 형식)
+ * - accountSource 'column': 단일 시트에 계정과목 컬럼이 있는 형식 (분개장 등)
+ */
+export interface NormalizedLedger {
+  entries: JournalEntry[]; // 합계행 포함 (summaryType으로 구분)
+  accountNames: string[];
+  sheets: LedgerSheetInfo[];
+  accountSource: 'sheet' | 'column';
+}
+
+export interface NormalizeWorkbookOptions {
+  /** 시트명별 확정 매핑. 자동 탐지 결과와 합치지 않고 그대로 사용합니다. (없는 필드는 지정 안 함) */
+  mappings?: Record<string, LedgerColumnMapping>;
+  /** mappings에 없는 시트의 확정 매핑을 헤더로 찾습니다. (저장된 프로필 적용용, 없으면 자동 탐지) */
+  resolveMapping?: (sheetName: string, headers: string[]) => LedgerColumnMapping | undefined;
+  /** 진행률 콜백 (0~1). 시트 읽기가 앞 절반, 분개 라인 변환이 뒤 절반입니다. */
+  onProgress?: (ratio: number) => void;
+}
+
+const PROGRESS_ROW_INTERVAL = 20000;
+
+const ACCOUNT_CODE_KEYWORDS = ['계정코드', '계정과목코드', 'accountcode', 'account code'];
+const ENTRY_NUMBER_KEYWORDS = ['전표번호', '전표no', '전표'];
+// '번호'는 정확히 일치할 때만 전표번호로 봅니다. (사업자번호·전화번호 등이 포함 매칭되지 않도록)
+const ENTRY_NUMBER_EXACT_HEADER = '번호';
+
+const isCodeHeader = (header: string): boolean => {
+  const clean = (header || '').replace(/\s/g, '').toLowerCase();
+  return clean.includes('코드') || clean.includes('code');
+};
+
+/**
+ * 헤더와 데이터로 원장 컬럼 매핑을 자동 탐지합니다.
+ * 계정과목/거래처는 '거래처코드', '계정코드' 같은 코드 컬럼을 제외하고 찾습니다.
+ */
+export const detectColumnMapping = (headers: string[], data: LedgerRow[]): LedgerColumnMapping => {
+  const nonCodeHeaders = headers.filter(h => h && !isCodeHeader(h));
+  const date = robustFindHeader(headers, DATE_KEYWORDS);
+  const { debitHeader, creditHeader } = findDebitCreditHeaders(headers, data, date);
+  const entryNumberCandidates = headers.filter(h => h !== date);
+  const entryNumber = robustFindHeader(entryNumberCandidates, ENTRY_NUMBER_KEYWORDS)
+    ?? entryNumberCandidates.find(h => (h || '').replace(/\s/g, '') === ENTRY_NUMBER_EXACT_HEADER);
+
+  return {
+    date,
+    accountName: robustFindHeader(nonCodeHeaders, ACCOUNT_KEYWORDS),
+    accountCode: robustFindHeader(headers, ACCOUNT_CODE_KEYWORDS),
+    vendor: robustFindHeader(nonCodeHeaders, VENDOR_KEYWORDS),
+    description: robustFindHeader(nonCodeHeaders, DESCRIPTION_KEYWORDS),
+    debit: debitHeader,
+    credit: creditHeader,
+    balance: robustFindHeader(headers, BALANCE_KEYWORDS),
+    entryNumber,
+  };
+};
+
+const toText = (val: string | number | Date | undefined): string => {
+  if (val === null || val === undefined) return '';
+  if (val instanceof Date) {
+    return `${val.getFullYear()}-${String(val.getMonth() + 1).padStart(2, '0')}-${String(val.getDate()).padStart(2, '0')}`;
+  }
+  return String(val).trim();
+};
+
+const toEntry = (
+  row: LedgerRow,
+  mapping: LedgerColumnMapping,
+  sheetName: string,
+  rowIndex: number,
+  accountName: string
+): JournalEntry => {
+  const rawDate = mapping.date ? row[mapping.date] : undefined;
+  const parsedDate = parseDate(rawDate);
+  const summaryType = detectSummaryRow(row);
+  const entryNumber = mapping.entryNumber ? toText(row[mapping.entryNumber]) : '';
+
+  return {
+    id: `${sheetName}:${rowIndex}`,
+    entryNumber: entryNumber || undefined,
+    date: parsedDate ?? toText(rawDate),
+    accountCode: mapping.accountCode ? toText(row[mapping.accountCode]) : undefined,
+    accountName,
+    vendor: mapping.vendor ? toText(row[mapping.vendor]) : '',
+    debit: mapping.debit ? cleanAmount(row[mapping.debit]) : 0,
+    credit: mapping.credit ? cleanAmount(row[mapping.credit]) : 0,
+    balance: mapping.balance ? cleanAmount(row[mapping.balance]) : undefined,
+    description: mapping.description ? toText(row[mapping.description]) : '',
+    sheetName,
+    rowIndex,
+    summaryType: summaryType ?? undefined,
+    raw: row,
+  };
+};
+
+/**
+ * 워크북 전체를 읽어 통합 원장으로 정규화합니다.
+ * 시트가 하나이고 계정과목 컬럼에 서로 다른 계정이 2개 이상이면 컬럼 기준, 그 외에는 시트명 기준으로 계정을 구분합니다.
+ */
+export const normalizeWorkbook = (
+  workbook: XLSX.WorkBook,
+  options: NormalizeWorkbookOptions = {}
+): NormalizedLedger => {
+  const sheets: LedgerSheetInfo[] = [];
+  const parsedSheets: { sheetName: string; data: LedgerRow[]; mapping: LedgerColumnMapping }[] = [];
+
+  const { onProgress } = options;
+  workbook.SheetNames.forEach((sheetName, sheetIndex) => {
+    const { data, headers } = getDataFromSheet(workbook.Sheets[sheetName], { keepSummaryRows: true });
+    const confirmed = options.mappings?.[sheetName] ?? options.resolveMapping?.(sheetName, headers);
+    const mapping: LedgerColumnMapping = confirmed
+      ? { ...confirmed }
+      : detectColumnMapping(headers, data.filter(row => detectSummaryRow(row) === null));
+    sheets.push({ sheetName, headers, mapping, rowCount: data.length });
+    parsedSheets.push({ sheetName, data, mapping });
+    onProgress?.(((sheetIndex + 1) / workbook.SheetNames.length) * 0.5);
+  });
+
+  // 단일 시트 + 계정과목 컬럼 형식 판별
+  let accountSource: NormalizedLedger['accountSource'] = 'sheet';
+  if (parsedSheets.length === 1 && parsedSheets[0].mapping.accountName) {
+    const { data, mapping } = parsedSheets[0];
+    const uniqueAccounts = new Set<string>();
+    data.forEach(row => {
+      if (detectSummaryRow(row) !== null) return;
+      const name = toText(row[mapping.accountName!]);
+      if (name && name !== mapping.accountName && !['합계', '총합계'].includes(name.replace(/\s/g, ''))) {
+        uniqueAccounts.add(name);
+      }
+    });
+    if (uniqueAccounts.size >= 2) accountSource = 'column';
+  }
+
+  const entries: JournalEntry[] = [];
+  const columnAccounts = new Set<string>();
+  const totalRows = parsedSheets.reduce((sum, sheet) => sum + sheet.data.length, 0);
+  let processedRows = 0;
+
+  parsedSheets.forEach(({ sheetName, data, mapping }) => {
+    data.forEach((row, rowIndex) => {
+      processedRows++;
+      if (onProgress && processedRows % PROGRESS_ROW_INTERVAL === 0) {
+        onProgress(0.5 + (processedRows / totalRows) * 0.5);
+      }
+      let accountName = sheetName;
+      if (accountSource === 'column') {
+        accountName = toText(row[mapping.accountName!]);
+        const isSummary = detectSummaryRow(row) !== null;
+        // 계정명이 없는 일반 행과 합계 행(계정 컬럼에 합계 문자열이 들어간 경우)은 계정 목록에서 제외
+        if (!isSummary) {
+          if (!accountName || accountName === mapping.accountName || ['합계', '총합계'].includes(accountName.replace(/\s/g, ''))) return;
+          columnAccounts.add(accountName);
+        }
+      }
+      entries.push(toEntry(row, mapping, sheetName, rowIndex, accountName));
+    });
+  });
+
+  onProgress?.(1);
+  return {
+    entries,
+    accountNames: accountSource === 'column'
+      ? Array.from(columnAccounts).sort()
+      : [...workbook.SheetNames],
+    sheets,
+    accountSource,
+  };
+};
+
+// 계정별 인덱스 캐시 (원장 객체는 불변으로 취급)
+const accountIndexCache = new WeakMap<NormalizedLedger, Map<string, JournalEntry[]>>();
+
+const getAccountIndex = (ledger: NormalizedLedger): Map<string, JournalEntry[]> => {
+  let index = accountIndexCache.get(ledger);
+  if (!index) {
+    index = new Map();
+    ledger.entries.forEach(entry => {
+      const list = index!.get(entry.accountName);
+      if (list) list.push(entry);
+      else index!.set(entry.accountName, [entry]);
+    });
+    accountIndexCache.set(ledger, index);
+  }
+  return index;
+};
+
+export interface EntryFilterOptions {
+  /** true이면 월계/누계/전기이월 행도 포함합니다 (기본값 false) */
+  includeSummary?: boolean;
+}
+
+/**
+ * 특정 계정의 분개 항목을 반환합니다. 기본적으로 합계행은 제외됩니다.
+ */
+export const getAccountEntries = (
+  ledger: NormalizedLedger | null | undefined,
+  accountName: string,
+  options: EntryFilterOptions = {}
+): JournalEntry[] => {
+  if (!ledger) return [];
+  const list = getAccountIndex(ledger).get(accountName) || [];
+  return options.includeSummary ? list : list.filter(e => !e.summaryType);
+};
+
+/**
+ * 원장 전체의 거래 행(합계행 제외)을 반환합니다.
+ */
+export const getPostingEntries = (ledger: NormalizedLedger | null | undefined): JournalEntry[] => {
+  if (!ledger) return [];
+  return ledger.entries.filter(e => !e.summaryType);
+};
+
+/**
+ * 상세내역 표시/엑셀 다운로드를 위해 분개 항목을 원본 행으로 되돌립니다.
+ */
+export const toLedgerRows = (entries: JournalEntry[]): LedgerRow[] => entries.map(e => e.raw || {});
+
+/**
+ * 분개 항목의 일자를 Date로 반환합니다. 일자를 해석할 수 없으면 null.
+ */
+export const getEntryDate = (entry: JournalEntry): Date | null => {
+  if (entry.date instanceof Date) return isNaN(entry.date.getTime()) ? null : entry.date;
+  return parseDate(entry.date);
+};
+
+/**
+ * 분개 항목의 월 키(YYYY-MM)를 반환합니다. 일자를 해석할 수 없으면 null.
+ */
+export const getEntryMonthKey = (entry: JournalEntry): string | null => {
+  const d = getEntryDate(entry);
+  if (!d) return null;
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+};
@@ -0,0 +1,149 @@
+/**
+ * 백그라운드 원장 파싱 (Ledger Parser)
+ * 수십만 행의 원장도 화면이 멈추지 않도록 파일 읽기와 정규화를 Web Worker에서 실행합니다.
+ * 진행률 콜백과 취소를 지원하며, 결과 통합 원장 하나를 모든 분석 화면이 공유합니다.
+ * Worker를 쓸 수 없는 환경에서는 메인 스레드에서 같은 처리를 수행합니다.
+ */
+
+import * as XLSX from 'xlsx';
+import { readLedgerWorkbook, type LedgerFileFormat } from './ledgerFileImport';
+import { normalizeWorkbook, type LedgerColumnMapping, type NormalizedLedger } from './ledgerModel';
+import { getMappingProfiles, normalizeWorkbookWithProfiles, type MappingProfile } from './mappingProfiles';
+
+export type LedgerParseStage = 'reading' | 'parsing' | 'normalizing' | 'transferring';
+
+export const LEDGER_PARSE_STAGE_LABELS: Record<LedgerParseStage, string> = {
+  reading: '파일 읽는 중',
+  parsing: '시트 분석 중',
+  normalizing: '원장 정규화 중',
+  transferring: '결과 전달 중',
+};
+
+export interface LedgerParseProgress {
+  stage: LedgerParseStage;
+  ratio: number; // 전체 진행률 0~1
+}
+
+export interface LedgerParseResult {
+  ledger: NormalizedLedger;
+  profiles: MappingProfile[]; // 자동 적용된 저장 매핑 프로필
+  sheetNames: string[];
+  format: LedgerFileFormat;
+  encoding?: string;
+  delimiter?: string;
+  firstSheetRows?: unknown[][]; // includeFirstSheetRows 지정 시 첫 시트의 행 배열 (header: 1)
+}
+
+export interface LedgerParseOptions {
+  /** 확정 매핑. 지정하면 저장된 프로필 대신 이 매핑으로 정규화합니다. */
+  mappings?: Record<string, LedgerColumnMapping>;
+  includeFirstSheetRows?: boolean;
+  onProgress?: (progress: LedgerParseProgress) => void;
+}
+
+export interface LedgerParseTask {
+  promise: Promise<LedgerParseResult>;
+  cancel: () => void;
+}
+
+export interface LedgerParserRequest {
+  file: File;
+  mappings?: Record<string, LedgerColumnMapping>;
+  profiles: MappingProfile[];
+  includeFirstSheetRows?: boolean;
+}
+
+export type LedgerParserMessage =
+  | { type: 'progress'; stage: LedgerParseStage; ratio: number }
+  | { type: 'result'; result: LedgerParseResult }
+  | { type: 'error'; message: string };
+
+const createCancelError = (): Error => {
+  const error = new Error('파일 읽기를 취소했습니다.');
+  error.name = 'AbortError';
+  return error;
+};
+
+/**
+ * 사용자가 취소해서 난 오류인지 확인합니다. (오류 토스트를 띄우지 않을 때 사용)
+ */
+export const isLedgerParseCancelled = (error: unknown): boolean =>
+  error instanceof Error && error.name === 'AbortError';
+
+// Worker를 쓸 수 없을 때의 메인 스레드 처리
+const parseOnMainThread = async (file: File, options: LedgerParseOptions): Promise<LedgerParseResult> => {
+  options.onProgress?.({ stage: 'parsing', ratio: 0.05 });
+  const imported = await readLedgerWorkbook(file);
+  const { workbook } = imported;
+  options.onProgress?.({ stage: 'normalizing', ratio: 0.35 });
+  const { ledger, profiles } = options.mappings
+    ? { ledger: normalizeWorkbook(workbook, { mappings: options.mappings }), profiles: [] }
+    : normalizeWorkbookWithProfiles(workbook);
+  const firstSheet = workbook.Sheets[workbook.SheetNames[0]];
+  return {
+    ledger,
+    profiles,
+    sheetNames: workbook.SheetNames,
+    format: imported.format,
+    encoding: imported.encoding,
+    delimiter: imported.delimiter,
+    firstSheetRows: options.includeFirstSheetRows && firstSheet
+      ? (XLSX.utils.sheet_to_json(firstSheet, { header: 1, defval: '' }) as unknown[][])
+      : undefined,
+  };
+};
+
+/**
+ * 원장 파일을 Web Worker에서 읽어 통합 원장으로 정규화합니다.
+ * cancel()을 호출하면 Worker를 즉시 종료하고 promise는 AbortError로 거부됩니다.
+ */
+export const parseLedgerFile = (file: File, options: LedgerParseOptions = {}): LedgerParseTask => {
+  if (typeof Worker === 'undefined') {
+    let cancelled = false;
+    const promise = parseOnMainThread(file, options).then(result => {
+      if (cancelled) throw createCancelError();
+      return result;
+    });
+    return { promise, cancel: () => { cancelled = true; } };
+  }
+
+  const worker = new Worker(new URL('./ledgerParser.worker.ts', import.meta.url), { type: 'module' });
+  let settle: ((error: Error | null, result?: LedgerParseResult) => void) | null = null;
+
+  const promise = new Promise<LedgerParseResult>((resolve, reject) => {
+    settle = (error, result) => {
+      settle = null;
+      worker.terminate();
+      if (error) reject(error);
+      else resolve(result!);
+    };
+
+    worker.onmessage = (event: MessageEvent<LedgerParserMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        options.onProgress?.({ stage: message.stage, ratio: message.ratio });
+      } else if (message.type === 'result') {
+        settle?.(null, message.result);
+      } else {
+        settle?.(new Error(message.message));
+      }
+    };
+    worker.onerror = event => {
+      event.preventDefault();
+      settle?.(new Error(event.message || '파일을 읽는 중 오류가 발생했습니다.'));
+    };
+
+    const request: LedgerParserRequest = {
+      file,
+      mappings: options.mappings,
+      profiles: getMappingProfiles(),
+      includeFirstSheetRows: options.includeFirstSheetRows,
+    };
+    worker.postMessage(request);
+  });
+
+  return {
+    promise,
+    cancel: () => settle?.(createCancelError()),
+  };
+};
@@ -0,0 +1,65 @@
+/**
+ * 원장 파싱 Web Worker
+ * 파일 읽기(XLSX.read / 텍스트 변환)와 통합 원장 정규화를 메인 스레드 밖에서 수행하고 진행률을 보고합니다.
+ * 메시지 형식은 ledgerParser.ts의 LedgerParserRequest / LedgerParserMessage를 따릅니다.
+ */
+
+import * as XLSX from 'xlsx';
+import { readLedgerWorkbook } from './ledgerFileImport';
+import { normalizeWorkbook } from './ledgerModel';
+import { normalizeWorkbookWithProfiles } from './mappingProfiles';
+import type { LedgerParserMessage, LedgerParserRequest, LedgerParseStage } from './ledgerParser';
+
+const ctx = self as unknown as Worker;
+
+// 단계별 전체 진행률 구간 (정규화가 대부분의 시간을 차지)
+const STAGE_RANGES: Record<LedgerParseStage, [number, number]> = {
+  reading: [0, 0.05],
+  parsing: [0.05, 0.35],
+  normalizing: [0.35, 0.95],
+  transferring: [0.95, 1],
+};
+
+const post = (message: LedgerParserMessage) => ctx.postMessage(message);
+
+const reportProgress = (stage: LedgerParseStage, stageRatio = 0) => {
+  const [from, to] = STAGE_RANGES[stage];
+  post({ type: 'progress', stage, ratio: from + (to - from) * Math.min(1, stageRatio) });
+};
+
+ctx.onmessage = async (event: MessageEvent<LedgerParserRequest>) => {
+  const { file, mappings, profiles, includeFirstSheetRows } = event.data;
+  try {
+    reportProgress('reading');
+    reportProgress('parsing');
+    const imported = await readLedgerWorkbook(file);
+    const { workbook } = imported;
+
+    reportProgress('normalizing');
+    const onProgress = (ratio: number) => reportProgress('normalizing', ratio);
+    const { ledger, profiles: appliedProfiles } = mappings
+      ? { ledger: normalizeWorkbook(workbook, { mappings, onProgress }), profiles: [] }
+      : normalizeWorkbookWithProfiles(workbook, profiles, { onProgress });
+
+    const firstSheet = workbook.Sheets[workbook.SheetNames[0]];
+    const firstSheetRows = includeFirstSheetRows && firstSheet
+      ? (XLSX.utils.sheet_to_json(firstSheet, { header: 1, defval: '' }) as unknown[][])
+      : undefined;
+
+    reportProgress('transferring');
+    post({
+      type: 'result',
+      result: {
+        ledger,
+        profiles: appliedProfiles,
+        sheetNames: workbook.SheetNames,
+        format: imported.format,
+        encoding: imported.encoding,
+        delimiter: imported.delimiter,
+        firstSheetRows,
+      },
+    });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -0,0 +1,231 @@
+/**
+ * 원장 피벗 (Ledger Pivot)
+ * 통합 원장의 분개 라인을 행·열 차원(계정, 거래처, 월, 요일, 전표유형)으로 묶어 차변 합계, 대변 합계, 건수, 평균 금액을 집계합니다.
+ * 각 셀은 원본 분개 라인을 함께 보관하므로 화면에서 바로 상세 내역으로 내려갈 수 있습니다.
+ */
+
+import type { JournalEntry } from '@/types/analysis';
+import { getEntryDate, getEntryMonthKey } from './ledgerModel';
+import { buildVoucherBook, getVoucherKey } from './voucherModel';
+import { extractAccountCode } from './chartOfAccounts';
+
+export type PivotDimension = 'none' | 'account' | 'vendor' | 'month' | 'weekday' | 'voucherType';
+export type PivotMeasure = 'debit' | 'credit' | 'count' | 'average';
+
+export interface PivotCell {
+  entries: JournalEntry[];
+  debit: number;
+  credit: number;
+  count: number;
+}
+
+export interface PivotResult {
+  rowKeys: string[];
+  columnKeys: string[];
+  cells: Map<string, PivotCell>; // getPivotCellKey(row, column) → 셀
+  rowTotals: Map<string, PivotCell>;
+  columnTotals: Map<string, PivotCell>;
+  grandTotal: PivotCell;
+  mergedColumnCount: number; // maxColumns를 넘어 '(기타)'로 합친 열 수
+}
+
+export interface PivotOptions {
+  /** 열이 이보다 많으면 금액 상위 열만 남기고 나머지는 '(기타)'로 합칩니다 (기본값 40) */
+  maxColumns?: number;
+}
+
+export const PIVOT_DIMENSION_LABELS: Record<PivotDimension, string> = {
+  none: '(없음)',
+  account: '계정과목',
+  vendor: '거래처',
+  month: '월',
+  weekday: '요일',
+  voucherType: '전표유형',
+};
+
+export const PIVOT_MEASURE_LABELS: Record<PivotMeasure, string> = {
+  debit: '차변 합계',
+  credit: '대변 합계',
+  count: '건수',
+  average: '평균 금액',
+};
+
+const TOTAL_KEY = '합계';
+const OTHER_COLUMN_KEY = '(기타)';
+const EMPTY_LABEL = '(미기재)';
+const WEEKDAY_LABELS = ['일', '월', '화', '수', '목', '금', '토'];
+const WEEKDAY_ORDER = ['월', '화', '수', '목', '금', '토', '일', EMPTY_LABEL];
+
+// 원본에 전표유형 컬럼이 있으면 그 값을 사용 (더존 분개장의 '구분': 출금/입금/대체 등)
+const VOUCHER_TYPE_KEYWORDS = ['전표구분', '전표유형', '전표종류', '구분'];
+
+export const getPivotCellKey = (rowKey: string, columnKey: string): string => `${rowKey}\u0000${columnKey}`;
+
+const createCell = (): PivotCell => ({ entries: [], debit: 0, credit: 0, count: 0 });
+
+const addToCell = (cell: PivotCell, entry: JournalEntry) => {
+  cell.entries.push(entry);
+  cell.debit += entry.debit || 0;
+  cell.credit += entry.credit || 0;
+  cell.count++;
+};
+
+const isCashAccount = (entry: JournalEntry): boolean => {
+  if (extractAccountCode(entry.accountName, entry.accountCode) === '101') return true;
+  return entry.accountName.replace(/\s/g, '').replace(/^\d+[_.\-)]?/, '').replace(/\(.*\)$/, '') === '현금';
+};
+
+/**
+ * 전표유형 판별기를 만듭니다.
+ * 원본 행에 전표구분 컬럼이 있으면 그 값을, 없으면 전표 안의 현금 라인으로 입금(현금 차변)/출금(현금 대변)/대체를 구분합니다.
+ */
+const createVoucherTypeResolver = (entries: JournalEntry[]): ((entry: JournalEntry) => string) => {
+  const sample = entries.find(e => e.raw);
+  const typeHeader = sample?.raw
+    ? Object.keys(sample.raw).find(key => VOUCHER_TYPE_KEYWORDS.includes(key.replace(/\s/g, '')))
+    : undefined;
+  if (typeHeader) {
+    return entry => String(entry.raw?.[typeHeader] ?? '').trim() || EMPTY_LABEL;
+  }
+
+  const typeByVoucher = new Map<string, string>();
+  buildVoucherBook(entries).vouchers.forEach(voucher => {
+    const cashLines = voucher.lines.filter(isCashAccount);
+    let type = '대체';
+    if (cashLines.length > 0 && cashLines.length < voucher.lines.length) {
+      const cashDebit = cashLines.reduce((sum, l) => sum + (l.debit || 0), 0);
+      const cashCredit = cashLines.reduce((sum, l) => sum + (l.credit || 0), 0);
+      type = cashDebit >= cashCredit ? '입금' : '출금';
+    }
+    typeByVoucher.set(voucher.key, type);
+  });
+  return entry => {
+    const key = getVoucherKey(entry);
+    return (key && typeByVoucher.get(key)) || EMPTY_LABEL;
+  };
+};
+
+const createDimensionResolver = (
+  dimension: PivotDimension,
+  entries: JournalEntry[]
+): ((entry: JournalEntry) => string) => {
+  switch (dimension) {
+    case 'none':
+      return () => TOTAL_KEY;
+    case 'account':
+      return entry => entry.accountName || EMPTY_LABEL;
+    case 'vendor':
+      return entry => entry.vendor.trim() || EMPTY_LABEL;
+    case 'month':
+      return entry => getEntryMonthKey(entry) || EMPTY_LABEL;
+    case 'weekday':
+      return entry => {
+        const d = getEntryDate(entry);
+        return d ? WEEKDAY_LABELS[d.getDay()] : EMPTY_LABEL;
+      };
+    case 'voucherType':
+      return createVoucherTypeResolver(entries);
+  }
+};
+
+/**
+ * 차원 값 정렬: 월은 시간순, 요일은 월~일, 나머지는 금액(차변+대변) 큰 순
+ */
+const sortDimensionKeys = (dimension: PivotDimension, totals: Map<string, PivotCell>): string[] => {
+  const keys = Array.from(totals.keys());
+  if (dimension === 'month') {
+    return keys.sort((a, b) => (a === EMPTY_LABEL ? 1 : b === EMPTY_LABEL ? -1 : a.localeCompare(b)));
+  }
+  if (dimension === 'weekday') {
+    return keys.sort((a, b) => WEEKDAY_ORDER.indexOf(a) - WEEKDAY_ORDER.indexOf(b));
+  }
+  const amount = (key: string) => {
+    const cell = totals.get(key)!;
+    return cell.debit + cell.credit;
+  };
+  return keys.sort((a, b) => amount(b) - amount(a));
+};
+
+/**
+ * 셀의 측정값. 평균 금액은 라인당 (차변 + 대변) 평균입니다.
+ */
+export const getPivotMeasureValue = (cell: PivotCell | undefined, measure: PivotMeasure): number => {
+  if (!cell || cell.count === 0) return 0;
+  switch (measure) {
+    case 'debit':
+      return cell.debit;
+    case 'credit':
+      return cell.credit;
+    case 'count':
+      return cell.count;
+    case 'average':
+      return (cell.debit + cell.credit) / cell.count;
+  }
+};
+
+/**
+ * 분개 라인을 행·열 차원으로 집계합니다. 합계행(월계/누계/전기이월)은 넘기기 전에 제외해야 합니다.
+ */
+export const buildPivot = (
+  entries: JournalEntry[],
+  rowDimension: PivotDimension,
+  columnDimension: PivotDimension,
+  options: PivotOptions = {}
+): PivotResult => {
+  const maxColumns = options.maxColumns ?? 40;
+  const getRowKey = createDimensionResolver(rowDimension, entries);
+  const rawColumnKey = createDimensionResolver(columnDimension, entries);
+
+  // 열이 너무 많으면 금액 상위 열만 남김
+  const columnAmounts = new Map<string, PivotCell>();
+  entries.forEach(entry => {
+    const key = rawColumnKey(entry);
+    if (!columnAmounts.has(key)) columnAmounts.set(key, createCell());
+    addToCell(columnAmounts.get(key)!, entry);
+  });
+  const sortedColumns = sortDimensionKeys(columnDimension, columnAmounts);
+  let keptColumns: Set<string> | null = null;
+  let mergedColumnCount = 0;
+  if (sortedColumns.length > maxColumns) {
+    const amount = (key: string) => columnAmounts.get(key)!.debit + columnAmounts.get(key)!.credit;
+    const top = [...sortedColumns].sort((a, b) => amount(b) - amount(a)).slice(0, Math.max(1, maxColumns - 1));
+    keptColumns = new Set(top);
+    mergedColumnCount = sortedColumns.length - top.length;
+  }
+  const getColumnKey = (entry: JournalEntry) => {
+    const key = rawColumnKey(entry);
+    return keptColumns && !keptColumns.has(key) ? OTHER_COLUMN_KEY : key;
+  };
+
+  const cells = new Map<string, PivotCell>();
+  const rowTotals = new Map<string, PivotCell>();
+  const columnTotals = new Map<string, PivotCell>();
+  const grandTotal = createCell();
+
+  entries.forEach(entry => {
+    const rowKey = getRowKey(entry);
+    const columnKey = getColumnKey(entry);
+    const cellKey = getPivotCellKey(rowKey, columnKey);
+    if (!cells.has(cellKey)) cells.set(cellKey, createCell());
+    if (!rowTotals.has(rowKey)) rowTotals.set(rowKey, createCell());
+    if (!columnTotals.has(columnKey)) columnTotals.set(columnKey, createCell());
+    addToCell(cells.get(cellKey)!, entry);
+    addToCell(rowTotals.get(rowKey)!, entry);
+    addToCell(columnTotals.get(columnKey)!, entry);
+    addToCell(grandTotal, entry);
+  });
+
+  const columnKeys = keptColumns
+    ? [...sortedColumns.filter(key => keptColumns!.has(key)), OTHER_COLUMN_KEY]
+    : sortedColumns;
+
+  return {
+    rowKeys: sortDimensionKeys(rowDimension, rowTotals),
+    columnKeys,
+    cells,
+    rowTotals,
+    columnTotals,
+    grandTotal,
+    mergedColumnCount,
+  };
+};
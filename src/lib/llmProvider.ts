@@ -0,0 +1,238 @@
+/**
+ * AI 공급자 설정 (LLM Provider)
+ * AI 분석을 Google Gemini로 보낼지, OpenAI 호환 엔드포인트(로컬 Ollama, llama.cpp 서버 등)로 보낼지 선택합니다.
+ * 원장 데이터를 외부(구글)로 보낼 수 없는 고객사는 로컬 서버를 선택하면 데이터가 PC 밖으로 나가지 않습니다.
+ * 설정은 브라우저 localStorage에 저장되며, 비용 추정도 선택한 공급자의 단가를 따릅니다.
+ */
+
+export type LlmProviderId = 'gemini' | 'openai_compatible';
+
+/** flash: 일반 분석(빠르고 저렴), pro: 복잡한 분석 */
+export type LlmTier = 'flash' | 'pro';
+
+export interface GeminiProviderSettings {
+  flashModel: string; // 우선 사용할 모델 (실패 시 나머지 후보로 대체)
+  proModel: string;
+}
+
+export interface OpenAiCompatibleSettings {
+  baseUrl: string; // 예: http://localhost:11434/v1 (Ollama), http://localhost:8080/v1 (llama.cpp)
+  apiKey: string; // 로컬 서버는 보통 비워 둠
+  flashModel: string;
+  proModel: string; // 비우면 flashModel 사용
+  inputCostPerMillion: number; // USD / 1M 입력 토큰 (로컬 서버는 0)
+  outputCostPerMillion: number; // USD / 1M 출력 토큰
+}
+
+export interface LlmSettings {
+  provider: LlmProviderId;
+  gemini: GeminiProviderSettings;
+  openaiCompatible: OpenAiCompatibleSettings;
+}
+
+export interface TokenPricing {
+  inputPerMillion: number; // USD
+  outputPerMillion: number; // USD
+}
+
+export interface OpenAiCompatibleRequestOptions {
+  tier?: LlmTier;
+  json?: boolean; // JSON 객체 응답 요청 (response_format: json_object)
+  temperature?: number;
+}
+
+export const LLM_PROVIDER_LABELS: Record<LlmProviderId, string> = {
+  gemini: 'Google Gemini',
+  openai_compatible: 'OpenAI 호환 (Ollama, llama.cpp 등)',
+};
+
+export const LLM_TIER_LABELS: Record<LlmTier, string> = {
+  flash: '일반 분석',
+  pro: '복잡한 분석',
+};
+
+/** Gemini 모델 후보 (앞에서부터 시도, 404 등으로 실패하면 다음 모델) */
+export const GEMINI_FLASH_MODELS = [
+  'gemini-3.1-flash-lite',
+  'gemini-3-pro-preview',
+  'gemini-2.5-flash',
+  'gemini-2.0-flash',
+  'gemini-1.5-flash',
+];
+
+export const GEMINI_PRO_MODELS = [
+  'gemini-3-pro-preview',
+  'gemini-3.1-flash-lite',
+  'gemini-2.5-flash',
+  'gemini-2.0-flash',
+];
+
+// Gemini 단가 (USD / 1M 토큰)
+const GEMINI_PRICING: Record<LlmTier, TokenPricing> = {
+  flash: { inputPerMillion: 0.075, outputPerMillion: 0.30 },
+  pro: { inputPerMillion: 1.25, outputPerMillion: 5.00 },
+};
+
+export const DEFAULT_LLM_SETTINGS: LlmSettings = {
+  provider: 'gemini',
+  gemini: {
+    flashModel: GEMINI_FLASH_MODELS[0],
+    proModel: GEMINI_PRO_MODELS[0],
+  },
+  openaiCompatible: {
+    baseUrl: 'http://localhost:11434/v1',
+    apiKey: '',
+    flashModel: '',
+    proModel: '',
+    inputCostPerMillion: 0,
+    outputCostPerMillion: 0,
+  },
+};
+
+const STORAGE_KEY = 'llm_provider_settings';
+
+/**
+ * 저장된 AI 공급자 설정 (없는 항목은 기본값)
+ */
+export const getLlmSettings = (): LlmSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_LLM_SETTINGS;
+    const parsed = JSON.parse(stored) as Partial<LlmSettings>;
+    return {
+      provider: parsed.provider === 'openai_compatible' ? 'openai_compatible' : 'gemini',
+      gemini: { ...DEFAULT_LLM_SETTINGS.gemini, ...parsed.gemini },
+      openaiCompatible: { ...DEFAULT_LLM_SETTINGS.openaiCompatible, ...parsed.openaiCompatible },
+    };
+  } catch {
+    return DEFAULT_LLM_SETTINGS;
+  }
+};
+
+export const saveLlmSettings = (settings: LlmSettings): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+/**
+ * 선택한 모델을 맨 앞에 두고 나머지 기본 후보를 이어 붙인 Gemini 모델 목록
+ */
+export const getGeminiModelCandidates = (tier: LlmTier, settings: LlmSettings = getLlmSettings()): string[] => {
+  const defaults = tier === 'flash' ? GEMINI_FLASH_MODELS : GEMINI_PRO_MODELS;
+  const preferred = (tier === 'flash' ? settings.gemini.flashModel : settings.gemini.proModel).trim();
+  return preferred ? [preferred, ...defaults.filter(model => model !== preferred)] : defaults;
+};
+
+const getOpenAiCompatibleModel = (tier: LlmTier, settings: OpenAiCompatibleSettings): string =>
+  (tier === 'pro' && settings.proModel.trim()) || settings.flashModel.trim();
+
+/**
+ * OpenAI 호환 엔드포인트 설정이 호출 가능한 상태인지 (주소와 모델이 모두 있어야 함)
+ */
+export const isOpenAiCompatibleConfigured = (settings: LlmSettings = getLlmSettings()): boolean =>
+  !!settings.openaiCompatible.baseUrl.trim() && !!settings.openaiCompatible.flashModel.trim();
+
+/**
+ * 사용 이력에 기록할 모델명 (예: 'gemini-3.1-flash-lite', 'openai-compatible:qwen2.5:14b')
+ */
+export const getActiveModelName = (tier: LlmTier = 'flash', settings: LlmSettings = getLlmSettings()): string => {
+  if (settings.provider === 'openai_compatible') {
+    return `openai-compatible:${getOpenAiCompatibleModel(tier, settings.openaiCompatible) || '(미설정)'}`;
+  }
+  return getGeminiModelCandidates(tier, settings)[0];
+};
+
+/**
+ * 선택한 공급자의 토큰 단가 (USD / 1M 토큰)
+ */
+export const getTokenPricing = (tier: LlmTier, settings: LlmSettings = getLlmSettings()): TokenPricing => {
+  if (settings.provider === 'openai_compatible') {
+    return {
+      inputPerMillion: settings.openaiCompatible.inputCostPerMillion || 0,
+      outputPerMillion: settings.openaiCompatible.outputCostPerMillion || 0,
+    };
+  }
+  return GEMINI_PRICING[tier];
+};
+
+const trimTrailingSlash = (url: string): string => url.trim().replace(/\/+$/, '');
+
+// 응답 상태 코드를 error.status로 남겨 Gemini SDK 오류와 같은 방식(429, 401 등)으로 처리할 수 있게 함
+const toRequestError = (message: string, status?: number): Error =>
+  Object.assign(new Error(message), status === undefined ? {} : { status });
+
+const requestOpenAiCompatible = async (
+  settings: OpenAiCompatibleSettings,
+  path: string,
+  init: RequestInit = {}
+): Promise<unknown> => {
+  const baseUrl = trimTrailingSlash(settings.baseUrl);
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (settings.apiKey.trim()) headers.Authorization = `Bearer ${settings.apiKey.trim()}`;
+
+  let response: Response;
+  try {
+    response = await fetch(`${baseUrl}${path}`, { ...init, headers });
+  } catch (error) {
+    throw toRequestError(
+      `${baseUrl}에 연결할 수 없습니다. 서버가 실행 중인지, 브라우저 요청(CORS)을 허용했는지 확인하세요. ` +
+      `(Ollama는 OLLAMA_ORIGINS 환경 변수) - ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  if (!response.ok) {
+    const body = await response.text().catch(() => '');
+    throw toRequestError(
+      `OpenAI 호환 서버 오류 (${response.status}): ${body.slice(0, 300) || response.statusText}`,
+      response.status
+    );
+  }
+  return response.json();
+};
+
+/**
+ * OpenAI 호환 /chat/completions 엔드포인트로 프롬프트를 보내고 응답 텍스트를 반환합니다.
+ */
+export const generateWithOpenAiCompatible = async (
+  prompt: string,
+  options: OpenAiCompatibleRequestOptions = {},
+  settings: LlmSettings = getLlmSettings()
+): Promise<string> => {
+  const config = settings.openaiCompatible;
+  const model = getOpenAiCompatibleModel(options.tier ?? 'flash', config);
+  if (!config.baseUrl.trim() || !model) {
+    throw new Error('OpenAI 호환 엔드포인트 주소와 모델이 설정되지 않았습니다. AI 설정에서 입력해주세요.');
+  }
+
+  const data = await requestOpenAiCompatible(config, '/chat/completions', {
+    method: 'POST',
+    body: JSON.stringify({
+      model,
+      messages: [{ role: 'user', content: prompt }],
+      stream: false,
+      ...(options.temperature === undefined ? {} : { temperature: options.temperature }),
+      ...(options.json ? { response_format: { type: 'json_object' } } : {}),
+    }),
+  }) as { choices?: { message?: { content?: unknown } }[] };
+
+  const content = data.choices?.[0]?.message?.content;
+  if (typeof content !== 'string' || !content.trim()) {
+    throw new Error(`${model} 모델이 빈 응답을 반환했습니다.`);
+  }
+  return content;
+};
+
+/**
+ * OpenAI 호환 서버의 모델 목록 (/models). 연결 테스트 겸 모델 선택용입니다.
+ */
+export const listOpenAiCompatibleModels = async (
+  config: OpenAiCompatibleSettings = getLlmSettings().openaiCompatible
+): Promise<string[]> => {
+  if (!config.baseUrl.trim()) {
+    throw new Error('엔드포인트 주소를 입력해주세요.');
+  }
+  const data = await requestOpenAiCompatible(config, '/models') as { data?: { id?: unknown }[] };
+  return (data.data ?? [])
+    .map(item => (typeof item.id === 'string' ? item.id : ''))
+    .filter(Boolean)
+    .sort((a, b) => a.localeCompare(b));
+};
@@ -0,0 +1,163 @@
+/**
+ * 컬럼 매핑 프로필 저장 및 관리
+ * ERP 내보내기 형식(헤더 구성)별로 확정한 컬럼 매핑을 이름을 붙여 저장하고,
+ * 같은 헤더 구성의 파일이 업로드되면 자동으로 다시 적용합니다.
+ */
+
+import * as XLSX from 'xlsx';
+import {
+  normalizeWorkbook,
+  toCompleteColumnMapping,
+  type LedgerColumnMapping,
+  type NormalizedLedger,
+  type NormalizeWorkbookOptions,
+} from './ledgerModel';
+
+export interface MappingProfile {
+  id: string;
+  name: string; // 예: "더존 iCUBE 분개장", "더존 Smart A 계정별원장"
+  signature: string; // 헤더 구성 시그니처
+  headers: string[]; // 저장 당시 헤더 (표시용)
+  mapping: LedgerColumnMapping; // 완전한 매핑 (지정 안 함은 null, 자동 탐지와 합치지 않음)
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * 같은 헤더 구성을 가진 시트 묶음
+ */
+export interface HeaderSignatureGroup {
+  signature: string;
+  headers: string[];
+  sheetNames: string[];
+  mapping: LedgerColumnMapping; // 첫 시트에 적용된 매핑
+}
+
+const PROFILE_STORAGE_KEY = 'ledger_mapping_profiles';
+
+/**
+ * 헤더 목록으로 시그니처 생성 (공백/대소문자/순서 무시, 빈 헤더 제외)
+ */
+export const getHeaderSignature = (headers: string[]): string => {
+  const normalized = headers
+    .map(h => String(h || '').replace(/\s/g, '').toLowerCase())
+    .filter(h => h !== '' && !h.startsWith('__empty'));
+  return Array.from(new Set(normalized)).sort().join('|');
+};
+
+/**
+ * 저장된 매핑 프로필 불러오기
+ */
+export const getMappingProfiles = (): MappingProfile[] => {
+  const stored = localStorage.getItem(PROFILE_STORAGE_KEY);
+  if (!stored) return [];
+
+  try {
+    return JSON.parse(stored);
+  } catch {
+    return [];
+  }
+};
+
+const saveMappingProfiles = (profiles: MappingProfile[]): void => {
+  localStorage.setItem(PROFILE_STORAGE_KEY, JSON.stringify(profiles));
+};
+
+/**
+ * 매핑 프로필 저장 (같은 시그니처의 프로필이 있으면 덮어씀)
+ */
+export const saveMappingProfile = (
+  name: string,
+  headers: string[],
+  mapping: LedgerColumnMapping
+): MappingProfile => {
+  const profiles = getMappingProfiles();
+  const signature = getHeaderSignature(headers);
+  const now = new Date().toISOString();
+  const existing = profiles.find(p => p.signature === signature);
+
+  const profile: MappingProfile = {
+    id: existing?.id ?? `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+    name,
+    signature,
+    headers,
+    mapping: toCompleteColumnMapping(mapping),
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+
+  saveMappingProfiles([profile, ...profiles.filter(p => p.signature !== signature)]);
+  return profile;
+};
+
+/**
+ * 매핑 프로필 삭제
+ */
+export const deleteMappingProfile = (id: string): void => {
+  saveMappingProfiles(getMappingProfiles().filter(p => p.id !== id));
+};
+
+/**
+ * 통합 원장의 시트를 헤더 구성별로 묶습니다. (계정별원장은 보통 모든 시트가 같은 묶음)
+ */
+export const groupSheetsBySignature = (ledger: NormalizedLedger): HeaderSignatureGroup[] => {
+  const groups = new Map<string, HeaderSignatureGroup>();
+  ledger.sheets.forEach(sheet => {
+    if (sheet.rowCount === 0) return;
+    const signature = getHeaderSignature(sheet.headers);
+    const group = groups.get(signature);
+    if (group) {
+      group.sheetNames.push(sheet.sheetName);
+    } else {
+      groups.set(signature, {
+        signature,
+        headers: sheet.headers,
+        sheetNames: [sheet.sheetName],
+        mapping: sheet.mapping,
+      });
+    }
+  });
+  return Array.from(groups.values());
+};
+
+/**
+ * 시그니처별 매핑을 normalizeWorkbook의 시트별 매핑 옵션으로 펼칩니다.
+ */
+export const expandMappingsToSheets = (
+  groups: HeaderSignatureGroup[],
+  mappingsBySignature: Record<string, LedgerColumnMapping>
+): Record<string, LedgerColumnMapping> => {
+  const result: Record<string, LedgerColumnMapping> = {};
+  groups.forEach(group => {
+    const mapping = mappingsBySignature[group.signature];
+    if (!mapping) return;
+    const complete = toCompleteColumnMapping(mapping);
+    group.sheetNames.forEach(sheetName => {
+      result[sheetName] = complete;
+    });
+  });
+  return result;
+};
+
+/**
+ * 워크북을 정규화하면서, 헤더 구성이 일치하는 저장된 프로필이 있는 시트는 그 매핑을 그대로 사용합니다.
+ * localStorage가 없는 Web Worker에서는 프로필 목록을 직접 넘깁니다.
+ */
+export const normalizeWorkbookWithProfiles = (
+  workbook: XLSX.WorkBook,
+  savedProfiles: MappingProfile[] = getMappingProfiles(),
+  options: Pick<NormalizeWorkbookOptions, 'onProgress'> = {}
+): { ledger: NormalizedLedger; profiles: MappingProfile[] } => {
+  const matched = new Map<string, MappingProfile>();
+  const ledger = normalizeWorkbook(workbook, {
+    ...options,
+    resolveMapping: (_sheetName, headers) => {
+      const signature = getHeaderSignature(headers);
+      const profile = signature ? savedProfiles.find(p => p.signature === signature) : undefined;
+      if (!profile) return undefined;
+      matched.set(profile.id, profile);
+      return profile.mapping;
+    },
+  });
+  return { ledger, profiles: Array.from(matched.values()) };
+};
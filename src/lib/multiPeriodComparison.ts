@@ -0,0 +1,316 @@
+/**
+ * 다년도 비교 (Multi-period Comparison)
+ * 3~5개 회계연도의 통합 원장을 계정명으로 맞춰 연도별 금액·거래처 수·월별 패턴을 비교하고
+ * 연평균 성장률(CAGR), 전년 대비 증감, 추세 이탈 여부를 계산합니다.
+ * 전기 비교(2개 기간)도 같은 계산을 기간 2개로 사용합니다.
+ */
+
+import type { JournalEntry } from '@/types/analysis';
+import { getAccountEntries, getEntryDate, getPostingEntries, type NormalizedLedger } from './ledgerModel';
+
+export type AmountFilter = 'all' | 'debit' | 'credit';
+
+/**
+ * 비교 대상 기간 (오래된 기간 → 최근 기간 순으로 전달)
+ */
+export interface ComparisonPeriod {
+  label: string; // 예: "2024년", "당기(2025)"
+  ledger: NormalizedLedger;
+  fileName?: string;
+  fiscalYear?: number | null;
+}
+
+/**
+ * 추세 이탈 유형
+ * - reversal: 직전까지 같은 방향으로 움직이다가 최근 연도에 방향이 뒤집힘
+ * - spike: 최근 연도 증감률이 과거 평균 증감률에서 크게 벗어남
+ * - new: 과거 연도에는 없다가 최근 연도에 발생
+ * - discontinued: 과거 연도에는 있다가 최근 연도에 발생하지 않음
+ */
+export type TrendBreakType = 'reversal' | 'spike' | 'new' | 'discontinued';
+
+export interface TrendBreakOptions {
+  /** 방향 전환으로 볼 최근 연도 최소 증감률 (%, 기본값 10) */
+  reversalThreshold?: number;
+  /** 과거 평균 증감률과의 차이 (%p, 기본값 30) */
+  spikeThreshold?: number;
+}
+
+/**
+ * 기간별 비교 행 (계정 또는 거래처 단위)
+ */
+export interface PeriodTrendRow {
+  name: string;
+  amounts: number[]; // 기간 순서대로의 금액
+  counts: number[]; // 계정 행: 거래처 수, 거래처 행: 거래 건수
+  yoyChanges: (number | null)[]; // 전년 대비 증감률(%) - 첫 기간과 전년 금액이 0인 경우 null
+  change: number; // 최근 기간 - 직전 기간
+  changePercent: number; // 최근 기간 증감률 (직전 0이면 발생 시 100)
+  cagr: number | null; // 첫 기간 대비 연평균 성장률(%) - 양쪽 금액이 양수일 때만 (연수는 getCagrYears)
+  trendBreak: TrendBreakType | null;
+}
+
+/**
+ * 월별 패턴 (월 → 기간별 금액)과 최근 기간의 패턴 변화 정도
+ */
+export interface MonthlyPatternResult {
+  months: { month: number; amounts: number[] }[];
+  /** 최근 기간의 월별 구성비가 과거 기간 평균 구성비와 다른 정도 (0~1, 0이면 동일) */
+  patternShift: number | null;
+}
+
+/** 당기·전기를 포함해 비교할 수 있는 최대 기간 수 */
+export const MAX_COMPARISON_PERIODS = 5;
+
+export const TREND_BREAK_LABELS: Record<TrendBreakType, string> = {
+  reversal: '방향 전환',
+  spike: '급변',
+  new: '신규 발생',
+  discontinued: '발생 중단',
+};
+
+const EMPTY_VENDOR_LABEL = '(거래처 없음)';
+
+/**
+ * 계정명에서 숫자 접두사를 제거합니다. 예: "1. 제품매출(매출)" → "제품매출(매출)"
+ */
+export const normalizeComparisonAccountName = (name: string): string => {
+  return name.replace(/^\d+[.\s]*/, '').trim();
+};
+
+export interface AccountMatchOptions {
+  /** 부분 일치까지 허용 (단일 계정 상세 비교용, 급여 ↔ 퇴직급여처럼 다른 계정이 잡힐 수 있음) */
+  fuzzy?: boolean;
+}
+
+/**
+ * 다른 기간 원장에서 같은 계정을 찾습니다. (정확히 일치 → 번호 제거 후 일치 → fuzzy일 때만 부분 일치 순)
+ */
+export const findMatchingAccount = (
+  accountNames: string[],
+  name: string,
+  options: AccountMatchOptions = {}
+): string | undefined => {
+  const exact = accountNames.find(n => n === name);
+  if (exact) return exact;
+
+  const normalized = normalizeComparisonAccountName(name);
+  const sameName = accountNames.find(n => normalizeComparisonAccountName(n) === normalized);
+  if (sameName || !options.fuzzy) return sameName;
+
+  return accountNames.find(n => {
+    const candidate = normalizeComparisonAccountName(n);
+    return candidate.includes(normalized) || normalized.includes(candidate);
+  });
+};
+
+/**
+ * 원장의 회계연도 추정 (거래 일자 중 가장 많은 연도). 일자를 읽을 수 없으면 null.
+ */
+export const getLedgerFiscalYear = (ledger: NormalizedLedger): number | null => {
+  const counts = new Map<number, number>();
+  getPostingEntries(ledger).forEach(entry => {
+    const d = getEntryDate(entry);
+    if (d) counts.set(d.getFullYear(), (counts.get(d.getFullYear()) || 0) + 1);
+  });
+  let best: number | null = null;
+  counts.forEach((count, year) => {
+    if (best === null || count > (counts.get(best) || 0)) best = year;
+  });
+  return best;
+};
+
+const getAmount = (entry: JournalEntry, amountFilter: AmountFilter): number => {
+  if (amountFilter === 'debit') return entry.debit;
+  if (amountFilter === 'credit') return entry.credit;
+  return entry.debit + entry.credit;
+};
+
+const getPercentChange = (current: number, previous: number): number | null => {
+  if (previous === 0) return null;
+  return ((current - previous) / Math.abs(previous)) * 100;
+};
+
+/**
+ * 연평균 성장률(%) - 첫 금액과 마지막 금액이 모두 양수일 때만 계산
+ */
+export const computeCagr = (first: number, last: number, years: number): number | null => {
+  if (years <= 0 || first <= 0 || last <= 0) return null;
+  return (Math.pow(last / first, 1 / years) - 1) * 100;
+};
+
+/**
+ * CAGR 계산 연수 - 첫 기간과 최근 기간의 회계연도를 모두 알면 그 차이, 아니면 기간 수 - 1
+ * (중간 연도가 빠진 경우에도 실제 경과 연수로 연평균을 계산)
+ */
+export const getCagrYears = (periods: ComparisonPeriod[]): number => {
+  const firstYear = periods[0]?.fiscalYear;
+  const latestYear = periods[periods.length - 1]?.fiscalYear;
+  if (firstYear && latestYear && latestYear > firstYear) return latestYear - firstYear;
+  return periods.length - 1;
+};
+
+/**
+ * 최근 기간의 움직임이 과거 추세에서 벗어나는지 판정합니다. 기간이 3개 미만이면 신규/중단만 판정합니다.
+ */
+export const detectTrendBreak = (amounts: number[], options: TrendBreakOptions = {}): TrendBreakType | null => {
+  const reversalThreshold = options.reversalThreshold ?? 10;
+  const spikeThreshold = options.spikeThreshold ?? 30;
+  if (amounts.length < 2) return null;
+
+  const latest = amounts[amounts.length - 1];
+  const history = amounts.slice(0, -1);
+  if (history.every(a => a === 0)) return latest !== 0 ? 'new' : null;
+  if (latest === 0) return 'discontinued';
+  if (amounts.length < 3) return null;
+
+  const changes: number[] = [];
+  for (let i = 1; i < amounts.length; i++) {
+    const pct = getPercentChange(amounts[i], amounts[i - 1]);
+    if (pct !== null) changes.push(pct);
+  }
+  if (changes.length < 2) return null;
+
+  const latestChange = changes[changes.length - 1];
+  const priorChanges = changes.slice(0, -1);
+  const sameDirection = priorChanges.every(c => Math.sign(c) === Math.sign(priorChanges[0]) && c !== 0);
+  if (sameDirection && Math.sign(latestChange) === -Math.sign(priorChanges[0]) && Math.abs(latestChange) >= reversalThreshold) {
+    return 'reversal';
+  }
+
+  const priorAverage = priorChanges.reduce((sum, c) => sum + c, 0) / priorChanges.length;
+  if (Math.abs(latestChange - priorAverage) >= spikeThreshold) return 'spike';
+  return null;
+};
+
+const buildTrendRow = (
+  name: string,
+  amounts: number[],
+  counts: number[],
+  cagrYears: number,
+  options: TrendBreakOptions
+): PeriodTrendRow => {
+  const n = amounts.length;
+  const latest = amounts[n - 1] ?? 0;
+  const previous = amounts[n - 2] ?? 0;
+  const change = latest - previous;
+  return {
+    name,
+    amounts,
+    counts,
+    yoyChanges: amounts.map((amount, i) => (i === 0 ? null : getPercentChange(amount, amounts[i - 1]))),
+    change,
+    changePercent: getPercentChange(latest, previous) ?? (latest > 0 ? 100 : 0),
+    cagr: n >= 2 ? computeCagr(amounts[0], latest, cagrYears) : null,
+    trendBreak: detectTrendBreak(amounts, options),
+  };
+};
+
+/**
+ * 모든 기간의 계정을 계정명(번호 제거 후 정확히 일치)으로 맞춰 계정별 금액과 거래처 수를 비교합니다.
+ * 계정 목록은 최근 기간 기준이며, 과거 기간에만 있는 계정도 뒤에 포함합니다.
+ */
+export const buildAccountTrendRows = (
+  periods: ComparisonPeriod[],
+  amountFilter: AmountFilter = 'all',
+  options: TrendBreakOptions = {}
+): PeriodTrendRow[] => {
+  if (periods.length === 0) return [];
+
+  const names: string[] = [];
+  const seen = new Set<string>();
+  [...periods].reverse().forEach(period => {
+    period.ledger.accountNames.forEach(name => {
+      const key = normalizeComparisonAccountName(name);
+      if (seen.has(key)) return;
+      seen.add(key);
+      names.push(name);
+    });
+  });
+  const cagrYears = getCagrYears(periods);
+
+  return names
+    .map(name => {
+      const amounts: number[] = [];
+      const counts: number[] = [];
+      periods.forEach(period => {
+        const account = findMatchingAccount(period.ledger.accountNames, name);
+        const entries = account ? getAccountEntries(period.ledger, account) : [];
+        amounts.push(entries.reduce((sum, e) => sum + getAmount(e, amountFilter), 0));
+        counts.push(new Set(entries.map(e => e.vendor.trim()).filter(Boolean)).size);
+      });
+      return buildTrendRow(name, amounts, counts, cagrYears, options);
+    })
+    .filter(row => row.amounts.some(a => a !== 0));
+};
+
+/**
+ * 선택한 계정의 거래처별 금액과 거래 건수를 기간별로 비교합니다. 변동률 절대값 순으로 정렬합니다.
+ */
+export const buildVendorTrendRows = (
+  periods: ComparisonPeriod[],
+  accountName: string,
+  amountFilter: AmountFilter = 'all',
+  options: TrendBreakOptions = {}
+): PeriodTrendRow[] => {
+  const vendorMap = new Map<string, { amounts: number[]; counts: number[] }>();
+
+  periods.forEach((period, idx) => {
+    const account = findMatchingAccount(period.ledger.accountNames, accountName, { fuzzy: true });
+    if (!account) return;
+    getAccountEntries(period.ledger, account).forEach(entry => {
+      const vendor = entry.vendor.trim() || EMPTY_VENDOR_LABEL;
+      let data = vendorMap.get(vendor);
+      if (!data) {
+        data = { amounts: periods.map(() => 0), counts: periods.map(() => 0) };
+        vendorMap.set(vendor, data);
+      }
+      data.amounts[idx] += getAmount(entry, amountFilter);
+      data.counts[idx]++;
+    });
+  });
+
+  const cagrYears = getCagrYears(periods);
+  const rows: PeriodTrendRow[] = [];
+  vendorMap.forEach((data, vendor) => {
+    if (data.amounts.every(a => a === 0)) return;
+    rows.push(buildTrendRow(vendor, data.amounts, data.counts, cagrYears, options));
+  });
+  return rows.sort((a, b) => Math.abs(b.changePercent) - Math.abs(a.changePercent));
+};
+
+/**
+ * 선택한 계정의 월별 금액을 기간별로 집계하고, 최근 기간의 월별 구성비 변화 정도를 계산합니다.
+ */
+export const buildMonthlyPattern = (
+  periods: ComparisonPeriod[],
+  accountName: string,
+  amountFilter: AmountFilter = 'all'
+): MonthlyPatternResult => {
+  const months = Array.from({ length: 12 }, (_, i) => ({ month: i + 1, amounts: periods.map(() => 0) }));
+
+  periods.forEach((period, idx) => {
+    const account = findMatchingAccount(period.ledger.accountNames, accountName, { fuzzy: true });
+    if (!account) return;
+    getAccountEntries(period.ledger, account).forEach(entry => {
+      const d = getEntryDate(entry);
+      if (d) months[d.getMonth()].amounts[idx] += getAmount(entry, amountFilter);
+    });
+  });
+
+  const shares = periods.map((_, idx) => {
+    const total = months.reduce((sum, m) => sum + m.amounts[idx], 0);
+    return total === 0 ? null : months.map(m => m.amounts[idx] / total);
+  });
+  const latestShares = shares[shares.length - 1];
+  const priorShares = shares.slice(0, -1).filter((s): s is number[] => s !== null);
+  if (!latestShares || priorShares.length === 0) return { months, patternShift: null };
+
+  // 과거 평균 구성비와의 총변동거리 (각 월 구성비 차이 절대값 합의 절반)
+  const patternShift = latestShares.reduce((sum, share, m) => {
+    const average = priorShares.reduce((s, p) => s + p[m], 0) / priorShares.length;
+    return sum + Math.abs(share - average);
+  }, 0) / 2;
+
+  return { months, patternShift };
+};
@@ -0,0 +1,174 @@
+/**
+ * MUS 표본 평가 (Monetary Unit Sampling Evaluation)
+ * 표본 항목별 장부금액과 감사금액으로 오류율(tainting)과 추정 왜곡표시액을 구하고,
+ * 기본 정밀도와 증분 허용액을 더한 왜곡표시 상한(UML)을 허용왜곡표시액과 비교합니다.
+ * 신뢰계수는 포아송 분포의 상한(오류 건수별)이며, 감사 지침 표와 같게 소수 둘째 자리에서 올림합니다.
+ */
+
+export type MusConclusion = 'accept' | 'reject';
+
+export interface MusSampleItem {
+  bookValue: number;
+  auditedValue: number;
+  isKeyItem?: boolean; // 이상거래 등 개별 선정 항목 (상위층처럼 실제 왜곡표시액만 반영)
+}
+
+export interface MusItemEvaluation extends MusSampleItem {
+  index: number; // 표본 순번 (0부터)
+  misstatement: number; // 장부금액 - 감사금액 (양수 = 과대계상)
+  tainting: number; // 왜곡표시액 / 장부금액 (상위층 항목은 0)
+  projectedMisstatement: number; // 오류율 × 표본간격 (상위층 항목은 실제 왜곡표시액)
+  isTopStratum: boolean; // 장부금액이 표본간격 이상이거나 개별 선정한 항목 (추정하지 않음)
+}
+
+export interface MusAllowanceStep {
+  index: number; // 표본 순번
+  rank: number; // 오류율 내림차순 순위 (1부터)
+  tainting: number;
+  projectedMisstatement: number;
+  confidenceFactor: number; // 해당 오류 건수의 신뢰계수
+  incrementalFactor: number; // 직전 신뢰계수와의 차이
+  allowance: number; // 추정 왜곡표시액 × (증분계수 - 1)
+}
+
+export interface MusBound {
+  errorCount: number; // 상위층 제외 오류 건수
+  projectedMisstatement: number; // 상위층 제외 추정 왜곡표시액 합계
+  topStratumMisstatement: number; // 상위층 실제 왜곡표시액 합계
+  incrementalAllowance: number;
+  upperLimit: number; // 기본 정밀도 + 추정 왜곡표시액 + 증분 허용액 + 상위층 왜곡표시액
+  steps: MusAllowanceStep[];
+}
+
+export interface MusEvaluationOptions {
+  samplingInterval: number;
+  confidenceLevel: number; // 90 / 95 / 99 등 (%)
+  tolerableMisstatement: number;
+}
+
+export interface MusEvaluationResult extends MusEvaluationOptions {
+  items: MusItemEvaluation[];
+  basicPrecision: number; // 오류 0건 신뢰계수 × 표본간격
+  overstatement: MusBound;
+  understatement: MusBound;
+  conclusion: MusConclusion;
+}
+
+export const MUS_CONCLUSION_LABELS: Record<MusConclusion, string> = {
+  accept: '수용 (왜곡표시 상한 ≤ 허용왜곡표시액)',
+  reject: '기각 (왜곡표시 상한 > 허용왜곡표시액)',
+};
+
+// 포아송 누적확률 P(X ≤ k; λ)
+const poissonCdf = (k: number, lambda: number): number => {
+  let term = Math.exp(-lambda);
+  let sum = term;
+  for (let i = 1; i <= k; i++) {
+    term *= lambda / i;
+    sum += term;
+  }
+  return sum;
+};
+
+/**
+ * 오류 건수별 MUS 신뢰계수 (포아송 상한, 소수 둘째 자리 올림)
+ * 예: 95% 신뢰수준에서 0건 3.00, 1건 4.75, 2건 6.30
+ */
+export const getMusConfidenceFactor = (errorCount: number, confidenceLevel: number): number => {
+  const risk = 1 - confidenceLevel / 100;
+  if (risk <= 0 || risk >= 1) return 0;
+  let low = 0;
+  let high = errorCount + 10;
+  while (poissonCdf(errorCount, high) > risk) high *= 2;
+  for (let i = 0; i < 100; i++) {
+    const mid = (low + high) / 2;
+    if (poissonCdf(errorCount, mid) > risk) low = mid;
+    else high = mid;
+  }
+  return Math.ceil(high * 100 - 1e-6) / 100;
+};
+
+// 한 방향(과대/과소) 왜곡표시 상한
+const evaluateBound = (
+  items: MusItemEvaluation[],
+  direction: 1 | -1,
+  basicPrecision: number,
+  confidenceLevel: number
+): MusBound => {
+  const topStratumMisstatement = items
+    .filter(item => item.isTopStratum && item.misstatement * direction > 0)
+    .reduce((sum, item) => sum + item.misstatement * direction, 0);
+
+  const errors = items
+    .filter(item => !item.isTopStratum && item.misstatement * direction > 0)
+    .sort((a, b) => b.tainting * direction - a.tainting * direction);
+
+  let previousFactor = getMusConfidenceFactor(0, confidenceLevel);
+  const steps: MusAllowanceStep[] = errors.map((item, i) => {
+    const confidenceFactor = getMusConfidenceFactor(i + 1, confidenceLevel);
+    const incrementalFactor = Math.round((confidenceFactor - previousFactor) * 100) / 100;
+    previousFactor = confidenceFactor;
+    const projectedMisstatement = item.projectedMisstatement * direction;
+    return {
+      index: item.index,
+      rank: i + 1,
+      tainting: item.tainting * direction,
+      projectedMisstatement,
+      confidenceFactor,
+      incrementalFactor,
+      allowance: projectedMisstatement * (incrementalFactor - 1),
+    };
+  });
+
+  const projectedMisstatement = steps.reduce((sum, step) => sum + step.projectedMisstatement, 0);
+  const incrementalAllowance = steps.reduce((sum, step) => sum + step.allowance, 0);
+  return {
+    errorCount: steps.length,
+    projectedMisstatement,
+    topStratumMisstatement,
+    incrementalAllowance,
+    upperLimit: basicPrecision + projectedMisstatement + incrementalAllowance + topStratumMisstatement,
+    steps,
+  };
+};
+
+/**
+ * 감사금액을 입력한 MUS 표본을 평가합니다.
+ * 과대계상과 과소계상을 각각 평가하며, 두 상한이 모두 허용왜곡표시액 이하일 때 수용합니다.
+ */
+export const evaluateMusSample = (
+  sample: MusSampleItem[],
+  options: MusEvaluationOptions
+): MusEvaluationResult => {
+  const { samplingInterval, confidenceLevel, tolerableMisstatement } = options;
+
+  const items: MusItemEvaluation[] = sample.map((item, index) => {
+    const misstatement = item.bookValue - item.auditedValue;
+    const isTopStratum = !!item.isKeyItem || item.bookValue >= samplingInterval;
+    const tainting = !isTopStratum && item.bookValue !== 0 ? misstatement / item.bookValue : 0;
+    return {
+      ...item,
+      index,
+      misstatement,
+      tainting,
+      projectedMisstatement: isTopStratum ? misstatement : tainting * samplingInterval,
+      isTopStratum,
+    };
+  });
+
+  const basicPrecision = getMusConfidenceFactor(0, confidenceLevel) * samplingInterval;
+  const overstatement = evaluateBound(items, 1, basicPrecision, confidenceLevel);
+  const understatement = evaluateBound(items, -1, basicPrecision, confidenceLevel);
+
+  return {
+    ...options,
+    items,
+    basicPrecision,
+    overstatement,
+    understatement,
+    conclusion:
+      overstatement.upperLimit <= tolerableMisstatement && understatement.upperLimit <= tolerableMisstatement
+        ? 'accept'
+        : 'reject',
+  };
+};
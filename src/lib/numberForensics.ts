@@ -0,0 +1,173 @@
+/**
+ * 숫자 중복·상대적 크기 비율 검정 (Number Duplication / Relative Size Factor)
+ * 숫자 중복: 계정·거래처별로 같은 금액이 반복된 횟수를 세어 건수 × 금액이 큰 순서로 정렬합니다.
+ * 상대적 크기 비율(RSF): 거래처별 최대 거래 ÷ 두 번째로 큰 거래로, 값이 크면 입력 오류(자릿수 실수)나
+ * 일회성으로 부풀린 청구서일 수 있습니다. (Nigrini, Forensic Analytics, 2011)
+ * 한 거래가 비용 차변·채무 대변처럼 여러 라인으로 기록되므로 같은 전표의 같은 그룹 라인은 한 건으로 셉니다.
+ */
+
+import type { JournalEntry } from '@/types/analysis';
+import { getVoucherKey } from './voucherModel';
+
+export type DuplicationGroupBy = 'account' | 'vendor';
+
+export interface NumberDuplicationOptions {
+  groupBy: DuplicationGroupBy;
+  minAmount: number; // 이 금액 미만은 제외 (소액 반복 거래 제외용)
+  minCount: number; // 이 횟수 이상 반복된 금액만
+}
+
+export interface NumberDuplication {
+  group: string; // 계정과목 또는 거래처
+  amount: number;
+  count: number;
+  totalAmount: number; // 건수 × 금액 (순위 기준)
+  groupCount: number; // 그룹 전체 건수
+  entries: JournalEntry[]; // 거래(전표)별 대표 라인
+}
+
+export interface RelativeSizeFactorOptions {
+  minAmount: number; // 두 번째로 큰 거래가 이 금액 미만이면 제외 (분모가 작아 비율이 과대해지는 것 방지)
+  threshold: number; // RSF가 이 값 이상이면 검토 대상
+}
+
+export interface RelativeSizeFactor {
+  vendor: string;
+  count: number;
+  totalAmount: number;
+  largest: JournalEntry;
+  largestAmount: number;
+  secondLargest: JournalEntry;
+  secondLargestAmount: number;
+  rsf: number;
+  flagged: boolean;
+  entries: JournalEntry[]; // 금액 내림차순
+}
+
+export const DUPLICATION_GROUP_LABELS: Record<DuplicationGroupBy, string> = {
+  account: '계정과목',
+  vendor: '거래처',
+};
+
+export const DEFAULT_NUMBER_DUPLICATION_OPTIONS: NumberDuplicationOptions = {
+  groupBy: 'vendor',
+  minAmount: 10000,
+  minCount: 2,
+};
+
+export const DEFAULT_RSF_OPTIONS: RelativeSizeFactorOptions = {
+  minAmount: 10000,
+  threshold: 10,
+};
+
+// 분개 라인의 거래 금액 (차변·대변 중 큰 쪽 절대값)
+export const getForensicAmount = (entry: JournalEntry): number =>
+  Math.max(Math.abs(entry.debit || 0), Math.abs(entry.credit || 0));
+
+const getGroupKey = (entry: JournalEntry, groupBy: DuplicationGroupBy): string =>
+  (groupBy === 'account' ? entry.accountName : entry.vendor)?.trim() ?? '';
+
+/**
+ * 라인을 그룹별 거래로 묶습니다. 같은 전표·같은 그룹의 라인은 금액이 가장 큰 라인 하나로 대표하고
+ * (예: 비용 1,000 + 부가세 100 / 미지급금 1,100 → 1,100 한 건), 전표번호가 없는 라인은 각각 한 건으로 봅니다.
+ */
+const toGroupTransactions = (
+  entries: JournalEntry[],
+  groupBy: DuplicationGroupBy
+): Map<string, JournalEntry[]> => {
+  const byGroup = new Map<string, JournalEntry[]>();
+  const byVoucher = new Map<string, JournalEntry>();
+  entries.forEach(entry => {
+    const group = getGroupKey(entry, groupBy);
+    if (!group || getForensicAmount(entry) <= 0) return;
+    const voucherKey = getVoucherKey(entry);
+    if (voucherKey) {
+      const key = `${group}\u0000${voucherKey}`;
+      const current = byVoucher.get(key);
+      if (!current || getForensicAmount(entry) > getForensicAmount(current)) byVoucher.set(key, entry);
+      return;
+    }
+    const list = byGroup.get(group);
+    if (list) list.push(entry);
+    else byGroup.set(group, [entry]);
+  });
+  byVoucher.forEach((entry, key) => {
+    const group = key.slice(0, key.indexOf('\u0000'));
+    const list = byGroup.get(group);
+    if (list) list.push(entry);
+    else byGroup.set(group, [entry]);
+  });
+  return byGroup;
+};
+
+/**
+ * 그룹별 금액 반복 횟수를 거래(전표) 단위로 세어 건수 × 금액 내림차순으로 정렬합니다. 그룹이 비어 있는 라인은 제외합니다.
+ */
+export const findNumberDuplications = (
+  entries: JournalEntry[],
+  options: NumberDuplicationOptions
+): NumberDuplication[] => {
+  const groups = new Map<string, { count: number; byAmount: Map<number, JournalEntry[]> }>();
+  toGroupTransactions(entries, options.groupBy).forEach((transactions, group) => {
+    const bucket = { count: 0, byAmount: new Map<number, JournalEntry[]>() };
+    transactions.forEach(entry => {
+      const amount = getForensicAmount(entry);
+      if (amount < options.minAmount) return;
+      bucket.count++;
+      const list = bucket.byAmount.get(amount);
+      if (list) list.push(entry);
+      else bucket.byAmount.set(amount, [entry]);
+    });
+    if (bucket.count > 0) groups.set(group, bucket);
+  });
+
+  const duplications: NumberDuplication[] = [];
+  groups.forEach((bucket, group) => {
+    bucket.byAmount.forEach((list, amount) => {
+      if (list.length < Math.max(2, options.minCount)) return;
+      duplications.push({
+        group,
+        amount,
+        count: list.length,
+        totalAmount: amount * list.length,
+        groupCount: bucket.count,
+        entries: list,
+      });
+    });
+  });
+  return duplications.sort((a, b) => b.totalAmount - a.totalAmount || b.count - a.count);
+};
+
+/**
+ * 거래처별 상대적 크기 비율을 거래(전표) 단위로 계산해 RSF 내림차순으로 정렬합니다.
+ * 거래가 두 건 미만이거나 두 번째로 큰 거래가 최소 금액 미만인 거래처는 제외합니다.
+ */
+export const calculateRelativeSizeFactors = (
+  entries: JournalEntry[],
+  options: RelativeSizeFactorOptions
+): RelativeSizeFactor[] => {
+  const byVendor = toGroupTransactions(entries, 'vendor');
+
+  const factors: RelativeSizeFactor[] = [];
+  byVendor.forEach((list, vendor) => {
+    if (list.length < 2) return;
+    const sorted = [...list].sort((a, b) => getForensicAmount(b) - getForensicAmount(a));
+    const largestAmount = getForensicAmount(sorted[0]);
+    const secondLargestAmount = getForensicAmount(sorted[1]);
+    if (secondLargestAmount <= 0 || secondLargestAmount < options.minAmount) return;
+    const rsf = largestAmount / secondLargestAmount;
+    factors.push({
+      vendor,
+      count: sorted.length,
+      totalAmount: sorted.reduce((sum, entry) => sum + getForensicAmount(entry), 0),
+      largest: sorted[0],
+      largestAmount,
+      secondLargest: sorted[1],
+      secondLargestAmount,
+      rsf,
+      flagged: rsf >= options.threshold,
+      entries: sorted,
+    });
+  });
+  return factors.sort((a, b) => b.rsf - a.rsf || b.largestAmount - a.largestAmount);
+};
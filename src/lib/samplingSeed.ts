@@ -0,0 +1,89 @@
+/**
+ * 재현 가능한 표본추출 (Seeded Sampling)
+ * 모든 무작위 추출은 기록된 시드의 의사난수로 수행해, 검토자가 같은 파라미터로 다시 실행하면
+ * 같은 표본이 나오도록 합니다. 실행 파라미터는 결과와 함께 저장하고 엑셀 파라미터 시트로 내보냅니다.
+ */
+
+export interface SamplingRunParameters {
+  method: string; // 샘플링 방법 표시 이름
+  seed: number;
+  randomStart: number | null; // 체계적·MUS 추출의 무작위 시작점 (층화는 계층별 시작점을 따로 기록)
+  account: string;
+  startDate: string;
+  endDate: string;
+  amountType?: string; // 금액 기준 (차변/대변/차변+대변)
+  materiality?: string;
+  confidenceLevel?: number;
+  includeAnomalies?: boolean;
+  sampleSize: number; // 요청한 표본 수
+  populationCount: number;
+  populationAmount?: number;
+  extra?: [string, string | number][]; // 방법별 추가 파라미터
+  runAt: string; // ISO 일시
+}
+
+const SEED_MAX = 0xffffffff;
+
+/**
+ * 32비트 시드로 0 이상 1 미만 의사난수 함수를 만듭니다. (mulberry32)
+ */
+export const createSeededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * 새 시드 (1 ~ 4294967295)
+ */
+export const generateSamplingSeed = (): number => {
+  if (typeof crypto !== 'undefined' && typeof crypto.getRandomValues === 'function') {
+    const values = new Uint32Array(1);
+    crypto.getRandomValues(values);
+    return values[0] || 1;
+  }
+  return Math.floor(Math.random() * (SEED_MAX - 1)) + 1;
+};
+
+/**
+ * 입력한 시드 문자열을 숫자로 바꿉니다. 범위를 벗어나거나 숫자가 아니면 null.
+ */
+export const parseSamplingSeed = (input: string): number | null => {
+  const trimmed = input.replace(/,/g, '').trim();
+  if (!/^\d+$/.test(trimmed)) return null;
+  const seed = Number(trimmed);
+  return seed >= 0 && seed <= SEED_MAX ? seed : null;
+};
+
+/**
+ * 엑셀 파라미터 시트 행 (항목, 값)
+ */
+export const buildSamplingParameterRows = (params: SamplingRunParameters): (string | number)[][] => {
+  const rows: (string | number)[][] = [
+    ['표본추출 파라미터'],
+    [],
+    ['항목', '값'],
+    ['샘플링 방법', params.method],
+    ['시드 (Seed)', params.seed],
+    ['무작위 시작점', params.randomStart === null ? '-' : params.randomStart],
+    ['계정과목', params.account],
+    ['기간', params.startDate || params.endDate ? `${params.startDate || '처음'} ~ ${params.endDate || '끝'}` : '전체'],
+  ];
+  if (params.amountType) rows.push(['금액 기준', params.amountType]);
+  if (params.materiality) rows.push(['수행중요성', params.materiality]);
+  if (params.confidenceLevel !== undefined) rows.push(['신뢰수준', `${params.confidenceLevel}%`]);
+  if (params.includeAnomalies !== undefined) rows.push(['이상거래 포함', params.includeAnomalies ? '예' : '아니오']);
+  rows.push(['요청 표본 수', params.sampleSize]);
+  rows.push(['모집단 건수', params.populationCount]);
+  if (params.populationAmount !== undefined) rows.push(['모집단 금액', params.populationAmount]);
+  params.extra?.forEach(([label, value]) => rows.push([label, value]));
+  rows.push(['추출 일시', new Date(params.runAt).toLocaleString('ko-KR')]);
+  rows.push([]);
+  rows.push(['※ 같은 모집단(계정·기간·금액 기준)과 파라미터, 시드로 다시 실행하면 같은 표본이 추출됩니다.']);
+  return rows;
+};
@@ -10,68 +10,10 @@
  */
 
 import { cleanAmount } from './headerUtils';
+import { classifyAccount, type AccountType } from './chartOfAccounts';
 
 type LedgerRow = { [key: string]: string | number | Date | undefined };
 
-/**
- * 계정 유형 판단
- * @param accountName 계정명
- * @returns 'asset' | 'expense' | 'liability' | 'equity' | 'revenue' | 'unknown'
- */
-export const getAccountType = (accountName: string): 'asset' | 'expense' | 'liability' | 'equity' | 'revenue' | 'unknown' => {
-  const normalized = accountName.replace(/\s/g, '').toLowerCase();
-  
-  // 자산 계정 키워드
-  const assetKeywords = ['자산', '현금', '예금', '매출채권', '외상매출금', '외상매출', '선급금', '선급비용', 
-    '재고자산', '재고', '유형자산', '무형자산', '투자자산', '당좌자산', '유동자산', '비유동자산',
-    '매입채권', '외상매입금', '미수금', '미수수익', '선수금', '선수수익', '기타자산'];
-  
-  // 비용 계정 키워드
-  const expenseKeywords = ['비용', '원가', '매출원가', '판매비', '관리비', '영업비용', '판관비', '판매관리비',
-    '급여', '임금', '수당', '복리후생비', '임차료', '임대료', '광고선전비', '운반비', '보험료',
-    '세금', '세금과세금', '감가상각비', '충당금', '손실', '기타비용', '차감', '감소'];
-  
-  // 부채 계정 키워드
-  const liabilityKeywords = ['부채', '차입금', '차입', '대출', '사채', '채권', '매입채무', '외상매입금',
-    '미지급금', '미지급비용', '선수금', '선수수익', '예수금', '유동부채', '비유동부채',
-    '단기차입금', '장기차입금', '기타부채'];
-  
-  // 자본 계정 키워드
-  const equityKeywords = ['자본', '자본금', '주식', '자본잉여금', '이익잉여금', '자본변동', '기타포괄손익',
-    '자기자본', '납입자본', '이익', '손익'];
-  
-  // 수익 계정 키워드
-  const revenueKeywords = ['매출', '수익', '영업수익', '영업외수익', '기타수익', '이자수익', '배당수익',
-    '임대수익', '수수료수익', '기타영업수익', '증가', '발생'];
-  
-  // 자산 계정 확인
-  if (assetKeywords.some(keyword => normalized.includes(keyword))) {
-    return 'asset';
-  }
-  
-  // 비용 계정 확인
-  if (expenseKeywords.some(keyword => normalized.includes(keyword))) {
-    return 'expense';
-  }
-  
-  // 부채 계정 확인
-  if (liabilityKeywords.some(keyword => normalized.includes(keyword))) {
-    return 'liability';
-  }
-  
-  // 자본 계정 확인
-  if (equityKeywords.some(keyword => normalized.includes(keyword))) {
-    return 'equity';
-  }
-  
-  // 수익 계정 확인
-  if (revenueKeywords.some(keyword => normalized.includes(keyword))) {
-    return 'revenue';
-  }
-  
-  return 'unknown';
-};
-
 /**
  * 샘플 크기 계산
  */
@@ -121,7 +63,7 @@ const extractAmountFromRow = (
   row: LedgerRow, 
   debitHeader?: string, 
   creditHeader?: string,
-  accountType?: 'asset' | 'expense' | 'liability' | 'equity' | 'revenue' | 'unknown'
+  accountType?: AccountType
 ): number => {
   // 계정 유형에 따라 우선 컬럼 결정
   // 자산/비용: 차변 우선, 부채/자본/수익: 대변 우선
@@ -215,7 +157,7 @@ export const smartSample = (
   if (data.length <= sampleSize) return [...data];
   
   // 계정 유형 판단
-  const accountType = accountName ? getAccountType(accountName) : undefined;
+  const accountType = accountName ? classifyAccount(accountName).type : undefined;
   
   console.log(`📊 샘플링 - 계정: ${accountName || '알 수 없음'}, 유형: ${accountType || 'unknown'}, 차변 우선: ${accountType === 'asset' || accountType === 'expense'}, 대변 우선: ${accountType === 'liability' || accountType === 'equity' || accountType === 'revenue'}`);
   
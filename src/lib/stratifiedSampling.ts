@@ -0,0 +1,236 @@
+/**
+ * 층화 표본추출 (Stratified Sampling)
+ * 금액 구간(계층)을 나누고 핵심항목 기준금액 이상은 전수 선정한 뒤,
+ * 나머지 계층마다 표본 수와 추출 방법(무작위/체계적/MUS)을 따로 적용합니다.
+ * 계층은 상한만 지정하며 하한은 앞 계층의 상한(첫 계층은 0)이라 빠지는 구간이 없습니다.
+ */
+
+export type StratumSamplingMethod = 'random' | 'systematic' | 'mus';
+
+export interface StratumDefinition {
+  upperBound: number | null; // 미만 기준 상한 (null = 핵심항목 기준금액 또는 끝까지)
+  sampleSize: number;
+  method: StratumSamplingMethod;
+}
+
+export interface StratumSummary {
+  label: string;
+  lowerBound: number;
+  upperBound: number | null;
+  method: StratumSamplingMethod | 'key';
+  populationCount: number;
+  populationAmount: number;
+  sampleCount: number;
+  sampleAmount: number;
+  randomStart: number | null; // 체계적: 시작 위치(1부터), MUS: 시작 금액
+}
+
+export interface StratifiedSampleItem<T> {
+  item: T;
+  stratum: string; // 계층 이름
+}
+
+export interface StratifiedSampleResult<T> {
+  samples: StratifiedSampleItem<T>[];
+  strata: StratumSummary[]; // 핵심항목 계층이 있으면 맨 앞
+}
+
+export interface SelectedSample<T> {
+  items: T[];
+  randomStart: number | null; // 체계적: 시작 위치(1부터), MUS: 시작 금액, 무작위: null
+}
+
+export interface StratifiedSampleOptions {
+  keyItemThreshold: number | null; // 이 금액 이상은 전수 선정 (null = 핵심항목 없음)
+  strata: StratumDefinition[];
+  random?: () => number;
+}
+
+export const STRATUM_METHOD_LABELS: Record<StratumSamplingMethod | 'key', string> = {
+  random: '무작위',
+  systematic: '체계적',
+  mus: 'MUS',
+  key: '전수 (핵심항목)',
+};
+
+/**
+ * 계층 이름 (예: "1,000,000 이상 ~ 5,000,000 미만")
+ */
+export const getStratumLabel = (lowerBound: number, upperBound: number | null): string =>
+  upperBound === null
+    ? `${lowerBound.toLocaleString()} 이상`
+    : `${lowerBound.toLocaleString()} 이상 ~ ${upperBound.toLocaleString()} 미만`;
+
+/**
+ * 금액 기준 표본 추출 (계층 하나 또는 모집단 전체)
+ * 체계적·MUS는 무작위 시작점 하나에서 고정 간격으로 선정하므로 시작점과 난수 함수로 재현할 수 있습니다.
+ * @param random 0 이상 1 미만 난수 함수 (기본 Math.random, 재현하려면 시드 난수)
+ */
+export const selectSample = <T,>(
+  items: T[],
+  size: number,
+  method: StratumSamplingMethod,
+  getAmount: (item: T) => number,
+  random: () => number = Math.random
+): SelectedSample<T> => {
+  const n = Math.min(Math.max(0, Math.floor(size)), items.length);
+  if (n === 0) return { items: [], randomStart: null };
+  if (n === items.length) return { items: [...items], randomStart: null };
+
+  if (method === 'systematic') {
+    const interval = Math.max(1, Math.floor(items.length / n));
+    const start = Math.floor(random() * interval);
+    return {
+      items: Array.from({ length: n }, (_, i) => items[(start + i * interval) % items.length]),
+      randomStart: start + 1,
+    };
+  }
+
+  if (method === 'mus') {
+    const cumulative: number[] = [];
+    let total = 0;
+    items.forEach(item => {
+      total += Math.max(0, getAmount(item));
+      cumulative.push(total);
+    });
+    if (total === 0) return { items: [], randomStart: null };
+    const interval = total / n;
+    const start = random() * interval;
+    const selected = new Set<number>();
+    for (let i = 0; i < n; i++) {
+      const target = start + i * interval;
+      // 누적 금액이 목표 금액 이상이 되는 첫 항목 (이진 검색)
+      let low = 0;
+      let high = cumulative.length - 1;
+      while (low < high) {
+        const mid = Math.floor((low + high) / 2);
+        if (cumulative[mid] >= target) high = mid;
+        else low = mid + 1;
+      }
+      selected.add(low);
+    }
+    return {
+      items: Array.from(selected).sort((a, b) => a - b).map(i => items[i]),
+      randomStart: Math.round(start * 100) / 100,
+    };
+  }
+
+  // 무작위: 부분 Fisher-Yates 셔플
+  const pool = [...items];
+  for (let i = 0; i < n; i++) {
+    const j = i + Math.floor(random() * (pool.length - i));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+  return { items: pool.slice(0, n), randomStart: null };
+};
+
+// 유효숫자 두 자리로 반올림 (계층 경계를 읽기 쉬운 금액으로)
+const roundToTwoSignificant = (value: number): number => {
+  if (value <= 0) return 0;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(value)) - 1);
+  return Math.round(value / magnitude) * magnitude;
+};
+
+/**
+ * 금액 합계가 비슷하도록 계층 경계를 제안하고, 총 표본 수를 계층 금액 비율로 배분합니다.
+ * @param amounts 핵심항목을 제외한 모집단 금액
+ */
+export const suggestStrata = (
+  amounts: number[],
+  stratumCount: number,
+  totalSampleSize: number
+): StratumDefinition[] => {
+  const sorted = amounts.filter(a => a > 0).sort((a, b) => a - b);
+  if (sorted.length === 0 || stratumCount < 1) return [];
+  const total = sorted.reduce((sum, a) => sum + a, 0);
+
+  const bounds: number[] = [];
+  let cumulative = 0;
+  let next = 1;
+  sorted.forEach(amount => {
+    cumulative += amount;
+    if (next < stratumCount && cumulative >= (total * next) / stratumCount) {
+      const bound = roundToTwoSignificant(amount);
+      if (bound > (bounds[bounds.length - 1] ?? 0) && bound <= sorted[sorted.length - 1]) bounds.push(bound);
+      next++;
+    }
+  });
+
+  const upperBounds: (number | null)[] = [...bounds, null];
+  let lower = 0;
+  const amountsByStratum = upperBounds.map(upper => {
+    const sum = sorted.filter(a => a >= lower && (upper === null || a < upper)).reduce((s, a) => s + a, 0);
+    lower = upper ?? lower;
+    return sum;
+  });
+
+  return upperBounds.map((upperBound, i) => ({
+    upperBound,
+    sampleSize: Math.max(1, Math.round((totalSampleSize * amountsByStratum[i]) / total)),
+    method: 'random' as StratumSamplingMethod,
+  }));
+};
+
+/**
+ * 핵심항목 전수 선정 후 계층별로 표본을 추출합니다. 금액이 0 이하인 항목은 모집단에서 제외합니다.
+ */
+export const stratifiedSample = <T,>(
+  items: T[],
+  getAmount: (item: T) => number,
+  options: StratifiedSampleOptions
+): StratifiedSampleResult<T> => {
+  const { keyItemThreshold, strata, random = Math.random } = options;
+  const population = items.filter(item => getAmount(item) > 0);
+  const sumAmount = (list: T[]) => list.reduce((sum, item) => sum + getAmount(item), 0);
+
+  const samples: StratifiedSampleItem<T>[] = [];
+  const summaries: StratumSummary[] = [];
+
+  const hasKeyItems = keyItemThreshold !== null && keyItemThreshold > 0;
+  if (hasKeyItems) {
+    const keyItems = population.filter(item => getAmount(item) >= keyItemThreshold);
+    const label = `핵심항목 (${keyItemThreshold.toLocaleString()} 이상)`;
+    keyItems.forEach(item => samples.push({ item, stratum: label }));
+    const amount = sumAmount(keyItems);
+    summaries.push({
+      label,
+      lowerBound: keyItemThreshold,
+      upperBound: null,
+      method: 'key',
+      populationCount: keyItems.length,
+      populationAmount: amount,
+      sampleCount: keyItems.length,
+      sampleAmount: amount,
+      randomStart: null,
+    });
+  }
+
+  let lowerBound = 0;
+  strata.forEach(definition => {
+    // 마지막 계층(상한 없음)은 핵심항목 기준금액까지
+    const upperBound = definition.upperBound ?? (hasKeyItems ? keyItemThreshold : null);
+    const members = population.filter(item => {
+      const amount = getAmount(item);
+      if (amount < lowerBound) return false;
+      if (upperBound !== null && amount >= upperBound) return false;
+      return !hasKeyItems || amount < keyItemThreshold;
+    });
+    const label = getStratumLabel(lowerBound, upperBound);
+    const { items: selected, randomStart } = selectSample(members, definition.sampleSize, definition.method, getAmount, random);
+    selected.forEach(item => samples.push({ item, stratum: label }));
+    summaries.push({
+      label,
+      lowerBound,
+      upperBound,
+      method: definition.method,
+      populationCount: members.length,
+      populationAmount: sumAmount(members),
+      sampleCount: selected.length,
+      sampleAmount: sumAmount(selected),
+      randomStart,
+    });
+    if (upperBound !== null) lowerBound = upperBound;
+  });
+
+  return { samples, strata: summaries };
+};
@@ -0,0 +1,198 @@
+/**
+ * 합계잔액시산표 (Trial Balance)
+ * 통합 원장에서 계정별 기초잔액, 당기 차변/대변 합계, 기말잔액을 집계하고
+ * 업로드된 재무제표의 당기 금액과 계정별로 대사합니다.
+ */
+
+import type { JournalEntry } from '@/types/analysis';
+import { getAccountEntries, type NormalizedLedger } from './ledgerModel';
+import { classifyLedgerAccount } from './chartOfAccounts';
+
+export type NormalSide = 'debit' | 'credit';
+
+export interface TrialBalanceRow {
+  accountName: string;
+  accountCode?: string;
+  normalSide: NormalSide; // 잔액이 표시되는 쪽 (자산/비용: 차변, 부채/자본/수익: 대변, 차감 계정은 반대)
+  contra: boolean; // 차감 계정 여부 (감가상각누계액, 대손충당금 등)
+  openingBalance: number; // 기초잔액 (전기이월)
+  periodDebit: number; // 당기 차변 합계
+  periodCredit: number; // 당기 대변 합계
+  closingBalance: number; // 기말잔액 (잔액 방향 기준 양수)
+}
+
+export type ReconciliationStatus = 'matched' | 'difference' | 'ledgerOnly' | 'statementOnly';
+
+export interface TrialBalanceReconciliationRow {
+  accountName: string;
+  trialBalance: TrialBalanceRow | null;
+  statementName: string | null;
+  statementAmount: number | null;
+  difference: number; // 원장 기말잔액 - 재무제표 당기 금액 (잔액 방향 기준 부호 포함)
+  status: ReconciliationStatus;
+}
+
+export interface StatementLine {
+  name: string;
+  amount: number;
+}
+
+export interface ReconcileOptions {
+  /** 차이 허용 오차 (원, 기본값 1) */
+  tolerance?: number;
+}
+
+const OPENING_KEYWORDS = ['전기이월', '기초잔액', '이월잔액'];
+const TOTAL_LINE_KEYWORDS = ['총계', '합계'];
+
+/**
+ * 시산표 대사용 계정명 정규화
+ * "Ⅰ. 유동자산", "(1) 당좌자산", "101_현금", "현금(101)" 같은 번호/코드 표기를 제거합니다.
+ */
+export const normalizeTrialBalanceAccountName = (name: string): string => {
+  return String(name || '')
+    .replace(/^[\s\dⅠⅡⅢⅣⅤⅥⅦⅧⅨⅩ.\-_)(]+/, '') // 앞의 번호/로마숫자/괄호
+    .replace(/\(\d+\)\s*$/, '') // 뒤의 (코드)
+    .replace(/\s+/g, '')
+    .toLowerCase();
+};
+
+const isOpeningEntry = (entry: JournalEntry): boolean => {
+  if (entry.summaryType === 'carryForward') return true;
+  const desc = String(entry.description || '').replace(/\s/g, '');
+  return OPENING_KEYWORDS.some(k => desc.includes(k));
+};
+
+/**
+ * 잔액 컬럼의 증감 방향으로 계정의 잔액 방향을 추정합니다.
+ * 잔액 컬럼이 없으면 차변/대변 합계가 큰 쪽을 잔액 방향으로 봅니다.
+ */
+const inferNormalSide = (entries: JournalEntry[], periodDebit: number, periodCredit: number): NormalSide => {
+  let debitVotes = 0;
+  let creditVotes = 0;
+  let prevBalance: number | undefined;
+
+  entries.forEach(entry => {
+    if (entry.summaryType && entry.summaryType !== 'carryForward') return;
+    if (entry.balance === undefined) return;
+    if (prevBalance !== undefined) {
+      const delta = entry.balance - prevBalance;
+      const movement = entry.debit - entry.credit;
+      if (movement !== 0 && Math.abs(Math.abs(delta) - Math.abs(movement)) < 1) {
+        if (Math.sign(delta) === Math.sign(movement)) debitVotes++;
+        else creditVotes++;
+      }
+    }
+    prevBalance = entry.balance;
+  });
+
+  if (debitVotes !== creditVotes) return debitVotes > creditVotes ? 'debit' : 'credit';
+  return periodDebit >= periodCredit ? 'debit' : 'credit';
+};
+
+/**
+ * 통합 원장으로 합계잔액시산표를 만듭니다.
+ * 기초잔액은 [전기이월] 행(잔액 컬럼 우선, 없으면 차변-대변)에서, 당기 발생액은 나머지 거래 행에서 집계합니다.
+ */
+export const buildTrialBalance = (ledger: NormalizedLedger | null | undefined): TrialBalanceRow[] => {
+  if (!ledger) return [];
+
+  return ledger.accountNames.map(accountName => {
+    const entries = getAccountEntries(ledger, accountName, { includeSummary: true });
+    const openingEntries = entries.filter(isOpeningEntry);
+    const postingEntries = entries.filter(e => !e.summaryType && !isOpeningEntry(e));
+
+    const periodDebit = postingEntries.reduce((sum, e) => sum + (e.debit || 0), 0);
+    const periodCredit = postingEntries.reduce((sum, e) => sum + (e.credit || 0), 0);
+    // 계정과목 분류기로 잔액 방향을 정하고, 분류되지 않는 계정만 잔액 증감으로 추정
+    const classification = classifyLedgerAccount(ledger, accountName);
+    const normalSide = classification.type !== 'unknown'
+      ? classification.normalSide
+      : inferNormalSide(entries, periodDebit, periodCredit);
+    const sign = normalSide === 'debit' ? 1 : -1;
+
+    const openingBalance = openingEntries.reduce((sum, e) => {
+      if (e.balance !== undefined && e.balance !== 0) return sum + e.balance;
+      return sum + sign * ((e.debit || 0) - (e.credit || 0));
+    }, 0);
+
+    return {
+      accountName,
+      accountCode: entries.find(e => e.accountCode)?.accountCode,
+      normalSide,
+      contra: classification.contra,
+      openingBalance,
+      periodDebit,
+      periodCredit,
+      closingBalance: openingBalance + sign * (periodDebit - periodCredit),
+    };
+  });
+};
+
+/**
+ * 재무제표 금액을 시산표 기말잔액과 같은 부호 체계(잔액 방향 기준 양수)로 맞춥니다.
+ * 재무제표는 차감 계정을 음수나 괄호로 표시하기도 하므로 알려진 차감 계정만 부호를 뒤집고,
+ * 그 밖의 계정은 부호를 그대로 비교해 반대 방향 잔액이 일치로 보이지 않게 합니다.
+ */
+const toStatementBalance = (row: TrialBalanceRow, amount: number): number => {
+  return row.contra && amount < 0 ? -amount : amount;
+};
+
+/**
+ * 시산표 기말잔액을 재무제표 당기 금액과 계정명 기준으로 대사합니다.
+ * 금액은 잔액 방향 기준 부호로 비교합니다.
+ * 재무제표에만 있는 행 중 총계/합계 행은 결과에서 제외합니다.
+ */
+export const reconcileTrialBalance = (
+  rows: TrialBalanceRow[],
+  statementLines: StatementLine[],
+  options: ReconcileOptions = {}
+): TrialBalanceReconciliationRow[] => {
+  const tolerance = options.tolerance ?? 1;
+  const statementByName = new Map<string, StatementLine>();
+  statementLines.forEach(line => {
+    const key = normalizeTrialBalanceAccountName(line.name);
+    if (key && !statementByName.has(key)) statementByName.set(key, line);
+  });
+
+  const matchedKeys = new Set<string>();
+  const result: TrialBalanceReconciliationRow[] = rows.map(row => {
+    const key = normalizeTrialBalanceAccountName(row.accountName);
+    const line = statementByName.get(key);
+    if (!line) {
+      return {
+        accountName: row.accountName,
+        trialBalance: row,
+        statementName: null,
+        statementAmount: null,
+        difference: row.closingBalance,
+        status: 'ledgerOnly',
+      };
+    }
+    matchedKeys.add(key);
+    const difference = row.closingBalance - toStatementBalance(row, line.amount);
+    return {
+      accountName: row.accountName,
+      trialBalance: row,
+      statementName: line.name,
+      statementAmount: line.amount,
+      difference,
+      status: Math.abs(difference) <= tolerance ? 'matched' : 'difference',
+    };
+  });
+
+  statementByName.forEach((line, key) => {
+    if (matchedKeys.has(key) || line.amount === 0) return;
+    if (TOTAL_LINE_KEYWORDS.some(k => key.includes(k))) return;
+    result.push({
+      accountName: line.name.trim(),
+      trialBalance: null,
+      statementName: line.name,
+      statementAmount: line.amount,
+      difference: -line.amount,
+      status: 'statementOnly',
+    });
+  });
+
+  return result;
+};
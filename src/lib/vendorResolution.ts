@@ -0,0 +1,346 @@
+/**
+ * 거래처 명칭 통합 (Vendor Entity Resolution)
+ * "㈜한빛상사", "주식회사 한빛상사", "한빛상사(주)"처럼 법인 표기·공백·전각 문자만 다른 거래처명을 같은 키로 정규화하고,
+ * 정규화 키끼리 편집 거리(Levenshtein) 유사도로 오타 수준의 차이까지 병합 후보로 제안합니다.
+ * 한글은 음절을 자모로 풀어 비교하므로 "상사"/"상시"처럼 모음 하나만 다른 오타도 유사하게 봅니다.
+ * 사용자가 확정한 별칭(원래 이름 → 대표 이름)은 localStorage에 저장하며, 통합 원장에 적용하면
+ * 거래처를 쓰는 모든 분석 화면이 대표 이름으로 집계합니다. 원본 행(raw)의 거래처명은 바꾸지 않습니다.
+ */
+
+import type { JournalEntry } from '@/types/analysis';
+import type { NormalizedLedger } from './ledgerModel';
+
+export interface VendorStat {
+  name: string;
+  count: number;
+  amount: number; // 차변·대변 절대값 합계
+}
+
+export type VendorMergeReason = 'normalized' | 'similar';
+
+export interface VendorMergeProposal {
+  id: string; // 후보 이름을 정렬해 이은 키 (제외 목록 저장용)
+  canonical: string; // 제안 대표 이름 (건수가 가장 많은 이름)
+  members: VendorStat[]; // 대표 이름 포함, 건수 내림차순
+  reason: VendorMergeReason;
+  similarity: number; // 후보 간 최소 유사도 (0~1, 정규화 키 기준)
+}
+
+export const VENDOR_MERGE_REASON_LABELS: Record<VendorMergeReason, string> = {
+  normalized: '법인 표기·공백 차이',
+  similar: '유사 명칭 (편집 거리)',
+};
+
+export const DEFAULT_VENDOR_SIMILARITY = 0.85;
+
+const ALIAS_STORAGE_KEY = 'vendor_aliases';
+const REJECTION_STORAGE_KEY = 'vendor_alias_rejections';
+
+// 정규화 키가 이보다 짧으면 편집 거리 비교를 하지 않음 (두 글자 이름은 한 글자만 달라도 다른 회사)
+const MIN_FUZZY_KEY_LENGTH = 4;
+
+// 법인 형태 표기 (NFKC 정규화 후: ㈜ → (주), ㈔ → (사))
+const CORPORATE_AFFIXES = [
+  '주식회사', '유한회사', '유한책임회사', '합자회사', '합명회사', '사단법인', '재단법인', '농업회사법인', '영농조합법인',
+  '(주)', '(유)', '(합)', '(사)', '(재)', '(농)', '주)', '(주',
+];
+const CORPORATE_SUFFIX_PATTERN = /[\s,.]*(co\.?,?\s*ltd\.?|company\s+limited|corporation|corp\.?|inc\.?|ltd\.?|limited|llc|l\.l\.c\.)$/i;
+
+let aliasCache: Record<string, string> | null = null;
+
+/**
+ * 비교용 거래처 키: 전각 문자·호환 문자 정규화(NFKC), 법인 표기 제거, 공백·기호 제거, 소문자.
+ */
+export const normalizeVendorName = (name: string): string => {
+  let text = String(name || '').normalize('NFKC').replace(/\s+/g, ' ').trim();
+  for (let i = 0; i < 3; i++) {
+    const before = text;
+    text = text.replace(CORPORATE_SUFFIX_PATTERN, '').trim();
+    CORPORATE_AFFIXES.forEach(affix => {
+      text = text.split(affix).join(' ');
+    });
+    text = text.trim();
+    if (text === before) break;
+  }
+  return text.replace(/[\s\p{P}\p{S}]/gu, '').toLowerCase();
+};
+
+const HANGUL_BASE = 0xac00;
+const HANGUL_LAST = 0xd7a3;
+const JUNGSEONG_COUNT = 21;
+const JONGSEONG_COUNT = 28;
+
+/**
+ * 한글 음절을 초성·중성·종성 자모로 풉니다 (예: "상" → "ㅅㅏㅇ"에 해당하는 조합형 자모).
+ */
+const decomposeHangul = (text: string): string =>
+  Array.from(text)
+    .map(char => {
+      const code = char.charCodeAt(0);
+      if (code < HANGUL_BASE || code > HANGUL_LAST) return char;
+      const offset = code - HANGUL_BASE;
+      const lead = Math.floor(offset / (JUNGSEONG_COUNT * JONGSEONG_COUNT));
+      const vowel = Math.floor((offset % (JUNGSEONG_COUNT * JONGSEONG_COUNT)) / JONGSEONG_COUNT);
+      const tail = offset % JONGSEONG_COUNT;
+      return String.fromCharCode(0x1100 + lead, 0x1161 + vowel) + (tail > 0 ? String.fromCharCode(0x11a7 + tail) : '');
+    })
+    .join('');
+
+/**
+ * 편집 거리 (삽입·삭제·치환 각 1)
+ * @param maxDistance 지정하면 거리가 이 값을 넘는 것이 확실해지는 즉시 maxDistance + 1을 반환
+ */
+export const getEditDistance = (a: string, b: string, maxDistance = Infinity): number => {
+  if (a === b) return 0;
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+  let previous = new Uint32Array(b.length + 1);
+  let current = new Uint32Array(b.length + 1);
+  for (let j = 0; j <= b.length; j++) previous[j] = j;
+  for (let i = 1; i <= a.length; i++) {
+    current[0] = i;
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a.charCodeAt(i - 1) === b.charCodeAt(j - 1) ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (current[j] < rowMin) rowMin = current[j];
+    }
+    if (rowMin > maxDistance) return maxDistance + 1;
+    [previous, current] = [current, previous];
+  }
+  return previous[b.length];
+};
+
+// 문자 빈도 (편집 거리 하한 계산용)
+const countChars = (text: string): Map<string, number> => {
+  const counts = new Map<string, number>();
+  for (const char of text) counts.set(char, (counts.get(char) || 0) + 1);
+  return counts;
+};
+
+// 문자 빈도 차이로 본 편집 거리 하한 (한쪽에만 있는 문자 수 중 큰 값)
+const getBagDistance = (a: Map<string, number>, lengthA: number, b: Map<string, number>, lengthB: number): number => {
+  let common = 0;
+  a.forEach((count, char) => {
+    common += Math.min(count, b.get(char) || 0);
+  });
+  return Math.max(lengthA - common, lengthB - common);
+};
+
+// 자모로 푼 키 기준 유사도 (1 - 편집 거리 / 긴 쪽 길이)
+const getKeySimilarity = (jamoA: string, jamoB: string): number => {
+  const maxLength = Math.max(jamoA.length, jamoB.length);
+  if (maxLength === 0) return 0;
+  return 1 - getEditDistance(jamoA, jamoB) / maxLength;
+};
+
+/**
+ * 두 거래처명의 유사도 (0~1). 정규화 키를 자모로 풀어 편집 거리로 계산합니다.
+ */
+export const getVendorSimilarity = (a: string, b: string): number =>
+  getKeySimilarity(decomposeHangul(normalizeVendorName(a)), decomposeHangul(normalizeVendorName(b)));
+
+// ---- 별칭 테이블 (원래 이름 → 대표 이름) ----
+
+export const getVendorAliases = (): Record<string, string> => {
+  if (aliasCache) return aliasCache;
+  const stored = localStorage.getItem(ALIAS_STORAGE_KEY);
+  try {
+    aliasCache = stored ? JSON.parse(stored) : {};
+  } catch {
+    aliasCache = {};
+  }
+  return aliasCache!;
+};
+
+const saveVendorAliases = (aliases: Record<string, string>): void => {
+  aliasCache = aliases;
+  localStorage.setItem(ALIAS_STORAGE_KEY, JSON.stringify(aliases));
+};
+
+/**
+ * 병합 확정: 후보 이름들을 대표 이름으로 묶습니다. 이미 후보 이름을 대표로 쓰던 별칭도 새 대표로 옮깁니다.
+ */
+export const confirmVendorAliases = (names: string[], canonical: string): void => {
+  const target = canonical.trim();
+  const members = new Set(names.map(n => n.trim()).filter(n => n && n !== target));
+  const aliases = { ...getVendorAliases() };
+  Object.keys(aliases).forEach(alias => {
+    if (members.has(aliases[alias])) aliases[alias] = target;
+  });
+  members.forEach(name => {
+    aliases[name] = target;
+  });
+  delete aliases[target];
+  saveVendorAliases(aliases);
+};
+
+/**
+ * 별칭 해제 (원래 이름으로 다시 집계)
+ */
+export const removeVendorAlias = (name: string): void => {
+  const aliases = { ...getVendorAliases() };
+  delete aliases[name];
+  saveVendorAliases(aliases);
+};
+
+export const clearVendorAliases = (): void => {
+  saveVendorAliases({});
+};
+
+/**
+ * 확정된 별칭으로 대표 이름을 반환합니다. 별칭이 없으면 앞뒤 공백만 제거한 이름.
+ */
+export const resolveVendorName = (name: string, aliases: Record<string, string> = getVendorAliases()): string => {
+  const trimmed = String(name || '').trim();
+  return aliases[trimmed] ?? trimmed;
+};
+
+// ---- 제외(병합하지 않기로 한) 후보 ----
+
+export const getRejectedVendorProposals = (): string[] => {
+  const stored = localStorage.getItem(REJECTION_STORAGE_KEY);
+  if (!stored) return [];
+  try {
+    return JSON.parse(stored);
+  } catch {
+    return [];
+  }
+};
+
+export const rejectVendorProposal = (proposalId: string): void => {
+  const rejected = new Set(getRejectedVendorProposals());
+  rejected.add(proposalId);
+  localStorage.setItem(REJECTION_STORAGE_KEY, JSON.stringify(Array.from(rejected)));
+};
+
+export const clearRejectedVendorProposals = (): void => {
+  localStorage.removeItem(REJECTION_STORAGE_KEY);
+};
+
+// ---- 후보 제안 ----
+
+/**
+ * 원장의 거래처별 건수·금액 (합계행 제외, 원래 이름 기준)
+ */
+export const getVendorStats = (ledger: NormalizedLedger | null | undefined): VendorStat[] => {
+  const stats = new Map<string, VendorStat>();
+  ledger?.entries.forEach(entry => {
+    if (entry.summaryType) return;
+    const name = String(entry.vendor || '').trim();
+    if (!name) return;
+    let stat = stats.get(name);
+    if (!stat) {
+      stat = { name, count: 0, amount: 0 };
+      stats.set(name, stat);
+    }
+    stat.count++;
+    stat.amount += Math.abs(entry.debit || 0) + Math.abs(entry.credit || 0);
+  });
+  return Array.from(stats.values());
+};
+
+/**
+ * 병합 후보를 제안합니다. 정규화 키가 같은 이름끼리 먼저 묶고, 키가 다른 묶음은 편집 거리 유사도가
+ * minSimilarity 이상이면 하나로 합칩니다. 이미 같은 대표 이름으로 확정됐거나 제외한 후보는 빼고 반환합니다.
+ */
+export const proposeVendorMerges = (
+  vendors: VendorStat[],
+  minSimilarity: number = DEFAULT_VENDOR_SIMILARITY,
+  aliases: Record<string, string> = getVendorAliases(),
+  rejected: string[] = getRejectedVendorProposals()
+): VendorMergeProposal[] => {
+  const byKey = new Map<string, VendorStat[]>();
+  vendors.forEach(vendor => {
+    const key = normalizeVendorName(vendor.name);
+    if (!key) return;
+    const list = byKey.get(key);
+    if (list) list.push(vendor);
+    else byKey.set(key, [vendor]);
+  });
+
+  // 정규화 키 단위 union-find
+  const keys = Array.from(byKey.keys());
+  const jamoKeys = keys.map(decomposeHangul);
+  const charCounts = jamoKeys.map(countChars);
+  const parent = keys.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const minSimilarityByRoot = new Map<number, number>();
+  for (let i = 0; i < keys.length; i++) {
+    if (keys[i].length < MIN_FUZZY_KEY_LENGTH) continue;
+    for (let j = i + 1; j < keys.length; j++) {
+      if (keys[j].length < MIN_FUZZY_KEY_LENGTH) continue;
+      const maxLength = Math.max(jamoKeys[i].length, jamoKeys[j].length);
+      // 기준 유사도를 넘을 수 없는 거리가 확실해지면 계산을 멈춤
+      const maxDistance = Math.floor((1 - minSimilarity) * maxLength + 1e-9);
+      if (Math.abs(jamoKeys[i].length - jamoKeys[j].length) > maxDistance) continue;
+      if (getBagDistance(charCounts[i], jamoKeys[i].length, charCounts[j], jamoKeys[j].length) > maxDistance) continue;
+      const distance = getEditDistance(jamoKeys[i], jamoKeys[j], maxDistance);
+      if (distance > maxDistance) continue;
+      const similarity = 1 - distance / maxLength;
+      const rootI = find(i);
+      const rootJ = find(j);
+      const merged = Math.min(
+        similarity,
+        minSimilarityByRoot.get(rootI) ?? 1,
+        minSimilarityByRoot.get(rootJ) ?? 1
+      );
+      if (rootI !== rootJ) parent[rootJ] = rootI;
+      minSimilarityByRoot.set(rootI, merged);
+    }
+  }
+
+  const groups = new Map<number, { members: VendorStat[]; keyCount: number }>();
+  keys.forEach((key, i) => {
+    const root = find(i);
+    const group = groups.get(root) ?? { members: [], keyCount: 0 };
+    group.members.push(...byKey.get(key)!);
+    group.keyCount++;
+    groups.set(root, group);
+  });
+
+  const rejectedSet = new Set(rejected);
+  const proposals: VendorMergeProposal[] = [];
+  groups.forEach((group, root) => {
+    if (group.members.length < 2) return;
+    // 모든 후보가 이미 같은 대표 이름으로 확정되어 있으면 제안하지 않음
+    if (new Set(group.members.map(m => resolveVendorName(m.name, aliases))).size < 2) return;
+    const members = [...group.members].sort((a, b) => b.count - a.count || b.amount - a.amount);
+    const id = members.map(m => m.name).sort().join('\u0000');
+    if (rejectedSet.has(id)) return;
+    proposals.push({
+      id,
+      canonical: members[0].name,
+      members,
+      reason: group.keyCount > 1 ? 'similar' : 'normalized',
+      similarity: group.keyCount > 1 ? (minSimilarityByRoot.get(root) ?? 1) : 1,
+    });
+  });
+  return proposals.sort((a, b) =>
+    a.reason === b.reason
+      ? b.members.reduce((s, m) => s + m.amount, 0) - a.members.reduce((s, m) => s + m.amount, 0)
+      : a.reason === 'normalized' ? -1 : 1
+  );
+};
+
+// ---- 원장 적용 ----
+
+/**
+ * 확정된 별칭을 통합 원장에 적용합니다. 바뀌는 라인이 없으면 같은 원장 객체를 그대로 반환합니다.
+ */
+export const applyVendorAliases = <T extends NormalizedLedger | null>(
+  ledger: T,
+  aliases: Record<string, string> = getVendorAliases()
+): T => {
+  if (!ledger || Object.keys(aliases).length === 0) return ledger;
+  let changed = false;
+  const entries = ledger.entries.map((entry): JournalEntry => {
+    const trimmed = String(entry.vendor || '').trim();
+    const canonical = aliases[trimmed];
+    if (canonical === undefined || canonical === entry.vendor) return entry;
+    changed = true;
+    return { ...entry, vendor: canonical };
+  });
+  return changed ? { ...ledger, entries } : ledger;
+};
@@ -0,0 +1,136 @@
+/**
+ * 전표 모델 (Voucher)
+ * 분개 라인을 일자 + 전표번호 단위로 묶어 전표를 재구성하고 전표별 대차 일치 여부를 검증합니다.
+ * 더존 등 대부분의 ERP는 전표번호가 일자별로 새로 시작하므로 전표번호만으로 묶으면 다른 날 전표가 섞입니다.
+ */
+
+import type { JournalEntry } from '@/types/analysis';
+import { getEntryDate } from './ledgerModel';
+
+export interface Voucher {
+  key: string; // `${dateKey}|${entryNumber}`
+  dateKey: string; // YYYY-MM-DD (일자를 해석할 수 없으면 원본 문자열)
+  entryNumber: string;
+  lines: JournalEntry[];
+  totalDebit: number;
+  totalCredit: number;
+  difference: number; // 차변 합계 - 대변 합계
+  isBalanced: boolean;
+  isSingleSided: boolean; // 차변 또는 대변 한쪽 라인만 있는 전표
+}
+
+/**
+ * 전표 재구성 결과
+ */
+export interface VoucherBook {
+  vouchers: Voucher[];
+  byKey: Map<string, Voucher>;
+  unbalanced: Voucher[]; // 양쪽 라인이 있으나 차변 ≠ 대변
+  singleSided: Voucher[];
+  unnumberedLineCount: number; // 전표번호가 없어 전표로 묶지 못한 라인 수
+}
+
+export interface BuildVoucherOptions {
+  /** 대차 차이 허용 오차 (원, 기본값 0.5 - 소수점 반올림 차이 무시) */
+  tolerance?: number;
+}
+
+const formatDateKey = (entry: JournalEntry): string => {
+  const d = getEntryDate(entry);
+  if (!d) return String(entry.date ?? '').trim();
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+/**
+ * 분개 라인이 속한 전표 키(일자|전표번호)를 반환합니다. 전표번호가 없으면 null.
+ */
+export const getVoucherKey = (entry: JournalEntry): string | null => {
+  const entryNumber = entry.entryNumber === null || entry.entryNumber === undefined
+    ? ''
+    : String(entry.entryNumber).trim();
+  if (!entryNumber) return null;
+  return `${formatDateKey(entry)}|${entryNumber}`;
+};
+
+/**
+ * 분개 라인을 전표 단위로 묶고 대차 검증 결과를 함께 반환합니다.
+ * 합계행(월계/누계/전기이월)은 전표에 포함하지 않습니다.
+ */
+export const buildVoucherBook = (
+  entries: JournalEntry[],
+  options: BuildVoucherOptions = {}
+): VoucherBook => {
+  const tolerance = options.tolerance ?? 0.5;
+  const byKey = new Map<string, Voucher>();
+  let unnumberedLineCount = 0;
+
+  entries.forEach(entry => {
+    if (entry.summaryType) return;
+    const key = getVoucherKey(entry);
+    if (!key) {
+      unnumberedLineCount++;
+      return;
+    }
+    let voucher = byKey.get(key);
+    if (!voucher) {
+      voucher = {
+        key,
+        dateKey: key.slice(0, key.lastIndexOf('|')),
+        entryNumber: String(entry.entryNumber).trim(),
+        lines: [],
+        totalDebit: 0,
+        totalCredit: 0,
+        difference: 0,
+        isBalanced: true,
+        isSingleSided: false,
+      };
+      byKey.set(key, voucher);
+    }
+    voucher.lines.push(entry);
+    voucher.totalDebit += entry.debit || 0;
+    voucher.totalCredit += entry.credit || 0;
+  });
+
+  const unbalanced: Voucher[] = [];
+  const singleSided: Voucher[] = [];
+
+  byKey.forEach(voucher => {
+    voucher.difference = voucher.totalDebit - voucher.totalCredit;
+    voucher.isBalanced = Math.abs(voucher.difference) <= tolerance;
+    const hasDebit = voucher.lines.some(l => l.debit !== 0);
+    const hasCredit = voucher.lines.some(l => l.credit !== 0);
+    voucher.isSingleSided = hasDebit !== hasCredit;
+
+    if (voucher.isSingleSided) singleSided.push(voucher);
+    else if (!voucher.isBalanced) unbalanced.push(voucher);
+  });
+
+  const vouchers = Array.from(byKey.values()).sort((a, b) =>
+    a.dateKey.localeCompare(b.dateKey) || a.entryNumber.localeCompare(b.entryNumber, undefined, { numeric: true })
+  );
+  const byDifference = (a: Voucher, b: Voucher) => Math.abs(b.difference) - Math.abs(a.difference);
+
+  return {
+    vouchers,
+    byKey,
+    unbalanced: unbalanced.sort(byDifference),
+    singleSided: singleSided.sort(byDifference),
+    unnumberedLineCount,
+  };
+};
+
+/**
+ * 전표 내 반대편 라인(상대계정)을 반환합니다.
+ * side는 기준 라인의 방향이며, '차변'이면 대변 라인을, '대변'이면 차변 라인을 돌려줍니다.
+ */
+export const getCounterLines = (
+  voucher: Voucher,
+  side: '차변' | '대변',
+  exclude: JournalEntry[] = []
+): JournalEntry[] => {
+  const excluded = new Set(exclude);
+  return voucher.lines.filter(line => {
+    if (excluded.has(line)) return false;
+    return side === '차변' ? line.credit !== 0 : line.debit !== 0;
+  });
+};
@@ -6,12 +6,14 @@
 
 import React, { useState, useMemo, useRef, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import * as XLSX from 'xlsx';
 import { JournalEntry } from '@/types/analysis';
 import { convertLedgerRowsToJournalEntries } from '@/services/geminiAnalysisService';
+import type { NormalizedLedger } from '@/lib/ledgerModel';
+import { isLedgerParseCancelled } from '@/lib/ledgerParser';
 
 // Google AI Studio 컴포넌트들
 import UploadZone from '@/components/UploadZone';
+import { LedgerParseProgress } from '@/components/LedgerParseProgress';
 import JournalTable from '@/components/JournalTable';
 import AIInsights from '@/components/AIInsights';
 
@@ -19,16 +21,17 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { ArrowLeft, FileSpreadsheet } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useLedgerParser } from '@/hooks/use-ledger-parser';
 
 const AIAnalysis: React.FC = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
   
-  const [workbook, setWorkbook] = useState<XLSX.WorkBook | null>(null);
   const [fileName, setFileName] = useState<string>('');
   const [journalEntries, setJournalEntries] = useState<JournalEntry[]>([]);
-  const [ledgerWorkbook, setLedgerWorkbook] = useState<XLSX.WorkBook | null>(null); // 계정별원장 데이터
+  const [ledger, setLedger] = useState<NormalizedLedger | null>(null); // 계정별원장 통합 원장 (기초잔액 확인용)
   const [ledgerFileName, setLedgerFileName] = useState<string>('');
+  const { parseStatus, parse, cancel: cancelParse } = useLedgerParser(); // Web Worker 파싱
   
   type ViewType = 'upload' | 'table' | 'ai';
   const [currentView, setCurrentView] = useState<ViewType>('upload');
@@ -189,17 +192,13 @@ const AIAnalysis: React.FC = () => {
   // 파일 처리
   const handleFileSelect = async (file: File) => {
     try {
-      const data = await file.arrayBuffer();
-      const loadedWorkbook = XLSX.read(data, { type: 'array', cellDates: true });
-      setWorkbook(loadedWorkbook);
+      const { sheetNames, firstSheetRows } = await parse(file, { includeFirstSheetRows: true });
       setFileName(file.name);
 
       // 첫 번째 시트의 데이터를 JournalEntry로 변환
-      if (loadedWorkbook.SheetNames.length > 0) {
-        const firstSheet = loadedWorkbook.Sheets[loadedWorkbook.SheetNames[0]];
-        
+      if (sheetNames.length > 0) {
         // 배열 방식으로 읽어서 헤더 행 직접 확인 (1행이 헤더)
-        const sheetArray = XLSX.utils.sheet_to_json(firstSheet, { header: 1, defval: '' }) as any[][];
+        const sheetArray = (firstSheetRows || []) as any[][];
         
         if (sheetArray.length === 0) {
           toast({
@@ -270,6 +269,7 @@ const AIAnalysis: React.FC = () => {
         }
       }
     } catch (error: any) {
+      if (isLedgerParseCancelled(error)) return;
       toast({
         title: '오류',
         description: `파일 처리 중 오류가 발생했습니다: ${error.message}`,
@@ -439,7 +439,6 @@ const AIAnalysis: React.FC = () => {
                         variant="outline"
                         size="sm"
                         onClick={() => {
-                          setWorkbook(null);
                           setFileName('');
                           setJournalEntries([]);
                         }}
@@ -452,7 +451,7 @@ const AIAnalysis: React.FC = () => {
                 <UploadZone
                   onFileSelect={handleFileSelect}
                   onDemo={handleDemo}
-                  loading={false}
+                  loading={parseStatus !== null}
                   error={null}
                 />
                 )}
@@ -475,7 +474,7 @@ const AIAnalysis: React.FC = () => {
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                {ledgerWorkbook ? (
+                {ledger ? (
                   <div className="space-y-4">
                     <div className="flex items-center justify-between p-4 bg-purple-50 dark:bg-purple-950 rounded-lg border border-purple-200 dark:border-purple-800">
                       <div>
@@ -483,14 +482,14 @@ const AIAnalysis: React.FC = () => {
                           ✓ 업로드 완료: {ledgerFileName}
                         </p>
                         <p className="text-xs text-purple-700 dark:text-purple-300 mt-1">
-                          시트 수: {ledgerWorkbook.SheetNames.length}개
+                          시트 수: {ledger.sheets.length}개
                         </p>
                       </div>
                       <Button
                         variant="outline"
                         size="sm"
                         onClick={() => {
-                          setLedgerWorkbook(null);
+                          setLedger(null);
                           setLedgerFileName('');
                         }}
                       >
@@ -504,15 +503,15 @@ const AIAnalysis: React.FC = () => {
                     description="당기 계정별원장 엑셀 파일을 드래그하거나 클릭하여 업로드하세요. 기초잔액 정보 확인에 사용됩니다."
                     onFileSelect={async (file: File) => {
                       try {
-                        const data = await file.arrayBuffer();
-                        const loadedWorkbook = XLSX.read(data, { type: 'array', cellDates: true });
-                        setLedgerWorkbook(loadedWorkbook);
+                        const { ledger: parsedLedger } = await parse(file);
+                        setLedger(parsedLedger);
                         setLedgerFileName(file.name);
                         toast({
                           title: '계정별원장 업로드 성공',
                           description: `${file.name} 파일이 업로드되었습니다.`,
                         });
                       } catch (error: any) {
+                        if (isLedgerParseCancelled(error)) return;
                         toast({
                           title: '오류',
                           description: `파일 처리 중 오류가 발생했습니다: ${error.message}`,
@@ -521,7 +520,7 @@ const AIAnalysis: React.FC = () => {
                       }
                     }}
                     onDemo={undefined}
-                    loading={false}
+                    loading={parseStatus !== null}
                     error={null}
                   />
                 )}
@@ -539,7 +538,7 @@ const AIAnalysis: React.FC = () => {
                       </p>
                       <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">
                         {journalEntries.length.toLocaleString()}건의 분개장 데이터
-                        {ledgerWorkbook && ` + ${ledgerWorkbook.SheetNames.length}개 계정별원장 시트`}
+                        {ledger && ` + ${ledger.sheets.length}개 계정별원장 시트`}
                       </p>
                     </div>
                     <Button
@@ -644,7 +643,6 @@ const AIAnalysis: React.FC = () => {
                       e.preventDefault();
                       e.stopPropagation();
                       handleSafeClick(() => {
-                        setWorkbook(null);
                         setFileName('');
                         setJournalEntries([]);
                         setCurrentView('upload');
@@ -665,7 +663,7 @@ const AIAnalysis: React.FC = () => {
               </CardContent>
             </Card>
 
-              {ledgerWorkbook ? (
+              {ledger ? (
                 <Card className="bg-purple-50 dark:bg-purple-950 border-purple-200 dark:border-purple-800">
                   <CardContent className="pt-6">
                     <div className="flex items-center justify-between">
@@ -677,14 +675,14 @@ const AIAnalysis: React.FC = () => {
                           {ledgerFileName}
                         </p>
                         <p className="text-xs text-purple-700 dark:text-purple-300 mt-1">
-                          시트 수: {ledgerWorkbook.SheetNames.length}개
+                          시트 수: {ledger.sheets.length}개
                         </p>
                       </div>
                       <Button
                         variant="outline"
                         size="sm"
                         onClick={() => {
-                          setLedgerWorkbook(null);
+                          setLedger(null);
                           setLedgerFileName('');
                           toast({
                             title: '계정별원장 제거',
@@ -730,32 +728,7 @@ const AIAnalysis: React.FC = () => {
 
             <AIInsights 
               entries={cleanedEntries} 
-              ledgerWorkbook={ledgerWorkbook}
-              getDataFromSheet={ledgerWorkbook ? (worksheet: XLSX.WorkSheet | undefined) => {
-                // 간단한 getDataFromSheet 구현
-                if (!worksheet) return { data: [], headers: [], orderedHeaders: [] };
-                
-                const sheetDataAsArrays: any[][] = XLSX.utils.sheet_to_json(worksheet, { header: 1, defval: null });
-                if (sheetDataAsArrays.length < 2) return { data: [], headers: [], orderedHeaders: [] };
-                
-                // 헤더 찾기 (첫 번째 비어있지 않은 행)
-                let headerIndex = -1;
-                for (let i = 0; i < Math.min(20, sheetDataAsArrays.length); i++) {
-                  const row = sheetDataAsArrays[i];
-                  if (row && row.length >= 3 && row.some(cell => cell !== null && String(cell).trim() !== '')) {
-                    headerIndex = i;
-                    break;
-                  }
-                }
-                
-                if (headerIndex === -1) return { data: [], headers: [], orderedHeaders: [] };
-                
-                const rawData = XLSX.utils.sheet_to_json<any>(worksheet, { range: headerIndex });
-                const headers = rawData.length > 0 ? Object.keys(rawData[0]) : [];
-                const orderedHeaders = (sheetDataAsArrays[headerIndex] || []).map(h => String(h || '').trim());
-                
-                return { data: rawData, headers, orderedHeaders };
-              } : undefined}
+              ledger={ledger}
             />
           </div>
         )}
@@ -812,6 +785,15 @@ const AIAnalysis: React.FC = () => {
           </div>
         )}
       </main>
+
+      {/* 원장 파싱 진행률 */}
+      {parseStatus && (
+        <LedgerParseProgress
+          fileName={parseStatus.fileName}
+          progress={parseStatus.progress}
+          onCancel={cancelParse}
+        />
+      )}
     </div>
   );
 };
@@ -7,18 +7,10 @@ import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, Command
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { ArrowLeft, Activity, TrendingUp, TrendingDown, RefreshCw, Check, ChevronsUpDown, Download } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { getDataFromSheet, LedgerRow } from '@/lib/excelHelpers';
-import { robustFindHeader, cleanAmount } from '@/lib/headerUtils';
-import {
-  ACCOUNT_KEYWORDS,
-  DEBIT_KEYWORDS,
-  CREDIT_KEYWORDS,
-  VENDOR_KEYWORDS
-} from '@/lib/columnMapping';
+import { getAccountEntries, type NormalizedLedger } from '@/lib/ledgerModel';
 
 interface AccountLinkageAnalysisProps {
-  workbook: XLSX.WorkBook;
-  accountNames: string[];
+  ledger: NormalizedLedger;
   onBack: () => void;
 }
 
@@ -30,10 +22,10 @@ interface ClientStat {
 }
 
 export const AccountLinkageAnalysis: React.FC<AccountLinkageAnalysisProps> = ({
-  workbook,
-  accountNames,
+  ledger,
   onBack
 }) => {
+  const accountNames = ledger.accountNames;
   const [selectedAccount, setSelectedAccount] = useState<string>(accountNames[0] || '');
   const [debitStats, setDebitStats] = useState<ClientStat[]>([]);
   const [creditStats, setCreditStats] = useState<ClientStat[]>([]);
@@ -50,92 +42,35 @@ export const AccountLinkageAnalysis: React.FC<AccountLinkageAnalysisProps> = ({
 
   useEffect(() => {
     analyzeData();
-  }, [selectedAccount, workbook]);
+  }, [selectedAccount, ledger]);
 
   const analyzeData = () => {
-    if (!workbook || !selectedAccount) return;
+    if (!ledger || !selectedAccount) return;
 
     setIsLoading(true);
     
     // Process in a timeout to allow UI update
     setTimeout(() => {
       try {
-        const sheetName = workbook.SheetNames[0]; // Assume data is in the first sheet or relevant sheets
-        // Ideally we iterate all sheets or find the one with data. 
-        // AdvancedLedgerAnalysis typically handles single sheet or multi-sheet.
-        // We will assume the structure follows getDataFromSheet logic.
-        
-        let allRows: LedgerRow[] = [];
-        let headers: string[] = [];
-        let orderedHeaders: string[] = [];
+        const entries = getAccountEntries(ledger, selectedAccount);
 
-        // Aggregate data from all sheets if needed, or just finding the one with the account
-        // If accountNames matches SheetNames (legacy mode), we pick that sheet.
-        // If SingleSheetMode, we filter by account column.
-        
-        const isSheetByName = workbook.SheetNames.includes(selectedAccount);
-        
-        if (isSheetByName) {
-            const sheet = workbook.Sheets[selectedAccount];
-            const result = getDataFromSheet(sheet);
-            allRows = result.data;
-            headers = result.headers;
-            orderedHeaders = result.orderedHeaders;
-        } else {
-             // Single sheet with account column
-             // We need to look through all sheets (usually just one main data sheet)
-             // and filter by account name
-             workbook.SheetNames.forEach(name => {
-                 const sheet = workbook.Sheets[name];
-                 const result = getDataFromSheet(sheet);
-                 if (result.data.length > 0) {
-                     // Check if this sheet has the selected account
-                     const accountHeader = robustFindHeader(result.orderedHeaders, ACCOUNT_KEYWORDS);
-                     if (accountHeader) {
-                         const filtered = result.data.filter(row => {
-                             const val = row[accountHeader];
-                             return val && String(val).trim() === selectedAccount;
-                         });
-                         if (filtered.length > 0) {
-                             allRows = [...allRows, ...filtered];
-                             if (headers.length === 0) {
-                                 headers = result.headers;
-                                 orderedHeaders = result.orderedHeaders;
-                             }
-                         }
-                     }
-                 }
-             });
-        }
-
-        if (allRows.length === 0) {
+        if (entries.length === 0) {
             setDebitStats([]);
             setCreditStats([]);
             setIsLoading(false);
             return;
         }
 
-        const debitHeader = robustFindHeader(orderedHeaders, DEBIT_KEYWORDS);
-        const creditHeader = robustFindHeader(orderedHeaders, CREDIT_KEYWORDS);
-        const clientHeader = robustFindHeader(orderedHeaders, VENDOR_KEYWORDS);
-
-        if (!debitHeader && !creditHeader) {
-             console.error("Could not find debit/credit headers");
-             setIsLoading(false);
-             return;
-        }
-
         const debitMap = new Map<string, { count: number; amount: number }>();
         const creditMap = new Map<string, { count: number; amount: number }>();
         let sumDebit = 0;
         let sumCredit = 0;
 
-        allRows.forEach(row => {
-            const clientRaw = clientHeader ? row[clientHeader] : '미지정 거래처';
-            const client = (clientRaw && String(clientRaw).trim()) || '미지정 거래처';
+        entries.forEach(entry => {
+            const client = (entry.vendor && entry.vendor.trim()) || '미지정 거래처';
             
-            const debitVal = debitHeader ? cleanAmount(row[debitHeader]) : 0;
-            const creditVal = creditHeader ? cleanAmount(row[creditHeader]) : 0;
+            const debitVal = entry.debit;
+            const creditVal = entry.credit;
 
             // 마이너스 금액도 집계에 반영 (0이 아닌 경우만)
             if (debitVal !== 0) {
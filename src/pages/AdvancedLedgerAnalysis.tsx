@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect, useMemo } from 'react';
+import React, { useState, useRef, useEffect, useMemo, useCallback } from 'react';
 import * as XLSX from 'xlsx';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -13,9 +13,16 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
+import { useLedgerParser } from '@/hooks/use-ledger-parser';
 import { BenfordAnalysis } from '@/components/BenfordAnalysis';
+import { AnomalyDetection } from '@/components/AnomalyDetection';
 import { DualOffsetAnalysis } from './DualOffsetAnalysis';
 import { DuplicateVendorAnalysis } from './DuplicateVendorAnalysis';
+import { DuplicatePaymentAnalysis } from './DuplicatePaymentAnalysis';
+import { JournalEntryTests } from './JournalEntryTests';
+import { NumberForensicsAnalysis } from './NumberForensicsAnalysis';
+import { CircularFlowAnalysis } from './CircularFlowAnalysis';
+import { PivotAnalysis } from './PivotAnalysis';
 import { MonthlyTrendAnalysis } from './MonthlyTrendAnalysis';
 import { ProfitLossAnalysis } from './ProfitLossAnalysis';
 import { SamplingAnalysis } from './SamplingAnalysis';
@@ -23,7 +30,35 @@ import { PreviousPeriodComparison } from './PreviousPeriodComparison';
 import { TransactionSearch } from './TransactionSearch';
 import { FinancialStatementAnalysis } from './FinancialStatementAnalysis';
 import { AccountLinkageAnalysis } from './AccountLinkageAnalysis';
-import { getDataFromSheet, LedgerRow, parseDate } from '@/lib/excelHelpers';
+import { LedgerRow } from '@/lib/excelHelpers';
+import { readLedgerWorkbook, isSupportedLedgerFile, describeLedgerImport, LEDGER_FILE_ACCEPT } from '@/lib/ledgerFileImport';
+import { getAccountEntries, toLedgerRows, getEntryMonthKey, type NormalizedLedger, type LedgerColumnMapping } from '@/lib/ledgerModel';
+import { isLedgerParseCancelled } from '@/lib/ledgerParser';
+import { applyVendorAliases, getVendorAliases } from '@/lib/vendorResolution';
+import { getLedgerFiscalYear, MAX_COMPARISON_PERIODS, type ComparisonPeriod } from '@/lib/multiPeriodComparison';
+import {
+  downloadEngagementFile,
+  getActiveEngagementId,
+  getEngagement,
+  listEngagementFiles,
+  loadResultFromActiveEngagement,
+  removeEngagementFile,
+  saveResultToActiveEngagement,
+  setActiveEngagementId,
+  updateEngagementFileMappings,
+  uploadEngagementFile,
+  type Engagement,
+  type EngagementFile,
+  type EngagementFileKind,
+} from '@/lib/engagementStore';
+import { ColumnMappingWizard } from '@/components/ColumnMappingWizard';
+import { LedgerParseProgress } from '@/components/LedgerParseProgress';
+import { DataGrid } from '@/components/DataGrid';
+import { createRecordColumns, getIndexRowKey } from '@/lib/dataGridColumns';
+import { EngagementDialog } from '@/components/EngagementDialog';
+import { AiSettingsDialog } from '@/components/AiSettingsDialog';
+import { AccountClassificationDialog } from '@/components/AccountClassificationDialog';
+import { VendorAliasDialog } from '@/components/VendorAliasDialog';
 import { smartSample, calculateSampleSize, generateDataSummary } from '@/lib/smartSampling';
 import { findDebitCreditHeaders, robustFindHeader, cleanAmount } from '@/lib/headerUtils';
 import { 
@@ -36,7 +71,8 @@ import {
   BALANCE_KEYWORDS 
 } from '@/lib/columnMapping';
 import { maskAccountNumbersInRows } from '@/lib/anonymization';
-import { analyzeWithFlash, saveApiKey, getApiKey, deleteApiKey, hasApiKey, estimateTokens, estimateCost } from '@/lib/geminiClient';
+import { analyzeWithFlash, hasApiKey, estimateTokens, estimateCost } from '@/lib/geminiClient';
+import { getActiveModelName, getLlmSettings } from '@/lib/llmProvider';
 import { addUsageRecord, getUsageSummary, clearUsageHistory, exportUsageToCSV, type UsageSummary } from '@/lib/usageTracker';
 import {
   FileSpreadsheet,
@@ -63,11 +99,17 @@ import {
   Calendar,
   Activity,
   ChevronsUpDown,
+  Briefcase,
+  ClipboardCheck,
+  Table2,
+  Copy,
+  CopyCheck,
+  Repeat,
   Check
 } from 'lucide-react';
 
 // Types
-type View = 'selection' | 'account_analysis' | 'offset_analysis' | 'general_ledger' | 'duplicate_vendor' | 'profit_loss' | 'monthly_trend' | 'previous_period' | 'transaction_search' | 'sampling' | 'fss_risk' | 'benford' | 'financial_statement' | 'account_linkage';
+type View = 'selection' | 'account_analysis' | 'offset_analysis' | 'circular_flow' | 'general_ledger' | 'duplicate_vendor' | 'duplicate_payment' | 'profit_loss' | 'monthly_trend' | 'previous_period' | 'transaction_search' | 'sampling' | 'fss_risk' | 'benford' | 'anomaly_detection' | 'financial_statement' | 'account_linkage' | 'journal_entry_test' | 'number_forensics' | 'pivot';
 type SamplingMethod = 'random' | 'systematic' | 'mus';
 
 // Helper functions
@@ -75,6 +117,11 @@ const normalizeAccountName = (name: string): string => {
   return (name || "").replace(/^\d+[_.-]?\s*/, '');
 };
 
+// 정규화에 사용한 시트별 확정 매핑 (업무에 저장해 두면 다른 PC에서도 같은 매핑으로 복원)
+const getLedgerMappings = (ledger: NormalizedLedger): Record<string, LedgerColumnMapping> => {
+  return Object.fromEntries(ledger.sheets.map(sheet => [sheet.sheetName, sheet.mapping]));
+};
+
 /**
  * 재무제표 전용 헤더 인식 함수
  * "과목", "당기", "전기" 키워드로 헤더를 찾음
@@ -155,14 +202,16 @@ const AdvancedLedgerAnalysis = () => {
   // File states
   const [fileName, setFileName] = useState<string>('');
   const [previousFileName, setPreviousFileName] = useState<string>('');
-  const [workbook, setWorkbook] = useState<XLSX.WorkBook | null>(null);
-  const [previousWorkbook, setPreviousWorkbook] = useState<XLSX.WorkBook | null>(null);
   const [accountNames, setAccountNames] = useState<string[]>([]);
   const [selectedAccount, setSelectedAccount] = useState<string>('');
   const [accountComboboxOpen, setAccountComboboxOpen] = useState(false);
-  // 시트가 하나만 있고 헤더에 계정명이 있는 경우를 추적
-  const [isSingleSheetWithAccountHeader, setIsSingleSheetWithAccountHeader] = useState<boolean>(false);
-  const [accountNameHeader, setAccountNameHeader] = useState<string | undefined>(undefined);
+  // 통합 원장 모델 (업로드 시 한 번만 정규화하여 모든 분석 화면이 공유)
+  const [ledger, setLedger] = useState<NormalizedLedger | null>(null);
+  const [previousLedger, setPreviousLedger] = useState<NormalizedLedger | null>(null);
+  // 다년도 비교용 과거 연도 원장 (전기 이전 연도, 오래된 순)
+  const [olderPeriods, setOlderPeriods] = useState<ComparisonPeriod[]>([]);
+  // 백그라운드(Web Worker) 원장 파싱
+  const { parseStatus, parse: runLedgerParse, cancel: handleCancelParse } = useLedgerParser();
   
   // Financial Statement states
   const [financialStatementWorkbook, setFinancialStatementWorkbook] = useState<XLSX.WorkBook | null>(null);
@@ -175,6 +224,11 @@ const AdvancedLedgerAnalysis = () => {
   const [isDraggingPrevious, setIsDraggingPrevious] = useState<boolean>(false);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [showPreviousDialog, setShowPreviousDialog] = useState<boolean>(false);
+  const [showMappingWizard, setShowMappingWizard] = useState<boolean>(false);
+  const [showAccountClassification, setShowAccountClassification] = useState<boolean>(false);
+  const [showVendorAliases, setShowVendorAliases] = useState<boolean>(false);
+  const [vendorAliases, setVendorAliases] = useState<Record<string, string>>(() => getVendorAliases()); // 확정된 거래처 별칭
+  const pendingPreviousPromptRef = useRef<boolean>(false); // 매핑 확인 후 전기 업로드 질문 표시
   const [showPreviousUpload, setShowPreviousUpload] = useState<boolean>(false);
 
   // Analysis states
@@ -183,7 +237,6 @@ const AdvancedLedgerAnalysis = () => {
   
   // API Key states
   const [showApiKeyDialog, setShowApiKeyDialog] = useState<boolean>(false);
-  const [apiKeyInput, setApiKeyInput] = useState<string>('');
   const [apiKeyExists, setApiKeyExists] = useState<boolean>(hasApiKey());
   
   // Cost estimation states
@@ -198,6 +251,13 @@ const AdvancedLedgerAnalysis = () => {
   // Usage tracking states
   const [usageSummary, setUsageSummary] = useState<UsageSummary>(getUsageSummary());
   const [showUsageDialog, setShowUsageDialog] = useState<boolean>(false);
+
+  // Engagement states (업로드 파일과 분석 결과를 Supabase 업무에 저장)
+  const [activeEngagement, setActiveEngagement] = useState<Engagement | null>(null);
+  const [showEngagementDialog, setShowEngagementDialog] = useState<boolean>(false);
+  const [isRestoringEngagement, setIsRestoringEngagement] = useState<boolean>(false);
+  const sourceFilesRef = useRef<{ current?: File; previous?: File; financialStatement?: File; older: File[] }>({ older: [] }); // 새 업무 생성 시 함께 저장할 원본 파일
+  const currentLedgerRecordRef = useRef<Promise<EngagementFile | null> | null>(null); // 컬럼 매핑 확정 시 갱신할 당기 원장 레코드
   
   // Refresh usage summary
   const refreshUsageSummary = () => {
@@ -208,249 +268,475 @@ const AdvancedLedgerAnalysis = () => {
     { id: 'account_linkage', title: '계정 연관 거래처 분석', description: '특정 계정의 차변/대변 상위 거래처를 분석하고, 상호 연관성을 파악합니다.', icon: Activity },
     { id: 'account_analysis', title: '계정별원장 AI 분석', description: '특정 계정을 선택하여 AI에게 거래내역 요약, 특이사항 분석 등 자유로운 질문을 할 수 있습니다.', icon: FileText },
     { id: 'offset_analysis', title: '외상매출/매입 상계 거래처 분석', description: '외상매출금(차변)과 외상매입금/미지급금(대변)에 동시에 나타나는 거래처를 찾아 상계 가능 여부를 분석합니다.', icon: Scale },
+    { id: 'circular_flow', title: '순환 거래 탐지', description: '전표의 대변 상대 → 차변 상대 자금 흐름으로 그래프를 만들어, 기간 안에 비슷한 금액이 A → B → C → A로 되돌아온 순환 경로(자금 돌리기, 가공 매출 의심)를 찾습니다.', icon: Repeat },
     { id: 'duplicate_vendor', title: '매입/매출 이중거래처 분석', description: '동일한 거래처가 매입과 매출 양쪽에서 동시에 발생하는 경우를 식별하여 잠재적 위험을 분석합니다.', icon: AlertTriangle },
+    { id: 'duplicate_payment', title: '중복 지급 · 분할 거래 탐지', description: '동일 거래처·동일 금액의 반복 기록, 거래처만 다른 동일 금액, 같은 송장의 이중 지급, 승인한도 미만으로 나눈 거래를 찾아 클러스터로 묶습니다.', icon: CopyCheck },
     { id: 'general_ledger', title: '총계정원장 조회', description: '특정 계정의 월별 차변/대변 합계 및 잔액을 요약하고, 상세 거래내역을 조회합니다.', icon: FileSpreadsheet },
     { id: 'profit_loss', title: '추정 손익 분석', description: '업로드된 계정별원장 전체를 바탕으로 매출과 비용 계정을 자동 분류하여 대략적인 손익을 계산합니다.', icon: TrendingUp },
     { id: 'monthly_trend', title: '매출/판관비 월별 추이 분석', description: '매출, 판관비, 제조원가 계정을 자동 분류하고 월별 추이를 시각화 및 AI 요약 리포트를 제공합니다.', icon: BarChart3 },
-    { id: 'previous_period', title: '전기 데이터 비교 분석', description: '전기 계정별원장 데이터를 추가로 업로드하여, 계정별/월별 변동 현황을 비교 분석합니다.', icon: Scale },
+    { id: 'previous_period', title: '전기 데이터 비교 분석', description: '전기 계정별원장 데이터를 추가로 업로드하여, 계정별/월별 변동 현황을 비교 분석합니다. 과거 연도를 더 추가하면 최대 5개 연도의 추세(CAGR, 전년 대비, 추세 이탈)를 분석합니다.', icon: Scale },
+    { id: 'pivot', title: '피벗 분석', description: '계정, 거래처, 월, 요일, 전표유형을 행·열로 골라 차변/대변 합계, 건수, 평균 금액을 집계하고 셀에서 상세 거래로 들어갑니다.', icon: Table2 },
     { id: 'transaction_search', title: '상세 거래 검색', description: '거래처, 계정과목, 금액, 적요 등 다양한 조건으로 원하는 거래를 빠르게 검색하고 조회합니다.', icon: Search },
     { id: 'sampling', title: '감사 샘플링', description: '통계적 기법(MUS) 또는 비통계적 기법(랜덤, 체계적)을 사용하여 감사 테스트를 위한 샘플을 추출합니다.', icon: FlaskConical },
     { id: 'fss_risk', title: '금감원 지적사례 기반 위험 분석', description: '외부의 금감원 지적사례 텍스트 파일을 기반으로, 현재 원장에서 유사한 위험이 있는지 AI가 분석합니다.', icon: Shield },
+    { id: 'journal_entry_test', title: '분개 테스트 (JET)', description: '주말·공휴일, 라운드 금액, 승인한도 직하, 비경상적 계정 조합, 적요 누락, 결산일 이후 전표 규칙을 적용해 분개별 위험 점수를 계산하고 조서로 내보냅니다.', icon: ClipboardCheck },
+    { id: 'number_forensics', title: '숫자 중복 · 상대적 크기 비율(RSF)', description: '계정·거래처별로 반복된 동일 금액을 건수 × 금액 순으로 찾고, 거래처별 최대 거래 ÷ 두 번째 거래 비율로 입력 오류나 부풀린 청구서를 찾습니다.', icon: Copy },
+    { id: 'anomaly_detection', title: '계정·거래처 기준선 이상거래 탐지', description: '계정별·거래처별 로그 금액 중앙값/MAD 기준선과 거래처의 평소 거래 주기를 세우고, 기준선을 벗어난 거래와 벗어난 정도를 보여줍니다.', icon: AlertTriangle },
     { id: 'benford', title: '벤포드 법칙 분석', description: '계정의 금액 데이터 첫 자리 수 분포를 분석하여 잠재적인 이상 징후나 데이터 조작 가능성을 탐지합니다.', icon: BarChart3 },
     { id: 'financial_statement', title: '재무제표 증감 분석', description: '재무상태표를 업로드하여 계정별 증감을 분석하고 재무비율을 계산합니다.', icon: TrendingUpIcon },
   ];
 
-  const handleFile = (file: File | null | undefined) => {
+  // 현재 업무에 원본 파일 저장 (업무가 없으면 저장하지 않음)
+  const persistEngagementFile = (
+    kind: EngagementFileKind,
+    file: File,
+    options: { fiscalYear?: number | null; columnMappings?: Record<string, LedgerColumnMapping> } = {},
+    engagementId: string | undefined = activeEngagement?.id
+  ): Promise<EngagementFile | null> => {
+    if (!engagementId) return Promise.resolve(null);
+    return uploadEngagementFile(engagementId, kind, file, options).catch(error => {
+      toast({
+        title: '오류',
+        description: `업무에 파일을 저장하지 못했습니다: ${error instanceof Error ? error.message : String(error)}`,
+        variant: 'destructive',
+      });
+      return null;
+    });
+  };
+
+  // 업무에 저장된 파일을 내려받아 당기/전기/과거 연도 원장과 재무제표를 복원
+  const restoreEngagement = useCallback(async (engagement: Engagement) => {
+    setIsRestoringEngagement(true);
+    try {
+      const records = await listEngagementFiles(engagement.id);
+      const restoredOlder: ComparisonPeriod[] = [];
+      const sourceFiles: { current?: File; previous?: File; financialStatement?: File; older: File[] } = { older: [] };
+      let currentRecord: EngagementFile | null = null;
+
+      setLedger(null);
+      setAccountNames([]);
+      setFileName('');
+      setPreviousLedger(null);
+      setPreviousFileName('');
+      setFinancialStatementWorkbook(null);
+      setFinancialStatementFileName('');
+      setAnalysisResult('');
+
+      for (const record of records) {
+        const file = await downloadEngagementFile(record);
+        if (record.kind === 'financial_statement') {
+          setFinancialStatementFileName(record.file_name);
+          setFinancialStatementWorkbook((await readLedgerWorkbook(file)).workbook);
+          sourceFiles.financialStatement = file;
+          continue;
+        }
+
+        const mappings = record.column_mappings as Record<string, LedgerColumnMapping> | null;
+        const { ledger: restoredLedger } = await runLedgerParse(file, { mappings: mappings ?? undefined });
+
+        if (record.kind === 'current_ledger') {
+          setFileName(record.file_name);
+          setLedger(restoredLedger);
+          setAccountNames(restoredLedger.accountNames);
+          setSelectedAccount(prev => restoredLedger.accountNames.includes(prev) ? prev : (restoredLedger.accountNames[0] || ''));
+          sourceFiles.current = file;
+          currentRecord = record;
+        } else if (record.kind === 'previous_ledger') {
+          setPreviousFileName(record.file_name);
+          setPreviousLedger(restoredLedger);
+          sourceFiles.previous = file;
+        } else if (record.kind === 'older_ledger') {
+          const fiscalYear = record.fiscal_year ?? getLedgerFiscalYear(restoredLedger);
+          restoredOlder.push({
+            label: fiscalYear ? `${fiscalYear}년` : record.file_name,
+            ledger: restoredLedger,
+            fileName: record.file_name,
+            fiscalYear,
+          });
+          sourceFiles.older.push(file);
+        }
+      }
+
+      setOlderPeriods(restoredOlder.sort((a, b) => (a.fiscalYear ?? 0) - (b.fiscalYear ?? 0)));
+      sourceFilesRef.current = sourceFiles;
+      currentLedgerRecordRef.current = Promise.resolve(currentRecord);
+      setActiveEngagementId(engagement.id);
+      setActiveEngagement(engagement);
+      setCurrentView('selection');
+
+      toast({
+        title: '성공',
+        description: `${engagement.client_name} (${engagement.fiscal_year}) 업무를 불러왔습니다.${records.length > 0 ? ` (파일 ${records.length}개)` : ''}`,
+      });
+    } catch (error) {
+      toast({
+        title: '오류',
+        description: `업무를 불러오지 못했습니다: ${error instanceof Error ? error.message : String(error)}`,
+        variant: 'destructive',
+      });
+    } finally {
+      setIsRestoringEngagement(false);
+    }
+  }, [toast, runLedgerParse]);
+
+  // 새로고침 후에도 마지막으로 작업한 업무를 이어서 열기
+  useEffect(() => {
+    const engagementId = getActiveEngagementId();
+    if (!engagementId) return;
+    getEngagement(engagementId)
+      .then(engagement => {
+        if (engagement) restoreEngagement(engagement);
+        else setActiveEngagementId(null);
+      })
+      .catch(error => console.warn('업무 불러오기 실패:', error));
+  }, [restoreEngagement]);
+
+  // 새 업무를 만들면 지금 불러온 파일을 그 업무에 저장
+  const handleEngagementCreated = async (engagement: Engagement) => {
+    setActiveEngagementId(engagement.id);
+    setActiveEngagement(engagement);
+    setShowEngagementDialog(false);
+
+    const { current, previous, financialStatement, older } = sourceFilesRef.current;
+    const uploads: Promise<EngagementFile | null>[] = [];
+    if (current && ledger) {
+      currentLedgerRecordRef.current = persistEngagementFile('current_ledger', current, {
+        fiscalYear: getLedgerFiscalYear(ledger),
+        columnMappings: getLedgerMappings(ledger),
+      }, engagement.id);
+      uploads.push(currentLedgerRecordRef.current);
+    } else {
+      currentLedgerRecordRef.current = null;
+    }
+    if (previous && previousLedger) {
+      uploads.push(persistEngagementFile('previous_ledger', previous, {
+        fiscalYear: getLedgerFiscalYear(previousLedger),
+        columnMappings: getLedgerMappings(previousLedger),
+      }, engagement.id));
+    }
+    olderPeriods.forEach(period => {
+      const file = older.find(f => f.name === period.fileName);
+      if (!file) return;
+      uploads.push(persistEngagementFile('older_ledger', file, {
+        fiscalYear: period.fiscalYear,
+        columnMappings: getLedgerMappings(period.ledger),
+      }, engagement.id));
+    });
+    if (financialStatement && financialStatementWorkbook) {
+      uploads.push(persistEngagementFile('financial_statement', financialStatement, {}, engagement.id));
+    }
+
+    const saved = (await Promise.all(uploads)).filter(Boolean).length;
+    toast({
+      title: '성공',
+      description: `${engagement.client_name} (${engagement.fiscal_year}) 업무를 만들었습니다.${saved > 0 ? ` 현재 파일 ${saved}개를 저장했습니다.` : ''}`,
+    });
+  };
+
+  const handleCloseEngagement = () => {
+    setActiveEngagementId(null);
+    setActiveEngagement(null);
+    currentLedgerRecordRef.current = null;
+    setShowEngagementDialog(false);
+  };
+
+  const handleRemoveOlderPeriod = (index: number) => {
+    const removed = olderPeriods[index];
+    setOlderPeriods(prev => prev.filter((_, i) => i !== index));
+    sourceFilesRef.current.older = sourceFilesRef.current.older.filter(f => f.name !== removed?.fileName);
+    if (!activeEngagement || !removed) return;
+    listEngagementFiles(activeEngagement.id)
+      .then(records => {
+        const record = records.find(r => r.kind === 'older_ledger' && r.file_name === removed.fileName);
+        return record ? removeEngagementFile(record) : undefined;
+      })
+      .catch(error => console.warn('업무 파일 삭제 실패:', error));
+  };
+
+  const handleFile = async (file: File | null | undefined) => {
     if (!file) {
       if (fileInputRef.current) fileInputRef.current.value = "";
       return;
     }
 
-    const isExcel = file.type.includes('spreadsheetml') || file.type.includes('ms-excel') || file.name.endsWith('.xls') || file.name.endsWith('.xlsx');
-    if (!isExcel) {
+    if (!isSupportedLedgerFile(file)) {
       toast({
         title: '오류',
-        description: '엑셀 파일(.xlsx, .xls)만 업로드할 수 있습니다.',
+        description: '엑셀(.xlsx, .xls) 또는 CSV/텍스트(.csv, .tsv, .txt, .prn) 파일만 업로드할 수 있습니다.',
         variant: 'destructive',
       });
       return;
     }
 
     setFileName(file.name);
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const data = e.target?.result;
-        const loadedWorkbook = XLSX.read(data, { type: 'array', cellDates: true });
-        setWorkbook(loadedWorkbook);
-
-        const allSheetNames = loadedWorkbook.SheetNames;
-        if (allSheetNames.length === 0) {
-          toast({
-            title: '오류',
-            description: '엑셀 파일에 시트가 없습니다.',
-            variant: 'destructive',
-          });
-          return;
-        }
-
-        // 시트가 하나만 있고 헤더에 계정명이 있는 경우 처리
-        if (allSheetNames.length === 1) {
-          const firstSheet = loadedWorkbook.Sheets[allSheetNames[0]];
-          const { data: sheetData, orderedHeaders } = getDataFromSheet(firstSheet);
-          
-          // 계정명 헤더 찾기 ('계정명'을 우선순위로)
-          const foundAccountNameHeader = robustFindHeader(orderedHeaders, ACCOUNT_KEYWORDS);
-          
-          if (foundAccountNameHeader && sheetData.length > 0) {
-            // 헤더에 계정명이 있고 데이터가 있는 경우, 고유한 계정명 추출
-            const uniqueAccountNames = new Set<string>();
-            sheetData.forEach(row => {
-              const accountName = row[foundAccountNameHeader];
-              if (accountName && typeof accountName === 'string' && accountName.trim() !== '') {
-                // 합계행, 헤더 중복 등 제외
-                const trimmed = accountName.trim();
-                const excludePatterns = ['월계', '누계', '합계', '총합계', foundAccountNameHeader];
-                const shouldExclude = excludePatterns.some(pattern => 
-                  trimmed.includes(pattern) || trimmed === pattern
-                );
-                if (!shouldExclude) {
-                  uniqueAccountNames.add(trimmed);
-                }
-              }
-            });
-            
-            // 고유한 계정명이 2개 이상인 경우에만 헤더의 계정명 사용
-            if (uniqueAccountNames.size >= 2) {
-              const accountNamesArray = Array.from(uniqueAccountNames).sort();
-              setAccountNames(accountNamesArray);
-              setSelectedAccount(accountNamesArray[0]);
-              setIsSingleSheetWithAccountHeader(true);
-              setAccountNameHeader(foundAccountNameHeader);
-              
-              toast({
-                title: '성공',
-                description: `1개 시트에서 ${accountNamesArray.length}개의 계정을 찾았습니다.`,
-              });
-              
-              // 당기 업로드 완료 후 전기 업로드 여부 물어보기
-              console.log('당기 파일 업로드 완료! Dialog를 표시합니다.');
-              setTimeout(() => {
-                setShowPreviousDialog(true);
-                console.log('showPreviousDialog가 true로 설정되었습니다.');
-              }, 100);
-              return;
-            }
-          }
-        }
-        
-        // 기존 로직으로 돌아가는 경우 상태 초기화
-        setIsSingleSheetWithAccountHeader(false);
-        setAccountNameHeader(undefined);
-
-        // 기존 로직: 시트별로 계정명이 있는 경우
-        setAccountNames(allSheetNames);
-        setSelectedAccount(allSheetNames[0]);
-        
+    try {
+      // 통합 원장 모델로 한 번만 정규화 (시트별 계정 / 단일 시트 + 계정과목 컬럼 자동 판별)
+      // 같은 헤더 구성의 저장된 매핑 프로필이 있으면 자동 적용
+      const parsed = await runLedgerParse(file);
+      const { ledger: normalizedLedger, profiles, sheetNames: allSheetNames } = parsed;
+      if (allSheetNames.length === 0) {
         toast({
-          title: '성공',
-          description: `${allSheetNames.length}개 시트를 불러왔습니다.`,
+          title: '오류',
+          description: '엑셀 파일에 시트가 없습니다.',
+          variant: 'destructive',
         });
-        
+        return;
+      }
+
+      applyLedger(normalizedLedger);
+      sourceFilesRef.current.current = file;
+      currentLedgerRecordRef.current = persistEngagementFile('current_ledger', file, {
+        fiscalYear: getLedgerFiscalYear(normalizedLedger),
+        columnMappings: getLedgerMappings(normalizedLedger),
+      });
+      
+      toast({
+        title: '성공',
+        description: (normalizedLedger.accountSource === 'column'
+          ? `1개 시트에서 ${normalizedLedger.accountNames.length}개의 계정을 찾았습니다.`
+          : `${allSheetNames.length}개 시트를 불러왔습니다.`) +
+          describeLedgerImport(parsed) +
+          (profiles.length > 0 ? ` 저장된 매핑 프로필 "${profiles.map(p => p.name).join(', ')}"을(를) 적용했습니다.` : ''),
+      });
+      
+      if (profiles.length > 0) {
         // 당기 업로드 완료 후 전기 업로드 여부 물어보기
-        console.log('당기 파일 업로드 완료! Dialog를 표시합니다.');
         setTimeout(() => {
           setShowPreviousDialog(true);
-          console.log('showPreviousDialog가 true로 설정되었습니다.');
         }, 100);
-      } catch (err) {
-        toast({
-          title: '오류',
-          description: '엑셀 파일 파싱 중 오류가 발생했습니다.',
-          variant: 'destructive',
-        });
+      } else {
+        // 처음 보는 형식이면 컬럼 매핑 확인 후 전기 업로드 여부 물어보기
+        pendingPreviousPromptRef.current = true;
+        setShowMappingWizard(true);
       }
-    };
-    reader.readAsArrayBuffer(file);
+    } catch (err) {
+      if (isLedgerParseCancelled(err)) {
+        setFileName(sourceFilesRef.current.current?.name || '');
+        toast({ title: '취소', description: `${file.name} 파일 읽기를 취소했습니다.` });
+        return;
+      }
+      toast({
+        title: '오류',
+        description: `파일 파싱 중 오류가 발생했습니다: ${err instanceof Error ? err.message : String(err)}`,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const applyLedger = (normalizedLedger: NormalizedLedger) => {
+    setLedger(normalizedLedger);
+    setAccountNames(normalizedLedger.accountNames);
+    setSelectedAccount(prev => normalizedLedger.accountNames.includes(prev) ? prev : (normalizedLedger.accountNames[0] || ''));
   };
 
-  const handlePreviousFile = (file: File | null | undefined) => {
+  // 컬럼 매핑 확정 시 같은 파일을 확정 매핑으로 다시 정규화 (Web Worker)
+  const handleApplyMappings = async (mappings: Record<string, LedgerColumnMapping>) => {
+    const file = sourceFilesRef.current.current;
+    if (!file) return;
+    let normalizedLedger: NormalizedLedger;
+    try {
+      normalizedLedger = (await runLedgerParse(file, { mappings })).ledger;
+    } catch (error) {
+      if (isLedgerParseCancelled(error)) return;
+      toast({
+        title: '오류',
+        description: `컬럼 매핑을 적용하지 못했습니다: ${error instanceof Error ? error.message : String(error)}`,
+        variant: 'destructive',
+      });
+      return;
+    }
+    applyLedger(normalizedLedger);
+    currentLedgerRecordRef.current?.then(record => {
+      if (!record) return;
+      updateEngagementFileMappings(record.id, getLedgerMappings(normalizedLedger))
+        .catch(error => console.warn('업무 컬럼 매핑 저장 실패:', error));
+    });
+  };
+
+  const handleMappingWizardOpenChange = (open: boolean) => {
+    setShowMappingWizard(open);
+    if (!open && pendingPreviousPromptRef.current) {
+      pendingPreviousPromptRef.current = false;
+      setTimeout(() => {
+        setShowPreviousDialog(true);
+      }, 100);
+    }
+  };
+
+  const handlePreviousFile = async (file: File | null | undefined) => {
     if (!file) {
       setPreviousFileName('');
-      setPreviousWorkbook(null);
+      setPreviousLedger(null);
       if (previousFileInputRef.current) previousFileInputRef.current.value = "";
       return;
     }
 
-    const isExcel = file.type.includes('spreadsheetml') || file.type.includes('ms-excel') || file.name.endsWith('.xls') || file.name.endsWith('.xlsx');
-    if (!isExcel) {
+    if (!isSupportedLedgerFile(file)) {
       toast({
         title: '오류',
-        description: '전기 데이터는 엑셀 파일만 업로드할 수 있습니다.',
+        description: '전기 데이터는 엑셀 또는 CSV/텍스트 파일만 업로드할 수 있습니다.',
         variant: 'destructive',
       });
       return;
     }
 
     setPreviousFileName(file.name);
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const data = e.target?.result;
-        const loadedWorkbook = XLSX.read(data, { type: 'array', cellDates: true });
-        setPreviousWorkbook(loadedWorkbook);
-        
-        toast({
-          title: '성공',
-          description: '전기 원장 파일을 불러왔습니다.',
-        });
-        
-        // 전기 업로드 완료 후 바로 분석 메뉴로
-        setCurrentView('selection');
-        setShowPreviousUpload(false);
-      } catch (err) {
+    try {
+      const parsed = await runLedgerParse(file);
+      const normalizedPrevious = parsed.ledger;
+      setPreviousLedger(normalizedPrevious);
+      sourceFilesRef.current.previous = file;
+      persistEngagementFile('previous_ledger', file, {
+        fiscalYear: getLedgerFiscalYear(normalizedPrevious),
+        columnMappings: getLedgerMappings(normalizedPrevious),
+      });
+      
+      toast({
+        title: '성공',
+        description: `전기 원장 파일을 불러왔습니다.${describeLedgerImport(parsed)}`,
+      });
+      
+      // 전기 업로드 완료 후 바로 분석 메뉴로
+      setCurrentView('selection');
+      setShowPreviousUpload(false);
+    } catch (err) {
+      if (isLedgerParseCancelled(err)) {
+        toast({ title: '취소', description: `${file.name} 파일 읽기를 취소했습니다.` });
+      } else {
         toast({
           title: '오류',
-          description: '전기 엑셀 파일 파싱 중 오류가 발생했습니다.',
+          description: `전기 원장 파일 파싱 중 오류가 발생했습니다: ${err instanceof Error ? err.message : String(err)}`,
           variant: 'destructive',
         });
-        setPreviousWorkbook(null);
-        setPreviousFileName('');
       }
-    };
-    reader.readAsArrayBuffer(file);
-  };
-
-  const handleFinancialStatementFile = (file: File | null | undefined) => {
-    if (!file) {
-      if (financialStatementFileInputRef.current) financialStatementFileInputRef.current.value = "";
-      return;
+      setPreviousLedger(null);
+      setPreviousFileName('');
     }
+  };
 
-    const isExcel = file.type.includes('spreadsheetml') || file.type.includes('ms-excel') || file.name.endsWith('.xls') || file.name.endsWith('.xlsx');
-    if (!isExcel) {
+  const handleOlderPeriodFiles = async (files: File[]) => {
+    // 당기·전기를 포함해 최대 5개 연도까지 비교
+    const slots = MAX_COMPARISON_PERIODS - 2 - olderPeriods.length;
+    if (slots <= 0) {
       toast({
         title: '오류',
-        description: '엑셀 파일(.xlsx, .xls)만 업로드할 수 있습니다.',
+        description: `당기·전기를 포함해 최대 ${MAX_COMPARISON_PERIODS}개 연도까지 비교할 수 있습니다.`,
         variant: 'destructive',
       });
       return;
     }
 
-    setFinancialStatementFileName(file.name);
-    const reader = new FileReader();
-    reader.onload = (e) => {
+    // 과거 연도는 전기보다 앞선 회계연도만 추가 (연도 순서가 어긋나면 증감률·CAGR이 뒤바뀜)
+    const previousYear = previousLedger ? getLedgerFiscalYear(previousLedger) : null;
+    const loaded: ComparisonPeriod[] = [];
+    for (const file of files.slice(0, slots)) {
       try {
-        const data = e.target?.result;
-        const loadedWorkbook = XLSX.read(data, { type: 'array', cellDates: true });
-
-        const allSheetNames = loadedWorkbook.SheetNames;
-        if (allSheetNames.length === 0) {
+        const periodLedger = (await runLedgerParse(file)).ledger;
+        const fiscalYear = getLedgerFiscalYear(periodLedger);
+        if (fiscalYear && previousYear && fiscalYear >= previousYear) {
           toast({
             title: '오류',
-            description: '엑셀 파일에 시트가 없습니다.',
+            description: `${file.name}의 회계연도(${fiscalYear})가 전기(${previousYear}) 이후입니다. 전기보다 이전 연도의 원장만 추가할 수 있습니다.`,
             variant: 'destructive',
           });
-          return;
+          continue;
         }
-
-        // 첫 번째 시트에서 재무제표 데이터 확인
-        const firstSheet = loadedWorkbook.Sheets[allSheetNames[0]];
-        const { data: financialData, headers, orderedHeaders } = getFinancialStatementData(firstSheet);
-        
-        // 디버깅 정보
-        console.log('재무제표 업로드:', {
-          sheetName: allSheetNames[0],
-          dataLength: financialData.length,
-          headers: headers,
-          orderedHeaders: orderedHeaders,
+        loaded.push({
+          label: fiscalYear ? `${fiscalYear}년` : file.name,
+          ledger: periodLedger,
+          fileName: file.name,
+          fiscalYear,
         });
-        
-        // 검증 완화: 파일이 업로드되면 일단 통과 (분석 화면에서 데이터 확인)
-        // 최소한 시트가 있고 데이터가 있으면 통과
-        if (financialData.length === 0 && orderedHeaders.length === 0) {
-          console.warn('재무제표 데이터를 읽을 수 없습니다. 빈 파일일 수 있습니다.');
-          // 경고만 표시하고 진행 (분석 화면에서 처리)
-        }
-
-        setFinancialStatementWorkbook(loadedWorkbook);
-        
+        sourceFilesRef.current.older.push(file);
+        persistEngagementFile('older_ledger', file, { fiscalYear, columnMappings: getLedgerMappings(periodLedger) });
+      } catch (error) {
+        // 취소하면 남은 파일도 읽지 않음
+        if (isLedgerParseCancelled(error)) break;
         toast({
-          title: '성공',
-          description: `재무제표 파일을 불러왔습니다.${financialData.length > 0 ? ` (${financialData.length}개 항목)` : ''}`,
+          title: '오류',
+          description: `${file.name} 파싱 중 오류가 발생했습니다: ${error instanceof Error ? error.message : String(error)}`,
+          variant: 'destructive',
         });
-        
-        // 분석 화면으로 자동 전환
-        setCurrentView('financial_statement');
-      } catch (err) {
+      }
+    }
+    if (loaded.length === 0) return;
+
+    setOlderPeriods(prev =>
+      [...prev, ...loaded].sort((a, b) => (a.fiscalYear ?? 0) - (b.fiscalYear ?? 0))
+    );
+    toast({
+      title: '성공',
+      description: `과거 연도 원장 ${loaded.length}개를 추가했습니다.${files.length > slots ? ` (최대 ${MAX_COMPARISON_PERIODS}개 연도를 넘는 파일은 제외)` : ''}`,
+    });
+  };
+
+  const handleFinancialStatementFile = async (file: File | null | undefined) => {
+    if (!file) {
+      if (financialStatementFileInputRef.current) financialStatementFileInputRef.current.value = "";
+      return;
+    }
+
+    if (!isSupportedLedgerFile(file)) {
+      toast({
+        title: '오류',
+        description: '엑셀(.xlsx, .xls) 또는 CSV/텍스트(.csv, .tsv, .txt, .prn) 파일만 업로드할 수 있습니다.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setFinancialStatementFileName(file.name);
+    try {
+      const imported = await readLedgerWorkbook(file);
+      const loadedWorkbook = imported.workbook;
+
+      const allSheetNames = loadedWorkbook.SheetNames;
+      if (allSheetNames.length === 0) {
         toast({
           title: '오류',
-          description: '엑셀 파일 파싱 중 오류가 발생했습니다.',
+          description: '엑셀 파일에 시트가 없습니다.',
           variant: 'destructive',
         });
+        return;
       }
-    };
-    reader.readAsArrayBuffer(file);
+
+      // 첫 번째 시트에서 재무제표 데이터 확인
+      const firstSheet = loadedWorkbook.Sheets[allSheetNames[0]];
+      const { data: financialData, headers, orderedHeaders } = getFinancialStatementData(firstSheet);
+      
+      // 디버깅 정보
+      console.log('재무제표 업로드:', {
+        sheetName: allSheetNames[0],
+        dataLength: financialData.length,
+        headers: headers,
+        orderedHeaders: orderedHeaders,
+      });
+      
+      // 검증 완화: 파일이 업로드되면 일단 통과 (분석 화면에서 데이터 확인)
+      // 최소한 시트가 있고 데이터가 있으면 통과
+      if (financialData.length === 0 && orderedHeaders.length === 0) {
+        console.warn('재무제표 데이터를 읽을 수 없습니다. 빈 파일일 수 있습니다.');
+        // 경고만 표시하고 진행 (분석 화면에서 처리)
+      }
+
+      setFinancialStatementWorkbook(loadedWorkbook);
+      sourceFilesRef.current.financialStatement = file;
+      persistEngagementFile('financial_statement', file);
+      
+      toast({
+        title: '성공',
+        description: `재무제표 파일을 불러왔습니다.${financialData.length > 0 ? ` (${financialData.length}개 항목)` : ''}${describeLedgerImport(imported)}`,
+      });
+      
+      // 분석 화면으로 자동 전환
+      setCurrentView('financial_statement');
+    } catch (err) {
+      toast({
+        title: '오류',
+        description: `파일 파싱 중 오류가 발생했습니다: ${err instanceof Error ? err.message : String(err)}`,
+        variant: 'destructive',
+      });
+    }
   };
 
   const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
@@ -510,14 +796,14 @@ const AdvancedLedgerAnalysis = () => {
                 ref={fileInputRef}
                 onChange={(e) => handleFile(e.target.files?.[0])}
                 style={{ display: 'none' }}
-                accept=".xlsx, .xls"
+                accept={LEDGER_FILE_ACCEPT}
               />
               <Upload className="h-12 w-12 mx-auto mb-4 text-primary" />
               <p className="text-sm text-muted-foreground">
                 파일을 드래그하거나 클릭하여 업로드
               </p>
               <p className="text-xs text-muted-foreground mt-2">
-                엑셀 파일 (.xlsx, .xls)
+                엑셀 (.xlsx, .xls) 또는 CSV/텍스트 (.csv, .tsv, .txt, .prn)
               </p>
             </div>
             {fileName && (
@@ -560,14 +846,14 @@ const AdvancedLedgerAnalysis = () => {
                   ref={previousFileInputRef}
                   onChange={(e) => handlePreviousFile(e.target.files?.[0])}
                   style={{ display: 'none' }}
-                  accept=".xlsx, .xls"
+                  accept={LEDGER_FILE_ACCEPT}
                 />
                 <Upload className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
                 <p className="text-sm text-muted-foreground">
                   파일을 드래그하거나 클릭하여 업로드
                 </p>
                 <p className="text-xs text-muted-foreground mt-2">
-                  엑셀 파일 (.xlsx, .xls)
+                  엑셀 (.xlsx, .xls) 또는 CSV/텍스트 (.csv, .tsv, .txt, .prn)
                 </p>
               </div>
               {previousFileName && (
@@ -607,17 +893,29 @@ const AdvancedLedgerAnalysis = () => {
             <div>
               <CardTitle className="text-lg">업로드된 파일</CardTitle>
             </div>
+            <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => setShowMappingWizard(true)} disabled={!ledger}>
+              컬럼 매핑
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setShowAccountClassification(true)} disabled={!ledger}>
+              계정 분류
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setShowVendorAliases(true)} disabled={!ledger}>
+              거래처 통합
+            </Button>
             <Button variant="outline" size="sm" onClick={() => {
-              setWorkbook(null);
+              setLedger(null);
               setFileName('');
-              setPreviousWorkbook(null);
+              setPreviousLedger(null);
               setPreviousFileName('');
+              setOlderPeriods([]);
               setShowPreviousUpload(false);
               setShowPreviousDialog(false);
               setCurrentView('selection');
             }}>
               다른 파일 선택
             </Button>
+            </div>
           </div>
         </CardHeader>
         <CardContent>
@@ -697,72 +995,25 @@ const AdvancedLedgerAnalysis = () => {
     </div>
   );
 
-  const currentAccountData = useMemo(() => {
-    if (!workbook || !selectedAccount) return [];
-    
-    // 시트가 하나만 있고 헤더에 계정명이 있는 경우
-    if (isSingleSheetWithAccountHeader && accountNameHeader && workbook.SheetNames.length === 1) {
-      const worksheet = workbook.Sheets[workbook.SheetNames[0]];
-      const { data } = getDataFromSheet(worksheet);
-      
-      // 선택된 계정명과 일치하는 행만 필터링
-      const filteredByAccount = data.filter(row => {
-        const rowAccountName = row[accountNameHeader];
-        if (!rowAccountName) return false;
-        const trimmed = String(rowAccountName).trim();
-        return trimmed === selectedAccount;
-      });
-      
-      // 추가 필터링: 월계/누계 행 제거 (안전장치)
-      const filteredData = filteredByAccount.filter(row => {
-        const isMonthlyOrCumulative = Object.values(row).some(val => {
-          if (val === null || val === undefined) return false;
-          const str = String(val).trim();
-          const normalized = str.replace(/\s/g, '');
-          return normalized.includes('월계') || 
-                 normalized.includes('누계') ||
-                 normalized.includes('[월계]') || 
-                 normalized.includes('[누계]') ||
-                 normalized === '월계' ||
-                 normalized === '누계' ||
-                 str.includes('[ 월계 ]') ||
-                 str.includes('[ 누계 ]') ||
-                 str.includes('[월 계]') ||
-                 str.includes('[누 계]');
-        });
-        return !isMonthlyOrCumulative;
-      });
-      
-      return filteredData;
-    }
-    
-    // 기존 로직: 시트별로 계정명이 있는 경우
-    const worksheet = workbook.Sheets[selectedAccount];
-    if (!worksheet) return [];
-    const { data } = getDataFromSheet(worksheet);
-    
-    // 추가 필터링: 월계/누계 행 제거 (안전장치)
-    const filteredData = data.filter(row => {
-      const isMonthlyOrCumulative = Object.values(row).some(val => {
-        if (val === null || val === undefined) return false;
-        const str = String(val).trim();
-        const normalized = str.replace(/\s/g, '');
-        return normalized.includes('월계') || 
-               normalized.includes('누계') ||
-               normalized.includes('[월계]') || 
-               normalized.includes('[누계]') ||
-               normalized === '월계' ||
-               normalized === '누계' ||
-               str.includes('[ 월계 ]') ||
-               str.includes('[ 누계 ]') ||
-               str.includes('[월 계]') ||
-               str.includes('[누 계]');
-      });
-      return !isMonthlyOrCumulative;
-    });
-    
-    return filteredData;
-  }, [workbook, selectedAccount, isSingleSheetWithAccountHeader, accountNameHeader]);
+  // 확정된 거래처 별칭을 적용한 분석용 원장 (거래처를 쓰는 모든 분석 화면에 전달)
+  const analysisLedger = useMemo(() => applyVendorAliases(ledger, vendorAliases), [ledger, vendorAliases]);
+  const analysisPreviousLedger = useMemo(
+    () => applyVendorAliases(previousLedger, vendorAliases),
+    [previousLedger, vendorAliases]
+  );
+
+  // 선택 계정의 분개 항목 (합계행 제외)
+  const currentAccountEntries = useMemo(
+    () => (selectedAccount ? getAccountEntries(ledger, selectedAccount) : []),
+    [ledger, selectedAccount]
+  );
+
+  // 원본 행 형태 (벤포드/스마트 샘플링 등 행 기반 분석 및 상세내역 표시용)
+  const currentAccountData = useMemo(() => toLedgerRows(currentAccountEntries), [currentAccountEntries]);
+  const currentAccountColumns = useMemo(
+    () => createRecordColumns<LedgerRow>(Object.keys(currentAccountData[0] || {})),
+    [currentAccountData]
+  );
 
   const amountColumns = useMemo(() => {
     if (currentAccountData.length === 0) return [];
@@ -777,120 +1028,29 @@ const AdvancedLedgerAnalysis = () => {
 
   // 총계정원장 월별 요약 (렌더 중 반복 계산 방지 - 화면 멈춤 해결)
   const generalLedgerMonthlySummary = useMemo(() => {
-    if (currentView !== 'general_ledger' || !currentAccountData.length) return null;
-    const headers = Object.keys(currentAccountData[0] || {});
-    const dateHeader = headers.find(h => {
-      const clean = h.replace(/\s/g, '').toLowerCase();
-      return clean.includes('일자') || clean.includes('날짜') || clean.includes('date');
-    });
-    const debitHeader = headers.find(h => {
-      const clean = h.replace(/\s/g, '').toLowerCase();
-      return clean.includes('차변') || clean.includes('debit') || clean === '차변' || clean === 'debit';
-    }) || headers.find(h => {
-      const clean = h.toLowerCase();
-      return clean.includes('차변') || clean.includes('debit');
-    });
-    const creditHeader = headers.find(h => {
-      const clean = h.replace(/\s/g, '').toLowerCase();
-      return clean.includes('대변') || clean.includes('credit') || clean === '대변' || clean === 'credit';
-    }) || headers.find(h => {
-      const clean = h.toLowerCase();
-      return clean.includes('대변') || clean.includes('credit');
-    });
-
-    // 차변 헤더가 없을 때만 자동 탐지. 단, 사업자등록번호·코드 등 금액이 아닌 컬럼은 제외
-    const isNonAmountColumn = (cleanKey: string) => {
-      return cleanKey.includes('대변') || cleanKey.includes('credit') || cleanKey.includes('일자') || cleanKey.includes('날짜') ||
-        cleanKey.includes('잔액') || cleanKey.includes('balance') || cleanKey.includes('적요') || cleanKey.includes('거래처') ||
-        cleanKey.includes('코드') || cleanKey.includes('내용') ||
-        cleanKey.includes('사업자등록') || cleanKey.includes('등록번호') || cleanKey.includes('registration') || cleanKey.includes('사업자');
-    };
-    let foundDebitHeader = debitHeader;
-    if (!foundDebitHeader && currentAccountData.length > 0) {
-      const numericColumns = new Map<string, number>();
-      currentAccountData.forEach(row => {
-        Object.entries(row).forEach(([key, value]) => {
-          if (key === creditHeader || key === dateHeader) return;
-          const cleanKey = key.replace(/\s/g, '').toLowerCase();
-          if (isNonAmountColumn(cleanKey)) return;
-          const numVal = cleanAmount(value);
-          if (numVal !== 0) numericColumns.set(key, (numericColumns.get(key) || 0) + Math.abs(numVal));
-        });
-      });
-      if (numericColumns.size > 0) {
-        const sorted = Array.from(numericColumns.entries()).sort((a, b) => b[1] - a[1]);
-        foundDebitHeader = sorted[0][0];
-      }
-    }
-
-    let foundCreditHeader = creditHeader;
-    if (!foundCreditHeader && currentAccountData.length > 0) {
-      const numericColumns = new Map<string, number>();
-      currentAccountData.forEach(row => {
-        Object.entries(row).forEach(([key, value]) => {
-          if (key === foundDebitHeader || key === dateHeader) return;
-          const cleanKey = key.replace(/\s/g, '').toLowerCase();
-          if (isNonAmountColumn(cleanKey) || cleanKey.includes('차변') || cleanKey.includes('debit')) return;
-          const numVal = cleanAmount(value);
-          if (numVal !== 0) numericColumns.set(key, (numericColumns.get(key) || 0) + Math.abs(numVal));
-        });
-      });
-      if (numericColumns.size > 0) {
-        const sorted = Array.from(numericColumns.entries()).sort((a, b) => b[1] - a[1]);
-        foundCreditHeader = sorted[0][0];
-      }
+    if (currentView !== 'general_ledger' || !currentAccountEntries.length) return null;
+    const sheetInfo = ledger?.sheets.find(sheet => sheet.sheetName === currentAccountEntries[0].sheetName);
+    const mapping = sheetInfo?.mapping || {};
+    const headers = sheetInfo?.headers || [];
+
+    if (!mapping.date || (!mapping.debit && !mapping.credit)) {
+      return {
+        error: true,
+        dateHeader: mapping.date,
+        finalDebitHeader: mapping.debit,
+        finalCreditHeaderCorrected: mapping.credit,
+        headers
+      } as const;
     }
 
-    if (foundDebitHeader && String(foundDebitHeader).toLowerCase().includes('잔액')) {
-      const correct = headers.find(h => {
-        const clean = h.replace(/\s/g, '').toLowerCase();
-        return (clean.includes('차변') || clean.includes('debit')) && !clean.includes('잔액') && !clean.includes('balance');
-      });
-      if (correct) foundDebitHeader = correct;
-    }
-    if (foundCreditHeader && String(foundCreditHeader).toLowerCase().includes('잔액')) {
-      const correct = headers.find(h => {
-        const clean = h.replace(/\s/g, '').toLowerCase();
-        return (clean.includes('대변') || clean.includes('credit')) && !clean.includes('잔액') && !clean.includes('balance');
-      });
-      if (correct) foundCreditHeader = correct;
-    }
-
-    const finalDebitHeader = foundDebitHeader;
-    const finalCreditHeaderCorrected = foundCreditHeader;
-
-    if (!dateHeader || (!finalDebitHeader && !finalCreditHeaderCorrected)) {
-      return { error: true, dateHeader, finalDebitHeader, finalCreditHeaderCorrected, headers } as const;
-    }
-
-    // 날짜 정규화: Date 객체가 아니면 문자열(YYYY/MM/DD 등) 또는 Excel 시리얼 숫자로 파싱
-    const toDate = (val: any): Date | null => {
-      if (val instanceof Date && !isNaN(val.getTime())) return val;
-      if (typeof val === 'number' && val > 1 && val < 50000) {
-        const excelEpoch = new Date(Date.UTC(1899, 11, 30));
-        const d = new Date(excelEpoch.getTime() + val * 24 * 60 * 60 * 1000);
-        return !isNaN(d.getTime()) ? d : null;
-      }
-      if (typeof val === 'string' && val.trim()) {
-        const d = new Date(val.trim().replace(/\s/g, ''));
-        if (!isNaN(d.getTime())) return d;
-        const p = parseDate(val);
-        if (p) return p;
-      }
-      return null;
-    };
-
     const monthlyData = new Map<string, { debit: number; credit: number }>();
-    currentAccountData.forEach(row => {
-      const dateVal = toDate(row[dateHeader]);
-      if (!dateVal) return;
-      const monthKey = `${dateVal.getFullYear()}-${String(dateVal.getMonth() + 1).padStart(2, '0')}`;
-      const debit = finalDebitHeader ? cleanAmount(row[finalDebitHeader]) : 0;
-      const credit = finalCreditHeaderCorrected ? cleanAmount(row[finalCreditHeaderCorrected]) : 0;
+    currentAccountEntries.forEach(entry => {
+      const monthKey = getEntryMonthKey(entry);
+      if (!monthKey) return;
       if (!monthlyData.has(monthKey)) monthlyData.set(monthKey, { debit: 0, credit: 0 });
       const m = monthlyData.get(monthKey)!;
-      m.debit += debit;
-      m.credit += credit;
+      m.debit += entry.debit;
+      m.credit += entry.credit;
     });
 
     const sortedMonths = Array.from(monthlyData.entries()).sort((a, b) => a[0].localeCompare(b[0]));
@@ -899,17 +1059,31 @@ const AdvancedLedgerAnalysis = () => {
     const finalBalance = sortedMonths.reduce((sum, [, d]) => sum + (d.debit - d.credit), 0);
     return {
       error: false,
-      dateHeader,
-      finalDebitHeader,
-      finalCreditHeaderCorrected,
+      dateHeader: mapping.date,
+      finalDebitHeader: mapping.debit,
+      finalCreditHeaderCorrected: mapping.credit,
       sortedMonths,
       totalDebit,
       totalCredit,
       finalBalance,
       headers
     } as const;
-  }, [currentView, currentAccountData]);
+  }, [currentView, currentAccountEntries, ledger]);
   
+  // 업무에 저장된 계정별원장 AI 분석 결과 불러오기
+  useEffect(() => {
+    if (!activeEngagement || !selectedAccount) return;
+    let cancelled = false;
+    loadResultFromActiveEngagement<{ question: string; result: string }>('account_ai', selectedAccount).then(saved => {
+      if (cancelled || !saved) return;
+      setAnalysisQuestion(saved.question);
+      setAnalysisResult(saved.result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [activeEngagement, selectedAccount]);
+
   // Calculate cost estimation when account or question changes
   React.useEffect(() => {
     if (currentView === 'account_analysis' && currentAccountData.length > 0 && selectedAccount) {
@@ -954,11 +1128,10 @@ const AdvancedLedgerAnalysis = () => {
     
     // Account Linkage Analysis
     if (currentView === 'account_linkage') {
-      if (!workbook) return null;
+      if (!ledger) return null;
       return (
         <AccountLinkageAnalysis 
-          workbook={workbook}
-          accountNames={accountNames}
+          ledger={analysisLedger}
           onBack={() => setCurrentView('selection')}
         />
       );
@@ -966,23 +1139,72 @@ const AdvancedLedgerAnalysis = () => {
 
     // Offset Analysis
     if (currentView === 'offset_analysis') {
-      if (!workbook) return null;
+      if (!ledger) return null;
       return (
         <DualOffsetAnalysis 
-          workbook={workbook}
-          accountNames={accountNames}
+          ledger={analysisLedger}
+          onBack={() => setCurrentView('selection')}
+        />
+      );
+    }
+
+    // Circular Flow Analysis
+    if (currentView === 'circular_flow') {
+      if (!ledger) return null;
+      return (
+        <CircularFlowAnalysis
+          ledger={analysisLedger}
           onBack={() => setCurrentView('selection')}
         />
       );
     }
 
     // Duplicate Vendor Analysis
+    if (currentView === 'pivot') {
+      if (!ledger) return null;
+      return (
+        <PivotAnalysis
+          ledger={analysisLedger}
+          onBack={() => setCurrentView('selection')}
+        />
+      );
+    }
+
+    if (currentView === 'journal_entry_test') {
+      if (!ledger) return null;
+      return (
+        <JournalEntryTests
+          ledger={analysisLedger}
+          onBack={() => setCurrentView('selection')}
+        />
+      );
+    }
+
+    if (currentView === 'duplicate_payment') {
+      if (!ledger) return null;
+      return (
+        <DuplicatePaymentAnalysis
+          ledger={analysisLedger}
+          onBack={() => setCurrentView('selection')}
+        />
+      );
+    }
+
+    if (currentView === 'number_forensics') {
+      if (!ledger) return null;
+      return (
+        <NumberForensicsAnalysis
+          ledger={analysisLedger}
+          onBack={() => setCurrentView('selection')}
+        />
+      );
+    }
+
     if (currentView === 'duplicate_vendor') {
-      if (!workbook) return null;
+      if (!ledger) return null;
       return (
         <DuplicateVendorAnalysis 
-          workbook={workbook}
-          accountNames={accountNames}
+          ledger={analysisLedger}
           onBack={() => setCurrentView('selection')}
         />
       );
@@ -990,11 +1212,10 @@ const AdvancedLedgerAnalysis = () => {
 
     // Monthly Trend Analysis
     if (currentView === 'monthly_trend') {
-      if (!workbook) return null;
+      if (!ledger) return null;
       return (
         <MonthlyTrendAnalysis 
-          workbook={workbook}
-          accountNames={accountNames}
+          ledger={analysisLedger}
           onBack={() => setCurrentView('selection')}
         />
       );
@@ -1002,11 +1223,10 @@ const AdvancedLedgerAnalysis = () => {
 
     // Profit & Loss Analysis
     if (currentView === 'profit_loss') {
-      if (!workbook) return null;
+      if (!ledger) return null;
       return (
         <ProfitLossAnalysis 
-          workbook={workbook}
-          accountNames={accountNames}
+          ledger={analysisLedger}
           onBack={() => setCurrentView('selection')}
         />
       );
@@ -1014,11 +1234,10 @@ const AdvancedLedgerAnalysis = () => {
 
     // Sampling Analysis
     if (currentView === 'sampling') {
-      if (!workbook) return null;
+      if (!ledger) return null;
       return (
         <SamplingAnalysis 
-          workbook={workbook}
-          accountNames={accountNames}
+          ledger={analysisLedger}
           onBack={() => setCurrentView('selection')}
         />
       );
@@ -1026,12 +1245,14 @@ const AdvancedLedgerAnalysis = () => {
 
     // Previous Period Comparison
     if (currentView === 'previous_period') {
-      if (!workbook) return null;
+      if (!ledger) return null;
       return (
         <PreviousPeriodComparison 
-          currentWorkbook={workbook}
-          previousWorkbook={previousWorkbook}
-          currentAccounts={accountNames}
+          currentLedger={analysisLedger}
+          previousLedger={analysisPreviousLedger}
+          olderPeriods={olderPeriods}
+          onAddOlderPeriods={handleOlderPeriodFiles}
+          onRemoveOlderPeriod={handleRemoveOlderPeriod}
           onBack={() => setCurrentView('selection')}
         />
       );
@@ -1039,11 +1260,10 @@ const AdvancedLedgerAnalysis = () => {
 
     // Transaction Search
     if (currentView === 'transaction_search') {
-      if (!workbook) return null;
+      if (!ledger) return null;
       return (
         <TransactionSearch 
-          workbook={workbook}
-          accountNames={accountNames}
+          ledger={analysisLedger}
           onBack={() => setCurrentView('selection')}
         />
       );
@@ -1086,14 +1306,14 @@ const AdvancedLedgerAnalysis = () => {
                     ref={financialStatementFileInputRef}
                     onChange={(e) => handleFinancialStatementFile(e.target.files?.[0])}
                     style={{ display: 'none' }}
-                    accept=".xlsx, .xls"
+                    accept={LEDGER_FILE_ACCEPT}
                   />
                   <Upload className="h-12 w-12 mx-auto mb-4 text-primary" />
                   <p className="text-sm text-muted-foreground">
                     재무제표 파일을 드래그하거나 클릭하여 업로드
                   </p>
                   <p className="text-xs text-muted-foreground mt-2">
-                    엑셀 파일 (.xlsx, .xls) - "과목", "당기", "전기" 컬럼이 필요합니다.
+                    엑셀 (.xlsx, .xls) 또는 CSV/텍스트 (.csv, .tsv, .txt, .prn) - "과목", "당기", "전기" 컬럼이 필요합니다.
                   </p>
                 </div>
                 {financialStatementFileName && (
@@ -1119,22 +1339,23 @@ const AdvancedLedgerAnalysis = () => {
             setCurrentView('selection');
           }}
           getFinancialStatementData={getFinancialStatementData}
-          ledgerWorkbook={workbook}
-          previousLedgerWorkbook={previousWorkbook}
-          getDataFromSheet={getDataFromSheet}
+          ledger={analysisLedger}
+          previousLedger={analysisPreviousLedger}
         />
       );
     }
 
-    // Benford Analysis (Fully Implemented)
-    if (currentView === 'benford') {
+    // Benford Analysis / Anomaly Detection (계정 선택 화면 공유)
+    if (currentView === 'benford' || currentView === 'anomaly_detection') {
+      const HeaderIcon = currentView === 'benford' ? BarChart3 : AlertTriangle;
+      const accountMapping = ledger?.sheets.find(sheet => sheet.sheetName === currentAccountEntries[0]?.sheetName)?.mapping || {};
       return (
         <div className="space-y-6">
           <Card>
             <CardHeader>
               <div className="flex items-center justify-between">
                 <div className="flex items-center gap-2">
-                  <BarChart3 className="h-5 w-5 text-primary" />
+                  <HeaderIcon className="h-5 w-5 text-primary" />
                   <CardTitle>{currentOption?.title}</CardTitle>
                 </div>
                 <Button variant="ghost" onClick={() => setCurrentView('selection')}>
@@ -1189,51 +1410,69 @@ const AdvancedLedgerAnalysis = () => {
             </CardContent>
           </Card>
 
-          <BenfordAnalysis 
-            accountData={currentAccountData}
-            accountName={selectedAccount}
-            amountColumns={(() => {
-              // 벤포드 분석에서는 계정 유형과 관계없이 차변과 대변 모두 포함
-              if (currentAccountData.length === 0) return [];
-              const headers = Object.keys(currentAccountData[0] || {});
-              
-              // 차변/대변 헤더 찾기
-              const dateHeader = headers.find(h => 
-                h.includes('일자') || h.includes('날짜') || h.includes('date')
-              );
-              const { debitHeader, creditHeader } = findDebitCreditHeaders(headers, currentAccountData, dateHeader);
-              
-              // 모든 숫자 컬럼을 포함 (차변, 대변 모두)
-              // 계정 유형에 따른 필터링 없이 모든 숫자 컬럼 포함
-              const filteredHeaders = headers.filter(h => {
-                // 일자, 날짜, 적요, 거래처 등은 제외
-                const cleanHeader = h.replace(/\s/g, '').toLowerCase();
-                if (cleanHeader.includes('일자') || cleanHeader.includes('날짜') || 
-                    cleanHeader.includes('date') || cleanHeader.includes('적요') ||
-                    cleanHeader.includes('거래처') || cleanHeader.includes('vendor') ||
-                    cleanHeader.includes('description') || cleanHeader.includes('내용') ||
-                    cleanHeader.includes('비고') || cleanHeader.includes('remark')) {
-                  return false;
-                }
-                // 숫자 컬럼만 포함 (차변, 대변 모두 포함)
-                return currentAccountData.some(row => 
-                  typeof row[h] === 'number' || 
-                  (typeof row[h] === 'string' && !isNaN(parseFloat(String(row[h]).replace(/,/g, ''))))
+          {currentView === 'anomaly_detection' ? (
+            currentAccountData.length > 0 && (
+              <AnomalyDetection
+                key={selectedAccount}
+                accountData={currentAccountData}
+                accountName={selectedAccount}
+                ledger={analysisLedger}
+                amountColumns={(() => {
+                  const mapped = [accountMapping.debit, accountMapping.credit].filter((h): h is string => !!h);
+                  return mapped.length > 0 ? mapped : amountColumns;
+                })()}
+                dateColumns={accountMapping.date ? [accountMapping.date] : []}
+                vendorColumns={accountMapping.vendor ? [accountMapping.vendor] : []}
+              />
+            )
+          ) : (
+            <BenfordAnalysis 
+              accountData={currentAccountData}
+              accountName={selectedAccount}
+              ledger={analysisLedger}
+              amountColumns={(() => {
+                // 벤포드 분석에서는 계정 유형과 관계없이 차변과 대변 모두 포함
+                if (currentAccountData.length === 0) return [];
+                const headers = Object.keys(currentAccountData[0] || {});
+                
+                // 차변/대변 헤더 찾기
+                const dateHeader = headers.find(h => 
+                  h.includes('일자') || h.includes('날짜') || h.includes('date')
                 );
-              });
-              
-              // 차변/대변 헤더가 있으면 명시적으로 추가 (값이 없어도 포함)
-              const resultSet = new Set(filteredHeaders);
-              if (debitHeader && !resultSet.has(debitHeader)) {
-                resultSet.add(debitHeader);
-              }
-              if (creditHeader && !resultSet.has(creditHeader)) {
-                resultSet.add(creditHeader);
-              }
-              
-              return Array.from(resultSet);
-            })()}
-          />
+                const { debitHeader, creditHeader } = findDebitCreditHeaders(headers, currentAccountData, dateHeader);
+                
+                // 모든 숫자 컬럼을 포함 (차변, 대변 모두)
+                // 계정 유형에 따른 필터링 없이 모든 숫자 컬럼 포함
+                const filteredHeaders = headers.filter(h => {
+                  // 일자, 날짜, 적요, 거래처 등은 제외
+                  const cleanHeader = h.replace(/\s/g, '').toLowerCase();
+                  if (cleanHeader.includes('일자') || cleanHeader.includes('날짜') || 
+                      cleanHeader.includes('date') || cleanHeader.includes('적요') ||
+                      cleanHeader.includes('거래처') || cleanHeader.includes('vendor') ||
+                      cleanHeader.includes('description') || cleanHeader.includes('내용') ||
+                      cleanHeader.includes('비고') || cleanHeader.includes('remark')) {
+                    return false;
+                  }
+                  // 숫자 컬럼만 포함 (차변, 대변 모두 포함)
+                  return currentAccountData.some(row => 
+                    typeof row[h] === 'number' || 
+                    (typeof row[h] === 'string' && !isNaN(parseFloat(String(row[h]).replace(/,/g, ''))))
+                  );
+                });
+                
+                // 차변/대변 헤더가 있으면 명시적으로 추가 (값이 없어도 포함)
+                const resultSet = new Set(filteredHeaders);
+                if (debitHeader && !resultSet.has(debitHeader)) {
+                  resultSet.add(debitHeader);
+                }
+                if (creditHeader && !resultSet.has(creditHeader)) {
+                  resultSet.add(creditHeader);
+                }
+                
+                return Array.from(resultSet);
+              })()}
+            />
+          )}
         </div>
       );
     }
@@ -1305,132 +1544,10 @@ const AdvancedLedgerAnalysis = () => {
                   onClick={() => {
                     const wb = XLSX.utils.book_new();
                     
-                    // 월별 차변/대변 요약 데이터 준비 (화면과 동일한 로직 사용)
-                    const headers = Object.keys(currentAccountData[0] || {});
-                    const dateHeader = headers.find(h => {
-                      const clean = h.replace(/\s/g, '').toLowerCase();
-                      return clean.includes('일자') || clean.includes('날짜') || clean.includes('date');
-                    });
-                    const debitHeader = headers.find(h => {
-                      const clean = h.replace(/\s/g, '').toLowerCase();
-                      return clean.includes('차변') || clean.includes('debit') || clean === '차변' || clean === 'debit';
-                    }) || headers.find(h => {
-                      const clean = h.toLowerCase();
-                      return clean.includes('차변') || clean.includes('debit');
-                    });
-                    const creditHeader = headers.find(h => {
-                      const clean = h.replace(/\s/g, '').toLowerCase();
-                      return clean.includes('대변') || clean.includes('credit') || clean === '대변' || clean === 'credit';
-                    }) || headers.find(h => {
-                      const clean = h.toLowerCase();
-                      return clean.includes('대변') || clean.includes('credit');
-                    });
-                    
-                    // 금액이 아닌 컬럼 제외 (사업자등록번호·코드 등이 차변/대변으로 선택되지 않도록)
-                    const isNonAmountCol = (cleanKey: string) =>
-                      cleanKey.includes('대변') || cleanKey.includes('credit') || cleanKey.includes('일자') || cleanKey.includes('날짜') ||
-                      cleanKey.includes('잔액') || cleanKey.includes('balance') || cleanKey.includes('적요') || cleanKey.includes('거래처') ||
-                      cleanKey.includes('코드') || cleanKey.includes('내용') ||
-                      cleanKey.includes('사업자등록') || cleanKey.includes('등록번호') || cleanKey.includes('registration') || cleanKey.includes('사업자');
-                    // 차변 헤더 자동 탐지 (화면과 동일)
-                    let foundDebitHeader = debitHeader;
-                    if (!foundDebitHeader && currentAccountData.length > 0) {
-                      const numericColumns = new Map<string, number>();
-                      currentAccountData.forEach(row => {
-                        Object.entries(row).forEach(([key, value]) => {
-                          if (key === creditHeader || key === dateHeader) return;
-                          const cleanKey = key.replace(/\s/g, '').toLowerCase();
-                          if (isNonAmountCol(cleanKey)) return;
-                          const numVal = cleanAmount(value);
-                          if (numVal !== 0) numericColumns.set(key, (numericColumns.get(key) || 0) + Math.abs(numVal));
-                        });
-                      });
-                      if (numericColumns.size > 0) {
-                        const sortedColumns = Array.from(numericColumns.entries()).sort((a, b) => b[1] - a[1]);
-                        foundDebitHeader = sortedColumns[0][0];
-                      }
-                    }
-                    // 대변 헤더 자동 탐지 (화면과 동일)
-                    let foundCreditHeader = creditHeader;
-                    if (!foundCreditHeader && currentAccountData.length > 0) {
-                      const numericColumns = new Map<string, number>();
-                      currentAccountData.forEach(row => {
-                        Object.entries(row).forEach(([key, value]) => {
-                          if (key === foundDebitHeader || key === dateHeader) return;
-                          const cleanKey = key.replace(/\s/g, '').toLowerCase();
-                          if (isNonAmountCol(cleanKey) || cleanKey.includes('차변') || cleanKey.includes('debit')) return;
-                          const numVal = cleanAmount(value);
-                          if (numVal !== 0) numericColumns.set(key, (numericColumns.get(key) || 0) + Math.abs(numVal));
-                        });
-                      });
-                      if (numericColumns.size > 0) {
-                        const sortedColumns = Array.from(numericColumns.entries()).sort((a, b) => b[1] - a[1]);
-                        foundCreditHeader = sortedColumns[0][0];
-                      }
-                    }
-                    
-                    // 잔액 컬럼이 차변/대변으로 잘못 인식되지 않았는지 확인
-                    if (foundDebitHeader && foundDebitHeader.toLowerCase().includes('잔액')) {
-                      const correctDebitHeader = headers.find(h => {
-                        const clean = h.replace(/\s/g, '').toLowerCase();
-                        return (clean.includes('차변') || clean.includes('debit')) && 
-                               !clean.includes('잔액') && !clean.includes('balance');
-                      });
-                      if (correctDebitHeader) {
-                        foundDebitHeader = correctDebitHeader;
-                      }
-                    }
-                    
-                    if (foundCreditHeader && foundCreditHeader.toLowerCase().includes('잔액')) {
-                      const correctCreditHeader = headers.find(h => {
-                        const clean = h.replace(/\s/g, '').toLowerCase();
-                        return (clean.includes('대변') || clean.includes('credit')) && 
-                               !clean.includes('잔액') && !clean.includes('balance');
-                      });
-                      if (correctCreditHeader) {
-                        foundCreditHeader = correctCreditHeader;
-                      }
-                    }
-                    
-                    if (dateHeader && (foundDebitHeader || foundCreditHeader)) {
-                      const toDateDownload = (val: any): Date | null => {
-                        if (val instanceof Date && !isNaN(val.getTime())) return val;
-                        if (typeof val === 'number' && val > 1 && val < 50000) {
-                          const excelEpoch = new Date(Date.UTC(1899, 11, 30));
-                          const d = new Date(excelEpoch.getTime() + val * 24 * 60 * 60 * 1000);
-                          return !isNaN(d.getTime()) ? d : null;
-                        }
-                        if (typeof val === 'string' && val.trim()) {
-                          const d = new Date(val.trim().replace(/\s/g, ''));
-                          if (!isNaN(d.getTime())) return d;
-                          const p = parseDate(val);
-                          if (p) return p;
-                        }
-                        return null;
-                      };
-                      const monthlyDataMap = new Map<string, { debit: number; credit: number }>();
-                      
-                      currentAccountData.forEach(row => {
-                        const dateVal = toDateDownload(row[dateHeader]);
-                        if (!dateVal) return;
-                        
-                        const monthKey = `${dateVal.getFullYear()}-${String(dateVal.getMonth() + 1).padStart(2, '0')}`;
-                        const debit = foundDebitHeader ? cleanAmount(row[foundDebitHeader]) : 0;
-                        const credit = foundCreditHeader ? cleanAmount(row[foundCreditHeader]) : 0;
-                        
-                        if (!monthlyDataMap.has(monthKey)) {
-                          monthlyDataMap.set(monthKey, { debit: 0, credit: 0 });
-                        }
-                        
-                        const monthly = monthlyDataMap.get(monthKey)!;
-                        monthly.debit += debit;
-                        monthly.credit += credit;
-                      });
-                      
-                      const sortedMonths = Array.from(monthlyDataMap.entries()).sort((a, b) => a[0].localeCompare(b[0]));
+                    // 월별 차변/대변 요약 데이터 준비 (화면과 동일한 통합 원장 집계 사용)
+                    if (generalLedgerMonthlySummary && !generalLedgerMonthlySummary.error) {
                       let balance = 0;
-                      
-                      const monthlySummary = sortedMonths.map(([month, data]) => {
+                      const monthlySummary = generalLedgerMonthlySummary.sortedMonths.map(([month, data]) => {
                         balance += data.debit - data.credit;
                         return {
                           월: month,
@@ -1441,14 +1558,11 @@ const AdvancedLedgerAnalysis = () => {
                       });
                       
                       // 합계 행 추가
-                      const totalDebit = sortedMonths.reduce((sum, [, data]) => sum + data.debit, 0);
-                      const totalCredit = sortedMonths.reduce((sum, [, data]) => sum + data.credit, 0);
-                      const finalBalance = sortedMonths.reduce((sum, [, data]) => sum + (data.debit - data.credit), 0);
                       monthlySummary.push({
                         월: '합계',
-                        차변: totalDebit,
-                        대변: totalCredit,
-                        잔액: finalBalance
+                        차변: generalLedgerMonthlySummary.totalDebit,
+                        대변: generalLedgerMonthlySummary.totalCredit,
+                        잔액: generalLedgerMonthlySummary.finalBalance
                       });
                       
                       const wsMonthly = XLSX.utils.json_to_sheet(monthlySummary);
@@ -1534,55 +1648,19 @@ const AdvancedLedgerAnalysis = () => {
                   </CardContent>
                 </Card>
                 
-                {/* 상세 거래 내역 (최근 100건) */}
+                {/* 상세 거래 내역 */}
                 <Card>
                   <CardHeader>
-                    <CardTitle className="text-base">상세 거래 내역 (최근 100건)</CardTitle>
+                    <CardTitle className="text-base">상세 거래 내역 ({currentAccountData.length.toLocaleString()}건)</CardTitle>
                   </CardHeader>
                   <CardContent>
-                    <div className="rounded-md border max-h-96 overflow-y-auto">
-                      <Table>
-                        <TableHeader>
-                          <TableRow>
-                            {Object.keys(currentAccountData[0] || {}).map(key => (
-                              <TableHead key={key}>{key}</TableHead>
-                            ))}
-                          </TableRow>
-                        </TableHeader>
-                        <TableBody>
-                          {currentAccountData.slice(0, 100).map((row, idx) => {
-                            const headers = Object.keys(currentAccountData[0] || {});
-                            return (
-                            <TableRow key={idx}>
-                                {headers.map((key, j) => {
-                                  const val = row[key];
-                                  // 숫자 값인 경우 (차변, 대변, 금액 등)
-                                  const numVal = cleanAmount(val);
-                                  const isAmountColumn = key.includes('차변') || 
-                                                        key.includes('대변') || 
-                                                        key.includes('금액') ||
-                                                        key.toLowerCase().includes('debit') ||
-                                                        key.toLowerCase().includes('credit') ||
-                                                        key.toLowerCase().includes('amount');
-                                  
-                                  return (
-                                    <TableCell key={j} className={`text-sm ${isAmountColumn ? 'text-right' : ''}`}>
-                                      {val instanceof Date 
-                                        ? val.toLocaleDateString() 
-                                        : isAmountColumn && numVal !== 0
-                                        ? numVal.toLocaleString()
-                                        : val !== null && val !== undefined
-                                        ? String(val)
-                                        : ''}
-                                </TableCell>
-                                  );
-                                })}
-                            </TableRow>
-                            );
-                          })}
-                        </TableBody>
-                      </Table>
-                    </div>
+                    <DataGrid
+                      rows={currentAccountData}
+                      columns={currentAccountColumns}
+                      getRowKey={getIndexRowKey}
+                      height={400}
+                      selectable
+                    />
                   </CardContent>
                 </Card>
               </div>
@@ -1695,8 +1773,8 @@ const AdvancedLedgerAnalysis = () => {
               onClick={async () => {
                 if (!hasApiKey()) {
                   toast({
-                    title: 'API Key 필요',
-                    description: '먼저 Google Gemini API Key를 설정해주세요.',
+                    title: 'AI 설정 필요',
+                    description: '먼저 Google Gemini API Key 또는 OpenAI 호환 엔드포인트를 설정해주세요.',
                     variant: 'destructive',
                   });
                   setShowApiKeyDialog(true);
@@ -1853,6 +1931,7 @@ ${JSON.stringify(sampledData, null, 2)}
                   const analysis = await analyzeWithFlash(prompt);
                   
                   setAnalysisResult(analysis);
+                  saveResultToActiveEngagement('account_ai', selectedAccount, { question: analysisQuestion, result: analysis });
                   
                   // 7. 사용 이력 저장
                   const actualCost = estimateCost(estimatedTokens, 2000, true);
@@ -1864,7 +1943,7 @@ ${JSON.stringify(sampledData, null, 2)}
                     samplingRatio: (sampledData.length / totalCount) * 100,
                     tokensUsed: estimatedTokens + 2000, // 입력 + 출력 추정
                     costKRW: actualCost,
-                    model: 'gemini-2.0-flash',
+                    model: getActiveModelName('flash'),
                   });
                   refreshUsageSummary();
                   
@@ -2097,6 +2176,22 @@ ${JSON.stringify(sampledData, null, 2)}
               <h1 className="text-2xl font-bold">더존 계정별원장 분석</h1>
             </div>
             <div className="flex items-center gap-2">
+              {/* 감사 업무 */}
+              <Button
+                variant={activeEngagement ? 'secondary' : 'outline'}
+                size="sm"
+                onClick={() => setShowEngagementDialog(true)}
+                disabled={isRestoringEngagement}
+                className="flex items-center gap-2"
+              >
+                {isRestoringEngagement ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Briefcase className="h-4 w-4" />
+                )}
+                {activeEngagement ? `${activeEngagement.client_name} · ${activeEngagement.fiscal_year}` : '감사 업무'}
+              </Button>
+
               {/* 누적 비용 표시 */}
               {usageSummary.totalAnalyses > 0 && (
                 <Button
@@ -2116,21 +2211,18 @@ ${JSON.stringify(sampledData, null, 2)}
               <Button
                 variant={apiKeyExists ? "outline" : "default"}
                 size="sm"
-                onClick={() => {
-                  setApiKeyInput(getApiKey() || '');
-                  setShowApiKeyDialog(true);
-                }}
+                onClick={() => setShowApiKeyDialog(true)}
                 className="flex items-center gap-2"
               >
                 {apiKeyExists ? (
                   <>
                     <Key className="h-4 w-4" />
-                    API Key 설정됨
+                    {getLlmSettings().provider === 'openai_compatible' ? 'AI 서버 설정됨' : 'API Key 설정됨'}
                   </>
                 ) : (
                   <>
                     <Settings className="h-4 w-4" />
-                    API Key 설정
+                    AI 설정
                   </>
                 )}
               </Button>
@@ -2140,7 +2232,7 @@ ${JSON.stringify(sampledData, null, 2)}
       </header>
 
       <main className="container mx-auto px-4 py-8">
-        {(!workbook || showPreviousDialog || showPreviousUpload
+        {(!ledger || showPreviousDialog || showPreviousUpload
           ? renderUploadScreen()
           : currentView === 'selection'
             ? renderSelectionScreen()
@@ -2300,105 +2392,66 @@ ${JSON.stringify(sampledData, null, 2)}
         </DialogContent>
       </Dialog>
 
-      {/* API Key 설정 Dialog */}
-      <Dialog open={showApiKeyDialog} onOpenChange={setShowApiKeyDialog}>
-        <DialogContent className="sm:max-w-[600px]">
-          <DialogHeader>
-            <DialogTitle className="flex items-center gap-2">
-              <Key className="h-5 w-5" />
-              Google Gemini API Key 설정
-            </DialogTitle>
-          </DialogHeader>
-          <div className="space-y-4">
-            <div className="rounded-lg bg-blue-50 dark:bg-blue-950 p-4 border border-blue-200 dark:border-blue-800">
-              <div className="flex items-start gap-2">
-                <Info className="h-5 w-5 text-blue-600 dark:text-blue-400 mt-0.5" />
-                <div className="space-y-2 text-sm text-blue-900 dark:text-blue-100">
-                  <p className="font-semibold">🔒 데이터 보안 안내</p>
-                  <p>API Key를 입력하시면 귀하의 브라우저에서 직접 Google Gemini API에 연결됩니다.</p>
-                  <p>회계 데이터는 외부 서버를 거치지 않고, 브라우저 → Google AI로 직접 전송됩니다.</p>
-                  <p className="text-xs text-blue-700 dark:text-blue-300">• API Key는 브라우저 localStorage에 안전하게 저장됩니다.</p>
-                  <p className="text-xs text-blue-700 dark:text-blue-300">• 스마트 샘플링으로 전체 데이터의 1-20%만 전송됩니다.</p>
-                </div>
-              </div>
-            </div>
-            
-            <div className="space-y-2">
-              <Label htmlFor="apiKey">API Key</Label>
-              <Input
-                id="apiKey"
-                type="password"
-                placeholder="Google Gemini API Key를 입력하세요"
-                value={apiKeyInput}
-                onChange={(e) => setApiKeyInput(e.target.value)}
-              />
-              <p className="text-xs text-muted-foreground">
-                API Key 발급: <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noopener noreferrer" className="text-primary underline">Google AI Studio</a>
-              </p>
-            </div>
-            
-            {apiKeyExists && (
-              <div className="rounded-lg bg-green-50 dark:bg-green-950 p-3 border border-green-200 dark:border-green-800">
-                <div className="flex items-center gap-2 text-sm text-green-900 dark:text-green-100">
-                  <CheckCircle2 className="h-4 w-4 text-green-600 dark:text-green-400" />
-                  <span>API Key가 이미 설정되어 있습니다.</span>
-                </div>
-              </div>
-            )}
-            
-            <div className="flex gap-2">
-              {apiKeyExists && (
-                <Button
-                  variant="destructive"
-                  onClick={() => {
-                    deleteApiKey();
-                    setApiKeyInput('');
-                    setApiKeyExists(false);
-                    toast({
-                      title: '성공',
-                      description: 'API Key가 삭제되었습니다.',
-                    });
-                  }}
-                  className="flex items-center gap-2"
-                >
-                  <Trash2 className="h-4 w-4" />
-                  삭제
-                </Button>
-              )}
-              <Button
-                variant="outline"
-                onClick={() => setShowApiKeyDialog(false)}
-                className="flex-1"
-              >
-                취소
-              </Button>
-              <Button
-                onClick={() => {
-                  if (!apiKeyInput.trim()) {
-                    toast({
-                      title: '오류',
-                      description: 'API Key를 입력해주세요.',
-                      variant: 'destructive',
-                    });
-                    return;
-                  }
-                  saveApiKey(apiKeyInput.trim());
-                  setApiKeyExists(true);
-                  setShowApiKeyDialog(false);
-                  toast({
-                    title: '성공',
-                    description: 'API Key가 저장되었습니다. 이제 AI 분석을 사용할 수 있습니다.',
-                  });
-                }}
-                className="flex-1"
-                disabled={!apiKeyInput.trim()}
-              >
-                저장
-              </Button>
-            </div>
-          </div>
-        </DialogContent>
-      </Dialog>
+      {/* AI 설정 Dialog */}
+      <AiSettingsDialog
+        open={showApiKeyDialog}
+        onOpenChange={setShowApiKeyDialog}
+        onSaved={() => setApiKeyExists(hasApiKey())}
+      />
+
+      {/* 감사 업무 Dialog */}
+      <EngagementDialog
+        open={showEngagementDialog}
+        onOpenChange={setShowEngagementDialog}
+        activeEngagementId={activeEngagement?.id ?? null}
+        onOpen={(engagement) => {
+          setShowEngagementDialog(false);
+          restoreEngagement(engagement);
+        }}
+        onCreate={handleEngagementCreated}
+        onDelete={(engagementId) => {
+          if (activeEngagement?.id === engagementId) handleCloseEngagement();
+        }}
+        onClose={handleCloseEngagement}
+      />
+
+      {/* 원장 파싱 진행률 */}
+      {parseStatus && (
+        <LedgerParseProgress
+          fileName={parseStatus.fileName}
+          progress={parseStatus.progress}
+          onCancel={handleCancelParse}
+        />
+      )}
+
+      {/* 컬럼 매핑 확인 Dialog */}
+      {ledger && (
+        <ColumnMappingWizard
+          open={showMappingWizard}
+          onOpenChange={handleMappingWizardOpenChange}
+          ledger={ledger}
+          onApply={handleApplyMappings}
+        />
+      )}
+
+      {/* 계정 분류 확인 Dialog */}
+      {ledger && (
+        <AccountClassificationDialog
+          open={showAccountClassification}
+          onOpenChange={setShowAccountClassification}
+          ledger={ledger}
+        />
+      )}
+
+      {/* 거래처 명칭 통합 Dialog */}
+      {ledger && (
+        <VendorAliasDialog
+          open={showVendorAliases}
+          onOpenChange={setShowVendorAliases}
+          ledger={ledger}
+          onAliasesChange={() => setVendorAliases(getVendorAliases())}
+        />
+      )}
 
       {/* 전기 업로드 여부 확인 Dialog - 전역으로 이동 */}
       {showPreviousDialog && (
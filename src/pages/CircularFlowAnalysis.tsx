@@ -0,0 +1,503 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import * as XLSX from 'xlsx';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { DataGrid } from '@/components/DataGrid';
+import { createRecordColumns, getIndexRowKey } from '@/lib/dataGridColumns';
+import { useToast } from '@/hooks/use-toast';
+import { ArrowLeft, Download, Loader2, Repeat } from 'lucide-react';
+import { toLedgerRows, type NormalizedLedger } from '@/lib/ledgerModel';
+import type { LedgerRow } from '@/lib/excelHelpers';
+import { loadResultFromActiveEngagement, saveResultToActiveEngagement } from '@/lib/engagementStore';
+import {
+  DEFAULT_CIRCULAR_FLOW_OPTIONS,
+  FLOW_NODE_MODE_LABELS,
+  detectCircularFlows,
+  type CircularFlow,
+  type CircularFlowOptions,
+  type CircularFlowResult,
+  type FlowLeg,
+  type FlowNodeMode,
+} from '@/lib/circularFlows';
+
+interface CircularFlowAnalysisProps {
+  ledger: NormalizedLedger;
+  onBack: () => void;
+}
+
+interface SavedCircularFlowRun {
+  options: CircularFlowOptions;
+  result: CircularFlowResult;
+}
+
+const MAX_DISPLAY_ROWS = 100;
+const LEG_COUNT_OPTIONS = [2, 3, 4, 5];
+
+const formatPath = (flow: CircularFlow): string => [...flow.nodes, flow.nodes[0]].join(' → ');
+
+const formatLegSide = (node: string, accounts: string[]): string =>
+  accounts.length === 1 && accounts[0] === node ? node : `${node} (${accounts.join(', ')})`;
+
+export const CircularFlowAnalysis: React.FC<CircularFlowAnalysisProps> = ({
+  ledger,
+  onBack,
+}) => {
+  const { toast } = useToast();
+  const [nodeMode, setNodeMode] = useState<FlowNodeMode>(DEFAULT_CIRCULAR_FLOW_OPTIONS.nodeMode);
+  const [minAmount, setMinAmount] = useState<number>(DEFAULT_CIRCULAR_FLOW_OPTIONS.minAmount);
+  const [windowDays, setWindowDays] = useState<number>(DEFAULT_CIRCULAR_FLOW_OPTIONS.windowDays);
+  const [tolerancePercent, setTolerancePercent] = useState<number>(DEFAULT_CIRCULAR_FLOW_OPTIONS.amountTolerance * 100);
+  const [minLegs, setMinLegs] = useState<number>(DEFAULT_CIRCULAR_FLOW_OPTIONS.minLegs);
+  const [maxLegs, setMaxLegs] = useState<number>(DEFAULT_CIRCULAR_FLOW_OPTIONS.maxLegs);
+  const [result, setResult] = useState<CircularFlowResult | null>(null);
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+  const [selectedFlow, setSelectedFlow] = useState<CircularFlow | null>(null);
+  const [selectedLeg, setSelectedLeg] = useState<FlowLeg | null>(null);
+
+  // 감사 업무에 저장된 마지막 실행 결과와 조건 복원
+  useEffect(() => {
+    let cancelled = false;
+    loadResultFromActiveEngagement<SavedCircularFlowRun>('circular_flows').then(saved => {
+      if (cancelled || !saved) return;
+      setNodeMode(saved.options.nodeMode);
+      setMinAmount(saved.options.minAmount);
+      setWindowDays(saved.options.windowDays);
+      setTolerancePercent(saved.options.amountTolerance * 100);
+      setMinLegs(saved.options.minLegs);
+      setMaxLegs(saved.options.maxLegs);
+      setResult(saved.result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // 선택한 구간의 원장 행 (구간을 고르지 않으면 경로 전체)
+  const detailRows = useMemo<LedgerRow[]>(() => {
+    if (!selectedFlow) return [];
+    const legs = selectedLeg ? [selectedLeg] : selectedFlow.legs;
+    return toLedgerRows(legs.flatMap(leg => leg.entries));
+  }, [selectedFlow, selectedLeg]);
+
+  const detailColumns = useMemo(
+    () => createRecordColumns<LedgerRow>(Object.keys(detailRows[0] || {})),
+    [detailRows]
+  );
+
+  const handleRun = () => {
+    if (minLegs > maxLegs) {
+      toast({
+        title: '오류',
+        description: '최소 구간 수가 최대 구간 수보다 클 수 없습니다.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    setIsRunning(true);
+    // 대용량 원장에서도 로딩 표시가 먼저 그려지도록 다음 틱에 실행
+    setTimeout(() => {
+      try {
+        const options: CircularFlowOptions = {
+          nodeMode,
+          minAmount,
+          windowDays,
+          amountTolerance: tolerancePercent / 100,
+          minLegs,
+          maxLegs,
+        };
+        const next = detectCircularFlows(ledger, options);
+        setResult(next);
+        saveResultToActiveEngagement('circular_flows', '', { options, result: next });
+        toast({
+          title: '분석 완료',
+          description: `순환 경로 ${next.flows.length.toLocaleString()}건을 찾았습니다.`,
+        });
+      } catch (error) {
+        toast({
+          title: '오류',
+          description: error instanceof Error ? error.message : String(error),
+          variant: 'destructive',
+        });
+      } finally {
+        setIsRunning(false);
+      }
+    }, 0);
+  };
+
+  const openFlow = (flow: CircularFlow) => {
+    setSelectedFlow(flow);
+    setSelectedLeg(null);
+  };
+
+  const handleExport = () => {
+    if (!result) return;
+    try {
+      const wb = XLSX.utils.book_new();
+      const today = new Date().toISOString().split('T')[0];
+
+      const summaryRows: (string | number)[][] = [
+        ['순환 거래 탐지'],
+        [],
+        ['항목', '값'],
+        ['작성일', today],
+        ['거래 상대 단위', FLOW_NODE_MODE_LABELS[nodeMode]],
+        ['최소 구간 금액', minAmount],
+        ['기간 (일)', windowDays],
+        ['금액 허용 오차 (%)', tolerancePercent],
+        ['구간 수', `${minLegs} ~ ${maxLegs}`],
+        [],
+        ['전표 수', result.voucherCount],
+        ['자금 흐름 구간 수', result.legCount],
+        ['거래 상대 수', result.nodeCount],
+        ['전표번호 없는 라인 수 (제외)', result.unnumberedLineCount],
+        ['순환 경로 수', result.flows.length],
+        ['탐색 한도 도달', result.truncated ? '예 (일부 경로 누락 가능)' : '아니오'],
+        [],
+        ['구간 = 한 전표 안에서 대변 쪽 거래 상대 → 차변 쪽 거래 상대, 금액은 전표 합계 기준 배분액'],
+      ];
+      const wsSummary = XLSX.utils.aoa_to_sheet(summaryRows);
+      wsSummary['!cols'] = [{ wch: 30 }, { wch: 24 }];
+      XLSX.utils.book_append_sheet(wb, wsSummary, '개요');
+
+      const flowRows = result.flows.map(flow => ({
+        순환ID: flow.id,
+        경로: formatPath(flow),
+        구간수: flow.legs.length,
+        시작일자: flow.firstDate,
+        종료일자: flow.lastDate,
+        소요일수: flow.spanDays,
+        최소구간금액: Math.round(flow.minLegAmount),
+        최대구간금액: Math.round(flow.maxLegAmount),
+        구간금액합계: Math.round(flow.totalAmount),
+        관련계정: flow.accounts.join(', '),
+        검토결과: '',
+        검토자: '',
+      }));
+      XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(flowRows), '순환경로');
+
+      const legRows = result.flows.flatMap(flow =>
+        flow.legs.map((leg, index) => ({
+          순환ID: flow.id,
+          구간: index + 1,
+          일자: leg.dateKey,
+          전표: leg.voucherKey,
+          보낸쪽: leg.from,
+          보낸쪽계정: leg.fromAccounts.join(', '),
+          받은쪽: leg.to,
+          받은쪽계정: leg.toAccounts.join(', '),
+          금액: Math.round(leg.amount),
+        }))
+      );
+      if (legRows.length > 0) {
+        XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(legRows), '순환구간');
+      }
+
+      const ledgerRows = result.flows.flatMap(flow =>
+        flow.legs.flatMap((leg, index) =>
+          toLedgerRows(leg.entries).map(row => ({ 순환ID: flow.id, 구간: index + 1, ...row }))
+        )
+      );
+      if (ledgerRows.length > 0) {
+        XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(ledgerRows), '구간원장');
+      }
+
+      XLSX.writeFile(wb, `순환거래탐지_${today}.xlsx`);
+      toast({
+        title: '성공',
+        description: '순환 거래 탐지 결과를 다운로드했습니다.',
+      });
+    } catch (error) {
+      toast({
+        title: '오류',
+        description: `엑셀 다운로드 중 오류가 발생했습니다: ${error instanceof Error ? error.message : String(error)}`,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Repeat className="h-5 w-5 text-primary" />
+                순환 거래 탐지
+              </CardTitle>
+              <CardDescription className="mt-2">
+                전표마다 대변 쪽 거래 상대에서 차변 쪽 거래 상대로 자금이 흐른 것으로 보고, 기간 안에 비슷한 금액이 A → B → C → A처럼 되돌아온 경로를 찾습니다.
+              </CardDescription>
+            </div>
+            <Button variant="ghost" onClick={onBack}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              뒤로가기
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+            <div className="space-y-1 col-span-2">
+              <Label className="text-xs">거래 상대 단위</Label>
+              <Select value={nodeMode} onValueChange={(value) => setNodeMode(value as FlowNodeMode)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(FLOW_NODE_MODE_LABELS) as FlowNodeMode[]).map(key => (
+                    <SelectItem key={key} value={key}>{FLOW_NODE_MODE_LABELS[key]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">최소 구간 금액 (원)</Label>
+              <Input
+                type="number"
+                value={minAmount}
+                onChange={(e) => setMinAmount(Number(e.target.value) || 0)}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">기간 (일)</Label>
+              <Input
+                type="number"
+                min={0}
+                value={windowDays}
+                onChange={(e) => setWindowDays(Math.max(0, Number(e.target.value) || 0))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">금액 허용 오차 (±%)</Label>
+              <Input
+                type="number"
+                min={0}
+                step="1"
+                value={tolerancePercent}
+                onChange={(e) => setTolerancePercent(Math.max(0, Number(e.target.value) || 0))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">구간 수</Label>
+              <div className="flex items-center gap-1">
+                <Select value={String(minLegs)} onValueChange={(value) => setMinLegs(Number(value))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LEG_COUNT_OPTIONS.map(option => (
+                      <SelectItem key={option} value={String(option)}>{option}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <span className="text-xs text-muted-foreground">~</span>
+                <Select value={String(maxLegs)} onValueChange={(value) => setMaxLegs(Number(value))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {LEG_COUNT_OPTIONS.map(option => (
+                      <SelectItem key={option} value={String(option)}>{option}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            구간 2개는 A → B → A 왕복입니다. 보통예금처럼 거래처가 없는 계정은 계정 자체가 거래 상대가 되며, 전표번호가 없는 라인은 전표로 묶을 수 없어 제외됩니다.
+          </p>
+
+          <Button onClick={handleRun} disabled={isRunning || ledger.entries.length === 0} className="w-full">
+            {isRunning ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                분석 중...
+              </>
+            ) : (
+              '순환 거래 탐지 실행'
+            )}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {result && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-muted-foreground">전표</p>
+                <p className="text-2xl font-bold">{result.voucherCount.toLocaleString()}건</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-muted-foreground">자금 흐름 구간</p>
+                <p className="text-2xl font-bold">{result.legCount.toLocaleString()}건</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-muted-foreground">거래 상대</p>
+                <p className="text-2xl font-bold">{result.nodeCount.toLocaleString()}곳</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-muted-foreground">순환 경로</p>
+                <p className="text-2xl font-bold text-red-600">{result.flows.length.toLocaleString()}건</p>
+              </CardContent>
+            </Card>
+          </div>
+
+          {(result.unnumberedLineCount > 0 || result.truncated) && (
+            <div className="rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800 space-y-1">
+              {result.unnumberedLineCount > 0 && (
+                <p>전표번호가 없는 라인 {result.unnumberedLineCount.toLocaleString()}건은 전표로 묶을 수 없어 분석에서 제외했습니다.</p>
+              )}
+              {result.truncated && (
+                <p>탐색 한도에 도달해 일부 경로가 누락되었을 수 있습니다. 최소 구간 금액을 높이거나 기간·허용 오차를 줄여 다시 실행하세요.</p>
+              )}
+            </div>
+          )}
+
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    <Repeat className="h-5 w-5" />
+                    순환 경로
+                  </CardTitle>
+                  <CardDescription className="mt-1">행을 클릭하면 구간별 금액·일자와 각 구간의 원장 행을 확인합니다.</CardDescription>
+                </div>
+                <Button variant="outline" size="sm" onClick={handleExport}>
+                  <Download className="mr-2 h-4 w-4" />
+                  엑셀 다운로드
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="border rounded-lg max-h-[500px] overflow-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-[80px]">ID</TableHead>
+                      <TableHead>경로</TableHead>
+                      <TableHead className="text-right">구간</TableHead>
+                      <TableHead>기간</TableHead>
+                      <TableHead className="text-right">소요일수</TableHead>
+                      <TableHead className="text-right">최소 구간 금액</TableHead>
+                      <TableHead className="text-right">최대 구간 금액</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {result.flows.length > 0 ? (
+                      result.flows.slice(0, MAX_DISPLAY_ROWS).map(flow => (
+                        <TableRow
+                          key={flow.id}
+                          className="cursor-pointer hover:bg-muted/50"
+                          onClick={() => openFlow(flow)}
+                        >
+                          <TableCell className="font-mono text-xs">{flow.id}</TableCell>
+                          <TableCell className="font-medium">{formatPath(flow)}</TableCell>
+                          <TableCell className="text-right">{flow.legs.length}</TableCell>
+                          <TableCell className="text-xs whitespace-nowrap">{flow.firstDate} ~ {flow.lastDate}</TableCell>
+                          <TableCell className="text-right">{flow.spanDays}일</TableCell>
+                          <TableCell className="text-right font-semibold">{Math.round(flow.minLegAmount).toLocaleString()}</TableCell>
+                          <TableCell className="text-right">{Math.round(flow.maxLegAmount).toLocaleString()}</TableCell>
+                        </TableRow>
+                      ))
+                    ) : (
+                      <TableRow>
+                        <TableCell colSpan={7} className="text-center text-muted-foreground">
+                          조건에 해당하는 순환 경로가 없습니다.
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+              {result.flows.length > MAX_DISPLAY_ROWS && (
+                <p className="text-xs text-muted-foreground mt-2">
+                  상위 {MAX_DISPLAY_ROWS}건만 표시합니다. 전체 목록은 엑셀 다운로드로 확인하세요.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      <Dialog open={selectedFlow !== null} onOpenChange={(open) => !open && setSelectedFlow(null)}>
+        <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {selectedFlow?.id} · {selectedFlow ? formatPath(selectedFlow) : ''}
+            </DialogTitle>
+          </DialogHeader>
+          {selectedFlow && (
+            <div className="space-y-4">
+              <div className="border rounded-lg">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-[60px]">구간</TableHead>
+                      <TableHead>일자</TableHead>
+                      <TableHead>보낸 쪽</TableHead>
+                      <TableHead>받은 쪽</TableHead>
+                      <TableHead className="text-right">금액</TableHead>
+                      <TableHead>전표</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {selectedFlow.legs.map((leg, index) => (
+                      <TableRow
+                        key={leg.id}
+                        className={`cursor-pointer hover:bg-muted/50 ${selectedLeg?.id === leg.id ? 'bg-muted' : ''}`}
+                        onClick={() => setSelectedLeg(selectedLeg?.id === leg.id ? null : leg)}
+                      >
+                        <TableCell>{index + 1}</TableCell>
+                        <TableCell className="whitespace-nowrap">{leg.dateKey}</TableCell>
+                        <TableCell>{formatLegSide(leg.from, leg.fromAccounts)}</TableCell>
+                        <TableCell>{formatLegSide(leg.to, leg.toAccounts)}</TableCell>
+                        <TableCell className="text-right font-semibold">{Math.round(leg.amount).toLocaleString()}</TableCell>
+                        <TableCell className="font-mono text-xs">{leg.voucherKey}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              <div className="flex items-center justify-between">
+                <p className="text-sm font-semibold">
+                  {selectedLeg
+                    ? `구간 ${selectedFlow.legs.indexOf(selectedLeg) + 1} 원장 행`
+                    : '전체 구간 원장 행'} ({detailRows.length}건)
+                </p>
+                {selectedLeg ? (
+                  <Button variant="ghost" size="sm" onClick={() => setSelectedLeg(null)}>
+                    전체 구간 보기
+                  </Button>
+                ) : (
+                  <Badge variant="outline" className="text-xs">구간을 클릭하면 해당 구간만 표시합니다</Badge>
+                )}
+              </div>
+              <DataGrid
+                rows={detailRows}
+                columns={detailColumns}
+                getRowKey={getIndexRowKey}
+                height={400}
+                selectable
+              />
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -8,9 +8,8 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { useToast } from '@/hooks/use-toast';
 import { ArrowLeft, ArrowRight, TrendingUp, TrendingDown, AlertTriangle, Download, ExternalLink } from 'lucide-react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
-import { findDebitCreditHeaders } from '@/lib/headerUtils';
-
-type LedgerRow = { [key: string]: string | number | Date | undefined };
+import { type LedgerRow } from '@/lib/excelHelpers';
+import { getAccountEntries, toLedgerRows, type NormalizedLedger } from '@/lib/ledgerModel';
 
 interface OffsetVendor {
   vendorName: string;
@@ -24,41 +23,15 @@ interface OffsetVendor {
 }
 
 interface DualOffsetAnalysisProps {
-  workbook: XLSX.WorkBook;
-  accountNames: string[];
+  ledger: NormalizedLedger;
   onBack: () => void;
 }
 
-const cleanAmount = (val: any): number => {
-  if (typeof val === 'string') {
-    return parseFloat(val.replace(/,/g, '')) || 0;
-  }
-  return typeof val === 'number' ? val : 0;
-};
-
-const robustFindHeader = (headers: string[], keywords: string[]): string | undefined => 
-  headers.find(h => {
-    const cleanedHeader = (h || "").toLowerCase().replace(/\s/g, '').replace(/^\d+[_.-]?/, '');
-    return keywords.some(kw => {
-      const cleanedKw = kw.toLowerCase().replace(/\s/g, '');
-      return cleanedHeader.includes(cleanedKw);
-    });
-  });
-
-const getDataFromSheet = (worksheet: XLSX.WorkSheet | undefined): { data: LedgerRow[], headers: string[] } => {
-  if (!worksheet) return { data: [], headers: [] };
-  
-  const rawData = XLSX.utils.sheet_to_json<LedgerRow>(worksheet);
-  const headers = rawData.length > 0 ? Object.keys(rawData[0]) : [];
-  
-  return { data: rawData, headers };
-};
-
 export const DualOffsetAnalysis: React.FC<DualOffsetAnalysisProps> = ({
-  workbook,
-  accountNames,
+  ledger,
   onBack,
 }) => {
+  const accountNames = ledger.accountNames;
   const { toast } = useToast();
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [offsetVendors, setOffsetVendors] = useState<OffsetVendor[]>([]);
@@ -94,30 +67,10 @@ export const DualOffsetAnalysis: React.FC<DualOffsetAnalysisProps> = ({
       
       // 1. 차변 계정 (외상매출금 등) 분석
       relevantAccounts.debitAccounts.forEach(accountName => {
-        const sheet = workbook.Sheets[accountName];
-        const { data, headers } = getDataFromSheet(sheet);
-        
-        const vendorHeader = robustFindHeader(headers, ['거래처', '업체', '회사', 'vendor', 'customer']);
-        const dateHeader = headers.find(h => h.includes('일자') || h.includes('날짜'));
-        const { debitHeader } = findDebitCreditHeaders(headers, data, dateHeader);
-        
-        if (!vendorHeader || !debitHeader) return;
-        
-        data.forEach(row => {
-          // 전기 데이터 필터링: 전기이월 관련 키워드가 포함된 행 제외
-          const isPreviousPeriod = Object.values(row).some(val => {
-            if (val === null || val === undefined) return false;
-            const str = String(val).trim();
-            const normalized = str.replace(/\s/g, '');
-            return normalized.includes('전기이월') || 
-                   normalized.includes('[전기이월]') ||
-                   str.includes('[ 전기이월 ]') ||
-                   str.includes('[ 전 기 이 월 ]');
-          });
-          if (isPreviousPeriod) return;
-          
-          const vendorName = String(row[vendorHeader] || '').trim();
-          const debitAmount = cleanAmount(row[debitHeader]);
+        // 전기이월/월계/누계 행은 통합 원장에서 합계행으로 분류되어 제외됨
+        getAccountEntries(ledger, accountName).forEach(entry => {
+          const vendorName = entry.vendor.trim();
+          const debitAmount = entry.debit;
           
           // 거래처명이 없거나 금액이 0인 경우만 제외 (마이너스 금액은 포함)
           if (!vendorName || debitAmount === 0) return;
@@ -143,30 +96,9 @@ export const DualOffsetAnalysis: React.FC<DualOffsetAnalysisProps> = ({
       
       // 2. 대변 계정 (외상매입금/미지급금 등) 분석
       relevantAccounts.creditAccounts.forEach(accountName => {
-        const sheet = workbook.Sheets[accountName];
-        const { data, headers } = getDataFromSheet(sheet);
-        
-        const vendorHeader = robustFindHeader(headers, ['거래처', '업체', '회사', 'vendor', 'customer']);
-        const dateHeader = headers.find(h => h.includes('일자') || h.includes('날짜'));
-        const { creditHeader } = findDebitCreditHeaders(headers, data, dateHeader);
-        
-        if (!vendorHeader || !creditHeader) return;
-        
-        data.forEach(row => {
-          // 전기 데이터 필터링: 전기이월 관련 키워드가 포함된 행 제외
-          const isPreviousPeriod = Object.values(row).some(val => {
-            if (val === null || val === undefined) return false;
-            const str = String(val).trim();
-            const normalized = str.replace(/\s/g, '');
-            return normalized.includes('전기이월') || 
-                   normalized.includes('[전기이월]') ||
-                   str.includes('[ 전기이월 ]') ||
-                   str.includes('[ 전 기 이 월 ]');
-          });
-          if (isPreviousPeriod) return;
-          
-          const vendorName = String(row[vendorHeader] || '').trim();
-          const creditAmount = cleanAmount(row[creditHeader]);
+        getAccountEntries(ledger, accountName).forEach(entry => {
+          const vendorName = entry.vendor.trim();
+          const creditAmount = entry.credit;
           
           // 거래처명이 없거나 금액이 0인 경우만 제외 (마이너스 금액은 포함)
           if (!vendorName || creditAmount === 0) return;
@@ -401,16 +333,11 @@ export const DualOffsetAnalysis: React.FC<DualOffsetAnalysisProps> = ({
                     <div 
                       className="space-y-1.5 p-3 rounded-lg bg-green-50 dark:bg-green-950 border border-green-200 dark:border-green-800 cursor-pointer hover:bg-green-100 dark:hover:bg-green-900 transition-colors"
                       onClick={() => {
-                        const sheet = workbook.Sheets[vendor.debitAccount];
-                        const { data } = getDataFromSheet(sheet);
-                        const vendorHeader = robustFindHeader(Object.keys(data[0] || {}), ['거래처', '업체', '회사', 'vendor', 'customer']);
-                        if (vendorHeader) {
-                          const filteredData = data.filter(row => 
-                            String(row[vendorHeader] || '').trim() === vendor.vendorName
-                          );
-                          setAccountDetails(filteredData);
-                          setSelectedAccount({ accountName: vendor.debitAccount, vendorName: vendor.vendorName, type: 'debit' });
-                        }
+                        const filteredEntries = getAccountEntries(ledger, vendor.debitAccount).filter(entry =>
+                          entry.vendor.trim() === vendor.vendorName
+                        );
+                        setAccountDetails(toLedgerRows(filteredEntries));
+                        setSelectedAccount({ accountName: vendor.debitAccount, vendorName: vendor.vendorName, type: 'debit' });
                       }}
                     >
                       <div className="flex items-center gap-1.5 text-green-700 dark:text-green-300">
@@ -433,16 +360,11 @@ export const DualOffsetAnalysis: React.FC<DualOffsetAnalysisProps> = ({
                     <div 
                       className="space-y-1.5 p-3 rounded-lg bg-orange-50 dark:bg-orange-950 border border-orange-200 dark:border-orange-800 cursor-pointer hover:bg-orange-100 dark:hover:bg-orange-900 transition-colors"
                       onClick={() => {
-                        const sheet = workbook.Sheets[vendor.creditAccount];
-                        const { data } = getDataFromSheet(sheet);
-                        const vendorHeader = robustFindHeader(Object.keys(data[0] || {}), ['거래처', '업체', '회사', 'vendor', 'customer']);
-                        if (vendorHeader) {
-                          const filteredData = data.filter(row => 
-                            String(row[vendorHeader] || '').trim() === vendor.vendorName
-                          );
-                          setAccountDetails(filteredData);
-                          setSelectedAccount({ accountName: vendor.creditAccount, vendorName: vendor.vendorName, type: 'credit' });
-                        }
+                        const filteredEntries = getAccountEntries(ledger, vendor.creditAccount).filter(entry =>
+                          entry.vendor.trim() === vendor.vendorName
+                        );
+                        setAccountDetails(toLedgerRows(filteredEntries));
+                        setSelectedAccount({ accountName: vendor.creditAccount, vendorName: vendor.vendorName, type: 'credit' });
                       }}
                     >
                       <div className="flex items-center gap-1.5 text-orange-700 dark:text-orange-300">
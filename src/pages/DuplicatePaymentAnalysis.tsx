@@ -0,0 +1,546 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import * as XLSX from 'xlsx';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { DataGrid } from '@/components/DataGrid';
+import { createRecordColumns, getIndexRowKey } from '@/lib/dataGridColumns';
+import { useToast } from '@/hooks/use-toast';
+import { ArrowLeft, CopyCheck, Download, Loader2, RotateCcw } from 'lucide-react';
+import { toLedgerRows, type NormalizedLedger } from '@/lib/ledgerModel';
+import type { LedgerRow } from '@/lib/excelHelpers';
+import { normalizeDateKey } from '@/lib/holidayCalendar';
+import { loadResultFromActiveEngagement, saveResultToActiveEngagement } from '@/lib/engagementStore';
+import {
+  DEFAULT_DUPLICATE_PAYMENT_SETTINGS,
+  DUPLICATE_PAYMENT_RULE_DESCRIPTIONS,
+  DUPLICATE_PAYMENT_RULE_IDS,
+  DUPLICATE_PAYMENT_RULE_LABELS,
+  SPLIT_PERIOD_LABELS,
+  detectDuplicatePayments,
+  extractInvoiceNumber,
+  getDuplicatePaymentSettings,
+  saveDuplicatePaymentSettings,
+  type DuplicatePaymentCluster,
+  type DuplicatePaymentResult,
+  type DuplicatePaymentRuleId,
+  type DuplicatePaymentSettings,
+  type SplitPeriod,
+} from '@/lib/duplicatePayments';
+
+interface DuplicatePaymentAnalysisProps {
+  ledger: NormalizedLedger;
+  onBack: () => void;
+}
+
+interface SavedDuplicatePaymentRun {
+  settings: DuplicatePaymentSettings;
+  result: DuplicatePaymentResult;
+}
+
+const MAX_DISPLAY_ROWS = 300;
+
+const parseAmounts = (text: string): number[] =>
+  text
+    .split(/[,\s]+/)
+    .map(v => Number(v.replace(/[^\d]/g, '')))
+    .filter(v => v > 0);
+
+const parseKeywords = (text: string): string[] =>
+  text
+    .split(',')
+    .map(v => v.trim())
+    .filter(Boolean);
+
+export const DuplicatePaymentAnalysis: React.FC<DuplicatePaymentAnalysisProps> = ({
+  ledger,
+  onBack,
+}) => {
+  const { toast } = useToast();
+  const [settings, setSettings] = useState<DuplicatePaymentSettings>(() => getDuplicatePaymentSettings());
+  const [thresholdText, setThresholdText] = useState<string>(() =>
+    getDuplicatePaymentSettings().splitTransaction.thresholds.map(t => t.toLocaleString()).join(', ')
+  );
+  const [keywordText, setKeywordText] = useState<string>(() => getDuplicatePaymentSettings().accountKeywords.join(', '));
+  const [result, setResult] = useState<DuplicatePaymentResult | null>(null);
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+  const [ruleFilter, setRuleFilter] = useState<DuplicatePaymentRuleId | 'all'>('all');
+  const [selectedCluster, setSelectedCluster] = useState<DuplicatePaymentCluster | null>(null);
+
+  // 감사 업무에 저장된 마지막 실행 결과 복원
+  useEffect(() => {
+    let cancelled = false;
+    loadResultFromActiveEngagement<SavedDuplicatePaymentRun>('duplicate_payments').then(saved => {
+      if (cancelled || !saved) return;
+      setResult(saved.result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const updateSettings = (patch: Partial<DuplicatePaymentSettings>) => {
+    setSettings(prev => {
+      const next = { ...prev, ...patch };
+      saveDuplicatePaymentSettings(next);
+      return next;
+    });
+  };
+
+  const updateRule = <K extends DuplicatePaymentRuleId>(ruleId: K, patch: Partial<DuplicatePaymentSettings[K]>) => {
+    setSettings(prev => {
+      const next = { ...prev, [ruleId]: { ...prev[ruleId], ...patch } };
+      saveDuplicatePaymentSettings(next);
+      return next;
+    });
+  };
+
+  const handleReset = () => {
+    saveDuplicatePaymentSettings(DEFAULT_DUPLICATE_PAYMENT_SETTINGS);
+    setSettings(DEFAULT_DUPLICATE_PAYMENT_SETTINGS);
+    setThresholdText(DEFAULT_DUPLICATE_PAYMENT_SETTINGS.splitTransaction.thresholds.map(t => t.toLocaleString()).join(', '));
+    setKeywordText(DEFAULT_DUPLICATE_PAYMENT_SETTINGS.accountKeywords.join(', '));
+  };
+
+  const handleRun = () => {
+    setIsRunning(true);
+    // 대용량 원장에서도 로딩 표시가 먼저 그려지도록 다음 틱에 실행
+    setTimeout(() => {
+      try {
+        const detection = detectDuplicatePayments(ledger, settings);
+        setResult(detection);
+        saveResultToActiveEngagement('duplicate_payments', '', { settings, result: detection });
+        setRuleFilter('all');
+        toast({
+          title: '중복 지급 탐지 완료',
+          description: `${detection.totalEntries.toLocaleString()}건 중 ${detection.clusters.length.toLocaleString()}개 클러스터(${detection.flaggedEntryCount.toLocaleString()}건)를 찾았습니다.`,
+        });
+      } catch (error) {
+        toast({
+          title: '오류',
+          description: error instanceof Error ? error.message : String(error),
+          variant: 'destructive',
+        });
+      } finally {
+        setIsRunning(false);
+      }
+    }, 0);
+  };
+
+  const filteredClusters = useMemo(() => {
+    if (!result) return [];
+    return ruleFilter === 'all' ? result.clusters : result.clusters.filter(c => c.ruleId === ruleFilter);
+  }, [result, ruleFilter]);
+
+  const detailRows = useMemo(
+    () => (selectedCluster ? toLedgerRows(selectedCluster.entries) : []),
+    [selectedCluster]
+  );
+  const detailColumns = useMemo(
+    () => createRecordColumns<LedgerRow>(Object.keys(detailRows[0] || {})),
+    [detailRows]
+  );
+
+  const getRuleParameterText = (ruleId: DuplicatePaymentRuleId): string => {
+    switch (ruleId) {
+      case 'sameVendorAmount':
+        return `${settings.sameVendorAmount.windowDays}일 이내`;
+      case 'sameAmountOtherVendor':
+        return `${settings.sameAmountOtherVendor.windowDays}일 이내`;
+      case 'sameInvoice':
+        return result ? `적요에서 송장번호 ${result.invoiceReferenceCount.toLocaleString()}건 인식` : '적요의 송장·세금계산서 번호';
+      case 'splitTransaction':
+        return `${SPLIT_PERIOD_LABELS[settings.splitTransaction.period]}, 한도 ${settings.splitTransaction.thresholds.map(t => t.toLocaleString()).join(' / ')}원`;
+    }
+  };
+
+  const handleExport = () => {
+    if (!result) return;
+    try {
+      const wb = XLSX.utils.book_new();
+      const today = new Date().toISOString().split('T')[0];
+
+      // 1. 개요 (모집단 조건, 규칙 설정, 규칙별 클러스터 수)
+      const summaryRows: (string | number)[][] = [
+        ['중복 지급 · 분할 거래 탐지 조서'],
+        [],
+        ['작성일', today],
+        ['최소 금액', settings.minAmount],
+        ['대상 계정', settings.accountKeywords.length > 0 ? settings.accountKeywords.join(', ') : '전체 계정'],
+        ['모집단 분개 라인 수', result.totalEntries],
+        ['일자 없음 (비교 제외)', result.undatedEntryCount],
+        ['클러스터 수', result.clusters.length],
+        ['클러스터 포함 라인 수', result.flaggedEntryCount],
+        [],
+        ['규칙', '사용', '파라미터', '클러스터 수', '설명'],
+        ...DUPLICATE_PAYMENT_RULE_IDS.map(ruleId => [
+          DUPLICATE_PAYMENT_RULE_LABELS[ruleId],
+          settings[ruleId].enabled ? 'O' : 'X',
+          getRuleParameterText(ruleId),
+          result.clusterCounts[ruleId],
+          DUPLICATE_PAYMENT_RULE_DESCRIPTIONS[ruleId],
+        ]),
+        [],
+        ['같은 계정·같은 방향(차변/대변) 라인끼리 비교하며, 같은 전표 안의 라인끼리는 중복으로 보지 않습니다.'],
+      ];
+      const wsSummary = XLSX.utils.aoa_to_sheet(summaryRows);
+      wsSummary['!cols'] = [{ wch: 26 }, { wch: 8 }, { wch: 40 }, { wch: 12 }, { wch: 70 }];
+      XLSX.utils.book_append_sheet(wb, wsSummary, '개요');
+
+      // 2. 클러스터 목록 (검토 의견 작성란 포함)
+      const clusterRows = result.clusters.map(cluster => ({
+        클러스터: cluster.id,
+        규칙: DUPLICATE_PAYMENT_RULE_LABELS[cluster.ruleId],
+        기준: cluster.label,
+        사유: cluster.reason,
+        건수: cluster.entries.length,
+        금액합계: cluster.totalAmount,
+        거래처: cluster.vendors.join(', '),
+        시작일: cluster.firstDate ?? '',
+        종료일: cluster.lastDate ?? '',
+        '검토 의견': '',
+        검토자: '',
+      }));
+      XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(clusterRows), '클러스터');
+
+      // 3. 클러스터별 분개 라인
+      const lineRows = result.clusters.flatMap(cluster =>
+        cluster.entries.map(entry => ({
+          클러스터: cluster.id,
+          규칙: DUPLICATE_PAYMENT_RULE_LABELS[cluster.ruleId],
+          일자: normalizeDateKey(entry.date) || String(entry.date ?? ''),
+          전표번호: entry.entryNumber !== undefined ? String(entry.entryNumber) : '',
+          계정과목: entry.accountName,
+          거래처: entry.vendor,
+          적요: entry.description,
+          송장번호: extractInvoiceNumber(entry.description) ?? '',
+          차변: entry.debit,
+          대변: entry.credit,
+        }))
+      );
+      XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(lineRows), '클러스터상세');
+
+      XLSX.writeFile(wb, `중복지급탐지_${today}.xlsx`);
+      toast({
+        title: '성공',
+        description: '중복 지급 탐지 조서를 다운로드했습니다.',
+      });
+    } catch (error) {
+      toast({
+        title: '오류',
+        description: `엑셀 다운로드 중 오류가 발생했습니다: ${error instanceof Error ? error.message : String(error)}`,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const renderRuleParameters = (ruleId: DuplicatePaymentRuleId) => {
+    switch (ruleId) {
+      case 'sameVendorAmount':
+      case 'sameAmountOtherVendor':
+        return (
+          <div className="space-y-1">
+            <Label className="text-xs">비교 기간 (일, 0이면 같은 날)</Label>
+            <Input
+              type="number"
+              min={0}
+              value={settings[ruleId].windowDays}
+              onChange={(e) => updateRule(ruleId, { windowDays: Math.max(0, Number(e.target.value) || 0) })}
+            />
+          </div>
+        );
+      case 'sameInvoice':
+        return (
+          <p className="text-xs text-muted-foreground">
+            세금계산서 승인번호(8-8-8자리)나 "송장·계산서·Invoice" 뒤의 번호를 인식합니다. 번호의 기호·공백은 무시합니다.
+          </p>
+        );
+      case 'splitTransaction':
+        return (
+          <div className="grid grid-cols-3 gap-2">
+            <div className="col-span-2 space-y-1">
+              <Label className="text-xs">승인한도 (원, 쉼표로 구분)</Label>
+              <Input
+                value={thresholdText}
+                onChange={(e) => setThresholdText(e.target.value)}
+                onBlur={() => updateRule('splitTransaction', { thresholds: parseAmounts(thresholdText) })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">묶음 기간</Label>
+              <Select
+                value={settings.splitTransaction.period}
+                onValueChange={(value) => updateRule('splitTransaction', { period: value as SplitPeriod })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(SPLIT_PERIOD_LABELS) as SplitPeriod[]).map(period => (
+                    <SelectItem key={period} value={period}>{SPLIT_PERIOD_LABELS[period]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <CopyCheck className="h-5 w-5 text-primary" />
+                중복 지급 · 분할 거래 탐지
+              </CardTitle>
+              <CardDescription className="mt-2">
+                같은 거래처·금액의 반복 기록, 거래처만 다른 동일 금액, 같은 송장의 이중 지급, 승인한도를 피하려고 나눈 거래를 클러스터로 묶어 보여줍니다.
+              </CardDescription>
+            </div>
+            <Button variant="ghost" onClick={onBack}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              뒤로가기
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-1">
+              <Label className="text-xs">최소 금액 (원)</Label>
+              <Input
+                type="number"
+                min={0}
+                value={settings.minAmount}
+                onChange={(e) => updateSettings({ minAmount: Math.max(0, Number(e.target.value) || 0) })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">대상 계정 (계정명에 포함된 단어, 쉼표로 구분, 비우면 전체)</Label>
+              <Input
+                value={keywordText}
+                placeholder="예: 외상매입금, 미지급금"
+                onChange={(e) => setKeywordText(e.target.value)}
+                onBlur={() => updateSettings({ accountKeywords: parseKeywords(keywordText) })}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {DUPLICATE_PAYMENT_RULE_IDS.map(ruleId => (
+              <div key={ruleId} className="rounded-lg border p-4 space-y-3">
+                <div className="flex items-start gap-2">
+                  <Checkbox
+                    id={`duplicate-rule-${ruleId}`}
+                    checked={settings[ruleId].enabled}
+                    onCheckedChange={(checked) => updateRule(ruleId, { enabled: checked === true })}
+                    className="mt-0.5"
+                  />
+                  <div>
+                    <Label htmlFor={`duplicate-rule-${ruleId}`} className="font-semibold">{DUPLICATE_PAYMENT_RULE_LABELS[ruleId]}</Label>
+                    <p className="text-xs text-muted-foreground mt-1">{DUPLICATE_PAYMENT_RULE_DESCRIPTIONS[ruleId]}</p>
+                  </div>
+                </div>
+                {settings[ruleId].enabled && renderRuleParameters(ruleId)}
+              </div>
+            ))}
+          </div>
+
+          <div className="flex gap-2">
+            <Button
+              onClick={handleRun}
+              disabled={isRunning || DUPLICATE_PAYMENT_RULE_IDS.every(id => !settings[id].enabled)}
+              className="flex-1"
+            >
+              {isRunning ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  분석 중...
+                </>
+              ) : (
+                '중복 지급 탐지 실행'
+              )}
+            </Button>
+            <Button variant="outline" onClick={handleReset}>
+              <RotateCcw className="mr-2 h-4 w-4" />
+              기본값
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {result && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-muted-foreground">모집단 라인</p>
+                <p className="text-2xl font-bold">{result.totalEntries.toLocaleString()}건</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-muted-foreground">클러스터</p>
+                <p className="text-2xl font-bold">{result.clusters.length.toLocaleString()}개</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-muted-foreground">클러스터 포함 라인</p>
+                <p className="text-2xl font-bold text-red-600">{result.flaggedEntryCount.toLocaleString()}건</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-muted-foreground">일자 없음 (비교 제외)</p>
+                <p className="text-2xl font-bold text-amber-600">{result.undatedEntryCount.toLocaleString()}건</p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">규칙별 클러스터 수</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>규칙</TableHead>
+                    <TableHead>파라미터</TableHead>
+                    <TableHead className="text-right">클러스터 수</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {DUPLICATE_PAYMENT_RULE_IDS.filter(ruleId => settings[ruleId].enabled).map(ruleId => (
+                    <TableRow
+                      key={ruleId}
+                      className="cursor-pointer hover:bg-muted/50"
+                      onClick={() => setRuleFilter(ruleId)}
+                    >
+                      <TableCell className="font-medium">{DUPLICATE_PAYMENT_RULE_LABELS[ruleId]}</TableCell>
+                      <TableCell className="text-xs text-muted-foreground">{getRuleParameterText(ruleId)}</TableCell>
+                      <TableCell className="text-right">{result.clusterCounts[ruleId].toLocaleString()}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle className="text-lg">클러스터 ({filteredClusters.length.toLocaleString()}개)</CardTitle>
+                  <CardDescription className="mt-1">행을 클릭하면 클러스터에 속한 원장 행을 확인합니다.</CardDescription>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Select value={ruleFilter} onValueChange={(value) => setRuleFilter(value as DuplicatePaymentRuleId | 'all')}>
+                    <SelectTrigger className="w-[200px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">전체 규칙</SelectItem>
+                      {DUPLICATE_PAYMENT_RULE_IDS.map(ruleId => (
+                        <SelectItem key={ruleId} value={ruleId}>{DUPLICATE_PAYMENT_RULE_LABELS[ruleId]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button variant="outline" size="sm" onClick={handleExport} disabled={result.clusters.length === 0}>
+                    <Download className="mr-2 h-4 w-4" />
+                    조서 다운로드
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="border rounded-lg max-h-[600px] overflow-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-[90px]">클러스터</TableHead>
+                      <TableHead>규칙</TableHead>
+                      <TableHead>기준</TableHead>
+                      <TableHead>사유</TableHead>
+                      <TableHead className="text-right">건수</TableHead>
+                      <TableHead className="text-right">금액 합계</TableHead>
+                      <TableHead>기간</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredClusters.length > 0 ? (
+                      filteredClusters.slice(0, MAX_DISPLAY_ROWS).map(cluster => (
+                        <TableRow
+                          key={cluster.id}
+                          className="cursor-pointer hover:bg-muted/50"
+                          onClick={() => setSelectedCluster(cluster)}
+                        >
+                          <TableCell className="font-mono text-xs">{cluster.id}</TableCell>
+                          <TableCell>
+                            <Badge variant="outline" className="text-xs whitespace-nowrap">
+                              {DUPLICATE_PAYMENT_RULE_LABELS[cluster.ruleId]}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="font-medium">{cluster.label}</TableCell>
+                          <TableCell className="text-xs text-muted-foreground">{cluster.reason}</TableCell>
+                          <TableCell className="text-right">{cluster.entries.length.toLocaleString()}</TableCell>
+                          <TableCell className="text-right font-semibold">{cluster.totalAmount.toLocaleString()}</TableCell>
+                          <TableCell className="text-xs whitespace-nowrap">
+                            {cluster.firstDate === cluster.lastDate ? cluster.firstDate : `${cluster.firstDate} ~ ${cluster.lastDate}`}
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    ) : (
+                      <TableRow>
+                        <TableCell colSpan={7} className="text-center text-muted-foreground">
+                          조건에 해당하는 클러스터가 없습니다.
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+              {filteredClusters.length > MAX_DISPLAY_ROWS && (
+                <p className="text-xs text-muted-foreground mt-2">
+                  상위 {MAX_DISPLAY_ROWS}개만 표시합니다. 전체 내역은 조서 다운로드로 확인하세요.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      <Dialog open={selectedCluster !== null} onOpenChange={(open) => !open && setSelectedCluster(null)}>
+        <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {selectedCluster?.id} · {selectedCluster?.label} ({detailRows.length}건)
+            </DialogTitle>
+          </DialogHeader>
+          {selectedCluster && (
+            <p className="text-sm text-muted-foreground">
+              {DUPLICATE_PAYMENT_RULE_LABELS[selectedCluster.ruleId]} · {selectedCluster.reason} · 합계 {selectedCluster.totalAmount.toLocaleString()}원
+            </p>
+          )}
+          <DataGrid
+            rows={detailRows}
+            columns={detailColumns}
+            getRowKey={getIndexRowKey}
+            height={480}
+            selectable
+          />
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
@@ -4,12 +4,14 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
-import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { DataGrid } from '@/components/DataGrid';
 import { useToast } from '@/hooks/use-toast';
 import { ArrowLeft, ShoppingCart, DollarSign, AlertTriangle, ExternalLink, Download } from 'lucide-react';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
-
-type LedgerRow = { [key: string]: string | number | Date | undefined };
+import { type LedgerRow } from '@/lib/excelHelpers';
+import { getAccountEntries, toLedgerRows, type NormalizedLedger } from '@/lib/ledgerModel';
+import { classifyLedgerAccount } from '@/lib/chartOfAccounts';
+import { createRecordColumns, getIndexRowKey } from '@/lib/dataGridColumns';
 
 interface AccountDetail {
   accountName: string;
@@ -28,85 +30,64 @@ interface DuplicateVendor {
   netAmount: number;
 }
 
-interface DuplicateVendorAnalysisProps {
-  workbook: XLSX.WorkBook;
-  accountNames: string[];
-  onBack: () => void;
-}
+/**
+ * 상세내역 컬럼 순서: 날짜|적요란|코드|거래처|차변|대변|잔액, 그 뒤에 나머지 컬럼
+ */
+const getDetailColumnKeys = (rows: LedgerRow[]): { orderedKeys: string[]; debitKey?: string; creditKey?: string } => {
+  const allKeys = rows.length > 0 ? Object.keys(rows[0]) : [];
 
-const cleanAmount = (val: any): number => {
-  if (typeof val === 'string') {
-    return parseFloat(val.replace(/,/g, '')) || 0;
-  }
-  return typeof val === 'number' ? val : 0;
-};
+  // 차변/대변/잔액 컬럼 찾기 (유연한 매칭)
+  const debitKey = allKeys.find(k => k.includes('차변') || k.toLowerCase().includes('debit'));
+  const creditKey = allKeys.find(k => k.includes('대변') || k.toLowerCase().includes('credit'));
+  const balanceKey = allKeys.find(k => k.includes('잔액') || k.toLowerCase().includes('balance'));
 
-const robustFindHeader = (headers: string[], keywords: string[]): string | undefined => 
-  headers.find(h => {
-    const cleanedHeader = (h || "").toLowerCase().replace(/\s/g, '').replace(/^\d+[_.-]?/, '');
-    return keywords.some(kw => {
-      const cleanedKw = kw.toLowerCase().replace(/\s/g, '');
-      return cleanedHeader.includes(cleanedKw);
-    });
-  });
+  const preferredOrder = [
+    '날짜', '적요란', '코드', '거래처',
+    debitKey || '차변',
+    creditKey || '대변',
+    balanceKey || '잔액'
+  ];
 
-const getDataFromSheet = (worksheet: XLSX.WorkSheet | undefined): { data: LedgerRow[], headers: string[] } => {
-  if (!worksheet) return { data: [], headers: [] };
-  
-  const rawData = XLSX.utils.sheet_to_json<LedgerRow>(worksheet);
-  const headers = rawData.length > 0 ? Object.keys(rawData[0]) : [];
-  
-  return { data: rawData, headers };
+  return {
+    orderedKeys: [
+      ...preferredOrder.filter(key => allKeys.includes(key)),
+      ...allKeys.filter(key => !preferredOrder.includes(key))
+    ],
+    debitKey,
+    creditKey,
+  };
 };
 
+interface DuplicateVendorAnalysisProps {
+  ledger: NormalizedLedger;
+  onBack: () => void;
+}
+
 export const DuplicateVendorAnalysis: React.FC<DuplicateVendorAnalysisProps> = ({
-  workbook,
-  accountNames,
+  ledger,
   onBack,
 }) => {
+  const accountNames = ledger.accountNames;
   const { toast } = useToast();
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [duplicateVendors, setDuplicateVendors] = useState<DuplicateVendor[]>([]);
   const [selectedAccount, setSelectedAccount] = useState<{ accountName: string; vendorName: string; type: 'sales' | 'purchase' } | null>(null);
   const [accountDetails, setAccountDetails] = useState<LedgerRow[]>([]);
 
+  const detailColumns = useMemo(() => {
+    const { orderedKeys, debitKey, creditKey } = getDetailColumnKeys(accountDetails);
+    return createRecordColumns<LedgerRow>(orderedKeys, { totalKeys: [debitKey, creditKey].filter(Boolean) as string[] });
+  }, [accountDetails]);
+
   // 매출/매입 계정 찾기
   const relevantAccounts = useMemo(() => {
-    // 대변 계정: '매출' 또는 '매출액' 또는 '공사' 또는 '수입'으로 끝나는 계정 (괄호 앞부분 확인)
-    const salesAccounts = accountNames.filter(name => {
-      // 괄호 앞부분만 추출 (예: "제품매출 (41110)" → "제품매출")
-      const nameWithoutCode = name.split(/[\(（]/)[0].trim();
-      const normalized = nameWithoutCode.replace(/\s/g, '').trim();
-      // '매출', '매출액', '공사', 또는 '수입'으로 끝나는지 확인
-      // 또는 특정 계정명 포함 여부 확인 (폐기물처분수입, 스팀판매수입, 자원회수시설운영수입)
-      const matches = normalized.endsWith('매출') || 
-                      normalized.endsWith('매출액') || 
-                      normalized.endsWith('공사') || 
-                      normalized.endsWith('수입') ||
-                      normalized.includes('폐기물처분수입') ||
-                      normalized.includes('스팀판매수입') ||
-                      normalized.includes('자원회수시설운영수입');
-      if (matches) {
-        console.log(`✅ 매출 계정 발견: "${name}" (정리 후: "${normalized}")`);
-      }
-      return matches;
-    });
+    // 대변 계정: 계정과목 분류기 기준 매출 계정
+    const salesAccounts = accountNames.filter(name => classifyLedgerAccount(ledger, name).category === 'revenue');
     
-    // 차변 계정: 계정명 뒤 ( )에 오는 숫자가 4xxxx, 5xxxx, 8xxxx로 시작하는 계정만
+    // 차변 계정: 매출원가/제조원가/판관비 계정
     const purchaseAccounts = accountNames.filter(name => {
-      // 괄호 안의 숫자 추출 (예: "계정명 (41234)" 또는 "계정명(41234)")
-      const match = name.match(/[\(（]\s*([0-9]+)\s*[\)）]/);
-      if (!match || !match[1]) {
-        return false;
-      }
-      
-      const accountCode = match[1];
-      // 4xxxx, 5xxxx, 8xxxx로 시작하는지 확인
-      const matches = accountCode.startsWith('4') || accountCode.startsWith('5') || accountCode.startsWith('8');
-      if (matches) {
-        console.log(`✅ 매입 계정 발견: "${name}" (코드: ${accountCode})`);
-      }
-      return matches;
+      const { category } = classifyLedgerAccount(ledger, name);
+      return category === 'costOfSales' || category === 'manufacturing' || category === 'sga';
     });
     
     // 디버깅: 필터링 결과 출력
@@ -117,7 +98,17 @@ export const DuplicateVendorAnalysis: React.FC<DuplicateVendorAnalysisProps> = (
     console.log(`  버튼 활성화 가능: ${salesAccounts.length > 0 && purchaseAccounts.length > 0}`);
     
     return { salesAccounts, purchaseAccounts };
-  }, [accountNames]);
+  }, [accountNames, ledger]);
+
+  // 여러 계정에서 해당 거래처의 거래 내역 수집
+  const collectVendorRows = (accounts: string[], vendorName: string): LedgerRow[] => {
+    const rows: LedgerRow[] = [];
+    accounts.forEach(accountName => {
+      const entries = getAccountEntries(ledger, accountName).filter(entry => entry.vendor.trim() === vendorName);
+      rows.push(...toLedgerRows(entries));
+    });
+    return rows;
+  };
 
   const handleAnalyze = () => {
     setIsAnalyzing(true);
@@ -127,29 +118,10 @@ export const DuplicateVendorAnalysis: React.FC<DuplicateVendorAnalysisProps> = (
       
       // 1. 매출 계정 분석 (대변)
       relevantAccounts.salesAccounts.forEach(accountName => {
-        const sheet = workbook.Sheets[accountName];
-        const { data, headers } = getDataFromSheet(sheet);
-        
-        const vendorHeader = robustFindHeader(headers, ['거래처', '업체', '회사', 'vendor', 'customer']);
-        const creditHeader = robustFindHeader(headers, ['대변', 'credit', '대변금액', '금액']);
-        
-        if (!vendorHeader || !creditHeader) return;
-        
-        data.forEach(row => {
-          // 전기 데이터 필터링: 전기이월 관련 키워드가 포함된 행 제외
-          const isPreviousPeriod = Object.values(row).some(val => {
-            if (val === null || val === undefined) return false;
-            const str = String(val).trim();
-            const normalized = str.replace(/\s/g, '');
-            return normalized.includes('전기이월') || 
-                   normalized.includes('[전기이월]') ||
-                   str.includes('[ 전기이월 ]') ||
-                   str.includes('[ 전 기 이 월 ]');
-          });
-          if (isPreviousPeriod) return;
-          
-          const vendorName = String(row[vendorHeader] || '').trim();
-          const creditAmount = cleanAmount(row[creditHeader]);
+        // 전기이월/월계/누계 행은 통합 원장에서 합계행으로 분류되어 제외됨
+        getAccountEntries(ledger, accountName).forEach(entry => {
+          const vendorName = entry.vendor.trim();
+          const creditAmount = entry.credit;
           
           // 거래처명이 없거나 금액이 0인 경우만 제외 (마이너스 금액은 포함)
           if (!vendorName || creditAmount === 0) return;
@@ -186,29 +158,9 @@ export const DuplicateVendorAnalysis: React.FC<DuplicateVendorAnalysisProps> = (
       
       // 2. 매입 계정 분석 (차변)
       relevantAccounts.purchaseAccounts.forEach(accountName => {
-        const sheet = workbook.Sheets[accountName];
-        const { data, headers } = getDataFromSheet(sheet);
-        
-        const vendorHeader = robustFindHeader(headers, ['거래처', '업체', '회사', 'vendor', 'customer']);
-        const debitHeader = robustFindHeader(headers, ['차변', 'debit', '차변금액', '금액']);
-        
-        if (!vendorHeader || !debitHeader) return;
-        
-        data.forEach(row => {
-          // 전기 데이터 필터링: 전기이월 관련 키워드가 포함된 행 제외
-          const isPreviousPeriod = Object.values(row).some(val => {
-            if (val === null || val === undefined) return false;
-            const str = String(val).trim();
-            const normalized = str.replace(/\s/g, '');
-            return normalized.includes('전기이월') || 
-                   normalized.includes('[전기이월]') ||
-                   str.includes('[ 전기이월 ]') ||
-                   str.includes('[ 전 기 이 월 ]');
-          });
-          if (isPreviousPeriod) return;
-          
-          const vendorName = String(row[vendorHeader] || '').trim();
-          const debitAmount = cleanAmount(row[debitHeader]);
+        getAccountEntries(ledger, accountName).forEach(entry => {
+          const vendorName = entry.vendor.trim();
+          const debitAmount = entry.debit;
           
           // 거래처명이 없거나 금액이 0인 경우만 제외 (마이너스 금액은 포함)
           if (!vendorName || debitAmount === 0) return;
@@ -515,20 +467,7 @@ export const DuplicateVendorAnalysis: React.FC<DuplicateVendorAnalysisProps> = (
                     <div 
                       className="space-y-1.5 p-3 rounded-lg bg-red-50 dark:bg-red-950 border border-red-200 dark:border-red-800 cursor-pointer hover:bg-red-100 dark:hover:bg-red-900 transition-colors"
                       onClick={() => {
-                        // 모든 매입 계정에서 해당 거래처의 거래 내역 수집
-                        const allPurchaseData: LedgerRow[] = [];
-                        relevantAccounts.purchaseAccounts.forEach(accountName => {
-                          const sheet = workbook.Sheets[accountName];
-                          const { data } = getDataFromSheet(sheet);
-                          const vendorHeader = robustFindHeader(Object.keys(data[0] || {}), ['거래처', '업체', '회사', 'vendor', 'customer']);
-                          if (vendorHeader) {
-                            const filteredData = data.filter(row => 
-                              String(row[vendorHeader] || '').trim() === vendor.vendorName
-                            );
-                            allPurchaseData.push(...filteredData);
-                          }
-                        });
-                        setAccountDetails(allPurchaseData);
+                        setAccountDetails(collectVendorRows(relevantAccounts.purchaseAccounts, vendor.vendorName));
                         setSelectedAccount({ accountName: vendor.purchaseAccounts.length > 0 ? vendor.purchaseAccounts.map(a => a.accountName).join(', ') : '모든 매입 계정', vendorName: vendor.vendorName, type: 'purchase' });
                       }}
                     >
@@ -562,20 +501,7 @@ export const DuplicateVendorAnalysis: React.FC<DuplicateVendorAnalysisProps> = (
                             className="text-xs text-red-600 dark:text-red-400 cursor-pointer hover:underline"
                             onClick={(e) => {
                               e.stopPropagation();
-                              // 모든 매입 계정에서 해당 거래처의 거래 내역 수집
-                              const allPurchaseData: LedgerRow[] = [];
-                              relevantAccounts.purchaseAccounts.forEach(accountName => {
-                                const sheet = workbook.Sheets[accountName];
-                                const { data } = getDataFromSheet(sheet);
-                                const vendorHeader = robustFindHeader(Object.keys(data[0] || {}), ['거래처', '업체', '회사', 'vendor', 'customer']);
-                                if (vendorHeader) {
-                                  const filteredData = data.filter(row => 
-                                    String(row[vendorHeader] || '').trim() === vendor.vendorName
-                                  );
-                                  allPurchaseData.push(...filteredData);
-                                }
-                              });
-                              setAccountDetails(allPurchaseData);
+                                    setAccountDetails(collectVendorRows(relevantAccounts.purchaseAccounts, vendor.vendorName));
                               setSelectedAccount({ accountName: vendor.purchaseAccounts.length > 0 ? vendor.purchaseAccounts.map(a => a.accountName).join(', ') : '모든 매입 계정', vendorName: vendor.vendorName, type: 'purchase' });
                             }}
                           >
@@ -589,20 +515,7 @@ export const DuplicateVendorAnalysis: React.FC<DuplicateVendorAnalysisProps> = (
                     <div 
                       className="space-y-1.5 p-3 rounded-lg bg-blue-50 dark:bg-blue-950 border border-blue-200 dark:border-blue-800 cursor-pointer hover:bg-blue-100 dark:hover:bg-blue-900 transition-colors"
                       onClick={() => {
-                        // 모든 매출 계정에서 해당 거래처의 거래 내역 수집
-                        const allSalesData: LedgerRow[] = [];
-                        relevantAccounts.salesAccounts.forEach(accountName => {
-                          const sheet = workbook.Sheets[accountName];
-                          const { data } = getDataFromSheet(sheet);
-                          const vendorHeader = robustFindHeader(Object.keys(data[0] || {}), ['거래처', '업체', '회사', 'vendor', 'customer']);
-                          if (vendorHeader) {
-                            const filteredData = data.filter(row => 
-                              String(row[vendorHeader] || '').trim() === vendor.vendorName
-                            );
-                            allSalesData.push(...filteredData);
-                          }
-                        });
-                        setAccountDetails(allSalesData);
+                        setAccountDetails(collectVendorRows(relevantAccounts.salesAccounts, vendor.vendorName));
                         setSelectedAccount({ accountName: vendor.salesAccounts.length > 0 ? vendor.salesAccounts.map(a => a.accountName).join(', ') : '모든 매출 계정', vendorName: vendor.vendorName, type: 'sales' });
                       }}
                     >
@@ -636,20 +549,7 @@ export const DuplicateVendorAnalysis: React.FC<DuplicateVendorAnalysisProps> = (
                             className="text-xs text-blue-600 dark:text-blue-400 cursor-pointer hover:underline"
                             onClick={(e) => {
                               e.stopPropagation();
-                              // 모든 매출 계정에서 해당 거래처의 거래 내역 수집
-                              const allSalesData: LedgerRow[] = [];
-                              relevantAccounts.salesAccounts.forEach(accountName => {
-                                const sheet = workbook.Sheets[accountName];
-                                const { data } = getDataFromSheet(sheet);
-                                const vendorHeader = robustFindHeader(Object.keys(data[0] || {}), ['거래처', '업체', '회사', 'vendor', 'customer']);
-                                if (vendorHeader) {
-                                  const filteredData = data.filter(row => 
-                                    String(row[vendorHeader] || '').trim() === vendor.vendorName
-                                  );
-                                  allSalesData.push(...filteredData);
-                                }
-                              });
-                              setAccountDetails(allSalesData);
+                                    setAccountDetails(collectVendorRows(relevantAccounts.salesAccounts, vendor.vendorName));
                               setSelectedAccount({ accountName: vendor.salesAccounts.length > 0 ? vendor.salesAccounts.map(a => a.accountName).join(', ') : '모든 매출 계정', vendorName: vendor.vendorName, type: 'sales' });
                             }}
                           >
@@ -668,7 +568,7 @@ export const DuplicateVendorAnalysis: React.FC<DuplicateVendorAnalysisProps> = (
 
       {/* 계정별원장 상세내역 Dialog */}
       <Dialog open={selectedAccount !== null} onOpenChange={(open) => !open && setSelectedAccount(null)}>
-        <DialogContent className="max-w-6xl max-h-[80vh] overflow-y-auto">
+        <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <div className="flex items-center justify-between">
               <div>
@@ -688,40 +588,7 @@ export const DuplicateVendorAnalysis: React.FC<DuplicateVendorAnalysisProps> = (
                       const wb = XLSX.utils.book_new();
                       
                       // 데이터 준비 (컬럼 순서: 날짜|적요란|코드|거래처|차변|대변|잔액 순서로)
-                      const allKeys = accountDetails.length > 0 ? Object.keys(accountDetails[0]) : [];
-                      
-                      // 차변 컬럼 찾기 (유연한 매칭)
-                      const debitKey = allKeys.find(k => 
-                        k.includes('차변') || 
-                        k.toLowerCase().includes('debit') ||
-                        k === '차변금액'
-                      );
-                      
-                      // 대변 컬럼 찾기
-                      const creditKey = allKeys.find(k => 
-                        k.includes('대변') || 
-                        k.toLowerCase().includes('credit') ||
-                        k === '대변금액'
-                      );
-                      
-                      // 잔액 컬럼 찾기
-                      const balanceKey = allKeys.find(k => 
-                        k.includes('잔액') || 
-                        k.toLowerCase().includes('balance')
-                      );
-                      
-                      // 우선순위 순서: 날짜, 적요란, 코드, 거래처, 차변, 대변, 잔액
-                      const preferredOrder = [
-                        '날짜', '적요란', '코드', '거래처',
-                        debitKey || '차변',
-                        creditKey || '대변',
-                        balanceKey || '잔액'
-                      ];
-                      
-                      const orderedKeys = [
-                        ...preferredOrder.filter(key => allKeys.includes(key)),
-                        ...allKeys.filter(key => !preferredOrder.includes(key))
-                      ];
+                      const { orderedKeys } = getDetailColumnKeys(accountDetails);
                       
                       const exportData = accountDetails.map(row => {
                         const obj: { [key: string]: any } = {};
@@ -766,117 +633,13 @@ export const DuplicateVendorAnalysis: React.FC<DuplicateVendorAnalysisProps> = (
           </DialogHeader>
           <div className="mt-4">
             {accountDetails.length > 0 ? (
-              <div className="rounded-md border">
-                {(() => {
-                  // 디버깅: 실제 컬럼 이름 확인
-                  if (accountDetails.length > 0) {
-                    const allKeys = Object.keys(accountDetails[0] || {});
-                    console.log('=== 상세보기 컬럼 정보 ===');
-                    console.log('전체 컬럼 목록:', allKeys);
-                    console.log('차변 관련 컬럼:', allKeys.filter(k => k.includes('차변') || k.toLowerCase().includes('debit')));
-                    console.log('대변 관련 컬럼:', allKeys.filter(k => k.includes('대변') || k.toLowerCase().includes('credit')));
-                    console.log('잔액 관련 컬럼:', allKeys.filter(k => k.includes('잔액') || k.toLowerCase().includes('balance')));
-                    console.log('첫 번째 행 샘플:', accountDetails[0]);
-                  }
-                  return null;
-                })()}
-                <Table>
-                  <TableHeader>
-                    <TableRow>
-                      {(() => {
-                        // 컬럼 순서 정의: 날짜|적요란|코드|거래처|차변|대변|잔액 순서로 표시
-                        const allKeys = Object.keys(accountDetails[0] || {});
-                        
-                        // 차변 컬럼 찾기 (유연한 매칭)
-                        const debitKey = allKeys.find(k => 
-                          k.includes('차변') || 
-                          k.toLowerCase().includes('debit') ||
-                          k === '차변금액'
-                        );
-                        
-                        // 대변 컬럼 찾기
-                        const creditKey = allKeys.find(k => 
-                          k.includes('대변') || 
-                          k.toLowerCase().includes('credit') ||
-                          k === '대변금액'
-                        );
-                        
-                        // 잔액 컬럼 찾기
-                        const balanceKey = allKeys.find(k => 
-                          k.includes('잔액') || 
-                          k.toLowerCase().includes('balance')
-                        );
-                        
-                        // 우선순위 순서: 날짜, 적요란, 코드, 거래처, 차변, 대변, 잔액
-                        const preferredOrder = [
-                          '날짜', '적요란', '코드', '거래처',
-                          debitKey || '차변',
-                          creditKey || '대변',
-                          balanceKey || '잔액'
-                        ];
-                        
-                        const orderedKeys = [
-                          ...preferredOrder.filter(key => allKeys.includes(key)),
-                          ...allKeys.filter(key => !preferredOrder.includes(key))
-                        ];
-                        
-                        return orderedKeys.map(key => (
-                          <TableHead key={key}>{key}</TableHead>
-                        ));
-                      })()}
-                    </TableRow>
-                  </TableHeader>
-                  <TableBody>
-                    {accountDetails.map((row, idx) => (
-                      <TableRow key={idx}>
-                        {(() => {
-                          // 컬럼 순서 정의: 날짜|적요란|코드|거래처|차변|대변|잔액 순서로 표시
-                          const allKeys = Object.keys(row);
-                          
-                          // 차변 컬럼 찾기 (유연한 매칭)
-                          const debitKey = allKeys.find(k => 
-                            k.includes('차변') || 
-                            k.toLowerCase().includes('debit') ||
-                            k === '차변금액'
-                          );
-                          
-                          // 대변 컬럼 찾기
-                          const creditKey = allKeys.find(k => 
-                            k.includes('대변') || 
-                            k.toLowerCase().includes('credit') ||
-                            k === '대변금액'
-                          );
-                          
-                          // 잔액 컬럼 찾기
-                          const balanceKey = allKeys.find(k => 
-                            k.includes('잔액') || 
-                            k.toLowerCase().includes('balance')
-                          );
-                          
-                          // 우선순위 순서: 날짜, 적요란, 코드, 거래처, 차변, 대변, 잔액
-                          const preferredOrder = [
-                            '날짜', '적요란', '코드', '거래처',
-                            debitKey || '차변',
-                            creditKey || '대변',
-                            balanceKey || '잔액'
-                          ];
-                          
-                          const orderedKeys = [
-                            ...preferredOrder.filter(key => allKeys.includes(key)),
-                            ...allKeys.filter(key => !preferredOrder.includes(key))
-                          ];
-                          
-                          return orderedKeys.map((key, j) => (
-                            <TableCell key={j} className="text-sm">
-                              {row[key] instanceof Date ? row[key].toLocaleDateString() : String(row[key] ?? '')}
-                            </TableCell>
-                          ));
-                        })()}
-                      </TableRow>
-                    ))}
-                  </TableBody>
-                </Table>
-              </div>
+              <DataGrid
+                rows={accountDetails}
+                columns={detailColumns}
+                getRowKey={getIndexRowKey}
+                height={520}
+                selectable
+              />
             ) : (
               <div className="text-center py-8 text-muted-foreground">
                 상세내역이 없습니다.
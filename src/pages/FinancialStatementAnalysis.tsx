@@ -6,10 +6,14 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
 import { ArrowLeft, CheckCircle2, TrendingUp, Loader2, Sparkles, Download } from 'lucide-react';
 import { analyzeWithFlash, hasApiKey, estimateTokens, estimateCost } from '@/lib/geminiClient';
 import { useToast } from '@/hooks/use-toast';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell, LabelList, LabelProps } from 'recharts';
+import { getAccountEntries, toLedgerRows, type NormalizedLedger } from '@/lib/ledgerModel';
+import { classifyAccount } from '@/lib/chartOfAccounts';
+import { buildTrialBalance, reconcileTrialBalance, type ReconciliationStatus } from '@/lib/trialBalance';
 
 type LedgerRow = { [key: string]: string | number | Date | undefined };
 
@@ -17,9 +21,8 @@ interface FinancialStatementAnalysisProps {
   workbook: XLSX.WorkBook;
   onBack: () => void;
   getFinancialStatementData: (worksheet: XLSX.WorkSheet | undefined) => { data: LedgerRow[], headers: string[], orderedHeaders: string[] };
-  ledgerWorkbook?: XLSX.WorkBook | null; // 계정별원장 데이터 (당기)
-  previousLedgerWorkbook?: XLSX.WorkBook | null; // 전기 계정별원장 데이터
-  getDataFromSheet?: (worksheet: XLSX.WorkSheet | undefined) => { data: LedgerRow[], headers: string[], orderedHeaders: string[] }; // 계정별원장 파싱 함수
+  ledger?: NormalizedLedger | null; // 계정별원장 통합 원장 (당기)
+  previousLedger?: NormalizedLedger | null; // 전기 계정별원장 통합 원장
 }
 
 interface FinancialStatementRow {
@@ -31,6 +34,13 @@ interface FinancialStatementRow {
   유의적변동: boolean;
 }
 
+const RECONCILIATION_STATUS_LABELS: Record<ReconciliationStatus, string> = {
+  matched: '일치',
+  difference: '차이',
+  ledgerOnly: '원장에만 있음',
+  statementOnly: '재무제표에만 있음',
+};
+
 const cleanAmount = (val: any): number => {
   if (typeof val === 'string') {
     return parseFloat(val.replace(/,/g, '').replace(/[^\d.-]/g, '')) || 0;
@@ -42,13 +52,13 @@ export const FinancialStatementAnalysis: React.FC<FinancialStatementAnalysisProp
   workbook,
   onBack,
   getFinancialStatementData,
-  ledgerWorkbook,
-  previousLedgerWorkbook,
-  getDataFromSheet,
+  ledger,
+  previousLedger,
 }) => {
   const { toast } = useToast();
   const [thresholdAmount, setThresholdAmount] = useState<number>(100000000); // 기본값: 1억원
-  const [selectedView, setSelectedView] = useState<'balance' | 'income' | 'ratios'>('balance'); // 선택된 뷰
+  const [selectedView, setSelectedView] = useState<'balance' | 'income' | 'ratios' | 'trialBalance'>('balance'); // 선택된 뷰
+  const [showDifferencesOnly, setShowDifferencesOnly] = useState<boolean>(false); // 시산표 대사: 차이 항목만 보기
   const [analyzingAccount, setAnalyzingAccount] = useState<string | null>(null); // 분석 중인 계정
   const [analysisResults, setAnalysisResults] = useState<Record<string, string>>({}); // 분석 결과 저장
   const [costEstimates, setCostEstimates] = useState<Record<string, { tokens: number; cost: number }>>({}); // 요금 추정
@@ -220,18 +230,14 @@ export const FinancialStatementAnalysis: React.FC<FinancialStatementAnalysisProp
     const equity: FinancialStatementRow[] = [];
 
     balanceSheetData.forEach(row => {
-      const 과목 = row.과목.toLowerCase();
+      const { type } = classifyAccount(row.과목);
       
-      // 자산 판단
-      if (과목.includes('자산') && !과목.includes('부채') && !과목.includes('자본')) {
-        assets.push(row);
-      }
       // 부채 판단
-      else if (과목.includes('부채') || 과목.includes('차입') || 과목.includes('미지급') || 과목.includes('예수금')) {
+      if (type === 'liability') {
         liabilities.push(row);
       }
       // 자본 판단
-      else if (과목.includes('자본') || 과목.includes('이익잉여금') || 과목.includes('자본금')) {
+      else if (type === 'equity') {
         equity.push(row);
       }
       // 기본값: 자산으로 분류 (재무상태표의 일반적인 순서)
@@ -249,21 +255,10 @@ export const FinancialStatementAnalysis: React.FC<FinancialStatementAnalysisProp
     const revenues: FinancialStatementRow[] = [];
 
     incomeStatementData.forEach(row => {
-      const 과목 = row.과목.toLowerCase();
-      
       // 매출 및 수익 판단
-      if (과목.includes('매출') || 과목.includes('수익') || 과목.includes('영업외수익') || 
-          과목.includes('영업외') || 과목.includes('기타수익') || 과목.includes('이자수익') ||
-          과목.includes('배당금수익') || 과목.includes('외환차익')) {
+      if (classifyAccount(row.과목).type === 'revenue') {
         revenues.push(row);
       }
-      // 비용 판단
-      else if (과목.includes('비용') || 과목.includes('원가') || 과목.includes('판매비') ||
-               과목.includes('관리비') || 과목.includes('영업외비용') || 과목.includes('기타비용') ||
-               과목.includes('이자비용') || 과목.includes('외환차손') || 과목.includes('감가상각') ||
-               과목.includes('급여') || 과목.includes('임대료') || 과목.includes('광고비')) {
-        costs.push(row);
-      }
       // 기본값: 비용으로 분류 (손익계산서의 일반적인 순서)
       else {
         costs.push(row);
@@ -512,6 +507,25 @@ export const FinancialStatementAnalysis: React.FC<FinancialStatementAnalysisProp
     return ratios;
   }, [financialData]);
 
+  // 합계잔액시산표 (통합 원장 기준) 및 재무제표 당기 금액 대사
+  const trialBalanceRows = useMemo(() => buildTrialBalance(ledger), [ledger]);
+
+  const reconciliationRows = useMemo(() => {
+    const statementLines = financialData.map(row => ({ name: row.과목, amount: row.당기금액 }));
+    return reconcileTrialBalance(trialBalanceRows, statementLines);
+  }, [trialBalanceRows, financialData]);
+
+  const reconciliationSummary = useMemo(() => {
+    const counts: Record<ReconciliationStatus, number> = { matched: 0, difference: 0, ledgerOnly: 0, statementOnly: 0 };
+    reconciliationRows.forEach(row => { counts[row.status]++; });
+    return counts;
+  }, [reconciliationRows]);
+
+  const visibleReconciliationRows = useMemo(() => {
+    if (!showDifferencesOnly) return reconciliationRows;
+    return reconciliationRows.filter(row => row.status !== 'matched');
+  }, [reconciliationRows, showDifferencesOnly]);
+
   // 계정명 정규화 함수 (매칭을 위해)
   const normalizeAccountName = (name: string): string => {
     return name
@@ -520,15 +534,28 @@ export const FinancialStatementAnalysis: React.FC<FinancialStatementAnalysisProp
       .toLowerCase();
   };
 
-  // 매출계정 판단 함수
-  const isSalesAccount = (accountName: string): boolean => {
-    const normalized = normalizeAccountName(accountName);
-    return normalized.includes('매출') || 
-           normalized.includes('sales') || 
-           normalized.includes('수익') ||
-           normalized.includes('revenue');
+  // 통합 원장에서 재무제표 계정명과 일치하는 계정의 거래 행 찾기
+  const findMatchingLedgerAccounts = (
+    source: NormalizedLedger,
+    normalizedAccountName: string
+  ): Array<{ sheetName: string; data: LedgerRow[] }> => {
+    const matches: Array<{ sheetName: string; data: LedgerRow[] }> = [];
+    source.accountNames.forEach(accountName => {
+      const normalizedLedgerName = normalizeAccountName(accountName);
+      if (normalizedLedgerName.includes(normalizedAccountName) ||
+          normalizedAccountName.includes(normalizedLedgerName)) {
+        const data = toLedgerRows(getAccountEntries(source, accountName));
+        if (data.length > 0) {
+          matches.push({ sheetName: accountName, data });
+        }
+      }
+    });
+    return matches;
   };
 
+  // 매출계정 판단 함수
+  const isSalesAccount = (accountName: string): boolean => classifyAccount(accountName).type === 'revenue';
+
   // 금액 추출 함수
   const extractAmountFromRow = (row: LedgerRow): number => {
     // 차변, 대변, 금액 컬럼에서 금액 찾기
@@ -583,7 +610,7 @@ export const FinancialStatementAnalysis: React.FC<FinancialStatementAnalysisProp
 
   // 요금 추정 함수
   const handleEstimateCost = (accountName: string, changeAmount: number, isIncomeStatement: boolean = false) => {
-    if (!ledgerWorkbook || !getDataFromSheet) {
+    if (!ledger) {
       toast({
         title: '오류',
         description: '계정별원장 데이터가 없습니다.',
@@ -594,19 +621,7 @@ export const FinancialStatementAnalysis: React.FC<FinancialStatementAnalysisProp
 
     try {
       const normalizedAccountName = normalizeAccountName(accountName);
-      const matchingSheets: Array<{ sheetName: string; data: LedgerRow[] }> = [];
-      
-      ledgerWorkbook.SheetNames.forEach(sheetName => {
-        const normalizedSheetName = normalizeAccountName(sheetName);
-        if (normalizedSheetName.includes(normalizedAccountName) || 
-            normalizedAccountName.includes(normalizedSheetName)) {
-          const worksheet = ledgerWorkbook.Sheets[sheetName];
-          const { data } = getDataFromSheet(worksheet);
-          if (data.length > 0) {
-            matchingSheets.push({ sheetName, data });
-          }
-        }
-      });
+      const matchingSheets = findMatchingLedgerAccounts(ledger, normalizedAccountName);
 
       if (matchingSheets.length === 0) {
         toast({
@@ -625,20 +640,8 @@ export const FinancialStatementAnalysis: React.FC<FinancialStatementAnalysisProp
       });
 
       // 전기 데이터 수집 (전기 계정별원장이 있으면 별도로 수집, 없으면 당기 데이터 사용)
-      if (previousLedgerWorkbook && getDataFromSheet) {
-        const previousMatchingSheets: Array<{ sheetName: string; data: LedgerRow[] }> = [];
-        
-        previousLedgerWorkbook.SheetNames.forEach(sheetName => {
-          const normalizedSheetName = normalizeAccountName(sheetName);
-          if (normalizedSheetName.includes(normalizedAccountName) || 
-              normalizedAccountName.includes(normalizedSheetName)) {
-            const worksheet = previousLedgerWorkbook.Sheets[sheetName];
-            const { data } = getDataFromSheet(worksheet);
-            if (data.length > 0) {
-              previousMatchingSheets.push({ sheetName, data });
-            }
-          }
-        });
+      if (previousLedger) {
+        const previousMatchingSheets = findMatchingLedgerAccounts(previousLedger, normalizedAccountName);
 
         previousMatchingSheets.forEach(({ data }) => {
           previousPeriodData.push(...data);
@@ -675,7 +678,7 @@ ${sampledCurrent.slice(0, 10).map((row, idx) =>
 ).join('\n')}
 
 **전기 데이터 샘플 (${sampledPrevious.length}건, 전체 ${previousPeriodData.length}건 중):**
-${previousLedgerWorkbook ? '' : '※ 주의: 전기 계정별원장 데이터가 없어 당기 데이터를 참고용으로 제공합니다.\n'}
+${previousLedger ? '' : '※ 주의: 전기 계정별원장 데이터가 없어 당기 데이터를 참고용으로 제공합니다.\n'}
 ${sampledPrevious.slice(0, 10).map((row, idx) => 
   `${idx + 1}. ${JSON.stringify(row)}`
 ).join('\n')}
@@ -928,9 +931,64 @@ ${sampledPrevious.slice(0, 10).map((row, idx) =>
     }
   };
 
+  // 합계잔액시산표 + 재무제표 대사 Excel 다운로드
+  const handleDownloadTrialBalanceExcel = () => {
+    if (reconciliationRows.length === 0) {
+      toast({
+        title: '오류',
+        description: '다운로드할 데이터가 없습니다.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      const wb = XLSX.utils.book_new();
+
+      const trialBalanceData = trialBalanceRows.map(row => ({
+        '계정코드': row.accountCode || '',
+        '계정과목': row.accountName,
+        '잔액방향': row.normalSide === 'debit' ? '차변' : '대변',
+        '기초잔액': row.openingBalance,
+        '당기 차변': row.periodDebit,
+        '당기 대변': row.periodCredit,
+        '기말잔액': row.closingBalance,
+      }));
+      const ws1 = XLSX.utils.json_to_sheet(trialBalanceData);
+      ws1['!cols'] = [{ wch: 10 }, { wch: 25 }, { wch: 8 }, { wch: 15 }, { wch: 15 }, { wch: 15 }, { wch: 15 }];
+      XLSX.utils.book_append_sheet(wb, ws1, '합계잔액시산표');
+
+      const reconciliationData = reconciliationRows.map(row => ({
+        '계정과목': row.accountName,
+        '원장 기말잔액': row.trialBalance ? row.trialBalance.closingBalance : '',
+        '재무제표 과목': row.statementName || '',
+        '재무제표 당기': row.statementAmount ?? '',
+        '차이': row.difference,
+        '상태': RECONCILIATION_STATUS_LABELS[row.status],
+      }));
+      const ws2 = XLSX.utils.json_to_sheet(reconciliationData);
+      ws2['!cols'] = [{ wch: 25 }, { wch: 15 }, { wch: 25 }, { wch: 15 }, { wch: 15 }, { wch: 15 }];
+      XLSX.utils.book_append_sheet(wb, ws2, '재무제표대사');
+
+      const dateStr = new Date().toISOString().split('T')[0];
+      XLSX.writeFile(wb, `합계잔액시산표_대사_${dateStr}.xlsx`);
+
+      toast({
+        title: '다운로드 완료',
+        description: '엑셀 파일로 저장했습니다.',
+      });
+    } catch (error) {
+      toast({
+        title: '오류',
+        description: `다운로드 중 오류가 발생했습니다: ${error instanceof Error ? error.message : String(error)}`,
+        variant: 'destructive',
+      });
+    }
+  };
+
   // AI 분석 함수
   const handleAnalyzeAccount = async (accountName: string, changeAmount: number, isIncomeStatement: boolean = false) => {
-    if (!ledgerWorkbook || !getDataFromSheet) {
+    if (!ledger) {
       toast({
         title: '오류',
         description: '계정별원장 데이터가 없습니다.',
@@ -955,19 +1013,7 @@ ${sampledPrevious.slice(0, 10).map((row, idx) =>
       const normalizedAccountName = normalizeAccountName(accountName);
       
       // 계정별원장에서 일치하는 계정 찾기 (오류 없이 일치하는 것만)
-      const matchingSheets: Array<{ sheetName: string; data: LedgerRow[] }> = [];
-      
-      ledgerWorkbook.SheetNames.forEach(sheetName => {
-        const normalizedSheetName = normalizeAccountName(sheetName);
-        if (normalizedSheetName.includes(normalizedAccountName) || 
-            normalizedAccountName.includes(normalizedSheetName)) {
-          const worksheet = ledgerWorkbook.Sheets[sheetName];
-          const { data } = getDataFromSheet(worksheet);
-          if (data.length > 0) {
-            matchingSheets.push({ sheetName, data });
-          }
-        }
-      });
+      const matchingSheets = findMatchingLedgerAccounts(ledger, normalizedAccountName);
 
       if (matchingSheets.length === 0) {
         toast({
@@ -988,20 +1034,8 @@ ${sampledPrevious.slice(0, 10).map((row, idx) =>
       });
 
       // 전기 데이터 수집 (전기 계정별원장이 있으면 별도로 수집, 없으면 당기 데이터 사용)
-      if (previousLedgerWorkbook && getDataFromSheet) {
-        const previousMatchingSheets: Array<{ sheetName: string; data: LedgerRow[] }> = [];
-        
-        previousLedgerWorkbook.SheetNames.forEach(sheetName => {
-          const normalizedSheetName = normalizeAccountName(sheetName);
-          if (normalizedSheetName.includes(normalizedAccountName) || 
-              normalizedAccountName.includes(normalizedSheetName)) {
-            const worksheet = previousLedgerWorkbook.Sheets[sheetName];
-            const { data } = getDataFromSheet(worksheet);
-            if (data.length > 0) {
-              previousMatchingSheets.push({ sheetName, data });
-            }
-          }
-        });
+      if (previousLedger) {
+        const previousMatchingSheets = findMatchingLedgerAccounts(previousLedger, normalizedAccountName);
 
         previousMatchingSheets.forEach(({ data }) => {
           previousPeriodData.push(...data);
@@ -1040,7 +1074,7 @@ ${sampledCurrent.slice(0, 10).map((row, idx) =>
 ).join('\n')}
 
 **전기 데이터 샘플 (${sampledPrevious.length}건, 전체 ${previousPeriodData.length}건 중):**
-${previousLedgerWorkbook ? '' : '※ 주의: 전기 계정별원장 데이터가 없어 당기 데이터를 참고용으로 제공합니다.\n'}
+${previousLedger ? '' : '※ 주의: 전기 계정별원장 데이터가 없어 당기 데이터를 참고용으로 제공합니다.\n'}
 ${sampledPrevious.slice(0, 10).map((row, idx) => 
   `${idx + 1}. ${JSON.stringify(row)}`
 ).join('\n')}
@@ -1163,6 +1197,15 @@ ${sampledPrevious.slice(0, 10).map((row, idx) =>
             >
               재무비율
             </Button>
+            {ledger && (
+              <Button
+                variant={selectedView === 'trialBalance' ? 'default' : 'outline'}
+                onClick={() => setSelectedView('trialBalance')}
+                className="flex-1"
+              >
+                시산표 대사
+              </Button>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -1198,7 +1241,7 @@ ${sampledPrevious.slice(0, 10).map((row, idx) =>
                     <TableHead className="text-right">증감금액</TableHead>
                     <TableHead className="text-right">증감율 (%)</TableHead>
                     <TableHead className="text-center">유의적변동</TableHead>
-                    {ledgerWorkbook && getDataFromSheet && (
+                    {ledger && (
                       <TableHead className="text-center">AI 분석</TableHead>
                     )}
                   </TableRow>
@@ -1220,7 +1263,7 @@ ${sampledPrevious.slice(0, 10).map((row, idx) =>
                           <CheckCircle2 className="h-5 w-5 text-orange-500 mx-auto" />
                         )}
                       </TableCell>
-                      {ledgerWorkbook && getDataFromSheet && (
+                      {ledger && (
                         <TableCell className="text-center">
                           {row.유의적변동 && (
                             <div className="flex gap-2 justify-center">
@@ -1378,7 +1421,7 @@ ${sampledPrevious.slice(0, 10).map((row, idx) =>
                     <TableHead className="text-right">증감금액</TableHead>
                     <TableHead className="text-right">증감율 (%)</TableHead>
                     <TableHead className="text-center">유의적변동</TableHead>
-                    {ledgerWorkbook && getDataFromSheet && (
+                    {ledger && (
                       <TableHead className="text-center">AI 분석</TableHead>
                     )}
                   </TableRow>
@@ -1400,7 +1443,7 @@ ${sampledPrevious.slice(0, 10).map((row, idx) =>
                           <CheckCircle2 className="h-5 w-5 text-orange-500 mx-auto" />
                         )}
                       </TableCell>
-                      {ledgerWorkbook && getDataFromSheet && (
+                      {ledger && (
                         <TableCell className="text-center">
                           {row.유의적변동 && (
                             <div className="flex gap-2 justify-center">
@@ -1551,6 +1594,102 @@ ${sampledPrevious.slice(0, 10).map((row, idx) =>
         </Card>
       )}
 
+      {/* 합계잔액시산표 및 재무제표 대사 */}
+      {selectedView === 'trialBalance' && ledger && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle>합계잔액시산표 대사</CardTitle>
+                <CardDescription>
+                  계정별원장으로 집계한 기초잔액, 당기 차변/대변, 기말잔액을 재무제표 당기 금액과 계정별로 비교합니다.
+                </CardDescription>
+              </div>
+              <Button variant="outline" onClick={handleDownloadTrialBalanceExcel}>
+                <Download className="mr-2 h-4 w-4" />
+                엑셀 다운로드
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <Badge variant="outline">일치 {reconciliationSummary.matched}</Badge>
+              <Badge variant="destructive">차이 {reconciliationSummary.difference}</Badge>
+              <Badge variant="secondary">원장에만 있음 {reconciliationSummary.ledgerOnly}</Badge>
+              <Badge variant="secondary">재무제표에만 있음 {reconciliationSummary.statementOnly}</Badge>
+              <div className="flex items-center gap-2 ml-auto">
+                <Checkbox
+                  id="showDifferencesOnly"
+                  checked={showDifferencesOnly}
+                  onCheckedChange={(checked) => setShowDifferencesOnly(checked === true)}
+                />
+                <Label htmlFor="showDifferencesOnly" className="text-sm">차이 항목만 보기</Label>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              재무제표는 여러 계정을 묶어 표시하므로(예: 보통예금 → 현금및현금성자산) 계정명이 다르면 "원장에만 있음"으로 표시됩니다.
+            </p>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="min-w-[180px]">계정과목</TableHead>
+                    <TableHead className="text-right">기초잔액</TableHead>
+                    <TableHead className="text-right">당기 차변</TableHead>
+                    <TableHead className="text-right">당기 대변</TableHead>
+                    <TableHead className="text-right">기말잔액</TableHead>
+                    <TableHead className="text-right">재무제표 당기</TableHead>
+                    <TableHead className="text-right">차이</TableHead>
+                    <TableHead className="text-center">상태</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleReconciliationRows.map((row, index) => (
+                    <TableRow
+                      key={index}
+                      className={row.status === 'difference' ? 'bg-red-50' : row.status === 'matched' ? '' : 'bg-amber-50'}
+                    >
+                      <TableCell className="font-medium">
+                        {row.accountName}
+                        {row.statementName && row.statementName.trim() !== row.accountName && (
+                          <span className="block text-xs text-muted-foreground">{row.statementName.trim()}</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{row.trialBalance ? row.trialBalance.openingBalance.toLocaleString() : '-'}</TableCell>
+                      <TableCell className="text-right">{row.trialBalance ? row.trialBalance.periodDebit.toLocaleString() : '-'}</TableCell>
+                      <TableCell className="text-right">{row.trialBalance ? row.trialBalance.periodCredit.toLocaleString() : '-'}</TableCell>
+                      <TableCell className="text-right font-medium">{row.trialBalance ? row.trialBalance.closingBalance.toLocaleString() : '-'}</TableCell>
+                      <TableCell className="text-right">{row.statementAmount !== null ? row.statementAmount.toLocaleString() : '-'}</TableCell>
+                      <TableCell className={`text-right ${row.status === 'matched' ? '' : 'text-red-600 font-medium'}`}>
+                        {row.status === 'matched' ? '-' : row.difference.toLocaleString()}
+                      </TableCell>
+                      <TableCell className="text-center">
+                        <Badge variant={row.status === 'matched' ? 'outline' : row.status === 'difference' ? 'destructive' : 'secondary'}>
+                          {RECONCILIATION_STATUS_LABELS[row.status]}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  {trialBalanceRows.length > 0 && !showDifferencesOnly && (
+                    <TableRow className="font-bold bg-slate-50">
+                      <TableCell>합계</TableCell>
+                      <TableCell />
+                      <TableCell className="text-right">
+                        {trialBalanceRows.reduce((sum, row) => sum + row.periodDebit, 0).toLocaleString()}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {trialBalanceRows.reduce((sum, row) => sum + row.periodCredit, 0).toLocaleString()}
+                      </TableCell>
+                      <TableCell colSpan={4} />
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* 재무비율 분석 */}
       {selectedView === 'ratios' && (
       <div className="space-y-6">
@@ -0,0 +1,557 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import * as XLSX from 'xlsx';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { ArrowLeft, ClipboardCheck, Download, Loader2, RotateCcw } from 'lucide-react';
+import type { NormalizedLedger } from '@/lib/ledgerModel';
+import { normalizeDateKey } from '@/lib/holidayCalendar';
+import { loadResultFromActiveEngagement, saveResultToActiveEngagement } from '@/lib/engagementStore';
+import {
+  DEFAULT_JET_SETTINGS,
+  JET_RISK_LEVEL_LABELS,
+  JET_RULE_DESCRIPTIONS,
+  JET_RULE_IDS,
+  JET_RULE_LABELS,
+  getJetRiskLevel,
+  getJetSettings,
+  runJournalEntryTests,
+  saveJetSettings,
+  type JetResult,
+  type JetRiskLevel,
+  type JetRuleId,
+  type JetSettings,
+} from '@/lib/journalEntryTests';
+
+interface JournalEntryTestsProps {
+  ledger: NormalizedLedger;
+  onBack: () => void;
+}
+
+interface SavedJetRun {
+  settings: JetSettings;
+  result: JetResult;
+}
+
+const MAX_DISPLAY_ROWS = 300;
+
+const RISK_BADGE_VARIANTS: Record<JetRiskLevel, 'destructive' | 'default' | 'secondary'> = {
+  high: 'destructive',
+  medium: 'default',
+  low: 'secondary',
+};
+
+const parseThresholds = (text: string): number[] =>
+  text
+    .split(/[,\s]+/)
+    .map(v => Number(v.replace(/[^\d]/g, '')))
+    .filter(v => v > 0);
+
+export const JournalEntryTests: React.FC<JournalEntryTestsProps> = ({
+  ledger,
+  onBack,
+}) => {
+  const { toast } = useToast();
+  const [settings, setSettings] = useState<JetSettings>(() => getJetSettings());
+  const [thresholdText, setThresholdText] = useState<string>(() =>
+    getJetSettings().belowThreshold.thresholds.map(t => t.toLocaleString()).join(', ')
+  );
+  const [result, setResult] = useState<JetResult | null>(null);
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+  const [ruleFilter, setRuleFilter] = useState<JetRuleId | 'all'>('all');
+  const [levelFilter, setLevelFilter] = useState<JetRiskLevel | 'all'>('all');
+
+  // 감사 업무에 저장된 마지막 실행 결과 복원
+  useEffect(() => {
+    let cancelled = false;
+    loadResultFromActiveEngagement<SavedJetRun>('jet').then(saved => {
+      if (cancelled || !saved) return;
+      setResult(saved.result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const updateRule = <K extends JetRuleId>(ruleId: K, patch: Partial<JetSettings[K]>) => {
+    setSettings(prev => {
+      const next = { ...prev, [ruleId]: { ...prev[ruleId], ...patch } };
+      saveJetSettings(next);
+      return next;
+    });
+  };
+
+  const handleReset = () => {
+    saveJetSettings(DEFAULT_JET_SETTINGS);
+    setSettings(DEFAULT_JET_SETTINGS);
+    setThresholdText(DEFAULT_JET_SETTINGS.belowThreshold.thresholds.map(t => t.toLocaleString()).join(', '));
+  };
+
+  const handleRun = () => {
+    setIsRunning(true);
+    // 대용량 원장에서도 로딩 표시가 먼저 그려지도록 다음 틱에 실행
+    setTimeout(() => {
+      try {
+        const testResult = runJournalEntryTests(ledger, settings);
+        setResult(testResult);
+        saveResultToActiveEngagement('jet', '', { settings, result: testResult });
+        toast({
+          title: '분개 테스트 완료',
+          description: `${testResult.totalEntries.toLocaleString()}건 중 ${testResult.flagged.length.toLocaleString()}건이 하나 이상의 규칙에 해당합니다.`,
+        });
+      } catch (error) {
+        toast({
+          title: '오류',
+          description: error instanceof Error ? error.message : String(error),
+          variant: 'destructive',
+        });
+      } finally {
+        setIsRunning(false);
+      }
+    }, 0);
+  };
+
+  const levelCounts = useMemo(() => {
+    const counts: Record<JetRiskLevel, number> = { high: 0, medium: 0, low: 0 };
+    result?.flagged.forEach(item => {
+      counts[getJetRiskLevel(item.score)]++;
+    });
+    return counts;
+  }, [result]);
+
+  const filteredItems = useMemo(() => {
+    if (!result) return [];
+    return result.flagged.filter(item =>
+      (ruleFilter === 'all' || item.hits.some(h => h.ruleId === ruleFilter)) &&
+      (levelFilter === 'all' || getJetRiskLevel(item.score) === levelFilter)
+    );
+  }, [result, ruleFilter, levelFilter]);
+
+  const getRuleParameterText = (ruleId: JetRuleId): string => {
+    switch (ruleId) {
+      case 'holiday':
+        return settings.holiday.includeSaturday ? '토요일 포함' : '토요일 제외';
+      case 'roundAmount':
+        return `${settings.roundAmount.unit.toLocaleString()}원 단위, ${settings.roundAmount.minAmount.toLocaleString()}원 이상`;
+      case 'belowThreshold':
+        return `한도 ${settings.belowThreshold.thresholds.map(t => t.toLocaleString()).join(' / ')}원, 한도 아래 ${settings.belowThreshold.marginPercent}% 이내`;
+      case 'unusualPair':
+        return `조합 출현 ${settings.unusualPair.maxOccurrences}회 이하`;
+      case 'blankDescription':
+        return `적요 ${settings.blankDescription.minLength}자 미만`;
+      case 'postClosing':
+        return `결산일 ${result?.closingDate || settings.postClosing.closingDate || '회계연도 말일'}`;
+    }
+  };
+
+  const handleExport = () => {
+    if (!result) return;
+    try {
+      const wb = XLSX.utils.book_new();
+      const today = new Date().toISOString().split('T')[0];
+
+      // 1. 개요 (테스트 목적, 모집단, 규칙 설정)
+      const summaryRows: (string | number)[][] = [
+        ['분개 테스트 (Journal Entry Test) 조서'],
+        [],
+        ['작성일', today],
+        ['모집단 분개 라인 수', result.totalEntries],
+        ['규칙 해당 라인 수', result.flagged.length],
+        ['위험도 높음 (60점 이상)', levelCounts.high],
+        ['위험도 중간 (30~59점)', levelCounts.medium],
+        ['위험도 낮음 (30점 미만)', levelCounts.low],
+        [],
+        ['규칙', '사용', '가중치', '파라미터', '해당 건수', '비고'],
+        ...JET_RULE_IDS.map(ruleId => [
+          JET_RULE_LABELS[ruleId],
+          settings[ruleId].enabled ? 'O' : 'X',
+          settings[ruleId].weight,
+          getRuleParameterText(ruleId),
+          result.ruleCounts[ruleId],
+          result.skippedRules.find(s => s.ruleId === ruleId)?.reason || JET_RULE_DESCRIPTIONS[ruleId],
+        ]),
+        [],
+        ['위험 점수 = 해당 규칙 가중치 합 ÷ 사용 중인 규칙 가중치 합 × 100'],
+      ];
+      const wsSummary = XLSX.utils.aoa_to_sheet(summaryRows);
+      wsSummary['!cols'] = [{ wch: 24 }, { wch: 8 }, { wch: 8 }, { wch: 48 }, { wch: 12 }, { wch: 60 }];
+      XLSX.utils.book_append_sheet(wb, wsSummary, '개요');
+
+      // 2. 검토 대상 (라인별 규칙 해당 내역 + 검토 의견 작성란)
+      const detailRows = result.flagged.map((item, index) => {
+        const row: Record<string, string | number> = {
+          순번: index + 1,
+          위험점수: item.score,
+          위험도: JET_RISK_LEVEL_LABELS[getJetRiskLevel(item.score)],
+          일자: normalizeDateKey(item.entry.date) || String(item.entry.date ?? ''),
+          전표번호: item.entry.entryNumber !== undefined ? String(item.entry.entryNumber) : '',
+          계정과목: item.entry.accountName,
+          거래처: item.entry.vendor,
+          적요: item.entry.description,
+          차변: item.entry.debit,
+          대변: item.entry.credit,
+        };
+        JET_RULE_IDS.forEach(ruleId => {
+          row[JET_RULE_LABELS[ruleId]] = item.hits.find(h => h.ruleId === ruleId)?.reason || '';
+        });
+        row['검토 의견'] = '';
+        row['검토자'] = '';
+        return row;
+      });
+      const wsDetail = XLSX.utils.json_to_sheet(detailRows);
+      XLSX.utils.book_append_sheet(wb, wsDetail, '검토대상');
+
+      XLSX.writeFile(wb, `분개테스트_JET_${today}.xlsx`);
+      toast({
+        title: '성공',
+        description: '분개 테스트 조서를 다운로드했습니다.',
+      });
+    } catch (error) {
+      toast({
+        title: '오류',
+        description: `엑셀 다운로드 중 오류가 발생했습니다: ${error instanceof Error ? error.message : String(error)}`,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const renderRuleParameters = (ruleId: JetRuleId) => {
+    switch (ruleId) {
+      case 'holiday':
+        return (
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="jet-include-saturday"
+              checked={settings.holiday.includeSaturday}
+              onCheckedChange={(checked) => updateRule('holiday', { includeSaturday: checked === true })}
+            />
+            <Label htmlFor="jet-include-saturday" className="text-xs">토요일 포함</Label>
+          </div>
+        );
+      case 'roundAmount':
+        return (
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label className="text-xs">금액 단위 (원)</Label>
+              <Input
+                type="number"
+                value={settings.roundAmount.unit}
+                onChange={(e) => updateRule('roundAmount', { unit: Number(e.target.value) || 0 })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">최소 금액 (원)</Label>
+              <Input
+                type="number"
+                value={settings.roundAmount.minAmount}
+                onChange={(e) => updateRule('roundAmount', { minAmount: Number(e.target.value) || 0 })}
+              />
+            </div>
+          </div>
+        );
+      case 'belowThreshold':
+        return (
+          <div className="grid grid-cols-3 gap-2">
+            <div className="col-span-2 space-y-1">
+              <Label className="text-xs">승인한도 (원, 쉼표로 구분)</Label>
+              <Input
+                value={thresholdText}
+                onChange={(e) => setThresholdText(e.target.value)}
+                onBlur={() => updateRule('belowThreshold', { thresholds: parseThresholds(thresholdText) })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">한도 아래 (%)</Label>
+              <Input
+                type="number"
+                value={settings.belowThreshold.marginPercent}
+                onChange={(e) => updateRule('belowThreshold', { marginPercent: Number(e.target.value) || 0 })}
+              />
+            </div>
+          </div>
+        );
+      case 'unusualPair':
+        return (
+          <div className="space-y-1">
+            <Label className="text-xs">최대 출현 횟수</Label>
+            <Input
+              type="number"
+              value={settings.unusualPair.maxOccurrences}
+              onChange={(e) => updateRule('unusualPair', { maxOccurrences: Number(e.target.value) || 0 })}
+            />
+          </div>
+        );
+      case 'blankDescription':
+        return (
+          <div className="space-y-1">
+            <Label className="text-xs">최소 글자 수</Label>
+            <Input
+              type="number"
+              value={settings.blankDescription.minLength}
+              onChange={(e) => updateRule('blankDescription', { minLength: Number(e.target.value) || 0 })}
+            />
+          </div>
+        );
+      case 'postClosing':
+        return (
+          <div className="space-y-1">
+            <Label className="text-xs">결산 마감일 (비우면 회계연도 말일)</Label>
+            <Input
+              type="date"
+              value={settings.postClosing.closingDate}
+              onChange={(e) => updateRule('postClosing', { closingDate: e.target.value })}
+            />
+          </div>
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <ClipboardCheck className="h-5 w-5 text-primary" />
+                분개 테스트 (JET)
+              </CardTitle>
+              <CardDescription className="mt-2">
+                감사기준서 240의 분개 검토 기준을 전체 분개 라인에 적용하고, 해당한 규칙의 가중치로 라인별 위험 점수를 계산합니다.
+              </CardDescription>
+            </div>
+            <Button variant="ghost" onClick={onBack}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              뒤로가기
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {JET_RULE_IDS.map(ruleId => (
+              <div key={ruleId} className="rounded-lg border p-4 space-y-3">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="flex items-start gap-2">
+                    <Checkbox
+                      id={`jet-rule-${ruleId}`}
+                      checked={settings[ruleId].enabled}
+                      onCheckedChange={(checked) => updateRule(ruleId, { enabled: checked === true })}
+                      className="mt-0.5"
+                    />
+                    <div>
+                      <Label htmlFor={`jet-rule-${ruleId}`} className="font-semibold">{JET_RULE_LABELS[ruleId]}</Label>
+                      <p className="text-xs text-muted-foreground mt-1">{JET_RULE_DESCRIPTIONS[ruleId]}</p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Label className="text-xs text-muted-foreground">가중치</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={10}
+                      value={settings[ruleId].weight}
+                      onChange={(e) => updateRule(ruleId, { weight: Number(e.target.value) || 0 })}
+                      className="w-16 h-8"
+                    />
+                  </div>
+                </div>
+                {settings[ruleId].enabled && renderRuleParameters(ruleId)}
+              </div>
+            ))}
+          </div>
+
+          <div className="flex gap-2">
+            <Button onClick={handleRun} disabled={isRunning || JET_RULE_IDS.every(id => !settings[id].enabled)} className="flex-1">
+              {isRunning ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  분석 중...
+                </>
+              ) : (
+                '분개 테스트 실행'
+              )}
+            </Button>
+            <Button variant="outline" onClick={handleReset}>
+              <RotateCcw className="mr-2 h-4 w-4" />
+              기본값
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {result && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-muted-foreground">모집단 라인</p>
+                <p className="text-2xl font-bold">{result.totalEntries.toLocaleString()}건</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-muted-foreground">규칙 해당</p>
+                <p className="text-2xl font-bold">{result.flagged.length.toLocaleString()}건</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-muted-foreground">위험도 높음</p>
+                <p className="text-2xl font-bold text-red-600">{levelCounts.high.toLocaleString()}건</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-muted-foreground">위험도 중간</p>
+                <p className="text-2xl font-bold text-amber-600">{levelCounts.medium.toLocaleString()}건</p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">규칙별 해당 건수</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>규칙</TableHead>
+                    <TableHead>파라미터</TableHead>
+                    <TableHead className="text-right">가중치</TableHead>
+                    <TableHead className="text-right">해당 건수</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {JET_RULE_IDS.filter(ruleId => settings[ruleId].enabled).map(ruleId => {
+                    const skipped = result.skippedRules.find(s => s.ruleId === ruleId);
+                    return (
+                      <TableRow
+                        key={ruleId}
+                        className="cursor-pointer hover:bg-muted/50"
+                        onClick={() => setRuleFilter(ruleId)}
+                      >
+                        <TableCell className="font-medium">{JET_RULE_LABELS[ruleId]}</TableCell>
+                        <TableCell className="text-xs text-muted-foreground">
+                          {skipped ? <span className="text-amber-600">{skipped.reason}</span> : getRuleParameterText(ruleId)}
+                        </TableCell>
+                        <TableCell className="text-right">{settings[ruleId].weight}</TableCell>
+                        <TableCell className="text-right">{result.ruleCounts[ruleId].toLocaleString()}</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle className="text-lg">검토 대상 ({filteredItems.length.toLocaleString()}건)</CardTitle>
+                <div className="flex items-center gap-2">
+                  <Select value={ruleFilter} onValueChange={(value) => setRuleFilter(value as JetRuleId | 'all')}>
+                    <SelectTrigger className="w-[180px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">전체 규칙</SelectItem>
+                      {JET_RULE_IDS.map(ruleId => (
+                        <SelectItem key={ruleId} value={ruleId}>{JET_RULE_LABELS[ruleId]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select value={levelFilter} onValueChange={(value) => setLevelFilter(value as JetRiskLevel | 'all')}>
+                    <SelectTrigger className="w-[130px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">전체 위험도</SelectItem>
+                      {(['high', 'medium', 'low'] as JetRiskLevel[]).map(level => (
+                        <SelectItem key={level} value={level}>{JET_RISK_LEVEL_LABELS[level]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button variant="outline" size="sm" onClick={handleExport} disabled={result.flagged.length === 0}>
+                    <Download className="mr-2 h-4 w-4" />
+                    조서 다운로드
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="border rounded-lg max-h-[600px] overflow-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-[90px]">위험 점수</TableHead>
+                      <TableHead>일자</TableHead>
+                      <TableHead>전표번호</TableHead>
+                      <TableHead>계정과목</TableHead>
+                      <TableHead>거래처</TableHead>
+                      <TableHead>적요</TableHead>
+                      <TableHead className="text-right">금액</TableHead>
+                      <TableHead>해당 규칙</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredItems.length > 0 ? (
+                      filteredItems.slice(0, MAX_DISPLAY_ROWS).map((item, index) => {
+                        const level = getJetRiskLevel(item.score);
+                        return (
+                          <TableRow key={index}>
+                            <TableCell>
+                              <Badge variant={RISK_BADGE_VARIANTS[level]}>{item.score}</Badge>
+                            </TableCell>
+                            <TableCell className="whitespace-nowrap">
+                              {normalizeDateKey(item.entry.date) || String(item.entry.date ?? '')}
+                            </TableCell>
+                            <TableCell>{item.entry.entryNumber !== undefined ? String(item.entry.entryNumber) : '-'}</TableCell>
+                            <TableCell>{item.entry.accountName}</TableCell>
+                            <TableCell>{item.entry.vendor || '-'}</TableCell>
+                            <TableCell className="max-w-[200px] truncate" title={item.entry.description}>
+                              {item.entry.description || '-'}
+                            </TableCell>
+                            <TableCell className="text-right whitespace-nowrap">
+                              {item.entry.debit !== 0 ? `(차) ${item.entry.debit.toLocaleString()}` : `(대) ${item.entry.credit.toLocaleString()}`}
+                            </TableCell>
+                            <TableCell>
+                              <div className="flex flex-wrap gap-1">
+                                {item.hits.map(hit => (
+                                  <Badge key={hit.ruleId} variant="outline" className="text-xs" title={hit.reason}>
+                                    {JET_RULE_LABELS[hit.ruleId]}
+                                  </Badge>
+                                ))}
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })
+                    ) : (
+                      <TableRow>
+                        <TableCell colSpan={8} className="text-center text-muted-foreground">
+                          조건에 해당하는 분개가 없습니다.
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+              {filteredItems.length > MAX_DISPLAY_ROWS && (
+                <p className="text-xs text-muted-foreground mt-2">
+                  위험 점수 상위 {MAX_DISPLAY_ROWS}건만 표시합니다. 전체 내역은 조서 다운로드로 확인하세요.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+};
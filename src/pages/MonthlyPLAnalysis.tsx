@@ -47,6 +47,7 @@ const MonthlyPLAnalysis = () => {
         .from('general_ledgers')
         .select('*')
         .eq('user_id', userId)
+        .is('engagement_id', null) // 감사 업무 파일 행은 원본이 Storage에 있어 data가 비어 있음
         .order('created_at', { ascending: false })
         .limit(1)
         .maybeSingle();
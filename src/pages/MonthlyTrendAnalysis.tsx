@@ -10,99 +10,21 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { analyzeWithFlash, hasApiKey, estimateTokens, estimateCost } from '@/lib/geminiClient';
 import { getUsageSummary, type UsageSummary } from '@/lib/usageTracker';
-import { findDebitCreditHeaders } from '@/lib/headerUtils';
-import { VENDOR_KEYWORDS } from '@/lib/columnMapping';
+import { getAccountEntries, getEntryDate, type NormalizedLedger } from '@/lib/ledgerModel';
+import { classifyLedgerAccount } from '@/lib/chartOfAccounts';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Label } from '@/components/ui/label';
 
-type LedgerRow = { [key: string]: string | number | Date | undefined };
-
 interface MonthlyTrendAnalysisProps {
-  workbook: XLSX.WorkBook;
-  accountNames: string[];
+  ledger: NormalizedLedger;
   onBack: () => void;
 }
 
-const cleanAmount = (val: any): number => {
-  if (typeof val === 'string') {
-    return parseFloat(val.replace(/,/g, '')) || 0;
-  }
-  return typeof val === 'number' ? val : 0;
-};
-
-const robustFindHeader = (headers: string[], keywords: string[]): string | undefined => {
-  // 먼저 정확히 일치하는 헤더를 찾기
-  for (const h of headers) {
-    const cleanedHeader = (h || "").toLowerCase().replace(/\s/g, '').replace(/^\d+[_.-]?/, '');
-    for (const kw of keywords) {
-      const cleanedKw = kw.toLowerCase().replace(/\s/g, '');
-      // 정확히 일치하는 경우 우선 반환
-      if (cleanedHeader === cleanedKw) {
-        return h;
-      }
-    }
-  }
-  // 정확히 일치하는 것이 없으면 포함하는 경우 찾기
-  return headers.find(h => {
-    const cleanedHeader = (h || "").toLowerCase().replace(/\s/g, '').replace(/^\d+[_.-]?/, '');
-    return keywords.some(kw => {
-      const cleanedKw = kw.toLowerCase().replace(/\s/g, '');
-      return cleanedHeader.includes(cleanedKw);
-    });
-  });
-};
-
-const parseDate = (value: any): Date | null => {
-  if (value instanceof Date && !isNaN(value.getTime())) {
-    return value;
-  }
-  if (typeof value === 'string') {
-    const trimmed = value.trim();
-    const ymd = trimmed.match(/^(?<y>\d{4})[-/](?<month>\d{1,2})[-/](?<day>\d{1,2})$/);
-    if (ymd && ymd.groups) {
-      const y = parseInt(ymd.groups.y, 10);
-      const month = parseInt(ymd.groups.month, 10) - 1;
-      const day = parseInt(ymd.groups.day, 10);
-      const d = new Date(y, month, day);
-      if (!isNaN(d.getTime()) && d.getFullYear() === y && d.getMonth() === month && d.getDate() === day) {
-        return d;
-      }
-    }
-    const match = trimmed.match(/^(?<month>\d{1,2})[-/](?<day>\d{1,2})$/);
-    if (match && match.groups) {
-      const currentYear = new Date().getFullYear();
-      const month = parseInt(match.groups.month, 10) - 1;
-      const day = parseInt(match.groups.day, 10);
-      const d = new Date(currentYear, month, day);
-      if (d.getFullYear() === currentYear && d.getMonth() === month && d.getDate() === day) {
-        return d;
-      }
-    }
-  }
-  if (typeof value === 'number' && value > 1 && value < 50000) {
-    try {
-      const excelEpoch = new Date(Date.UTC(1899, 11, 30));
-      const date = new Date(excelEpoch.getTime() + value * 24 * 60 * 60 * 1000);
-      if (!isNaN(date.getTime())) return date;
-    } catch (e) { /* ignore */ }
-  }
-  return null;
-};
-
-const getDataFromSheet = (worksheet: XLSX.WorkSheet | undefined): { data: LedgerRow[], headers: string[] } => {
-  if (!worksheet) return { data: [], headers: [] };
-  
-  const rawData = XLSX.utils.sheet_to_json<LedgerRow>(worksheet);
-  const headers = rawData.length > 0 ? Object.keys(rawData[0]) : [];
-  
-  return { data: rawData, headers };
-};
-
 export const MonthlyTrendAnalysis: React.FC<MonthlyTrendAnalysisProps> = ({
-  workbook,
-  accountNames,
+  ledger,
   onBack,
 }) => {
+  const accountNames = ledger.accountNames;
   const { toast } = useToast();
   const [selectedAccounts, setSelectedAccounts] = useState<Set<string>>(new Set());
   const [salesAnalysis, setSalesAnalysis] = useState<string>('');
@@ -125,98 +47,18 @@ export const MonthlyTrendAnalysis: React.FC<MonthlyTrendAnalysisProps> = ({
     const manufacturing: string[] = [];
     
     accountNames.forEach(name => {
-      // 매출 계정: 괄호 앞부분이 '매출', '매출액', '수입'(임대료수입 등)으로 끝나는 계정
-      const nameWithoutCode = name.split(/[\(（]/)[0].trim();
-      const normalized = nameWithoutCode.replace(/\s/g, '').trim();
-      const isSalesAccount = normalized.endsWith('매출') || normalized.endsWith('매출액') || normalized.endsWith('수입');
-      
-      if (isSalesAccount) {
+      const { category } = classifyLedgerAccount(ledger, name);
+      if (category === 'revenue') {
         sales.push(name);
-      } else {
-        // 판관비 계정: 계정명(판) 또는 계정명(8xxxx) 또는 계정명(판)(8xxxx) 형식만
-        let isExpenseAccount = false;
-        
-        // 괄호 안의 내용 추출 (모든 괄호 쌍 찾기)
-        const bracketMatches = name.matchAll(/[\(（]\s*([^\)）]+)\s*[\)）]/g);
-        const bracketContents: string[] = [];
-        for (const match of bracketMatches) {
-          if (match[1]) {
-            bracketContents.push(match[1].trim());
-          }
-        }
-        
-        // 판관비 조건 확인
-        if (bracketContents.length > 0) {
-          // 1. (판)이 있는 경우
-          const hasPan = bracketContents.some(content => content === '판');
-          
-          // 2. 8로 시작하는 숫자가 있는 경우 (8xxxx 형식)
-          const has8xxxx = bracketContents.some(content => {
-            const numMatch = content.match(/^(\d+)$/);
-            return numMatch && numMatch[1].startsWith('8');
-          });
-          
-          // 판관비 조건: (판) 또는 (8xxxx) 또는 둘 다
-          isExpenseAccount = hasPan || has8xxxx;
-          
-          // 디버깅 로그
-          if (isExpenseAccount) {
-            console.log(`✅ 판관비 계정 발견: "${name}"`, {
-              괄호내용: bracketContents,
-              hasPan,
-              has8xxxx
-            });
-          }
-        }
-        
-        if (isExpenseAccount) {
-          expenses.push(name);
-        } else {
-          // 제조원가 계정: 계정명(제) 또는 계정명(5xxxx) 또는 계정명(제)(5xxxx) 형식만
-          let isManufacturingAccount = false;
-          
-          // 괄호 안의 내용 추출 (모든 괄호 쌍 찾기)
-          const bracketMatches = name.matchAll(/[\(（]\s*([^\)）]+)\s*[\)）]/g);
-          const bracketContents: string[] = [];
-          for (const match of bracketMatches) {
-            if (match[1]) {
-              bracketContents.push(match[1].trim());
-            }
-          }
-          
-          // 제조원가 조건 확인
-          if (bracketContents.length > 0) {
-            // 1. (제)가 있는 경우
-            const hasJe = bracketContents.some(content => content === '제');
-            
-            // 2. 5로 시작하는 숫자가 있는 경우 (5xxxx 형식)
-            const has5xxxx = bracketContents.some(content => {
-              const numMatch = content.match(/^(\d+)$/);
-              return numMatch && numMatch[1].startsWith('5');
-            });
-            
-            // 제조원가 조건: (제) 또는 (5xxxx) 또는 둘 다
-            isManufacturingAccount = hasJe || has5xxxx;
-            
-            // 디버깅 로그
-            if (isManufacturingAccount) {
-              console.log(`✅ 제조원가 계정 발견: "${name}"`, {
-                괄호내용: bracketContents,
-                hasJe,
-                has5xxxx
-              });
-            }
-          }
-          
-          if (isManufacturingAccount) {
-            manufacturing.push(name);
-          }
-        }
+      } else if (category === 'sga') {
+        expenses.push(name);
+      } else if (category === 'manufacturing') {
+        manufacturing.push(name);
       }
     });
     
     return { sales, expenses, manufacturing };
-  }, [accountNames]);
+  }, [accountNames, ledger]);
 
   // 월별 데이터 집계 (시트별 계정 vs 단일 시트+계정 컬럼 모두 지원)
   const monthlyData = useMemo(() => {
@@ -230,64 +72,25 @@ export const MonthlyTrendAnalysis: React.FC<MonthlyTrendAnalysisProps> = ({
     });
 
     selectedAccounts.forEach(accountName => {
-      let ledgerRows: LedgerRow[] = [];
-      let headers: string[] = [];
-
-      const sheetByName = workbook.Sheets[accountName];
-      if (sheetByName) {
-        const result = getDataFromSheet(sheetByName);
-        ledgerRows = result.data;
-        headers = result.headers;
-      } else {
-        // 단일 시트 모드: 첫 시트에서 계정 컬럼으로 해당 계정 행만 필터
-        const firstSheetName = workbook.SheetNames[0];
-        const firstSheet = workbook.Sheets[firstSheetName];
-        if (!firstSheet) return;
-        const result = getDataFromSheet(firstSheet);
-        headers = result.headers;
-        const accountHeader = robustFindHeader(headers, ['계정과목', '계정명', '계정', 'account']);
-        if (!accountHeader) return;
-        ledgerRows = result.data.filter(
-          row => String(row[accountHeader] || '').trim() === accountName
-        );
-      }
-
-      if (ledgerRows.length === 0) return;
-
-      const dateHeader = robustFindHeader(headers, ['일자', '날짜', '거래일', 'date']) ||
-                         headers.find(h => h.includes('일자') || h.includes('날짜'));
-      const { debitHeader, creditHeader } = findDebitCreditHeaders(headers, ledgerRows, dateHeader);
-      
-      if (!dateHeader) {
-        console.warn(`⚠️ [${accountName}] 날짜 헤더를 찾을 수 없습니다.`, headers);
-        return;
-      }
+      // 월계/누계/전기이월 행은 통합 원장에서 제외됨
+      const entries = getAccountEntries(ledger, accountName);
+      if (entries.length === 0) return;
       
       const isSalesAccount = categorizedAccounts.sales.includes(accountName);
       let processedCount = 0;
       let validDateCount = 0;
       let amountCount = 0;
       
-      ledgerRows.forEach(row => {
+      entries.forEach(entry => {
         processedCount++;
-        let date = row[dateHeader];
-        
-        // Date 객체가 아니면 파싱 시도
-        if (!(date instanceof Date)) {
-          date = parseDate(date);
-        }
-        
-        if (!(date instanceof Date)) {
-          return;
-        }
+        const date = getEntryDate(entry);
+        if (!date) return;
         
         validDateCount++;
         const month = date.getMonth() + 1;
-        const debit = debitHeader ? cleanAmount(row[debitHeader]) : 0;
-        const credit = creditHeader ? cleanAmount(row[creditHeader]) : 0;
         
         // 매출=대변, 판관비/제조원가=차변만 사용 (대변 금액 사용 안 함)
-        const amount = isSalesAccount ? credit : debit;
+        const amount = isSalesAccount ? entry.credit : entry.debit;
         
         if (amount !== 0) {
           amountCount++;
@@ -301,15 +104,13 @@ export const MonthlyTrendAnalysis: React.FC<MonthlyTrendAnalysisProps> = ({
           전체행: processedCount,
           유효날짜: validDateCount,
           금액있는행: amountCount,
-          dateHeader,
-          creditHeader,
           총대변금액: Object.values(monthlyDataMap[accountName] || {}).reduce((a, b) => a + b, 0)
         });
       }
     });
 
     return monthlyDataMap;
-  }, [workbook, selectedAccounts, categorizedAccounts]);
+  }, [ledger, selectedAccounts, categorizedAccounts]);
 
   // 월별 합계
   const monthlyTotals = useMemo(() => {
@@ -391,42 +192,12 @@ export const MonthlyTrendAnalysis: React.FC<MonthlyTrendAnalysisProps> = ({
     }
 
     selectedAccounts.forEach(accountName => {
-      let ledgerRows: LedgerRow[] = [];
-      let headers: string[] = [];
-      const sheetByName = workbook.Sheets[accountName];
-      if (sheetByName) {
-        const result = getDataFromSheet(sheetByName);
-        ledgerRows = result.data;
-        headers = result.headers;
-      } else {
-        const firstSheetName = workbook.SheetNames[0];
-        const firstSheet = workbook.Sheets[firstSheetName];
-        if (!firstSheet) return;
-        const result = getDataFromSheet(firstSheet);
-        headers = result.headers;
-        const accountHeader = robustFindHeader(headers, ['계정과목', '계정명', '계정', 'account']);
-        if (!accountHeader) return;
-        ledgerRows = result.data.filter(
-          row => String(row[accountHeader] || '').trim() === accountName
-        );
-      }
-      if (ledgerRows.length === 0) return;
-
-      const dateHeader = robustFindHeader(headers, ['일자', '날짜', '거래일', 'date']) ||
-        headers.find(h => h.includes('일자') || h.includes('날짜'));
-      const vendorHeader = robustFindHeader(headers, VENDOR_KEYWORDS) ||
-        headers.find(h => h && (h.includes('거래처') || h.toLowerCase().includes('vendor')));
-      const { debitHeader, creditHeader } = findDebitCreditHeaders(headers, ledgerRows, dateHeader);
-      if (!dateHeader) return;
-
-      ledgerRows.forEach(row => {
-        let date = row[dateHeader];
-        if (!(date instanceof Date)) date = parseDate(date);
-        if (!(date instanceof Date)) return;
+      getAccountEntries(ledger, accountName).forEach(entry => {
+        const date = getEntryDate(entry);
+        if (!date) return;
         const month = date.getMonth() + 1;
-        const vendor = vendorHeader ? String(row[vendorHeader] || '').trim() || '(거래처 없음)' : '(거래처 없음)';
-        const debit = debitHeader ? cleanAmount(row[debitHeader]) : 0;
-        const credit = creditHeader ? cleanAmount(row[creditHeader]) : 0;
+        const vendor = entry.vendor.trim() || '(거래처 없음)';
+        const { debit, credit } = entry;
 
         const monthMap = byMonth.get(month)!;
         if (!monthMap.has(vendor)) monthMap.set(vendor, { debit: 0, credit: 0 });
@@ -444,7 +215,7 @@ export const MonthlyTrendAnalysis: React.FC<MonthlyTrendAnalysisProps> = ({
     });
 
     return { monthlyVendorAmounts: byMonth, monthlyTotalsBySide: totalsBySide };
-  }, [workbook, selectedAccounts]);
+  }, [ledger, selectedAccounts]);
 
   // setTop10Month in useMemo causes issues; compute monthsWithData without side filter for initial list
   const allMonthsWithData = useMemo(() => {
@@ -890,53 +661,38 @@ ${monthlyDataText}
     const lines: string[] = [];
     lines.push('=== 엑셀 구조 요약 ===');
     lines.push('');
-    lines.push('시트 목록: ' + (workbook.SheetNames?.length ?? 0) + '개');
-    (workbook.SheetNames || []).forEach((name, i) => {
-      lines.push('  ' + (i + 1) + '. ' + name);
+    lines.push('시트 목록: ' + ledger.sheets.length + '개');
+    ledger.sheets.forEach((sheet, i) => {
+      lines.push('  ' + (i + 1) + '. ' + sheet.sheetName + ' (' + sheet.rowCount + '행)');
     });
-    const firstSheetName = workbook.SheetNames?.[0];
-    if (!firstSheetName) {
+    lines.push('계정 구분 방식: ' + (ledger.accountSource === 'column' ? '계정과목 컬럼' : '시트명'));
+    const firstSheet = ledger.sheets[0];
+    if (!firstSheet) {
       lines.push('');
       lines.push('데이터 시트 없음.');
       return lines.join('\n');
     }
-    const firstSheet = workbook.Sheets[firstSheetName];
-    const { data: firstData, headers: firstHeaders } = getDataFromSheet(firstSheet);
     lines.push('');
-    lines.push('첫 번째 시트: "' + firstSheetName + '"');
-    lines.push('  행 수(헤더 제외): ' + firstData.length);
-    lines.push('  컬럼(헤더): ' + firstHeaders.join(' | '));
-    const accountHeader = robustFindHeader(firstHeaders, ['계정과목', '계정명', '계정', 'account']);
-    if (accountHeader) {
-      const uniq = new Set<string>();
-      firstData.forEach(row => {
-        const v = String(row[accountHeader] ?? '').trim();
-        if (v) uniq.add(v);
-      });
-      const arr = Array.from(uniq).slice(0, 15);
-      lines.push('  계정 컬럼 "' + accountHeader + '" 샘플 값: ' + arr.join(', ') + (uniq.size > 15 ? ' ... (총 ' + uniq.size + '개)' : ''));
-    } else {
-      lines.push('  계정 컬럼: 인식 안 됨 (계정과목/계정명/계정 키워드 없음)');
-    }
+    lines.push('첫 번째 시트: "' + firstSheet.sheetName + '"');
+    lines.push('  컬럼(헤더): ' + firstSheet.headers.join(' | '));
+    lines.push('  컬럼 매핑:');
+    Object.entries(firstSheet.mapping).forEach(([field, header]) => {
+      lines.push('    ' + field + ' → ' + (header || '인식 안 됨'));
+    });
     const sampleAccount = accountNames[0] || Array.from(selectedAccounts)[0];
     if (sampleAccount) {
-      const hasSheet = !!workbook.Sheets[sampleAccount];
+      const sampleEntries = getAccountEntries(ledger, sampleAccount);
       lines.push('');
       lines.push('샘플 계정: "' + sampleAccount + '"');
-      lines.push('  이 이름의 시트 존재 여부: ' + (hasSheet ? '예' : '아니오'));
-      if (!hasSheet && accountHeader && firstData.length > 0) {
-        const matchCount = firstData.filter(row => String(row[accountHeader] ?? '').trim() === sampleAccount).length;
-        lines.push('  단일 시트 모드에서 해당 계정 행 수: ' + matchCount);
+      lines.push('  거래 행 수(월계/누계/전기이월 제외): ' + sampleEntries.length);
+      if (sampleEntries.length > 0) {
+        lines.push('');
+        lines.push('첫 행 데이터 (컬럼: 값):');
+        Object.entries(sampleEntries[0].raw || {}).forEach(([h, v]) => {
+          lines.push('  ' + h + ': ' + (v ?? ''));
+        });
       }
     }
-    if (firstData.length > 0) {
-      lines.push('');
-      lines.push('첫 행 데이터 (컬럼: 값):');
-      const row = firstData[0];
-      firstHeaders.forEach(h => {
-        lines.push('  ' + h + ': ' + (row[h] ?? ''));
-      });
-    }
     return lines.join('\n');
   };
 
@@ -0,0 +1,522 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import * as XLSX from 'xlsx';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { DataGrid } from '@/components/DataGrid';
+import { createRecordColumns, getIndexRowKey } from '@/lib/dataGridColumns';
+import { loadResultFromActiveEngagement, saveResultToActiveEngagement } from '@/lib/engagementStore';
+import { useToast } from '@/hooks/use-toast';
+import { ArrowLeft, Copy, Download, Loader2, Scaling } from 'lucide-react';
+import { getPostingEntries, toLedgerRows, type NormalizedLedger } from '@/lib/ledgerModel';
+import type { LedgerRow } from '@/lib/excelHelpers';
+import { normalizeDateKey } from '@/lib/holidayCalendar';
+import {
+  DEFAULT_NUMBER_DUPLICATION_OPTIONS,
+  DEFAULT_RSF_OPTIONS,
+  DUPLICATION_GROUP_LABELS,
+  calculateRelativeSizeFactors,
+  findNumberDuplications,
+  type DuplicationGroupBy,
+  type NumberDuplication,
+  type NumberDuplicationOptions,
+  type RelativeSizeFactor,
+  type RelativeSizeFactorOptions,
+} from '@/lib/numberForensics';
+import type { JournalEntry } from '@/types/analysis';
+
+interface NumberForensicsAnalysisProps {
+  ledger: NormalizedLedger;
+  onBack: () => void;
+}
+
+interface ForensicsResult {
+  totalEntries: number;
+  duplications: NumberDuplication[];
+  factors: RelativeSizeFactor[];
+}
+
+interface SavedNumberForensicsRun {
+  duplicationOptions: NumberDuplicationOptions;
+  rsfOptions: RelativeSizeFactorOptions;
+  result: ForensicsResult;
+}
+
+interface DetailView {
+  title: string;
+  rows: LedgerRow[];
+}
+
+const MAX_DISPLAY_ROWS = 100;
+
+const formatEntryDate = (entry: JournalEntry): string =>
+  normalizeDateKey(entry.date) || String(entry.date ?? '');
+
+export const NumberForensicsAnalysis: React.FC<NumberForensicsAnalysisProps> = ({
+  ledger,
+  onBack,
+}) => {
+  const { toast } = useToast();
+  const [groupBy, setGroupBy] = useState<DuplicationGroupBy>(DEFAULT_NUMBER_DUPLICATION_OPTIONS.groupBy);
+  const [duplicationMinAmount, setDuplicationMinAmount] = useState<number>(DEFAULT_NUMBER_DUPLICATION_OPTIONS.minAmount);
+  const [duplicationMinCount, setDuplicationMinCount] = useState<number>(DEFAULT_NUMBER_DUPLICATION_OPTIONS.minCount);
+  const [rsfMinAmount, setRsfMinAmount] = useState<number>(DEFAULT_RSF_OPTIONS.minAmount);
+  const [rsfThreshold, setRsfThreshold] = useState<number>(DEFAULT_RSF_OPTIONS.threshold);
+  const [result, setResult] = useState<ForensicsResult | null>(null);
+  const [isRunning, setIsRunning] = useState<boolean>(false);
+  const [showFlaggedOnly, setShowFlaggedOnly] = useState<boolean>(true);
+  const [detailView, setDetailView] = useState<DetailView | null>(null);
+
+  const postingEntries = useMemo(() => getPostingEntries(ledger), [ledger]);
+
+  // 활성 업무에 저장된 마지막 분석 결과와 설정 복원
+  useEffect(() => {
+    let cancelled = false;
+    loadResultFromActiveEngagement<SavedNumberForensicsRun>('number_forensics').then(saved => {
+      if (cancelled || !saved) return;
+      setGroupBy(saved.duplicationOptions.groupBy);
+      setDuplicationMinAmount(saved.duplicationOptions.minAmount);
+      setDuplicationMinCount(saved.duplicationOptions.minCount);
+      setRsfMinAmount(saved.rsfOptions.minAmount);
+      setRsfThreshold(saved.rsfOptions.threshold);
+      setResult(saved.result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const detailColumns = useMemo(
+    () => createRecordColumns<LedgerRow>(Object.keys(detailView?.rows[0] || {})),
+    [detailView]
+  );
+
+  const flaggedFactors = useMemo(() => result?.factors.filter(f => f.flagged) ?? [], [result]);
+  const visibleFactors = showFlaggedOnly ? flaggedFactors : result?.factors ?? [];
+
+  const handleRun = () => {
+    setIsRunning(true);
+    // 대용량 원장에서도 로딩 표시가 먼저 그려지도록 다음 틱에 실행
+    setTimeout(() => {
+      try {
+        const duplicationOptions: NumberDuplicationOptions = {
+          groupBy,
+          minAmount: duplicationMinAmount,
+          minCount: duplicationMinCount,
+        };
+        const rsfOptions: RelativeSizeFactorOptions = { minAmount: rsfMinAmount, threshold: rsfThreshold };
+        const duplications = findNumberDuplications(postingEntries, duplicationOptions);
+        const factors = calculateRelativeSizeFactors(postingEntries, rsfOptions);
+        const forensics: ForensicsResult = { totalEntries: postingEntries.length, duplications, factors };
+        setResult(forensics);
+        saveResultToActiveEngagement('number_forensics', '', { duplicationOptions, rsfOptions, result: forensics });
+        toast({
+          title: '분석 완료',
+          description: `반복 금액 ${duplications.length.toLocaleString()}건, RSF ${rsfThreshold} 이상 거래처 ${factors.filter(f => f.flagged).length.toLocaleString()}곳을 찾았습니다.`,
+        });
+      } catch (error) {
+        toast({
+          title: '오류',
+          description: error instanceof Error ? error.message : String(error),
+          variant: 'destructive',
+        });
+      } finally {
+        setIsRunning(false);
+      }
+    }, 0);
+  };
+
+  const openDuplicationDetail = (item: NumberDuplication) => {
+    setDetailView({
+      title: `${item.group} · ${item.amount.toLocaleString()}원 반복`,
+      rows: toLedgerRows(item.entries),
+    });
+  };
+
+  const openFactorDetail = (item: RelativeSizeFactor) => {
+    setDetailView({
+      title: `${item.vendor} · RSF ${item.rsf.toFixed(2)} (금액 내림차순)`,
+      rows: toLedgerRows(item.entries),
+    });
+  };
+
+  const handleExport = () => {
+    if (!result) return;
+    try {
+      const wb = XLSX.utils.book_new();
+      const today = new Date().toISOString().split('T')[0];
+
+      const summaryRows: (string | number)[][] = [
+        ['숫자 중복 · 상대적 크기 비율(RSF) 검정'],
+        [],
+        ['항목', '값'],
+        ['작성일', today],
+        ['모집단 분개 라인 수', result.totalEntries],
+        [],
+        ['숫자 중복 기준', DUPLICATION_GROUP_LABELS[groupBy]],
+        ['최소 금액', duplicationMinAmount],
+        ['최소 반복 횟수', duplicationMinCount],
+        ['반복 금액 수', result.duplications.length],
+        [],
+        ['RSF 최소 금액 (두 번째 거래)', rsfMinAmount],
+        ['RSF 검토 기준', rsfThreshold],
+        ['RSF 계산 거래처 수', result.factors.length],
+        ['RSF 검토 대상 거래처 수', flaggedFactors.length],
+        [],
+        ['숫자 중복 순위 = 반복 건수 × 금액, RSF = 최대 거래 ÷ 두 번째로 큰 거래'],
+      ];
+      const wsSummary = XLSX.utils.aoa_to_sheet(summaryRows);
+      wsSummary['!cols'] = [{ wch: 30 }, { wch: 20 }];
+      XLSX.utils.book_append_sheet(wb, wsSummary, '개요');
+
+      const duplicationRows = result.duplications.map((item, index) => ({
+        순위: index + 1,
+        [DUPLICATION_GROUP_LABELS[groupBy]]: item.group,
+        금액: item.amount,
+        반복건수: item.count,
+        '건수×금액': item.totalAmount,
+        그룹건수: item.groupCount,
+        '그룹 내 비율(%)': Number(((item.count / item.groupCount) * 100).toFixed(1)),
+        최초일자: formatEntryDate(item.entries[0]),
+        최종일자: formatEntryDate(item.entries[item.entries.length - 1]),
+      }));
+      XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(duplicationRows), '숫자중복');
+
+      const factorRows = result.factors.map((item, index) => ({
+        순위: index + 1,
+        거래처: item.vendor,
+        RSF: Number(item.rsf.toFixed(2)),
+        검토대상: item.flagged ? 'O' : '',
+        최대금액: item.largestAmount,
+        최대거래일자: formatEntryDate(item.largest),
+        최대거래계정: item.largest.accountName,
+        최대거래적요: item.largest.description,
+        두번째금액: item.secondLargestAmount,
+        두번째거래일자: formatEntryDate(item.secondLargest),
+        거래건수: item.count,
+        거래금액합계: item.totalAmount,
+      }));
+      XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(factorRows), 'RSF');
+
+      // 검토 대상 거래처의 최대 거래 원장 행
+      const flaggedRows = flaggedFactors.flatMap(item =>
+        toLedgerRows([item.largest]).map(row => ({ 거래처: item.vendor, RSF: Number(item.rsf.toFixed(2)), ...row }))
+      );
+      if (flaggedRows.length > 0) {
+        XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(flaggedRows), 'RSF검토대상');
+      }
+
+      XLSX.writeFile(wb, `숫자중복_RSF_${today}.xlsx`);
+      toast({
+        title: '성공',
+        description: '숫자 중복 · RSF 검정 결과를 다운로드했습니다.',
+      });
+    } catch (error) {
+      toast({
+        title: '오류',
+        description: `엑셀 다운로드 중 오류가 발생했습니다: ${error instanceof Error ? error.message : String(error)}`,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Copy className="h-5 w-5 text-primary" />
+                숫자 중복 · 상대적 크기 비율(RSF) 검정
+              </CardTitle>
+              <CardDescription className="mt-2">
+                계정·거래처별로 같은 금액이 반복된 거래와, 거래처의 최대 거래가 두 번째로 큰 거래보다 유난히 큰 경우를 찾습니다.
+              </CardDescription>
+            </div>
+            <Button variant="ghost" onClick={onBack}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              뒤로가기
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="rounded-lg border p-4 space-y-3">
+              <div>
+                <Label className="font-semibold">숫자 중복 (Number Duplication)</Label>
+                <p className="text-xs text-muted-foreground mt-1">
+                  같은 금액이 여러 번 반복된 경우를 반복 건수 × 금액 순으로 정렬합니다. 분할 청구나 정기 지급을 가장한 거래를 찾는 데 씁니다.
+                </p>
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                <div className="space-y-1">
+                  <Label className="text-xs">기준</Label>
+                  <Select value={groupBy} onValueChange={(value) => setGroupBy(value as DuplicationGroupBy)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(DUPLICATION_GROUP_LABELS) as DuplicationGroupBy[]).map(key => (
+                        <SelectItem key={key} value={key}>{DUPLICATION_GROUP_LABELS[key]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">최소 금액 (원)</Label>
+                  <Input
+                    type="number"
+                    value={duplicationMinAmount}
+                    onChange={(e) => setDuplicationMinAmount(Number(e.target.value) || 0)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">최소 반복 횟수</Label>
+                  <Input
+                    type="number"
+                    min={2}
+                    value={duplicationMinCount}
+                    onChange={(e) => setDuplicationMinCount(Number(e.target.value) || 2)}
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div className="rounded-lg border p-4 space-y-3">
+              <div>
+                <Label className="font-semibold">상대적 크기 비율 (Relative Size Factor)</Label>
+                <p className="text-xs text-muted-foreground mt-1">
+                  거래처별 최대 거래 ÷ 두 번째로 큰 거래입니다. 값이 크면 자릿수 입력 오류나 일회성으로 부풀린 청구서일 수 있습니다.
+                </p>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                  <Label className="text-xs">두 번째 거래 최소 금액 (원)</Label>
+                  <Input
+                    type="number"
+                    value={rsfMinAmount}
+                    onChange={(e) => setRsfMinAmount(Number(e.target.value) || 0)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">검토 기준 (RSF 이상)</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    step="0.5"
+                    value={rsfThreshold}
+                    onChange={(e) => setRsfThreshold(Number(e.target.value) || 1)}
+                  />
+                </div>
+              </div>
+            </div>
+          </div>
+
+          <Button onClick={handleRun} disabled={isRunning || postingEntries.length === 0} className="w-full">
+            {isRunning ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                분석 중...
+              </>
+            ) : (
+              '검정 실행'
+            )}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {result && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-muted-foreground">모집단 라인</p>
+                <p className="text-2xl font-bold">{result.totalEntries.toLocaleString()}건</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-muted-foreground">반복 금액</p>
+                <p className="text-2xl font-bold">{result.duplications.length.toLocaleString()}건</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-muted-foreground">RSF 계산 거래처</p>
+                <p className="text-2xl font-bold">{result.factors.length.toLocaleString()}곳</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-muted-foreground">RSF 검토 대상</p>
+                <p className="text-2xl font-bold text-red-600">{flaggedFactors.length.toLocaleString()}곳</p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    <Copy className="h-5 w-5" />
+                    숫자 중복 순위 ({DUPLICATION_GROUP_LABELS[groupBy]}별)
+                  </CardTitle>
+                  <CardDescription className="mt-1">행을 클릭하면 해당 금액의 원장 행을 확인합니다.</CardDescription>
+                </div>
+                <Button variant="outline" size="sm" onClick={handleExport}>
+                  <Download className="mr-2 h-4 w-4" />
+                  엑셀 다운로드
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="border rounded-lg max-h-[500px] overflow-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-[60px]">순위</TableHead>
+                      <TableHead>{DUPLICATION_GROUP_LABELS[groupBy]}</TableHead>
+                      <TableHead className="text-right">금액</TableHead>
+                      <TableHead className="text-right">반복 건수</TableHead>
+                      <TableHead className="text-right">건수 × 금액</TableHead>
+                      <TableHead className="text-right">그룹 내 비율</TableHead>
+                      <TableHead>기간</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {result.duplications.length > 0 ? (
+                      result.duplications.slice(0, MAX_DISPLAY_ROWS).map((item, index) => (
+                        <TableRow
+                          key={`${item.group}-${item.amount}`}
+                          className="cursor-pointer hover:bg-muted/50"
+                          onClick={() => openDuplicationDetail(item)}
+                        >
+                          <TableCell>{index + 1}</TableCell>
+                          <TableCell className="font-medium">{item.group}</TableCell>
+                          <TableCell className="text-right">{item.amount.toLocaleString()}</TableCell>
+                          <TableCell className="text-right">{item.count.toLocaleString()}</TableCell>
+                          <TableCell className="text-right font-semibold">{item.totalAmount.toLocaleString()}</TableCell>
+                          <TableCell className="text-right">{((item.count / item.groupCount) * 100).toFixed(1)}%</TableCell>
+                          <TableCell className="text-xs whitespace-nowrap">
+                            {formatEntryDate(item.entries[0])} ~ {formatEntryDate(item.entries[item.entries.length - 1])}
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    ) : (
+                      <TableRow>
+                        <TableCell colSpan={7} className="text-center text-muted-foreground">
+                          조건에 해당하는 반복 금액이 없습니다.
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+              {result.duplications.length > MAX_DISPLAY_ROWS && (
+                <p className="text-xs text-muted-foreground mt-2">
+                  상위 {MAX_DISPLAY_ROWS}건만 표시합니다. 전체 순위는 엑셀 다운로드로 확인하세요.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle className="text-lg flex items-center gap-2">
+                    <Scaling className="h-5 w-5" />
+                    상대적 크기 비율 (RSF)
+                  </CardTitle>
+                  <CardDescription className="mt-1">행을 클릭하면 거래처의 원장 행을 금액이 큰 순서로 확인합니다.</CardDescription>
+                </div>
+                <Select value={showFlaggedOnly ? 'flagged' : 'all'} onValueChange={(value) => setShowFlaggedOnly(value === 'flagged')}>
+                  <SelectTrigger className="w-[180px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="flagged">검토 대상만 (RSF {rsfThreshold} 이상)</SelectItem>
+                    <SelectItem value="all">전체 거래처</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="border rounded-lg max-h-[500px] overflow-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>거래처</TableHead>
+                      <TableHead className="text-right">RSF</TableHead>
+                      <TableHead className="text-right">최대 거래</TableHead>
+                      <TableHead>최대 거래 일자</TableHead>
+                      <TableHead>최대 거래 계정</TableHead>
+                      <TableHead className="text-right">두 번째 거래</TableHead>
+                      <TableHead className="text-right">거래 건수</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visibleFactors.length > 0 ? (
+                      visibleFactors.slice(0, MAX_DISPLAY_ROWS).map(item => (
+                        <TableRow
+                          key={item.vendor}
+                          className="cursor-pointer hover:bg-muted/50"
+                          onClick={() => openFactorDetail(item)}
+                        >
+                          <TableCell className="font-medium">{item.vendor}</TableCell>
+                          <TableCell className="text-right">
+                            <Badge variant={item.flagged ? 'destructive' : 'secondary'}>{item.rsf.toFixed(2)}</Badge>
+                          </TableCell>
+                          <TableCell className="text-right font-semibold">{item.largestAmount.toLocaleString()}</TableCell>
+                          <TableCell className="whitespace-nowrap">{formatEntryDate(item.largest)}</TableCell>
+                          <TableCell>{item.largest.accountName}</TableCell>
+                          <TableCell className="text-right">{item.secondLargestAmount.toLocaleString()}</TableCell>
+                          <TableCell className="text-right">{item.count.toLocaleString()}</TableCell>
+                        </TableRow>
+                      ))
+                    ) : (
+                      <TableRow>
+                        <TableCell colSpan={7} className="text-center text-muted-foreground">
+                          {showFlaggedOnly ? `RSF ${rsfThreshold} 이상인 거래처가 없습니다.` : 'RSF를 계산할 거래처가 없습니다.'}
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+              {visibleFactors.length > MAX_DISPLAY_ROWS && (
+                <p className="text-xs text-muted-foreground mt-2">
+                  상위 {MAX_DISPLAY_ROWS}곳만 표시합니다. 전체 목록은 엑셀 다운로드로 확인하세요.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      <Dialog open={detailView !== null} onOpenChange={(open) => !open && setDetailView(null)}>
+        <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {detailView?.title} ({detailView?.rows.length ?? 0}건)
+            </DialogTitle>
+          </DialogHeader>
+          <DataGrid
+            rows={detailView?.rows ?? []}
+            columns={detailColumns}
+            getRowKey={getIndexRowKey}
+            height={520}
+            selectable
+          />
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
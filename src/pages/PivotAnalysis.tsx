@@ -0,0 +1,45 @@
+import React, { useMemo } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft, Table2 } from 'lucide-react';
+import { LedgerPivot } from '@/components/LedgerPivot';
+import { getPostingEntries, type NormalizedLedger } from '@/lib/ledgerModel';
+
+interface PivotAnalysisProps {
+  ledger: NormalizedLedger;
+  onBack: () => void;
+}
+
+export const PivotAnalysis: React.FC<PivotAnalysisProps> = ({
+  ledger,
+  onBack,
+}) => {
+  const entries = useMemo(() => getPostingEntries(ledger), [ledger]);
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Table2 className="h-5 w-5 text-primary" />
+                피벗 분석
+              </CardTitle>
+              <CardDescription className="mt-2">
+                계정, 거래처, 월, 요일, 전표유형 중 행과 열을 골라 차변·대변 합계, 건수, 평균 금액을 집계합니다. 셀을 누르면 해당 분개를 볼 수 있습니다.
+              </CardDescription>
+            </div>
+            <Button variant="ghost" onClick={onBack}>
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              뒤로가기
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <LedgerPivot entries={entries} />
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
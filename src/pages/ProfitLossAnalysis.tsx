@@ -6,35 +6,16 @@ import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
 import { ArrowLeft, TrendingUp, TrendingDown, DollarSign, Download } from 'lucide-react';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { findDebitCreditHeaders } from '@/lib/headerUtils';
-
-type LedgerRow = { [key: string]: string | number | Date | undefined };
+import { getAccountEntries, type NormalizedLedger } from '@/lib/ledgerModel';
+import { classifyLedgerAccount } from '@/lib/chartOfAccounts';
 
 interface ProfitLossAnalysisProps {
-  workbook: XLSX.WorkBook;
-  accountNames: string[];
+  ledger: NormalizedLedger;
   onBack: () => void;
 }
 
-const cleanAmount = (val: any): number => {
-  if (typeof val === 'string') {
-    return parseFloat(val.replace(/,/g, '')) || 0;
-  }
-  return typeof val === 'number' ? val : 0;
-};
-
-const getDataFromSheet = (worksheet: XLSX.WorkSheet | undefined): { data: LedgerRow[], headers: string[] } => {
-  if (!worksheet) return { data: [], headers: [] };
-  
-  const rawData = XLSX.utils.sheet_to_json<LedgerRow>(worksheet);
-  const headers = rawData.length > 0 ? Object.keys(rawData[0]) : [];
-  
-  return { data: rawData, headers };
-};
-
 export const ProfitLossAnalysis: React.FC<ProfitLossAnalysisProps> = ({
-  workbook,
-  accountNames,
+  ledger,
   onBack,
 }) => {
   const { toast } = useToast();
@@ -45,53 +26,26 @@ export const ProfitLossAnalysis: React.FC<ProfitLossAnalysisProps> = ({
     const cogs: { account: string; amount: number }[] = [];
     const expenses: { account: string; amount: number }[] = [];
     
-    accountNames.forEach(accountName => {
-      const sheet = workbook.Sheets[accountName];
-      const { data, headers } = getDataFromSheet(sheet);
-      
-      const dateHeader = headers.find(h => h.includes('일자') || h.includes('날짜'));
-      const { debitHeader, creditHeader } = findDebitCreditHeaders(headers, data, dateHeader);
-      
+    ledger.accountNames.forEach(accountName => {
+      // 월계/누계/전기이월 행을 제외한 거래 행만 집계
       let total = 0;
-      data.forEach(row => {
-        const debit = debitHeader ? cleanAmount(row[debitHeader]) : 0;
-        const credit = creditHeader ? cleanAmount(row[creditHeader]) : 0;
-        total += debit + credit;
+      getAccountEntries(ledger, accountName).forEach(entry => {
+        total += entry.debit + entry.credit;
       });
       
       if (total === 0) return;
       
+      const { category } = classifyLedgerAccount(ledger, accountName);
       // 수익 계정 (대변 발생)
-      if (
-        accountName.includes('매출') || 
-        accountName.includes('수익') || 
-        accountName.includes('이자수익') ||
-        accountName.includes('배당금수익') ||
-        accountName.includes('임대료')
-      ) {
+      if (category === 'revenue' || category === 'nonOperatingIncome') {
         revenue.push({ account: accountName, amount: total });
       }
       // 매출원가
-      else if (
-        accountName.includes('매출원가') ||
-        accountName.includes('제품매출원가') ||
-        accountName.includes('상품매출원가')
-      ) {
+      else if (category === 'costOfSales') {
         cogs.push({ account: accountName, amount: total });
       }
       // 판관비
-      else if (
-        accountName.includes('판매비') || accountName.includes('관리비') ||
-        accountName.includes('급여') || accountName.includes('복리후생비') ||
-        accountName.includes('여비교통비') || accountName.includes('접대비') ||
-        accountName.includes('통신비') || accountName.includes('세금과공과') ||
-        accountName.includes('감가상각비') || accountName.includes('지급임차료') ||
-        accountName.includes('수선비') || accountName.includes('보험료') ||
-        accountName.includes('차량유지비') || accountName.includes('운반비') ||
-        accountName.includes('소모품비') || accountName.includes('도서인쇄비') ||
-        accountName.includes('수도광열비') || accountName.includes('지급수수료') ||
-        accountName.includes('광고선전비') || accountName.includes('대손상각비')
-      ) {
+      else if (category === 'sga') {
         expenses.push({ account: accountName, amount: total });
       }
     });
@@ -113,7 +67,7 @@ export const ProfitLossAnalysis: React.FC<ProfitLossAnalysisProps> = ({
       grossProfit,
       operatingProfit,
     };
-  }, [workbook, accountNames]);
+  }, [ledger]);
 
   const downloadExcel = () => {
     const wb = XLSX.utils.book_new();
@@ -8,90 +8,24 @@ import { useToast } from '@/hooks/use-toast';
 import { ArrowLeft, TrendingUp, Download, Sparkles, Loader2, DollarSign } from 'lucide-react';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { analyzeWithFlash, hasApiKey, estimateTokens, estimateCost } from '@/lib/geminiClient';
+import { getActiveModelName } from '@/lib/llmProvider';
 import { getUsageSummary, type UsageSummary } from '@/lib/usageTracker';
 import { 
   getSalesVsSgaMonthlySummary, 
-  convertLedgerRowToTransaction,
+  convertJournalEntryToTransaction,
   Transaction,
   formatCurrency
 } from '@/lib/accountHelpers';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
-
-type LedgerRow = { [key: string]: string | number | Date | undefined };
+import { getPostingEntries, type NormalizedLedger } from '@/lib/ledgerModel';
 
 interface SalesVsSgaAnalysisProps {
-  workbook: XLSX.WorkBook;
-  accountNames: string[];
+  ledger: NormalizedLedger;
   onBack: () => void;
 }
 
-const cleanAmount = (val: any): number => {
-  if (typeof val === 'string') {
-    return parseFloat(val.replace(/,/g, '')) || 0;
-  }
-  return typeof val === 'number' ? val : 0;
-};
-
-const robustFindHeader = (headers: string[], keywords: string[]): string | undefined => {
-  for (const h of headers) {
-    const cleanedHeader = (h || "").toLowerCase().replace(/\s/g, '').replace(/^\d+[_.-]?/, '');
-    for (const kw of keywords) {
-      const cleanedKw = kw.toLowerCase().replace(/\s/g, '');
-      if (cleanedHeader === cleanedKw) {
-        return h;
-      }
-    }
-  }
-  return headers.find(h => {
-    const cleanedHeader = (h || "").toLowerCase().replace(/\s/g, '').replace(/^\d+[_.-]?/, '');
-    return keywords.some(kw => {
-      const cleanedKw = kw.toLowerCase().replace(/\s/g, '');
-      return cleanedHeader.includes(cleanedKw);
-    });
-  });
-};
-
-const parseDate = (value: any): Date | null => {
-  if (value instanceof Date && !isNaN(value.getTime())) {
-    return value;
-  }
-  if (typeof value === 'string') {
-    const match = value.match(/^(?<month>\d{1,2})[-/](?<day>\d{1,2})$/);
-    if (match && match.groups) {
-      const currentYear = new Date().getFullYear();
-      const month = parseInt(match.groups.month, 10) - 1;
-      const day = parseInt(match.groups.day, 10);
-      const d = new Date(currentYear, month, day);
-      if (d.getFullYear() === currentYear && d.getMonth() === month && d.getDate() === day) {
-        return d;
-      }
-    }
-    // YYYY-MM-DD 형식 시도
-    const dateObj = new Date(value);
-    if (!isNaN(dateObj.getTime())) {
-      return dateObj;
-    }
-  }
-  if (typeof value === 'number' && value > 1 && value < 50000) {
-    try {
-      const excelEpoch = new Date(Date.UTC(1899, 11, 30));
-      const date = new Date(excelEpoch.getTime() + value * 24 * 60 * 60 * 1000);
-      if (!isNaN(date.getTime())) return date;
-    } catch (e) { /* ignore */ }
-  }
-  return null;
-};
-
-const getDataFromSheet = (worksheet: XLSX.WorkSheet | undefined): { data: LedgerRow[], headers: string[] } => {
-  if (!worksheet) return { data: [], headers: [] };
-  const rawData = XLSX.utils.sheet_to_json<LedgerRow>(worksheet);
-  const headers = rawData.length > 0 ? Object.keys(rawData[0]) : [];
-  return { data: rawData, headers };
-};
-
 export const SalesVsSgaAnalysis: React.FC<SalesVsSgaAnalysisProps> = ({
-  workbook,
-  accountNames,
+  ledger,
   onBack,
 }) => {
   const { toast } = useToast();
@@ -100,43 +34,19 @@ export const SalesVsSgaAnalysis: React.FC<SalesVsSgaAnalysisProps> = ({
   const [showCostDialog, setShowCostDialog] = useState<boolean>(false);
   const [usageSummary, setUsageSummary] = useState<UsageSummary>(getUsageSummary());
 
-  // 모든 시트에서 거래 데이터 수집
+  // 통합 원장의 모든 거래 행 수집 (월계/누계/전기이월 제외)
   const allTransactions = useMemo(() => {
     const transactions: Transaction[] = [];
 
-    accountNames.forEach(accountName => {
-      const sheet = workbook.Sheets[accountName];
-      const { data: rows, headers } = getDataFromSheet(sheet);
-
-      const dateHeader = robustFindHeader(headers, ['일자', '날짜', '거래일', 'date']) ||
-                         headers.find(h => h.includes('일자') || h.includes('날짜'));
-      const debitHeader = robustFindHeader(headers, ['차변', 'debit', '차변금액']) ||
-                          headers.find(h => h.includes('차변'));
-      const creditHeader = robustFindHeader(headers, ['대변', 'credit', '대변금액']) ||
-                           headers.find(h => h.includes('대변'));
-      const descriptionHeader = robustFindHeader(headers, ['적요', '내용', '설명', 'description', 'memo']) ||
-                                headers.find(h => h.includes('적요') || h.includes('내용'));
-
-      if (!dateHeader) return;
-
-      rows.forEach(row => {
-        const transaction = convertLedgerRowToTransaction(
-          row,
-          accountName,
-          dateHeader,
-          debitHeader || '',
-          creditHeader || '',
-          descriptionHeader
-        );
-
-        if (transaction) {
-          transactions.push(transaction);
-        }
-      });
+    getPostingEntries(ledger).forEach(entry => {
+      const transaction = convertJournalEntryToTransaction(entry);
+      if (transaction) {
+        transactions.push(transaction);
+      }
     });
 
     return transactions;
-  }, [workbook, accountNames]);
+  }, [ledger]);
 
   // 매출 vs 판관비 월별 데이터
   const monthlyData = useMemo(() => {
@@ -239,7 +149,7 @@ ${tableStr}
         samplingRatio: 100,
         tokensUsed: estimatedTokens + 2000,
         costKRW: actualCost,
-        model: 'gemini-2.0-flash',
+        model: getActiveModelName('flash'),
       });
       setUsageSummary(getUsageSummary());
 
@@ -9,10 +9,19 @@ import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Input } from '@/components/ui/input';
-import { ArrowLeft, Download, Check, ChevronsUpDown, FlaskConical } from 'lucide-react';
+import { ArrowLeft, Download, Check, ChevronsUpDown, FlaskConical, RefreshCw } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { cn } from '@/lib/utils';
+import { classifyAccount } from '@/lib/chartOfAccounts';
+import { selectSample } from '@/lib/stratifiedSampling';
+import {
+  buildSamplingParameterRows,
+  createSeededRandom,
+  generateSamplingSeed,
+  parseSamplingSeed,
+  type SamplingRunParameters,
+} from '@/lib/samplingSeed';
 import * as XLSX from 'xlsx';
 
 const Sampling = () => {
@@ -31,6 +40,8 @@ const Sampling = () => {
   const [riskFactor, setRiskFactor] = useState<string>('3.00');
   const [tolerableError, setTolerableError] = useState<string>('1000000');
   const [sampledData, setSampledData] = useState<any[]>([]);
+  const [seedInput, setSeedInput] = useState<string>('');
+  const [runParameters, setRunParameters] = useState<SamplingRunParameters | null>(null);
 
   // 신뢰수준별 위험계수 통계표
   const riskFactorTable = [
@@ -69,6 +80,7 @@ const Sampling = () => {
         .from('general_ledgers')
         .select('*')
         .eq('user_id', userId)
+        .is('engagement_id', null) // 감사 업무 파일 행은 원본이 Storage에 있어 data가 비어 있음
         .order('created_at', { ascending: false })
         .limit(1)
         .maybeSingle();
@@ -88,24 +100,8 @@ const Sampling = () => {
     }
   };
 
-  // 계정 유형 판별 함수
-  const getAccountType = (accountName: string): 'debit' | 'credit' => {
-    const debitKeywords = ['자산', '비용', '매출원가', '판매비', '관리비', '영업외비용'];
-    const creditKeywords = ['부채', '자본', '매출', '수익', '영업외수익'];
-    
-    // 차변 계정 확인
-    if (debitKeywords.some(keyword => accountName.includes(keyword))) {
-      return 'debit';
-    }
-    
-    // 대변 계정 확인
-    if (creditKeywords.some(keyword => accountName.includes(keyword))) {
-      return 'credit';
-    }
-    
-    // 기본값: 차변 (자산/비용)
-    return 'debit';
-  };
+  // 계정 유형 판별 함수 (잔액 방향)
+  const getAccountType = (accountName: string): 'debit' | 'credit' => classifyAccount(accountName).normalSide;
 
   // 거래처명 추출 함수
   const extractClient = (row: any): string => {
@@ -194,6 +190,9 @@ const Sampling = () => {
     return Math.min(calculated, populationStats.size); // Cannot exceed population size
   }, [sampleSizeMethod, selectedSamplingAccount, riskFactor, tolerableError, populationStats.totalAmount, populationStats.size]);
 
+  const getSamplingMethodName = (method: string): string =>
+    method === 'random' ? '무작위' : method === 'systematic' ? '체계적' : '금액가중';
+
   // 샘플링 방법 설명
   const getSamplingMethodDescription = (method: string): string => {
     switch (method) {
@@ -269,19 +268,26 @@ const Sampling = () => {
       return;
     }
 
+    // 입력한 시드를 쓰고, 비어 있으면 새로 만들어 입력란에 기록
+    let seed = parseSamplingSeed(seedInput);
+    if (!seedInput.trim()) {
+      seed = generateSamplingSeed();
+      setSeedInput(String(seed));
+    } else if (seed === null) {
+      toast({
+        title: '오류',
+        description: '시드는 0 ~ 4294967295 사이의 정수로 입력해주세요.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    const random = createSeededRandom(seed);
+
     let samples: any[] = [];
+    let randomStart: number | null = null;
+    let populationAmount: number | undefined;
 
-    if (samplingMethod === 'random') {
-      // Random sampling
-      const shuffled = [...accountData].sort(() => Math.random() - 0.5);
-      samples = shuffled.slice(0, Math.min(size, accountData.length));
-    } else if (samplingMethod === 'systematic') {
-      // Systematic sampling
-      const interval = Math.floor(accountData.length / size);
-      for (let i = 0; i < accountData.length && samples.length < size; i += interval) {
-        samples.push(accountData[i]);
-      }
-    } else if (samplingMethod === 'monetary') {
+    if (samplingMethod === 'monetary') {
       // Monetary Unit Sampling (MUS) - weighted by amount based on account type
       const dataWithAmounts = accountData.map(row => {
         const debitAmount = Math.abs(parseFloat(row['차   변']) || 0);
@@ -298,23 +304,38 @@ const Sampling = () => {
 
       // Sort by amount descending
       dataWithAmounts.sort((a, b) => b.amount - a.amount);
+      populationAmount = dataWithAmounts.reduce((sum, row) => sum + row.amount, 0);
 
-      // Calculate cumulative amounts
-      const totalAmount = dataWithAmounts.reduce((sum, row) => sum + row.amount, 0);
-      const samplingInterval = totalAmount / size;
-
-      let cumulativeAmount = 0;
-      let nextThreshold = samplingInterval;
-
-      for (const row of dataWithAmounts) {
-        cumulativeAmount += row.amount;
-        if (cumulativeAmount >= nextThreshold && samples.length < size) {
-          samples.push(row);
-          nextThreshold += samplingInterval;
-        }
-      }
+      // 무작위 시작점에서 고정 간격(총금액 ÷ 샘플 크기)으로 선정
+      const selection = selectSample(dataWithAmounts, size, 'mus', row => row.amount, random);
+      samples = selection.items;
+      randomStart = selection.randomStart;
+    } else {
+      // Random / Systematic sampling (체계적은 무작위 시작점에서 등간격)
+      const selection = selectSample(accountData, size, samplingMethod === 'systematic' ? 'systematic' : 'random', () => 0, random);
+      samples = selection.items;
+      randomStart = selection.randomStart;
     }
 
+    const selectedRiskFactorInfo = riskFactorTable.find(item => item.factor === riskFactor);
+    setRunParameters({
+      method: getSamplingMethodName(samplingMethod),
+      seed,
+      randomStart,
+      account: selectedSamplingAccount,
+      startDate: '',
+      endDate: '',
+      amountType: samplingMethod === 'monetary' ? (accountType === 'debit' ? '차변' : '대변') : undefined,
+      materiality: sampleSizeMethod === 'formula' ? `${parseFloat(tolerableError).toLocaleString()}원 (허용가능 오류금액)` : undefined,
+      confidenceLevel: sampleSizeMethod === 'formula' && riskFactorMethod === 'table' && selectedRiskFactorInfo
+        ? parseInt(selectedRiskFactorInfo.confidenceLevel, 10)
+        : undefined,
+      sampleSize: size,
+      populationCount: accountData.length,
+      populationAmount,
+      extra: sampleSizeMethod === 'formula' ? [['위험계수', riskFactor]] : undefined,
+      runAt: new Date().toISOString(),
+    });
     setSampledData(samples);
     toast({
       title: '샘플링 완료',
@@ -336,7 +357,7 @@ const Sampling = () => {
     const headerData: any[][] = [
       ['샘플링 결과'],
       ['계정명', selectedSamplingAccount],
-      ['샘플링 방법', samplingMethod === 'random' ? '무작위' : samplingMethod === 'systematic' ? '체계적' : '금액가중'],
+      ['샘플링 방법', getSamplingMethodName(samplingMethod)],
     ];
 
     // 공식 계산인 경우 추가 정보
@@ -381,6 +402,13 @@ const Sampling = () => {
     ];
 
     XLSX.utils.book_append_sheet(wb, ws, '샘플링');
+
+    // 재수행용 파라미터 (시드·무작위 시작점 포함)
+    if (runParameters) {
+      const wsParams = XLSX.utils.aoa_to_sheet(buildSamplingParameterRows(runParameters));
+      wsParams['!cols'] = [{ wch: 28 }, { wch: 48 }];
+      XLSX.utils.book_append_sheet(wb, wsParams, '파라미터');
+    }
     XLSX.writeFile(wb, `샘플링_${selectedSamplingAccount}_${new Date().toISOString().split('T')[0]}.xlsx`);
 
     toast({
@@ -618,6 +646,26 @@ const Sampling = () => {
                   </div>
                 )}
 
+                <div className="space-y-2">
+                  <Label htmlFor="samplingSeed">시드 (Seed)</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="samplingSeed"
+                      type="text"
+                      inputMode="numeric"
+                      value={seedInput}
+                      onChange={(e) => setSeedInput(e.target.value.replace(/[^0-9]/g, ''))}
+                      placeholder="비워두면 자동 생성"
+                    />
+                    <Button variant="outline" size="icon" onClick={() => setSeedInput(String(generateSamplingSeed()))} title="새 시드">
+                      <RefreshCw className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    같은 계정·방법·샘플 크기에 같은 시드를 쓰면 같은 표본이 추출됩니다.
+                  </p>
+                </div>
+
                 <Button onClick={performSampling} className="w-full" disabled={sampleSizeMethod === 'formula' && calculatedSampleSize === null}>
                   샘플링 실행
                 </Button>
@@ -636,6 +684,12 @@ const Sampling = () => {
                         <div className="space-y-2">
                           <p className="font-medium">{sampledData.length}개 항목이 선택되었습니다</p>
                           <p className="text-sm">{getSamplingMethodDescription(samplingMethod)}</p>
+                          {runParameters && (
+                            <p className="text-xs">
+                              시드 {runParameters.seed}
+                              {runParameters.randomStart !== null && ` · 무작위 시작점 ${runParameters.randomStart.toLocaleString()}`}
+                            </p>
+                          )}
                         </div>
                       ) : (
                         '샘플링을 실행하세요'
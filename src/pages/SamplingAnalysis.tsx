@@ -1,4 +1,4 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect, useCallback } from 'react';
 import * as XLSX from 'xlsx';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -8,89 +8,132 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { useToast } from '@/hooks/use-toast';
-import { ArrowLeft, FlaskConical, Download, Calculator, AlertTriangle } from 'lucide-react';
+import { ArrowLeft, FlaskConical, Download, Calculator, AlertTriangle, Scale, Layers, Plus, Trash2, RefreshCw, ClipboardCheck } from 'lucide-react';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Checkbox } from '@/components/ui/checkbox';
-import { findDebitCreditHeaders, robustFindHeader } from '@/lib/headerUtils';
-import { 
-  DATE_KEYWORDS, 
-  BALANCE_KEYWORDS
-} from '@/lib/columnMapping';
-
-type LedgerRow = { [key: string]: string | number | Date | undefined };
+import { robustFindHeader } from '@/lib/headerUtils';
+import { BALANCE_KEYWORDS, DATE_KEYWORDS, DESCRIPTION_KEYWORDS } from '@/lib/columnMapping';
+import { type LedgerRow } from '@/lib/excelHelpers';
+import { getAccountEntries, getEntryDate, toLedgerRows, type NormalizedLedger } from '@/lib/ledgerModel';
+import { loadResultFromActiveEngagement, saveResultToActiveEngagement } from '@/lib/engagementStore';
+import {
+  buildSamplingParameterRows,
+  createSeededRandom,
+  generateSamplingSeed,
+  parseSamplingSeed,
+  type SamplingRunParameters,
+} from '@/lib/samplingSeed';
+import { evaluateMusSample, getMusConfidenceFactor, MUS_CONCLUSION_LABELS } from '@/lib/musEvaluation';
+import {
+  ATTRIBUTE_CONCLUSION_LABELS,
+  ATTRIBUTE_EXPECTED_RATES,
+  ATTRIBUTE_TEST_RESULT_LABELS,
+  ATTRIBUTE_TOLERABLE_RATES,
+  buildAttributeSampleSizeTable,
+  evaluateAttributeSample,
+  getAttributeSampleSize,
+  type AttributeTestResult,
+} from '@/lib/attributeSampling';
+import {
+  getStratumLabel,
+  selectSample,
+  stratifiedSample,
+  suggestStrata,
+  STRATUM_METHOD_LABELS,
+  type StratumDefinition,
+  type StratumSamplingMethod,
+  type StratumSummary,
+} from '@/lib/stratifiedSampling';
+import type { JournalEntry } from '@/types/analysis';
 
 interface SamplingAnalysisProps {
-  workbook: XLSX.WorkBook;
-  accountNames: string[];
+  ledger: NormalizedLedger;
   onBack: () => void;
 }
 
-const cleanAmount = (val: any): number => {
-  if (typeof val === 'string') {
-    return parseFloat(val.replace(/,/g, '')) || 0;
-  }
-  return typeof val === 'number' ? val : 0;
-};
+// MUS 추출 시점의 모집단·표본간격과 표본별 장부금액 (평가 기준)
+interface MusSamplingBase {
+  populationValue: number;
+  samplingInterval: number;
+  confidenceLevel: number;
+  bookValues: number[];
+  keyItems: boolean[]; // 이상거래로 우선 포함한 표본 여부
+}
 
+// 속성 샘플링 추출 시점의 표본 설계 (평가 기준)
+interface AttributeSamplingBase {
+  expectedRate: number; // 예상 일탈률 (%)
+  tolerableRate: number; // 허용 일탈률 (%)
+  confidenceLevel: number;
+  sampleSize: number; // 표에서 정한 표본 크기
+  expectedDeviations: number;
+}
 
+type SamplingMethod = 'random' | 'systematic' | 'mus' | 'stratified' | 'attribute';
+type AmountType = 'debit' | 'credit' | 'both';
 
-// 월계, 누계 행인지 확인하는 함수 (대괄호, 공백 무시)
-const isSummaryRow = (row: LedgerRow): boolean => {
-  // 모든 열의 값을 확인
-  for (const value of Object.values(row)) {
-    if (value === null || value === undefined) continue;
-    
-    // 문자열로 변환하고 대괄호, 공백 제거 후 소문자 변환
-    const normalized = String(value).replace(/[\[\]\s]/g, '').toLowerCase();
-    
-    // 월계 또는 누계가 포함되어 있으면 true
-    if (normalized.includes('월계') || normalized.includes('누계')) {
-      return true;
-    }
-  }
-  return false;
+const AMOUNT_TYPE_NAMES: Record<AmountType, string> = {
+  debit: '차변',
+  credit: '대변',
+  both: '차변+대변',
 };
 
-const getDataFromSheet = (worksheet: XLSX.WorkSheet | undefined): { data: LedgerRow[], headers: string[] } => {
-  if (!worksheet) return { data: [], headers: [] };
-  
-  const rawData = XLSX.utils.sheet_to_json<LedgerRow>(worksheet);
-  const headers = rawData.length > 0 ? Object.keys(rawData[0]) : [];
-  
-  // 월계, 누계 행 제거
-  const filteredData = rawData.filter(row => !isSummaryRow(row));
-  
-  return { data: filteredData, headers };
+const SAMPLING_METHOD_NAMES: Record<SamplingMethod, string> = {
+  random: '무작위',
+  systematic: '체계적',
+  mus: 'MUS',
+  stratified: '층화',
+  attribute: '속성',
 };
 
-// 행의 날짜 값을 Date로 변환 (시작일/종료일 필터용)
-const parseRowDate = (value: unknown): Date | null => {
-  if (value instanceof Date && !isNaN(value.getTime())) return value;
-  if (value == null || value === '') return null;
-  if (typeof value === 'number' && value > 1 && value < 50000) {
-    const excelEpoch = new Date(Date.UTC(1899, 11, 30));
-    const d = new Date(excelEpoch.getTime() + value * 24 * 60 * 60 * 1000);
-    return !isNaN(d.getTime()) ? d : null;
-  }
-  if (typeof value === 'string') {
-    const s = String(value).trim();
-    const ymd = s.match(/^(?<y>\d{4})[-/](?<m>\d{1,2})[-/](?<d>\d{1,2})$/);
-    if (ymd?.groups) {
-      const y = parseInt(ymd.groups.y, 10);
-      const m = parseInt(ymd.groups.m, 10) - 1;
-      const day = parseInt(ymd.groups.d, 10);
-      const d = new Date(y, m, day);
-      return !isNaN(d.getTime()) ? d : null;
-    }
-    if (/^\d{8}$/.test(s)) {
-      const y = parseInt(s.slice(0, 4), 10);
-      const m = parseInt(s.slice(4, 6), 10) - 1;
-      const day = parseInt(s.slice(6, 8), 10);
-      const d = new Date(y, m, day);
-      return !isNaN(d.getTime()) ? d : null;
-    }
-  }
-  return null;
+// 층화 샘플링 설정과 계층별 결과
+interface StratifiedSamplingState {
+  keyItemThreshold: string;
+  definitions: StratumDefinition[];
+  summaries: StratumSummary[];
+  sampleStrata: string[]; // 표본별 계층 이름 (표본 순서와 같음)
+}
+
+// 같은 표본을 다시 뽑기 위한 화면 설정
+interface SamplingSettings {
+  seed: number;
+  startDate: string;
+  endDate: string;
+  amountType: AmountType;
+  sampleSize: string;
+  materiality: string;
+  confidenceLevel: number;
+  useStatisticalTable: boolean;
+  includeAnomalies: boolean;
+}
+
+interface SavedSampling {
+  method: SamplingMethod;
+  settings?: SamplingSettings;
+  parameters?: SamplingRunParameters;
+  samples: LedgerRow[];
+  mus?: MusSamplingBase;
+  auditedValues?: string[];
+  tolerableMisstatement?: string;
+  stratified?: StratifiedSamplingState;
+  attribute?: AttributeSamplingBase;
+  attributeResults?: AttributeTestResult[];
+  deviationNotes?: string[];
+}
+
+const parseAmountInput = (value: string): number | null => {
+  const cleaned = value.replace(/,/g, '').trim();
+  if (cleaned === '' || cleaned === '-') return null;
+  const parsed = parseFloat(cleaned);
+  return isNaN(parsed) ? null : parsed;
+};
+
+const formatCoverage = (part: number, whole: number): string =>
+  whole > 0 ? `${((part / whole) * 100).toFixed(1)}%` : '-';
+
+const formatAmountInput = (value: string): string => {
+  const parsed = parseAmountInput(value);
+  return parsed === null ? value : parsed.toLocaleString();
 };
 
 // 통계표 기반 샘플 크기 계산 (MUS)
@@ -106,24 +149,24 @@ const calculateMUSSampleSize = (
     99: 4.61,
   };
   
-  const factor = confidenceFactors[confidenceLevel] || 3.00;
+  const factor = confidenceFactors[confidenceLevel] || getMusConfidenceFactor(0, confidenceLevel);
   const sampleSize = Math.ceil((populationValue * factor) / materiality);
   return Math.max(1, sampleSize);
 };
 
 export const SamplingAnalysis: React.FC<SamplingAnalysisProps> = ({
-  workbook,
-  accountNames,
+  ledger,
   onBack,
 }) => {
+  const accountNames = ledger.accountNames;
   const { toast } = useToast();
   const [selectedAccount, setSelectedAccount] = useState<string>('');
-  const [samplingMethod, setSamplingMethod] = useState<'random' | 'systematic' | 'mus'>('random');
+  const [samplingMethod, setSamplingMethod] = useState<SamplingMethod>('random');
   const [sampleSize, setSampleSize] = useState<string>('30');
   const [sampledData, setSampledData] = useState<LedgerRow[]>([]);
   
   // MUS 관련 상태
-  const [musAmountType, setMusAmountType] = useState<'debit' | 'credit' | 'both'>('both');
+  const [musAmountType, setMusAmountType] = useState<AmountType>('both');
   const [materiality, setMateriality] = useState<string>('');
   const [confidenceLevel, setConfidenceLevel] = useState<number>(95);
   const [useStatisticalTable, setUseStatisticalTable] = useState<boolean>(false);
@@ -132,27 +175,109 @@ export const SamplingAnalysis: React.FC<SamplingAnalysisProps> = ({
   const [anomalyRowObjects, setAnomalyRowObjects] = useState<Set<LedgerRow>>(new Set());
   const [startDate, setStartDate] = useState<string>('');
   const [endDate, setEndDate] = useState<string>('');
+  const [musBase, setMusBase] = useState<MusSamplingBase | null>(null);
+  const [auditedValues, setAuditedValues] = useState<string[]>([]);
+  const [tolerableMisstatement, setTolerableMisstatement] = useState<string>('');
+  const [seedInput, setSeedInput] = useState<string>('');
+  const [runParameters, setRunParameters] = useState<SamplingRunParameters | null>(null);
+  const [savedSettings, setSavedSettings] = useState<SamplingSettings | null>(null);
+  const [keyItemThreshold, setKeyItemThreshold] = useState<string>('');
+  const [strata, setStrata] = useState<StratumDefinition[]>([]);
+  const [stratumCount, setStratumCount] = useState<string>('3');
+  const [stratifiedResult, setStratifiedResult] = useState<Pick<StratifiedSamplingState, 'summaries' | 'sampleStrata'> | null>(null);
+  const [expectedDeviationRate, setExpectedDeviationRate] = useState<string>('0');
+  const [tolerableDeviationRate, setTolerableDeviationRate] = useState<string>('5');
+  const [attributeBase, setAttributeBase] = useState<AttributeSamplingBase | null>(null);
+  const [attributeResults, setAttributeResults] = useState<AttributeTestResult[]>([]);
+  const [deviationNotes, setDeviationNotes] = useState<string[]>([]);
 
-  const accountData = useMemo(() => {
+  // 현재 감사 업무에 저장된 표본이 있으면 불러오기
+  useEffect(() => {
+    if (!selectedAccount) return;
+    let cancelled = false;
+    loadResultFromActiveEngagement<SavedSampling>('sampling', selectedAccount).then(saved => {
+      if (cancelled || !saved) return;
+      setSamplingMethod(saved.method);
+      setSampledData(saved.samples);
+      setRunParameters(saved.parameters ?? null);
+      setSavedSettings(saved.settings ?? null);
+      if (saved.settings) {
+        // 저장된 설정을 복원해 같은 파라미터로 다시 실행할 수 있게 함
+        setSeedInput(String(saved.settings.seed));
+        setStartDate(saved.settings.startDate);
+        setEndDate(saved.settings.endDate);
+        setMusAmountType(saved.settings.amountType);
+        setSampleSize(saved.settings.sampleSize);
+        setMateriality(saved.settings.materiality);
+        setConfidenceLevel(saved.settings.confidenceLevel);
+        setUseStatisticalTable(saved.settings.useStatisticalTable);
+        setIncludeAnomalies(saved.settings.includeAnomalies);
+      }
+      setMusBase(saved.mus ?? null);
+      setAuditedValues(saved.auditedValues ?? []);
+      setTolerableMisstatement(saved.tolerableMisstatement ?? '');
+      if (saved.stratified) {
+        setKeyItemThreshold(saved.stratified.keyItemThreshold);
+        setStrata(saved.stratified.definitions);
+        setStratifiedResult({ summaries: saved.stratified.summaries, sampleStrata: saved.stratified.sampleStrata });
+      } else {
+        setStratifiedResult(null);
+      }
+      setAttributeBase(saved.attribute ?? null);
+      setAttributeResults(saved.attributeResults ?? []);
+      setDeviationNotes(saved.deviationNotes ?? []);
+      if (saved.attribute) {
+        setExpectedDeviationRate(String(saved.attribute.expectedRate));
+        setTolerableDeviationRate(String(saved.attribute.tolerableRate));
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedAccount]);
+
+  // 월계/누계/전기이월 행은 통합 원장에서 제외됨
+  const accountEntries = useMemo(() => {
     if (!selectedAccount) return [];
-    const sheet = workbook.Sheets[selectedAccount];
-    const { data } = getDataFromSheet(sheet);
-    // 추가 필터링: 월계, 누계 행 제거 (이중 체크)
-    return data.filter(row => !isSummaryRow(row));
-  }, [workbook, selectedAccount]);
+    return getAccountEntries(ledger, selectedAccount);
+  }, [ledger, selectedAccount]);
+
+  const accountData = useMemo(() => toLedgerRows(accountEntries), [accountEntries]);
+
+  // 원본 행 → 분개 항목 (금액/일자는 통합 원장의 확정 매핑 값을 사용)
+  const entryByRow = useMemo(() => {
+    const map = new Map<LedgerRow, JournalEntry>();
+    accountEntries.forEach(entry => {
+      if (entry.raw) map.set(entry.raw, entry);
+    });
+    return map;
+  }, [accountEntries]);
+
+  // 선택한 계정에 차변/대변 컬럼이 매핑되어 있는지 여부
+  const hasAmountColumns = useMemo(() => {
+    const sheetName = accountEntries[0]?.sheetName;
+    const mapping = ledger.sheets.find(sheet => sheet.sheetName === sheetName)?.mapping;
+    return !!(mapping?.debit || mapping?.credit);
+  }, [ledger, accountEntries]);
+
+  // 사용자가 선택한 차변/대변 기준 금액
+  const getRowAmount = useCallback((row: LedgerRow): number => {
+    const entry = entryByRow.get(row);
+    if (!entry) return 0;
+    if (musAmountType === 'debit') return Math.abs(entry.debit);
+    if (musAmountType === 'credit') return Math.abs(entry.credit);
+    return Math.abs(entry.debit) + Math.abs(entry.credit);
+  }, [entryByRow, musAmountType]);
 
   // 시작일/종료일 적용한 데이터 (미입력 시 전체)
   const filteredAccountData = useMemo(() => {
     if (accountData.length === 0) return [];
-    const headers = Object.keys(accountData[0] || {});
-    const dateHeader = robustFindHeader(headers, DATE_KEYWORDS) ||
-      headers.find((h: string) => (h && (h.includes('일자') || h.includes('날짜') || h.toLowerCase().includes('date'))));
-    if (!dateHeader) return accountData;
     const start = startDate ? new Date(startDate) : null;
     const end = endDate ? new Date(endDate) : null;
     if (!start && !end) return accountData;
     return accountData.filter(row => {
-      const d = parseRowDate(row[dateHeader]);
+      const entry = entryByRow.get(row);
+      const d = entry ? getEntryDate(entry) : null;
       if (!d) return false;
       if (start && d < start) return false;
       if (end) {
@@ -162,30 +287,18 @@ export const SamplingAnalysis: React.FC<SamplingAnalysisProps> = ({
       }
       return true;
     });
-  }, [accountData, startDate, endDate]);
+  }, [accountData, entryByRow, startDate, endDate]);
 
   // MUS용 금액 합계 계산 (월계, 누계 제외, 시작일/종료일 적용)
   const musTotalAmount = useMemo(() => {
-    if (samplingMethod !== 'mus' || filteredAccountData.length === 0) return 0;
+    if (samplingMethod === 'random' || samplingMethod === 'systematic' || filteredAccountData.length === 0) return 0;
     
-    const headers = Object.keys(filteredAccountData[0] || {});
-    const dateHeader = robustFindHeader(headers, DATE_KEYWORDS);
-    const { debitHeader, creditHeader } = findDebitCreditHeaders(headers, filteredAccountData, dateHeader);
-
     let total = 0;
-    // 월계, 누계 행 제외하고 계산
-    filteredAccountData.filter(row => !isSummaryRow(row)).forEach(row => {
-      if (musAmountType === 'debit' && debitHeader) {
-        total += Math.abs(cleanAmount(row[debitHeader]));
-      } else if (musAmountType === 'credit' && creditHeader) {
-        total += Math.abs(cleanAmount(row[creditHeader]));
-      } else if (musAmountType === 'both') {
-        if (debitHeader) total += Math.abs(cleanAmount(row[debitHeader]));
-        if (creditHeader) total += Math.abs(cleanAmount(row[creditHeader]));
-      }
+    filteredAccountData.forEach(row => {
+      total += getRowAmount(row);
     });
     return total;
-  }, [filteredAccountData, samplingMethod, musAmountType]);
+  }, [filteredAccountData, samplingMethod, getRowAmount]);
 
   // 통계표 기반 샘플 크기 계산
   const calculatedSampleSize = useMemo(() => {
@@ -197,6 +310,69 @@ export const SamplingAnalysis: React.FC<SamplingAnalysisProps> = ({
     return calculateMUSSampleSize(musTotalAmount, materialityValue, confidenceLevel);
   }, [samplingMethod, useStatisticalTable, materiality, musTotalAmount, confidenceLevel]);
 
+  // 속성 샘플링 표본 크기 (예상·허용 일탈률과 신뢰수준으로 표에서 조회)
+  const attributeSampleSize = useMemo(() => {
+    if (samplingMethod !== 'attribute') return null;
+    return getAttributeSampleSize(parseFloat(expectedDeviationRate), parseFloat(tolerableDeviationRate), confidenceLevel);
+  }, [samplingMethod, expectedDeviationRate, tolerableDeviationRate, confidenceLevel]);
+
+  // 입력한 시드를 쓰고, 비어 있으면 새로 만들어 입력란에 기록
+  const resolveSeed = (): number | null => {
+    if (!seedInput.trim()) {
+      const seed = generateSamplingSeed();
+      setSeedInput(String(seed));
+      return seed;
+    }
+    const seed = parseSamplingSeed(seedInput);
+    if (seed === null) {
+      toast({
+        title: '오류',
+        description: '시드는 0 ~ 4294967295 사이의 정수로 입력해주세요.',
+        variant: 'destructive',
+      });
+    }
+    return seed;
+  };
+
+  // 재실행에 필요한 화면 설정과 조서용 실행 파라미터
+  const buildRunRecord = (
+    seed: number,
+    randomStart: number | null,
+    requestedSize: number,
+    populationCount: number,
+    populationAmount: number | undefined,
+    extra?: [string, string | number][]
+  ): { settings: SamplingSettings; parameters: SamplingRunParameters } => ({
+    settings: {
+      seed,
+      startDate,
+      endDate,
+      amountType: musAmountType,
+      sampleSize,
+      materiality,
+      confidenceLevel,
+      useStatisticalTable,
+      includeAnomalies,
+    },
+    parameters: {
+      method: SAMPLING_METHOD_NAMES[samplingMethod],
+      seed,
+      randomStart,
+      account: selectedAccount,
+      startDate,
+      endDate,
+      amountType: AMOUNT_TYPE_NAMES[musAmountType],
+      materiality: samplingMethod === 'mus' && useStatisticalTable ? materiality : undefined,
+      confidenceLevel: samplingMethod === 'mus' || samplingMethod === 'attribute' ? confidenceLevel : undefined,
+      includeAnomalies: samplingMethod === 'stratified' || samplingMethod === 'attribute' ? undefined : includeAnomalies,
+      sampleSize: requestedSize,
+      populationCount,
+      populationAmount,
+      extra,
+      runAt: new Date().toISOString(),
+    },
+  });
+
   const handleSampling = () => {
     if (!selectedAccount) {
       toast({
@@ -215,14 +391,26 @@ export const SamplingAnalysis: React.FC<SamplingAnalysisProps> = ({
       return;
     }
 
+    const seed = resolveSeed();
+    if (seed === null) return;
+
+    if (samplingMethod === 'stratified') {
+      handleStratifiedSampling(seed);
+      return;
+    }
+    if (samplingMethod === 'attribute') {
+      handleAttributeSampling(seed);
+      return;
+    }
+
     // MUS이고 통계표 기반 계산이 활성화되어 있으면 계산된 값 사용
     let finalSampleSize = parseInt(sampleSize) || 30;
     if (samplingMethod === 'mus' && useStatisticalTable && calculatedSampleSize !== null) {
       finalSampleSize = calculatedSampleSize;
     }
     
-    // 월계, 누계 행 제외한 데이터 (시작일/종료일 적용됨)
-    const filteredData = filteredAccountData.filter(row => !isSummaryRow(row));
+    // 시작일/종료일 적용된 데이터
+    const filteredData = filteredAccountData;
     
     // 이상거래 포함 옵션이 활성화되어 있으면 이상거래 먼저 탐지 및 포함
     let anomalySamples: LedgerRow[] = [];
@@ -232,25 +420,10 @@ export const SamplingAnalysis: React.FC<SamplingAnalysisProps> = ({
     
     if (includeAnomalies) {
       // 이상거래 탐지 수행 - 사용자가 선택한 차변/대변에 따라
-      const headers = Object.keys(filteredData[0] || {});
-      const dateHeader = robustFindHeader(headers, DATE_KEYWORDS);
-      const { debitHeader, creditHeader } = findDebitCreditHeaders(headers, filteredData, dateHeader);
-      
-      if ((debitHeader || creditHeader) && filteredData.length > 0) {
+      if (hasAmountColumns && filteredData.length > 0) {
         // 사용자가 선택한 금액 타입에 따라 금액 추출
         const amounts = filteredData
-          .map(row => {
-            let amount = 0;
-            if (musAmountType === 'debit' && debitHeader) {
-              amount = Math.abs(cleanAmount(row[debitHeader]));
-            } else if (musAmountType === 'credit' && creditHeader) {
-              amount = Math.abs(cleanAmount(row[creditHeader]));
-            } else if (musAmountType === 'both') {
-              if (debitHeader) amount += Math.abs(cleanAmount(row[debitHeader]));
-              if (creditHeader) amount += Math.abs(cleanAmount(row[creditHeader]));
-            }
-            return amount;
-          })
+          .map(row => getRowAmount(row))
           .filter(amt => amt > 0);
 
         if (amounts.length > 0) {
@@ -265,15 +438,7 @@ export const SamplingAnalysis: React.FC<SamplingAnalysisProps> = ({
 
           // 이상거래 인덱스 찾기 (심각도 "높음"만) - 사용자가 선택한 차변/대변에 따라
           filteredData.forEach((row, index) => {
-            let amount = 0;
-            if (musAmountType === 'debit' && debitHeader) {
-              amount = Math.abs(cleanAmount(row[debitHeader]));
-            } else if (musAmountType === 'credit' && creditHeader) {
-              amount = Math.abs(cleanAmount(row[creditHeader]));
-            } else if (musAmountType === 'both') {
-              if (debitHeader) amount += Math.abs(cleanAmount(row[debitHeader]));
-              if (creditHeader) amount += Math.abs(cleanAmount(row[creditHeader]));
-            }
+            const amount = getRowAmount(row);
             if (amount <= 0) return;
 
             let severity: 'high' | 'medium' | 'low' = 'low';
@@ -341,136 +506,261 @@ export const SamplingAnalysis: React.FC<SamplingAnalysisProps> = ({
     }
     
     const size = Math.min(remainingSize, remainingData.length);
-    let samples: LedgerRow[] = [];
+    let musSelection: { populationValue: number; samplingInterval: number } | null = null;
 
     // 사용자가 선택한 차변/대변에 해당하는 금액이 있는 행만 필터링
-    let dataWithAmount: LedgerRow[] = [];
-    let debitHeader: string | undefined;
-    let creditHeader: string | undefined;
-    
-    if (remainingData.length > 0) {
-      const headers = Object.keys(remainingData[0] || {});
-      const dateHeader = robustFindHeader(headers, DATE_KEYWORDS);
-      const headersResult = findDebitCreditHeaders(headers, remainingData, dateHeader);
-      debitHeader = headersResult.debitHeader;
-      creditHeader = headersResult.creditHeader;
-      
-      dataWithAmount = remainingData.filter(row => {
-      if (isSummaryRow(row)) return false;
-      let amount = 0;
-      if (musAmountType === 'debit' && debitHeader) {
-        amount = Math.abs(cleanAmount(row[debitHeader]));
-      } else if (musAmountType === 'credit' && creditHeader) {
-        amount = Math.abs(cleanAmount(row[creditHeader]));
-      } else if (musAmountType === 'both') {
-        if (debitHeader) amount += Math.abs(cleanAmount(row[debitHeader]));
-        if (creditHeader) amount += Math.abs(cleanAmount(row[creditHeader]));
+    const dataWithAmount = remainingData.filter(row => getRowAmount(row) > 0);
+
+    if (samplingMethod === 'mus' && dataWithAmount.length > 0) {
+      // MUS (Monetary Unit Sampling) - 금액 기준 (이상거래 제외한 데이터에서)
+      if (!hasAmountColumns) {
+        toast({
+          title: '오류',
+          description: '차변 또는 대변 열을 찾을 수 없습니다.',
+          variant: 'destructive',
+        });
+        return;
       }
-      return amount > 0;
-      });
+      const total = dataWithAmount.reduce((sum, row) => sum + getRowAmount(row), 0);
+      if (size > 0) musSelection = { populationValue: total, samplingInterval: total / size };
     }
 
-    switch (samplingMethod) {
-      case 'random':
-        // 랜덤 샘플링 (사용자가 선택한 차변/대변에 해당하는 금액이 있는 행만)
-        const indices = new Set<number>();
-        while (indices.size < size && indices.size < dataWithAmount.length) {
-          indices.add(Math.floor(Math.random() * dataWithAmount.length));
-        }
-        samples = Array.from(indices).map(i => dataWithAmount[i]);
-        break;
-
-      case 'systematic':
-        // 체계적 샘플링 (등간격, 사용자가 선택한 차변/대변에 해당하는 금액이 있는 행만)
-        if (dataWithAmount.length === 0) {
-          samples = [];
-          break;
-        }
-        const interval = Math.floor(dataWithAmount.length / size);
-        const start = Math.floor(Math.random() * interval);
-        for (let i = 0; i < size && i < dataWithAmount.length; i++) {
-          const index = (start + i * interval) % dataWithAmount.length;
-          samples.push(dataWithAmount[index]);
-        }
-        break;
-
-      case 'mus':
-        // MUS (Monetary Unit Sampling) - 금액 기준 (이상거래 제외한 데이터에서)
-        // 사용자가 선택한 차변/대변에 해당하는 금액이 있는 행만 사용
-        if (dataWithAmount.length === 0) {
-          samples = [];
-          break;
-        }
-        
-        if (!debitHeader && !creditHeader) {
-          toast({
-            title: '오류',
-            description: '차변 또는 대변 열을 찾을 수 없습니다.',
-            variant: 'destructive',
-          });
-          return;
+    // 기록한 시드의 난수로 추출 (체계적·MUS는 무작위 시작점 하나에서 고정 간격)
+    const selection = selectSample(dataWithAmount, size, samplingMethod, getRowAmount, createSeededRandom(seed));
+    const samples = selection.items;
+
+    // 이상거래와 일반 샘플 합치기 (샘플 크기 초과 방지)
+    const finalSamples = [...anomalySamples, ...samples].slice(0, finalSampleSize);
+    
+    const nextMusBase: MusSamplingBase | null = musSelection
+      ? {
+          ...musSelection,
+          confidenceLevel,
+          bookValues: finalSamples.map(row => getRowAmount(row)),
+          keyItems: finalSamples.map(row => anomalySamples.includes(row)),
         }
+      : null;
 
-        // 선택된 금액 타입에 따라 금액 추출 (이미 필터링된 dataWithAmount 사용)
-        const cumulativeAmounts: { row: LedgerRow; cumulative: number }[] = [];
-        let total = 0;
-        dataWithAmount.forEach(row => {
-          let amount = 0;
-          if (musAmountType === 'debit' && debitHeader) {
-            amount = Math.abs(cleanAmount(row[debitHeader]));
-          } else if (musAmountType === 'credit' && creditHeader) {
-            amount = Math.abs(cleanAmount(row[creditHeader]));
-          } else if (musAmountType === 'both') {
-            if (debitHeader) amount += Math.abs(cleanAmount(row[debitHeader]));
-            if (creditHeader) amount += Math.abs(cleanAmount(row[creditHeader]));
-          }
-          
-          if (amount > 0) {
-            total += amount;
-            cumulativeAmounts.push({ row, cumulative: total });
-          }
-        });
+    const nextTolerable = tolerableMisstatement || materiality;
+    const runRecord = buildRunRecord(
+      seed,
+      selection.randomStart,
+      finalSampleSize,
+      filteredData.filter(row => getRowAmount(row) > 0).length,
+      filteredData.reduce((sum, row) => sum + getRowAmount(row), 0),
+      musSelection ? [['표본간격', Math.round(musSelection.samplingInterval)]] : undefined
+    );
 
-        if (total === 0) {
-          toast({
-            title: '오류',
-            description: '금액이 0인 거래만 있거나 선택한 금액 타입에 해당하는 데이터가 없습니다.',
-            variant: 'destructive',
-          });
-          return;
-        }
+    setSampledData(finalSamples);
+    setRunParameters(runRecord.parameters);
+    setSavedSettings(runRecord.settings);
+    setMusBase(nextMusBase);
+    setAttributeBase(null);
+    setAuditedValues([]);
+    setTolerableMisstatement(nextTolerable);
+    setStratifiedResult(null);
+    // 무작위 추출 결과는 다시 만들 수 없으므로 감사 업무에 저장
+    saveResultToActiveEngagement('sampling', selectedAccount, {
+      method: samplingMethod,
+      sampleSize: finalSamples.length,
+      samples: finalSamples,
+      mus: nextMusBase ?? undefined,
+      tolerableMisstatement: nextTolerable,
+      ...runRecord,
+    });
+    toast({
+      title: '샘플링 완료',
+      description: `${finalSamples.length}건의 샘플을 추출했습니다.${anomalySamples.length > 0 ? ` (심각도 높음 이상거래 ${anomalySamples.length}건 포함)` : ''}`,
+    });
+  };
 
-        // 샘플링 간격
-        const samplingInterval = total / size;
-        const selectedIndices = new Set<number>();
-        
-        for (let i = 0; i < size; i++) {
-          const randomStart = Math.random() * samplingInterval;
-          const targetAmount = randomStart + i * samplingInterval;
-          
-          // 이진 검색으로 타겟 금액에 해당하는 거래 찾기
-          for (let j = 0; j < cumulativeAmounts.length; j++) {
-            if (cumulativeAmounts[j].cumulative >= targetAmount) {
-              selectedIndices.add(j);
-              break;
-            }
-          }
-        }
+  // 층화 샘플링: 핵심항목 전수 선정 후 계층별 표본 수·방법으로 추출
+  const handleStratifiedSampling = (seed: number) => {
+    if (!hasAmountColumns) {
+      toast({
+        title: '오류',
+        description: '차변 또는 대변 열을 찾을 수 없습니다.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    const threshold = parseAmountInput(keyItemThreshold);
+    if (strata.length === 0 && (threshold === null || threshold <= 0)) {
+      toast({
+        title: '오류',
+        description: '계층을 하나 이상 정의하거나 핵심항목 기준금액을 입력해주세요.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    const bounds = strata.map(stratum => stratum.upperBound).filter((bound): bound is number => bound !== null);
+    const invalidBounds = bounds.some((bound, i) => bound <= 0 || (i > 0 && bound <= bounds[i - 1]))
+      || (threshold !== null && threshold > 0 && bounds.some(bound => bound >= threshold));
+    if (invalidBounds) {
+      toast({
+        title: '오류',
+        description: '계층 상한은 0보다 크고 위 계층보다 커야 하며, 핵심항목 기준금액보다 작아야 합니다.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const result = stratifiedSample(filteredAccountData, getRowAmount, {
+      keyItemThreshold: threshold,
+      strata,
+      random: createSeededRandom(seed),
+    });
+    const samples = result.samples.map(sample => sample.item);
+    const sampleStrata = result.samples.map(sample => sample.stratum);
+    const population = filteredAccountData.filter(row => getRowAmount(row) > 0);
+    const runRecord = buildRunRecord(
+      seed,
+      null,
+      strata.reduce((sum, stratum) => sum + stratum.sampleSize, 0),
+      population.length,
+      population.reduce((sum, row) => sum + getRowAmount(row), 0),
+      [
+        ['핵심항목 기준금액', threshold !== null && threshold > 0 ? threshold : '없음'],
+        ...result.strata.map((stratum): [string, string | number] => [
+          `계층 ${stratum.label}`,
+          `${STRATUM_METHOD_LABELS[stratum.method]} ${stratum.sampleCount}건${stratum.randomStart !== null ? `, 시작점 ${stratum.randomStart.toLocaleString()}` : ''}`,
+        ]),
+      ]
+    );
 
-        samples = Array.from(selectedIndices).map(i => cumulativeAmounts[i].row);
-        break;
+    setSampledData(samples);
+    setRunParameters(runRecord.parameters);
+    setSavedSettings(runRecord.settings);
+    setStratifiedResult({ summaries: result.strata, sampleStrata });
+    setMusBase(null);
+    setAttributeBase(null);
+    setAuditedValues([]);
+    setAnomalyRowObjects(new Set());
+    setAnomalyRows(new Set());
+    saveResultToActiveEngagement('sampling', selectedAccount, {
+      method: samplingMethod,
+      sampleSize: samples.length,
+      samples,
+      stratified: { keyItemThreshold, definitions: strata, summaries: result.strata, sampleStrata },
+      ...runRecord,
+    });
+    const keyCount = result.strata.find(stratum => stratum.method === 'key')?.sampleCount ?? 0;
+    toast({
+      title: '샘플링 완료',
+      description: `${samples.length}건의 샘플을 추출했습니다.${keyCount > 0 ? ` (핵심항목 ${keyCount}건 전수 포함)` : ''}`,
+    });
+  };
+
+  // 속성 샘플링: 표에서 정한 표본 크기만큼 모집단에서 무작위 추출 (통제 테스트)
+  const handleAttributeSampling = (seed: number) => {
+    if (!attributeSampleSize) {
+      toast({
+        title: '오류',
+        description: '예상 일탈률은 허용 일탈률보다 작아야 합니다. 표본이 너무 크면 허용 일탈률을 높이거나 예상 일탈률을 낮춰주세요.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    const population = filteredAccountData.filter(row => getRowAmount(row) > 0);
+    if (population.length === 0) {
+      toast({
+        title: '오류',
+        description: '선택한 금액 타입에 해당하는 거래가 없습니다.',
+        variant: 'destructive',
+      });
+      return;
     }
 
-    // 이상거래와 일반 샘플 합치기 (샘플 크기 초과 방지)
-    const finalSamples = [...anomalySamples, ...samples].slice(0, finalSampleSize);
-    
-    setSampledData(finalSamples);
+    const selection = selectSample(population, attributeSampleSize.sampleSize, 'random', getRowAmount, createSeededRandom(seed));
+    const samples = selection.items;
+    const nextBase: AttributeSamplingBase = {
+      expectedRate: parseFloat(expectedDeviationRate),
+      tolerableRate: parseFloat(tolerableDeviationRate),
+      confidenceLevel,
+      ...attributeSampleSize,
+    };
+    const runRecord = buildRunRecord(
+      seed,
+      null,
+      attributeSampleSize.sampleSize,
+      population.length,
+      population.reduce((sum, row) => sum + getRowAmount(row), 0),
+      [
+        ['예상 일탈률', `${nextBase.expectedRate}%`],
+        ['허용 일탈률', `${nextBase.tolerableRate}%`],
+        ['표본 크기 (허용 일탈 건수)', `${nextBase.sampleSize}건 (${nextBase.expectedDeviations}건)`],
+      ]
+    );
+
+    setSampledData(samples);
+    setRunParameters(runRecord.parameters);
+    setSavedSettings(runRecord.settings);
+    setAttributeBase(nextBase);
+    setAttributeResults([]);
+    setDeviationNotes([]);
+    setMusBase(null);
+    setAuditedValues([]);
+    setStratifiedResult(null);
+    setAnomalyRowObjects(new Set());
+    setAnomalyRows(new Set());
+    saveResultToActiveEngagement('sampling', selectedAccount, {
+      method: samplingMethod,
+      sampleSize: samples.length,
+      samples,
+      attribute: nextBase,
+      ...runRecord,
+    });
     toast({
       title: '샘플링 완료',
-      description: `${finalSamples.length}건의 샘플을 추출했습니다.${anomalySamples.length > 0 ? ` (심각도 높음 이상거래 ${anomalySamples.length}건 포함)` : ''}`,
+      description: `${samples.length}건의 샘플을 추출했습니다.${samples.length < nextBase.sampleSize ? ' (모집단이 표본 크기보다 작아 전체 선정)' : ''}`,
     });
   };
 
+  // 금액 합계가 비슷하도록 계층 구간 제안 (핵심항목 제외, 총 표본 수는 샘플 크기)
+  const handleSuggestStrata = () => {
+    const threshold = parseAmountInput(keyItemThreshold);
+    const amounts = filteredAccountData
+      .map(row => getRowAmount(row))
+      .filter(amount => amount > 0 && (threshold === null || threshold <= 0 || amount < threshold));
+    const suggested = suggestStrata(amounts, parseInt(stratumCount) || 3, parseInt(sampleSize) || 30);
+    if (suggested.length === 0) {
+      toast({
+        title: '오류',
+        description: '계층을 나눌 금액이 있는 거래가 없습니다.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    setStrata(suggested);
+  };
+
+  const updateStratum = (index: number, patch: Partial<StratumDefinition>) => {
+    setStrata(prev => prev.map((stratum, i) => (i === index ? { ...stratum, ...patch } : stratum)));
+  };
+
+  // 마지막 계층(상한 없음) 앞에 새 계층 추가
+  const addStratum = () => {
+    setStrata(prev => {
+      if (prev.length === 0) return [{ upperBound: null, sampleSize: parseInt(sampleSize) || 30, method: 'random' }];
+      const previousBound = prev.length > 1 ? prev[prev.length - 2].upperBound ?? 0 : 0;
+      const next: StratumDefinition = { upperBound: previousBound > 0 ? previousBound * 2 : 1000000, sampleSize: 10, method: 'random' };
+      return [...prev.slice(0, -1), next, prev[prev.length - 1]];
+    });
+  };
+
+  const removeStratum = (index: number) => {
+    setStrata(prev => {
+      const next = prev.filter((_, i) => i !== index);
+      // 마지막 계층은 항상 상한 없음
+      return next.map((stratum, i) => (i === next.length - 1 ? { ...stratum, upperBound: null } : stratum));
+    });
+  };
+
+  // 층화·속성 샘플링이 아닐 때만 이상거래 구분 열 표시
+  const showAnomalyColumn = includeAnomalies && samplingMethod !== 'stratified' && samplingMethod !== 'attribute';
+  const showStratumColumn = samplingMethod === 'stratified' && stratifiedResult !== null
+    && stratifiedResult.sampleStrata.length === sampledData.length;
+
   // 잔액 컬럼인지 확인하는 함수
   const isBalanceColumn = (header: string): boolean => {
     return robustFindHeader([header], BALANCE_KEYWORDS) !== undefined;
@@ -490,14 +780,14 @@ export const SamplingAnalysis: React.FC<SamplingAnalysisProps> = ({
     const wb = XLSX.utils.book_new();
       
       // 샘플링 방법 이름
-      const samplingMethodName = samplingMethod === 'random' ? '무작위' : samplingMethod === 'systematic' ? '체계적' : 'MUS';
+      const samplingMethodName = SAMPLING_METHOD_NAMES[samplingMethod];
       
       // 잔액 컬럼 제외한 헤더 목록
       const originalHeaders = Object.keys(sampledData[0] || {}).filter(h => !isBalanceColumn(h));
       
       // 이상거래 포함 여부에 따라 구분 열 추가, 샘플링 방법을 오른쪽 끝에 추가
       const exportData = sampledData.map((row, idx) => {
-        const isAnomaly = includeAnomalies && anomalyRowObjects.has(row);
+        const isAnomaly = showAnomalyColumn && anomalyRowObjects.has(row);
         const rowData: any = {};
         
         // 잔액 컬럼 제외하고 데이터 복사
@@ -506,18 +796,24 @@ export const SamplingAnalysis: React.FC<SamplingAnalysisProps> = ({
         });
         
         // 이상거래가 포함된 경우에만 구분 열 추가
-        if (includeAnomalies) {
+        if (showAnomalyColumn) {
           rowData['구분'] = isAnomaly ? '이상거래' : '일반';
         }
+        if (showStratumColumn) {
+          rowData['계층'] = stratifiedResult.sampleStrata[idx];
+        }
         // 샘플링 방법을 오른쪽 끝에 추가
         rowData['샘플링방법'] = samplingMethodName;
         return rowData;
       });
       
       // 구분 설명과 헤더를 포함한 데이터 생성
-      const headers = includeAnomalies 
-        ? ['구분', ...originalHeaders, '샘플링방법']
-        : [...originalHeaders, '샘플링방법'];
+      const headers = [
+        ...(showAnomalyColumn ? ['구분'] : []),
+        ...originalHeaders,
+        ...(showStratumColumn ? ['계층'] : []),
+        '샘플링방법',
+      ];
       
       // 샘플링 방법 설명
       const getSamplingMethodDescription = (): string => {
@@ -528,6 +824,10 @@ export const SamplingAnalysis: React.FC<SamplingAnalysisProps> = ({
             return '※ 샘플링 방법: 체계적 샘플링 - 첫 번째 샘플을 무작위로 선택한 후 일정한 간격으로 샘플을 추출하는 방법입니다.';
           case 'mus':
             return '※ 샘플링 방법: MUS (Monetary Unit Sampling) - 금액 단위 샘플링으로, 금액이 큰 거래일수록 선택될 확률이 높은 금액 가중치 기반 샘플링 방법입니다.';
+          case 'stratified':
+            return '※ 샘플링 방법: 층화 샘플링 - 핵심항목 기준금액 이상은 전수 선정하고, 나머지는 금액 구간(계층)별로 정한 표본 수와 방법으로 추출하는 방법입니다.';
+          case 'attribute':
+            return '※ 샘플링 방법: 속성 샘플링 - 통제 테스트를 위해 예상·허용 일탈률과 신뢰수준으로 정한 표본 크기만큼 무작위로 추출하는 방법입니다.';
           default:
             return '';
         }
@@ -546,7 +846,7 @@ export const SamplingAnalysis: React.FC<SamplingAnalysisProps> = ({
       descriptionRows.push(samplingDescriptionRow);
       
       // 이상거래 설명 추가 (있는 경우)
-      if (includeAnomalies) {
+      if (showAnomalyColumn) {
         const anomalyDescriptionRow: any[] = [];
         anomalyDescriptionRow.push('※ 구분: "이상거래"는 심각도가 높은 이상거래를 의미하며 (Z-score 3 이상, 최대값 등), "일반"은 일반 샘플링으로 추출된 거래를 의미합니다.');
         // 나머지 셀은 비워두기
@@ -576,7 +876,7 @@ export const SamplingAnalysis: React.FC<SamplingAnalysisProps> = ({
     XLSX.utils.book_append_sheet(wb, ws, '샘플');
       
       // 이상거래 정보 시트 추가
-      if (includeAnomalies && anomalyRows.size > 0) {
+      if (showAnomalyColumn && anomalyRows.size > 0) {
         const anomalyInfo = [
           ['이상거래 포함 샘플링 정보'],
           ['계정과목', selectedAccount],
@@ -592,7 +892,29 @@ export const SamplingAnalysis: React.FC<SamplingAnalysisProps> = ({
         const ws2 = XLSX.utils.aoa_to_sheet(anomalyInfo);
         XLSX.utils.book_append_sheet(wb, ws2, '이상거래정보');
       }
+
+      // 계층별 모집단·표본·커버리지
+      if (showStratumColumn) {
+        const summaryRows = stratifiedResult.summaries.map(stratum => ({
+          계층: stratum.label,
+          추출방법: STRATUM_METHOD_LABELS[stratum.method],
+          모집단건수: stratum.populationCount,
+          모집단금액: stratum.populationAmount,
+          표본건수: stratum.sampleCount,
+          표본금액: stratum.sampleAmount,
+          '건수커버리지(%)': stratum.populationCount > 0 ? Math.round((stratum.sampleCount / stratum.populationCount) * 10000) / 100 : 0,
+          '금액커버리지(%)': stratum.populationAmount > 0 ? Math.round((stratum.sampleAmount / stratum.populationAmount) * 10000) / 100 : 0,
+        }));
+        XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(summaryRows), '계층요약');
+      }
       
+      // 재수행용 파라미터 (시드·무작위 시작점 포함)
+      if (runParameters) {
+        const wsParams = XLSX.utils.aoa_to_sheet(buildSamplingParameterRows(runParameters));
+        wsParams['!cols'] = [{ wch: 28 }, { wch: 48 }];
+        XLSX.utils.book_append_sheet(wb, wsParams, '파라미터');
+      }
+
     XLSX.writeFile(wb, `감사샘플_${selectedAccount}_${samplingMethod}_${new Date().toISOString().split('T')[0]}.xlsx`);
 
     toast({
@@ -608,6 +930,328 @@ export const SamplingAnalysis: React.FC<SamplingAnalysisProps> = ({
     }
   };
 
+  // MUS 평가: 표본 전부의 감사금액과 허용왜곡표시액을 입력해야 결론을 냅니다
+  const musItemsReady = musBase !== null && musBase.bookValues.length === sampledData.length;
+  const pendingAuditCount = musItemsReady
+    ? musBase.bookValues.filter((_, i) => parseAmountInput(auditedValues[i] ?? '') === null).length
+    : 0;
+
+  const musEvaluation = useMemo(() => {
+    if (!musBase || musBase.bookValues.length !== sampledData.length) return null;
+    const tolerable = parseAmountInput(tolerableMisstatement);
+    if (tolerable === null || tolerable <= 0) return null;
+    const sample = musBase.bookValues.map((bookValue, i) => ({
+      bookValue,
+      auditedValue: parseAmountInput(auditedValues[i] ?? ''),
+      isKeyItem: musBase.keyItems[i],
+    }));
+    if (sample.some(item => item.auditedValue === null)) return null;
+    return evaluateMusSample(
+      sample.map(item => ({ ...item, auditedValue: item.auditedValue! })),
+      {
+        samplingInterval: musBase.samplingInterval,
+        confidenceLevel: musBase.confidenceLevel,
+        tolerableMisstatement: tolerable,
+      }
+    );
+  }, [musBase, sampledData.length, auditedValues, tolerableMisstatement]);
+
+  // 감사금액 입력 내용은 입력란을 벗어날 때 감사 업무에 저장
+  const persistMusEvaluation = (nextAuditedValues: string[], nextTolerable: string) => {
+    if (!musBase) return;
+    saveResultToActiveEngagement('sampling', selectedAccount, {
+      method: samplingMethod,
+      sampleSize: sampledData.length,
+      samples: sampledData,
+      mus: musBase,
+      auditedValues: nextAuditedValues,
+      tolerableMisstatement: nextTolerable,
+      settings: savedSettings ?? undefined,
+      parameters: runParameters ?? undefined,
+    });
+  };
+
+  const handleAuditedValueChange = (index: number, value: string) => {
+    const next = [...auditedValues];
+    next[index] = value.replace(/[^0-9,.-]/g, '');
+    setAuditedValues(next);
+  };
+
+  // 미입력 표본은 장부금액과 같다고(오류 없음) 채우기
+  const fillAuditedWithBookValues = () => {
+    if (!musBase) return;
+    const next = musBase.bookValues.map((bookValue, i) =>
+      parseAmountInput(auditedValues[i] ?? '') === null ? bookValue.toLocaleString() : auditedValues[i]
+    );
+    setAuditedValues(next);
+    persistMusEvaluation(next, tolerableMisstatement);
+  };
+
+  const sampleHeaders = Object.keys(sampledData[0] || {});
+  const sampleDateHeader = robustFindHeader(sampleHeaders, DATE_KEYWORDS);
+  const sampleDescriptionHeader = robustFindHeader(sampleHeaders, DESCRIPTION_KEYWORDS);
+  const formatSampleCell = (row: LedgerRow, header: string | undefined): string => {
+    if (!header) return '';
+    const val = row[header];
+    return val instanceof Date ? val.toLocaleDateString() : String(val ?? '');
+  };
+
+  const downloadMusWorkpaper = () => {
+    if (!musBase || !musEvaluation) return;
+    try {
+      const wb = XLSX.utils.book_new();
+      const today = new Date().toISOString().split('T')[0];
+      const amountTypeName = musAmountType === 'debit' ? '차변' : musAmountType === 'credit' ? '대변' : '차변+대변';
+      const { overstatement, understatement } = musEvaluation;
+
+      // 1. 평가 요약 (모집단, 표본 설계, 왜곡표시 상한과 결론)
+      const summaryRows: (string | number)[][] = [
+        ['MUS 표본 평가 조서'],
+        [],
+        ['작성일', today],
+        ['계정과목', selectedAccount],
+        ['기간', startDate || endDate ? `${startDate || '처음'} ~ ${endDate || '끝'}` : '전체'],
+        ['금액 타입', amountTypeName],
+        ['모집단 금액', musBase.populationValue],
+        ['표본 수', sampledData.length],
+        ['표본간격', Math.round(musBase.samplingInterval)],
+        ['신뢰수준', `${musBase.confidenceLevel}%`],
+        ['신뢰계수 (오류 0건)', getMusConfidenceFactor(0, musBase.confidenceLevel)],
+        ['허용왜곡표시액', musEvaluation.tolerableMisstatement],
+        [],
+        ['구분', '과대계상', '과소계상'],
+        ['오류 건수 (상위층 제외)', overstatement.errorCount, understatement.errorCount],
+        ['기본 정밀도', Math.round(musEvaluation.basicPrecision), Math.round(musEvaluation.basicPrecision)],
+        ['추정 왜곡표시액', Math.round(overstatement.projectedMisstatement), Math.round(understatement.projectedMisstatement)],
+        ['증분 허용액', Math.round(overstatement.incrementalAllowance), Math.round(understatement.incrementalAllowance)],
+        ['상위층·개별 항목 왜곡표시액', Math.round(overstatement.topStratumMisstatement), Math.round(understatement.topStratumMisstatement)],
+        ['왜곡표시 상한 (UML)', Math.round(overstatement.upperLimit), Math.round(understatement.upperLimit)],
+        [],
+        ['결론', MUS_CONCLUSION_LABELS[musEvaluation.conclusion]],
+        [],
+        ['※ 오류율 = (장부금액 - 감사금액) ÷ 장부금액, 추정 왜곡표시액 = 오류율 × 표본간격'],
+        ['※ 기본 정밀도 = 신뢰계수(오류 0건) × 표본간격, 증분 허용액 = 추정 왜곡표시액 × (증분 신뢰계수 - 1), 오류율이 큰 순서로 적용'],
+        ['※ 장부금액이 표본간격 이상인 상위층 항목과 이상거래로 우선 포함한 항목은 추정하지 않고 실제 왜곡표시액을 더합니다.'],
+      ];
+      const wsSummary = XLSX.utils.aoa_to_sheet(summaryRows);
+      wsSummary['!cols'] = [{ wch: 28 }, { wch: 18 }, { wch: 18 }];
+      XLSX.utils.book_append_sheet(wb, wsSummary, '평가요약');
+
+      // 2. 표본별 평가
+      const originalHeaders = sampleHeaders.filter(h => !isBalanceColumn(h));
+      const itemRows = musEvaluation.items.map(item => {
+        const row: Record<string, string | number | Date | undefined> = {
+          순번: item.index + 1,
+          구분: musBase.keyItems[item.index] ? '이상거래' : item.isTopStratum ? '상위층' : '일반',
+        };
+        originalHeaders.forEach(header => {
+          row[header] = sampledData[item.index][header];
+        });
+        row['장부금액'] = item.bookValue;
+        row['감사금액'] = item.auditedValue;
+        row['왜곡표시액'] = item.misstatement;
+        row['오류율(%)'] = item.isTopStratum ? '' : Math.round(item.tainting * 10000) / 100;
+        row['추정왜곡표시액'] = Math.round(item.projectedMisstatement);
+        return row;
+      });
+      XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(itemRows), '표본평가');
+
+      // 3. 증분 허용액 계산 내역
+      const stepRows = [
+        ...overstatement.steps.map(step => ({ direction: '과대계상', step })),
+        ...understatement.steps.map(step => ({ direction: '과소계상', step })),
+      ].map(({ direction, step }) => ({
+        구분: direction,
+        순위: step.rank,
+        표본순번: step.index + 1,
+        '오류율(%)': Math.round(step.tainting * 10000) / 100,
+        추정왜곡표시액: Math.round(step.projectedMisstatement),
+        신뢰계수: step.confidenceFactor,
+        증분계수: step.incrementalFactor,
+        증분허용액: Math.round(step.allowance),
+      }));
+      if (stepRows.length > 0) {
+        XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(stepRows), '증분허용액');
+      }
+
+      if (runParameters) {
+        const wsParams = XLSX.utils.aoa_to_sheet(buildSamplingParameterRows(runParameters));
+        wsParams['!cols'] = [{ wch: 28 }, { wch: 48 }];
+        XLSX.utils.book_append_sheet(wb, wsParams, '파라미터');
+      }
+
+      XLSX.writeFile(wb, `MUS평가_${selectedAccount}_${today}.xlsx`);
+      toast({
+        title: '다운로드 완료',
+        description: 'MUS 표본 평가 조서를 다운로드했습니다.',
+      });
+    } catch (error) {
+      toast({
+        title: '오류',
+        description: `다운로드 실패: ${error instanceof Error ? error.message : String(error)}`,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // 속성 평가: 표본 전부의 검토 결과를 입력해야 결론을 냅니다
+  const attributeItemsReady = attributeBase !== null && sampledData.length > 0;
+  const pendingTestCount = attributeItemsReady
+    ? sampledData.filter((_, i) => (attributeResults[i] ?? 'pending') === 'pending').length
+    : 0;
+
+  const attributeEvaluation = useMemo(() => {
+    if (!attributeBase || sampledData.length === 0) return null;
+    const results = sampledData.map((_, i) => attributeResults[i] ?? 'pending');
+    if (results.some(result => result === 'pending')) return null;
+    return evaluateAttributeSample(results, {
+      tolerableRate: attributeBase.tolerableRate,
+      confidenceLevel: attributeBase.confidenceLevel,
+    });
+  }, [attributeBase, sampledData, attributeResults]);
+
+  // 검토 결과와 일탈 내용은 바뀔 때(내용은 입력란을 벗어날 때) 감사 업무에 저장
+  const persistAttributeEvaluation = (nextResults: AttributeTestResult[], nextNotes: string[]) => {
+    if (!attributeBase) return;
+    saveResultToActiveEngagement('sampling', selectedAccount, {
+      method: samplingMethod,
+      sampleSize: sampledData.length,
+      samples: sampledData,
+      attribute: attributeBase,
+      attributeResults: nextResults,
+      deviationNotes: nextNotes,
+      settings: savedSettings ?? undefined,
+      parameters: runParameters ?? undefined,
+    });
+  };
+
+  const handleAttributeResultChange = (index: number, result: AttributeTestResult) => {
+    const next = sampledData.map((_, i) => attributeResults[i] ?? 'pending');
+    next[index] = result;
+    setAttributeResults(next);
+    persistAttributeEvaluation(next, deviationNotes);
+  };
+
+  // 미검토 표본을 적합(일탈 없음)으로 채우기
+  const fillPendingAsPass = () => {
+    const next = sampledData.map((_, i): AttributeTestResult => {
+      const result = attributeResults[i] ?? 'pending';
+      return result === 'pending' ? 'pass' : result;
+    });
+    setAttributeResults(next);
+    persistAttributeEvaluation(next, deviationNotes);
+  };
+
+  const downloadAttributeWorkpaper = () => {
+    if (!attributeBase || !attributeEvaluation) return;
+    try {
+      const wb = XLSX.utils.book_new();
+      const today = new Date().toISOString().split('T')[0];
+
+      // 1. 평가 요약 (표본 설계, 일탈률 상한과 결론)
+      const summaryRows: (string | number)[][] = [
+        ['속성 표본 평가 조서 (통제 테스트)'],
+        [],
+        ['작성일', today],
+        ['계정과목', selectedAccount],
+        ['기간', startDate || endDate ? `${startDate || '처음'} ~ ${endDate || '끝'}` : '전체'],
+        ['금액 타입', AMOUNT_TYPE_NAMES[musAmountType]],
+        ['신뢰수준', `${attributeBase.confidenceLevel}%`],
+        ['예상 일탈률', `${attributeBase.expectedRate}%`],
+        ['허용 일탈률', `${attributeBase.tolerableRate}%`],
+        ['표본 크기 (표)', attributeBase.sampleSize],
+        ['표본 설계 시 허용 일탈 건수', attributeBase.expectedDeviations],
+        [],
+        ['검토 표본 수', attributeEvaluation.sampleSize],
+        ['일탈 건수', attributeEvaluation.deviationCount],
+        ['표본 일탈률', `${attributeEvaluation.sampleDeviationRate.toFixed(2)}%`],
+        ['표본위험 허용치', `${attributeEvaluation.allowanceForSamplingRisk.toFixed(2)}%`],
+        ['일탈률 상한 (UDL)', `${attributeEvaluation.upperDeviationLimit.toFixed(1)}%`],
+        [],
+        ['결론', ATTRIBUTE_CONCLUSION_LABELS[attributeEvaluation.conclusion]],
+        [],
+        ['※ 표본 크기는 예상 일탈 건수가 나와도 일탈률 상한이 허용 일탈률 이하가 되는 최소 표본입니다. (이항분포, AICPA 감사표본 지침 표와 같은 방식)'],
+        ['※ 일탈률 상한은 일탈 건수가 그 이하일 확률이 (1 - 신뢰수준)이 되는 일탈률이며 소수 첫째 자리에서 올림합니다.'],
+      ];
+      const wsSummary = XLSX.utils.aoa_to_sheet(summaryRows);
+      wsSummary['!cols'] = [{ wch: 28 }, { wch: 40 }];
+      XLSX.utils.book_append_sheet(wb, wsSummary, '평가요약');
+
+      // 2. 표본별 검토 결과
+      const originalHeaders = sampleHeaders.filter(h => !isBalanceColumn(h));
+      const itemRows = sampledData.map((sample, idx) => {
+        const row: Record<string, string | number | Date | undefined> = { 순번: idx + 1 };
+        originalHeaders.forEach(header => {
+          row[header] = sample[header];
+        });
+        row['검토결과'] = ATTRIBUTE_TEST_RESULT_LABELS[attributeResults[idx] ?? 'pending'];
+        row['일탈내용'] = deviationNotes[idx] ?? '';
+        return row;
+      });
+      XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(itemRows), '표본검토');
+
+      // 3. 표본 크기 표 (괄호 안은 허용 일탈 건수)
+      const sizeRows: (string | number)[][] = [
+        [`표본 크기 표 (신뢰수준 ${attributeBase.confidenceLevel}%)`],
+        [],
+        ['예상 일탈률 \\ 허용 일탈률', ...ATTRIBUTE_TOLERABLE_RATES.map(rate => `${rate}%`)],
+        ...buildAttributeSampleSizeTable(attributeBase.confidenceLevel).map(row => [
+          `${row.expectedRate}%`,
+          ...row.sizes.map(size => (size ? `${size.sampleSize} (${size.expectedDeviations})` : '*')),
+        ]),
+        [],
+        ['※ * 표본이 너무 커 비용 대비 효율적이지 않음'],
+      ];
+      const wsSizes = XLSX.utils.aoa_to_sheet(sizeRows);
+      wsSizes['!cols'] = [{ wch: 24 }, ...ATTRIBUTE_TOLERABLE_RATES.map(() => ({ wch: 10 }))];
+      XLSX.utils.book_append_sheet(wb, wsSizes, '표본크기표');
+
+      if (runParameters) {
+        const wsParams = XLSX.utils.aoa_to_sheet(buildSamplingParameterRows(runParameters));
+        wsParams['!cols'] = [{ wch: 28 }, { wch: 48 }];
+        XLSX.utils.book_append_sheet(wb, wsParams, '파라미터');
+      }
+
+      XLSX.writeFile(wb, `속성평가_${selectedAccount}_${today}.xlsx`);
+      toast({
+        title: '다운로드 완료',
+        description: '속성 표본 평가 조서를 다운로드했습니다.',
+      });
+    } catch (error) {
+      toast({
+        title: '오류',
+        description: `다운로드 실패: ${error instanceof Error ? error.message : String(error)}`,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // 금액 타입 선택 (MUS·층화·속성 샘플링 공통)
+  const amountTypeSelector = (
+    <div className="space-y-2">
+      <Label>금액 타입</Label>
+      <RadioGroup value={musAmountType} onValueChange={(v: any) => setMusAmountType(v)}>
+        <div className="flex items-center space-x-2">
+          <RadioGroupItem value="debit" id="debit" />
+          <Label htmlFor="debit" className="font-normal cursor-pointer">차변만</Label>
+        </div>
+        <div className="flex items-center space-x-2">
+          <RadioGroupItem value="credit" id="credit" />
+          <Label htmlFor="credit" className="font-normal cursor-pointer">대변만</Label>
+        </div>
+        <div className="flex items-center space-x-2">
+          <RadioGroupItem value="both" id="both" />
+          <Label htmlFor="both" className="font-normal cursor-pointer">차변+대변 모두</Label>
+        </div>
+      </RadioGroup>
+      {musTotalAmount > 0 && (
+        <p className="text-xs text-muted-foreground">
+          모집단 금액 ({musAmountType === 'debit' ? '차변' : musAmountType === 'credit' ? '대변' : '차변+대변'}): ₩{musTotalAmount.toLocaleString()}
+        </p>
+      )}
+    </div>
+  );
+
   return (
     <div className="space-y-6">
       <Card>
@@ -685,12 +1329,16 @@ export const SamplingAnalysis: React.FC<SamplingAnalysisProps> = ({
                   <SelectItem value="random">랜덤 샘플링</SelectItem>
                   <SelectItem value="systematic">체계적 샘플링</SelectItem>
                   <SelectItem value="mus">MUS (금액기준)</SelectItem>
+                  <SelectItem value="stratified">층화 샘플링 (금액 구간별)</SelectItem>
+                  <SelectItem value="attribute">속성 샘플링 (통제 테스트)</SelectItem>
                 </SelectContent>
               </Select>
               <p className="text-xs text-muted-foreground">
                 {samplingMethod === 'random' && '무작위로 샘플 선택'}
                 {samplingMethod === 'systematic' && '등간격으로 샘플 선택'}
                 {samplingMethod === 'mus' && '금액 가중치 기반 선택'}
+                {samplingMethod === 'stratified' && '핵심항목 전수 + 금액 구간별 선택'}
+                {samplingMethod === 'attribute' && '표에서 정한 크기만큼 무작위 선택 후 일탈 여부 평가'}
               </p>
             </div>
 
@@ -699,16 +1347,24 @@ export const SamplingAnalysis: React.FC<SamplingAnalysisProps> = ({
               <Label>샘플 크기</Label>
               <Input
                 type="number"
-                value={sampleSize}
+                value={samplingMethod === 'attribute' ? String(attributeSampleSize?.sampleSize ?? '') : sampleSize}
                 onChange={(e) => setSampleSize(e.target.value)}
                 min="1"
                 max={filteredAccountData.length}
-                disabled={samplingMethod === 'mus' && useStatisticalTable && calculatedSampleSize !== null}
+                disabled={(samplingMethod === 'mus' && useStatisticalTable && calculatedSampleSize !== null) || samplingMethod === 'attribute'}
               />
-              {samplingMethod === 'mus' && useStatisticalTable && calculatedSampleSize !== null ? (
+              {samplingMethod === 'attribute' ? (
+                <p className="text-xs text-muted-foreground">
+                  예상·허용 일탈률과 신뢰수준으로 표에서 정합니다
+                </p>
+              ) : samplingMethod === 'mus' && useStatisticalTable && calculatedSampleSize !== null ? (
                 <p className="text-xs text-blue-600 dark:text-blue-400 font-semibold">
                   계산된 샘플 크기: {calculatedSampleSize.toLocaleString()}건
                 </p>
+              ) : samplingMethod === 'stratified' ? (
+                <p className="text-xs text-muted-foreground">
+                  구간 제안 시 계층별로 배분할 총 표본 수
+                </p>
               ) : (
               <p className="text-xs text-muted-foreground">
                 권장: 30~100건
@@ -717,6 +1373,28 @@ export const SamplingAnalysis: React.FC<SamplingAnalysisProps> = ({
             </div>
           </div>
 
+          {/* 시드 (재현 가능한 추출) */}
+          <div className="space-y-2">
+            <Label htmlFor="samplingSeed">시드 (Seed)</Label>
+            <div className="flex gap-2 max-w-md">
+              <Input
+                id="samplingSeed"
+                type="text"
+                inputMode="numeric"
+                value={seedInput}
+                onChange={(e) => setSeedInput(e.target.value.replace(/[^0-9]/g, ''))}
+                placeholder="비워두면 실행할 때 새로 만듭니다"
+              />
+              <Button variant="outline" onClick={() => setSeedInput(String(generateSamplingSeed()))}>
+                <RefreshCw className="mr-2 h-4 w-4" />
+                새 시드
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              같은 계정·기간·금액 기준과 파라미터에 같은 시드를 쓰면 검토자가 재실행해도 같은 표본이 추출됩니다.
+            </p>
+          </div>
+
           {/* MUS 전용 옵션 */}
           {samplingMethod === 'mus' && (
             <Card className="bg-muted/50">
@@ -727,29 +1405,7 @@ export const SamplingAnalysis: React.FC<SamplingAnalysisProps> = ({
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-4">
-                {/* 금액 타입 선택 */}
-                <div className="space-y-2">
-                  <Label>금액 타입</Label>
-                  <RadioGroup value={musAmountType} onValueChange={(v: any) => setMusAmountType(v)}>
-                    <div className="flex items-center space-x-2">
-                      <RadioGroupItem value="debit" id="debit" />
-                      <Label htmlFor="debit" className="font-normal cursor-pointer">차변만</Label>
-                    </div>
-                    <div className="flex items-center space-x-2">
-                      <RadioGroupItem value="credit" id="credit" />
-                      <Label htmlFor="credit" className="font-normal cursor-pointer">대변만</Label>
-                    </div>
-                    <div className="flex items-center space-x-2">
-                      <RadioGroupItem value="both" id="both" />
-                      <Label htmlFor="both" className="font-normal cursor-pointer">차변+대변 모두</Label>
-                    </div>
-                  </RadioGroup>
-                  {musTotalAmount > 0 && (
-                    <p className="text-xs text-muted-foreground">
-                      모집단 금액 ({musAmountType === 'debit' ? '차변' : musAmountType === 'credit' ? '대변' : '차변+대변'}): ₩{musTotalAmount.toLocaleString()}
-                    </p>
-                  )}
-                </div>
+                {amountTypeSelector}
 
                 {/* 통계표 기반 샘플 크기 계산 */}
                 <div className="space-y-2">
@@ -846,28 +1502,252 @@ export const SamplingAnalysis: React.FC<SamplingAnalysisProps> = ({
             </Card>
           )}
 
-          {/* 이상거래 포함 옵션 */}
-          <div className="flex items-center space-x-2 p-4 border rounded-lg bg-muted/50">
-            <Checkbox
-              id="includeAnomalies"
-              checked={includeAnomalies}
-              onCheckedChange={(checked) => setIncludeAnomalies(checked === true)}
-            />
-            <div className="flex-1">
-              <Label htmlFor="includeAnomalies" className="cursor-pointer font-medium flex items-center gap-2">
-                <AlertTriangle className="h-4 w-4 text-orange-500" />
-                이상거래 자동 포함
-              </Label>
-              <p className="text-xs text-muted-foreground mt-1">
-                심각도가 "높음"인 이상거래만 자동으로 탐지하여 샘플에 우선 포함합니다. (Z-score 3 이상, 최대값 등)
-                {anomalyRows.size > 0 && (
-                  <span className="ml-2 text-orange-600 dark:text-orange-400 font-semibold">
-                    발견된 심각도 높음 이상거래: {anomalyRows.size}건
-                  </span>
+          {/* 층화 샘플링 옵션 */}
+          {samplingMethod === 'stratified' && (
+            <Card className="bg-muted/50">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-sm flex items-center gap-2">
+                  <Layers className="h-4 w-4" />
+                  층화 샘플링 옵션
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {amountTypeSelector}
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="keyItemThreshold">핵심항목 기준금액 (원)</Label>
+                    <Input
+                      id="keyItemThreshold"
+                      type="text"
+                      value={keyItemThreshold}
+                      onChange={(e) => setKeyItemThreshold(e.target.value.replace(/[^0-9,]/g, ''))}
+                      onBlur={() => setKeyItemThreshold(formatAmountInput(keyItemThreshold))}
+                      placeholder="예: 50,000,000"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      이 금액 이상인 거래는 모두 표본에 포함합니다. (비워두면 핵심항목 없음)
+                    </p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>구간 제안</Label>
+                    <div className="flex gap-2">
+                      <Select value={stratumCount} onValueChange={setStratumCount}>
+                        <SelectTrigger className="w-28">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {['2', '3', '4', '5'].map(count => (
+                            <SelectItem key={count} value={count}>{count}개 계층</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button variant="outline" onClick={handleSuggestStrata} disabled={!selectedAccount}>
+                        구간 제안
+                      </Button>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      계층별 금액 합계가 비슷하도록 경계를 나누고, 샘플 크기를 금액 비율로 배분합니다.
+                    </p>
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label>계층 정의</Label>
+                    <Button variant="outline" size="sm" onClick={addStratum}>
+                      <Plus className="mr-1 h-4 w-4" />
+                      계층 추가
+                    </Button>
+                  </div>
+                  {strata.length > 0 ? (
+                    <div className="rounded-md border bg-background">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>계층 (금액 구간)</TableHead>
+                            <TableHead className="w-44">상한 (미만, 원)</TableHead>
+                            <TableHead className="w-28">표본 수</TableHead>
+                            <TableHead className="w-32">추출 방법</TableHead>
+                            <TableHead className="w-12" />
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {strata.map((stratum, idx) => {
+                            const lowerBound = idx === 0 ? 0 : strata[idx - 1].upperBound ?? 0;
+                            const isLast = idx === strata.length - 1;
+                            const threshold = parseAmountInput(keyItemThreshold);
+                            const upperBound = isLast ? (threshold !== null && threshold > 0 ? threshold : null) : stratum.upperBound;
+                            return (
+                              <TableRow key={idx}>
+                                <TableCell className="text-sm">{getStratumLabel(lowerBound, upperBound)}</TableCell>
+                                <TableCell>
+                                  {isLast ? (
+                                    <span className="text-xs text-muted-foreground">
+                                      {upperBound !== null ? '핵심항목 기준금액까지' : '상한 없음'}
+                                    </span>
+                                  ) : (
+                                    <Input
+                                      type="text"
+                                      className="h-8"
+                                      value={stratum.upperBound !== null ? stratum.upperBound.toLocaleString() : ''}
+                                      onChange={(e) => updateStratum(idx, { upperBound: parseAmountInput(e.target.value.replace(/[^0-9,]/g, '')) ?? 0 })}
+                                    />
+                                  )}
+                                </TableCell>
+                                <TableCell>
+                                  <Input
+                                    type="number"
+                                    className="h-8"
+                                    min="0"
+                                    value={stratum.sampleSize}
+                                    onChange={(e) => updateStratum(idx, { sampleSize: Math.max(0, parseInt(e.target.value) || 0) })}
+                                  />
+                                </TableCell>
+                                <TableCell>
+                                  <Select
+                                    value={stratum.method}
+                                    onValueChange={(v) => updateStratum(idx, { method: v as StratumSamplingMethod })}
+                                  >
+                                    <SelectTrigger className="h-8">
+                                      <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                      <SelectItem value="random">{STRATUM_METHOD_LABELS.random}</SelectItem>
+                                      <SelectItem value="systematic">{STRATUM_METHOD_LABELS.systematic}</SelectItem>
+                                      <SelectItem value="mus">{STRATUM_METHOD_LABELS.mus}</SelectItem>
+                                    </SelectContent>
+                                  </Select>
+                                </TableCell>
+                                <TableCell>
+                                  <Button variant="ghost" size="sm" className="h-8 px-2" onClick={() => removeStratum(idx)}>
+                                    <Trash2 className="h-4 w-4" />
+                                  </Button>
+                                </TableCell>
+                              </TableRow>
+                            );
+                          })}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">
+                      계층이 없습니다. 구간 제안을 사용하거나 계층을 추가하세요.
+                    </p>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* 속성 샘플링 옵션 */}
+          {samplingMethod === 'attribute' && (
+            <Card className="bg-muted/50">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-sm flex items-center gap-2">
+                  <ClipboardCheck className="h-4 w-4" />
+                  속성 샘플링 옵션 (통제 테스트)
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {amountTypeSelector}
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="expectedDeviationRate">예상 일탈률</Label>
+                    <Select value={expectedDeviationRate} onValueChange={setExpectedDeviationRate}>
+                      <SelectTrigger id="expectedDeviationRate">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ATTRIBUTE_EXPECTED_RATES.map(rate => (
+                          <SelectItem key={rate} value={String(rate)}>{rate.toFixed(2)}%</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">
+                      전기 감사나 예비 검토로 예상하는 일탈률
+                    </p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="tolerableDeviationRate">허용 일탈률</Label>
+                    <Select value={tolerableDeviationRate} onValueChange={setTolerableDeviationRate}>
+                      <SelectTrigger id="tolerableDeviationRate">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {ATTRIBUTE_TOLERABLE_RATES.map(rate => (
+                          <SelectItem key={rate} value={String(rate)}>{rate}%</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">
+                      통제에 의존하면서 받아들일 수 있는 최대 일탈률
+                    </p>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="attributeConfidenceLevel">신뢰수준</Label>
+                    <Select value={confidenceLevel.toString()} onValueChange={(v) => setConfidenceLevel(parseInt(v))}>
+                      <SelectTrigger id="attributeConfidenceLevel">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="90">90% (위험 10%)</SelectItem>
+                        <SelectItem value="95">95% (위험 5%)</SelectItem>
+                        <SelectItem value="99">99% (위험 1%)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">
+                      통제를 과신할 위험의 반대
+                    </p>
+                  </div>
+                </div>
+
+                {attributeSampleSize ? (
+                  <div className="p-3 bg-primary/10 rounded-md border border-primary/20">
+                    <p className="text-sm font-semibold text-primary">
+                      표본 크기: {attributeSampleSize.sampleSize.toLocaleString()}건 (허용 일탈 {attributeSampleSize.expectedDeviations}건)
+                    </p>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      신뢰수준 {confidenceLevel}% · 예상 일탈률 {expectedDeviationRate}% · 허용 일탈률 {tolerableDeviationRate}%
+                      {filteredAccountData.length > 0 && ` · 모집단 ${filteredAccountData.length.toLocaleString()}건`}
+                    </p>
+                  </div>
+                ) : (
+                  <p className="text-sm text-orange-600 dark:text-orange-400">
+                    {parseFloat(expectedDeviationRate) >= parseFloat(tolerableDeviationRate)
+                      ? '예상 일탈률이 허용 일탈률 이상이면 통제에 의존할 수 없습니다. 실증절차를 확대하세요.'
+                      : '표본이 너무 커 비용 대비 효율적이지 않습니다. 허용 일탈률을 높이거나 예상 일탈률을 낮춰주세요.'}
+                  </p>
                 )}
-              </p>
+              </CardContent>
+            </Card>
+          )}
+
+          {/* 이상거래 포함 옵션 */}
+          {samplingMethod !== 'stratified' && samplingMethod !== 'attribute' && (
+            <div className="flex items-center space-x-2 p-4 border rounded-lg bg-muted/50">
+              <Checkbox
+                id="includeAnomalies"
+                checked={includeAnomalies}
+                onCheckedChange={(checked) => setIncludeAnomalies(checked === true)}
+              />
+              <div className="flex-1">
+                <Label htmlFor="includeAnomalies" className="cursor-pointer font-medium flex items-center gap-2">
+                  <AlertTriangle className="h-4 w-4 text-orange-500" />
+                  이상거래 자동 포함
+                </Label>
+                <p className="text-xs text-muted-foreground mt-1">
+                  심각도가 "높음"인 이상거래만 자동으로 탐지하여 샘플에 우선 포함합니다. (Z-score 3 이상, 최대값 등)
+                  {anomalyRows.size > 0 && (
+                    <span className="ml-2 text-orange-600 dark:text-orange-400 font-semibold">
+                      발견된 심각도 높음 이상거래: {anomalyRows.size}건
+                    </span>
+                  )}
+                </p>
+              </div>
             </div>
-          </div>
+          )}
 
           <div className="flex gap-2">
             <Button 
@@ -893,22 +1773,32 @@ export const SamplingAnalysis: React.FC<SamplingAnalysisProps> = ({
             <div className="flex items-center justify-between">
               <CardTitle>
                 샘플링 결과 ({sampledData.length}건)
-                {includeAnomalies && anomalyRowObjects.size > 0 && (
+                {showAnomalyColumn && anomalyRowObjects.size > 0 && (
                   <span className="ml-2 text-sm text-muted-foreground font-normal">
                     (이상거래 {Array.from(anomalyRowObjects).filter(row => sampledData.some(s => JSON.stringify(s) === JSON.stringify(row))).length}건 포함)
                   </span>
                 )}
               </CardTitle>
-              <Badge>
-                {samplingMethod === 'random' && '랜덤'}
-                {samplingMethod === 'systematic' && '체계적'}
-                {samplingMethod === 'mus' && 'MUS'}
-              </Badge>
+              <div className="flex items-center gap-2">
+                {runParameters && (
+                  <span className="text-xs text-muted-foreground">
+                    시드 {runParameters.seed}
+                    {runParameters.randomStart !== null && ` · 시작점 ${runParameters.randomStart.toLocaleString()}`}
+                  </span>
+                )}
+                <Badge>
+                  {samplingMethod === 'random' && '랜덤'}
+                  {samplingMethod === 'systematic' && '체계적'}
+                  {samplingMethod === 'mus' && 'MUS'}
+                  {samplingMethod === 'stratified' && '층화'}
+                  {samplingMethod === 'attribute' && '속성'}
+                </Badge>
+              </div>
             </div>
           </CardHeader>
           <CardContent>
             {/* 구분 설명 */}
-            {includeAnomalies && (
+            {showAnomalyColumn && (
               <div className="mb-4 p-3 bg-muted/50 rounded-md border border-muted">
                 <p className="text-sm font-semibold mb-2">구분 설명</p>
                 <div className="space-y-1 text-xs text-muted-foreground">
@@ -924,28 +1814,86 @@ export const SamplingAnalysis: React.FC<SamplingAnalysisProps> = ({
               </div>
             )}
             
+            {/* 계층별 모집단·표본·커버리지 */}
+            {showStratumColumn && (
+              <div className="mb-4 rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>계층</TableHead>
+                      <TableHead>추출 방법</TableHead>
+                      <TableHead className="text-right">모집단 건수</TableHead>
+                      <TableHead className="text-right">모집단 금액</TableHead>
+                      <TableHead className="text-right">표본 건수</TableHead>
+                      <TableHead className="text-right">표본 금액</TableHead>
+                      <TableHead className="text-right">건수 커버리지</TableHead>
+                      <TableHead className="text-right">금액 커버리지</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {stratifiedResult.summaries.map(stratum => (
+                      <TableRow key={stratum.label}>
+                        <TableCell className="text-sm">{stratum.label}</TableCell>
+                        <TableCell className="text-sm">{STRATUM_METHOD_LABELS[stratum.method]}</TableCell>
+                        <TableCell className="text-sm text-right">{stratum.populationCount.toLocaleString()}</TableCell>
+                        <TableCell className="text-sm text-right">{stratum.populationAmount.toLocaleString()}</TableCell>
+                        <TableCell className="text-sm text-right">{stratum.sampleCount.toLocaleString()}</TableCell>
+                        <TableCell className="text-sm text-right">{stratum.sampleAmount.toLocaleString()}</TableCell>
+                        <TableCell className="text-sm text-right">{formatCoverage(stratum.sampleCount, stratum.populationCount)}</TableCell>
+                        <TableCell className="text-sm text-right">{formatCoverage(stratum.sampleAmount, stratum.populationAmount)}</TableCell>
+                      </TableRow>
+                    ))}
+                    {(() => {
+                      const totals = stratifiedResult.summaries.reduce(
+                        (sum, stratum) => ({
+                          populationCount: sum.populationCount + stratum.populationCount,
+                          populationAmount: sum.populationAmount + stratum.populationAmount,
+                          sampleCount: sum.sampleCount + stratum.sampleCount,
+                          sampleAmount: sum.sampleAmount + stratum.sampleAmount,
+                        }),
+                        { populationCount: 0, populationAmount: 0, sampleCount: 0, sampleAmount: 0 }
+                      );
+                      return (
+                        <TableRow className="font-bold bg-muted">
+                          <TableCell>합계</TableCell>
+                          <TableCell />
+                          <TableCell className="text-right">{totals.populationCount.toLocaleString()}</TableCell>
+                          <TableCell className="text-right">{totals.populationAmount.toLocaleString()}</TableCell>
+                          <TableCell className="text-right">{totals.sampleCount.toLocaleString()}</TableCell>
+                          <TableCell className="text-right">{totals.sampleAmount.toLocaleString()}</TableCell>
+                          <TableCell className="text-right">{formatCoverage(totals.sampleCount, totals.populationCount)}</TableCell>
+                          <TableCell className="text-right">{formatCoverage(totals.sampleAmount, totals.populationAmount)}</TableCell>
+                        </TableRow>
+                      );
+                    })()}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+
             <div className="rounded-md border max-h-96 overflow-y-auto">
               <Table>
                 <TableHeader>
                   <TableRow>
-                    {includeAnomalies && <TableHead className="w-20">구분</TableHead>}
+                    {showAnomalyColumn && <TableHead className="w-20">구분</TableHead>}
                     {Object.keys(sampledData[0] || {})
                       .filter(key => !isBalanceColumn(key))
                       .map(key => (
                         <TableHead key={key}>{key}</TableHead>
                       ))}
+                    {showStratumColumn && <TableHead>계층</TableHead>}
                     <TableHead className="w-24">샘플링방법</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
                   {sampledData.map((row, idx) => {
-                    const isAnomaly = includeAnomalies && anomalyRowObjects.has(row);
-                    const samplingMethodName = samplingMethod === 'random' ? '무작위' : samplingMethod === 'systematic' ? '체계적' : 'MUS';
+                    const isAnomaly = showAnomalyColumn && anomalyRowObjects.has(row);
+                    const samplingMethodName = SAMPLING_METHOD_NAMES[samplingMethod];
                     // 잔액 컬럼 제외한 헤더 목록
                     const displayHeaders = Object.keys(row).filter(key => !isBalanceColumn(key));
                     return (
                     <TableRow key={idx}>
-                        {includeAnomalies && (
+                        {showAnomalyColumn && (
                           <TableCell>
                             {isAnomaly ? (
                               <Badge variant="destructive" className="text-xs">이상거래</Badge>
@@ -959,6 +1907,9 @@ export const SamplingAnalysis: React.FC<SamplingAnalysisProps> = ({
                           {row[header] instanceof Date ? row[header].toLocaleDateString() : String(row[header] ?? '')}
                         </TableCell>
                       ))}
+                        {showStratumColumn && (
+                          <TableCell className="text-sm whitespace-nowrap">{stratifiedResult.sampleStrata[idx]}</TableCell>
+                        )}
                         <TableCell className="text-sm text-muted-foreground">
                           {samplingMethodName}
                         </TableCell>
@@ -971,6 +1922,338 @@ export const SamplingAnalysis: React.FC<SamplingAnalysisProps> = ({
           </CardContent>
         </Card>
       )}
+
+      {/* MUS 표본 평가 */}
+      {samplingMethod === 'mus' && musItemsReady && sampledData.length > 0 && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  <Scale className="h-5 w-5 text-primary" />
+                  MUS 표본 평가
+                </CardTitle>
+                <CardDescription className="mt-2">
+                  표본별 감사금액을 입력하면 오류율과 추정 왜곡표시액, 기본 정밀도·증분 허용액을 더한 왜곡표시 상한을 계산해 허용왜곡표시액과 비교합니다.
+                  순번은 위 샘플링 결과의 순서와 같습니다.
+                </CardDescription>
+              </div>
+              <Button onClick={downloadMusWorkpaper} variant="outline" disabled={!musEvaluation}>
+                <Download className="mr-2 h-4 w-4" />
+                평가 조서 다운로드
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 text-sm">
+              <div className="space-y-1">
+                <p className="text-muted-foreground">모집단 금액</p>
+                <p className="font-semibold">₩{musBase.populationValue.toLocaleString()}</p>
+              </div>
+              <div className="space-y-1">
+                <p className="text-muted-foreground">표본간격</p>
+                <p className="font-semibold">₩{Math.round(musBase.samplingInterval).toLocaleString()}</p>
+              </div>
+              <div className="space-y-1">
+                <p className="text-muted-foreground">신뢰수준 (신뢰계수)</p>
+                <p className="font-semibold">
+                  {musBase.confidenceLevel}% ({getMusConfidenceFactor(0, musBase.confidenceLevel).toFixed(2)})
+                </p>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="tolerableMisstatement">허용왜곡표시액 (원)</Label>
+                <Input
+                  id="tolerableMisstatement"
+                  type="text"
+                  value={tolerableMisstatement}
+                  onChange={(e) => setTolerableMisstatement(e.target.value.replace(/[^0-9,]/g, ''))}
+                  onBlur={() => {
+                    const formatted = formatAmountInput(tolerableMisstatement);
+                    setTolerableMisstatement(formatted);
+                    persistMusEvaluation(auditedValues, formatted);
+                  }}
+                  placeholder="예: 10,000,000"
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-muted-foreground">
+                {pendingAuditCount > 0
+                  ? `감사금액 미입력 ${pendingAuditCount.toLocaleString()}건 / 전체 ${sampledData.length.toLocaleString()}건`
+                  : `전체 ${sampledData.length.toLocaleString()}건 감사금액 입력 완료`}
+              </p>
+              <Button variant="outline" size="sm" onClick={fillAuditedWithBookValues} disabled={pendingAuditCount === 0}>
+                미입력 항목을 장부금액으로 채우기
+              </Button>
+            </div>
+
+            <div className="rounded-md border max-h-96 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-14">순번</TableHead>
+                    <TableHead>일자</TableHead>
+                    <TableHead>적요</TableHead>
+                    <TableHead className="text-right">장부금액</TableHead>
+                    <TableHead className="w-40 text-right">감사금액</TableHead>
+                    <TableHead className="text-right">왜곡표시액</TableHead>
+                    <TableHead className="text-right">오류율</TableHead>
+                    <TableHead className="text-right">추정 왜곡표시액</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sampledData.map((row, idx) => {
+                    const bookValue = musBase.bookValues[idx];
+                    const audited = parseAmountInput(auditedValues[idx] ?? '');
+                    const evaluated = musEvaluation?.items[idx];
+                    const isKeyItem = musBase.keyItems[idx];
+                    const isTopStratum = isKeyItem || bookValue >= musBase.samplingInterval;
+                    const misstatement = audited === null ? null : bookValue - audited;
+                    return (
+                      <TableRow key={idx} className={misstatement ? 'bg-red-50 dark:bg-red-950/30' : ''}>
+                        <TableCell className="text-sm">
+                          {idx + 1}
+                          {isTopStratum && (
+                            <Badge variant="outline" className="ml-1 text-xs">{isKeyItem ? '이상' : '상위'}</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm whitespace-nowrap">{formatSampleCell(row, sampleDateHeader)}</TableCell>
+                        <TableCell className="text-sm max-w-[240px] truncate" title={formatSampleCell(row, sampleDescriptionHeader)}>
+                          {formatSampleCell(row, sampleDescriptionHeader)}
+                        </TableCell>
+                        <TableCell className="text-sm text-right">{bookValue.toLocaleString()}</TableCell>
+                        <TableCell className="text-right">
+                          <Input
+                            type="text"
+                            className="h-8 text-right"
+                            value={auditedValues[idx] ?? ''}
+                            onChange={(e) => handleAuditedValueChange(idx, e.target.value)}
+                            onBlur={() => {
+                              const next = [...auditedValues];
+                              next[idx] = formatAmountInput(auditedValues[idx] ?? '');
+                              setAuditedValues(next);
+                              persistMusEvaluation(next, tolerableMisstatement);
+                            }}
+                            placeholder="감사금액"
+                          />
+                        </TableCell>
+                        <TableCell className="text-sm text-right">
+                          {misstatement === null ? '-' : misstatement.toLocaleString()}
+                        </TableCell>
+                        <TableCell className="text-sm text-right">
+                          {misstatement === null || isTopStratum || bookValue === 0
+                            ? '-'
+                            : `${((misstatement / bookValue) * 100).toFixed(2)}%`}
+                        </TableCell>
+                        <TableCell className="text-sm text-right">
+                          {evaluated ? Math.round(evaluated.projectedMisstatement).toLocaleString() : '-'}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+
+            {musEvaluation ? (
+              <div className="space-y-3">
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>구분</TableHead>
+                        <TableHead className="text-right">과대계상</TableHead>
+                        <TableHead className="text-right">과소계상</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {[
+                        { label: '오류 건수 (상위층 제외)', over: musEvaluation.overstatement.errorCount, under: musEvaluation.understatement.errorCount },
+                        { label: '기본 정밀도', over: musEvaluation.basicPrecision, under: musEvaluation.basicPrecision },
+                        { label: '추정 왜곡표시액', over: musEvaluation.overstatement.projectedMisstatement, under: musEvaluation.understatement.projectedMisstatement },
+                        { label: '증분 허용액', over: musEvaluation.overstatement.incrementalAllowance, under: musEvaluation.understatement.incrementalAllowance },
+                        { label: '상위층·개별 항목 왜곡표시액', over: musEvaluation.overstatement.topStratumMisstatement, under: musEvaluation.understatement.topStratumMisstatement },
+                      ].map(line => (
+                        <TableRow key={line.label}>
+                          <TableCell className="text-sm">{line.label}</TableCell>
+                          <TableCell className="text-sm text-right">{Math.round(line.over).toLocaleString()}</TableCell>
+                          <TableCell className="text-sm text-right">{Math.round(line.under).toLocaleString()}</TableCell>
+                        </TableRow>
+                      ))}
+                      <TableRow className="font-bold bg-muted">
+                        <TableCell>왜곡표시 상한 (UML)</TableCell>
+                        <TableCell className="text-right">{Math.round(musEvaluation.overstatement.upperLimit).toLocaleString()}</TableCell>
+                        <TableCell className="text-right">{Math.round(musEvaluation.understatement.upperLimit).toLocaleString()}</TableCell>
+                      </TableRow>
+                    </TableBody>
+                  </Table>
+                </div>
+                <div
+                  className={`p-3 rounded-md border text-sm font-semibold ${
+                    musEvaluation.conclusion === 'accept'
+                      ? 'bg-green-50 border-green-200 text-green-800 dark:bg-green-950 dark:border-green-800 dark:text-green-200'
+                      : 'bg-red-50 border-red-200 text-red-800 dark:bg-red-950 dark:border-red-800 dark:text-red-200'
+                  }`}
+                >
+                  결론: {MUS_CONCLUSION_LABELS[musEvaluation.conclusion]} · 허용왜곡표시액 ₩{musEvaluation.tolerableMisstatement.toLocaleString()}
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                모든 표본의 감사금액과 허용왜곡표시액을 입력하면 평가 결과가 표시됩니다.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* 속성 표본 평가 (통제 테스트) */}
+      {samplingMethod === 'attribute' && attributeItemsReady && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle className="flex items-center gap-2">
+                  <ClipboardCheck className="h-5 w-5 text-primary" />
+                  속성 표본 평가
+                </CardTitle>
+                <CardDescription className="mt-2">
+                  표본별로 통제가 작동했는지(적합/일탈) 기록하면 표본 일탈률과 모집단 일탈률 상한을 계산해 허용 일탈률과 비교합니다.
+                  순번은 위 샘플링 결과의 순서와 같습니다.
+                </CardDescription>
+              </div>
+              <Button onClick={downloadAttributeWorkpaper} variant="outline" disabled={!attributeEvaluation}>
+                <Download className="mr-2 h-4 w-4" />
+                평가 조서 다운로드
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4 text-sm">
+              <div className="space-y-1">
+                <p className="text-muted-foreground">신뢰수준</p>
+                <p className="font-semibold">{attributeBase.confidenceLevel}%</p>
+              </div>
+              <div className="space-y-1">
+                <p className="text-muted-foreground">예상 일탈률</p>
+                <p className="font-semibold">{attributeBase.expectedRate}%</p>
+              </div>
+              <div className="space-y-1">
+                <p className="text-muted-foreground">허용 일탈률</p>
+                <p className="font-semibold">{attributeBase.tolerableRate}%</p>
+              </div>
+              <div className="space-y-1">
+                <p className="text-muted-foreground">표본 크기 (허용 일탈 건수)</p>
+                <p className="font-semibold">
+                  {attributeBase.sampleSize.toLocaleString()}건 ({attributeBase.expectedDeviations}건)
+                </p>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-muted-foreground">
+                {pendingTestCount > 0
+                  ? `미검토 ${pendingTestCount.toLocaleString()}건 / 전체 ${sampledData.length.toLocaleString()}건`
+                  : `전체 ${sampledData.length.toLocaleString()}건 검토 완료`}
+              </p>
+              <Button variant="outline" size="sm" onClick={fillPendingAsPass} disabled={pendingTestCount === 0}>
+                미검토 항목을 적합으로 채우기
+              </Button>
+            </div>
+
+            <div className="rounded-md border max-h-96 overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-14">순번</TableHead>
+                    <TableHead>일자</TableHead>
+                    <TableHead>적요</TableHead>
+                    <TableHead className="w-32">검토 결과</TableHead>
+                    <TableHead>일탈 내용</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {sampledData.map((row, idx) => {
+                    const result = attributeResults[idx] ?? 'pending';
+                    return (
+                      <TableRow key={idx} className={result === 'deviation' ? 'bg-red-50 dark:bg-red-950/30' : ''}>
+                        <TableCell className="text-sm">{idx + 1}</TableCell>
+                        <TableCell className="text-sm whitespace-nowrap">{formatSampleCell(row, sampleDateHeader)}</TableCell>
+                        <TableCell className="text-sm max-w-[240px] truncate" title={formatSampleCell(row, sampleDescriptionHeader)}>
+                          {formatSampleCell(row, sampleDescriptionHeader)}
+                        </TableCell>
+                        <TableCell>
+                          <Select value={result} onValueChange={(v: AttributeTestResult) => handleAttributeResultChange(idx, v)}>
+                            <SelectTrigger className="h-8">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {(Object.keys(ATTRIBUTE_TEST_RESULT_LABELS) as AttributeTestResult[]).map(key => (
+                                <SelectItem key={key} value={key}>{ATTRIBUTE_TEST_RESULT_LABELS[key]}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="text"
+                            className="h-8"
+                            value={deviationNotes[idx] ?? ''}
+                            onChange={(e) => {
+                              const next = [...deviationNotes];
+                              next[idx] = e.target.value;
+                              setDeviationNotes(next);
+                            }}
+                            onBlur={() => persistAttributeEvaluation(attributeResults, deviationNotes)}
+                            placeholder={result === 'deviation' ? '일탈 내용 (예: 승인 누락)' : ''}
+                          />
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+
+            {attributeEvaluation ? (
+              <div className="space-y-3">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                  <div className="space-y-1">
+                    <p className="text-muted-foreground">일탈 건수</p>
+                    <p className="font-semibold">{attributeEvaluation.deviationCount.toLocaleString()}건</p>
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-muted-foreground">표본 일탈률</p>
+                    <p className="font-semibold">{attributeEvaluation.sampleDeviationRate.toFixed(2)}%</p>
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-muted-foreground">표본위험 허용치</p>
+                    <p className="font-semibold">{attributeEvaluation.allowanceForSamplingRisk.toFixed(2)}%</p>
+                  </div>
+                  <div className="space-y-1">
+                    <p className="text-muted-foreground">일탈률 상한 (UDL)</p>
+                    <p className="font-semibold">{attributeEvaluation.upperDeviationLimit.toFixed(1)}%</p>
+                  </div>
+                </div>
+                <div
+                  className={`p-3 rounded-md border text-sm font-semibold ${
+                    attributeEvaluation.conclusion === 'rely'
+                      ? 'bg-green-50 border-green-200 text-green-800 dark:bg-green-950 dark:border-green-800 dark:text-green-200'
+                      : 'bg-red-50 border-red-200 text-red-800 dark:bg-red-950 dark:border-red-800 dark:text-red-200'
+                  }`}
+                >
+                  결론: {ATTRIBUTE_CONCLUSION_LABELS[attributeEvaluation.conclusion]} · 허용 일탈률 {attributeEvaluation.tolerableRate}%
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                모든 표본의 검토 결과를 입력하면 평가 결과가 표시됩니다.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 };
@@ -12,249 +12,34 @@ import { useToast } from '@/hooks/use-toast';
 import { ArrowLeft, Search, Download, Check, ChevronsUpDown, RotateCcw } from 'lucide-react';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { DataGrid } from '@/components/DataGrid';
+import { createRecordColumns, getIndexRowKey, type DataGridColumn } from '@/lib/dataGridColumns';
 import { cn } from '@/lib/utils';
-import { findDebitCreditHeaders, robustFindHeader } from '@/lib/headerUtils';
-import { maskAccountNumbersInRows } from '@/lib/anonymization';
+import { findDebitCreditHeaders, robustFindHeader, cleanAmount } from '@/lib/headerUtils';
+import { parseDate, type LedgerRow } from '@/lib/excelHelpers';
+import { getAccountEntries, getEntryDate, type NormalizedLedger } from '@/lib/ledgerModel';
 import { 
   DATE_KEYWORDS, 
-  VENDOR_KEYWORDS, 
-  DESCRIPTION_KEYWORDS, 
-  ACCOUNT_KEYWORDS,
-  DEBIT_KEYWORDS,
-  CREDIT_KEYWORDS
+  VENDOR_KEYWORDS
 } from '@/lib/columnMapping';
 
-type LedgerRow = { [key: string]: string | number | Date | undefined };
+// 계정·거래처별 묶음 보기의 그리드 행 (묶음 순서대로 펼친 원본 행)
+interface GroupedSearchRow {
+  account: string;
+  vendor: string;
+  row: LedgerRow;
+}
 
 interface TransactionSearchProps {
-  workbook: XLSX.WorkBook;
-  accountNames: string[];
+  ledger: NormalizedLedger;
   onBack: () => void;
 }
 
-const cleanAmount = (val: any): number => {
-  if (typeof val === 'string') {
-    return parseFloat(val.replace(/,/g, '')) || 0;
-  }
-  return typeof val === 'number' ? val : 0;
-};
-
-
-
-const parseDate = (value: any): Date | null => {
-  if (value instanceof Date && !isNaN(value.getTime())) {
-    return value;
-  }
-  if (value == null || value === '') return null;
-  if (typeof value === 'string') {
-    const trimmed = String(value).trim();
-    if (!trimmed) return null;
-    // YYYY-MM-DD, YYYY/MM/DD
-    const ymd = trimmed.match(/^(?<y>\d{4})[-/](?<month>\d{1,2})[-/](?<day>\d{1,2})$/);
-    if (ymd && ymd.groups) {
-      const y = parseInt(ymd.groups.y, 10);
-      const month = parseInt(ymd.groups.month, 10) - 1;
-      const day = parseInt(ymd.groups.day, 10);
-      const d = new Date(y, month, day);
-      if (!isNaN(d.getTime()) && d.getFullYear() === y && d.getMonth() === month && d.getDate() === day) {
-        return d;
-      }
-    }
-    // YYYY.MM.DD
-    const ymdDot = trimmed.match(/^(?<y>\d{4})\.(?<month>\d{1,2})\.(?<day>\d{1,2})$/);
-    if (ymdDot && ymdDot.groups) {
-      const y = parseInt(ymdDot.groups.y, 10);
-      const month = parseInt(ymdDot.groups.month, 10) - 1;
-      const day = parseInt(ymdDot.groups.day, 10);
-      const d = new Date(y, month, day);
-      if (!isNaN(d.getTime()) && d.getFullYear() === y && d.getMonth() === month && d.getDate() === day) {
-        return d;
-      }
-    }
-    // YYYYMMDD (8자리)
-    if (/^\d{8}$/.test(trimmed)) {
-      const y = parseInt(trimmed.slice(0, 4), 10);
-      const month = parseInt(trimmed.slice(4, 6), 10) - 1;
-      const day = parseInt(trimmed.slice(6, 8), 10);
-      const d = new Date(y, month, day);
-      if (!isNaN(d.getTime()) && d.getFullYear() === y && d.getMonth() === month && d.getDate() === day) {
-        return d;
-      }
-    }
-    // MM-DD, MM/DD (당해)
-    const match = trimmed.match(/^(?<month>\d{1,2})[-/](?<day>\d{1,2})$/);
-    if (match && match.groups) {
-      const currentYear = new Date().getFullYear();
-      const month = parseInt(match.groups.month, 10) - 1;
-      const day = parseInt(match.groups.day, 10);
-      const d = new Date(currentYear, month, day);
-      if (d.getFullYear() === currentYear && d.getMonth() === month && d.getDate() === day) {
-        return d;
-      }
-    }
-  }
-  if (typeof value === 'number' && value > 1 && value < 50000) {
-    try {
-      const excelEpoch = new Date(Date.UTC(1899, 11, 30));
-      const date = new Date(excelEpoch.getTime() + value * 24 * 60 * 60 * 1000);
-      if (!isNaN(date.getTime())) return date;
-    } catch (e) { /* ignore */ }
-  }
-  return null;
-};
-
-const getDataFromSheet = (worksheet: XLSX.WorkSheet | undefined): { data: LedgerRow[], headers: string[] } => {
-  if (!worksheet) return { data: [], headers: [] };
-  
-  const sheetDataAsArrays: any[][] = XLSX.utils.sheet_to_json(worksheet, { header: 1, defval: null });
-  if (sheetDataAsArrays.length < 2) return { data: [], headers: [] };
-
-  let headerIndex = -1;
-  const searchLimit = Math.min(20, sheetDataAsArrays.length);
-  const otherHeaderKeywords = ['적요', '거래처', '차변', '대변', '잔액', '금액', '코드', '내용', '비고'];
-
-  for (let i = 0; i < searchLimit; i++) {
-    const potentialHeaderRow = sheetDataAsArrays[i];
-    if (!potentialHeaderRow || potentialHeaderRow.length < 3) continue;
-
-    const headerContent = potentialHeaderRow.map(cell => String(cell || '').trim().toLowerCase()).join('|');
-    const hasDateKeyword = DATE_KEYWORDS.some(kw => headerContent.includes(kw));
-    const otherKeywordCount = otherHeaderKeywords.filter(kw => headerContent.includes(kw)).length;
-
-    if (hasDateKeyword && otherKeywordCount >= 2) {
-      const lookaheadLimit = Math.min(i + 6, sheetDataAsArrays.length);
-      for (let j = i + 1; j < lookaheadLimit; j++) {
-        const dataRowCandidate = sheetDataAsArrays[j];
-        if (dataRowCandidate && parseDate(dataRowCandidate[0]) !== null) {
-          headerIndex = i;
-          break;
-        }
-      }
-    }
-    if (headerIndex !== -1) break;
-  }
-
-  if (headerIndex === -1) {
-    for (let i = 0; i < searchLimit; i++) {
-      const row = sheetDataAsArrays[i];
-      if (!row || row.length < 2) continue;
-      const rowContent = row.map(cell => String(cell || '').trim().toLowerCase()).join(' ');
-      if (DATE_KEYWORDS.some(kw => rowContent.includes(kw)) && otherHeaderKeywords.filter(kw => rowContent.includes(kw)).length >= 2) {
-        if (i + 1 < sheetDataAsArrays.length && sheetDataAsArrays[i + 1]?.some(cell => cell !== null)) {
-          headerIndex = i;
-          break;
-        }
-      }
-    }
-  }
-
-  if (headerIndex === -1) {
-    let maxNonEmptyCells = 0;
-    let potentialHeaderIndex = -1;
-    for (let i = 0; i < searchLimit; i++) {
-      const row = sheetDataAsArrays[i];
-      if (!row) continue;
-      const nonEmptyCells = row.filter(cell => cell !== null && String(cell).trim() !== '');
-      if (nonEmptyCells.length === 1 && String(nonEmptyCells[0]).trim() === '계정별원장') continue;
-      if (nonEmptyCells.length >= maxNonEmptyCells && nonEmptyCells.length >= 3) {
-        maxNonEmptyCells = nonEmptyCells.length;
-        potentialHeaderIndex = i;
-      }
-    }
-    headerIndex = potentialHeaderIndex;
-  }
-
-  if (headerIndex === -1) return { data: [], headers: [] };
-
-  // 원본 Excel 헤더 행을 그대로 사용 (모든 컬럼 포함)
-  const orderedHeaders = (sheetDataAsArrays[headerIndex] || []).map(h => String(h || '').trim());
-  
-  // 헤더 행 다음부터 데이터 시작
-  const rawDataArray = sheetDataAsArrays.slice(headerIndex + 1).filter(row => {
-    // 빈 행 제거
-    return row && row.some(cell => cell !== null && cell !== undefined && String(cell).trim() !== '');
-  });
-  
-  // 수동으로 데이터 객체 생성 (orderedHeaders의 모든 컬럼 포함)
-  const rawData: LedgerRow[] = rawDataArray.map(row => {
-    const obj: LedgerRow = {};
-    orderedHeaders.forEach((header, index) => {
-      // 헤더가 있으면 해당 인덱스의 데이터를 사용 (빈 값도 포함)
-      if (header && header.trim() !== '') {
-        obj[header] = row[index] !== null && row[index] !== undefined ? row[index] : '';
-      }
-    });
-    return obj;
-  });
-
-    // 필터링: 합계행, 빈행, 헤더 중복 제거
-  const data = rawData.filter(row => {
-    // 1. 합계 행 제거: 모든 컬럼의 값을 확인하여 월계/누계 행 제거
-    const isMonthlyOrCumulative = Object.values(row).some(val => {
-      if (val === null || val === undefined) return false;
-      const str = String(val).trim();
-      // 공백 제거 후 정규화
-      const normalized = str.replace(/\s/g, '');
-      // 다양한 형태의 월계/누계 확인
-      return normalized.includes('월계') || 
-             normalized.includes('누계') ||
-             normalized.includes('[월계]') || 
-             normalized.includes('[누계]') ||
-             normalized === '월계' ||
-             normalized === '누계' ||
-             str.includes('[ 월계 ]') ||
-             str.includes('[ 누계 ]') ||
-             str.includes('[월 계]') ||
-             str.includes('[누 계]') ||
-             str.includes('[ 전 기 이 월 ]') ||
-             str.includes('[ 전기이월 ]');
-    });
-    
-    if (isMonthlyOrCumulative) {
-      return false;
-    }
-    
-    // 2. 헤더 중복 제거 (두 번째 페이지 등)
-    const dateHeader = robustFindHeader(orderedHeaders, DATE_KEYWORDS);
-    if (dateHeader && (row[dateHeader] === dateHeader || row[dateHeader] === '일  자' || row[dateHeader] === '일자')) {
-      return false;
-    }
-    
-    // 3. 완전 빈 행 제거 강화
-    const hasData = Object.values(row).some(val => {
-      if (val === null || val === undefined) return false;
-      const str = String(val).trim();
-      return str !== '' && str !== '0' && str !== '-';
-    });
-    if (!hasData) return false;
-    
-    return true;
-  });
-
-  const dateHeader = robustFindHeader(orderedHeaders, DATE_KEYWORDS);
-  if (dateHeader) {
-    data.forEach(row => {
-      const parsed = parseDate(row[dateHeader]);
-      if (parsed) {
-        row[dateHeader] = parsed;
-      }
-    });
-  }
-
-  // 예금계정/차입금계정의 계좌번호 마스킹 ('계정명'을 우선순위로)
-  const accountNameHeader = robustFindHeader(orderedHeaders, ACCOUNT_KEYWORDS);
-  const maskedData = maskAccountNumbersInRows(data, accountNameHeader);
-
-  const headers = maskedData.length > 0 ? Object.keys(maskedData[0]) : [];
-  
-  return { data: maskedData, headers };
-};
-
 export const TransactionSearch: React.FC<TransactionSearchProps> = ({
-  workbook,
-  accountNames,
+  ledger,
   onBack,
 }) => {
+  const accountNames = ledger.accountNames;
   const { toast } = useToast();
   const [selectedAccount, setSelectedAccount] = useState<string>('');
   const [searchVendor, setSearchVendor] = useState<string>('');
@@ -304,59 +89,24 @@ export const TransactionSearch: React.FC<TransactionSearchProps> = ({
     setMonthlyDrilldown(null);
   }, [displayMode]);
 
+  // 계정별 거래 행 (월계/누계/전기이월 제외, 계좌번호 마스킹 적용된 통합 원장 기준)
   const allData = useMemo(() => {
-    const result: { account: string; data: LedgerRow[]; headers: string[] }[] = [];
-    const sheetNames = workbook?.SheetNames ?? [];
-
-    if (sheetNames.length === 0) return result;
-
-    // 단일 시트 + 계정 컬럼 모드: accountNames가 시트명이 아니라 계정값인 경우
-    if (sheetNames.length === 1) {
-      const firstSheetName = sheetNames[0];
-      const sheet = workbook.Sheets[firstSheetName];
-      const { data, headers } = getDataFromSheet(sheet);
-      const accountHeader = robustFindHeader(headers, ACCOUNT_KEYWORDS) ?? headers.find(h => h && (h.includes('계정') || h.toLowerCase().includes('account')));
-      if (accountHeader && data.length > 0) {
-        accountNames.forEach(accountName => {
-          const accountData = data.filter(row => String(row[accountHeader] ?? '').trim() === accountName);
-          if (accountData.length > 0) {
-            result.push({ account: accountName, data: accountData, headers });
-          }
-        });
-        if (result.length > 0) return result;
-      }
-    }
-
-    // 다중 시트 또는 단일 시트에서 계정 컬럼을 못 찾은 경우: 시트명 = 계정명
-    accountNames.forEach(accountName => {
-      const sheet = workbook.Sheets[accountName];
-      const { data, headers } = getDataFromSheet(sheet);
-      if (data.length > 0) {
-        result.push({ account: accountName, data, headers });
-      }
-    });
+    return accountNames
+      .map(accountName => ({ account: accountName, entries: getAccountEntries(ledger, accountName) }))
+      .filter(({ entries }) => entries.length > 0);
+  }, [ledger, accountNames]);
 
-    return result;
-  }, [workbook, accountNames]);
-
-  // 모든 거래처 목록 추출 (자동완성용) — handleSearch와 동일한 거래처 헤더 우선순위 사용
+  // 모든 거래처 목록 추출 (자동완성용)
   const vendorList = useMemo(() => {
     const vendorSet = new Set<string>();
     
-    allData.forEach(({ data, headers }) => {
-      const vendorHeader =
-        headers.find((h: string) => (h && (h === '거래처명' || h.includes('거래처명')))) ||
-        robustFindHeader(headers, VENDOR_KEYWORDS) ||
-        headers.find((h: string) => h && (h.includes('거래처') || h.toLowerCase().includes('vendor')));
-      
-      if (vendorHeader) {
-        data.forEach(row => {
-          const vendor = String(row[vendorHeader] || '').trim();
-          if (vendor && vendor !== '') {
-            vendorSet.add(vendor);
-          }
-        });
-      }
+    allData.forEach(({ entries }) => {
+      entries.forEach(entry => {
+        const vendor = entry.vendor.trim();
+        if (vendor) {
+          vendorSet.add(vendor);
+        }
+      });
     });
     
     return Array.from(vendorSet).sort();
@@ -366,17 +116,13 @@ export const TransactionSearch: React.FC<TransactionSearchProps> = ({
   const descriptionList = useMemo(() => {
     const descSet = new Set<string>();
     
-    allData.forEach(({ data, headers }) => {
-      const descHeader = robustFindHeader(headers, DESCRIPTION_KEYWORDS);
-      
-      if (descHeader) {
-        data.forEach(row => {
-          const desc = String(row[descHeader] || '').trim();
-          if (desc && desc !== '') {
-            descSet.add(desc);
-          }
-        });
-      }
+    allData.forEach(({ entries }) => {
+      entries.forEach(entry => {
+        const desc = entry.description.trim();
+        if (desc) {
+          descSet.add(desc);
+        }
+      });
     });
     
     return Array.from(descSet).sort();
@@ -615,6 +361,44 @@ export const TransactionSearch: React.FC<TransactionSearchProps> = ({
     return h ? String(row[h] ?? '').trim() : '';
   };
 
+  // 잔액/balance를 제외한 원본 컬럼 (드릴다운 그리드용)
+  const isBalanceKey = (key: string): boolean => key.includes('잔액') || key.toLowerCase().includes('balance');
+
+  const recordColumns = useMemo(
+    () => createRecordColumns<LedgerRow>(Object.keys(searchResults[0] || {}).filter(key => !isBalanceKey(key))),
+    [searchResults]
+  );
+
+  // 상세 결과 그리드 컬럼: 적요는 적요/적요명/내용/비고 중 있는 값
+  const detailColumns = useMemo(
+    () => createRecordColumns<LedgerRow>(detailTableHeaders).map(column =>
+      column.id === '적요' ? { ...column, value: descriptionValue } : column
+    ),
+    [detailTableHeaders]
+  );
+
+  const detailRows = useMemo(
+    () => searchResults.filter(row => !isMonthlyOrCumulativeRow(row)),
+    [searchResults]
+  );
+
+  // 거래처별 합계에서 선택한 거래처의 상세 내역 (월계/누계 행 제외)
+  const vendorDrilldownRows = useMemo(() => {
+    if (!selectedVendorForDrilldown) return [];
+    return searchResults.filter(row => {
+      if (isMonthlyOrCumulativeRow(row)) return false;
+      const vendorHeader = Object.keys(row).find(h =>
+        h.includes('거래처') || h.includes('업체') || h.includes('회사')
+      );
+      return vendorHeader && String(row[vendorHeader] || '').trim() === selectedVendorForDrilldown;
+    });
+  }, [searchResults, selectedVendorForDrilldown]);
+
+  const monthlyDrilldownColumns = useMemo(
+    () => createRecordColumns<LedgerRow>(Object.keys(monthlyDrilldownRows[0] || {}).filter(key => !isBalanceKey(key))),
+    [monthlyDrilldownRows]
+  );
+
   // 쉼표로 구분된 복수 값 파싱 (앞뒤 공백 제거, 빈 문자열 제외) — useMemo/handleSearch보다 위에 정의
   const parseMultiInput = (input: string): string[] =>
     (input || '')
@@ -696,6 +480,38 @@ export const TransactionSearch: React.FC<TransactionSearchProps> = ({
     };
   }, [searchResults, selectedAccount, searchVendor]);
 
+  // 계정·거래처 묶음을 묶음 순서대로 펼친 그리드 행 (계정/거래처 열로 필터하면 하단 합계가 소계)
+  const groupedGridRows = useMemo<GroupedSearchRow[]>(() => {
+    if (!groupedByAccountAndVendor) return [];
+    const rows: GroupedSearchRow[] = [];
+    groupedByAccountAndVendor.accountOrder.forEach(account => {
+      const accData = groupedByAccountAndVendor.byAccount.get(account)!;
+      accData.vendorOrder.forEach(vendor => {
+        accData.byVendor.get(vendor)!.rows.forEach(row => rows.push({ account, vendor, row }));
+      });
+    });
+    return rows;
+  }, [groupedByAccountAndVendor]);
+
+  const groupedGridColumns = useMemo<DataGridColumn<GroupedSearchRow>[]>(() => {
+    if (!groupedByAccountAndVendor) return [];
+    const recordKeys = groupedByAccountAndVendor.headers.filter(key => key !== '계정과목');
+    const rowColumns = createRecordColumns<LedgerRow>(recordKeys).map(column => {
+      const value = column.id === '적요' ? descriptionValue : column.value;
+      const render = column.render;
+      return {
+        ...column,
+        value: (item: GroupedSearchRow) => value(item.row),
+        render: render ? (item: GroupedSearchRow) => render(item.row) : undefined,
+      };
+    });
+    return [
+      { id: '__account', header: '계정과목', value: item => item.account, width: 160 },
+      { id: '__vendor', header: '거래처', value: item => item.vendor, width: 160 },
+      ...rowColumns,
+    ];
+  }, [groupedByAccountAndVendor]);
+
   const handleReset = () => {
     setSelectedAccount('');
     setSearchVendor('');
@@ -747,50 +563,20 @@ export const TransactionSearch: React.FC<TransactionSearchProps> = ({
       return;
     }
 
-    // 단일 시트 + 계정 컬럼 모드 vs 다중 시트(시트명=계정명) 모드
-    const sheetNames = workbook.SheetNames || [];
-    const isSingleSheetWithAccountColumn = sheetNames.length === 1;
-    let fullSheetData: LedgerRow[] = [];
-    let fullSheetHeaders: string[] = [];
-    let accountColumnHeader: string | undefined;
-    if (isSingleSheetWithAccountColumn) {
-      const firstSheet = workbook.Sheets[sheetNames[0]];
-      const out = getDataFromSheet(firstSheet);
-      fullSheetData = out.data;
-      fullSheetHeaders = out.headers;
-      accountColumnHeader = robustFindHeader(fullSheetHeaders, ACCOUNT_KEYWORDS) ?? fullSheetHeaders.find(h => h && (h.includes('계정') || String(h).toLowerCase().includes('account')));
-    }
-
     accountsToSearch.forEach(accountName => {
-      let data: LedgerRow[];
-      let headers: string[];
-      if (isSingleSheetWithAccountColumn && accountColumnHeader) {
-        data = fullSheetData.filter(row => String(row[accountColumnHeader!] ?? '').trim() === accountName);
-        headers = fullSheetHeaders;
-      } else {
-        const sheet = workbook.Sheets[accountName];
-        const out = getDataFromSheet(sheet);
-        data = out.data;
-        headers = out.headers;
-      }
+      const entries = getAccountEntries(ledger, accountName);
+      const sheetName = entries[0]?.sheetName;
+      const mapping = ledger.sheets.find(sheet => sheet.sheetName === sheetName)?.mapping;
 
-      const vendorHeader =
-        headers.find((h: string) => (h && (h === '거래처명' || h.includes('거래처명')))) ||
-        robustFindHeader(headers, VENDOR_KEYWORDS) ||
-        headers.find((h: string) => h && (h.includes('거래처') || h.toLowerCase().includes('vendor')));
-      const descHeader = robustFindHeader(headers, DESCRIPTION_KEYWORDS);
-      const dateHeader = robustFindHeader(headers, DATE_KEYWORDS);
-      const { debitHeader, creditHeader } = findDebitCreditHeaders(headers, data, dateHeader);
+      // 거래처를 입력했는데 이 계정에 거래처 컬럼이 없으면 필터 불가 → 해당 계정 행은 제외
+      if (searchVendorsArray.length > 0 && !mapping?.vendor) return;
 
-      // 거래처를 입력했는데 이 시트에 거래처 컬럼이 없으면 필터 불가 → 해당 시트 행은 제외
-      if (searchVendorsArray.length > 0 && !vendorHeader) return;
-
-      data.forEach(row => {
+      entries.forEach(entry => {
         let match = true;
 
         // 거래처 필터: 전체 검색어 우선(쉼표 포함 이름 ex. "GRAPHY SMA, INC"), 세그먼트 매칭 시 한글은 글자 수 제한 없음(영문 ', inc' 등만 4자 미만 제외)
-        if (searchVendorsArray.length > 0 && vendorHeader) {
-          const vendor = String(row[vendorHeader] || '').trim();
+        if (searchVendorsArray.length > 0) {
+          const vendor = entry.vendor.trim();
           const vendorLower = vendor.toLowerCase().replace(/\s+/g, ' ');
           const fullSearch = searchVendor.trim().toLowerCase().replace(/\s+/g, ' ');
           const normalizedVendor = vendorLower.replace(/\s/g, '');
@@ -812,16 +598,15 @@ export const TransactionSearch: React.FC<TransactionSearchProps> = ({
         }
 
         // 적요 필터
-        if (searchDescription && descHeader) {
-          const desc = String(row[descHeader] || '').toLowerCase();
+        if (searchDescription && mapping?.description) {
+          const desc = entry.description.toLowerCase();
           if (!desc.includes(searchDescription.toLowerCase())) {
             match = false;
           }
         }
 
         // 차변/대변 필터
-        const debit = debitHeader ? cleanAmount(row[debitHeader]) : 0;
-        const credit = creditHeader ? cleanAmount(row[creditHeader]) : 0;
+        const { debit, credit } = entry;
         
         if (amountFilter === 'debit' && debit === 0) {
           match = false;
@@ -846,9 +631,9 @@ export const TransactionSearch: React.FC<TransactionSearchProps> = ({
         }
 
         // 날짜 필터
-        if ((startDate || endDate) && dateHeader) {
-          const date = row[dateHeader];
-          if (date instanceof Date) {
+        if (startDate || endDate) {
+          const date = getEntryDate(entry);
+          if (date) {
             if (startDate && date < new Date(startDate)) {
               match = false;
             }
@@ -859,35 +644,15 @@ export const TransactionSearch: React.FC<TransactionSearchProps> = ({
         }
 
         if (match) {
-          results.push({ ...row, '계정과목': accountName });
+          results.push({ ...entry.raw, '계정과목': accountName });
         }
       });
     });
 
-    // 월계/누계 행 제거
-    const filteredResults = results.filter(row => {
-      const isMonthlyOrCumulative = Object.values(row).some(val => {
-        if (val === null || val === undefined) return false;
-        const str = String(val).trim();
-        const normalized = str.replace(/\s/g, '');
-        return normalized.includes('월계') || 
-               normalized.includes('누계') ||
-               normalized.includes('[월계]') || 
-               normalized.includes('[누계]') ||
-               normalized === '월계' ||
-               normalized === '누계' ||
-               str.includes('[ 월계 ]') ||
-               str.includes('[ 누계 ]') ||
-               str.includes('[월 계]') ||
-               str.includes('[누 계]');
-      });
-      return !isMonthlyOrCumulative;
-    });
-
-    setSearchResults(filteredResults);
+    setSearchResults(results);
     toast({
       title: '검색 완료',
-      description: `${filteredResults.length}건의 거래를 찾았습니다.`,
+      description: `${results.length}건의 거래를 찾았습니다.`,
     });
   };
 
@@ -1470,93 +1235,13 @@ export const TransactionSearch: React.FC<TransactionSearchProps> = ({
                             엑셀 다운로드
                           </Button>
                         </div>
-                        <div className="rounded-md border max-h-[400px] overflow-y-auto">
-                          <Table>
-                            <TableHeader>
-                              <TableRow>
-                                {Object.keys(searchResults[0] || {})
-                                  .filter(key => !key.includes('잔액') && !key.toLowerCase().includes('balance'))
-                                  .map(key => (
-                      <TableHead key={key}>{key}</TableHead>
-                    ))}
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                              {searchResults
-                                .filter(row => {
-                                  // 월계/누계 행 제거
-                                  const isMonthlyOrCumulative = Object.values(row).some(val => {
-                                    if (val === null || val === undefined) return false;
-                                    const str = String(val).trim();
-                                    const normalized = str.replace(/\s/g, '');
-                                    return normalized.includes('월계') || 
-                                           normalized.includes('누계') ||
-                                           normalized.includes('[월계]') || 
-                                           normalized.includes('[누계]') ||
-                                           normalized === '월계' ||
-                                           normalized === '누계' ||
-                                           str.includes('[ 월계 ]') ||
-                                           str.includes('[ 누계 ]') ||
-                                           str.includes('[월 계]') ||
-                                           str.includes('[누 계]');
-                                  });
-                                  if (isMonthlyOrCumulative) return false;
-                                  
-                                  // 거래처 필터
-                                  const vendorHeader = Object.keys(row).find(h => 
-                                    h.includes('거래처') || h.includes('업체') || h.includes('회사')
-                                  );
-                                  return vendorHeader && String(row[vendorHeader] || '').trim() === selectedVendorForDrilldown;
-                                })
-                                .slice(0, 100)
-                                .map((row, idx) => {
-                                  const headers = Object.keys(searchResults[0] || {})
-                                    .filter(key => !key.includes('잔액') && !key.toLowerCase().includes('balance'));
-                                  return (
-                    <TableRow key={idx}>
-                                      {headers.map((key, j) => {
-                                        const val = row[key];
-                                        const isAmountColumn = key.includes('차변') || 
-                                                              key.includes('대변') || 
-                                                              key.includes('금액') ||
-                                                              key.toLowerCase().includes('amount') ||
-                                                              key.toLowerCase().includes('debit') ||
-                                                              key.toLowerCase().includes('credit');
-                                        
-                                        const isNumber = typeof val === 'number';
-                                        const isNumericString = typeof val === 'string' && String(val).trim() !== ''
-                                          && !isNaN(parseFloat(String(val).replace(/,/g, '')));
-                                        if (isAmountColumn && (isNumber || isNumericString)) {
-                                          const numVal = isNumber ? Number(val) : parseFloat(String(val).replace(/,/g, ''));
-                                          if (!isNaN(numVal) && numVal !== 0) {
-                                            return (
-                                              <TableCell key={j} className="text-sm text-right">
-                                                {numVal.toLocaleString()}
-                                              </TableCell>
-                                            );
-                                          }
-                                        }
-                                        
-                                        if (val instanceof Date) {
-                                          return (
-                                            <TableCell key={j} className="text-sm">
-                                              {val.toLocaleDateString()}
-                                            </TableCell>
-                                          );
-                                        }
-                                        
-                                        return (
-                        <TableCell key={j} className="text-sm">
-                                            {String(val ?? '')}
-                        </TableCell>
-                                        );
-                                      })}
-                                    </TableRow>
-                                  );
-                                })}
-                            </TableBody>
-                          </Table>
-                        </div>
+                        <DataGrid
+                          rows={vendorDrilldownRows}
+                          columns={recordColumns}
+                          getRowKey={getIndexRowKey}
+                          height={400}
+                          selectable
+                        />
                       </CardContent>
                     </Card>
                   )}
@@ -1617,149 +1302,71 @@ export const TransactionSearch: React.FC<TransactionSearchProps> = ({
                     </p>
                   )}
                 </div>
-              ) : (
-                <div className="rounded-md border max-h-[600px] overflow-y-auto">
-                  <Table>
-                    <TableHeader>
-                      <TableRow>
-                        {detailTableHeaders.map(key => (
-                          <TableHead key={key}>{key}</TableHead>
-                        ))}
-                      </TableRow>
-                    </TableHeader>
-                    <TableBody>
-                      {groupedByAccountAndVendor ? (
-                        <>
-                          {groupedByAccountAndVendor.accountOrder.map((account) => {
-                            const accData = groupedByAccountAndVendor.byAccount.get(account)!;
-                            return (
-                              <React.Fragment key={account}>
-                                <TableRow className="bg-muted/60 font-medium">
-                                  {groupedByAccountAndVendor.headers.map((key, j) => (
-                                    <TableCell key={j} className="text-sm">
-                                      {j === 0 ? `계정: ${account}` : ''}
-                                    </TableCell>
-                                  ))}
-                                </TableRow>
-                                {accData.vendorOrder.map((vendor) => {
-                                  const venData = accData.byVendor.get(vendor)!;
-                                  return (
-                                    <React.Fragment key={vendor}>
-                                      <TableRow className="bg-muted/40 font-medium">
-                                        {groupedByAccountAndVendor.headers.map((key, j) => (
-                                          <TableCell key={j} className="text-sm">
-                                            {j === 0 ? `거래처: ${vendor}` : ''}
-                                          </TableCell>
-                                        ))}
-                                      </TableRow>
-                                      {venData.rows.slice(0, 200).map((row, idx) => {
-                                        const headers = groupedByAccountAndVendor.headers;
-                                        return (
-                                          <TableRow key={`${account}-${vendor}-${idx}`}>
-                                            {headers.map((key, j) => {
-                                              const val = key === '적요' ? descriptionValue(row) : row[key];
-                                              const isAmountColumn = key.includes('차변') || key.includes('대변') || key.includes('금액')
-                                                || key.toLowerCase().includes('amount') || key.toLowerCase().includes('debit') || key.toLowerCase().includes('credit');
-                                              const isNumber = typeof val === 'number';
-                                              const isNumericString = typeof val === 'string' && String(val).trim() !== ''
-                                                && !isNaN(parseFloat(String(val).replace(/,/g, '')));
-                                              if (isAmountColumn && (isNumber || isNumericString)) {
-                                                const numVal = isNumber ? Number(val) : parseFloat(String(val).replace(/,/g, ''));
-                                                if (!isNaN(numVal) && numVal !== 0) {
-                                                  return <TableCell key={j} className="text-sm text-right">{numVal.toLocaleString()}</TableCell>;
-                                                }
-                                              }
-                                              if (val instanceof Date) {
-                                                return <TableCell key={j} className="text-sm">{val.toLocaleDateString()}</TableCell>;
-                                              }
-                                              return <TableCell key={j} className="text-sm">{String(val ?? '')}</TableCell>;
-                                            })}
-                                          </TableRow>
-                                        );
-                                      })}
-                                      <TableRow className="font-medium bg-muted/30">
-                                        {groupedByAccountAndVendor.headers.map((key, j) => {
-                                          if (j === 0) return <TableCell key={j} className="text-sm">소계 ({venData.count}건)</TableCell>;
-                                          if (key === groupedByAccountAndVendor.debitHeader) return <TableCell key={j} className="text-sm text-right">{venData.debit.toLocaleString()}</TableCell>;
-                                          if (key === groupedByAccountAndVendor.creditHeader) return <TableCell key={j} className="text-sm text-right">{venData.credit.toLocaleString()}</TableCell>;
-                                          return <TableCell key={j} />;
-                                        })}
-                                      </TableRow>
-                                    </React.Fragment>
-                                  );
-                                })}
-                                <TableRow className="font-bold bg-muted/50">
-                                  {groupedByAccountAndVendor.headers.map((key, j) => {
-                                    if (j === 0) return <TableCell key={j} className="text-sm">계정 소계</TableCell>;
-                                    if (key === groupedByAccountAndVendor.debitHeader) return <TableCell key={j} className="text-sm text-right">{accData.debit.toLocaleString()}</TableCell>;
-                                    if (key === groupedByAccountAndVendor.creditHeader) return <TableCell key={j} className="text-sm text-right">{accData.credit.toLocaleString()}</TableCell>;
-                                    return <TableCell key={j} />;
-                                  })}
-                                </TableRow>
-                              </React.Fragment>
-                            );
-                          })}
-                          <TableRow className="font-bold bg-muted">
-                            {groupedByAccountAndVendor.headers.map((key, j) => {
-                              if (j === 0) return <TableCell key={j} className="text-sm">합계</TableCell>;
-                              if (key === groupedByAccountAndVendor.debitHeader) return <TableCell key={j} className="text-sm text-right">{groupedByAccountAndVendor.grandDebit.toLocaleString()}</TableCell>;
-                              if (key === groupedByAccountAndVendor.creditHeader) return <TableCell key={j} className="text-sm text-right">{groupedByAccountAndVendor.grandCredit.toLocaleString()}</TableCell>;
-                              return <TableCell key={j} />;
-                            })}
-                          </TableRow>
-                        </>
-                      ) : (
-                        searchResults
-                          .filter(row => !isMonthlyOrCumulativeRow(row))
-                          .slice(0, 200)
-                          .map((row, idx) => (
-                              <TableRow key={idx}>
-                                {detailTableHeaders.map((key, j) => {
-                                  const val = key === '적요' ? descriptionValue(row) : row[key];
-                                  const isAmountColumn = key.includes('차변') || 
-                                        key.includes('대변') || 
-                                        key.includes('금액') ||
-                                        key.toLowerCase().includes('amount') ||
-                                        key.toLowerCase().includes('debit') ||
-                                        key.toLowerCase().includes('credit');
-                                  const isNumber = typeof val === 'number';
-                                  const isNumericString = typeof val === 'string' && String(val).trim() !== ''
-                                    && !isNaN(parseFloat(String(val).replace(/,/g, '')));
-                                  if (isAmountColumn && (isNumber || isNumericString)) {
-                                    const numVal = isNumber ? Number(val) : parseFloat(String(val).replace(/,/g, ''));
-                                    if (!isNaN(numVal) && numVal !== 0) {
-                                      return (
-                                        <TableCell key={j} className="text-sm text-right">
-                                          {numVal.toLocaleString()}
-                                        </TableCell>
-                                      );
-                                    }
-                                  }
-                                  if (val instanceof Date) {
-                                    return (
-                                      <TableCell key={j} className="text-sm">
-                                        {val.toLocaleDateString()}
-                                      </TableCell>
-                                    );
-                                  }
-                                  return (
-                                    <TableCell key={j} className="text-sm">
-                                      {String(val ?? '')}
-                                    </TableCell>
-                                  );
-                                })}
+              ) : groupedByAccountAndVendor ? (
+                <div className="space-y-4">
+                  <div className="rounded-md border max-h-[240px] overflow-y-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>계정과목</TableHead>
+                          <TableHead>거래처</TableHead>
+                          <TableHead className="text-right">건수</TableHead>
+                          <TableHead className="text-right">차변</TableHead>
+                          <TableHead className="text-right">대변</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {groupedByAccountAndVendor.accountOrder.map(account => {
+                          const accData = groupedByAccountAndVendor.byAccount.get(account)!;
+                          return (
+                            <React.Fragment key={account}>
+                              {accData.vendorOrder.map(vendor => {
+                                const venData = accData.byVendor.get(vendor)!;
+                                return (
+                                  <TableRow key={`${account}-${vendor}`}>
+                                    <TableCell className="text-sm">{account}</TableCell>
+                                    <TableCell className="text-sm">{vendor}</TableCell>
+                                    <TableCell className="text-sm text-right">{venData.count.toLocaleString()}</TableCell>
+                                    <TableCell className="text-sm text-right">{venData.debit.toLocaleString()}</TableCell>
+                                    <TableCell className="text-sm text-right">{venData.credit.toLocaleString()}</TableCell>
+                                  </TableRow>
+                                );
+                              })}
+                              <TableRow className="font-medium bg-muted/50">
+                                <TableCell className="text-sm" colSpan={2}>계정 소계: {account}</TableCell>
+                                <TableCell className="text-sm text-right">{accData.count.toLocaleString()}</TableCell>
+                                <TableCell className="text-sm text-right">{accData.debit.toLocaleString()}</TableCell>
+                                <TableCell className="text-sm text-right">{accData.credit.toLocaleString()}</TableCell>
                               </TableRow>
-                            ))
-                      )}
-                    </TableBody>
-                  </Table>
+                            </React.Fragment>
+                          );
+                        })}
+                        <TableRow className="font-bold bg-muted">
+                          <TableCell className="text-sm" colSpan={2}>합계</TableCell>
+                          <TableCell className="text-sm text-right">{groupedByAccountAndVendor.grandCount.toLocaleString()}</TableCell>
+                          <TableCell className="text-sm text-right">{groupedByAccountAndVendor.grandDebit.toLocaleString()}</TableCell>
+                          <TableCell className="text-sm text-right">{groupedByAccountAndVendor.grandCredit.toLocaleString()}</TableCell>
+                        </TableRow>
+                      </TableBody>
+                    </Table>
+                  </div>
+                  <DataGrid
+                    rows={groupedGridRows}
+                    columns={groupedGridColumns}
+                    getRowKey={getIndexRowKey}
+                    height={600}
+                    selectable
+                  />
                 </div>
+              ) : (
+                <DataGrid
+                  rows={detailRows}
+                  columns={detailColumns}
+                  getRowKey={getIndexRowKey}
+                  height={600}
+                  selectable
+                />
               )}
-              {displayMode === 'detail' && searchResults.length > 200 && (
-              <p className="text-sm text-muted-foreground text-center mt-4">
-                상위 200건만 표시됩니다. 전체 결과는 다운로드로 확인하세요.
-              </p>
-            )}
           </CardContent>
         </Card>
       )}
@@ -1816,50 +1423,14 @@ export const TransactionSearch: React.FC<TransactionSearchProps> = ({
               )}
             </div>
           </DialogHeader>
-          <div className="flex-1 overflow-auto rounded border">
-            {monthlyDrilldownRows.length > 0 ? (
-              (() => {
-                const drilldownKeys = Object.keys(monthlyDrilldownRows[0]).filter(
-                  key => !String(key).includes('잔액') && !String(key).toLowerCase().includes('balance')
-                );
-                return (
-                  <Table>
-                    <TableHeader>
-                      <TableRow>
-                        {drilldownKeys.map(key => (
-                          <TableHead key={key}>{key}</TableHead>
-                        ))}
-                      </TableRow>
-                    </TableHeader>
-                    <TableBody>
-                      {monthlyDrilldownRows.map((row, idx) => (
-                        <TableRow key={idx}>
-                          {drilldownKeys.map(key => {
-                            const val = row[key];
-                            const isAmount = key.includes('차변') || key.includes('대변') || key.includes('금액');
-                            const numVal = isAmount && (typeof val === 'number' || (typeof val === 'string' && /[\d,.-]/.test(String(val))))
-                              ? (typeof val === 'number' ? val : parseFloat(String(val).replace(/,/g, '')))
-                              : null;
-                            return (
-                              <TableCell key={key} className={isAmount && numVal != null ? 'text-right' : ''}>
-                                {val instanceof Date
-                                  ? val.toLocaleDateString()
-                                  : numVal != null && !isNaN(numVal)
-                                    ? numVal.toLocaleString()
-                                    : String(val ?? '')}
-                              </TableCell>
-                            );
-                          })}
-                        </TableRow>
-                      ))}
-                    </TableBody>
-                  </Table>
-                );
-              })()
-            ) : (
-              <p className="p-4 text-sm text-muted-foreground text-center">내역이 없습니다.</p>
-            )}
-          </div>
+          <DataGrid
+            rows={monthlyDrilldownRows}
+            columns={monthlyDrilldownColumns}
+            getRowKey={getIndexRowKey}
+            height={440}
+            emptyMessage="내역이 없습니다."
+            selectable
+          />
         </DialogContent>
       </Dialog>
     </div>
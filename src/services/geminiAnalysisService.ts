@@ -2,14 +2,29 @@
  * Gemini 기반 회계 분석 서비스
  * Google AI Studio 코드를 현재 프로젝트 방식으로 변환
  * 기존 geminiClient.ts를 활용하여 구현
+ * AI 설정에서 OpenAI 호환 공급자를 선택하면 같은 프롬프트를 해당 엔드포인트로 보냅니다.
  */
 
-import { createGeminiClient, getApiKey } from '@/lib/geminiClient';
+import { createGeminiClient, getApiKey, hasApiKey } from '@/lib/geminiClient';
+import { generateWithOpenAiCompatible, getGeminiModelCandidates, getLlmSettings } from '@/lib/llmProvider';
+import {
+  appropriatenessAnalysisSchema,
+  buildRepairPrompt,
+  generalAnalysisSchema,
+  holidayAnalysisSchema,
+  minAmountSuggestionSchema,
+  salvageAppropriatenessAnalysis,
+  salvageHolidayAnalysis,
+  validateAiOutput,
+  type AiOutputSchema,
+  type SalvagedAiOutput,
+} from '@/lib/aiSchemas';
 import {
   anonymizeJournalEntries,
   deanonymizeAnalysisText,
   deanonymizeFlaggedItems,
 } from '@/lib/anonymization';
+import { getDayType, getHoliday, normalizeDateKey } from '@/lib/holidayCalendar';
 import type { 
   JournalEntry, 
   GeneralAnalysisResult, 
@@ -99,129 +114,166 @@ const convertToJournalEntry = (row: { [key: string]: string | number | Date | un
 };
 
 /**
- * 일반 분석 수행
- * 전체적인 비용 성격, 고위험 거래 식별, 위험 점수 제공
+ * 선택한 AI 공급자로 JSON 응답 텍스트를 요청합니다.
+ * - OpenAI 호환: 설정한 모델 하나로 호출
+ * - Gemini: 모델 후보를 순서대로 시도 (404·빈 응답은 다음 모델, 429·401·403은 즉시 오류)
  */
-export const analyzeGeneral = async (
-  entries: JournalEntry[]
-): Promise<GeneralAnalysisResult | null> => {
-  const apiKey = getApiKey();
-  if (!apiKey) {
-    console.warn("No API Key found");
-    return null;
+const requestJsonText = async (prompt: string, label: string, temperature?: number): Promise<string> => {
+  if (getLlmSettings().provider === 'openai_compatible') {
+    console.log(`🔄 OpenAI 호환 엔드포인트로 ${label} 시도 중...`);
+    return generateWithOpenAiCompatible(prompt, { json: true, temperature });
   }
 
-  const client = createGeminiClient(apiKey);
+  const client = createGeminiClient(getApiKey() || undefined);
   if (!client) {
-    console.error("Failed to create Gemini client");
-    return null;
+    throw new Error('API Key가 설정되지 않았습니다. 설정 버튼을 클릭하여 Google Gemini API Key를 입력해주세요.');
   }
 
-  // 익명화된 엔트리로 컨텍스트 준비 (구글 클라우드로 전송)
-  const anonymizedEntries = anonymizeJournalEntries(entries);
-  const context = prepareContext(anonymizedEntries);
-
-  const prompt = `
-You are a professional financial auditor for Korean corporate accounting.
-
-Analyze the following journal entry data summary:
-
-${context}
-
-Provide a "General Review" (일반사항).
-
-1. Assess the overall nature of expenses (e.g., Manufacturing, Service, IT).
-
-2. Identify any immediate high-level risks based on the high value transactions.
-
-3. Provide a risk score (0-100).
-
-Return JSON in the following format:
-{
-  "riskScore": number (0-100),
-  "content": string (detailed analysis in Korean, markdown format)
-}
-
-Keep the content professional and in Korean. Use markdown for formatting.
-`;
-
-  const modelsToTry = [
-    'gemini-3.1-flash-lite',  // 최신 Flash Lite (최우선)
-    'gemini-3-pro-preview',   // Pro Preview (두 번째)
-    'gemini-2.5-flash',       // 2.5 Flash (대체)
-    'gemini-2.0-flash',       // 이전 Flash (대체)
-    'gemini-1.5-flash',       // 안정적인 Flash (대체)
-  ];
-  
   let lastError: any = null;
-  
-  for (const modelName of modelsToTry) {
+
+  for (const modelName of getGeminiModelCandidates('flash')) {
     try {
-      console.log(`🔄 ${modelName} 모델로 일반 분석 시도 중...`);
-      const model = client.getGenerativeModel({ 
+      console.log(`🔄 ${modelName} 모델로 ${label} 시도 중...`);
+      const model = client.getGenerativeModel({
         model: modelName,
         generationConfig: {
           responseMimeType: 'application/json',
+          ...(temperature === undefined ? {} : { temperature }),
         },
       });
       const result = await model.generateContent(prompt);
       const response = result.response;
       const text = response.text();
-      
+
       if (!text) {
         console.warn(`⚠️ ${modelName}: 빈 응답 반환`);
         continue;
       }
 
-      // JSON 파싱
-      const parsed = JSON.parse(text) as GeneralAnalysisResult;
-      
-      // 유효성 검증
-      if (typeof parsed.riskScore !== 'number' || !parsed.content) {
-        console.error(`⚠️ ${modelName}: Invalid response format:`, parsed);
-        continue;
-      }
-
-      // 분석 결과 텍스트에서 익명화된 이름을 실제 이름으로 복원
-      parsed.content = deanonymizeAnalysisText(parsed.content);
-
-      console.log(`✅ ${modelName} 모델로 분석 성공!`);
-      return parsed;
+      console.log(`✅ ${modelName} 모델 응답 수신`);
+      return text;
     } catch (modelError: any) {
       console.error('Gemini API Error:', modelError?.message ?? modelError);
       console.warn(`⚠️ ${modelName} 모델 오류:`, modelError.message || modelError);
       lastError = modelError;
-      
+
       // 404 오류인 경우 다음 모델 시도
       if (modelError.message?.includes('404') || modelError.message?.includes('not found') || modelError.status === 404) {
-        console.error('모델명 확인: 최신 명칭 gemini-3-pro-preview, 대안 gemini-3-pro');
         console.log(`⏭️ ${modelName} 모델을 찾을 수 없습니다. 다음 모델로 시도합니다...`);
         continue;
       }
-      
-      // 429, 401, 403 같은 다른 오류는 즉시 throw
+
+      // 429, 401, 403 같은 다른 오류는 즉시 throw (상태 코드는 호출부에서 사유 표시용으로 유지)
       if (modelError.status === 429) {
         console.error("할당량 초과 (429): 분당 요청 제한을 초과했습니다. 잠시 후 다시 시도해주세요.");
-        throw new Error("API 사용량 한도 초과: 무료 티어는 분당 15회 요청 제한이 있습니다. 1-2분 후 다시 시도해주세요.");
+        throw Object.assign(
+          new Error("API 사용량 한도 초과: 무료 티어는 분당 15회 요청 제한이 있습니다. 1-2분 후 다시 시도해주세요."),
+          { status: 429 }
+        );
       } else if (modelError.status === 401 || modelError.status === 403) {
         console.error("API Key 인증 실패:", modelError.status);
-        throw new Error("API Key가 유효하지 않습니다. 설정에서 API Key를 확인하고 다시 시도해주세요.");
+        throw Object.assign(
+          new Error("API Key가 유효하지 않습니다. 설정에서 API Key를 확인하고 다시 시도해주세요."),
+          { status: modelError.status }
+        );
       }
-      
+
       // 404가 아닌 다른 오류는 다음 모델 시도
     }
   }
-  
+
   // 모든 모델 실패
-  console.error("❌ 모든 모델로 일반 분석 실패");
-  if (lastError) {
-    console.error("AI General Analysis Error:", lastError);
-    if (lastError.status === 404) {
-      throw new Error("모델을 찾을 수 없습니다. API Key가 올바른지 확인해주세요.");
-    }
-    throw lastError;
+  console.error(`❌ 모든 모델로 ${label} 실패`);
+  if (lastError?.status === 404) {
+    throw new Error("모델을 찾을 수 없습니다. API Key가 올바른지 확인해주세요.");
+  }
+  throw lastError || new Error("모든 모델로 분석 실패했습니다.");
+};
+
+interface RequestJsonOptions<T> {
+  prompt: string;
+  label: string; // 로그/오류 메시지용 분석 이름 (프롬프트에는 포함되지 않음)
+  schema: AiOutputSchema<T>;
+  temperature?: number;
+  // 재요청 후에도 검증에 실패하면 형식이 맞는 부분만 남기는 함수 (없으면 오류)
+  salvage?: (value: unknown) => SalvagedAiOutput<T> | null;
+}
+
+/**
+ * JSON 응답을 받아 zod 스키마로 검증합니다.
+ * 검증에 실패하면 오류 내용을 프롬프트에 붙여 한 번 다시 요청하고,
+ * 그래도 실패하면 salvage 결과(제외한 항목은 issues로 반환)를 쓰거나 검증 오류를 던집니다.
+ */
+const requestJson = async <T>(options: RequestJsonOptions<T>): Promise<SalvagedAiOutput<T>> => {
+  const { prompt, label, schema } = options;
+  const text = await requestJsonText(prompt, label, options.temperature);
+  const first = validateAiOutput(text, schema);
+  if (first.data !== null) return { data: first.data, issues: [] };
+
+  console.warn(`⚠️ ${label}: 응답 검증 실패, 오류 내용을 알려주고 다시 요청합니다.`, first.issues);
+  const repairedText = await requestJsonText(buildRepairPrompt(prompt, text, first.issues), `${label} 응답 수정`, options.temperature);
+  const repaired = validateAiOutput(repairedText, schema);
+  if (repaired.data !== null) return { data: repaired.data, issues: [] };
+
+  const salvaged = options.salvage?.(repaired.value);
+  if (salvaged) {
+    console.warn(`⚠️ ${label}: 형식 오류 항목을 제외하고 결과를 사용합니다.`, salvaged.issues);
+    return salvaged;
+  }
+
+  console.error(`❌ ${label}: 응답 검증 실패`, repaired.issues);
+  throw new Error(
+    `AI 응답이 ${label} 결과 형식을 따르지 않습니다. 다시 시도하거나 다른 모델을 선택해주세요. ` +
+    `(${repaired.issues.slice(0, 3).join(' / ')}${repaired.issues.length > 3 ? ` 외 ${repaired.issues.length - 3}건` : ''})`
+  );
+};
+
+/**
+ * 일반 분석 수행
+ * 전체적인 비용 성격, 고위험 거래 식별, 위험 점수 제공
+ */
+export const analyzeGeneral = async (
+  entries: JournalEntry[]
+): Promise<GeneralAnalysisResult | null> => {
+  if (!hasApiKey()) {
+    console.warn("No AI provider configured");
+    return null;
   }
-  throw new Error("모든 모델로 분석 실패했습니다.");
+
+  // 익명화된 엔트리로 컨텍스트 준비 (선택한 AI 공급자로 전송)
+  const anonymizedEntries = anonymizeJournalEntries(entries);
+  const context = prepareContext(anonymizedEntries);
+
+  const prompt = `
+You are a professional financial auditor for Korean corporate accounting.
+
+Analyze the following journal entry data summary:
+
+${context}
+
+Provide a "General Review" (일반사항).
+
+1. Assess the overall nature of expenses (e.g., Manufacturing, Service, IT).
+
+2. Identify any immediate high-level risks based on the high value transactions.
+
+3. Provide a risk score (0-100).
+
+Return JSON in the following format:
+{
+  "riskScore": number (0-100),
+  "content": string (detailed analysis in Korean, markdown format)
+}
+
+Keep the content professional and in Korean. Use markdown for formatting.
+`;
+
+  // 위험 점수(0~100)나 내용이 틀리면 한 번 다시 요청하고, 그래도 틀리면 오류
+  const { data: parsed } = await requestJson({ prompt, label: '일반 분석', schema: generalAnalysisSchema });
+
+  // 분석 결과 텍스트에서 익명화된 이름을 실제 이름으로 복원
+  parsed.content = deanonymizeAnalysisText(parsed.content);
+  return parsed;
 };
 
 /**
@@ -231,20 +283,14 @@ Keep the content professional and in Korean. Use markdown for formatting.
 export const analyzeHoliday = async (
   entries: JournalEntry[]
 ): Promise<HolidayAnalysisResult | null> => {
-  const apiKey = getApiKey();
-  if (!apiKey) {
-    console.warn("No API Key found");
-    return null;
-  }
-
-  const client = createGeminiClient(apiKey);
-  if (!client) {
-    console.error("Failed to create Gemini client");
+  if (!hasApiKey()) {
+    console.warn("No AI provider configured");
     return null;
   }
 
-  // 비용만 필터링
-  const expenses = entries.filter(e => e.debit > 0);
+  // 휴일 달력 기준 주말·공휴일·회사 휴무일에 발생한 비용만 필터링
+  const expenses = entries.filter(e => e.debit > 0 && getDayType(e.date) !== 'weekday');
+  if (expenses.length === 0) return { items: [] };
   
   // 공휴일 거래는 금액과 무관하게 발견되어야 하므로 층화 샘플링 적용
   // 1. 상위 고액 거래 300개 (이상 거래 탐지)
@@ -256,14 +302,18 @@ export const analyzeHoliday = async (
     .slice(0, 700);
   const limitedEntries = [...topExpenses, ...randomExpenses];
 
-  // 익명화된 엔트리로 변환 (구글 클라우드로 전송)
+  // 익명화된 엔트리로 변환 (선택한 AI 공급자로 전송)
   const anonymizedEntries = anonymizeJournalEntries(limitedEntries);
-  const dataStr = anonymizedEntries.map(e => 
-    `[${e.date}] ${e.accountName} | ${e.vendor} | ${e.description} | ${e.debit}`
-  ).join('\n');
+  const dayLabels: Record<string, string> = { sat: '토요일', sun: '일요일' };
+  const dataStr = anonymizedEntries.map((e, idx) => {
+    const source = limitedEntries[idx];
+    const dayLabel = getHoliday(source.date)?.name || dayLabels[getDayType(source.date)];
+    return `[${normalizeDateKey(source.date) ?? e.date} ${dayLabel}] ${e.accountName} | ${e.vendor} | ${e.description} | ${e.debit}`;
+  }).join('\n');
 
   const prompt = `
 You are an auditor checking for suspicious weekend/holiday expenses.
+Every entry below was posted on a Saturday, Sunday, public holiday or company closure day (shown next to the date).
 
 Data:
 ${dataStr}
@@ -278,82 +328,17 @@ Return JSON in the following format:
 If none, items should be an empty array.
 `;
 
-  const modelsToTry = [
-    'gemini-3.1-flash-lite',  // 최신 Flash Lite (최우선)
-    'gemini-3-pro-preview',   // Pro Preview (두 번째)
-    'gemini-2.5-flash',       // 2.5 Flash (대체)
-    'gemini-2.0-flash',       // 이전 Flash (대체)
-    'gemini-1.5-flash',       // 안정적인 Flash (대체)
-  ];
-  
-  let lastError: any = null;
-  
-  for (const modelName of modelsToTry) {
-    try {
-      console.log(`🔄 ${modelName} 모델로 공휴일 분석 시도 중...`);
-      const model = client.getGenerativeModel({ 
-        model: modelName,
-        generationConfig: {
-          responseMimeType: 'application/json',
-        },
-      });
-      const result = await model.generateContent(prompt);
-      const response = result.response;
-      const text = response.text();
-      
-      if (!text) {
-        console.warn(`⚠️ ${modelName}: 빈 응답 반환`);
-        continue;
-      }
-
-      const parsed = JSON.parse(text) as HolidayAnalysisResult;
-      
-      // 유효성 검증
-      if (!Array.isArray(parsed.items)) {
-        console.error(`⚠️ ${modelName}: Invalid response format:`, parsed);
-        continue;
-      }
-
-      // 분석 결과에서 익명화된 이름을 실제 이름으로 복원
-      parsed.items = parsed.items.map(item => deanonymizeAnalysisText(item));
+  const { data: parsed, issues } = await requestJson({
+    prompt,
+    label: '공휴일 분석',
+    schema: holidayAnalysisSchema,
+    salvage: salvageHolidayAnalysis,
+  });
 
-      console.log(`✅ ${modelName} 모델로 분석 성공!`);
-      return parsed;
-    } catch (modelError: any) {
-      console.error('Gemini API Error:', modelError?.message ?? modelError);
-      console.warn(`⚠️ ${modelName} 모델 오류:`, modelError.message || modelError);
-      lastError = modelError;
-      
-      // 404 오류인 경우 다음 모델 시도
-      if (modelError.message?.includes('404') || modelError.message?.includes('not found') || modelError.status === 404) {
-        console.error('모델명 확인: 최신 명칭 gemini-3-pro-preview, 대안 gemini-3-pro');
-        console.log(`⏭️ ${modelName} 모델을 찾을 수 없습니다. 다음 모델로 시도합니다...`);
-        continue;
-      }
-      
-      // 429, 401, 403 같은 다른 오류는 즉시 throw
-      if (modelError.status === 429) {
-        console.error("할당량 초과 (429): 분당 요청 제한을 초과했습니다. 잠시 후 다시 시도해주세요.");
-        throw new Error("API 사용량 한도 초과: 무료 티어는 분당 15회 요청 제한이 있습니다. 1-2분 후 다시 시도해주세요.");
-      } else if (modelError.status === 401 || modelError.status === 403) {
-        console.error("API Key 인증 실패:", modelError.status);
-        throw new Error("API Key가 유효하지 않습니다. 설정에서 API Key를 확인하고 다시 시도해주세요.");
-      }
-      
-      // 404가 아닌 다른 오류는 다음 모델 시도
-    }
-  }
-  
-  // 모든 모델 실패
-  console.error("❌ 모든 모델로 공휴일 분석 실패");
-  if (lastError) {
-    console.error("Holiday Analysis Error:", lastError);
-    if (lastError.status === 404) {
-      throw new Error("모델을 찾을 수 없습니다. API Key가 올바른지 확인해주세요.");
-    }
-    throw lastError;
-  }
-  throw new Error("모든 모델로 분석 실패했습니다.");
+  // 분석 결과에서 익명화된 이름을 실제 이름으로 복원
+  parsed.items = parsed.items.map(item => deanonymizeAnalysisText(item));
+  if (issues.length > 0) parsed.validationIssues = issues;
+  return parsed;
 };
 
 /**
@@ -371,15 +356,8 @@ export interface SuggestedMinAmount {
 export const suggestAppropriateMinAmount = async (
   entries: JournalEntry[]
 ): Promise<SuggestedMinAmount> => {
-  const apiKey = getApiKey();
-  if (!apiKey) {
-    // API 키가 없으면 통계적으로 계산
-    const amount = calculateStatisticalMinAmount(entries);
-    return { amount, reason: '통계적 방법으로 계산된 금액입니다.' };
-  }
-
-  const client = createGeminiClient(apiKey);
-  if (!client) {
+  if (!hasApiKey()) {
+    // AI 공급자가 설정되지 않았으면 통계적으로 계산
     const amount = calculateStatisticalMinAmount(entries);
     return { amount, reason: '통계적 방법으로 계산된 금액입니다.' };
   }
@@ -450,59 +428,40 @@ ${topAccounts.map(a => `- ${a.name}: ${a.count}건, 평균 ${Math.round(a.avgAmo
 예: {"suggestedMinAmount": 150000, "reason": "95백분위수 기준으로 상위 5% 항목만 분석하면 약 500건 정도로 적정한 분석량이 됩니다."}
 `;
 
-  const suggestModels = ['gemini-3.1-flash-lite', 'gemini-3-pro-preview', 'gemini-2.5-flash', 'gemini-2.0-flash'];
-  for (const modelName of suggestModels) {
-    try {
-      const model = client.getGenerativeModel({ 
-        model: modelName,
-        generationConfig: {
-          responseMimeType: 'application/json',
-          temperature: 0.7,
-        },
-      });
-      const result = await model.generateContent(prompt);
-      const response = result.response;
-      const text = response.text();
-      
-      if (!text) continue;
-
-      const parsed = JSON.parse(text);
-      const suggestedAmount = parsed.suggestedMinAmount || calculateStatisticalMinAmount(entries);
-      const reason = parsed.reason || 'AI가 제안한 금액입니다.';
-      
-      // 제안 금액이 합리적인 범위인지 확인
-      if (suggestedAmount >= minAmount && suggestedAmount <= maxAmount) {
-        return { 
-          amount: Math.round(suggestedAmount),
-          reason: reason
-        };
-      } else {
-        const amount = calculateStatisticalMinAmount(entries);
-        return { 
-          amount,
-          reason: '제안 금액이 범위를 벗어나 통계적 방법으로 재계산했습니다.'
-        };
-      }
-    } catch (error: any) {
-      const is404 = error.status === 404 || (error.message || '').includes('404') || (error.message || '').toLowerCase().includes('not found');
-      if (is404) {
-        console.warn(`⚠️ ${modelName} 모델을 찾을 수 없습니다. 다음 모델로 시도합니다.`);
-        continue;
-      }
-      console.error("적정 금액 제안 오류:", error);
+  try {
+    const { data: parsed } = await requestJson({
+      prompt,
+      label: '적정 금액 제안',
+      schema: minAmountSuggestionSchema,
+      temperature: 0.7,
+    });
+    const suggestedAmount = parsed.suggestedMinAmount || calculateStatisticalMinAmount(entries);
+    const reason = parsed.reason || 'AI가 제안한 금액입니다.';
+
+    // 제안 금액이 합리적인 범위인지 확인
+    if (suggestedAmount >= minAmount && suggestedAmount <= maxAmount) {
+      return {
+        amount: Math.round(suggestedAmount),
+        reason: reason
+      };
+    } else {
       const amount = calculateStatisticalMinAmount(entries);
-      let reason = '오류가 발생하여 통계적 방법으로 계산했습니다.';
-      if (error.status === 429) {
-        reason = 'API 사용량 한도 초과로 통계적 방법으로 계산했습니다.';
-      } else if (error.status === 401 || error.status === 403) {
-        reason = 'API 인증 오류로 통계적 방법으로 계산했습니다.';
-      }
-      return { amount, reason };
+      return {
+        amount,
+        reason: '제안 금액이 범위를 벗어나 통계적 방법으로 재계산했습니다.'
+      };
     }
+  } catch (error: any) {
+    console.error("적정 금액 제안 오류:", error);
+    const amount = calculateStatisticalMinAmount(entries);
+    let reason = '오류가 발생하여 통계적 방법으로 계산했습니다.';
+    if (error.status === 429) {
+      reason = 'API 사용량 한도 초과로 통계적 방법으로 계산했습니다.';
+    } else if (error.status === 401 || error.status === 403) {
+      reason = 'API 인증 오류로 통계적 방법으로 계산했습니다.';
+    }
+    return { amount, reason };
   }
-  // 모든 모델 실패 시 통계적 방법
-  const amount = calculateStatisticalMinAmount(entries);
-  return { amount, reason: 'API 모델을 사용할 수 없어 통계적 방법으로 계산했습니다.' };
 };
 
 /**
@@ -542,15 +501,8 @@ export const analyzeAppropriateness = async (
   entries: JournalEntry[]
 ): Promise<AppropriatenessAnalysisResult | null> => {
   // 다른 분석 함수들과 동일한 방식으로 API 키 처리
-  const apiKey = getApiKey();
-  if (!apiKey) {
-    console.warn("No API Key found");
-    return null;
-  }
-
-  const client = createGeminiClient(apiKey);
-  if (!client) {
-    console.error("Failed to create Gemini client");
+  if (!hasApiKey()) {
+    console.warn("No AI provider configured");
     return null;
   }
 
@@ -611,7 +563,7 @@ export const analyzeAppropriateness = async (
     };
   }
 
-  // 익명화된 엔트리로 변환 (구글 클라우드로 전송)
+  // 익명화된 엔트리로 변환 (선택한 AI 공급자로 전송)
   const anonymizedSample = anonymizeJournalEntries(finalSample);
   const dataStr = anonymizedSample.map(e => 
     `${e.date} | Account:${e.accountName} | Desc:${e.description} | Amt:${e.debit}`
@@ -647,80 +599,24 @@ Return JSON in the following format:
 `;
 
   try {
-    const modelsToTry = [
-      'gemini-3.1-flash-lite',  // 최신 Flash Lite (최우선)
-      'gemini-3-pro-preview',   // Pro Preview (두 번째)
-      'gemini-2.5-flash',       // 2.5 Flash (대체)
-      'gemini-2.0-flash',       // 이전 Flash (대체)
-      'gemini-1.5-flash',       // 안정적인 Flash (대체)
-    ];
-    
-    let lastError: any = null;
-    
-    for (const modelName of modelsToTry) {
-      try {
-        console.log(`🔄 ${modelName} 모델로 적요 적합성 분석 시도 중...`);
-        const model = client.getGenerativeModel({ 
-          model: modelName,
-          generationConfig: {
-            responseMimeType: 'application/json',
-          },
-        });
-        const result = await model.generateContent(prompt);
-        const response = result.response;
-        const text = response.text();
-        
-        if (!text) {
-          console.warn(`⚠️ ${modelName}: 빈 응답 반환`);
-          continue;
-        }
-
-        const parsed = JSON.parse(text) as AppropriatenessAnalysisResult;
-        
-        // 유효성 검증
-        if (typeof parsed.score !== 'number' || !Array.isArray(parsed.flaggedItems)) {
-          console.error(`⚠️ ${modelName}: Invalid response format:`, parsed);
-          continue;
-        }
-
-        // flaggedItems 검증
-        parsed.flaggedItems = parsed.flaggedItems.filter(item => 
-          item.date && item.accountName && item.description !== undefined && item.amount !== undefined && item.reason
-        );
+    // 금액이 없는 등 형식이 틀린 의심 항목은 제외하고 validationIssues로 표시
+    const { data: parsed, issues } = await requestJson({
+      prompt,
+      label: '적요 적합성 분석',
+      schema: appropriatenessAnalysisSchema,
+      salvage: salvageAppropriatenessAnalysis,
+    });
+    if (issues.length > 0) parsed.validationIssues = issues;
+
+    // 분석 결과에서 익명화된 이름을 실제 이름으로 복원
+    parsed.flaggedItems = deanonymizeFlaggedItems(parsed.flaggedItems);
+    parsed.flaggedItems = parsed.flaggedItems.map(item => ({
+      ...item,
+      reason: deanonymizeAnalysisText(item.reason),
+      recommendedAccount: item.recommendedAccount ? deanonymizeAnalysisText(item.recommendedAccount) : item.recommendedAccount,
+    }));
 
-        // 분석 결과에서 익명화된 이름을 실제 이름으로 복원
-        parsed.flaggedItems = deanonymizeFlaggedItems(parsed.flaggedItems);
-        parsed.flaggedItems = parsed.flaggedItems.map(item => ({
-          ...item,
-          reason: deanonymizeAnalysisText(item.reason),
-          recommendedAccount: item.recommendedAccount ? deanonymizeAnalysisText(item.recommendedAccount) : item.recommendedAccount,
-        }));
-
-        console.log(`✅ ${modelName} 모델로 분석 성공!`);
-        return parsed;
-      } catch (modelError: any) {
-        console.error('Gemini API Error:', modelError?.message ?? modelError);
-        console.warn(`⚠️ ${modelName} 모델 오류:`, modelError.message || modelError);
-        lastError = modelError;
-        
-        // 404 오류인 경우 다음 모델 시도
-        if (modelError.message?.includes('404') || modelError.message?.includes('not found')) {
-          console.error('모델명 확인: 최신 명칭 gemini-3-pro-preview, 대안 gemini-3-pro');
-          console.log(`⏭️ ${modelName} 모델을 찾을 수 없습니다. 다음 모델로 시도합니다...`);
-          continue;
-        }
-        
-        // 404가 아닌 다른 오류는 즉시 반환 (할당량 오류 등)
-        if (!modelError.message?.includes('404') && !modelError.message?.includes('not found')) {
-          throw modelError;
-        }
-      }
-    }
-    
-    // 모든 모델 실패
-    console.error("❌ 모든 모델로 분석 실패");
-    throw lastError || new Error("모든 모델로 분석 실패했습니다.");
-    
+    return parsed;
   } catch (error: any) {
     console.error("Appropriateness Analysis Error:", error);
     // 에러 정보를 더 자세히 로깅
@@ -16,6 +16,11 @@ export interface JournalEntry {
   debit: number;
   credit: number;
   description: string;
+  balance?: number; // 잔액 (원장에 잔액 컬럼이 있는 경우)
+  sheetName?: string; // 원본 시트명 (통합 원장 모델)
+  rowIndex?: number; // 원본 시트 내 데이터 행 순번 (통합 원장 모델)
+  summaryType?: 'monthly' | 'cumulative' | 'carryForward'; // 월계/누계/전기이월 합계행 플래그
+  raw?: { [key: string]: string | number | Date | undefined }; // 원본 행 (상세내역 표시용)
 }
 
 /**
@@ -31,6 +36,7 @@ export interface GeneralAnalysisResult {
  */
 export interface HolidayAnalysisResult {
   items: string[]; // 의심스러운 거래 목록 (예: "2024-01-01 - 골프장: 주말 비즈니스 거래 아님")
+  validationIssues?: string[]; // AI 응답 검증에서 걸러낸 문제 (해당 항목은 items에서 제외)
 }
 
 /**
@@ -39,6 +45,7 @@ export interface HolidayAnalysisResult {
 export interface AppropriatenessAnalysisResult {
   score: number; // 전체 회계 정확도 점수 (0-100)
   flaggedItems: FlaggedItem[];
+  validationIssues?: string[]; // AI 응답 검증에서 걸러낸 문제 (해당 항목은 flaggedItems에서 제외)
 }
 
 /**
@@ -0,0 +1,167 @@
+-- Create table for audit engagements (client + fiscal year workspace)
+CREATE TABLE public.engagements (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL DEFAULT auth.uid(),
+  client_name TEXT NOT NULL,
+  fiscal_year INTEGER NOT NULL,
+  memo TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX engagements_user_id_idx ON public.engagements (user_id, updated_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE public.engagements ENABLE ROW LEVEL SECURITY;
+
+-- Create policies
+CREATE POLICY "Users can view their own engagements"
+ON public.engagements
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own engagements"
+ON public.engagements
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own engagements"
+ON public.engagements
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own engagements"
+ON public.engagements
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Uploaded engagement files (ledgers, financial statements) reuse general_ledgers.
+-- The original file lives in Storage, so data stays empty for these rows.
+ALTER TABLE public.general_ledgers
+  ADD COLUMN engagement_id UUID REFERENCES public.engagements(id) ON DELETE CASCADE,
+  ADD COLUMN kind TEXT CHECK (kind IN ('current_ledger', 'previous_ledger', 'older_ledger', 'financial_statement')),
+  ADD COLUMN storage_path TEXT,
+  ADD COLUMN fiscal_year INTEGER,
+  ADD COLUMN column_mappings JSONB,
+  ALTER COLUMN data SET DEFAULT '[]'::jsonb;
+
+CREATE INDEX general_ledgers_engagement_id_idx ON public.general_ledgers (engagement_id);
+
+-- Files can only be attached to (or moved onto) the user's own engagements
+DROP POLICY "Users can create their own ledgers" ON public.general_ledgers;
+
+CREATE POLICY "Users can create their own ledgers"
+ON public.general_ledgers
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND (
+    engagement_id IS NULL
+    OR EXISTS (SELECT 1 FROM public.engagements e WHERE e.id = engagement_id AND e.user_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Users can update their own ledgers"
+ON public.general_ledgers
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND (
+    engagement_id IS NULL
+    OR EXISTS (SELECT 1 FROM public.engagements e WHERE e.id = engagement_id AND e.user_id = auth.uid())
+  )
+);
+
+-- AI and statistical results saved to an engagement reuse ledger_analysis.
+-- result_key separates results of the same type (e.g. per account); one row per engagement, type and key.
+ALTER TABLE public.ledger_analysis
+  ALTER COLUMN ledger_id DROP NOT NULL,
+  ADD COLUMN engagement_id UUID REFERENCES public.engagements(id) ON DELETE CASCADE,
+  ADD COLUMN result_key TEXT NOT NULL DEFAULT '',
+  ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  ADD CONSTRAINT ledger_analysis_engagement_result_key UNIQUE (engagement_id, analysis_type, result_key);
+
+DROP POLICY "Users can create their own analysis" ON public.ledger_analysis;
+
+CREATE POLICY "Users can create their own analysis"
+ON public.ledger_analysis
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND (
+    engagement_id IS NULL
+    OR EXISTS (SELECT 1 FROM public.engagements e WHERE e.id = engagement_id AND e.user_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Users can update their own analysis"
+ON public.ledger_analysis
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND (
+    engagement_id IS NULL
+    OR EXISTS (SELECT 1 FROM public.engagements e WHERE e.id = engagement_id AND e.user_id = auth.uid())
+  )
+);
+
+-- Keep engagements.updated_at current when files or results change
+CREATE OR REPLACE FUNCTION public.touch_engagement()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'engagements' THEN
+    NEW.updated_at = now();
+    RETURN NEW;
+  END IF;
+  IF TG_TABLE_NAME = 'ledger_analysis' AND TG_OP = 'UPDATE' THEN
+    NEW.updated_at = now();
+  END IF;
+  IF TG_OP = 'DELETE' THEN
+    UPDATE public.engagements SET updated_at = now() WHERE id = OLD.engagement_id;
+    RETURN OLD;
+  END IF;
+  IF NEW.engagement_id IS NOT NULL THEN
+    UPDATE public.engagements SET updated_at = now() WHERE id = NEW.engagement_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER engagements_touch
+BEFORE UPDATE ON public.engagements
+FOR EACH ROW EXECUTE FUNCTION public.touch_engagement();
+
+CREATE TRIGGER general_ledgers_touch_engagement
+AFTER INSERT OR DELETE ON public.general_ledgers
+FOR EACH ROW EXECUTE FUNCTION public.touch_engagement();
+
+CREATE TRIGGER ledger_analysis_touch_engagement
+BEFORE INSERT OR UPDATE ON public.ledger_analysis
+FOR EACH ROW EXECUTE FUNCTION public.touch_engagement();
+
+-- Private storage bucket for engagement files; objects live under "<user_id>/<engagement_id>/..."
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('engagement-files', 'engagement-files', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can view their own engagement objects"
+ON storage.objects
+FOR SELECT
+USING (bucket_id = 'engagement-files' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can upload their own engagement objects"
+ON storage.objects
+FOR INSERT
+WITH CHECK (bucket_id = 'engagement-files' AND auth.uid()::text = (storage.foldername(name))[1]);
+
+CREATE POLICY "Users can delete their own engagement objects"
+ON storage.objects
+FOR DELETE
+USING (bucket_id = 'engagement-files' AND auth.uid()::text = (storage.foldername(name))[1]);